@@ -5,6 +5,7 @@ import { Toaster } from 'sonner';
 // Contexts
 import { AuthProvider } from './contexts/AuthContext';
 import { RecommendationProvider } from './contexts/RecommendationContext';
+import { ChatProvider } from './contexts/ChatContext';
 
 // Layouts
 import { MainLayout } from './layouts/MainLayout';
@@ -14,6 +15,7 @@ import { Index } from './pages/Index';
 import { AuthPage } from './pages/AuthPage';
 import { ProfilePage } from './pages/ProfilePage';
 import { ProjectsPage } from './pages/ProjectsPage';
+import { ProjectDetailPage } from './pages/ProjectDetailPage';
 import { UploadPage } from './pages/UploadPage';
 import AIRecommendationsPage from './pages/AIRecommendationsPage';
 
@@ -24,21 +26,24 @@ const App: React.FC = () => {
   return (
     <AuthProvider>
       <RecommendationProvider>
-        <Router>
-          <Toaster position="top-right" />
-          <React.Suspense fallback={<LoadingScreen />}>
-            <Routes>
-              <Route path="/auth" element={<AuthPage />} />
-              <Route path="/" element={<MainLayout />}>
-                <Route index element={<Index />} />
-                <Route path="profile" element={<ProfilePage />} />
-                <Route path="projects" element={<ProjectsPage />} />
-                <Route path="upload" element={<UploadPage />} />
-                <Route path="ai-recommendations" element={<AIRecommendationsPage />} />
-              </Route>
-            </Routes>
-          </React.Suspense>
-        </Router>
+        <ChatProvider>
+          <Router>
+            <Toaster position="top-right" />
+            <React.Suspense fallback={<LoadingScreen />}>
+              <Routes>
+                <Route path="/auth" element={<AuthPage />} />
+                <Route path="/" element={<MainLayout />}>
+                  <Route index element={<Index />} />
+                  <Route path="profile" element={<ProfilePage />} />
+                  <Route path="projects" element={<ProjectsPage />} />
+                  <Route path="projects/:id" element={<ProjectDetailPage />} />
+                  <Route path="upload" element={<UploadPage />} />
+                  <Route path="ai-recommendations" element={<AIRecommendationsPage />} />
+                </Route>
+              </Routes>
+            </React.Suspense>
+          </Router>
+        </ChatProvider>
       </RecommendationProvider>
     </AuthProvider>
   );
@@ -1,21 +1,21 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Cpu, Sparkles, Brain, Zap, Info, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Cpu, Sparkles, Brain, Info, AlertTriangle, CheckCircle, GitBranch, Loader2, Upload } from 'lucide-react';
 import { toast } from 'sonner';
 import { 
-  getAvailableModels, 
-  getModelLoadingStatus, 
   loadModelById,
-  getUserModels,
-  loadUserModel,
   deleteUserModel,
   getModelRecommendations
 } from '@/services/aiModelService';
-import { AIModelConfig } from '@/utils/modelUtils';
+import { setModelVersionStage } from '@/services/modelRegistryService';
+import { useModelRegistry } from '@/hooks/useModelRegistry';
+import ModelUploadDialog from './ModelUploadDialog';
+import { formatTensorSpec, MODEL_FORMAT_NAMES, pickDefaultVersion } from '@/utils/modelVersionUtils';
+import { ModelStage, ModelVersion, RegisteredModel } from '@/types/modelRegistry';
 import { SupportedLanguage } from '@/utils/i18nUtils';
 
 interface AIModelSelectorProps {
@@ -29,44 +29,37 @@ const AIModelSelector: React.FC<AIModelSelectorProps> = ({
   onModelSelected,
   projectTechnologies = []
 }) => {
-  const [availableModels, setAvailableModels] = useState<AIModelConfig[]>([]);
-  const [userModels, setUserModels] = useState<{id: string, language: SupportedLanguage, created_at: string}[]>([]);
+  const { models, isLoading: isLoadingRegistry, reload } = useModelRegistry();
   const [loadingStates, setLoadingStates] = useState<Record<string, {loading: boolean, progress: number}>>({});
+  // The version picked for each model; the default version until one is
+  const [selectedVersions, setSelectedVersions] = useState<Record<string, string>>({});
   const [selectedLanguage, setSelectedLanguage] = useState<SupportedLanguage>('en');
-  const [recommendedModels, setRecommendedModels] = useState<AIModelConfig[]>([]);
   const [activeTab, setActiveTab] = useState('recommended');
+  const [uploadOpen, setUploadOpen] = useState(false);
 
-  useEffect(() => {
-    // Get available models
-    const models = getAvailableModels();
-    setAvailableModels(models);
+  const recommendedModels = useMemo(() => {
+    // Default recommendations if no technologies specified
+    if (projectTechnologies.length === 0) return models.slice(0, 2);
     
-    // Get recommended models based on project technologies
-    if (projectTechnologies.length > 0) {
-      const recommendations = getModelRecommendations(projectTechnologies);
-      setRecommendedModels(recommendations);
-    } else {
-      // Default recommendations if no technologies specified
-      setRecommendedModels(models.slice(0, 2));
-    }
-    
-    // Initialize loading states
-    const initialLoadingStates: Record<string, {loading: boolean, progress: number}> = {};
-    models.forEach(model => {
-      initialLoadingStates[model.id] = { loading: false, progress: 0 };
-    });
-    setLoadingStates(initialLoadingStates);
-    
-    // Get user's custom models
-    fetchUserModels();
-  }, [projectTechnologies]);
+    const recommendedIds = getModelRecommendations(projectTechnologies).map(model => model.id);
+    return models.filter(model => recommendedIds.includes(model.modelId));
+  }, [models, projectTechnologies]);
   
-  const fetchUserModels = async () => {
-    const models = await getUserModels();
-    setUserModels(models);
+  const userModels = models.filter(model => model.source !== 'built-in');
+
+  const getSelectedVersion = (model: RegisteredModel): ModelVersion => {
+    return model.versions.find(entry => entry.version === selectedVersions[model.modelId]) ||
+      pickDefaultVersion(model.versions)!;
+  };
+
+  const getModelName = (modelId: string): string => {
+    return models.find(model => model.modelId === modelId)?.name || modelId;
   };
 
-  const handleLoadModel = async (modelId: string) => {
+  const handleLoadModel = async (model: RegisteredModel) => {
+    const { modelId } = model;
+    const { version } = getSelectedVersion(model);
+    
     try {
       // Update loading state
       setLoadingStates(prev => ({
@@ -75,9 +68,9 @@ const AIModelSelector: React.FC<AIModelSelectorProps> = ({
       }));
       
       // Load the model
-      const model = await loadModelById(modelId, selectedLanguage);
+      const loaded = await loadModelById(modelId, selectedLanguage, version);
       
-      if (model) {
+      if (loaded) {
         // Update loading state
         setLoadingStates(prev => ({
           ...prev,
@@ -87,7 +80,7 @@ const AIModelSelector: React.FC<AIModelSelectorProps> = ({
         // Notify parent component
         onModelSelected(modelId);
         
-        toast.success(`Model ${modelId} loaded successfully`);
+        toast.success(`Model ${model.name} v${version} loaded successfully`);
       } else {
         throw new Error(`Failed to load model ${modelId}`);
       }
@@ -104,57 +97,46 @@ const AIModelSelector: React.FC<AIModelSelectorProps> = ({
     }
   };
   
-  const handleLoadUserModel = async (modelId: string, language: SupportedLanguage) => {
-    try {
-      // Update loading state
-      setLoadingStates(prev => ({
-        ...prev,
-        [modelId]: { loading: true, progress: 0 }
-      }));
-      
-      // Load the user model
-      const model = await loadUserModel(modelId, language);
-      
-      if (model) {
-        // Update loading state
-        setLoadingStates(prev => ({
-          ...prev,
-          [modelId]: { loading: false, progress: 100 }
-        }));
-        
-        // Notify parent component
-        onModelSelected(modelId);
-        
-        toast.success(`Custom model loaded successfully`);
-      } else {
-        throw new Error(`Failed to load custom model`);
-      }
-    } catch (error) {
-      console.error(`Error loading user model ${modelId}:`, error);
-      
-      // Update loading state
-      setLoadingStates(prev => ({
-        ...prev,
-        [modelId]: { loading: false, progress: 0 }
-      }));
-      
-      toast.error(`Failed to load custom model: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  const handleStageChange = async (model: RegisteredModel, stage: ModelStage, enabled: boolean) => {
+    const { version } = getSelectedVersion(model);
+    if (await setModelVersionStage(model.modelId, version, stage, enabled)) {
+      reload();
     }
   };
   
-  const handleDeleteUserModel = async (modelId: string, language: SupportedLanguage) => {
-    if (confirm('Are you sure you want to delete this custom model? This action cannot be undone.')) {
-      const success = await deleteUserModel(modelId, language);
+  const handleDeleteVersion = async (model: RegisteredModel) => {
+    const { version } = getSelectedVersion(model);
+    if (confirm(`Are you sure you want to delete ${model.name} v${version}? This action cannot be undone.`)) {
+      const success = await deleteUserModel(model.modelId, version);
       if (success) {
-        // Refresh user models
-        fetchUserModels();
+        setSelectedVersions(prev => {
+          const next = { ...prev };
+          delete next[model.modelId];
+          return next;
+        });
+        reload();
       }
     }
   };
   
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString() + ' ' + date.toLocaleTimeString();
+  const renderModelCard = (model: RegisteredModel) => {
+    const version = getSelectedVersion(model);
+    return (
+      <ModelCard
+        key={model.modelId}
+        model={model}
+        version={version}
+        parentName={version.parent ? getModelName(version.parent.modelId) : undefined}
+        isLoading={loadingStates[model.modelId]?.loading || false}
+        progress={loadingStates[model.modelId]?.progress || 0}
+        isActive={aiModels.includes(model.modelId)}
+        language={selectedLanguage}
+        onVersionChange={(selected) => setSelectedVersions(prev => ({ ...prev, [model.modelId]: selected }))}
+        onLoad={() => handleLoadModel(model)}
+        onStageChange={(stage, enabled) => handleStageChange(model, stage, enabled)}
+        onDelete={() => handleDeleteVersion(model)}
+      />
+    );
   };
 
   return (
@@ -181,9 +163,24 @@ const AIModelSelector: React.FC<AIModelSelectorProps> = ({
             <option value="zh">Chinese</option>
             <option value="ja">Japanese</option>
           </select>
+          <Button variant="outline" size="sm" onClick={() => setUploadOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Upload Model
+          </Button>
         </div>
       </div>
       
+      <ModelUploadDialog
+        models={models}
+        open={uploadOpen}
+        onOpenChange={setUploadOpen}
+        onUploaded={(version) => {
+          setSelectedVersions(prev => ({ ...prev, [version.modelId]: version.version }));
+          setActiveTab('custom');
+          reload();
+        }}
+      />
+      
       <Tabs value={activeTab} onValueChange={setActiveTab}>
         <TabsList className="mb-4">
           <TabsTrigger value="recommended" className="flex items-center">
@@ -202,19 +199,9 @@ const AIModelSelector: React.FC<AIModelSelectorProps> = ({
         
         <TabsContent value="recommended">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {recommendedModels.map(model => (
-              <ModelCard
-                key={model.id}
-                model={model}
-                isLoading={loadingStates[model.id]?.loading || false}
-                progress={loadingStates[model.id]?.progress || 0}
-                isActive={aiModels.includes(model.id)}
-                language={selectedLanguage}
-                onLoad={() => handleLoadModel(model.id)}
-              />
-            ))}
+            {recommendedModels.map(renderModelCard)}
             
-            {recommendedModels.length === 0 && (
+            {!isLoadingRegistry && recommendedModels.length === 0 && (
               <div className="col-span-2 text-center py-12 border border-dashed rounded-lg">
                 <Info className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
                 <h3 className="text-lg font-medium mb-2">No recommended models</h3>
@@ -227,72 +214,27 @@ const AIModelSelector: React.FC<AIModelSelectorProps> = ({
         </TabsContent>
         
         <TabsContent value="all">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {availableModels.map(model => (
-              <ModelCard
-                key={model.id}
-                model={model}
-                isLoading={loadingStates[model.id]?.loading || false}
-                progress={loadingStates[model.id]?.progress || 0}
-                isActive={aiModels.includes(model.id)}
-                language={selectedLanguage}
-                onLoad={() => handleLoadModel(model.id)}
-              />
-            ))}
-          </div>
+          {isLoadingRegistry ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {models.map(renderModelCard)}
+            </div>
+          )}
         </TabsContent>
         
         <TabsContent value="custom">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {userModels.map(model => (
-              <Card key={model.id} className={`overflow-hidden`}>
-                <CardHeader className="pb-2">
-                  <div className="flex justify-between items-start">
-                    <div>
-                      <CardTitle className="flex items-center">
-                        <Brain className="mr-2 h-5 w-5 text-scottie" />
-                        Custom Model
-                      </CardTitle>
-                      <CardDescription>
-                        Created: {formatDate(model.created_at)}
-                      </CardDescription>
-                    </div>
-                    <Badge variant="outline" className="ml-2">
-                      {model.language.toUpperCase()}
-                    </Badge>
-                  </div>
-                </CardHeader>
-                <CardContent className="pb-2">
-                  <div className="flex flex-wrap gap-2 mb-4">
-                    <Badge variant="secondary">Custom</Badge>
-                    <Badge variant="secondary">Project-specific</Badge>
-                  </div>
-                </CardContent>
-                <CardFooter className="flex justify-between">
-                  <Button 
-                    variant="outline" 
-                    size="sm"
-                    onClick={() => handleDeleteUserModel(model.id, model.language)}
-                  >
-                    Delete
-                  </Button>
-                  <Button 
-                    className="bg-scottie hover:bg-scottie-secondary"
-                    size="sm"
-                    onClick={() => handleLoadUserModel(model.id, model.language)}
-                  >
-                    Load Model
-                  </Button>
-                </CardFooter>
-              </Card>
-            ))}
+            {userModels.map(renderModelCard)}
             
-            {userModels.length === 0 && (
+            {!isLoadingRegistry && userModels.length === 0 && (
               <div className="col-span-2 text-center py-12 border border-dashed rounded-lg">
                 <AlertTriangle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
                 <h3 className="text-lg font-medium mb-2">No custom models found</h3>
                 <p className="text-muted-foreground">
-                  Train custom models for your specific project needs
+                  Train or upload custom models for your specific project needs
                 </p>
               </div>
             )}
@@ -304,24 +246,36 @@ const AIModelSelector: React.FC<AIModelSelectorProps> = ({
 };
 
 interface ModelCardProps {
-  model: AIModelConfig;
+  model: RegisteredModel;
+  version: ModelVersion;
+  parentName?: string;
   isLoading: boolean;
   progress: number;
   isActive: boolean;
   language: SupportedLanguage;
+  onVersionChange: (version: string) => void;
   onLoad: () => void;
+  onStageChange: (stage: ModelStage, enabled: boolean) => void;
+  onDelete: () => void;
 }
 
 const ModelCard: React.FC<ModelCardProps> = ({ 
   model, 
+  version,
+  parentName,
   isLoading, 
   progress, 
   isActive,
   language,
-  onLoad 
+  onVersionChange,
+  onLoad,
+  onStageChange,
+  onDelete
 }) => {
   // Check if model supports the selected language
-  const supportsLanguage = !model.supportedLanguages || model.supportedLanguages.includes(language);
+  const supportsLanguage = !version.supportedLanguages || version.supportedLanguages.includes(language);
+  const isBuiltIn = model.source === 'built-in';
+  const ModelIcon = isBuiltIn ? Cpu : Brain;
   
   return (
     <Card className={`overflow-hidden ${isActive ? 'border-scottie' : ''}`}>
@@ -329,25 +283,97 @@ const ModelCard: React.FC<ModelCardProps> = ({
         <div className="flex justify-between items-start">
           <div>
             <CardTitle className="flex items-center">
-              <Cpu className="mr-2 h-5 w-5 text-scottie" />
+              <ModelIcon className="mr-2 h-5 w-5 text-scottie" />
               {model.name}
             </CardTitle>
             <CardDescription>
-              {model.description}
+              {version.description}
             </CardDescription>
           </div>
-          <Badge variant="outline" className="ml-2">
-            {model.size}
-          </Badge>
+          {version.size && (
+            <Badge variant="outline" className="ml-2">
+              {version.size}
+            </Badge>
+          )}
         </div>
       </CardHeader>
       <CardContent className="pb-2">
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {model.versions.length > 1 ? (
+            <select
+              className="border rounded p-1 text-sm"
+              aria-label={`${model.name} version`}
+              value={version.version}
+              onChange={(e) => onVersionChange(e.target.value)}
+            >
+              {model.versions.map(entry => (
+                <option key={entry.id} value={entry.version}>
+                  v{entry.version}{entry.stages.length > 0 ? ` (${entry.stages.join(', ')})` : ''}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <Badge variant="outline">v{version.version}</Badge>
+          )}
+          {version.stages.map(stage => (
+            <Badge key={stage} className={stage === 'production' ? 'bg-green-600' : 'bg-amber-500'}>
+              {stage === 'production' ? 'Production' : 'Staging'}
+            </Badge>
+          ))}
+          {!isBuiltIn && !version.storagePath && (
+            <Badge variant="outline" title="Saved before models were uploaded; it only loads in the browser it was saved in">
+              This browser only
+            </Badge>
+          )}
+        </div>
+        
         <div className="flex flex-wrap gap-2 mb-4">
-          {model.capabilities.map((capability, index) => (
+          {version.capabilities.map((capability, index) => (
             <Badge key={index} variant="secondary">{capability}</Badge>
           ))}
         </div>
         
+        {!isBuiltIn && (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs mb-4">
+            <dt className="text-muted-foreground">Format</dt>
+            <dd>{MODEL_FORMAT_NAMES[version.format]}</dd>
+            {version.signature && (
+              <>
+                <dt className="text-muted-foreground">Inputs</dt>
+                <dd>{version.signature.inputs.map(formatTensorSpec).join(', ')}</dd>
+                <dt className="text-muted-foreground">Outputs</dt>
+                <dd>{version.signature.outputs.map(formatTensorSpec).join(', ')}</dd>
+              </>
+            )}
+            {version.trainingDataset && (
+              <>
+                <dt className="text-muted-foreground">Trained on</dt>
+                <dd>
+                  {version.trainingDataset.name}
+                  {version.trainingDataset.sampleCount !== undefined && ` (${version.trainingDataset.sampleCount} samples)`}
+                </dd>
+              </>
+            )}
+            {version.parent && (
+              <>
+                <dt className="text-muted-foreground">Derived from</dt>
+                <dd className="flex items-center">
+                  <GitBranch className="h-3 w-3 mr-1" />
+                  {parentName || version.parent.modelId} v{version.parent.version}
+                </dd>
+              </>
+            )}
+            <dt className="text-muted-foreground">Tests</dt>
+            <dd>
+              {version.metrics
+                ? `${(version.metrics.passRate * 100).toFixed(0)}% passed, ${version.metrics.recorded.toLocaleDateString()}`
+                : 'Not tested yet'}
+            </dd>
+            <dt className="text-muted-foreground">Registered</dt>
+            <dd>{version.created.toLocaleDateString()} {version.created.toLocaleTimeString()}</dd>
+          </dl>
+        )}
+        
         {!supportsLanguage && (
           <div className="flex items-center text-amber-500 text-sm mb-4">
             <AlertTriangle className="h-4 w-4 mr-2" />
@@ -371,7 +397,27 @@ const ModelCard: React.FC<ModelCardProps> = ({
           </div>
         )}
       </CardContent>
-      <CardFooter>
+      <CardFooter className="flex flex-col gap-2">
+        {!isBuiltIn && (
+          <div className="grid grid-cols-3 gap-2 w-full">
+            {(['staging', 'production'] as ModelStage[]).map(stage => {
+              const hasStage = version.stages.includes(stage);
+              return (
+                <Button
+                  key={stage}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onStageChange(stage, !hasStage)}
+                >
+                  {hasStage ? `Unset ${stage}` : stage === 'production' ? 'Promote' : 'Stage'}
+                </Button>
+              );
+            })}
+            <Button variant="outline" size="sm" onClick={onDelete}>
+              Delete
+            </Button>
+          </div>
+        )}
         <Button 
           className="w-full bg-scottie hover:bg-scottie-secondary"
           disabled={isLoading}
@@ -9,9 +9,14 @@ import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { AlertCircle, CheckCircle2, Clock, Code, FileCode, RefreshCw, Shield, Zap } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertCircle, CheckCircle2, Clock, Code, FileCode, GitCompare, RefreshCw, Shield, Undo2, Zap } from 'lucide-react';
 import { useAutoUpdateContext } from '@/contexts/AutoUpdateContext';
+import { CodeUpdatePreview, defaultAutoUpdateSettings } from '@/services/autoUpdateService';
 import { CodeUpdateRecommendation, TechnologyUpdate } from '@/types/llm';
+import { PatchConflict } from '@/utils/recommendationPatch';
+import DiffViewer from './DiffViewer';
 import { toast } from 'sonner';
 
 interface AutoUpdatePanelProps {
@@ -26,13 +31,17 @@ const AutoUpdatePanel: React.FC<AutoUpdatePanelProps> = ({ projectId }) => {
     analysisResult,
     technologyUpdates,
     runAnalysis,
+    previewUpdates,
     applyUpdates,
+    rollbackUpdates,
+    updateConflicts,
     encryptData,
     decryptData
   } = useAutoUpdateContext();
 
   const [selectedRecommendations, setSelectedRecommendations] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState('overview');
+  const [preview, setPreview] = useState<CodeUpdatePreview | null>(null);
 
   // Handle running analysis
   const handleRunAnalysis = async () => {
@@ -62,6 +71,28 @@ const AutoUpdatePanel: React.FC<AutoUpdatePanelProps> = ({ projectId }) => {
     }
   };
 
+  // Handle previewing the diff for selected updates
+  const handlePreviewUpdates = async () => {
+    if (selectedRecommendations.length === 0) {
+      toast.warning('Please select at least one recommendation to preview');
+      return;
+    }
+
+    const result = await previewUpdates(selectedRecommendations);
+    if (result) setPreview(result);
+  };
+
+  // Handle rolling back the last applied updates
+  const handleRollback = async () => {
+    const confirmed = window.confirm(
+      'Roll back to the revision before the last applied updates? The current analysis will be cleared.'
+    );
+
+    if (confirmed) {
+      await rollbackUpdates();
+    }
+  };
+
   // Handle toggling a recommendation selection
   const toggleRecommendation = (id: string) => {
     setSelectedRecommendations(prev => 
@@ -227,13 +258,27 @@ const AutoUpdatePanel: React.FC<AutoUpdatePanelProps> = ({ projectId }) => {
                   <h3 className="text-lg font-medium">
                     {analysisResult.recommendations.length} Recommendations
                   </h3>
-                  {selectedRecommendations.length > 0 && (
-                    <Button onClick={handleApplyUpdates} disabled={isLoading}>
-                      Apply {selectedRecommendations.length} Selected Updates
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" onClick={handleRollback} disabled={isLoading}>
+                      <Undo2 className="h-4 w-4 mr-2" />
+                      Roll Back Last Update
                     </Button>
-                  )}
+                    {selectedRecommendations.length > 0 && (
+                      <>
+                        <Button variant="outline" onClick={handlePreviewUpdates} disabled={isLoading}>
+                          <GitCompare className="h-4 w-4 mr-2" />
+                          Preview Diff
+                        </Button>
+                        <Button onClick={handleApplyUpdates} disabled={isLoading}>
+                          Apply {selectedRecommendations.length} Selected Updates
+                        </Button>
+                      </>
+                    )}
+                  </div>
                 </div>
                 
+                {updateConflicts.length > 0 && <ConflictReport conflicts={updateConflicts} />}
+                
                 <div className="space-y-4">
                   {analysisResult.recommendations.map((rec: CodeUpdateRecommendation) => (
                     <Card key={rec.id} className={selectedRecommendations.includes(rec.id) ? 'border-scottie' : ''}>
@@ -318,9 +363,20 @@ const AutoUpdatePanel: React.FC<AutoUpdatePanelProps> = ({ projectId }) => {
                     ? "Great job! Your code doesn't have any issues that need attention."
                     : "Run a code analysis to get recommendations for your project."}
                 </p>
-                <Button onClick={handleRunAnalysis} disabled={isLoading}>
-                  {isLoading ? 'Analyzing...' : 'Run Analysis'}
-                </Button>
+                {updateConflicts.length > 0 && (
+                  <ConflictReport conflicts={updateConflicts} className="text-left mb-6" />
+                )}
+                <div className="flex justify-center gap-2">
+                  {analysisResult && (
+                    <Button variant="outline" onClick={handleRollback} disabled={isLoading}>
+                      <Undo2 className="h-4 w-4 mr-2" />
+                      Roll Back Last Update
+                    </Button>
+                  )}
+                  <Button onClick={handleRunAnalysis} disabled={isLoading}>
+                    {isLoading ? 'Analyzing...' : 'Run Analysis'}
+                  </Button>
+                </div>
               </div>
             )}
           </TabsContent>
@@ -588,8 +644,88 @@ const AutoUpdatePanel: React.FC<AutoUpdatePanelProps> = ({ projectId }) => {
           Secured with AES-256 encryption
         </div>
       </CardFooter>
+
+      <Dialog open={preview !== null} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Preview Code Updates</DialogTitle>
+            <DialogDescription>
+              {preview && `${preview.applicable.length} of ${selectedRecommendations.length} selected updates can be applied cleanly.`}
+            </DialogDescription>
+          </DialogHeader>
+          {preview && (
+            <ScrollArea className="max-h-[60vh]">
+              {preview.conflicts.length > 0 && <ConflictReport conflicts={preview.conflicts} className="mb-4" />}
+              {preview.skipped.length > 0 && (
+                <p className="text-sm text-muted-foreground mb-4">
+                  {preview.skipped.length} selected recommendations have no code change and will be left out.
+                </p>
+              )}
+              <DiffViewer diffs={preview.diffs} />
+            </ScrollArea>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreview(null)}>
+              Close
+            </Button>
+            <Button
+              onClick={async () => {
+                setPreview(null);
+                await handleApplyUpdates();
+              }}
+              disabled={isLoading || !preview || preview.applicable.length === 0}
+            >
+              Apply Updates
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
 
+// Lists recommendations whose target lines no longer match the stored code
+const ConflictReport: React.FC<{ conflicts: PatchConflict[]; className?: string }> = ({ conflicts, className = "" }) => {
+  const describeConflict = (conflict: PatchConflict) => {
+    switch (conflict.reason) {
+      case 'missing-file':
+        return 'The file no longer exists in the project.';
+      case 'overlap':
+        return 'Another selected update changes the same lines.';
+      default:
+        return 'The target lines no longer match the current code.';
+    }
+  };
+
+  return (
+    <div className={`border border-amber-200 bg-amber-50 rounded-lg p-4 space-y-3 ${className}`}>
+      <div className="flex items-center text-amber-800 font-medium">
+        <AlertCircle className="h-4 w-4 mr-2" />
+        {conflicts.length} {conflicts.length === 1 ? 'update conflicts' : 'updates conflict'} with the current code
+      </div>
+      {conflicts.map(conflict => (
+        <div key={conflict.recommendationId} className="text-sm">
+          <div>
+            <code className="bg-muted px-1 py-0.5 rounded">{conflict.filePath}</code>
+            {conflict.lineNumbers && ` (lines ${conflict.lineNumbers[0]}-${conflict.lineNumbers[1]})`}
+            <span className="text-muted-foreground ml-2">{describeConflict(conflict)}</span>
+          </div>
+          {conflict.reason === 'content-mismatch' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2">
+              <div>
+                <div className="text-xs font-medium mb-1">Expected:</div>
+                <pre className="bg-muted p-2 rounded text-xs overflow-x-auto">{conflict.expected.join('\n')}</pre>
+              </div>
+              <div>
+                <div className="text-xs font-medium mb-1">Found:</div>
+                <pre className="bg-muted p-2 rounded text-xs overflow-x-auto">{conflict.actual.join('\n') || '(end of file)'}</pre>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
 export default AutoUpdatePanel;
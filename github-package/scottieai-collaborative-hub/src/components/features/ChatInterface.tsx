@@ -3,51 +3,199 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { MessageCircle, Send, X, Minimize, Maximize, Bot, User } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  MessageCircle,
+  Send,
+  X,
+  Minimize,
+  Maximize,
+  Bot,
+  User,
+  PanelLeft,
+  Plus,
+  Search,
+  MoreVertical,
+  Pencil,
+  Trash2,
+  FileText,
+  FileJson,
+  Settings
+} from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { toast } from 'sonner';
-
-interface Message {
-  id: string;
-  content: string;
-  role: 'user' | 'assistant';
-  timestamp: Date;
-}
+import { useChat } from '@/contexts/ChatContext';
+import { searchChatThreads } from '@/services/chatThreadService';
+import { ChatContextType, ChatThread } from '@/types/chat';
+import { ToolCall, ToolResult } from '@/types/llm';
+import ToolCallCard from './ToolCallCard';
 
 interface ChatInterfaceProps {
   initialPrompt?: string;
-  contextType?: 'code' | 'project' | 'deployment' | 'general';
-  contextData?: any;
+  contextType?: ChatContextType;
+  contextData?: unknown;
+  // Project new conversations are attached to
+  projectId?: string;
+}
+
+interface ThreadSidebarProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  disabled: boolean;
+  onNew: () => void;
+  onSelect: (threadId: string) => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+  onExport: (threadId: string, format: 'markdown' | 'json') => void;
 }
 
+const ThreadSidebar: React.FC<ThreadSidebarProps> = ({
+  threads,
+  activeThreadId,
+  disabled,
+  onNew,
+  onSelect,
+  onRename,
+  onDelete,
+  onExport
+}) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const visibleThreads = searchChatThreads(threads, query);
+
+  const startRename = (thread: ChatThread) => {
+    setEditingId(thread.id);
+    setEditingTitle(thread.title);
+  };
+
+  const finishRename = () => {
+    if (editingId) onRename(editingId, editingTitle);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-56 border-r flex flex-col flex-shrink-0">
+      <div className="p-2 space-y-2 border-b">
+        <Button variant="outline" size="sm" className="w-full" onClick={onNew} disabled={disabled}>
+          <Plus className="mr-2 h-4 w-4" />
+          New chat
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search chats..."
+            className="pl-8 h-9"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-1">
+        {visibleThreads.length === 0 && (
+          <p className="text-xs text-muted-foreground text-center py-4">
+            {query ? 'No matching conversations' : 'No conversations yet'}
+          </p>
+        )}
+        {visibleThreads.map(thread => (
+          <div
+            key={thread.id}
+            className={`group flex items-center rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-muted ${
+              thread.id === activeThreadId ? 'bg-muted font-medium' : ''
+            }`}
+            onClick={() => !disabled && editingId !== thread.id && onSelect(thread.id)}
+          >
+            {editingId === thread.id ? (
+              <Input
+                value={editingTitle}
+                autoFocus
+                onChange={(e) => setEditingTitle(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="h-7 text-sm"
+              />
+            ) : (
+              <>
+                <div className="flex-1 min-w-0">
+                  <div className="truncate">{thread.title}</div>
+                  <div className="text-xs text-muted-foreground capitalize">{thread.contextType}</div>
+                </div>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                    <Button variant="ghost" size="icon" className="h-6 w-6 opacity-0 group-hover:opacity-100">
+                      <MoreVertical className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                    <DropdownMenuItem onClick={() => startRename(thread)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onExport(thread.id, 'markdown')}>
+                      <FileText className="mr-2 h-4 w-4" />
+                      Export Markdown
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onExport(thread.id, 'json')}>
+                      <FileJson className="mr-2 h-4 w-4" />
+                      Export JSON
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="text-red-600" onClick={() => onDelete(thread.id)} disabled={disabled}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
   initialPrompt,
   contextType = 'general',
-  contextData
+  contextData,
+  projectId
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [showThreads, setShowThreads] = useState(false);
   const [input, setInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { user } = useAuth();
+  const {
+    chatState,
+    sendMessage,
+    updateSettings,
+    createThread,
+    selectThread,
+    renameThread,
+    deleteThread,
+    exportThread
+  } = useChat();
+  const { messages, isLoading } = chatState;
 
-  // Initialize with welcome message
-  useEffect(() => {
-    const welcomeMessage = {
-      id: 'welcome',
-      content: `Hello${user ? ` ${user.email?.split('@')[0]}` : ''}! I'm your ScottieAI assistant. How can I help you with your project today?`,
-      role: 'assistant' as const,
-      timestamp: new Date()
-    };
-    setMessages([welcomeMessage]);
-  }, [user]);
+  const welcomeMessage = `Hello${user ? ` ${user.email?.split('@')[0]}` : ''}! I'm your ScottieAI assistant. How can I help you with your project today?`;
 
   // Add initial prompt if provided
   useEffect(() => {
     if (initialPrompt && isOpen) {
-      handleSendMessage(initialPrompt, true);
+      handleSendMessage(initialPrompt);
     }
   }, [initialPrompt, isOpen]);
 
@@ -60,88 +208,21 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  const handleSendMessage = async (messageContent = input, isSystemPrompt = false) => {
+  const handleSendMessage = async (messageContent = input) => {
     if (!messageContent.trim()) return;
-    
-    // Add user message to chat
-    if (!isSystemPrompt) {
-      const userMessage: Message = {
-        id: Date.now().toString(),
-        content: messageContent,
-        role: 'user',
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, userMessage]);
-    }
-    
+
     setInput('');
-    setIsLoading(true);
-    
-    try {
-      // Prepare context for the AI
-      const context = prepareContext(contextType, contextData);
-      
-      // In a real implementation, this would call an LLM API
-      // For now, we'll simulate a response
-      const response = await simulateAIResponse(messageContent, context);
-      
-      // Add AI response to chat
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: response,
-        role: 'assistant',
-        timestamp: new Date()
-      };
-      
-      setMessages(prev => [...prev, assistantMessage]);
-    } catch (error) {
-      console.error('Error getting AI response:', error);
-      toast.error('Failed to get a response. Please try again.');
-    } finally {
-      setIsLoading(false);
-    }
-  };
 
-  const prepareContext = (type: string, data: any) => {
-    switch (type) {
-      case 'code':
-        return `The user is working with code: ${JSON.stringify(data)}`;
-      case 'project':
-        return `The user is working on project: ${JSON.stringify(data)}`;
-      case 'deployment':
-        return `The user is working on deployment: ${JSON.stringify(data)}`;
-      default:
-        return '';
-    }
+    // Conversations started here belong to the current project
+    await sendMessage(
+      messageContent,
+      contextData ? { type: contextType, data: contextData } : undefined,
+      { projectId, contextType }
+    );
   };
 
-  // Simulate AI response (would be replaced with actual API call)
-  const simulateAIResponse = async (message: string, context: string): Promise<string> => {
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Simple response logic based on message content
-    if (message.toLowerCase().includes('hello') || message.toLowerCase().includes('hi')) {
-      return "Hello! I'm your AI assistant. How can I help you with your project today?";
-    }
-    
-    if (message.toLowerCase().includes('help')) {
-      return "I can help you with code analysis, project management, AI model selection, and deployment. What specifically do you need assistance with?";
-    }
-    
-    if (message.toLowerCase().includes('code') || message.toLowerCase().includes('programming')) {
-      return "I can analyze your code, suggest improvements, and help you implement new features. Would you like me to look at a specific part of your codebase?";
-    }
-    
-    if (message.toLowerCase().includes('deploy') || message.toLowerCase().includes('deployment')) {
-      return "I can help you deploy your application to various platforms like Vercel, Netlify, or GitHub Pages. Which platform are you interested in?";
-    }
-    
-    if (message.toLowerCase().includes('ai') || message.toLowerCase().includes('model')) {
-      return "I can recommend AI models based on your project needs and help you integrate them. What kind of AI functionality are you looking to add?";
-    }
-    
-    return "I understand you're asking about " + message + ". Could you provide more details so I can assist you better?";
+  const handleNewThread = () => {
+    createThread({ projectId, contextType });
   };
 
   const toggleChat = () => {
@@ -162,39 +243,139 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
+  // Streaming replies start as an empty placeholder, shown as the typing indicator instead
+  const visibleMessages = messages.filter(message =>
+    (message.role === 'user' || message.role === 'assistant') && (message.content || message.toolCalls?.length)
+  );
+  const lastMessage = messages[messages.length - 1];
+  const isWaiting = isLoading && (!lastMessage || lastMessage.role !== 'assistant' || !lastMessage.content);
+
+  // Tool results are shown inside the card of the call they answer
+  const toolResults = new Map<string, ToolResult>();
+  messages.forEach(message => message.toolResults?.forEach(result => toolResults.set(result.callId, result)));
+
+  const renderMessage = (
+    role: 'user' | 'assistant',
+    content: string,
+    key: React.Key,
+    footer?: string,
+    toolCalls?: ToolCall[]
+  ) => (
+    <div
+      key={key}
+      className={`flex ${role === 'user' ? 'justify-end' : 'justify-start'}`}
+    >
+      <div className={`flex items-start max-w-[80%] ${role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
+        <Avatar className={`h-8 w-8 ${role === 'user' ? 'ml-2' : 'mr-2'}`}>
+          {role === 'user' ? (
+            user?.email ? (
+              <AvatarFallback>{user.email.substring(0, 2).toUpperCase()}</AvatarFallback>
+            ) : (
+              <AvatarFallback><User className="h-4 w-4" /></AvatarFallback>
+            )
+          ) : (
+            <>
+              <AvatarImage src="/scottie-logo.png" alt="ScottieAI" />
+              <AvatarFallback><Bot className="h-4 w-4" /></AvatarFallback>
+            </>
+          )}
+        </Avatar>
+        <div
+          className={`rounded-lg p-3 ${
+            role === 'user'
+              ? 'bg-scottie text-white'
+              : 'bg-muted'
+          }`}
+        >
+          {content && <p className="text-sm whitespace-pre-wrap">{content}</p>}
+          {toolCalls && toolCalls.length > 0 && (
+            <div className={`space-y-2 ${content ? 'mt-2' : ''}`}>
+              {toolCalls.map(call => (
+                <ToolCallCard key={call.id} call={call} result={toolResults.get(call.id)} />
+              ))}
+            </div>
+          )}
+          {footer && <p className="text-xs opacity-70 mt-1">{footer}</p>}
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className="fixed bottom-4 right-4 z-50">
       {/* Chat button */}
       {!isOpen && (
-        <Button 
-          onClick={toggleChat} 
+        <Button
+          onClick={toggleChat}
           className="rounded-full h-14 w-14 bg-scottie hover:bg-scottie-secondary shadow-lg"
         >
           <MessageCircle className="h-6 w-6" />
         </Button>
       )}
-      
+
       {/* Chat interface */}
       {isOpen && (
-        <Card className={`w-80 sm:w-96 shadow-xl transition-all duration-300 ${isMinimized ? 'h-16' : 'h-[500px]'}`}>
+        <Card
+          className={`shadow-xl transition-all duration-300 ${showThreads ? 'w-[36rem]' : 'w-80 sm:w-96'} ${
+            isMinimized ? 'h-16' : 'h-[500px]'
+          }`}
+        >
           {/* Chat header */}
           <div className="bg-scottie text-white p-3 rounded-t-lg flex justify-between items-center">
             <div className="flex items-center space-x-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-white hover:bg-scottie-secondary rounded-full"
+                onClick={() => setShowThreads(!showThreads)}
+              >
+                <PanelLeft className="h-4 w-4" />
+              </Button>
               <Bot className="h-5 w-5" />
               <h3 className="font-medium">ScottieAI Assistant</h3>
             </div>
             <div className="flex space-x-1">
-              <Button 
-                variant="ghost" 
-                size="icon" 
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-white hover:bg-scottie-secondary rounded-full"
+                  >
+                    <Settings className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Chat settings</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuCheckboxItem
+                    checked={chatState.settings.enableStreaming}
+                    onCheckedChange={(checked) => updateSettings({ enableStreaming: checked })}
+                  >
+                    Stream replies
+                  </DropdownMenuCheckboxItem>
+                  <DropdownMenuCheckboxItem
+                    checked={chatState.settings.enableTools}
+                    onCheckedChange={(checked) => updateSettings({ enableTools: checked })}
+                  >
+                    Use project tools
+                  </DropdownMenuCheckboxItem>
+                  <p className="px-2 py-1 text-xs text-muted-foreground max-w-[14rem]">
+                    Tools need a model that supports tool calling, and replies that use them aren't streamed.
+                  </p>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                variant="ghost"
+                size="icon"
                 className="h-6 w-6 text-white hover:bg-scottie-secondary rounded-full"
                 onClick={toggleMinimize}
               >
                 {isMinimized ? <Maximize className="h-4 w-4" /> : <Minimize className="h-4 w-4" />}
               </Button>
-              <Button 
-                variant="ghost" 
-                size="icon" 
+              <Button
+                variant="ghost"
+                size="icon"
                 className="h-6 w-6 text-white hover:bg-scottie-secondary rounded-full"
                 onClick={toggleChat}
               >
@@ -202,49 +383,37 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               </Button>
             </div>
           </div>
-          
+
           {/* Chat content */}
           {!isMinimized && (
-            <>
-              <CardContent className="p-0 flex flex-col h-[calc(100%-110px)]">
+            <div className="flex h-[calc(100%-48px)]">
+              {showThreads && (
+                <ThreadSidebar
+                  threads={chatState.threads}
+                  activeThreadId={chatState.activeThreadId}
+                  disabled={isLoading}
+                  onNew={handleNewThread}
+                  onSelect={selectThread}
+                  onRename={renameThread}
+                  onDelete={deleteThread}
+                  onExport={exportThread}
+                />
+              )}
+
+              <CardContent className="p-0 flex flex-col flex-1 min-w-0">
                 {/* Messages area */}
                 <div className="flex-1 overflow-y-auto p-4 space-y-4">
-                  {messages.map((message) => (
-                    <div 
-                      key={message.id} 
-                      className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                    >
-                      <div className={`flex items-start max-w-[80%] ${message.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
-                        <Avatar className={`h-8 w-8 ${message.role === 'user' ? 'ml-2' : 'mr-2'}`}>
-                          {message.role === 'user' ? (
-                            user?.email ? (
-                              <AvatarFallback>{user.email.substring(0, 2).toUpperCase()}</AvatarFallback>
-                            ) : (
-                              <AvatarFallback><User className="h-4 w-4" /></AvatarFallback>
-                            )
-                          ) : (
-                            <>
-                              <AvatarImage src="/scottie-logo.png" alt="ScottieAI" />
-                              <AvatarFallback><Bot className="h-4 w-4" /></AvatarFallback>
-                            </>
-                          )}
-                        </Avatar>
-                        <div 
-                          className={`rounded-lg p-3 ${
-                            message.role === 'user' 
-                              ? 'bg-scottie text-white' 
-                              : 'bg-muted'
-                          }`}
-                        >
-                          <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                          <p className="text-xs opacity-70 mt-1">
-                            {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                          </p>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                  {isLoading && (
+                  {visibleMessages.length === 0 && renderMessage('assistant', welcomeMessage, 'welcome')}
+                  {visibleMessages.map((message, index) =>
+                    renderMessage(
+                      message.role as 'user' | 'assistant',
+                      message.content,
+                      index,
+                      message.provider ? `${message.provider}${message.model ? ` · ${message.model}` : ''}` : undefined,
+                      message.toolCalls
+                    )
+                  )}
+                  {isWaiting && (
                     <div className="flex justify-start">
                       <div className="flex items-start max-w-[80%]">
                         <Avatar className="h-8 w-8 mr-2">
@@ -262,7 +431,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                   )}
                   <div ref={messagesEndRef} />
                 </div>
-                
+
                 {/* Input area */}
                 <div className="p-3 border-t">
                   <div className="flex space-x-2">
@@ -274,18 +443,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                       className="flex-1"
                       disabled={isLoading}
                     />
-                    <Button 
-                      onClick={() => handleSendMessage()} 
-                      size="icon" 
+                    <Button
+                      onClick={() => handleSendMessage()}
+                      size="icon"
                       className="bg-scottie hover:bg-scottie-secondary"
                       disabled={isLoading || !input.trim()}
                     >
                       <Send className="h-4 w-4" />
                     </Button>
                   </div>
+                  {chatState.usage.totalTokens > 0 && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {chatState.usage.totalTokens.toLocaleString()} tokens used in this conversation
+                    </p>
+                  )}
                 </div>
               </CardContent>
-            </>
+            </div>
           )}
         </Card>
       )}
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Highlight, themes } from 'prism-react-renderer';
+import { FileWarning } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ArchiveEntry } from '@/utils/archiveUtils';
+import { countLines, detectLanguage } from '@/utils/technologyDetection';
+
+interface CodeViewerProps {
+  file: ArchiveEntry;
+  className?: string;
+}
+
+// Maps detected languages to the grammar names bundled with prism-react-renderer
+const PRISM_LANGUAGES: Record<string, string> = {
+  'JavaScript': 'jsx',
+  'TypeScript': 'tsx',
+  'Python': 'python',
+  'Go': 'go',
+  'Rust': 'rust',
+  'Kotlin': 'kotlin',
+  'Swift': 'swift',
+  'C': 'c',
+  'C++': 'cpp',
+  'HTML': 'markup',
+  'XML': 'markup',
+  'Vue': 'markup',
+  'Svelte': 'markup',
+  'CSS': 'css',
+  'SCSS': 'css',
+  'JSON': 'json',
+  'Markdown': 'markdown',
+  'YAML': 'yaml',
+  'SQL': 'sql'
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+const CodeViewer: React.FC<CodeViewerProps> = ({ file, className = "" }) => {
+  const language = detectLanguage(file.path);
+  const lineCount = file.content !== null ? countLines(file.content) : null;
+
+  return (
+    <div className={`border rounded-lg overflow-hidden flex flex-col ${className}`}>
+      <div className="flex items-center justify-between px-4 py-2 border-b bg-muted/50">
+        <span className="font-mono text-sm truncate">{file.path}</span>
+        <div className="flex items-center gap-2 flex-shrink-0 ml-4">
+          {language && <Badge variant="outline">{language}</Badge>}
+          {lineCount !== null && (
+            <span className="text-xs text-muted-foreground">{lineCount} lines</span>
+          )}
+          <span className="text-xs text-muted-foreground">{formatSize(file.size)}</span>
+        </div>
+      </div>
+
+      {file.content === null ? (
+        <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+          <FileWarning className="h-10 w-10 mb-3" />
+          <p className="text-sm">
+            {file.isBinary
+              ? 'Binary file not shown.'
+              : 'This file is too large or part of a vendored directory and is not shown.'}
+          </p>
+        </div>
+      ) : (
+        <Highlight
+          theme={themes.github}
+          code={file.content}
+          language={PRISM_LANGUAGES[language] || 'text'}
+        >
+          {({ className: highlightClass, style, tokens, getLineProps, getTokenProps }) => (
+            <pre className={`${highlightClass} text-sm overflow-auto flex-1 py-2`} style={style}>
+              {tokens.map((line, lineIndex) => (
+                <div key={lineIndex} {...getLineProps({ line })} className="table-row">
+                  <span className="table-cell select-none text-right pr-4 pl-4 text-muted-foreground w-12">
+                    {lineIndex + 1}
+                  </span>
+                  <span className="table-cell pr-4">
+                    {line.map((token, tokenIndex) => (
+                      <span key={tokenIndex} {...getTokenProps({ token })} />
+                    ))}
+                  </span>
+                </div>
+              ))}
+            </pre>
+          )}
+        </Highlight>
+      )}
+    </div>
+  );
+};
+
+export default CodeViewer;
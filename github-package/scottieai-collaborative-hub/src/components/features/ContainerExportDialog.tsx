@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Container } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DEFAULT_CONTAINER_EXPORT_OPTIONS, exportAsContainer } from '@/services/containerExportService';
+import { ENVIRONMENT_NAMES } from '@/services/environmentService';
+import { EnvironmentName } from '@/types/deployment';
+import { ContainerExportOptions } from '@/types/export';
+
+interface ContainerExportDialogProps {
+  projectId: string;
+  trigger?: React.ReactNode;
+}
+
+const NODE_VERSIONS = ['18', '20', '22'];
+
+const ContainerExportDialog: React.FC<ContainerExportDialogProps> = ({ projectId, trigger }) => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<ContainerExportOptions>(DEFAULT_CONTAINER_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    const result = await exportAsContainer(projectId, options);
+    setIsExporting(false);
+
+    if (!result.success || !result.archive) return;
+
+    const url = URL.createObjectURL(result.archive);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = result.fileName || 'container.zip';
+    link.click();
+    URL.revokeObjectURL(url);
+    setOpen(false);
+  };
+
+  return (
+    <>
+      {trigger ? (
+        <div onClick={() => setOpen(true)}>{trigger}</div>
+      ) : (
+        <Button variant="outline" onClick={() => setOpen(true)}>
+          <Container className="mr-2 h-4 w-4" />
+          Export Container
+        </Button>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Export Container</DialogTitle>
+            <DialogDescription>
+              Download the project's code with a Dockerfile, .dockerignore and compose file.
+              Run <code>docker compose up --build</code> in the extracted folder to start it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="container-environment">Environment</Label>
+              <select
+                id="container-environment"
+                className="w-full p-2 border rounded mt-1"
+                value={options.environment}
+                onChange={(e) => setOptions(prev => ({ ...prev, environment: e.target.value as EnvironmentName }))}
+              >
+                {ENVIRONMENT_NAMES.map(name => (
+                  <option key={name} value={name}>{name.charAt(0).toUpperCase() + name.slice(1)}</option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Its variables go in the compose file. Secret values are left out and read from a .env file instead.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="container-node-version">Node.js version</Label>
+              <select
+                id="container-node-version"
+                className="w-full p-2 border rounded mt-1"
+                value={options.nodeVersion}
+                onChange={(e) => setOptions(prev => ({ ...prev, nodeVersion: e.target.value }))}
+              >
+                {NODE_VERSIONS.map(version => (
+                  <option key={version} value={version}>Node {version}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <Label htmlFor="container-host-port">Host port</Label>
+              <Input
+                id="container-host-port"
+                type="number"
+                min={1}
+                max={65535}
+                value={options.hostPort}
+                onChange={(e) => setOptions(prev => ({ ...prev, hostPort: parseInt(e.target.value, 10) || 0 }))}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleExport}
+              disabled={isExporting || options.hostPort < 1 || options.hostPort > 65535}
+              className="bg-scottie hover:bg-scottie-secondary"
+            >
+              {isExporting ? 'Packaging...' : 'Download Package'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ContainerExportDialog;
@@ -1,21 +1,53 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Progress } from '@/components/ui/progress';
 import { toast } from 'sonner';
 import { Rocket, Github, ExternalLink, Server, Globe, Code, CheckCircle } from 'lucide-react';
-import { deployToVercel, deployToNetlify, deployToGitHubPages, DeploymentOptions } from '@/services/deploymentService';
+import DeploymentJobLog from './DeploymentJobLog';
+import EnvironmentVariablesEditor from './EnvironmentVariablesEditor';
+import EnvironmentSecretsUnlock from './EnvironmentSecretsUnlock';
+import EnvironmentDiff from './EnvironmentDiff';
+import HealthCheckReport from './HealthCheckReport';
+import HealthCheckSettings from './HealthCheckSettings';
+import {
+  PREVIEW_RETENTION_DAYS,
+  getLastDeployedEnvironment,
+  getRecommendedPlatform as recommendPlatform,
+  DeploymentOptions,
+  DeploymentPlatform
+} from '@/services/deploymentService';
+import { ENVIRONMENT_NAMES, fingerprintEnvironment } from '@/services/environmentService';
+import { getDeploymentProvider, getDeploymentProviders } from '@/services/deploymentProviders';
+import {
+  getLatestDeploymentJob,
+  isDeploymentJobFinished,
+  startDeploymentJob
+} from '@/services/deploymentJobService';
+import { useDeploymentJob } from '@/hooks/useDeploymentJob';
+import { useProjectEnvironment } from '@/hooks/useProjectEnvironment';
+import { DeploymentCredentials, EnvironmentName, EnvironmentVariable } from '@/types/deployment';
+import {
+  diffEnvironmentVariables,
+  isValidEnvironmentKey,
+  mergeEnvironmentVariables,
+  summarizeEnvironmentDiff,
+  toEnvironmentRecord
+} from '@/utils/envUtils';
 
 interface DeploymentDialogProps {
   projectId: string;
   projectName: string;
   technologies: string[];
+  // Called when a production deployment goes live
   onDeploymentComplete: (url: string) => void;
   trigger?: React.ReactNode;
+  // Deploy this revision instead of the project's current one
+  revisionId?: string;
+  defaultEnvironment?: EnvironmentName;
 }
 
 const DeploymentDialog: React.FC<DeploymentDialogProps> = ({
@@ -23,15 +55,23 @@ const DeploymentDialog: React.FC<DeploymentDialogProps> = ({
   projectName,
   technologies,
   onDeploymentComplete,
-  trigger
+  trigger,
+  revisionId,
+  defaultEnvironment = 'production'
 }) => {
   const [open, setOpen] = useState(false);
-  const [platform, setPlatform] = useState<'vercel' | 'netlify' | 'github-pages' | 'custom'>('vercel');
-  const [customDomain, setCustomDomain] = useState('');
-  const [isDeploying, setIsDeploying] = useState(false);
-  const [deploymentProgress, setDeploymentProgress] = useState(0);
-  const [deploymentUrl, setDeploymentUrl] = useState('');
-  const [deploymentSuccess, setDeploymentSuccess] = useState(false);
+  const providers = getDeploymentProviders();
+  const [platform, setPlatform] = useState<DeploymentPlatform>(() => recommendPlatform(technologies));
+  // Entered per provider and kept only while the dialog is mounted
+  const [credentials, setCredentials] = useState<Record<DeploymentPlatform, DeploymentCredentials>>({});
+  // Jobs live in the job service, so a deployment keeps running and reappears after the dialog closes
+  const [jobId, setJobId] = useState<string | null>(() => getLatestDeploymentJob(projectId)?.id || null);
+  const job = useDeploymentJob(jobId);
+  // Jobs already finished when the dialog mounted were announced by an earlier instance
+  const announcedJobId = useRef<string | null>(job && isDeploymentJobFinished(job) ? job.id : null);
+  const isDeploying = Boolean(job && !isDeploymentJobFinished(job));
+  const deploymentSuccess = job?.phase === 'live';
+  const deploymentUrl = job?.deploymentUrl || '';
   const [activeTab, setActiveTab] = useState('platform');
   const [deploymentOptions, setDeploymentOptions] = useState<DeploymentOptions>({
     buildCommand: 'npm run build',
@@ -39,73 +79,69 @@ const DeploymentDialog: React.FC<DeploymentDialogProps> = ({
     environmentVariables: {},
     framework: 'react'
   });
+  const [environment, setEnvironment] = useState<EnvironmentName>(defaultEnvironment);
+  // Applied on top of the project environment for this deployment only
+  const [overrides, setOverrides] = useState<EnvironmentVariable[]>([]);
+  const projectEnvironment = useProjectEnvironment(projectId, environment, open);
+  // Fingerprints from the last successful deploy, or null if there wasn't one
+  const [lastDeployed, setLastDeployed] = useState<Record<string, string> | null>(null);
 
-  const handleDeploy = async () => {
-    setIsDeploying(true);
-    setDeploymentProgress(0);
-    setDeploymentSuccess(false);
-    
-    const progressInterval = setInterval(() => {
-      setDeploymentProgress(prev => {
-        if (prev >= 90) {
-          clearInterval(progressInterval);
-          return 90;
-        }
-        return prev + 10;
-      });
-    }, 1000);
+  const resolvedVariables = useMemo(
+    () => mergeEnvironmentVariables(projectEnvironment.variables, overrides.filter(variable => variable.key)),
+    [projectEnvironment.variables, overrides]
+  );
+
+  const secretKeys = useMemo(
+    () => resolvedVariables.filter(variable => variable.secret).map(variable => variable.key),
+    [resolvedVariables]
+  );
+
+  const environmentDiff = useMemo(() => diffEnvironmentVariables(
+    lastDeployed || {},
+    fingerprintEnvironment(projectId, toEnvironmentRecord(resolvedVariables), secretKeys),
+    secretKeys
+  ), [lastDeployed, projectId, resolvedVariables, secretKeys]);
+
+  // Refetched after each deployment so the diff compares against the latest one
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    getLastDeployedEnvironment(projectId, platform, environment).then(fingerprints => {
+      if (!cancelled) setLastDeployed(fingerprints);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, projectId, platform, environment, jobId]);
+
+  useEffect(() => {
+    if (!job || !isDeploymentJobFinished(job) || announcedJobId.current === job.id) return;
+    announcedJobId.current = job.id;
     
-    try {
-      let result;
-      
-      switch (platform) {
-        case 'vercel':
-          result = await deployToVercel(projectId, deploymentOptions);
-          break;
-        case 'netlify':
-          result = await deployToNetlify(projectId, deploymentOptions);
-          break;
-        case 'github-pages':
-          result = await deployToGitHubPages(projectId, deploymentOptions);
-          break;
-        case 'custom':
-          // For custom deployment, we'd typically generate deployment files
-          // and provide instructions, but for now we'll simulate success
-          result = { 
-            success: true, 
-            deploymentUrl: customDomain || `https://${projectName.toLowerCase().replace(/\s+/g, '-')}.example.com` 
-          };
-          break;
-      }
-      
-      clearInterval(progressInterval);
-      
-      if (result.success) {
-        setDeploymentProgress(100);
-        setDeploymentUrl(result.deploymentUrl);
-        setDeploymentSuccess(true);
-        onDeploymentComplete(result.deploymentUrl);
-        toast.success(`Deployment to ${getPlatformName(platform)} successful!`);
-      } else {
-        throw new Error(result.error || 'Deployment failed');
-      }
-    } catch (error) {
-      clearInterval(progressInterval);
-      setDeploymentProgress(0);
-      toast.error(`Deployment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setIsDeploying(false);
+    if (job.phase === 'live' && job.deploymentUrl) {
+      // Previews get their own URL and leave the project's production URL alone
+      if (job.environment === 'production') onDeploymentComplete(job.deploymentUrl);
+      toast.success(`Deployment to ${getDeploymentProvider(job.platform)?.name || job.platform} successful!`);
+    } else {
+      toast.error(`Deployment failed: ${job.error || 'Unknown error'}`);
     }
+  }, [job, onDeploymentComplete]);
+
+  const handleDeploy = () => {
+    const started = startDeploymentJob(platform, projectId, {
+      ...deploymentOptions,
+      environment,
+      environmentVariables: toEnvironmentRecord(resolvedVariables),
+      secretKeys,
+      revisionId
+    }, credentials[platform] || {});
+    setJobId(started.id);
   };
   
   const getPlatformName = (platform: string): string => {
-    switch (platform) {
-      case 'vercel': return 'Vercel';
-      case 'netlify': return 'Netlify';
-      case 'github-pages': return 'GitHub Pages';
-      case 'custom': return 'Custom Domain';
-      default: return platform;
-    }
+    return getDeploymentProvider(platform)?.name || platform;
   };
   
   const getPlatformIcon = (platform: string) => {
@@ -113,39 +149,39 @@ const DeploymentDialog: React.FC<DeploymentDialogProps> = ({
       case 'vercel': return <Rocket className="h-5 w-5" />;
       case 'netlify': return <Globe className="h-5 w-5" />;
       case 'github-pages': return <Github className="h-5 w-5" />;
-      case 'custom': return <Server className="h-5 w-5" />;
+      case 'local-static': return <Server className="h-5 w-5" />;
       default: return <Code className="h-5 w-5" />;
     }
   };
   
-  const handleUpdateOptions = (key: keyof DeploymentOptions, value: any) => {
-    setDeploymentOptions(prev => ({
+  const handleUpdateCredential = (key: string, value: string) => {
+    setCredentials(prev => ({
       ...prev,
-      [key]: value
+      [platform]: {
+        ...prev[platform],
+        [key]: value
+      }
     }));
   };
   
-  const handleAddEnvVar = (key: string, value: string) => {
+  const selectedProvider = getDeploymentProvider(platform);
+  const isEnvironmentReady = !projectEnvironment.isLoading && !projectEnvironment.isLocked && !projectEnvironment.error &&
+    overrides.every(variable => !variable.key || isValidEnvironmentKey(variable.key));
+  const canHostEnvironment = environment === 'production' || Boolean(selectedProvider?.supportsPreview);
+  const canDeploy = Boolean(
+    selectedProvider?.isAvailable() &&
+    canHostEnvironment &&
+    selectedProvider.credentialFields.every(field => field.optional || credentials[platform]?.[field.key]?.trim()) &&
+    isEnvironmentReady
+  );
+  
+  const handleUpdateOptions = (key: keyof DeploymentOptions, value: any) => {
     setDeploymentOptions(prev => ({
       ...prev,
-      environmentVariables: {
-        ...prev.environmentVariables,
-        [key]: value
-      }
+      [key]: value
     }));
   };
   
-  const handleRemoveEnvVar = (key: string) => {
-    setDeploymentOptions(prev => {
-      const newEnvVars = { ...prev.environmentVariables };
-      delete newEnvVars[key];
-      return {
-        ...prev,
-        environmentVariables: newEnvVars
-      };
-    });
-  };
-  
   const handleFrameworkChange = (framework: string) => {
     // Update build command and output directory based on framework
     let buildCommand = 'npm run build';
@@ -220,16 +256,17 @@ const DeploymentDialog: React.FC<DeploymentDialogProps> = ({
           <DialogHeader>
             <DialogTitle>Deploy Project</DialogTitle>
             <DialogDescription>
-              Deploy your project to a hosting platform or custom domain.
+              Deploy your project to one of the available hosting providers.
             </DialogDescription>
           </DialogHeader>
           
           {!deploymentSuccess ? (
             <Tabs value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid grid-cols-3 mb-4">
+              <TabsList className="grid grid-cols-4 mb-4">
                 <TabsTrigger value="platform">Platform</TabsTrigger>
                 <TabsTrigger value="options">Options</TabsTrigger>
                 <TabsTrigger value="environment">Environment</TabsTrigger>
+                <TabsTrigger value="checks">Checks</TabsTrigger>
               </TabsList>
               
               <TabsContent value="platform" className="space-y-4">
@@ -237,49 +274,43 @@ const DeploymentDialog: React.FC<DeploymentDialogProps> = ({
                   {getRecommendedPlatform()}
                 </div>
                 
-                <RadioGroup value={platform} onValueChange={(value: any) => setPlatform(value)}>
-                  <div className="flex items-center space-x-2 mb-3">
-                    <RadioGroupItem value="vercel" id="vercel" />
-                    <Label htmlFor="vercel" className="flex items-center">
-                      <Rocket className="mr-2 h-4 w-4" />
-                      Vercel
-                    </Label>
-                  </div>
-                  <div className="flex items-center space-x-2 mb-3">
-                    <RadioGroupItem value="netlify" id="netlify" />
-                    <Label htmlFor="netlify" className="flex items-center">
-                      <Globe className="mr-2 h-4 w-4" />
-                      Netlify
-                    </Label>
-                  </div>
-                  <div className="flex items-center space-x-2 mb-3">
-                    <RadioGroupItem value="github-pages" id="github-pages" />
-                    <Label htmlFor="github-pages" className="flex items-center">
-                      <Github className="mr-2 h-4 w-4" />
-                      GitHub Pages
-                    </Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="custom" id="custom" />
-                    <Label htmlFor="custom" className="flex items-center">
-                      <Server className="mr-2 h-4 w-4" />
-                      Custom Domain
-                    </Label>
-                  </div>
+                <RadioGroup value={platform} onValueChange={setPlatform}>
+                  {providers.map(provider => (
+                    <div key={provider.id} className="flex items-start space-x-2 mb-3">
+                      <RadioGroupItem
+                        value={provider.id}
+                        id={`platform-${provider.id}`}
+                        disabled={!provider.isAvailable()}
+                        className="mt-1"
+                      />
+                      <Label htmlFor={`platform-${provider.id}`} className="flex-1">
+                        <span className="flex items-center">
+                          <span className="mr-2">{getPlatformIcon(provider.id)}</span>
+                          {provider.name}
+                        </span>
+                        <span className="block text-xs font-normal text-muted-foreground mt-1">
+                          {provider.isAvailable() ? provider.description : provider.unavailableReason || 'Not available in this environment'}
+                        </span>
+                      </Label>
+                    </div>
+                  ))}
                 </RadioGroup>
                 
-                {platform === 'custom' && (
-                  <div className="mt-4">
-                    <Label htmlFor="custom-domain">Custom Domain</Label>
+                {selectedProvider?.credentialFields.map(field => (
+                  <div key={field.key} className="mt-4">
+                    <Label htmlFor={`credential-${field.key}`}>
+                      {field.label}{field.optional ? ' (optional)' : ''}
+                    </Label>
                     <Input
-                      id="custom-domain"
-                      placeholder="https://example.com"
-                      value={customDomain}
-                      onChange={(e) => setCustomDomain(e.target.value)}
+                      id={`credential-${field.key}`}
+                      type={field.secret ? 'password' : 'text'}
+                      placeholder={field.placeholder}
+                      value={credentials[platform]?.[field.key] || ''}
+                      onChange={(e) => handleUpdateCredential(field.key, e.target.value)}
                       className="mt-1"
                     />
                   </div>
-                )}
+                ))}
               </TabsContent>
               
               <TabsContent value="options" className="space-y-4">
@@ -322,82 +353,102 @@ const DeploymentDialog: React.FC<DeploymentDialogProps> = ({
               </TabsContent>
               
               <TabsContent value="environment" className="space-y-4">
-                <div className="text-sm text-muted-foreground mb-4">
-                  Add environment variables for your deployment
+                <div>
+                  <Label htmlFor="deploy-environment">Environment</Label>
+                  <select
+                    id="deploy-environment"
+                    className="w-full p-2 border rounded mt-1"
+                    value={environment}
+                    onChange={(e) => setEnvironment(e.target.value as EnvironmentName)}
+                  >
+                    {ENVIRONMENT_NAMES.map(name => (
+                      <option key={name} value={name}>{name.charAt(0).toUpperCase() + name.slice(1)}</option>
+                    ))}
+                  </select>
+                  {selectedProvider && !canHostEnvironment && (
+                    <p className="text-xs text-red-600 mt-1">
+                      {selectedProvider.name} only hosts production deployments. Choose another platform for previews.
+                    </p>
+                  )}
+                  {environment !== 'production' && canHostEnvironment && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Preview deployments get their own URL and are removed after {PREVIEW_RETENTION_DAYS} days.
+                    </p>
+                  )}
+                  {selectedProvider && !selectedProvider.supportsEnvironment && resolvedVariables.length > 0 && (
+                    <p className="text-xs text-amber-600 mt-1">
+                      {selectedProvider.name} can't set environment variables, so they won't be available at runtime.
+                    </p>
+                  )}
                 </div>
                 
-                {Object.entries(deploymentOptions.environmentVariables || {}).map(([key, value]) => (
-                  <div key={key} className="flex items-center space-x-2">
-                    <Input
-                      value={key}
-                      disabled
-                      className="flex-1"
+                {projectEnvironment.isLocked ? (
+                  <EnvironmentSecretsUnlock onUnlock={projectEnvironment.reload} error={projectEnvironment.error} />
+                ) : (
+                  <>
+                    {projectEnvironment.error && <p className="text-sm text-red-600">{projectEnvironment.error}</p>}
+                    <div className="text-sm text-muted-foreground">
+                      {projectEnvironment.isLoading
+                        ? 'Loading environment...'
+                        : `${projectEnvironment.variables.length} variable${projectEnvironment.variables.length === 1 ? '' : 's'} from the ${environment} environment. Overrides below apply to this deployment only.`}
+                    </div>
+                    <EnvironmentVariablesEditor
+                      variables={overrides}
+                      onChange={setOverrides}
+                      exportName={`${environment}-overrides`}
                     />
-                    <Input
-                      value={value}
-                      onChange={(e) => handleAddEnvVar(key, e.target.value)}
-                      className="flex-1"
-                      type="password"
-                    />
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleRemoveEnvVar(key)}
-                    >
-                      Remove
-                    </Button>
-                  </div>
-                ))}
-                
-                <div className="flex items-center space-x-2">
-                  <Input
-                    placeholder="KEY"
-                    id="env-key"
-                    className="flex-1"
-                  />
-                  <Input
-                    placeholder="VALUE"
-                    id="env-value"
-                    className="flex-1"
-                    type="password"
-                  />
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => {
-                      const key = (document.getElementById('env-key') as HTMLInputElement).value;
-                      const value = (document.getElementById('env-value') as HTMLInputElement).value;
-                      if (key && value) {
-                        handleAddEnvVar(key, value);
-                        (document.getElementById('env-key') as HTMLInputElement).value = '';
-                        (document.getElementById('env-value') as HTMLInputElement).value = '';
-                      }
-                    }}
-                  >
-                    Add
-                  </Button>
-                </div>
+                    <EnvironmentDiff entries={environmentDiff} hasPrevious={lastDeployed !== null} />
+                  </>
+                )}
+              </TabsContent>
+              
+              <TabsContent value="checks">
+                <HealthCheckSettings projectId={projectId} enabled={open} />
               </TabsContent>
               
+              {activeTab !== 'environment' && isEnvironmentReady && (
+                <button
+                  type="button"
+                  onClick={() => setActiveTab('environment')}
+                  className="mt-4 text-xs text-muted-foreground hover:underline"
+                >
+                  {environment.charAt(0).toUpperCase() + environment.slice(1)} environment: {lastDeployed
+                    ? summarizeEnvironmentDiff(environmentDiff)
+                    : `${resolvedVariables.length} variable${resolvedVariables.length === 1 ? '' : 's'}`}
+                </button>
+              )}
+              {activeTab !== 'environment' && (projectEnvironment.isLocked || projectEnvironment.error) && (
+                <button
+                  type="button"
+                  onClick={() => setActiveTab('environment')}
+                  className="mt-4 text-xs text-red-600 hover:underline"
+                >
+                  {projectEnvironment.isLocked ? 'Unlock secrets before deploying' : projectEnvironment.error}
+                </button>
+              )}
+              
               <DialogFooter className="mt-6">
                 <Button variant="outline" onClick={() => setOpen(false)}>
                   Cancel
                 </Button>
                 <Button 
                   onClick={handleDeploy} 
-                  disabled={isDeploying}
+                  disabled={isDeploying || !canDeploy}
                   className="bg-scottie hover:bg-scottie-secondary"
                 >
                   {isDeploying ? 'Deploying...' : 'Deploy to ' + getPlatformName(platform)}
                 </Button>
               </DialogFooter>
               
-              {isDeploying && (
-                <div className="mt-4 space-y-2">
-                  <Progress value={deploymentProgress} className="h-2" />
-                  <p className="text-xs text-center text-muted-foreground">
-                    Deploying to {getPlatformName(platform)}... {deploymentProgress}%
+              {job && (
+                <div className="mt-4">
+                  <p className="text-xs text-muted-foreground mb-2">
+                    {isDeploying
+                      ? `Deploying to ${getPlatformName(job.platform)}...`
+                      : `Last deployment to ${getPlatformName(job.platform)} failed`}
                   </p>
+                  <DeploymentJobLog job={job} />
+                  {job.healthCheck && <HealthCheckReport report={job.healthCheck} className="mt-4" />}
                 </div>
               )}
             </Tabs>
@@ -409,7 +460,7 @@ const DeploymentDialog: React.FC<DeploymentDialogProps> = ({
                 </div>
                 <h3 className="text-xl font-semibold mb-2">Deployment Successful!</h3>
                 <p className="text-muted-foreground mb-4">
-                  Your project has been successfully deployed to {getPlatformName(platform)}.
+                  Your project has been successfully deployed to {getPlatformName(job.platform)}.
                 </p>
                 
                 <div className="flex items-center justify-center space-x-2 bg-muted p-3 rounded-md w-full">
@@ -427,6 +478,10 @@ const DeploymentDialog: React.FC<DeploymentDialogProps> = ({
                 </div>
               </div>
               
+              {job.healthCheck && <HealthCheckReport report={job.healthCheck} />}
+              
+              <DeploymentJobLog job={job} />
+              
               <div className="flex justify-center space-x-4">
                 <Button 
                   variant="outline" 
@@ -434,6 +489,12 @@ const DeploymentDialog: React.FC<DeploymentDialogProps> = ({
                 >
                   Close
                 </Button>
+                <Button 
+                  variant="outline" 
+                  onClick={() => setJobId(null)}
+                >
+                  New Deployment
+                </Button>
                 <Button 
                   className="bg-scottie hover:bg-scottie-secondary"
                   onClick={() => window.open(deploymentUrl, '_blank')}
@@ -4,18 +4,18 @@ import { Code2 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import EnvironmentVariablesEditor from '../EnvironmentVariablesEditor';
+import { EnvironmentVariable } from '@/types/deployment';
+
+export interface AdvancedDeploymentSettings {
+  buildCommand: string;
+  outputDirectory: string;
+  environmentVariables: EnvironmentVariable[];
+}
 
 interface DeploymentSettingsProps {
-  advancedSettings: {
-    buildCommand: string;
-    outputDirectory: string;
-    environmentVariables: string;
-  };
-  setAdvancedSettings: React.Dispatch<React.SetStateAction<{
-    buildCommand: string;
-    outputDirectory: string;
-    environmentVariables: string;
-  }>>;
+  advancedSettings: AdvancedDeploymentSettings;
+  setAdvancedSettings: React.Dispatch<React.SetStateAction<AdvancedDeploymentSettings>>;
   technologies: string[];
 }
 
@@ -51,15 +51,12 @@ const DeploymentSettings: React.FC<DeploymentSettingsProps> = ({
       </div>
       
       <div className="grid gap-2">
-        <Label htmlFor="envVars">Environment Variables (one per line, KEY=VALUE)</Label>
-        <textarea
-          id="envVars"
-          className="flex h-24 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
-          placeholder="API_KEY=your_api_key_here&#10;DATABASE_URL=your_database_url_here"
-          value={advancedSettings.environmentVariables}
-          onChange={(e) => setAdvancedSettings({
+        <Label>Environment Variables</Label>
+        <EnvironmentVariablesEditor
+          variables={advancedSettings.environmentVariables}
+          onChange={(environmentVariables) => setAdvancedSettings({
             ...advancedSettings,
-            environmentVariables: e.target.value
+            environmentVariables
           })}
         />
       </div>
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { Server, Globe, Zap, Github } from 'lucide-react';
+import { Server, Globe, Github, HardDrive } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { 
   Card, 
@@ -10,6 +10,14 @@ import {
   CardTitle 
 } from '@/components/ui/card';
 import { DeploymentPlatform } from '@/services/deploymentService';
+import { getDeploymentProviders } from '@/services/deploymentProviders';
+
+const PLATFORM_ICONS: Record<string, React.ReactNode> = {
+  vercel: <Server className="h-6 w-6" />,
+  netlify: <Globe className="h-6 w-6" />,
+  'github-pages': <Github className="h-6 w-6" />,
+  'local-static': <HardDrive className="h-6 w-6" />
+};
 
 interface PlatformSelectorProps {
   selectedPlatform: DeploymentPlatform;
@@ -20,33 +28,13 @@ const PlatformSelector: React.FC<PlatformSelectorProps> = ({
   selectedPlatform,
   onSelectPlatform
 }) => {
-  const platforms = [
-    {
-      id: 'vercel' as DeploymentPlatform,
-      name: 'Vercel',
-      description: 'Deploy with a single click to Vercel for the best frontend experience.',
-      icon: <Server className="h-6 w-6" />,
-      isRecommended: true
-    },
-    {
-      id: 'netlify' as DeploymentPlatform,
-      name: 'Netlify',
-      description: 'Deploy to Netlify for a seamless CI/CD workflow and edge functions.',
-      icon: <Globe className="h-6 w-6" />
-    },
-    {
-      id: 'aws-amplify' as DeploymentPlatform,
-      name: 'AWS Amplify',
-      description: 'Deploy to AWS Amplify for scalable and secure cloud hosting.',
-      icon: <Zap className="h-6 w-6" />
-    },
-    {
-      id: 'github-pages' as DeploymentPlatform,
-      name: 'GitHub Pages',
-      description: 'Deploy to GitHub Pages for simple static site hosting.',
-      icon: <Github className="h-6 w-6" />
-    }
-  ];
+  const platforms = getDeploymentProviders().map(provider => ({
+    id: provider.id,
+    name: provider.name,
+    description: provider.description,
+    icon: PLATFORM_ICONS[provider.id] || <Server className="h-6 w-6" />,
+    isRecommended: provider.id === 'vercel'
+  }));
 
   return (
     <div className="grid gap-4">
@@ -11,9 +11,11 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { deployToProvider, DeploymentPlatform } from '@/services/deploymentService';
+import { deployToProvider, generateDeploymentConfig, DeploymentPlatform } from '@/services/deploymentService';
+import { getDeploymentProvider } from '@/services/deploymentProviders';
 import PlatformSelector from './PlatformSelector';
-import DeploymentSettings from './DeploymentSettings';
+import DeploymentSettings, { AdvancedDeploymentSettings } from './DeploymentSettings';
+import { toEnvironmentRecord } from '@/utils/envUtils';
 
 interface DeploymentDialogProps {
   projectId: string;
@@ -33,34 +35,23 @@ const DeploymentDialog: React.FC<DeploymentDialogProps> = ({
   const [isOpen, setIsOpen] = useState(false);
   const [selectedPlatform, setSelectedPlatform] = useState<DeploymentPlatform>('vercel');
   const [isDeploying, setIsDeploying] = useState(false);
-  const [advancedSettings, setAdvancedSettings] = useState({
+  const [advancedSettings, setAdvancedSettings] = useState<AdvancedDeploymentSettings>({
     buildCommand: 'npm run build',
     outputDirectory: 'dist',
-    environmentVariables: ''
+    environmentVariables: []
   });
 
   const handleDeploy = async () => {
     setIsDeploying(true);
     
     try {
-      // Parse environment variables
-      const envVars = {};
-      if (advancedSettings.environmentVariables) {
-        advancedSettings.environmentVariables.split('\n').forEach(line => {
-          const [key, value] = line.split('=');
-          if (key && value) {
-            envVars[key.trim()] = value.trim();
-          }
-        });
-      }
-      
       // Deploy to selected platform
       const deployFn = deployToProvider(selectedPlatform);
       const result = await deployFn(projectId, {
-        platform: selectedPlatform,
+        framework: generateDeploymentConfig(technologies).framework,
         buildCommand: advancedSettings.buildCommand,
         outputDirectory: advancedSettings.outputDirectory,
-        environmentVariables: envVars
+        environmentVariables: toEnvironmentRecord(advancedSettings.environmentVariables.filter(variable => variable.key))
       });
       
       if (result.success && result.deploymentUrl) {
@@ -124,7 +115,7 @@ const DeploymentDialog: React.FC<DeploymentDialogProps> = ({
             className="bg-scottie hover:bg-scottie-secondary"
             disabled={isDeploying}
           >
-            {isDeploying ? 'Deploying...' : `Deploy to ${selectedPlatform.charAt(0).toUpperCase() + selectedPlatform.slice(1)}`}
+            {isDeploying ? 'Deploying...' : `Deploy to ${getDeploymentProvider(selectedPlatform)?.name || selectedPlatform}`}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowUpCircle, ChevronDown, ChevronRight, ExternalLink, Rocket, Undo2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import DeploymentJobLog from './DeploymentJobLog';
+import HealthCheckReport from './HealthCheckReport';
+import PromoteDeploymentDialog from './PromoteDeploymentDialog';
+import { getDeploymentHistory } from '@/services/deploymentService';
+import { getDeploymentProvider } from '@/services/deploymentProviders';
+import { getDeploymentJobLog } from '@/services/deploymentJobService';
+import {
+  cleanupExpiredPreviews,
+  findProductionDeployment,
+  findRollbackTarget,
+  getPromotionHistory,
+  isDeploymentServable
+} from '@/services/deploymentReleaseService';
+import { getProjectRevisions } from '@/services/projectService';
+import { Deployment, DeploymentJob, DeploymentPromotion, HealthCheckOutcome } from '@/types/deployment';
+
+interface DeploymentHistoryProps {
+  projectId: string;
+  className?: string;
+}
+
+interface DeploymentRecordRowProps {
+  deployment: Deployment;
+  revisionNumber?: number;
+  isProduction: boolean;
+  onPromote: (deployment: Deployment) => void;
+}
+
+const ENVIRONMENT_BADGES: Record<Deployment['environment'], string> = {
+  production: 'bg-green-100 text-green-800',
+  preview: 'bg-blue-100 text-blue-800',
+  development: 'bg-gray-100 text-gray-800'
+};
+
+const CHECK_BADGES: Record<HealthCheckOutcome, string> = {
+  passed: 'bg-green-100 text-green-800',
+  unchecked: 'bg-gray-100 text-gray-800',
+  warning: 'bg-amber-100 text-amber-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const getPlatformName = (platform: string): string => getDeploymentProvider(platform)?.name || platform;
+
+const DeploymentRecordRow: React.FC<DeploymentRecordRowProps> = ({ deployment, revisionNumber, isProduction, onPromote }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [job, setJob] = useState<DeploymentJob | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const isRemoved = Boolean(deployment.tornDownAt);
+
+  // The log is fetched the first time the row is expanded
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open);
+    if (!open || job || !deployment.jobId) return;
+
+    setIsLoading(true);
+    setJob(await getDeploymentJobLog(deployment.jobId));
+    setIsLoading(false);
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={handleOpenChange} className="p-4">
+      <div className="flex items-start justify-between">
+        <div className="min-w-0">
+          <div className="font-medium flex flex-wrap items-center gap-2">
+            {getPlatformName(deployment.platform)}
+            {deployment.status === 'failed' && (
+              <Badge variant="destructive" className="text-xs">Failed</Badge>
+            )}
+            <Badge variant="outline" className={`text-xs capitalize ${ENVIRONMENT_BADGES[deployment.environment]}`}>
+              {deployment.environment}
+            </Badge>
+            {isProduction && <Badge className="text-xs bg-scottie">Current production</Badge>}
+            {deployment.healthCheck && (
+              <Badge variant="outline" className={`text-xs ${CHECK_BADGES[deployment.healthCheck.outcome]}`}>
+                Checks {deployment.healthCheck.outcome}
+              </Badge>
+            )}
+            {revisionNumber !== undefined && (
+              <span className="text-xs font-normal text-muted-foreground">Revision {revisionNumber}</span>
+            )}
+          </div>
+          {deployment.url && (
+            isRemoved ? (
+              <p className="text-sm text-muted-foreground line-through mt-1 truncate">{deployment.url}</p>
+            ) : (
+              <a
+                href={deployment.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-scottie hover:underline flex items-center mt-1 truncate"
+              >
+                {deployment.url}
+                <ExternalLink className="ml-1 h-3 w-3 flex-shrink-0" />
+              </a>
+            )
+          )}
+          {deployment.error && (
+            <p className="text-sm text-red-600 mt-1">{deployment.error}</p>
+          )}
+          <p className="text-xs text-muted-foreground mt-1 font-mono">{deployment.id}</p>
+          {isRemoved && (
+            <p className="text-xs text-muted-foreground mt-1">Removed {deployment.tornDownAt!.toLocaleString()}</p>
+          )}
+          {!isRemoved && deployment.expiresAt && !isProduction && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {deployment.expiresAt.getTime() > Date.now()
+                ? `Preview expires ${deployment.expiresAt.toLocaleString()}`
+                : 'Preview expired; it is removed at the next cleanup'}
+            </p>
+          )}
+        </div>
+        <div className="text-right text-sm text-muted-foreground flex-shrink-0 ml-4">
+          <div>{deployment.created.toLocaleString()}</div>
+          {deployment.jobId ? (
+            <CollapsibleTrigger className="mt-1 inline-flex items-center text-scottie hover:underline">
+              {isOpen ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+              View log
+            </CollapsibleTrigger>
+          ) : (
+            <div className="mt-1">No log recorded</div>
+          )}
+          {isDeploymentServable(deployment) && !isProduction && (
+            <div>
+              <Button variant="outline" size="sm" className="mt-2" onClick={() => onPromote(deployment)}>
+                <ArrowUpCircle className="mr-1 h-3 w-3" />
+                Promote
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+      <CollapsibleContent className="mt-4">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading log...</p>}
+        {deployment.healthCheck && <HealthCheckReport report={deployment.healthCheck} className="mb-4" />}
+        {!isLoading && job && <DeploymentJobLog job={job} />}
+        {!isLoading && !job && <p className="text-sm text-muted-foreground">The log for this deployment is no longer available.</p>}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+const DeploymentHistory: React.FC<DeploymentHistoryProps> = ({ projectId, className = "" }) => {
+  const [deployments, setDeployments] = useState<Deployment[]>([]);
+  const [promotions, setPromotions] = useState<DeploymentPromotion[]>([]);
+  const [revisionNumbers, setRevisionNumbers] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [promoting, setPromoting] = useState<{ deployment: Deployment; action: 'promote' | 'rollback' } | null>(null);
+  const [version, setVersion] = useState(0);
+
+  const reload = useCallback(() => setVersion(current => current + 1), []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      setIsLoading(true);
+      // Previews on providers that need no credentials can be removed right away
+      await cleanupExpiredPreviews(projectId);
+
+      const [history, promotionHistory, revisions] = await Promise.all([
+        getDeploymentHistory(projectId),
+        getPromotionHistory(projectId),
+        getProjectRevisions(projectId)
+      ]);
+      if (cancelled) return;
+
+      setDeployments(history);
+      setPromotions(promotionHistory);
+      setRevisionNumbers(Object.fromEntries(revisions.map(revision => [revision.id, revision.revisionNumber])));
+      setIsLoading(false);
+    };
+
+    loadHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, version]);
+
+  if (isLoading) {
+    return (
+      <div className={`flex justify-center items-center py-12 ${className}`}>
+        <p>Loading deployments...</p>
+      </div>
+    );
+  }
+
+  if (deployments.length === 0) {
+    return (
+      <div className={`flex flex-col items-center justify-center py-12 text-muted-foreground ${className}`}>
+        <Rocket className="h-10 w-10 mb-3" />
+        <p className="text-sm">This project hasn't been deployed yet.</p>
+      </div>
+    );
+  }
+
+  const production = findProductionDeployment(deployments, promotions);
+  const rollbackTarget = findRollbackTarget(deployments, promotions);
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {production && promotions[0] && (
+        <div className="border rounded-lg p-4 flex items-start justify-between">
+          <div>
+            <div className="text-sm text-muted-foreground">Production</div>
+            <a
+              href={promotions[0].productionUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium text-scottie hover:underline flex items-center"
+            >
+              {promotions[0].productionUrl}
+              <ExternalLink className="ml-1 h-3 w-3" />
+            </a>
+            <div className="text-xs text-muted-foreground mt-1">
+              {getPlatformName(production.platform)} deployment from {production.created.toLocaleString()}
+              {promotions[0].action !== 'deploy' && ` · ${promotions[0].action === 'rollback' ? 'rolled back' : 'promoted'} ${promotions[0].created.toLocaleString()}`}
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!rollbackTarget}
+            onClick={() => rollbackTarget && setPromoting({ deployment: rollbackTarget, action: 'rollback' })}
+            title={rollbackTarget ? `Roll back to the deployment from ${rollbackTarget.created.toLocaleString()}` : 'No earlier production deployment'}
+          >
+            <Undo2 className="mr-1 h-4 w-4" />
+            Roll Back
+          </Button>
+        </div>
+      )}
+
+      <div className="border rounded-lg divide-y">
+        {deployments.map(deployment => (
+          <DeploymentRecordRow
+            key={deployment.id}
+            deployment={deployment}
+            revisionNumber={deployment.revisionId ? revisionNumbers[deployment.revisionId] : undefined}
+            isProduction={deployment.id === production?.id}
+            onPromote={(selected) => setPromoting({ deployment: selected, action: 'promote' })}
+          />
+        ))}
+      </div>
+
+      <PromoteDeploymentDialog
+        deployment={promoting?.deployment || null}
+        action={promoting?.action || 'promote'}
+        onClose={() => setPromoting(null)}
+        onPromoted={reload}
+      />
+    </div>
+  );
+};
+
+export default DeploymentHistory;
@@ -0,0 +1,79 @@
+import React, { useEffect, useRef } from 'react';
+import { CheckCircle, Circle, Loader2, XCircle } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { DeploymentJob, DeploymentPhase } from '@/types/deployment';
+
+interface DeploymentJobLogProps {
+  job: DeploymentJob;
+  className?: string;
+}
+
+// Phases shown as steps; a job ends on 'live' or 'failed' after the last of them
+const STEPS: { phase: DeploymentPhase; label: string }[] = [
+  { phase: 'queued', label: 'Queued' },
+  { phase: 'installing', label: 'Installing' },
+  { phase: 'building', label: 'Building' },
+  { phase: 'uploading', label: 'Uploading' },
+  { phase: 'verifying', label: 'Verifying' },
+  { phase: 'live', label: 'Live' }
+];
+
+const LEVEL_CLASSES = {
+  info: 'text-slate-200',
+  warning: 'text-amber-300',
+  error: 'text-red-400'
+};
+
+const DeploymentJobLog: React.FC<DeploymentJobLogProps> = ({ job, className = "" }) => {
+  const logRef = useRef<HTMLDivElement>(null);
+  const isFailed = job.phase === 'failed';
+
+  // A failed job stops at the last phase it reached before failing
+  const reachedPhase = isFailed ? job.logs[job.logs.length - 1]?.phase || 'queued' : job.phase;
+  const currentStep = Math.max(0, STEPS.findIndex(step => step.phase === reachedPhase));
+  const progress = job.phase === 'live' ? 100 : Math.round((currentStep / (STEPS.length - 1)) * 100);
+
+  // Keep the newest line in view while the log grows
+  useEffect(() => {
+    if (logRef.current) logRef.current.scrollTop = logRef.current.scrollHeight;
+  }, [job.logs.length]);
+
+  const getStepIcon = (index: number) => {
+    if (isFailed && index === currentStep) return <XCircle className="h-4 w-4 text-red-500" />;
+    if (index < currentStep || job.phase === 'live') return <CheckCircle className="h-4 w-4 text-green-600" />;
+    if (index === currentStep) return <Loader2 className="h-4 w-4 animate-spin text-scottie" />;
+    return <Circle className="h-4 w-4 text-muted-foreground" />;
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs">
+        {STEPS.map((step, index) => (
+          <span
+            key={step.phase}
+            className={`flex items-center gap-1 ${index > currentStep && job.phase !== 'live' ? 'text-muted-foreground' : ''}`}
+          >
+            {getStepIcon(index)}
+            {step.label}
+          </span>
+        ))}
+      </div>
+
+      <Progress value={progress} className={`h-2 ${isFailed ? '[&>div]:bg-red-500' : ''}`} />
+
+      <div
+        ref={logRef}
+        className="h-56 overflow-auto rounded-md bg-slate-950 p-3 font-mono text-xs leading-relaxed"
+      >
+        {job.logs.map((entry, index) => (
+          <div key={index} className={`whitespace-pre-wrap break-all ${LEVEL_CLASSES[entry.level]}`}>
+            <span className="text-slate-500 mr-2">{entry.timestamp.toLocaleTimeString()}</span>
+            {entry.message}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DeploymentJobLog;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Download, Loader2, Monitor } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useDesktopExports } from '@/hooks/useDesktopExports';
+import { getDefaultDesktopExportBackend, getDesktopExportBackends } from '@/services/desktopExportBackends';
+import { queueDesktopExport } from '@/services/desktopExportService';
+import { PLATFORM_NAMES } from '@/services/desktopExportSources';
+import { DesktopExportBackendId, DesktopExportJob, DesktopExportStatus, DesktopPlatform } from '@/types/export';
+
+interface DesktopExportDialogProps {
+  projectId: string;
+  trigger?: React.ReactNode;
+}
+
+const STATUS_BADGES: Record<DesktopExportStatus, string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const ExportHistoryRow: React.FC<{ job: DesktopExportJob }> = ({ job }) => {
+  const backendName = getDesktopExportBackends().find(backend => backend.id === job.backend)?.name || job.backend;
+
+  return (
+    <div className="p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-medium flex flex-wrap items-center gap-2">
+          {PLATFORM_NAMES[job.platform]}
+          {job.appVersion && <span className="font-normal text-muted-foreground">v{job.appVersion}</span>}
+          <Badge variant="outline" className={`text-xs capitalize ${STATUS_BADGES[job.status]}`}>
+            {job.status === 'running' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            {job.status}
+          </Badge>
+        </div>
+        <span className="text-xs text-muted-foreground flex-shrink-0">{job.createdAt.toLocaleString()}</span>
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">{backendName}</p>
+      {job.message && <p className="text-xs text-muted-foreground mt-1">{job.message}</p>}
+      {job.error && <p className="text-xs text-red-600 mt-1">{job.error}</p>}
+      {job.downloadUrl ? (
+        <a
+          href={job.downloadUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs text-scottie hover:underline flex items-center mt-1"
+        >
+          <Download className="mr-1 h-3 w-3" />
+          {job.fileName || 'Download package'}
+        </a>
+      ) : job.fileName && (
+        <p className="text-xs text-muted-foreground mt-1">Downloaded as {job.fileName}</p>
+      )}
+    </div>
+  );
+};
+
+const DesktopExportDialog: React.FC<DesktopExportDialogProps> = ({ projectId, trigger }) => {
+  const [open, setOpen] = useState(false);
+  const [platform, setPlatform] = useState<DesktopPlatform>('win');
+  const [backendId, setBackendId] = useState<DesktopExportBackendId>(() => getDefaultDesktopExportBackend()?.id || 'local');
+  const [appVersion, setAppVersion] = useState('1.0.0');
+  const { exports, isLoading } = useDesktopExports(projectId, open);
+
+  const backends = getDesktopExportBackends().filter(backend => backend.isAvailable());
+  const selectedBackend = backends.find(backend => backend.id === backendId);
+
+  const handleExport = () => {
+    queueDesktopExport(projectId, platform, { appVersion: appVersion.trim() || undefined }, backendId);
+  };
+
+  return (
+    <>
+      {trigger ? (
+        <div onClick={() => setOpen(true)}>{trigger}</div>
+      ) : (
+        <Button variant="outline" onClick={() => setOpen(true)}>
+          <Monitor className="mr-2 h-4 w-4" />
+          Export Desktop App
+        </Button>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>Export Desktop App</DialogTitle>
+            <DialogDescription>
+              Package the project's build as an Electron app. Exports run one at a time in the background.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="desktop-platform">Platform</Label>
+              <select
+                id="desktop-platform"
+                className="w-full p-2 border rounded mt-1"
+                value={platform}
+                onChange={(e) => setPlatform(e.target.value as DesktopPlatform)}
+              >
+                {(Object.keys(PLATFORM_NAMES) as DesktopPlatform[]).map(id => (
+                  <option key={id} value={id}>{PLATFORM_NAMES[id]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <Label htmlFor="desktop-version">Version</Label>
+              <Input
+                id="desktop-version"
+                value={appVersion}
+                onChange={(e) => setAppVersion(e.target.value)}
+                placeholder="1.0.0"
+                className="mt-1"
+              />
+            </div>
+
+            <div className="col-span-2">
+              <Label htmlFor="desktop-backend">Build with</Label>
+              <select
+                id="desktop-backend"
+                className="w-full p-2 border rounded mt-1"
+                value={backendId}
+                onChange={(e) => setBackendId(e.target.value as DesktopExportBackendId)}
+              >
+                {backends.map(backend => (
+                  <option key={backend.id} value={backend.id}>{backend.name}</option>
+                ))}
+              </select>
+              {selectedBackend && (
+                <p className="text-xs text-muted-foreground mt-1">{selectedBackend.description}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleExport} className="bg-scottie hover:bg-scottie-secondary">
+              Queue Export
+            </Button>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium mb-2">Export history</h3>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading exports...</p>
+            ) : exports.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This project hasn't been exported yet.</p>
+            ) : (
+              <div className="border rounded-md divide-y max-h-64 overflow-y-auto">
+                {exports.map(job => <ExportHistoryRow key={job.id} job={job} />)}
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default DesktopExportDialog;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { FileDiff as FileDiffIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { FileDiff } from '@/utils/diffUtils';
+
+interface DiffViewerProps {
+  diffs: FileDiff[];
+  className?: string;
+}
+
+const LINE_STYLES = {
+  add: 'bg-green-50 text-green-900',
+  remove: 'bg-red-50 text-red-900',
+  context: ''
+};
+
+const LINE_MARKERS = {
+  add: '+',
+  remove: '-',
+  context: ' '
+};
+
+const DiffViewer: React.FC<DiffViewerProps> = ({ diffs, className = "" }) => {
+  if (diffs.length === 0) {
+    return (
+      <div className={`flex flex-col items-center justify-center py-12 text-muted-foreground ${className}`}>
+        <FileDiffIcon className="h-10 w-10 mb-3" />
+        <p className="text-sm">No changes to show.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {diffs.map(diff => (
+        <div key={diff.filePath} className="border rounded-lg overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-2 border-b bg-muted/50">
+            <span className="font-mono text-sm truncate">{diff.filePath}</span>
+            <div className="flex items-center gap-2 flex-shrink-0 ml-4">
+              {diff.status !== 'modified' && <Badge variant="outline">{diff.status}</Badge>}
+              {!diff.isLarge && (
+                <>
+                  <span className="text-xs text-green-600">+{diff.additions}</span>
+                  <span className="text-xs text-red-600">-{diff.deletions}</span>
+                </>
+              )}
+            </div>
+          </div>
+
+          {diff.isBinary ? (
+            <p className="px-4 py-3 text-sm text-muted-foreground">
+              Binary or oversized file {diff.status === 'modified' ? 'changed' : diff.status}.
+            </p>
+          ) : diff.isLarge ? (
+            <p className="px-4 py-3 text-sm text-muted-foreground">
+              Large change: lockfile, generated or large file {diff.status === 'modified' ? 'changed' : diff.status}.
+              It isn't diffed line by line.
+            </p>
+          ) : (
+            <pre className="text-xs overflow-auto">
+              {diff.hunks.map((hunk, hunkIndex) => (
+                <div key={hunkIndex}>
+                  <div className="px-4 py-1 bg-blue-50 text-blue-800">
+                    @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                  </div>
+                  {hunk.lines.map((line, lineIndex) => (
+                    <div key={lineIndex} className={`table-row ${LINE_STYLES[line.type]}`}>
+                      <span className="table-cell select-none text-right pl-4 pr-2 text-muted-foreground w-12">
+                        {line.oldLine ?? ''}
+                      </span>
+                      <span className="table-cell select-none text-right pr-2 text-muted-foreground w-12">
+                        {line.newLine ?? ''}
+                      </span>
+                      <span className="table-cell pr-4 whitespace-pre">
+                        {LINE_MARKERS[line.type]} {line.content}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DiffViewer;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Lock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { EnvironmentChange, EnvironmentDiffEntry, summarizeEnvironmentDiff } from '@/utils/envUtils';
+
+interface EnvironmentDiffProps {
+  entries: EnvironmentDiffEntry[];
+  // False when nothing has been deployed to this environment yet
+  hasPrevious: boolean;
+  className?: string;
+}
+
+const CHANGE_STYLES: Record<EnvironmentChange, { label: string; className: string }> = {
+  unchanged: { label: 'Unchanged', className: '' },
+  added: { label: 'Added', className: 'bg-green-100 text-green-800' },
+  changed: { label: 'Changed', className: 'bg-amber-100 text-amber-800' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800' }
+};
+
+/**
+ * Variables a deploy will add, change or remove. Only keys are shown; the
+ * comparison is made on fingerprints, so values never appear here.
+ */
+const EnvironmentDiff: React.FC<EnvironmentDiffProps> = ({ entries, hasPrevious, className = "" }) => {
+  const changes = entries.filter(entry => entry.change !== 'unchanged');
+  const unchanged = entries.length - changes.length;
+
+  return (
+    <div className={`rounded-md border p-3 text-sm ${className}`}>
+      <div className="font-medium mb-2">
+        {hasPrevious ? `Changes since the last deploy: ${summarizeEnvironmentDiff(entries)}` : 'First deploy to this environment'}
+      </div>
+
+      {changes.length > 0 && (
+        <ul className="space-y-1">
+          {changes.map(entry => (
+            <li key={entry.key} className="flex items-center justify-between">
+              <span className="font-mono flex items-center">
+                {entry.key}
+                {entry.secret && <Lock className="ml-1 h-3 w-3 text-muted-foreground" />}
+              </span>
+              <Badge variant="outline" className={CHANGE_STYLES[entry.change].className}>
+                {CHANGE_STYLES[entry.change].label}
+              </Badge>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unchanged > 0 && (
+        <p className="text-xs text-muted-foreground mt-2">
+          {unchanged} unchanged variable{unchanged === 1 ? '' : 's'}
+        </p>
+      )}
+      {entries.length === 0 && <p className="text-xs text-muted-foreground">No variables will be set.</p>}
+    </div>
+  );
+};
+
+export default EnvironmentDiff;
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+import { unlockEnvironmentSecrets } from '@/services/environmentService';
+
+interface EnvironmentSecretsUnlockProps {
+  onUnlock: () => void;
+  error?: string | null;
+  className?: string;
+}
+
+const EnvironmentSecretsUnlock: React.FC<EnvironmentSecretsUnlockProps> = ({ onUnlock, error, className = "" }) => {
+  const { user } = useAuth();
+  const [passphrase, setPassphrase] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!user || !passphrase) return;
+
+    unlockEnvironmentSecrets(passphrase, user.id);
+    setPassphrase('');
+    onUnlock();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={`rounded-md border p-4 space-y-3 ${className}`}>
+      <div className="flex items-center text-sm font-medium">
+        <Lock className="mr-2 h-4 w-4" />
+        Secrets are locked
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Secret values are encrypted in your browser with a key derived from your passphrase. The passphrase
+        is never stored, so use the same one each time.
+      </p>
+      <div className="flex space-x-2">
+        <Input
+          type="password"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoComplete="off"
+          className="flex-1"
+        />
+        <Button type="submit" variant="outline" disabled={!user || !passphrase}>
+          Unlock
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  );
+};
+
+export default EnvironmentSecretsUnlock;
@@ -0,0 +1,174 @@
+import React, { useRef, useState } from 'react';
+import { Download, Eye, EyeOff, Lock, Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { EnvironmentVariable } from '@/types/deployment';
+import { formatEnvFile, isValidEnvironmentKey, mergeEnvironmentVariables, parseEnvFile } from '@/utils/envUtils';
+
+interface EnvironmentVariablesEditorProps {
+  variables: EnvironmentVariable[];
+  onChange: (variables: EnvironmentVariable[]) => void;
+  // File name used when exporting, without the extension
+  exportName?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const EnvironmentVariablesEditor: React.FC<EnvironmentVariablesEditorProps> = ({
+  variables,
+  onChange,
+  exportName = 'environment',
+  disabled = false,
+  className = ""
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Revealed rows by index; secret values are masked by default
+  const [revealed, setRevealed] = useState<Set<number>>(new Set());
+
+  const updateVariable = (index: number, changes: Partial<EnvironmentVariable>) => {
+    onChange(variables.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)));
+  };
+
+  const removeVariable = (index: number) => {
+    onChange(variables.filter((_, i) => i !== index));
+    setRevealed(new Set());
+  };
+
+  const toggleReveal = (index: number) => {
+    setRevealed(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const imported = parseEnvFile(await file.text());
+    if (imported.length === 0) {
+      toast.error(`No variables found in ${file.name}`);
+      return;
+    }
+
+    onChange(mergeEnvironmentVariables(variables.filter(variable => variable.key), imported));
+    toast.success(`Imported ${imported.length} variable${imported.length === 1 ? '' : 's'} from ${file.name}`);
+  };
+
+  // Secret values stay out of exported files
+  const handleExport = () => {
+    const blob = new Blob([formatEnvFile(variables.filter(variable => variable.key))], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${exportName}.env`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const keyCounts = variables.reduce<Record<string, number>>((counts, variable) => {
+    counts[variable.key] = (counts[variable.key] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {variables.length === 0 && (
+        <p className="text-sm text-muted-foreground">No variables yet. Add one or import a .env file.</p>
+      )}
+
+      {variables.map((variable, index) => {
+        const keyError = variable.key && !isValidEnvironmentKey(variable.key)
+          ? 'Use letters, digits and underscores'
+          : keyCounts[variable.key] > 1 ? 'Duplicate key' : null;
+        const isMasked = variable.secret && !revealed.has(index);
+
+        return (
+          <div key={index}>
+            <div className="flex items-center space-x-2">
+              <Input
+                placeholder="KEY"
+                value={variable.key}
+                onChange={(e) => updateVariable(index, { key: e.target.value.trim() })}
+                disabled={disabled}
+                className={`flex-1 font-mono ${keyError ? 'border-red-500' : ''}`}
+              />
+              <div className="relative flex-1">
+                <Input
+                  placeholder="VALUE"
+                  type={isMasked ? 'password' : 'text'}
+                  value={variable.value}
+                  onChange={(e) => updateVariable(index, { value: e.target.value })}
+                  disabled={disabled}
+                  className="font-mono pr-9"
+                />
+                {variable.secret && (
+                  <button
+                    type="button"
+                    onClick={() => toggleReveal(index)}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                    aria-label={isMasked ? 'Show value' : 'Hide value'}
+                  >
+                    {isMasked ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                  </button>
+                )}
+              </div>
+              <label className="flex items-center space-x-1 text-xs text-muted-foreground" title="Encrypt and mask this value">
+                <Switch
+                  checked={variable.secret}
+                  onCheckedChange={(secret) => updateVariable(index, { secret })}
+                  disabled={disabled}
+                />
+                <Lock className="h-3 w-3" />
+              </label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeVariable(index)}
+                disabled={disabled}
+                aria-label={`Remove ${variable.key || 'variable'}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {keyError && <p className="text-xs text-red-600 mt-1">{keyError}</p>}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...variables, { key: '', value: '', secret: false }])}
+          disabled={disabled}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add Variable
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={disabled}>
+          <Upload className="mr-1 h-4 w-4" />
+          Import .env
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={variables.length === 0}>
+          <Download className="mr-1 h-4 w-4" />
+          Export .env
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".env,text/plain"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default EnvironmentVariablesEditor;
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { toast } from "sonner";
 import { Progress } from '@/components/ui/progress';
 import { validateFile } from '@/services/fileProcessingService';
+import { getArchiveFormat } from '@/utils/archiveUtils';
 
 interface FileUploaderProps {
   onFileUpload: (file: File) => void;
@@ -14,7 +15,7 @@ interface FileUploaderProps {
 
 const FileUploader: React.FC<FileUploaderProps> = ({
   onFileUpload,
-  accept = ".zip,.rar,.7z",
+  accept = ".zip,.tar.gz,.tgz,.tar,.rar,.7z",
   maxSize = 100,
   className = "",
 }) => {
@@ -100,10 +101,12 @@ const FileUploader: React.FC<FileUploaderProps> = ({
   const getFileIcon = () => {
     if (!file) return <FileCode className="h-6 w-6 text-scottie" />;
     
-    const fileType = file.name.split('.').pop()?.toLowerCase();
+    const fileType = getArchiveFormat(file.name);
     
     switch (fileType) {
       case 'zip':
+      case 'tar':
+      case 'tar.gz':
       case 'rar':
       case '7z':
         return <FileArchive className="h-6 w-6 text-scottie" />;
@@ -115,11 +118,15 @@ const FileUploader: React.FC<FileUploaderProps> = ({
   const getFileTypeLabel = () => {
     if (!file) return '';
     
-    const fileType = file.name.split('.').pop()?.toLowerCase();
+    const fileType = getArchiveFormat(file.name);
     
     switch (fileType) {
       case 'zip':
         return 'ZIP Archive';
+      case 'tar':
+        return 'Tar Archive';
+      case 'tar.gz':
+        return 'Gzipped Tar Archive';
       case 'rar':
         return 'RAR Archive';
       case '7z':
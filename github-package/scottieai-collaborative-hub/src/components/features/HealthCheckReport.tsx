@@ -0,0 +1,72 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle, HelpCircle, ShieldCheck, Undo2, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { HealthCheckOutcome, HealthCheckReport as HealthCheckReportData } from '@/types/deployment';
+
+interface HealthCheckReportProps {
+  report: HealthCheckReportData;
+  className?: string;
+}
+
+const OUTCOME_BADGES: Record<HealthCheckOutcome, string> = {
+  passed: 'bg-green-100 text-green-800',
+  unchecked: 'bg-gray-100 text-gray-800',
+  warning: 'bg-amber-100 text-amber-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const getOutcomeIcon = (outcome: HealthCheckOutcome) => {
+  switch (outcome) {
+    case 'passed': return <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />;
+    case 'unchecked': return <HelpCircle className="h-4 w-4 text-muted-foreground flex-shrink-0" />;
+    case 'warning': return <AlertTriangle className="h-4 w-4 text-amber-500 flex-shrink-0" />;
+    case 'failed': return <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />;
+  }
+};
+
+const HealthCheckReport: React.FC<HealthCheckReportProps> = ({ report, className = "" }) => {
+  return (
+    <div className={`border rounded-md p-3 space-y-2 text-sm ${className}`}>
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Deployment checks</span>
+        <Badge variant="outline" className={`text-xs capitalize ${OUTCOME_BADGES[report.outcome]}`}>
+          {report.outcome}
+        </Badge>
+      </div>
+
+      {report.results.map(result => (
+        <div key={result.path} className="flex items-start gap-2">
+          {getOutcomeIcon(result.outcome)}
+          <div className="min-w-0 flex-1">
+            <div className="flex flex-wrap items-center gap-x-2">
+              <span className="font-mono text-xs truncate">{result.path}</span>
+              {result.status !== undefined && <span className="text-xs text-muted-foreground">{result.status}</span>}
+              {result.latencyMs !== undefined && <span className="text-xs text-muted-foreground">{result.latencyMs}ms</span>}
+            </div>
+            {result.messages.map((message, index) => (
+              <p key={index} className="text-xs text-muted-foreground">{message}</p>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {report.tls && (
+        <div className="flex items-start gap-2">
+          {report.tls.outcome === 'passed' ? <ShieldCheck className="h-4 w-4 text-green-600 flex-shrink-0" /> : getOutcomeIcon(report.tls.outcome)}
+          <span className="text-xs">{report.tls.message}</span>
+        </div>
+      )}
+
+      {report.rolledBackTo && (
+        <div className="flex items-center gap-2 text-xs text-red-600">
+          <Undo2 className="h-4 w-4 flex-shrink-0" />
+          Production was rolled back to the previous deployment
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">Checked {report.checkedAt.toLocaleString()}</p>
+    </div>
+  );
+};
+
+export default HealthCheckReport;
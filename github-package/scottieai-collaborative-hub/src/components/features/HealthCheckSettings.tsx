@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { getHealthCheckConfig, saveHealthCheckConfig } from '@/services/healthCheckService';
+import { HealthCheckAssertion, HealthCheckConfig, HealthCheckPath } from '@/types/deployment';
+
+interface HealthCheckSettingsProps {
+  projectId: string;
+  // Loads the saved checks while true
+  enabled?: boolean;
+  className?: string;
+}
+
+// Number inputs are left empty rather than showing 0 for unset values
+const parseOptionalNumber = (value: string): number | undefined => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// JSON path assertions compare against JSON, so "true" and "42" match booleans and numbers
+const parseExpectedValue = (value: string): string | number | boolean | null | undefined => {
+  if (value === '') return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === 'object' && parsed !== null ? value : parsed;
+  } catch {
+    return value;
+  }
+};
+
+const formatExpectedValue = (value: string | number | boolean | null | undefined): string => {
+  if (value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const HealthCheckSettings: React.FC<HealthCheckSettingsProps> = ({ projectId, enabled = true, className = "" }) => {
+  const [config, setConfig] = useState<HealthCheckConfig | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    getHealthCheckConfig(projectId).then(saved => {
+      if (!cancelled) setConfig(saved);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, enabled]);
+
+  if (!config) {
+    return <p className={`text-sm text-muted-foreground ${className}`}>Loading checks...</p>;
+  }
+
+  const updatePath = (index: number, changes: Partial<HealthCheckPath>) => {
+    setConfig({ ...config, paths: config.paths.map((path, i) => (i === index ? { ...path, ...changes } : path)) });
+  };
+
+  const updateAssertion = (pathIndex: number, assertionIndex: number, assertion: HealthCheckAssertion | null) => {
+    const assertions = config.paths[pathIndex].assertions || [];
+    updatePath(pathIndex, {
+      assertions: assertion
+        ? assertions.map((existing, i) => (i === assertionIndex ? assertion : existing))
+        : assertions.filter((_, i) => i !== assertionIndex)
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    await saveHealthCheckConfig(projectId, { ...config, paths: config.paths.filter(path => path.path.trim()) });
+    setIsSaving(false);
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <p className="text-sm text-muted-foreground">
+        These paths are requested once a deployment is live. Leave the list empty to skip checks.
+      </p>
+
+      {config.paths.map((check, index) => (
+        <div key={index} className="border rounded-md p-3 space-y-2">
+          <div className="flex gap-2">
+            <Input
+              placeholder="/api/health"
+              value={check.path}
+              onChange={(e) => updatePath(index, { path: e.target.value })}
+              className="font-mono text-xs"
+            />
+            <Input
+              type="number"
+              placeholder="200"
+              title="Expected status"
+              value={check.expectedStatus ?? ''}
+              onChange={(e) => updatePath(index, { expectedStatus: parseOptionalNumber(e.target.value) })}
+              className="w-24 text-xs"
+            />
+            <Input
+              type="number"
+              placeholder="Max ms"
+              title="Warn when slower than this"
+              value={check.maxLatencyMs ?? ''}
+              onChange={(e) => updatePath(index, { maxLatencyMs: parseOptionalNumber(e.target.value) })}
+              className="w-24 text-xs"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setConfig({ ...config, paths: config.paths.filter((_, i) => i !== index) })}
+              title="Remove path"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {(check.assertions || []).map((assertion, assertionIndex) => (
+            <div key={assertionIndex} className="flex gap-2 pl-4">
+              <select
+                className="p-2 border rounded text-xs"
+                value={assertion.type}
+                onChange={(e) => updateAssertion(index, assertionIndex, e.target.value === 'text'
+                  ? { type: 'text', contains: '' }
+                  : { type: 'json', path: '$.' })}
+              >
+                <option value="text">Contains text</option>
+                <option value="json">JSON path</option>
+              </select>
+              {assertion.type === 'text' ? (
+                <Input
+                  placeholder="Welcome"
+                  value={assertion.contains}
+                  onChange={(e) => updateAssertion(index, assertionIndex, { type: 'text', contains: e.target.value })}
+                  className="text-xs"
+                />
+              ) : (
+                <>
+                  <Input
+                    placeholder="$.status"
+                    value={assertion.path}
+                    onChange={(e) => updateAssertion(index, assertionIndex, { ...assertion, path: e.target.value })}
+                    className="font-mono text-xs"
+                  />
+                  <Input
+                    placeholder="equals (optional)"
+                    value={formatExpectedValue(assertion.equals)}
+                    onChange={(e) => updateAssertion(index, assertionIndex, { ...assertion, equals: parseExpectedValue(e.target.value) })}
+                    className="text-xs"
+                  />
+                </>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => updateAssertion(index, assertionIndex, null)}
+                title="Remove assertion"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-xs"
+            onClick={() => updatePath(index, { assertions: [...(check.assertions || []), { type: 'text', contains: '' }] })}
+          >
+            <Plus className="mr-1 h-3 w-3" />
+            Add assertion
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setConfig({ ...config, paths: [...config.paths, { path: '', expectedStatus: 200 }] })}
+      >
+        <Plus className="mr-1 h-4 w-4" />
+        Add path
+      </Button>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="tls-warning-days">Warn when the TLS certificate expires within (days)</Label>
+          <p className="text-xs text-muted-foreground">
+            Browsers don't expose certificates, so deploys started here report the expiry as not checked.
+          </p>
+        </div>
+        <Input
+          id="tls-warning-days"
+          type="number"
+          value={config.tlsExpiryWarningDays}
+          onChange={(e) => setConfig({ ...config, tlsExpiryWarningDays: parseOptionalNumber(e.target.value) ?? 0 })}
+          className="w-24"
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="rollback-on-failure">Roll back when a check fails</Label>
+          <p className="text-xs text-muted-foreground">
+            Production goes back to the deployment it served before. Sites that don't allow cross-origin reads
+            can only be checked for reachability, so their status and assertions can't trigger a rollback.
+          </p>
+        </div>
+        <Switch
+          id="rollback-on-failure"
+          checked={config.rollbackOnFailure}
+          onCheckedChange={(checked) => setConfig({ ...config, rollbackOnFailure: checked })}
+        />
+      </div>
+
+      <Button onClick={handleSave} disabled={isSaving} variant="outline" className="w-full">
+        {isSaving ? 'Saving...' : 'Save Checks'}
+      </Button>
+    </div>
+  );
+};
+
+export default HealthCheckSettings;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { AlertTriangle, Check, Cpu, TrendingDown } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { BenchmarkMetric, BenchmarkReport } from '@/types/modelTesting';
+
+interface ModelBenchmarkResultsProps {
+  report: BenchmarkReport;
+}
+
+const METRIC_NAMES: Record<BenchmarkMetric, string> = {
+  p50: 'p50 latency',
+  p99: 'p99 latency',
+  throughput: 'Throughput'
+};
+
+const formatTime = (ms: number): string => {
+  if (ms < 1) return `${(ms * 1000).toFixed(0)} µs`;
+  if (ms < 1000) return `${ms.toFixed(2)} ms`;
+  return `${(ms / 1000).toFixed(2)} s`;
+};
+
+const formatMemory = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+const formatThroughput = (samplesPerSecond: number): string => `${samplesPerSecond.toFixed(1)}/s`;
+
+const formatMetric = (metric: BenchmarkMetric, value: number): string => {
+  return metric === 'throughput' ? formatThroughput(value) : formatTime(value);
+};
+
+const ModelBenchmarkResults: React.FC<ModelBenchmarkResultsProps> = ({ report }) => {
+  const { benchmark, comparison } = report;
+  const { options } = benchmark;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        Model version {benchmark.modelVersion}: {options.iterations} timed predictions after {options.warmupIterations} warmup
+        predictions, for each batch size and backend.
+      </p>
+
+      {comparison && (comparison.regressions.length > 0 ? (
+        <Alert variant="destructive">
+          <TrendingDown className="h-4 w-4" />
+          <AlertTitle>Performance regressed since v{comparison.baseline.modelVersion}</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-1 space-y-1 text-xs">
+              {comparison.regressions.map(regression => (
+                <li key={`${regression.backend}-${regression.batchSize}-${regression.metric}`}>
+                  {regression.backend}, batch {regression.batchSize}: {METRIC_NAMES[regression.metric]}{' '}
+                  {formatMetric(regression.metric, regression.baseline)} → {formatMetric(regression.metric, regression.current)}{' '}
+                  ({(regression.change * 100).toFixed(0)}% worse)
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <div className="flex items-center text-xs text-green-600">
+          <Check className="h-3 w-3 mr-1" />
+          No regressions against the benchmark from {comparison.baseline.created.toLocaleString()} (v{comparison.baseline.modelVersion})
+        </div>
+      ))}
+
+      {benchmark.backends.map(backend => (
+        <div key={backend.backend} className="border rounded-md overflow-hidden">
+          <div className="bg-muted/50 px-4 py-2 font-medium flex items-center justify-between">
+            <span className="flex items-center">
+              <Cpu className="h-4 w-4 mr-2 text-scottie" />
+              {backend.backend}
+            </span>
+            {!backend.available && <Badge variant="outline" className="text-xs">Unavailable</Badge>}
+          </div>
+
+          {backend.available ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-normal">Batch</th>
+                    <th className="px-2 py-2 text-right font-normal">p50</th>
+                    <th className="px-2 py-2 text-right font-normal">p90</th>
+                    <th className="px-2 py-2 text-right font-normal">p99</th>
+                    <th className="px-2 py-2 text-right font-normal">Std. dev.</th>
+                    <th className="px-2 py-2 text-right font-normal">Throughput</th>
+                    <th className="px-2 py-2 text-right font-normal">Memory</th>
+                    <th className="px-4 py-2 text-right font-normal">Tensors</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {backend.batches.map(batch => (
+                    <tr key={batch.batchSize}>
+                      <td className="px-4 py-2">{batch.batchSize}</td>
+                      <td className="px-2 py-2 text-right">{formatTime(batch.latency.p50)}</td>
+                      <td className="px-2 py-2 text-right">{formatTime(batch.latency.p90)}</td>
+                      <td className="px-2 py-2 text-right">{formatTime(batch.latency.p99)}</td>
+                      <td className="px-2 py-2 text-right">{formatTime(batch.latency.standardDeviation)}</td>
+                      <td className="px-2 py-2 text-right">{formatThroughput(batch.throughput)}</td>
+                      <td className="px-2 py-2 text-right">{formatMemory(batch.memoryBytes)}</td>
+                      <td className="px-4 py-2 text-right">
+                        {batch.leakedTensors > 0 ? (
+                          <span className="inline-flex items-center text-red-500">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            {batch.leakedTensors} leaked
+                          </span>
+                        ) : (
+                          <span className="text-green-600">No leaks</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="px-4 py-3 text-xs text-muted-foreground">{backend.error}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ModelBenchmarkResults;
@@ -0,0 +1,212 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { ClassCurves, ClassificationMetrics, RegressionMetrics, SuiteMetrics } from '@/types/modelTesting';
+
+interface ModelMetricsPanelProps {
+  metrics: SuiteMetrics;
+}
+
+const CURVE_COLORS = ['#6366f1', '#f97316', '#10b981', '#ef4444', '#0ea5e9', '#a855f7', '#eab308', '#14b8a6'];
+
+// Curves beyond this many classes make the charts unreadable
+const MAX_CHARTED_CLASSES = CURVE_COLORS.length;
+
+const formatPercent = (value: number | null): string => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+
+const formatNumber = (value: number | null): string => (value === null ? 'n/a' : value.toFixed(4));
+
+const MetricTile: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-muted/50 p-3 rounded-md">
+    <div className="text-xs text-muted-foreground mb-1">{label}</div>
+    <div className="text-lg font-semibold">{value}</div>
+  </div>
+);
+
+const CurveChart: React.FC<{
+  title: string;
+  curves: ClassCurves[];
+  kind: 'roc' | 'pr';
+  xLabel: string;
+  yLabel: string;
+  binary: boolean;
+}> = ({ title, curves, kind, xLabel, yLabel, binary }) => {
+  const charted = curves.filter(curve => curve[kind].length > 0).slice(0, MAX_CHARTED_CLASSES);
+  if (charted.length === 0) return null;
+
+  const config: ChartConfig = Object.fromEntries(charted.map((curve, index) => [
+    `class${curve.classIndex}`,
+    {
+      label: binary ? 'Positive class' : `Class ${curve.classIndex}`,
+      color: CURVE_COLORS[index % CURVE_COLORS.length]
+    }
+  ]));
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium mb-2">{title}</h4>
+      <ChartContainer config={config} className="h-56 w-full aspect-auto">
+        <LineChart margin={{ top: 8, right: 12, bottom: 16, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            type="number"
+            dataKey="x"
+            domain={[0, 1]}
+            tickCount={6}
+            label={{ value: xLabel, position: 'insideBottom', offset: -8 }}
+          />
+          <YAxis type="number" dataKey="y" domain={[0, 1]} tickCount={6} width={36} label={{ value: yLabel, angle: -90, position: 'insideLeft' }} />
+          <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+          {charted.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+          {charted.map(curve => (
+            <Line
+              key={curve.classIndex}
+              data={curve[kind]}
+              dataKey="y"
+              name={`class${curve.classIndex}`}
+              type="linear"
+              stroke={`var(--color-class${curve.classIndex})`}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+};
+
+const ClassificationDetails: React.FC<{ metrics: ClassificationMetrics }> = ({ metrics }) => {
+  const binary = metrics.curves.length === 1 && metrics.classCount === 2;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <MetricTile label="Accuracy" value={formatPercent(metrics.accuracy)} />
+        <MetricTile label="Macro F1" value={formatPercent(metrics.macro.f1Score)} />
+        <MetricTile label="Micro F1" value={formatPercent(metrics.micro.f1Score)} />
+        <MetricTile label="ROC-AUC" value={formatNumber(metrics.rocAuc)} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <h4 className="text-sm font-medium mb-2">Confusion Matrix</h4>
+          <div className="overflow-x-auto">
+            <table className="text-xs font-mono">
+              <thead>
+                <tr>
+                  <th className="p-1 text-left font-normal text-muted-foreground">Expected \ Predicted</th>
+                  {metrics.confusionMatrix.map((_, index) => (
+                    <th key={index} className="p-1 text-right font-normal text-muted-foreground">{index}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {metrics.confusionMatrix.map((row, expected) => (
+                  <tr key={expected}>
+                    <td className="p-1 text-muted-foreground">{expected}</td>
+                    {row.map((count, predicted) => (
+                      <td
+                        key={predicted}
+                        className={`p-1 text-right ${predicted === expected ? 'text-green-600 font-semibold' : count > 0 ? 'text-red-500' : ''}`}
+                      >
+                        {count}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium mb-2">Per Class</h4>
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left font-normal">Class</th>
+                <th className="text-right font-normal">Precision</th>
+                <th className="text-right font-normal">Recall</th>
+                <th className="text-right font-normal">F1</th>
+                <th className="text-right font-normal">Support</th>
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.perClass.map((classMetrics, index) => (
+                <tr key={index}>
+                  <td>{index}</td>
+                  <td className="text-right">{formatPercent(classMetrics.precision)}</td>
+                  <td className="text-right">{formatPercent(classMetrics.recall)}</td>
+                  <td className="text-right">{formatPercent(classMetrics.f1Score)}</td>
+                  <td className="text-right">{classMetrics.support}</td>
+                </tr>
+              ))}
+              <tr className="border-t text-muted-foreground">
+                <td>Macro</td>
+                <td className="text-right">{formatPercent(metrics.macro.precision)}</td>
+                <td className="text-right">{formatPercent(metrics.macro.recall)}</td>
+                <td className="text-right">{formatPercent(metrics.macro.f1Score)}</td>
+                <td />
+              </tr>
+              <tr className="text-muted-foreground">
+                <td>Micro</td>
+                <td className="text-right">{formatPercent(metrics.micro.precision)}</td>
+                <td className="text-right">{formatPercent(metrics.micro.recall)}</td>
+                <td className="text-right">{formatPercent(metrics.micro.f1Score)}</td>
+                <td />
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <CurveChart
+          title="ROC Curve"
+          curves={metrics.curves}
+          kind="roc"
+          xLabel="False positive rate"
+          yLabel="True positive rate"
+          binary={binary}
+        />
+        <CurveChart
+          title="Precision-Recall Curve"
+          curves={metrics.curves}
+          kind="pr"
+          xLabel="Recall"
+          yLabel="Precision"
+          binary={binary}
+        />
+      </div>
+    </div>
+  );
+};
+
+const RegressionDetails: React.FC<{ metrics: RegressionMetrics }> = ({ metrics }) => (
+  <div className="grid grid-cols-3 gap-3">
+    <MetricTile label="MAE" value={formatNumber(metrics.meanAbsoluteError)} />
+    <MetricTile label="RMSE" value={formatNumber(metrics.rootMeanSquaredError)} />
+    <MetricTile label="R²" value={formatNumber(metrics.rSquared)} />
+  </div>
+);
+
+const ModelMetricsPanel: React.FC<ModelMetricsPanelProps> = ({ metrics }) => {
+  return (
+    <div className="border rounded-md overflow-hidden">
+      <div className="bg-muted/50 px-4 py-2 font-medium flex items-center justify-between">
+        <span className="capitalize">{metrics.task} Metrics</span>
+        <span className="text-xs font-normal text-muted-foreground">
+          {metrics.sampleCount} {metrics.task === 'classification' ? 'samples' : 'values'}
+        </span>
+      </div>
+      <div className="p-4">
+        {metrics.classification && <ClassificationDetails metrics={metrics.classification} />}
+        {metrics.regression && <RegressionDetails metrics={metrics.regression} />}
+      </div>
+    </div>
+  );
+};
+
+export default ModelMetricsPanel;
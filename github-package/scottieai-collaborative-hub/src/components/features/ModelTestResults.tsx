@@ -5,6 +5,8 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { ModelTestResult, BenchmarkResult } from '@/services/modelTestingService';
+import { OutputDiff } from '@/types/modelTesting';
+import ModelMetricsPanel from './ModelMetricsPanel';
 
 interface ModelTestResultsProps {
   benchmarkResult?: BenchmarkResult;
@@ -25,6 +27,62 @@ const formatMemory = (bytes: number): string => {
   return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
 };
 
+const formatValue = (value: number): string => {
+  if (!Number.isFinite(value)) return String(value);
+  return Math.abs(value) >= 1e4 || (value !== 0 && Math.abs(value) < 1e-3) ? value.toExponential(3) : value.toFixed(4);
+};
+
+const formatShape = (shape: number[]): string => `[${shape.join(', ')}]`;
+
+// Where a case's output differed from what was expected
+const OutputDiffDetails: React.FC<{ diff: OutputDiff }> = ({ diff }) => {
+  if (!diff.shapeMatches) {
+    return (
+      <div className="mt-2 text-xs text-red-500">
+        Output shape {formatShape(diff.actualShape)} doesn't match the expected {formatShape(diff.expectedShape)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-2 text-xs">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+        <span>Max error: {formatValue(diff.maxAbsoluteError)}</span>
+        <span>Mean error: {formatValue(diff.meanAbsoluteError)}</span>
+        <span>Tolerance: ±({diff.tolerance.absolute} + {diff.tolerance.relative} × |expected|)</span>
+        {diff.mismatchCount > 0 && <span className="text-red-500">{diff.mismatchCount} values out of tolerance</span>}
+      </div>
+      {diff.mismatches.length > 0 && (
+        <table className="mt-2 w-full font-mono">
+          <thead className="text-muted-foreground">
+            <tr>
+              <th className="text-left font-normal">Index</th>
+              <th className="text-right font-normal">Expected</th>
+              <th className="text-right font-normal">Actual</th>
+              <th className="text-right font-normal">Difference</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.mismatches.map(mismatch => (
+              <tr key={mismatch.index.join(',')}>
+                <td>{formatShape(mismatch.index)}</td>
+                <td className="text-right">{formatValue(mismatch.expected)}</td>
+                <td className="text-right">{formatValue(mismatch.actual)}</td>
+                <td className="text-right text-red-500">{formatValue(mismatch.difference)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {diff.mismatchCount > diff.mismatches.length && (
+        <div className="mt-1 text-muted-foreground">
+          and {diff.mismatchCount - diff.mismatches.length} more
+        </div>
+      )}
+    </div>
+  );
+};
+
 const ModelTestResults: React.FC<ModelTestResultsProps> = ({
   benchmarkResult,
   isLoading = false,
@@ -35,11 +93,12 @@ const ModelTestResults: React.FC<ModelTestResultsProps> = ({
     if (!benchmarkResult?.results?.length) return {};
     
     return benchmarkResult.results.reduce((acc, result) => {
-      // Find the test case ID to determine category
+      // Fall back to the test case ID to determine category
       const testCaseId = result.testCaseId;
       let category = 'unknown';
       
-      if (testCaseId.includes('performance')) category = 'performance';
+      if (result.category) category = result.category;
+      else if (testCaseId.includes('performance')) category = 'performance';
       else if (testCaseId.includes('edge-case')) category = 'edge-case';
       else category = 'accuracy';
       
@@ -71,6 +130,7 @@ const ModelTestResults: React.FC<ModelTestResultsProps> = ({
         </CardTitle>
         <CardDescription>
           Performance and accuracy metrics for the AI model
+          {benchmarkResult?.suiteVersion && ` (suite v${benchmarkResult.suiteVersion})`}
         </CardDescription>
       </CardHeader>
       
@@ -127,6 +187,8 @@ const ModelTestResults: React.FC<ModelTestResultsProps> = ({
               </div>
             </div>
             
+            {benchmarkResult.metrics && <ModelMetricsPanel metrics={benchmarkResult.metrics} />}
+            
             {/* Test Results by Category */}
             <div className="space-y-4">
               {Object.entries(groupedResults).map(([category, results]) => (
@@ -147,7 +209,7 @@ const ModelTestResults: React.FC<ModelTestResultsProps> = ({
                             ) : (
                               <X className="h-4 w-4 text-red-500 mr-2" />
                             )}
-                            <span>{result.testCaseId.replace(/-/g, ' ')}</span>
+                            <span>{result.testCaseName || result.testCaseId.replace(/-/g, ' ')}</span>
                           </div>
                           <Badge variant={result.passed ? "outline" : "destructive"} className="text-xs">
                             {result.passed ? `${formatTime(result.timeTaken)}` : 'Failed'}
@@ -160,26 +222,7 @@ const ModelTestResults: React.FC<ModelTestResultsProps> = ({
                           </div>
                         )}
                         
-                        {result.metrics && (
-                          <div className="mt-2 grid grid-cols-4 gap-2 text-xs">
-                            <div>
-                              <span className="text-muted-foreground">Accuracy:</span>{' '}
-                              {(result.metrics.accuracy * 100).toFixed(1)}%
-                            </div>
-                            <div>
-                              <span className="text-muted-foreground">Precision:</span>{' '}
-                              {(result.metrics.precision * 100).toFixed(1)}%
-                            </div>
-                            <div>
-                              <span className="text-muted-foreground">Recall:</span>{' '}
-                              {(result.metrics.recall * 100).toFixed(1)}%
-                            </div>
-                            <div>
-                              <span className="text-muted-foreground">F1:</span>{' '}
-                              {(result.metrics.f1Score * 100).toFixed(1)}%
-                            </div>
-                          </div>
-                        )}
+                        {result.diff && <OutputDiffDetails diff={result.diff} />}
                       </div>
                     ))}
                   </div>
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { FileUp, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DEFAULT_TOLERANCE } from '@/services/modelTestingService';
+import { getModelVersion, saveModelTestSuite } from '@/services/modelTestSuiteService';
+import { getTensorShape, getTestDatasetFormat, importTestCases } from '@/utils/testDatasetUtils';
+import { ModelTask, ModelTestCase, ModelTestSuite, TestTolerance } from '@/types/modelTesting';
+
+interface ModelTestSuiteEditorProps {
+  modelId: string;
+  // Saving creates this suite's next version; a new suite when unset
+  suite?: ModelTestSuite;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (suite: ModelTestSuite) => void;
+}
+
+const formatShape = (shape: number[]): string => `[${shape.join(', ')}]`;
+
+const ModelTestSuiteEditor: React.FC<ModelTestSuiteEditorProps> = ({ modelId, suite, open, onOpenChange, onSaved }) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [tolerance, setTolerance] = useState<TestTolerance>(DEFAULT_TOLERANCE);
+  const [task, setTask] = useState<ModelTask | ''>('');
+  const [cases, setCases] = useState<ModelTestCase[]>([]);
+  const [inputFile, setInputFile] = useState<File | null>(null);
+  const [expectedFile, setExpectedFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(suite?.name || '');
+    setDescription(suite?.description || '');
+    setTolerance(suite?.tolerance || DEFAULT_TOLERANCE);
+    setTask(suite?.task || '');
+    setCases(suite?.cases || []);
+    setInputFile(null);
+    setExpectedFile(null);
+  }, [open, suite]);
+
+  const handleImport = async () => {
+    if (!inputFile) return;
+
+    setIsImporting(true);
+    try {
+      const imported = await importTestCases(inputFile, expectedFile || undefined);
+      setCases(current => [...current, ...imported]);
+      setInputFile(null);
+      setExpectedFile(null);
+      toast.success(`Imported ${imported.length} test case${imported.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      toast.error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await saveModelTestSuite({
+      id: suite?.id,
+      modelId,
+      name,
+      description,
+      tolerance,
+      task: task || undefined,
+      cases
+    });
+    setIsSaving(false);
+
+    if (saved) {
+      onSaved(saved);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>{suite ? `Edit ${suite.name}` : 'New Test Suite'}</DialogTitle>
+          <DialogDescription>
+            {suite
+              ? `Saving creates v${suite.version + 1} against model version ${getModelVersion(modelId)}. v${suite.version} was written for model version ${suite.modelVersion}.`
+              : `Cases run against model version ${getModelVersion(modelId)}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="suite-name">Name</Label>
+              <Input id="suite-name" value={name} onChange={(e) => setName(e.target.value)} className="mt-1" />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="suite-description">Description</Label>
+              <Textarea
+                id="suite-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="mt-1"
+                rows={2}
+              />
+            </div>
+            <div>
+              <Label htmlFor="suite-absolute">Absolute tolerance</Label>
+              <Input
+                id="suite-absolute"
+                type="number"
+                min={0}
+                step="any"
+                value={tolerance.absolute}
+                onChange={(e) => setTolerance({ ...tolerance, absolute: Number(e.target.value) || 0 })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="suite-relative">Relative tolerance</Label>
+              <Input
+                id="suite-relative"
+                type="number"
+                min={0}
+                step="any"
+                value={tolerance.relative}
+                onChange={(e) => setTolerance({ ...tolerance, relative: Number(e.target.value) || 0 })}
+                className="mt-1"
+              />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="suite-task">Metrics</Label>
+              <select
+                id="suite-task"
+                className="w-full p-2 border rounded mt-1"
+                value={task}
+                onChange={(e) => setTask(e.target.value as ModelTask | '')}
+              >
+                <option value="">Detect from expected outputs</option>
+                <option value="classification">Classification</option>
+                <option value="regression">Regression</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="border rounded-md p-3 space-y-2">
+            <h3 className="text-sm font-medium">Import cases</h3>
+            <p className="text-xs text-muted-foreground">
+              CSV rows, JSON cases or .npy arrays. CSV columns named like "expected" or "y" hold expected outputs;
+              expected outputs for .npy inputs come from a second .npy file.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="file"
+                accept=".csv,.json,.npy"
+                onChange={(e) => setInputFile(e.target.files?.[0] || null)}
+              />
+              {inputFile && getTestDatasetFormat(inputFile.name) === 'npy' && (
+                <Input
+                  type="file"
+                  accept=".npy"
+                  aria-label="Expected outputs"
+                  onChange={(e) => setExpectedFile(e.target.files?.[0] || null)}
+                />
+              )}
+            </div>
+            <Button variant="outline" size="sm" onClick={handleImport} disabled={!inputFile || isImporting}>
+              {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+              Import
+            </Button>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium mb-2">Cases ({cases.length})</h3>
+            {cases.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Import a dataset to add cases.</p>
+            ) : (
+              <div className="border rounded-md divide-y max-h-56 overflow-y-auto">
+                {cases.map(testCase => (
+                  <div key={testCase.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <div>
+                      <div>{testCase.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Input {formatShape(getTensorShape(testCase.input))}
+                        {testCase.expectedOutput !== undefined
+                          ? `, expects ${formatShape(getTensorShape(testCase.expectedOutput))}`
+                          : ', no expected output'}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCases(current => current.filter(entry => entry.id !== testCase.id))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving} className="bg-scottie hover:bg-scottie-secondary">
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Suite
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModelTestSuiteEditor;
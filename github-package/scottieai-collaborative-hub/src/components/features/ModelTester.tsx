@@ -1,40 +1,58 @@
 import React, { useState } from 'react';
-import { Zap, BarChart, Play, Clock, Laptop, AlertCircle } from 'lucide-react';
+import * as tf from '@tensorflow/tfjs';
+import { Zap, BarChart, Play, Clock, Laptop, AlertCircle, Pencil, Plus } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
-import { testModel, benchmarkModel, BenchmarkResult } from '@/services/modelTestingService';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { testModel, BenchmarkResult } from '@/services/modelTestingService';
+import { BENCHMARK_BACKENDS, benchmarkModel, DEFAULT_BENCHMARK_OPTIONS, isBackendRegistered } from '@/services/modelBenchmarkService';
+import { BenchmarkReport } from '@/types/modelTesting';
 import { useAIModel } from '@/hooks/useAIModel';
+import { useModelTestSuites } from '@/hooks/useModelTestSuites';
+import { useModelRegistry } from '@/hooks/useModelRegistry';
+import { pickDefaultVersion } from '@/utils/modelVersionUtils';
 import ModelTestResults from './ModelTestResults';
+import ModelTestSuiteEditor from './ModelTestSuiteEditor';
+import ModelBenchmarkResults from './ModelBenchmarkResults';
+
+// Select value for the cases built into the app
+const BUILT_IN_CASES = 'built-in';
 
 interface ModelTesterProps {
   className?: string;
 }
 
 const ModelTester: React.FC<ModelTesterProps> = ({ className = '' }) => {
-  const { availableModels, model, loadModel } = useAIModel();
+  const { model, loadModel } = useAIModel();
+  const { models: registeredModels } = useModelRegistry();
   
   const [selectedModelId, setSelectedModelId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [benchmarkLoading, setBenchmarkLoading] = useState(false);
   const [benchmarkResults, setBenchmarkResults] = useState<BenchmarkResult | undefined>(undefined);
   const [benchmarkProgress, setBenchmarkProgress] = useState(0);
-  const [performanceBenchmark, setPerformanceBenchmark] = useState<{
-    averageTime: number;
-    minTime: number;
-    maxTime: number;
-    memoryUsage: number;
-  } | undefined>(undefined);
-  const [iterations, setIterations] = useState(10);
+  const [benchmarkReport, setBenchmarkReport] = useState<BenchmarkReport | undefined>(undefined);
+  const [iterations, setIterations] = useState(DEFAULT_BENCHMARK_OPTIONS.iterations);
+  const [warmupIterations, setWarmupIterations] = useState(DEFAULT_BENCHMARK_OPTIONS.warmupIterations);
+  const [batchSizesText, setBatchSizesText] = useState('1, 8, 32');
+  const [backends, setBackends] = useState<string[]>(() => BENCHMARK_BACKENDS.filter(isBackendRegistered));
+  const [selectedSuiteId, setSelectedSuiteId] = useState(BUILT_IN_CASES);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingSuite, setEditingSuite] = useState(false);
+  const { suites, reload: reloadSuites } = useModelTestSuites(selectedModelId);
+  
+  const selectedSuite = suites.find(suite => suite.id === selectedSuiteId);
   
   const handleSelectModel = async (modelId: string) => {
     setSelectedModelId(modelId);
+    setSelectedSuiteId(BUILT_IN_CASES);
     setBenchmarkResults(undefined);
-    setPerformanceBenchmark(undefined);
+    setBenchmarkReport(undefined);
   };
   
   const handleRunTests = async () => {
@@ -48,7 +66,7 @@ const ModelTester: React.FC<ModelTesterProps> = ({ className = '' }) => {
         await loadModel(selectedModelId);
       }
       
-      const results = await testModel(selectedModelId);
+      const results = await testModel(selectedModelId, selectedSuite);
       setBenchmarkResults(results);
     } catch (error) {
       console.error('Error running tests:', error);
@@ -57,45 +75,37 @@ const ModelTester: React.FC<ModelTesterProps> = ({ className = '' }) => {
     }
   };
   
+  const batchSizes = [...new Set(batchSizesText.split(',').map(size => parseInt(size.trim(), 10)).filter(size => size > 0))];
+  
   const handleRunBenchmark = async () => {
-    if (!selectedModelId) return;
+    if (!selectedModelId || batchSizes.length === 0 || backends.length === 0) return;
     
     setBenchmarkLoading(true);
-    setPerformanceBenchmark(undefined);
+    setBenchmarkReport(undefined);
     
-    let progress = 0;
-    const progressInterval = setInterval(() => {
-      progress += 100 / iterations;
-      if (progress > 95) progress = 95;
-      setBenchmarkProgress(progress);
-    }, 100);
+    setBenchmarkProgress(0);
     
     try {
       if (!model) {
         await loadModel(selectedModelId);
       }
       
-      const benchmark = await benchmarkModel(selectedModelId, iterations);
-      setPerformanceBenchmark(benchmark);
-      setBenchmarkProgress(100);
+      const report = await benchmarkModel(
+        selectedModelId,
+        { iterations, warmupIterations, batchSizes, backends },
+        progress => setBenchmarkProgress(progress * 100),
+        selectedSuite
+      );
+      setBenchmarkReport(report);
     } catch (error) {
       console.error('Error running benchmark:', error);
     } finally {
-      clearInterval(progressInterval);
       setBenchmarkLoading(false);
     }
   };
   
-  const formatTime = (ms: number): string => {
-    if (ms < 1) return '<1 ms';
-    if (ms < 1000) return `${ms.toFixed(2)} ms`;
-    return `${(ms / 1000).toFixed(2)} s`;
-  };
-  
-  const formatMemory = (bytes: number): string => {
-    if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  const toggleBackend = (backend: string, enabled: boolean) => {
+    setBackends(current => (enabled ? [...current, backend] : current.filter(entry => entry !== backend)));
   };
   
   return (
@@ -122,15 +132,75 @@ const ModelTester: React.FC<ModelTesterProps> = ({ className = '' }) => {
                 <SelectValue placeholder="Select a model to test" />
               </SelectTrigger>
               <SelectContent>
-                {availableModels.map((aiModel) => (
-                  <SelectItem key={aiModel.id} value={aiModel.id}>
-                    {aiModel.name}
+                {registeredModels.map((registered) => (
+                  <SelectItem key={registered.modelId} value={registered.modelId}>
+                    {registered.name} v{pickDefaultVersion(registered.versions)?.version}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
           
+          {selectedModelId && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Test Suite</label>
+              <div className="flex gap-2">
+                <Select value={selectedSuiteId} onValueChange={setSelectedSuiteId}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={BUILT_IN_CASES}>Built-in cases</SelectItem>
+                    {suites.map((suite) => (
+                      <SelectItem key={suite.id} value={suite.id}>
+                        {suite.name} v{suite.version} ({suite.cases.length} cases)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  title="Edit suite"
+                  disabled={!selectedSuite}
+                  onClick={() => {
+                    setEditingSuite(true);
+                    setEditorOpen(true);
+                  }}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  title="New suite"
+                  onClick={() => {
+                    setEditingSuite(false);
+                    setEditorOpen(true);
+                  }}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              {selectedSuite && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Written for model version {selectedSuite.modelVersion}; values match within
+                  ±({selectedSuite.tolerance.absolute} + {selectedSuite.tolerance.relative} × |expected|).
+                </p>
+              )}
+              <ModelTestSuiteEditor
+                modelId={selectedModelId}
+                suite={editingSuite ? selectedSuite : undefined}
+                open={editorOpen}
+                onOpenChange={setEditorOpen}
+                onSaved={(suite) => {
+                  setSelectedSuiteId(suite.id);
+                  reloadSuites();
+                }}
+              />
+            </div>
+          )}
+          
           <div className="flex flex-col sm:flex-row gap-4">
             <Button
               variant="default"
@@ -154,7 +224,7 @@ const ModelTester: React.FC<ModelTesterProps> = ({ className = '' }) => {
             <Button
               variant="outline"
               onClick={handleRunBenchmark}
-              disabled={!selectedModelId || benchmarkLoading}
+              disabled={!selectedModelId || benchmarkLoading || batchSizes.length === 0 || backends.length === 0}
               className="flex-1"
             >
               {benchmarkLoading ? (
@@ -189,6 +259,47 @@ const ModelTester: React.FC<ModelTesterProps> = ({ className = '' }) => {
             </p>
           </div>
           
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="benchmark-warmup" className="block text-sm font-medium mb-2">Warmup Iterations</label>
+              <Input
+                id="benchmark-warmup"
+                type="number"
+                min={0}
+                value={warmupIterations}
+                onChange={(e) => setWarmupIterations(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                disabled={benchmarkLoading}
+              />
+            </div>
+            <div>
+              <label htmlFor="benchmark-batches" className="block text-sm font-medium mb-2">Batch Sizes</label>
+              <Input
+                id="benchmark-batches"
+                value={batchSizesText}
+                onChange={(e) => setBatchSizesText(e.target.value)}
+                placeholder="1, 8, 32"
+                disabled={benchmarkLoading}
+              />
+            </div>
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium mb-2">Backends</label>
+            <div className="flex flex-wrap gap-4">
+              {BENCHMARK_BACKENDS.map(backend => (
+                <label key={backend} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={backends.includes(backend)}
+                    onCheckedChange={(checked) => toggleBackend(backend, checked === true)}
+                    disabled={benchmarkLoading || !isBackendRegistered(backend)}
+                  />
+                  {backend}
+                  {!isBackendRegistered(backend) && <span className="text-xs text-muted-foreground">(not in this build)</span>}
+                </label>
+              ))}
+            </div>
+          </div>
+          
           <Tabs defaultValue="tests" className="w-full">
             <TabsList className="mb-4">
               <TabsTrigger value="tests" className="flex items-center">
@@ -219,60 +330,12 @@ const ModelTester: React.FC<ModelTesterProps> = ({ className = '' }) => {
                       </div>
                       <Progress value={benchmarkProgress} className="h-2" />
                       <p className="text-xs text-muted-foreground mt-2">
-                        Running {iterations} iterations to measure model performance.
+                        Running {warmupIterations} warmup and {iterations} timed iterations for each batch size on {backends.join(', ')}.
                       </p>
                     </div>
-                  ) : performanceBenchmark ? (
+                  ) : benchmarkReport ? (
                     <div className="space-y-4">
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <div className="bg-muted/50 p-4 rounded-md">
-                          <div className="text-xs text-muted-foreground mb-1">Average Inference Time</div>
-                          <div className="flex items-end justify-between">
-                            <div className="text-2xl font-semibold">
-                              {formatTime(performanceBenchmark.averageTime)}
-                            </div>
-                            <Badge 
-                              variant={performanceBenchmark.averageTime < 50 ? "default" : "outline"}
-                              className={performanceBenchmark.averageTime < 50 ? "bg-green-500 hover:bg-green-600" : ""}
-                            >
-                              {performanceBenchmark.averageTime < 50 ? "Fast" : "Normal"}
-                            </Badge>
-                          </div>
-                        </div>
-                        
-                        <div className="bg-muted/50 p-4 rounded-md">
-                          <div className="text-xs text-muted-foreground mb-1">Memory Usage</div>
-                          <div className="flex items-end justify-between">
-                            <div className="text-2xl font-semibold">
-                              {formatMemory(performanceBenchmark.memoryUsage)}
-                            </div>
-                          </div>
-                        </div>
-                      </div>
-                      
-                      <div className="bg-muted/50 p-4 rounded-md">
-                        <h3 className="text-sm font-medium mb-2">Performance Details</h3>
-                        <div className="grid grid-cols-2 gap-4">
-                          <div>
-                            <div className="text-xs text-muted-foreground">Minimum Time</div>
-                            <div className="text-sm">{formatTime(performanceBenchmark.minTime)}</div>
-                          </div>
-                          <div>
-                            <div className="text-xs text-muted-foreground">Maximum Time</div>
-                            <div className="text-sm">{formatTime(performanceBenchmark.maxTime)}</div>
-                          </div>
-                          <div>
-                            <div className="text-xs text-muted-foreground">Iterations</div>
-                            <div className="text-sm">{iterations}</div>
-                          </div>
-                          <div>
-                            <div className="text-xs text-muted-foreground">Variance</div>
-                            <div className="text-sm">
-                              {formatTime(performanceBenchmark.maxTime - performanceBenchmark.minTime)}
-                            </div>
-                          </div>
-                        </div>
-                      </div>
+                      <ModelBenchmarkResults report={benchmarkReport} />
                       
                       <div className="border rounded-md overflow-hidden">
                         <div className="bg-muted/50 px-4 py-2 font-medium flex items-center">
@@ -282,8 +345,8 @@ const ModelTester: React.FC<ModelTesterProps> = ({ className = '' }) => {
                         <div className="p-4">
                           <div className="grid grid-cols-2 gap-4 text-sm">
                             <div>
-                              <div className="text-xs text-muted-foreground">Backend</div>
-                              <div>{window.navigator.userAgent.includes('WebKit') ? 'WebGL' : 'CPU'}</div>
+                              <div className="text-xs text-muted-foreground">Default Backend</div>
+                              <div>{tf.getBackend()}</div>
                             </div>
                             <div>
                               <div className="text-xs text-muted-foreground">Browser</div>
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { AlertTriangle, FileUp, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { InspectedModel, inspectModelFiles, uploadModel } from '@/services/modelUploadService';
+import { formatModelSize, formatTensorSpec, MODEL_FORMAT_NAMES } from '@/utils/modelVersionUtils';
+import { ModelVersion, RegisteredModel, VersionBump } from '@/types/modelRegistry';
+
+interface ModelUploadDialogProps {
+  // Every registered model, for new versions of custom models and for parents
+  models: RegisteredModel[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUploaded: (version: ModelVersion) => void;
+}
+
+// Select value for registering the upload as a model of its own
+const NEW_MODEL = 'new';
+
+const toModelId = (name: string): string => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'model';
+  return `${slug}-${uuidv4().slice(0, 8)}`;
+};
+
+const ModelUploadDialog: React.FC<ModelUploadDialogProps> = ({ models, open, onOpenChange, onUploaded }) => {
+  const [inspected, setInspected] = useState<InspectedModel | null>(null);
+  const [inspectError, setInspectError] = useState<string | null>(null);
+  const [isInspecting, setIsInspecting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [targetModelId, setTargetModelId] = useState(NEW_MODEL);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [bump, setBump] = useState<VersionBump>('minor');
+  // modelId@version of the model this one was derived from
+  const [parent, setParent] = useState('');
+  const [datasetName, setDatasetName] = useState('');
+
+  const customModels = models.filter(model => model.source !== 'built-in');
+
+  useEffect(() => {
+    if (!open) return;
+    setInspected(null);
+    setInspectError(null);
+    setTargetModelId(NEW_MODEL);
+    setName('');
+    setDescription('');
+    setBump('minor');
+    setParent('');
+    setDatasetName('');
+  }, [open]);
+
+  // The loaded model is only needed until it's stored
+  useEffect(() => {
+    return () => {
+      inspected?.model.dispose();
+    };
+  }, [inspected]);
+
+  const handleFilesChange = async (files: File[]) => {
+    setInspected(null);
+    setInspectError(null);
+    if (files.length === 0) return;
+
+    setIsInspecting(true);
+    try {
+      setInspected(await inspectModelFiles(files));
+    } catch (error) {
+      setInspectError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsInspecting(false);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!inspected) return;
+
+    const target = customModels.find(model => model.modelId === targetModelId);
+    const [parentModelId, parentVersion] = parent ? parent.split('@') : [];
+
+    setIsUploading(true);
+    const uploaded = await uploadModel(inspected, {
+      modelId: target ? target.modelId : toModelId(name),
+      name: target ? target.name : name,
+      description: description || target?.description,
+      bump,
+      trainingDataset: datasetName.trim() ? { name: datasetName.trim() } : null,
+      parent: parentModelId ? { modelId: parentModelId, version: parentVersion } : null
+    });
+    setIsUploading(false);
+
+    if (uploaded) {
+      onUploaded(uploaded);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Upload Model</DialogTitle>
+          <DialogDescription>
+            A TF.js model.json with its .bin weight files, or a single .onnx file. The model is checked with a test
+            prediction before it's registered.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="model-files">Model files</Label>
+            <Input
+              id="model-files"
+              type="file"
+              multiple
+              accept=".json,.bin,.onnx"
+              onChange={(e) => handleFilesChange(Array.from(e.target.files || []))}
+              className="mt-1"
+            />
+          </div>
+
+          {isInspecting && (
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading and checking the model...
+            </div>
+          )}
+
+          {inspectError && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{inspectError}</AlertDescription>
+            </Alert>
+          )}
+
+          {inspected && (
+            <div className="border rounded-md p-3 space-y-2 text-sm">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{MODEL_FORMAT_NAMES[inspected.format]}</Badge>
+                <Badge variant="outline">{formatModelSize(inspected.sizeBytes)}</Badge>
+              </div>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                <dt className="text-muted-foreground">Inputs</dt>
+                <dd>{inspected.signature.inputs.map(formatTensorSpec).join(', ')}</dd>
+                <dt className="text-muted-foreground">Outputs</dt>
+                <dd>{inspected.signature.outputs.map(formatTensorSpec).join(', ')}</dd>
+              </dl>
+              {inspected.warnings.map(warning => (
+                <div key={warning} className="flex items-center text-amber-500 text-xs">
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  {warning}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="upload-target">Register as</Label>
+              <select
+                id="upload-target"
+                className="w-full p-2 border rounded mt-1"
+                value={targetModelId}
+                onChange={(e) => setTargetModelId(e.target.value)}
+              >
+                <option value={NEW_MODEL}>A new model</option>
+                {customModels.map(model => (
+                  <option key={model.modelId} value={model.modelId}>
+                    Next version of {model.name} (v{model.versions[0].version})
+                  </option>
+                ))}
+              </select>
+            </div>
+            {targetModelId === NEW_MODEL ? (
+              <div className="col-span-2">
+                <Label htmlFor="upload-name">Name</Label>
+                <Input id="upload-name" value={name} onChange={(e) => setName(e.target.value)} className="mt-1" />
+              </div>
+            ) : (
+              <div className="col-span-2">
+                <Label htmlFor="upload-bump">Version change</Label>
+                <select
+                  id="upload-bump"
+                  className="w-full p-2 border rounded mt-1"
+                  value={bump}
+                  onChange={(e) => setBump(e.target.value as VersionBump)}
+                >
+                  <option value="major">Major: incompatible inputs or outputs</option>
+                  <option value="minor">Minor: retrained or improved</option>
+                  <option value="patch">Patch: small fix</option>
+                </select>
+              </div>
+            )}
+            <div className="col-span-2">
+              <Label htmlFor="upload-description">Description</Label>
+              <Textarea
+                id="upload-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="mt-1"
+                rows={2}
+              />
+            </div>
+            <div>
+              <Label htmlFor="upload-parent">Derived from</Label>
+              <select
+                id="upload-parent"
+                className="w-full p-2 border rounded mt-1"
+                value={parent}
+                onChange={(e) => setParent(e.target.value)}
+              >
+                <option value="">None</option>
+                {models.flatMap(model => model.versions.map(version => (
+                  <option key={version.id} value={`${model.modelId}@${version.version}`}>
+                    {model.name} v{version.version}
+                  </option>
+                )))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="upload-dataset">Training dataset</Label>
+              <Input
+                id="upload-dataset"
+                value={datasetName}
+                onChange={(e) => setDatasetName(e.target.value)}
+                placeholder="Optional"
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button
+              onClick={handleUpload}
+              disabled={!inspected || isUploading || (targetModelId === NEW_MODEL && !name.trim())}
+              className="bg-scottie hover:bg-scottie-secondary"
+            >
+              {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+              Register Model
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModelUploadDialog;
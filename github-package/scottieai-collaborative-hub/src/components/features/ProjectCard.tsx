@@ -8,8 +8,10 @@ import {
   Edit, 
   Trash2, 
   Share2,
-  ExternalLink
+  ExternalLink,
+  FolderTree
 } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { formatDistanceToNow } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -102,6 +104,12 @@ const ProjectCard: React.FC<ProjectCardProps> = ({
                 <Edit className="mr-2 h-4 w-4" />
                 <span>Edit</span>
               </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link to={`/projects/${project.id}`}>
+                  <FolderTree className="mr-2 h-4 w-4" />
+                  <span>Browse Files</span>
+                </Link>
+              </DropdownMenuItem>
               {project.status === 'completed' && (
                 <DropdownMenuItem asChild>
                   <DeploymentDialog
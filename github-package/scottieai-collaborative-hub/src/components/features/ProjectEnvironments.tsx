@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import EnvironmentVariablesEditor from './EnvironmentVariablesEditor';
+import EnvironmentSecretsUnlock from './EnvironmentSecretsUnlock';
+import { useProjectEnvironment } from '@/hooks/useProjectEnvironment';
+import {
+  ENVIRONMENT_NAMES,
+  hasSecrets,
+  isEnvironmentUnlocked,
+  saveProjectEnvironment
+} from '@/services/environmentService';
+import { EnvironmentName, EnvironmentVariable } from '@/types/deployment';
+import { isValidEnvironmentKey } from '@/utils/envUtils';
+
+interface ProjectEnvironmentsProps {
+  projectId: string;
+  projectName: string;
+  className?: string;
+}
+
+const ENVIRONMENT_LABELS: Record<EnvironmentName, string> = {
+  development: 'Development',
+  preview: 'Preview',
+  production: 'Production'
+};
+
+// Describe the first problem that would stop an environment from saving
+const validateVariables = (variables: EnvironmentVariable[]): string | null => {
+  const keys = variables.map(variable => variable.key).filter(Boolean);
+  const invalid = keys.find(key => !isValidEnvironmentKey(key));
+  if (invalid) return `"${invalid}" is not a valid variable name`;
+
+  const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+  if (duplicate) return `${duplicate} is defined more than once`;
+
+  return null;
+};
+
+const ProjectEnvironments: React.FC<ProjectEnvironmentsProps> = ({ projectId, projectName, className = "" }) => {
+  const [environment, setEnvironment] = useState<EnvironmentName>('production');
+  const { variables, setVariables, isLoading, isLocked, error, reload } = useProjectEnvironment(projectId, environment);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  // Set when saving new secrets before a passphrase was entered
+  const [needsUnlock, setNeedsUnlock] = useState(false);
+
+  const handleEnvironmentChange = (value: string) => {
+    if (isDirty && !window.confirm('Discard unsaved changes?')) return;
+    setEnvironment(value as EnvironmentName);
+    setIsDirty(false);
+    setNeedsUnlock(false);
+  };
+
+  const handleChange = (updated: EnvironmentVariable[]) => {
+    setVariables(updated);
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    const problem = validateVariables(variables);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    if (hasSecrets(variables) && !isEnvironmentUnlocked()) {
+      setNeedsUnlock(true);
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await saveProjectEnvironment(projectId, environment, variables);
+    setIsSaving(false);
+
+    if (saved) {
+      setIsDirty(false);
+      reload();
+    }
+  };
+
+  const handleUnlock = () => {
+    setNeedsUnlock(false);
+    if (isLocked) reload();
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex items-end justify-between gap-4">
+        <div className="grid gap-2 w-48">
+          <Label htmlFor="environment-select">Environment</Label>
+          <Select value={environment} onValueChange={handleEnvironmentChange}>
+            <SelectTrigger id="environment-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ENVIRONMENT_NAMES.map(name => (
+                <SelectItem key={name} value={name}>{ENVIRONMENT_LABELS[name]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving || isLocked}
+          className="bg-scottie hover:bg-scottie-secondary"
+        >
+          <Save className="mr-2 h-4 w-4" />
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+
+      {(isLocked || needsUnlock) && (
+        <EnvironmentSecretsUnlock onUnlock={handleUnlock} error={isLocked ? error : null} />
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading environment...</p>
+      ) : !isLocked && (
+        <>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <EnvironmentVariablesEditor
+            variables={variables}
+            onChange={handleChange}
+            exportName={`${projectName}-${environment}`.replace(/[^\w-]+/g, '-').toLowerCase()}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProjectEnvironments;
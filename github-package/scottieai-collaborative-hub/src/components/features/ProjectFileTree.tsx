@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, FileCode, Folder, FolderOpen } from 'lucide-react';
+import { FileTreeNode } from '@/utils/archiveUtils';
+
+export interface FileStats {
+  language: string | null;
+  lines: number | null;
+}
+
+interface ProjectFileTreeProps {
+  nodes: FileTreeNode[];
+  fileStats: Record<string, FileStats>;
+  selectedPath: string | null;
+  onSelect: (path: string) => void;
+  className?: string;
+}
+
+interface TreeNodeProps {
+  node: FileTreeNode;
+  depth: number;
+  fileStats: Record<string, FileStats>;
+  selectedPath: string | null;
+  onSelect: (path: string) => void;
+}
+
+const TreeNode: React.FC<TreeNodeProps> = ({ node, depth, fileStats, selectedPath, onSelect }) => {
+  // Expand the first level by default so small projects are visible immediately
+  const [isExpanded, setIsExpanded] = useState(depth === 0);
+  const indent = { paddingLeft: `${depth * 16 + 8}px` };
+
+  if (node.type === 'directory') {
+    return (
+      <div>
+        <button
+          className="flex items-center w-full py-1 pr-2 text-sm hover:bg-muted rounded"
+          style={indent}
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          {isExpanded ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+          {isExpanded ? <FolderOpen className="h-4 w-4 mr-2 text-scottie" /> : <Folder className="h-4 w-4 mr-2 text-scottie" />}
+          <span className="truncate">{node.name}</span>
+        </button>
+        {isExpanded && node.children.map(child => (
+          <TreeNode
+            key={child.path}
+            node={child}
+            depth={depth + 1}
+            fileStats={fileStats}
+            selectedPath={selectedPath}
+            onSelect={onSelect}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  const stats = fileStats[node.path];
+  const isSelected = node.path === selectedPath;
+
+  return (
+    <button
+      className={`flex items-center w-full py-1 pr-2 text-sm rounded ${isSelected ? 'bg-scottie-light/30 font-medium' : 'hover:bg-muted'}`}
+      style={{ paddingLeft: `${depth * 16 + 28}px` }}
+      onClick={() => onSelect(node.path)}
+    >
+      <FileCode className="h-4 w-4 mr-2 text-muted-foreground flex-shrink-0" />
+      <span className="truncate flex-1 text-left">{node.name}</span>
+      {stats?.lines !== null && stats?.lines !== undefined && (
+        <span className="text-xs text-muted-foreground ml-2">{stats.lines} lines</span>
+      )}
+    </button>
+  );
+};
+
+const ProjectFileTree: React.FC<ProjectFileTreeProps> = ({
+  nodes,
+  fileStats,
+  selectedPath,
+  onSelect,
+  className = "",
+}) => {
+  if (nodes.length === 0) {
+    return (
+      <div className={`text-sm text-muted-foreground p-4 ${className}`}>
+        This package does not contain any files.
+      </div>
+    );
+  }
+
+  return (
+    <div className={`py-2 ${className}`}>
+      {nodes.map(node => (
+        <TreeNode
+          key={node.path}
+          node={node}
+          depth={0}
+          fileStats={fileStats}
+          selectedPath={selectedPath}
+          onSelect={onSelect}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default ProjectFileTree;
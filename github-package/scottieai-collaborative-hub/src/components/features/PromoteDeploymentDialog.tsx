@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getDeploymentProvider } from '@/services/deploymentProviders';
+import { promoteDeployment } from '@/services/deploymentReleaseService';
+import { Deployment, DeploymentCredentials, PromotionAction } from '@/types/deployment';
+
+interface PromoteDeploymentDialogProps {
+  // The deployment to make production; the dialog is open while set
+  deployment: Deployment | null;
+  action: Exclude<PromotionAction, 'deploy'>;
+  onClose: () => void;
+  onPromoted: () => void;
+}
+
+const PromoteDeploymentDialog: React.FC<PromoteDeploymentDialogProps> = ({
+  deployment,
+  action,
+  onClose,
+  onPromoted
+}) => {
+  const [credentials, setCredentials] = useState<DeploymentCredentials>({});
+  const [isPromoting, setIsPromoting] = useState(false);
+  const provider = deployment ? getDeploymentProvider(deployment.platform) : null;
+  // Providers without a promote step serve each deployment from its own URL, so nothing is called
+  const credentialFields = provider?.promote ? provider.credentialFields : [];
+  const canPromote = credentialFields.every(field => field.optional || credentials[field.key]?.trim());
+
+  useEffect(() => {
+    setCredentials({});
+  }, [deployment?.id]);
+
+  const handlePromote = async () => {
+    if (!deployment) return;
+
+    setIsPromoting(true);
+    const promoted = await promoteDeployment(deployment.id, credentials, action);
+    setIsPromoting(false);
+
+    if (promoted) {
+      onPromoted();
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(deployment)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{action === 'rollback' ? 'Roll Back Production' : 'Promote to Production'}</DialogTitle>
+          <DialogDescription>
+            {deployment && (
+              <>
+                Production will serve the {provider?.name || deployment.platform} deployment from{' '}
+                {deployment.created.toLocaleString()}. It is not rebuilt, so it runs exactly as it did then.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {credentialFields.map(field => (
+          <div key={field.key}>
+            <Label htmlFor={`promote-${field.key}`}>
+              {field.label}{field.optional ? ' (optional)' : ''}
+            </Label>
+            <Input
+              id={`promote-${field.key}`}
+              type={field.secret ? 'password' : 'text'}
+              placeholder={field.placeholder}
+              value={credentials[field.key] || ''}
+              onChange={(e) => setCredentials(prev => ({ ...prev, [field.key]: e.target.value }))}
+              className="mt-1"
+            />
+          </div>
+        ))}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handlePromote}
+            disabled={isPromoting || !canPromote}
+            className="bg-scottie hover:bg-scottie-secondary"
+          >
+            {isPromoting ? 'Updating...' : action === 'rollback' ? 'Roll Back' : 'Promote'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromoteDeploymentDialog;
@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { Eye, GitCompare, History, Upload, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DiffViewer from './DiffViewer';
+import DeploymentDialog from './DeploymentDialog';
+import { getProjectRevisions, ProjectRevision } from '@/services/projectService';
+import { compareProjectRevisions } from '@/services/fileProcessingService';
+import { FileDiff } from '@/utils/diffUtils';
+
+interface RevisionHistoryProps {
+  projectId: string;
+  projectName: string;
+  className?: string;
+}
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ projectId, projectName, className = "" }) => {
+  const [revisions, setRevisions] = useState<ProjectRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [fromRevisionId, setFromRevisionId] = useState<string>('');
+  const [toRevisionId, setToRevisionId] = useState<string>('');
+  const [diffs, setDiffs] = useState<FileDiff[] | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadRevisions = async () => {
+      setIsLoading(true);
+      const history = await getProjectRevisions(projectId);
+      if (cancelled) return;
+
+      setRevisions(history);
+      // Default to comparing the latest revision with the one before it
+      setToRevisionId(history[0]?.id || '');
+      setFromRevisionId(history[1]?.id || '');
+      setIsLoading(false);
+    };
+
+    loadRevisions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const handleCompare = async () => {
+    const fromRevision = revisions.find(revision => revision.id === fromRevisionId);
+    const toRevision = revisions.find(revision => revision.id === toRevisionId);
+    if (!fromRevision || !toRevision) return;
+
+    setIsComparing(true);
+    setDiffs(await compareProjectRevisions(fromRevision, toRevision));
+    setIsComparing(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className={`flex justify-center items-center py-12 ${className}`}>
+        <p>Loading revision history...</p>
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className={`flex flex-col items-center justify-center py-12 text-muted-foreground ${className}`}>
+        <History className="h-10 w-10 mb-3" />
+        <p className="text-sm">No revisions have been recorded for this project yet.</p>
+      </div>
+    );
+  }
+
+  const revisionOptions = revisions.map(revision => (
+    <SelectItem key={revision.id} value={revision.id}>
+      Revision {revision.revisionNumber}
+    </SelectItem>
+  ));
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div className="border rounded-lg divide-y">
+        {revisions.map(revision => (
+          <div key={revision.id} className="flex items-start justify-between p-4">
+            <div className="flex items-start">
+              {revision.source === 'upload'
+                ? <Upload className="h-4 w-4 mr-3 mt-1 text-muted-foreground" />
+                : <Wand2 className="h-4 w-4 mr-3 mt-1 text-muted-foreground" />}
+              <div>
+                <div className="font-medium">
+                  Revision {revision.revisionNumber}
+                  <span className="text-muted-foreground font-normal ml-2">{revision.description}</span>
+                </div>
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {revision.technologies.map(tech => (
+                    <Badge key={tech} variant="outline" className="text-xs">
+                      {tech}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <div className="text-right text-sm text-muted-foreground flex-shrink-0 ml-4">
+              <div>{revision.created.toLocaleString()}</div>
+              {revision.analysis && (
+                <div className="mt-1">
+                  Quality {revision.analysis.summary.codeQualityScore} · {revision.analysis.summary.totalIssues} issues
+                </div>
+              )}
+              <DeploymentDialog
+                projectId={projectId}
+                projectName={projectName}
+                technologies={revision.technologies}
+                revisionId={revision.id}
+                defaultEnvironment="preview"
+                onDeploymentComplete={() => {}}
+                trigger={
+                  <Button variant="outline" size="sm" className="mt-2">
+                    <Eye className="mr-1 h-3 w-3" />
+                    Deploy Preview
+                  </Button>
+                }
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {revisions.length > 1 && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Select value={fromRevisionId} onValueChange={setFromRevisionId}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Base revision" />
+              </SelectTrigger>
+              <SelectContent>{revisionOptions}</SelectContent>
+            </Select>
+            <span className="text-muted-foreground">→</span>
+            <Select value={toRevisionId} onValueChange={setToRevisionId}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Compare revision" />
+              </SelectTrigger>
+              <SelectContent>{revisionOptions}</SelectContent>
+            </Select>
+            <Button
+              onClick={handleCompare}
+              disabled={isComparing || !fromRevisionId || !toRevisionId || fromRevisionId === toRevisionId}
+            >
+              <GitCompare className="mr-2 h-4 w-4" />
+              {isComparing ? 'Comparing...' : 'Compare'}
+            </Button>
+          </div>
+
+          {diffs && <DiffViewer diffs={diffs} />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
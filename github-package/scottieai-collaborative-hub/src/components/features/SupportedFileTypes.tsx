@@ -8,10 +8,19 @@ const SupportedFileTypes = () => {
       <p className="text-muted-foreground mb-4">
         Upload compressed code packages in any of the following formats:
       </p>
+      <p className="text-muted-foreground text-sm mb-4">
+        Technologies are detected from the contents of .zip, .tar.gz and .tar archives.
+      </p>
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
         <div className="bg-secondary p-4 rounded-lg text-center">
           <span className="font-medium">.zip</span>
         </div>
+        <div className="bg-secondary p-4 rounded-lg text-center">
+          <span className="font-medium">.tar.gz</span>
+        </div>
+        <div className="bg-secondary p-4 rounded-lg text-center">
+          <span className="font-medium">.tar</span>
+        </div>
         <div className="bg-secondary p-4 rounded-lg text-center">
           <span className="font-medium">.rar</span>
         </div>
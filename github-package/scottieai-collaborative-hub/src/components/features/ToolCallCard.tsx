@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2, Wrench } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ToolCall, ToolResult } from '@/types/llm';
+
+interface ToolCallCardProps {
+  call: ToolCall;
+  // Missing while the tool is still running
+  result?: ToolResult;
+}
+
+// Tool output is JSON when the call succeeds; errors are plain messages
+const formatOutput = (content: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(content), null, 2);
+  } catch {
+    return content;
+  }
+};
+
+const ToolCallCard: React.FC<ToolCallCardProps> = ({ call, result }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border rounded-md bg-background text-xs">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-left">
+        {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Wrench className="h-3 w-3 text-muted-foreground" />
+        <span className="font-mono truncate flex-1">{call.name}</span>
+        {!result && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+        {result?.isError && <Badge variant="destructive" className="text-[10px] px-1 py-0">failed</Badge>}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="border-t px-3 py-2 space-y-2">
+        <div>
+          <div className="text-muted-foreground mb-1">Arguments</div>
+          <pre className="whitespace-pre-wrap break-all">{JSON.stringify(call.arguments, null, 2)}</pre>
+        </div>
+        {result && (
+          <div>
+            <div className="text-muted-foreground mb-1">Result</div>
+            <pre className={`whitespace-pre-wrap break-all max-h-48 overflow-auto ${result.isError ? 'text-red-600' : ''}`}>
+              {formatOutput(result.content)}
+            </pre>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ToolCallCard;
@@ -4,8 +4,10 @@ import {
   useAutoUpdate, 
   defaultAutoUpdateSettings, 
   analyzeProjectCode, 
-  getTechnologyUpdates 
+  getTechnologyUpdates,
+  CodeUpdatePreview
 } from '@/services/autoUpdateService';
+import { PatchConflict } from '@/utils/recommendationPatch';
 import { toast } from 'sonner';
 import CryptoJS from 'crypto-js';
 
@@ -19,7 +21,10 @@ interface AutoUpdateContextProps {
   analysisResult: CodeAnalysisResult | null;
   technologyUpdates: TechnologyUpdate[];
   runAnalysis: () => Promise<CodeAnalysisResult | null>;
+  previewUpdates: (recommendationIds: string[]) => Promise<CodeUpdatePreview | null>;
   applyUpdates: (recommendationIds: string[]) => Promise<boolean>;
+  rollbackUpdates: () => Promise<boolean>;
+  updateConflicts: PatchConflict[];
   encryptData: (data: any) => string;
   decryptData: (encryptedData: string) => any;
 }
@@ -37,7 +42,10 @@ export const AutoUpdateProvider: React.FC<{
     analysisResult,
     technologyUpdates,
     runAnalysis,
-    applyUpdates
+    previewUpdates,
+    applyUpdates,
+    rollbackUpdates,
+    updateConflicts
   } = useAutoUpdate(projectId || '');
 
   // Encryption function using AES
@@ -95,7 +103,10 @@ export const AutoUpdateProvider: React.FC<{
         analysisResult,
         technologyUpdates,
         runAnalysis,
+        previewUpdates,
         applyUpdates,
+        rollbackUpdates,
+        updateConflicts,
         encryptData,
         decryptData
       }}
@@ -1,24 +1,54 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { LLMServiceFactory } from '@/services/llmService';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { LLMRouter, ProviderRateLimiter, RoutedCompletionResponse } from '@/services/llmRouter';
+import { prepareChatHistory } from '@/services/chatHistoryService';
+import { runToolConversation } from '@/services/chatToolService';
+import {
+  createChatThread,
+  deleteChatThread,
+  deriveThreadTitle,
+  exportChatThread,
+  getChatThreads,
+  saveChatThread,
+  DEFAULT_THREAD_TITLE,
+  ThreadExportFormat
+} from '@/services/chatThreadService';
 import { 
   ChatSettings, 
   defaultChatSettings, 
   ChatState, 
   ChatContextType, 
   ChatContextData,
+  ChatProviderConfig,
+  ChatThread,
+  ConversationMessage,
+  TokenUsage,
+  emptyTokenUsage,
   contextSystemPrompts
 } from '@/types/chat';
 import { ChatMessage, ChatCompletionRequest, LLMProvider } from '@/types/llm';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { useAuth } from '@/contexts/AuthContext';
+import { estimateTokens } from '@/utils/tokenUtils';
 import { toast } from 'sonner';
 
 interface ChatContextProps {
   chatState: ChatState;
-  sendMessage: (message: string, contextData?: ChatContextData) => Promise<void>;
+  sendMessage: (message: string, contextData?: ChatContextData, threadOptions?: NewThreadOptions) => Promise<void>;
   clearChat: () => void;
   setProvider: (provider: LLMProvider) => void;
   updateSettings: (settings: Partial<ChatSettings>) => void;
   isProviderConfigured: (provider: LLMProvider) => boolean;
+  createThread: (options?: NewThreadOptions) => void;
+  selectThread: (threadId: string) => void;
+  renameThread: (threadId: string, title: string) => Promise<void>;
+  deleteThread: (threadId: string) => Promise<void>;
+  exportThread: (threadId: string, format: ThreadExportFormat) => void;
+}
+
+export interface NewThreadOptions {
+  title?: string;
+  projectId?: string | null;
+  contextType?: ChatContextType;
 }
 
 const ChatContext = createContext<ChatContextProps | undefined>(undefined);
@@ -33,8 +63,20 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     isLoading: false,
     error: null,
     currentProvider: settings.defaultProvider,
-    settings
+    settings,
+    digest: '',
+    digestedCount: 0,
+    usage: emptyTokenUsage,
+    threads: [],
+    activeThreadId: null
   });
+  const { user } = useAuth();
+
+  // Set when the active thread's messages change and should be persisted once the reply settles
+  const needsSave = useRef(false);
+
+  // Request history is shared across messages so per-provider rate limits hold between sends
+  const rateLimiter = useRef(new ProviderRateLimiter());
 
   // Update chat state when settings change
   useEffect(() => {
@@ -44,16 +86,73 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }));
   }, [settings]);
 
+  // Load the user's conversations, from IndexedDB when offline or signed out
+  useEffect(() => {
+    let cancelled = false;
+
+    getChatThreads().then(threads => {
+      if (cancelled) return;
+      setChatState(prev => ({
+        ...prev,
+        threads,
+        // Keep an unsaved thread the user already started
+        activeThreadId: threads.some(thread => thread.id === prev.activeThreadId) || prev.messages.length > 0
+          ? prev.activeThreadId
+          : null
+      }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  // Write the active conversation back to its thread and persist it
+  useEffect(() => {
+    if (!needsSave.current || chatState.isLoading || !chatState.activeThreadId) return;
+    needsSave.current = false;
+
+    const current = chatState.threads.find(thread => thread.id === chatState.activeThreadId);
+    if (!current) return;
+
+    const firstUserMessage = chatState.messages.find(message => message.role === 'user');
+    const thread: ChatThread = {
+      ...current,
+      title: current.title === DEFAULT_THREAD_TITLE && firstUserMessage
+        ? deriveThreadTitle(firstUserMessage.content)
+        : current.title,
+      messages: chatState.messages,
+      digest: chatState.digest,
+      digestedCount: chatState.digestedCount,
+      usage: chatState.usage,
+      updated: new Date()
+    };
+
+    setChatState(prev => ({
+      ...prev,
+      threads: [thread, ...prev.threads.filter(t => t.id !== thread.id)]
+    }));
+    saveChatThread(thread);
+  }, [chatState]);
+
   // Check if a provider is properly configured
   const isProviderConfigured = (provider: LLMProvider): boolean => {
     const providerConfig = settings.providers.find(p => p.provider === provider);
-    return !!providerConfig && !!providerConfig.apiKey;
+    if (!providerConfig) return false;
+    
+    // Self-hosted models need an endpoint; an API key is optional
+    return provider === 'local' ? !!providerConfig.baseUrl : !!providerConfig.apiKey;
   };
+  
+  const describeMissingConfig = (provider: LLMProvider): string =>
+    provider === 'local'
+      ? 'Local LLM endpoint is not configured. Please add its base URL in settings.'
+      : `${provider} API key is not configured. Please add it in settings.`;
 
   // Set the active provider
   const setProvider = (provider: LLMProvider) => {
     if (!isProviderConfigured(provider)) {
-      toast.error(`${provider} API key is not configured. Please add it in settings.`);
+      toast.error(describeMissingConfig(provider));
       return;
     }
     
@@ -74,23 +173,113 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }));
   };
 
-  // Clear chat history
+  // Clear the active thread's history
   const clearChat = () => {
+    needsSave.current = true;
+    setChatState(prev => ({
+      ...prev,
+      messages: [],
+      digest: '',
+      digestedCount: 0,
+      usage: emptyTokenUsage
+    }));
+  };
+
+  // Start a new conversation; it is saved once the first message is sent
+  const createThread = (options: NewThreadOptions = {}) => {
+    const thread = createChatThread(options);
     setChatState(prev => ({
       ...prev,
-      messages: []
+      threads: [thread, ...prev.threads.filter(t => t.id !== prev.activeThreadId || t.messages.length > 0)],
+      activeThreadId: thread.id,
+      messages: [],
+      digest: '',
+      digestedCount: 0,
+      usage: emptyTokenUsage,
+      error: null
     }));
   };
 
+  // Switch to another conversation
+  const selectThread = (threadId: string) => {
+    const thread = chatState.threads.find(t => t.id === threadId);
+    if (!thread || chatState.isLoading) return;
+
+    setChatState(prev => ({
+      ...prev,
+      activeThreadId: thread.id,
+      messages: thread.messages,
+      digest: thread.digest,
+      digestedCount: thread.digestedCount,
+      usage: thread.usage,
+      error: null
+    }));
+  };
+
+  const renameThread = async (threadId: string, title: string) => {
+    const thread = chatState.threads.find(t => t.id === threadId);
+    if (!thread || !title.trim()) return;
+
+    const renamed = { ...thread, title: title.trim(), updated: new Date() };
+    setChatState(prev => ({
+      ...prev,
+      threads: prev.threads.map(t => (t.id === threadId ? renamed : t))
+    }));
+    await saveChatThread(renamed);
+  };
+
+  const deleteThread = async (threadId: string) => {
+    if (!(await deleteChatThread(threadId))) return;
+
+    setChatState(prev => {
+      const threads = prev.threads.filter(t => t.id !== threadId);
+      if (prev.activeThreadId !== threadId) return { ...prev, threads };
+
+      return {
+        ...prev,
+        threads,
+        activeThreadId: null,
+        messages: [],
+        digest: '',
+        digestedCount: 0,
+        usage: emptyTokenUsage
+      };
+    });
+  };
+
+  const exportThread = (threadId: string, format: ThreadExportFormat) => {
+    const thread = chatState.threads.find(t => t.id === threadId);
+    if (thread) exportChatThread(thread, format);
+  };
+
+  // Order providers for fallback: the current one first, then other configured ones in settings order
+  const getProviderChain = (): ChatProviderConfig[] => {
+    const current = settings.providers.find(p => p.provider === chatState.currentProvider);
+    if (!current) {
+      throw new Error(`Provider ${chatState.currentProvider} not found in settings`);
+    }
+
+    // Settings saved before fallback existed default to enabling it
+    if (settings.enableFallback === false) return [current];
+
+    return [
+      current,
+      ...settings.providers.filter(p => p !== current && isProviderConfigured(p.provider))
+    ];
+  };
+
   // Send a message to the LLM
-  const sendMessage = async (content: string, contextData?: ChatContextData) => {
+  const sendMessage = async (content: string, contextData?: ChatContextData, threadOptions?: NewThreadOptions) => {
+    // Set once the streaming placeholder has been added to the conversation
+    let streamed = false;
+
     try {
       // Don't send empty messages
       if (!content.trim()) return;
       
       // Check if provider is configured
       if (!isProviderConfigured(chatState.currentProvider)) {
-        toast.error(`${chatState.currentProvider} API key is not configured. Please add it in settings.`);
+        toast.error(describeMissingConfig(chatState.currentProvider));
         return;
       }
       
@@ -100,29 +289,33 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
         content
       };
       
+      // Messages sent without an active thread start a new one
+      const activeThread = chatState.threads.find(thread => thread.id === chatState.activeThreadId)
+        || createChatThread({ contextType: contextData?.type, ...threadOptions });
+      
+      needsSave.current = true;
       setChatState(prev => ({
         ...prev,
+        threads: prev.threads.some(thread => thread.id === activeThread.id)
+          ? prev.threads
+          : [activeThread, ...prev.threads],
+        activeThreadId: activeThread.id,
         messages: [...prev.messages, userMessage],
         isLoading: true,
         error: null
       }));
       
-      // Get provider configuration
-      const providerConfig = settings.providers.find(p => p.provider === chatState.currentProvider);
-      if (!providerConfig) {
-        throw new Error(`Provider ${chatState.currentProvider} not found in settings`);
-      }
-      
-      // Create LLM service
-      const llmService = LLMServiceFactory.createService(chatState.currentProvider, {
-        apiKey: providerConfig.apiKey,
-        model: providerConfig.model,
-        temperature: providerConfig.temperature,
-        maxTokens: providerConfig.maxTokens
+      // Route across providers so a failing one doesn't lose the message
+      const providerChain = getProviderChain();
+      const providerConfig = providerChain[0];
+      const router = new LLMRouter({
+        providers: providerChain,
+        retry: settings.retry || defaultChatSettings.retry,
+        rateLimiter: rateLimiter.current
       });
       
       // Prepare messages for the request
-      const contextType = contextData?.type || 'general';
+      const contextType = contextData?.type || activeThread.contextType;
       const systemPrompt = contextSystemPrompts[contextType];
       
       // Add context data if available
@@ -131,29 +324,59 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
         enhancedSystemPrompt += `\n\nContext information: ${JSON.stringify(contextData.data)}`;
       }
       
-      const messages: ChatMessage[] = [
-        { role: 'system', content: enhancedSystemPrompt },
-        ...chatState.messages,
+      // Provider metadata stays local; the APIs only accept role and content
+      const history: ChatMessage[] = [
+        ...chatState.messages
+          .slice(chatState.digestedCount)
+          .map(({ role, content, toolCalls, toolResults }) => ({ role, content, toolCalls, toolResults })),
         userMessage
       ];
       
-      // Limit history length if needed
-      const limitedMessages = messages.slice(-settings.maxHistoryLength);
+      // Fit the prompt into the model's context window, summarizing turns that no longer fit
+      const prepared = await prepareChatHistory(router, {
+        provider: providerConfig.provider,
+        model: providerConfig.model,
+        systemPrompt: enhancedSystemPrompt,
+        history,
+        digest: chatState.digest,
+        completionTokens: providerConfig.maxTokens || 1000,
+        maxMessages: settings.maxHistoryLength
+      });
+      
+      setChatState(prev => ({
+        ...prev,
+        digest: prepared.digest,
+        digestedCount: prev.digestedCount + prepared.digestedCount
+      }));
       
       // Prepare request
       const request: ChatCompletionRequest = {
-        messages: limitedMessages,
+        messages: prepared.messages,
         temperature: providerConfig.temperature,
         maxTokens: providerConfig.maxTokens,
         stream: settings.enableStreaming
       };
       
-      if (settings.enableStreaming) {
+      let response: RoutedCompletionResponse;
+      
+      if (settings.enableTools) {
+        // Tool round trips need complete responses, so tool-enabled chats don't stream
+        let shownSteps = 0;
+        ({ response } = await runToolConversation(router, request, (transcript) => {
+          const newSteps = transcript.slice(shownSteps);
+          shownSteps = transcript.length;
+          setChatState(prev => ({
+            ...prev,
+            messages: [...prev.messages, ...newSteps]
+          }));
+        }));
+      } else if (settings.enableStreaming) {
+        streamed = true;
         // For streaming responses
         let streamedContent = '';
         
         // Create a placeholder message
-        const placeholderMessage: ChatMessage = {
+        const placeholderMessage: ConversationMessage = {
           role: 'assistant',
           content: ''
         };
@@ -164,59 +387,66 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }));
         
         // Stream the response
-        await llmService.streamChatCompletion(
-          request,
-          (chunk) => {
-            streamedContent += chunk;
-            setChatState(prev => {
-              const updatedMessages = [...prev.messages];
-              updatedMessages[updatedMessages.length - 1] = {
-                ...updatedMessages[updatedMessages.length - 1],
-                content: streamedContent
-              };
-              return {
-                ...prev,
-                messages: updatedMessages
-              };
-            });
-          },
-          (fullResponse) => {
-            setChatState(prev => {
-              const updatedMessages = [...prev.messages];
-              updatedMessages[updatedMessages.length - 1] = {
-                role: 'assistant',
-                content: fullResponse.message.content
-              };
-              return {
-                ...prev,
-                messages: updatedMessages,
-                isLoading: false
-              };
-            });
-          },
-          (error) => {
-            setChatState(prev => ({
+        response = await router.streamChatCompletion(request, (chunk) => {
+          streamedContent += chunk;
+          setChatState(prev => {
+            const updatedMessages = [...prev.messages];
+            updatedMessages[updatedMessages.length - 1] = {
+              ...updatedMessages[updatedMessages.length - 1],
+              content: streamedContent
+            };
+            return {
               ...prev,
-              error: error.message,
-              isLoading: false
-            }));
-            toast.error(`Error: ${error.message}`);
-          }
-        );
+              messages: updatedMessages
+            };
+          });
+        });
       } else {
         // For non-streaming responses
-        const response = await llmService.getChatCompletion(request);
-        
-        setChatState(prev => ({
+        response = await router.getChatCompletion(request);
+      }
+      
+      // Not every provider reports usage when streaming, so fall back to estimates
+      const usage: TokenUsage = response.usage?.totalTokens
+        ? response.usage
+        : {
+            promptTokens: prepared.promptTokens,
+            completionTokens: estimateTokens(response.message.content, response.provider),
+            totalTokens: prepared.promptTokens + estimateTokens(response.message.content, response.provider)
+          };
+      
+      const assistantMessage: ConversationMessage = {
+        role: 'assistant',
+        content: response.message.content,
+        provider: response.provider,
+        model: response.model,
+        usage
+      };
+      
+      setChatState(prev => {
+        // Replace the streaming placeholder with the final message
+        const updatedMessages = streamed ? prev.messages.slice(0, -1) : prev.messages;
+        return {
           ...prev,
-          messages: [...prev.messages, response.message],
-          isLoading: false
-        }));
+          messages: [...updatedMessages, assistantMessage],
+          isLoading: false,
+          usage: {
+            promptTokens: prev.usage.promptTokens + usage.promptTokens,
+            completionTokens: prev.usage.completionTokens + usage.completionTokens,
+            totalTokens: prev.usage.totalTokens + usage.totalTokens
+          }
+        };
+      });
+      
+      if (response.provider !== providerConfig.provider) {
+        toast.info(`${providerConfig.provider} is unavailable, answered by ${response.provider}`);
       }
     } catch (error) {
       console.error('Error sending message:', error);
       setChatState(prev => ({
         ...prev,
+        // Drop the unfinished streamed reply so it isn't saved or sent as history
+        messages: streamed ? prev.messages.slice(0, -1) : prev.messages,
         error: error instanceof Error ? error.message : 'Unknown error',
         isLoading: false
       }));
@@ -232,7 +462,12 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
         clearChat,
         setProvider,
         updateSettings,
-        isProviderConfigured
+        isProviderConfigured,
+        createThread,
+        selectThread,
+        renameThread,
+        deleteThread,
+        exportThread
       }}
     >
       {children}
@@ -5,6 +5,7 @@ import {
   runFullAnalysis, 
   scheduleRegularAnalysis 
 } from '../services/continuousImprovementService';
+import { applyCodeUpdates } from '../services/autoUpdateService';
 
 // Context type definitions
 interface RecommendationContextType {
@@ -40,8 +41,8 @@ const RecommendationContext = createContext<RecommendationContextType>({
   getRecommendationsByPriority: () => []
 });
 
-// Provider component
-export const RecommendationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+// Provider component; with a project, its code updates are included and can be applied
+export const RecommendationProvider: React.FC<{ children: ReactNode; projectId?: string }> = ({ children, projectId }) => {
   const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
   const [loadingRecommendations, setLoadingRecommendations] = useState<boolean>(false);
   
@@ -61,13 +62,13 @@ export const RecommendationProvider: React.FC<{ children: ReactNode }> = ({ chil
     return () => {
       cancelScheduledAnalysis();
     };
-  }, []);
+  }, [projectId]);
   
   // Refresh recommendations
   const refreshRecommendations = async () => {
     setLoadingRecommendations(true);
     try {
-      const newRecommendations = await runFullAnalysis();
+      const newRecommendations = await runFullAnalysis(projectId);
       
       // Merge with existing recommendations to preserve status
       const mergedRecommendations = mergeRecommendations(recommendations, newRecommendations);
@@ -155,14 +156,17 @@ export const RecommendationProvider: React.FC<{ children: ReactNode }> = ({ chil
     const recommendation = recommendations.find(rec => rec.id === id);
     if (!recommendation) return false;
     
-    // In a real implementation, this would actually apply the changes
-    // For now, we'll just simulate implementation
-    
     toast.info(`Implementing: ${recommendation.title}`);
     
     try {
-      // Simulate implementation delay
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      if (recommendation.codeUpdate && recommendation.projectId) {
+        // Apply the code change as a new project revision; conflicts leave the recommendation pending
+        const result = await applyCodeUpdates(recommendation.projectId, [recommendation.codeUpdate]);
+        if (!result.success) return false;
+      } else {
+        // Simulate implementation delay
+        await new Promise(resolve => setTimeout(resolve, 3000));
+      }
       
       // Update recommendation status
       setRecommendations(prevRecs => 
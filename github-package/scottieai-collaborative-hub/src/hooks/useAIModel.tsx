@@ -14,14 +14,16 @@ import {
 } from '@/utils/modelUtils';
 import { SupportedLanguage, useTranslation } from '@/utils/i18nUtils';
 import { safeInference } from '@/utils/tensorflowUtils';
+import { runModel, RunnableModel } from '@/utils/modelRuntime';
+import { resolveModelVersion } from '@/services/modelRegistryService';
 
 interface UseAIModelResult {
   isInitialized: boolean;
   isLoading: boolean;
   loadingProgress: number;
   error: string | null;
-  model: tf.LayersModel | null;
-  loadModel: (modelId: string, language?: SupportedLanguage) => Promise<tf.LayersModel | null>;
+  model: RunnableModel | null;
+  loadModel: (modelId: string, language?: SupportedLanguage) => Promise<RunnableModel | null>;
   runInference: (input: tf.Tensor | number[][]) => Promise<tf.Tensor | null>;
   testModelAccuracy: (testData: number[][], expectedOutputs: number[][]) => Promise<number>;
   availableModels: AIModelConfig[];
@@ -40,7 +42,7 @@ export const useAIModel = (): UseAIModelResult => {
   const [isLoading, setIsLoading] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
-  const [model, setModel] = useState<tf.LayersModel | null>(null);
+  const [model, setModel] = useState<RunnableModel | null>(null);
   const [modelId, setModelId] = useState<string | null>(null);
   const { language: currentLanguage, setLanguage } = useTranslation();
   const [supportedLanguages, setSupportedLanguages] = useState<SupportedLanguage[]>(['en']);
@@ -109,15 +111,15 @@ export const useAIModel = (): UseAIModelResult => {
       // Use current language if not specified
       const modelLanguage = language || currentLanguage;
       
-      // Find model config to check supported languages
-      const modelConfig = availableModels.find(model => model.id === id);
+      // Find the registered version to check supported languages
+      const modelConfig = await resolveModelVersion(id);
       if (modelConfig?.supportedLanguages) {
         setSupportedLanguages(modelConfig.supportedLanguages);
       } else {
         setSupportedLanguages(['en']);
       }
       
-      const loadedModel = await loadModelById(id, modelLanguage) as tf.LayersModel;
+      const loadedModel = await loadModelById(id, modelLanguage) as RunnableModel;
       if (!loadedModel) {
         throw new Error(`Failed to load model with ID: ${id} for language: ${modelLanguage}`);
       }
@@ -165,7 +167,7 @@ export const useAIModel = (): UseAIModelResult => {
       const expectedTensor = tf.tensor(expectedOutputs);
       
       // Run predictions
-      const outputTensor = model.predict(inputTensor) as tf.Tensor;
+      const outputTensor = await runModel(model, inputTensor);
       
       // Calculate accuracy (simplified - would be more sophisticated in real usage)
       const predictions = await outputTensor.array() as number[][];
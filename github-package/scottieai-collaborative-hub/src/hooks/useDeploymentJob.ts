@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { DeploymentJob } from '@/types/deployment';
+import { getDeploymentJob, subscribeToDeploymentJob } from '@/services/deploymentJobService';
+
+/**
+ * Custom hook following a deployment job as its phase and log change
+ * @param jobId The job to follow, or null for none
+ */
+export function useDeploymentJob(jobId: string | null) {
+  const [job, setJob] = useState<DeploymentJob | null>(() => (jobId ? getDeploymentJob(jobId) : null));
+
+  useEffect(() => {
+    if (!jobId) {
+      setJob(null);
+      return;
+    }
+
+    setJob(getDeploymentJob(jobId));
+    return subscribeToDeploymentJob(jobId, setJob);
+  }, [jobId]);
+
+  return job;
+}
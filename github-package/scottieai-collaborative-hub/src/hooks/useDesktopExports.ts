@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DesktopExportJob } from '@/types/export';
+import { getDesktopExportHistory, subscribeToDesktopExports } from '@/services/desktopExportService';
+
+/**
+ * Custom hook loading a project's desktop export history, kept current as
+ * queued exports run
+ * @param projectId The project whose exports to load
+ * @param enabled Load only while true, e.g. while a dialog is open
+ */
+export function useDesktopExports(projectId: string, enabled = true) {
+  const [exports, setExports] = useState<DesktopExportJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    getDesktopExportHistory(projectId).then(history => {
+      if (cancelled) return;
+      setExports(history);
+      setIsLoading(false);
+    });
+
+    const stop = subscribeToDesktopExports(job => {
+      if (job.projectId !== projectId) return;
+      setExports(current => current.some(entry => entry.id === job.id)
+        ? current.map(entry => (entry.id === job.id ? job : entry))
+        : [job, ...current]);
+    });
+
+    return () => {
+      cancelled = true;
+      stop();
+    };
+  }, [projectId, enabled, version]);
+
+  const reload = useCallback(() => setVersion(current => current + 1), []);
+
+  return { exports, isLoading, reload };
+}
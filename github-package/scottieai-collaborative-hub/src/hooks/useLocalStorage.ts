@@ -0,0 +1,32 @@
+import { useCallback, useState } from 'react';
+
+/**
+ * Custom hook for state persisted to localStorage
+ * @param key The storage key
+ * @param initialValue Value used when nothing is stored or the stored value is unreadable
+ */
+export function useLocalStorage<T>(key: string, initialValue: T) {
+  const [storedValue, setStoredValue] = useState<T>(() => {
+    try {
+      const item = window.localStorage.getItem(key);
+      return item ? JSON.parse(item) : initialValue;
+    } catch (error) {
+      console.error(`Error reading localStorage key "${key}":`, error);
+      return initialValue;
+    }
+  });
+
+  const setValue = useCallback((value: T | ((previous: T) => T)) => {
+    setStoredValue(previous => {
+      const nextValue = value instanceof Function ? value(previous) : value;
+      try {
+        window.localStorage.setItem(key, JSON.stringify(nextValue));
+      } catch (error) {
+        console.error(`Error writing localStorage key "${key}":`, error);
+      }
+      return nextValue;
+    });
+  }, [key]);
+
+  return [storedValue, setValue] as const;
+}
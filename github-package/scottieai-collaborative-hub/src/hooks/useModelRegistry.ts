@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+import { RegisteredModel } from '@/types/modelRegistry';
+import { getRegisteredModels } from '@/services/modelRegistryService';
+import { importLegacyUserModels } from '@/services/aiModelService';
+
+/**
+ * Custom hook loading every model in the registry with its versions
+ */
+export function useModelRegistry() {
+  const [models, setModels] = useState<RegisteredModel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    // Models trained before versioning show up once they're imported
+    importLegacyUserModels().then(getRegisteredModels).then(registered => {
+      if (cancelled) return;
+      setModels(registered);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  const reload = useCallback(() => setVersion(current => current + 1), []);
+
+  return { models, isLoading, reload };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ModelTestSuite } from '@/types/modelTesting';
+import { getModelTestSuites } from '@/services/modelTestSuiteService';
+
+/**
+ * Custom hook loading the latest version of each test suite saved for a model
+ * @param modelId The model whose suites to load; nothing loads while null
+ */
+export function useModelTestSuites(modelId: string | null) {
+  const [suites, setSuites] = useState<ModelTestSuite[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    setSuites([]);
+    if (!modelId) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    getModelTestSuites(modelId).then(saved => {
+      if (cancelled) return;
+      setSuites(saved);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [modelId, version]);
+
+  const reload = useCallback(() => setVersion(current => current + 1), []);
+
+  return { suites, isLoading, reload };
+}
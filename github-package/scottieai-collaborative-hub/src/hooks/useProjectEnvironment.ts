@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from 'react';
+import { EnvironmentName, EnvironmentVariable } from '@/types/deployment';
+import {
+  environmentHasSecrets,
+  getProjectEnvironment,
+  isEnvironmentUnlocked,
+  lockEnvironmentSecrets
+} from '@/services/environmentService';
+
+/**
+ * Custom hook loading a project environment with its secrets decrypted
+ * @param projectId The project the environment belongs to
+ * @param environment The environment to load
+ * @param enabled Load only while true, e.g. while a dialog is open
+ */
+export function useProjectEnvironment(projectId: string, environment: EnvironmentName, enabled = true) {
+  const [variables, setVariables] = useState<EnvironmentVariable[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLocked, setIsLocked] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const loadEnvironment = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      // Secrets can't be read until the user enters their passphrase
+      if (!isEnvironmentUnlocked() && await environmentHasSecrets(projectId, environment)) {
+        if (cancelled) return;
+        setVariables([]);
+        setIsLocked(true);
+        setIsLoading(false);
+        return;
+      }
+
+      try {
+        const loaded = await getProjectEnvironment(projectId, environment);
+        if (cancelled) return;
+        setVariables(loaded);
+        setIsLocked(false);
+      } catch (loadError) {
+        console.error('Error loading project environment:', loadError);
+        if (cancelled) return;
+
+        // A wrong passphrase derives a key that can't decrypt anything, so drop it
+        if (isEnvironmentUnlocked() && await environmentHasSecrets(projectId, environment)) {
+          lockEnvironmentSecrets();
+          setIsLocked(true);
+        }
+        setVariables([]);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load environment');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadEnvironment();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, environment, enabled, version]);
+
+  const reload = useCallback(() => setVersion(current => current + 1), []);
+
+  return { variables, setVariables, isLoading, isLocked, error, reload };
+}
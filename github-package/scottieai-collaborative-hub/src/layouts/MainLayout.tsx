@@ -1,9 +1,14 @@
 import React from 'react';
-import { Outlet } from 'react-router-dom';
+import { Outlet, useMatch } from 'react-router-dom';
 import { Sidebar } from '../components/layout/Sidebar';
 import { Header } from '../components/layout/Header';
+import ChatInterface from '../components/features/ChatInterface';
 
 export const MainLayout: React.FC = () => {
+  // Conversations started from a project page are attached to that project
+  const projectMatch = useMatch('/projects/:id');
+  const projectId = projectMatch?.params.id;
+
   return (
     <div className="flex h-screen">
       <Sidebar className="w-64 hidden md:block" />
@@ -13,6 +18,11 @@ export const MainLayout: React.FC = () => {
           <Outlet />
         </main>
       </div>
+      <ChatInterface
+        projectId={projectId}
+        contextType={projectId ? 'project' : 'general'}
+        contextData={projectId ? { projectId } : undefined}
+      />
     </div>
   );
 };
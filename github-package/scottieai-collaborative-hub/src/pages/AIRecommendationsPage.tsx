@@ -1,11 +1,14 @@
 import React from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { RecommendationProvider } from '../contexts/RecommendationContext';
 import { RecommendationPanel } from '../components/features/RecommendationPanel';
 import { PageHeader } from '../components/ui/page-header';
 
 export const AIRecommendationsPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+
   return (
-    <RecommendationProvider>
+    <RecommendationProvider projectId={searchParams.get('project') || undefined}>
       <div className="container mx-auto py-8">
         <PageHeader
           title="AI Recommendations"
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, FileCode, Files, History, KeyRound, Languages, Lightbulb, ListOrdered, Rocket, Upload } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { ScrollArea } from '../components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
+import ProjectFileTree, { FileStats } from '../components/features/ProjectFileTree';
+import CodeViewer from '../components/features/CodeViewer';
+import RevisionHistory from '../components/features/RevisionHistory';
+import DeploymentHistory from '../components/features/DeploymentHistory';
+import ProjectEnvironments from '../components/features/ProjectEnvironments';
+import ContainerExportDialog from '../components/features/ContainerExportDialog';
+import DesktopExportDialog from '../components/features/DesktopExportDialog';
+import { Project } from '../components/features/ProjectCard';
+import { useAuth } from '../contexts/AuthContext';
+import { getProjectById } from '../services/projectService';
+import { getProjectFiles } from '../services/fileProcessingService';
+import { ArchiveEntry, buildFileTree } from '../utils/archiveUtils';
+import { computeLanguageStatistics, countLines, detectLanguage } from '../utils/technologyDetection';
+
+export const ProjectDetailPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const [project, setProject] = useState<Project | null>(null);
+  const [files, setFiles] = useState<ArchiveEntry[]>([]);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isError, setIsError] = useState(false);
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+    }
+  }, [user, navigate]);
+
+  // Load project details and unpack its code package
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+
+    const loadProject = async () => {
+      setIsLoading(true);
+      setIsError(false);
+
+      const [projectData, projectFiles] = await Promise.all([
+        getProjectById(id),
+        getProjectFiles(id)
+      ]);
+
+      if (cancelled) return;
+
+      setProject(projectData);
+      setFiles(projectFiles || []);
+      setIsError(!projectData || !projectFiles);
+      setIsLoading(false);
+    };
+
+    loadProject();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const fileTree = useMemo(() => buildFileTree(files), [files]);
+
+  const fileStats = useMemo(() => {
+    const stats: Record<string, FileStats> = {};
+    for (const file of files) {
+      stats[file.path] = {
+        language: detectLanguage(file.path),
+        lines: file.content !== null ? countLines(file.content) : null
+      };
+    }
+    return stats;
+  }, [files]);
+
+  const languageStats = useMemo(() => computeLanguageStatistics(files), [files]);
+
+  const totalLines = useMemo(
+    () => Object.values(fileStats).reduce((total, stats) => total + (stats.lines || 0), 0),
+    [fileStats]
+  );
+
+  const selectedFile = files.find(file => file.path === selectedPath) || null;
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <div className="container mx-auto px-4 py-8 flex-1">
+        <div className="mb-6">
+          <Button variant="ghost" asChild>
+            <Link to="/projects" className="flex items-center text-muted-foreground hover:text-foreground">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Projects
+            </Link>
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <p>Loading project files...</p>
+          </div>
+        ) : isError ? (
+          <div className="text-center py-12">
+            <p className="text-red-500 mb-4">Failed to load project files</p>
+            <Button onClick={() => window.location.reload()}>
+              Try Again
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="mb-8">
+              <div className="flex justify-between items-start">
+                <h1 className="text-3xl font-bold mb-2">{project.name}</h1>
+                <div className="flex gap-2">
+                  <ContainerExportDialog projectId={project.id} />
+                  <DesktopExportDialog projectId={project.id} />
+                  <Button variant="outline" asChild>
+                    <Link to={`/ai-recommendations?project=${project.id}`}>
+                      <Lightbulb className="mr-2 h-4 w-4" />
+                      Recommendations
+                    </Link>
+                  </Button>
+                  <Button variant="outline" asChild>
+                    <Link to={`/upload?project=${project.id}`}>
+                      <Upload className="mr-2 h-4 w-4" />
+                      Upload New Revision
+                    </Link>
+                  </Button>
+                </div>
+              </div>
+              <p className="text-muted-foreground">{project.description}</p>
+              <div className="flex flex-wrap gap-2 mt-4">
+                {project.technologies.map(tech => (
+                  <Badge key={tech} variant="outline" className="bg-scottie-light/20">
+                    {tech}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-2xl flex items-center">
+                    <Files className="mr-2 h-5 w-5" />
+                    {files.length}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-muted-foreground">Files</p>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-2xl flex items-center">
+                    <ListOrdered className="mr-2 h-5 w-5" />
+                    {totalLines.toLocaleString()}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-muted-foreground">Lines of Text</p>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-2xl flex items-center">
+                    <Languages className="mr-2 h-5 w-5" />
+                    {languageStats.length}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 text-sm text-muted-foreground">
+                    {languageStats.length === 0
+                      ? 'No source languages detected'
+                      : languageStats.map(stat => (
+                          <span key={stat.language}>
+                            {stat.language} {stat.percentage}%
+                          </span>
+                        ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Tabs defaultValue="files">
+              <TabsList className="mb-6">
+                <TabsTrigger value="files" className="flex items-center">
+                  <FileCode className="mr-2 h-4 w-4" />
+                  Files
+                </TabsTrigger>
+                <TabsTrigger value="history" className="flex items-center">
+                  <History className="mr-2 h-4 w-4" />
+                  History
+                </TabsTrigger>
+                <TabsTrigger value="deployments" className="flex items-center">
+                  <Rocket className="mr-2 h-4 w-4" />
+                  Deployments
+                </TabsTrigger>
+                <TabsTrigger value="environments" className="flex items-center">
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  Environments
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="files">
+                <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+                  <div className="lg:col-span-1 border rounded-lg bg-card">
+                    <ScrollArea className="h-[600px]">
+                      <ProjectFileTree
+                        nodes={fileTree}
+                        fileStats={fileStats}
+                        selectedPath={selectedPath}
+                        onSelect={setSelectedPath}
+                      />
+                    </ScrollArea>
+                  </div>
+
+                  <div className="lg:col-span-3">
+                    {selectedFile ? (
+                      <CodeViewer file={selectedFile} className="max-h-[600px]" />
+                    ) : (
+                      <div className="flex flex-col items-center justify-center h-[600px] border rounded-lg bg-card text-muted-foreground">
+                        <FileCode className="h-12 w-12 mb-4" />
+                        <p>Select a file to view its contents</p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="history">
+                <RevisionHistory projectId={project.id} projectName={project.name} />
+              </TabsContent>
+
+              <TabsContent value="deployments">
+                <DeploymentHistory projectId={project.id} />
+              </TabsContent>
+
+              <TabsContent value="environments">
+                <ProjectEnvironments projectId={project.id} projectName={project.name} />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectDetailPage;
@@ -1,11 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { toast } from "sonner";
 import { ArrowLeft, Code2, Zap, Brain, Cog, Sparkles, Cpu, BarChart, Download } from 'lucide-react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '../components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
 import { Alert, AlertDescription, AlertTitle } from '../components/ui/alert';
+import { Label } from '../components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import UploadSection from '../components/features/UploadSection';
+import { Project } from '../components/features/ProjectCard';
 import { useAuth } from '../contexts/AuthContext';
+import { processCodePackage } from '../services/fileProcessingService';
+import { getUserProjects } from '../services/projectService';
+
+// Select value for uploading the package as a brand-new project
+const NEW_PROJECT = 'new';
 
 export const UploadPage = () => {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
@@ -20,6 +29,9 @@ export const UploadPage = () => {
   const [windowsPackageUrl, setWindowsPackageUrl] = useState<string | null>(null);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('upload');
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [searchParams] = useSearchParams();
+  const [targetProjectId, setTargetProjectId] = useState(searchParams.get('project') || NEW_PROJECT);
   const { user } = useAuth();
   const navigate = useNavigate();
   
@@ -30,6 +42,17 @@ export const UploadPage = () => {
     }
   }, [user, navigate]);
   
+  // Load existing projects so a package can be uploaded as a new revision
+  useEffect(() => {
+    if (!user) return;
+    
+    const loadProjects = async () => {
+      setProjects(await getUserProjects());
+    };
+    
+    loadProjects();
+  }, [user]);
+  
   const handleFileUpload = (file: File) => {
     setUploadedFile(file);
     
@@ -62,10 +85,23 @@ export const UploadPage = () => {
     }, 500);
     
     try {
-      // Simulate processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      const processed = await processCodePackage(
+        uploadedFile,
+        targetProjectId === NEW_PROJECT ? undefined : targetProjectId
+      );
       
       clearInterval(progressInterval);
+      
+      if (!processed) {
+        setProcessingProgress(0);
+        setIsProcessing(false);
+        setIsLearning(false);
+        return;
+      }
+      
+      setCreatedProjectId(processed.id);
+      setAIModels(processed.aiModels || []);
+      setProcessingSteps(processed.processingSteps || []);
       setProcessingProgress(100);
       setIsProcessing(false);
       setProcessComplete(true);
@@ -87,7 +123,7 @@ export const UploadPage = () => {
   
   const handleViewProject = () => {
     if (createdProjectId) {
-      navigate('/projects');
+      navigate(`/projects/${createdProjectId}`);
     }
   };
   
@@ -139,16 +175,32 @@ export const UploadPage = () => {
             </TabsList>
             
             <TabsContent value="upload" className="space-y-6">
-              <div className="bg-card rounded-lg border p-6">
-                <h2 className="text-xl font-semibold mb-4">Upload Your Code Package</h2>
-                <div className="border-2 border-dashed rounded-lg p-8 text-center">
-                  <div className="mb-4">
-                    <Code2 className="h-12 w-12 mx-auto text-muted-foreground" />
-                  </div>
-                  <p className="mb-4">Drag and drop your code package here, or click to browse</p>
-                  <Button>Select File</Button>
-                </div>
+              <div className="bg-card rounded-lg border p-6 space-y-2">
+                <Label htmlFor="upload-target">Upload as</Label>
+                <Select value={targetProjectId} onValueChange={setTargetProjectId}>
+                  <SelectTrigger id="upload-target">
+                    <SelectValue placeholder="Select a project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NEW_PROJECT}>New project</SelectItem>
+                    {projects.map(project => (
+                      <SelectItem key={project.id} value={project.id}>
+                        New revision of {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
+              
+              <UploadSection
+                uploadedFile={uploadedFile}
+                isProcessing={isProcessing}
+                processComplete={processComplete}
+                processingProgress={processingProgress}
+                onFileUpload={handleFileUpload}
+                onProcess={handleProcess}
+                onViewProject={handleViewProject}
+              />
             </TabsContent>
             
             <TabsContent value="ai-process" className="space-y-6">
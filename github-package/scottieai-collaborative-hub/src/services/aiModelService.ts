@@ -11,12 +11,26 @@ import {
   unloadModels
 } from '@/utils/modelUtils';
 import { SupportedLanguage } from '@/utils/i18nUtils';
+import { formatModelSize, getLayersModelSignature, nextVersion } from '@/utils/modelVersionUtils';
 import { supabase } from '@/lib/supabase';
+import {
+  deleteModelVersion,
+  getRegisteredModel,
+  getRegisteredModels,
+  registerModelVersion,
+  resolveModelVersion
+} from './modelRegistryService';
+import { loadModelArtifact, removeModelArtifact, uploadModelArtifact } from './modelArtifactStore';
+import { RunnableModel } from '@/utils/modelRuntime';
+import { ModelVersion, ModelVersionDraft, RegisteredModel } from '@/types/modelRegistry';
 
 // Service initialization status
 let isInitialized = false;
 const loadingStatus: Record<string, ModelLoadingStatus> = {};
 
+// Registered versions loaded so far, by version id
+const userModelCache = new Map<string, RunnableModel>();
+
 /**
  * Initialize the AI model service
  */
@@ -64,10 +78,12 @@ export const getModelLoadingStatus = (modelId: string): ModelLoadingStatus => {
 
 /**
  * Load a specific model by ID with language support
+ * @param version A registered version; defaults to the production version
  */
 export const loadModelById = async (
   modelId: string, 
-  language: SupportedLanguage = 'en'
+  language: SupportedLanguage = 'en',
+  version?: string
 ): Promise<any> => {
   try {
     if (!isInitialized) {
@@ -77,7 +93,22 @@ export const loadModelById = async (
     
     // Find the model configuration
     const modelConfig = availableModels.find(model => model.id === modelId);
-    if (!modelConfig) throw new Error(`Model with ID ${modelId} not found`);
+    if (!modelConfig) {
+      // Trained and uploaded models load from the registry
+      if (!await resolveModelVersion(modelId, version)) {
+        throw new Error(`Model with ID ${modelId}${version ? ` v${version}` : ''} not found`);
+      }
+      loadingStatus[modelId] = { loaded: false, progress: 0 };
+      const model = await loadUserModel(modelId, version);
+      if (!model) throw new Error(`Failed to load model ${modelId}`);
+      
+      loadingStatus[modelId] = { loaded: true, progress: 100 };
+      logModelUsage(modelId, language);
+      return model;
+    }
+    if (version && version !== (modelConfig.version || '1.0.0')) {
+      throw new Error(`${modelConfig.name} is only available as v${modelConfig.version || '1.0.0'}`);
+    }
     
     // Initialize loading status
     loadingStatus[modelId] = { loaded: false, progress: 0 };
@@ -354,8 +385,11 @@ export const trainCustomPatternModel = async (
   options?: {
     progressCallback?: (progress: number) => void;
     language?: SupportedLanguage;
+    // Recorded in the registry as the version's training dataset
+    datasetName?: string;
+    parent?: ModelVersionDraft['parent'];
   }
-): Promise<{ success: boolean; model?: tf.LayersModel }> => {
+): Promise<{ success: boolean; model?: tf.LayersModel; version?: ModelVersion }> => {
   try {
     // Create a sequential model
     const model = tf.sequential();
@@ -411,12 +445,21 @@ export const trainCustomPatternModel = async (
     
     console.log('Custom pattern model trained successfully');
     
-    // Save model with language awareness
+    // Register the model as the next version, with language awareness
     const language = options?.language || 'en';
     const modelId = `custom_pattern_model`;
-    await saveModelToStorage(model, modelId, language);
+    const version = await saveModelToStorage(model, modelId, language, {
+      name: 'Custom Pattern Model',
+      description: 'Detects the patterns labelled in your project\'s code',
+      capabilities: ['Pattern Detection', 'Project-specific'],
+      trainingDataset: {
+        name: options?.datasetName || 'Labelled code samples',
+        sampleCount: trainingData.length
+      },
+      parent: options?.parent
+    });
     
-    return { success: true, model };
+    return { success: true, model, version: version || undefined };
   } catch (error) {
     console.error('Error training custom pattern model:', error);
     toast.error('Error training custom model. Please try again.');
@@ -425,74 +468,162 @@ export const trainCustomPatternModel = async (
 };
 
 /**
- * Save model to local storage (IndexedDB) with language support
+ * Upload a trained model, keep a copy in IndexedDB and register it as the
+ * model's next version
  */
 export const saveModelToStorage = async (
   model: tf.LayersModel, 
   modelId: string,
-  language: SupportedLanguage = 'en'
-): Promise<boolean> => {
+  language: SupportedLanguage = 'en',
+  details: Partial<Pick<ModelVersionDraft, 'name' | 'description' | 'capabilities' | 'trainingDataset' | 'parent' | 'bump'>> = {}
+): Promise<ModelVersion | null> => {
   try {
-    const cacheKey = getModelCacheKey(modelId, language);
-    const saveResult = await model.save(`indexeddb://${cacheKey}`);
-    console.log(`Model saved to IndexedDB with key ${cacheKey}:`, saveResult);
-    
-    // Log model creation
-    const { data: userData } = await supabase.auth.getUser();
-    if (userData.user) {
-      await supabase.from('user_models').insert({
-        user_id: userData.user.id,
-        model_id: modelId,
-        language: language,
-        created_at: new Date().toISOString(),
-        model_type: 'custom'
-      });
+    const current = await getRegisteredModel(modelId);
+    const version = nextVersion(current?.versions.map(entry => entry.version) || [], details.bump);
+    const artifactUri = `indexeddb://model-registry/${modelId}/${version}`;
+    
+    const saveResult = await model.save(artifactUri);
+    console.log(`Model saved to IndexedDB as ${artifactUri}:`, saveResult);
+    
+    // The uploaded copy is what other devices load; IndexedDB caches it here
+    let storagePath: string;
+    try {
+      storagePath = await uploadModelArtifact(modelId, version, { format: 'tfjs-layers', model });
+    } catch (error) {
+      await tf.io.removeModel(artifactUri);
+      throw error;
     }
     
-    return true;
+    const registered = await registerModelVersion({
+      modelId,
+      name: details.name || current?.name || modelId,
+      description: details.description ?? current?.description,
+      source: 'trained',
+      artifactUri,
+      storagePath,
+      version,
+      size: formatModelSize(saveResult.modelArtifactsInfo.weightDataBytes || 0),
+      capabilities: details.capabilities,
+      supportedLanguages: [language],
+      signature: getLayersModelSignature(model),
+      trainingDataset: details.trainingDataset,
+      parent: details.parent
+    });
+    
+    // Don't leave an artifact behind that nothing refers to
+    if (!registered) {
+      await removeModelArtifact('tfjs-layers', artifactUri, storagePath);
+    }
+    return registered;
   } catch (error) {
-    console.error('Error saving model to IndexedDB:', error);
-    return false;
+    console.error('Error saving model:', error);
+    return null;
   }
 };
 
 /**
- * Get user's custom models
+ * Get user's trained and uploaded models from the registry
  */
-export const getUserModels = async (): Promise<{id: string, language: SupportedLanguage, created_at: string}[]> => {
-  try {
-    const { data: userData } = await supabase.auth.getUser();
-    if (!userData.user) return [];
-    
-    const { data, error } = await supabase
+export const getUserModels = async (): Promise<RegisteredModel[]> => {
+  const models = await getRegisteredModels();
+  return models.filter(model => model.source !== 'built-in');
+};
+
+// Set per user once every model trained before the registry has been imported
+const LEGACY_IMPORT_KEY = 'legacy_models_imported';
+let legacyImport: Promise<number> | null = null;
+
+const runLegacyImport = async (): Promise<number> => {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return 0;
+
+  const importedKey = `${LEGACY_IMPORT_KEY}_${userData.user.id}`;
+  if (localStorage.getItem(importedKey)) return 0;
+
+  const { data, error } = await supabase
+    .from('user_models')
+    .select('model_id, language, created_at')
+    .eq('user_id', userData.user.id)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  // Only the browser a model was trained in has its weights
+  const stored = await tf.io.listModels();
+  let imported = 0;
+  let remaining = 0;
+
+  for (const row of data || []) {
+    const language = row.language as SupportedLanguage;
+    const legacyUri = `indexeddb://${getModelCacheKey(row.model_id, language)}`;
+    if (!stored[legacyUri] || availableModels.some(model => model.id === row.model_id)) continue;
+
+    const model = await tf.loadLayersModel(legacyUri);
+    const registered = await saveModelToStorage(model, row.model_id, language, {
+      name: row.model_id.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+      description: `Trained ${new Date(row.created_at).toLocaleDateString()}, before models were versioned`
+    });
+    model.dispose();
+
+    if (!registered) {
+      remaining++;
+      continue;
+    }
+
+    await tf.io.removeModel(legacyUri);
+    await supabase
       .from('user_models')
-      .select('model_id, language, created_at')
+      .delete()
       .eq('user_id', userData.user.id)
-      .order('created_at', { ascending: false });
-      
-    if (error) throw error;
-    
-    return data.map(item => ({
-      id: item.model_id,
-      language: item.language as SupportedLanguage,
-      created_at: item.created_at
-    }));
-  } catch (error) {
-    console.error('Error fetching user models:', error);
-    return [];
+      .eq('model_id', row.model_id)
+      .eq('language', row.language);
+    imported++;
+  }
+
+  // Try again next time for models that failed to register
+  if (remaining === 0) {
+    localStorage.setItem(importedKey, new Date().toISOString());
   }
+  return imported;
 };
 
 /**
- * Load a user's custom model
+ * Import models trained before the registry existed. Each user_models row
+ * whose weights are in this browser is registered as version 1.0.0 of its
+ * model (other languages of the same model as the following versions),
+ * then the row and the old IndexedDB entry are removed.
+ * @returns How many models were imported
+ */
+export const importLegacyUserModels = (): Promise<number> => {
+  if (!legacyImport) {
+    legacyImport = runLegacyImport().catch(error => {
+      console.error('Error importing models trained before versioning:', error);
+      legacyImport = null;
+      return 0;
+    });
+  }
+  return legacyImport;
+};
+
+/**
+ * Load a version of a user's model
+ * @param version Defaults to the production version, or the newest one
  */
 export const loadUserModel = async (
   modelId: string,
-  language: SupportedLanguage = 'en'
-): Promise<tf.LayersModel | null> => {
+  version?: string
+): Promise<RunnableModel | null> => {
   try {
-    const cacheKey = getModelCacheKey(modelId, language);
-    const model = await tf.loadLayersModel(`indexeddb://${cacheKey}`);
+    const registered = await resolveModelVersion(modelId, version);
+    if (!registered) {
+      throw new Error(`Model ${modelId}${version ? ` v${version}` : ''} is not registered`);
+    }
+    
+    const cached = userModelCache.get(registered.id);
+    if (cached) return cached;
+    
+    // TF.js layers and graph models, or an ONNX Runtime session
+    const model = await loadModelArtifact(registered.format, registered.artifactUri, registered.storagePath);
+    userModelCache.set(registered.id, model);
     return model;
   } catch (error) {
     console.error(`Error loading user model ${modelId}:`, error);
@@ -502,30 +633,31 @@ export const loadUserModel = async (
 };
 
 /**
- * Delete a user's custom model
+ * Delete a version of a user's model, with its stored artifact
  */
 export const deleteUserModel = async (
   modelId: string,
-  language: SupportedLanguage = 'en'
+  version: string
 ): Promise<boolean> => {
   try {
-    const cacheKey = getModelCacheKey(modelId, language);
+    const registered = await resolveModelVersion(modelId, version);
+    if (!registered || registered.source === 'built-in') {
+      throw new Error(`Model ${modelId} v${version} is not a custom model`);
+    }
     
-    // Delete from IndexedDB
-    await tf.io.removeModel(`indexeddb://${cacheKey}`);
+    // Delete from storage and this browser's IndexedDB
+    userModelCache.get(registered.id)?.dispose();
+    userModelCache.delete(registered.id);
+    if (registered.artifactUri.startsWith('indexeddb://')) {
+      await removeModelArtifact(registered.format, registered.artifactUri, registered.storagePath);
+    }
     
-    // Delete from database
-    const { data: userData } = await supabase.auth.getUser();
-    if (userData.user) {
-      await supabase
-        .from('user_models')
-        .delete()
-        .eq('user_id', userData.user.id)
-        .eq('model_id', modelId)
-        .eq('language', language);
+    // Delete from the registry
+    if (!await deleteModelVersion(modelId, version)) {
+      throw new Error('Could not remove the version from the registry');
     }
     
-    toast.success('Custom model deleted successfully');
+    toast.success(`${registered.name} v${version} deleted successfully`);
     return true;
   } catch (error) {
     console.error(`Error deleting user model ${modelId}:`, error);
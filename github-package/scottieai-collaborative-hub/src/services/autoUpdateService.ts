@@ -2,6 +2,33 @@ import { useState, useEffect } from 'react';
 import { AutoUpdateSettings, CodeAnalysisResult, TechnologyUpdate, CodeUpdateRecommendation } from '@/types/llm';
 import { supabase } from '@/lib/supabase';
 import { toast } from 'sonner';
+import { downloadProjectArchive, getProjectFiles } from '@/services/fileProcessingService';
+import {
+  createProjectRevision,
+  ProjectRevision,
+  rollbackProjectRevision,
+  saveRevisionAnalysis
+} from '@/services/projectService';
+import { AnalysisRule, runStaticAnalysis } from '@/utils/staticAnalyzer';
+import { defaultAnalysisRules } from '@/utils/analysisRules';
+import { extractArchive, isExtractableArchive, repackArchive } from '@/utils/archiveUtils';
+import { FileDiff, formatUnifiedDiff } from '@/utils/diffUtils';
+import { buildPatchSet, PatchConflict, PatchSet } from '@/utils/recommendationPatch';
+
+export interface CodeUpdatePreview {
+  diffs: FileDiff[];
+  unifiedDiff: string;
+  conflicts: PatchConflict[];
+  applicable: string[];
+  skipped: string[];
+}
+
+export interface CodeUpdateResult {
+  success: boolean;
+  revision: ProjectRevision | null;
+  applied: string[];
+  conflicts: PatchConflict[];
+}
 
 // Default auto-update settings
 export const defaultAutoUpdateSettings: AutoUpdateSettings = {
@@ -14,125 +41,83 @@ export const defaultAutoUpdateSettings: AutoUpdateSettings = {
   excludedDependencies: [],
 };
 
-/**
- * Analyze project code for potential updates and improvements
- */
-export const analyzeProjectCode = async (
+// Load the signed-in user's project and run the static analyzer over its code
+const analyzeProjectFiles = async (
   projectId: string,
-  settings: AutoUpdateSettings = defaultAutoUpdateSettings
-): Promise<CodeAnalysisResult> => {
-  try {
-    // Get user information
-    const { data: userData, error: userError } = await supabase.auth.getUser();
-    if (userError || !userData.user) {
-      throw new Error('User not authenticated');
-    }
+  settings: AutoUpdateSettings,
+  rules: AnalysisRule[]
+) => {
+  // Get user information
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData.user) {
+    throw new Error('User not authenticated');
+  }
 
-    // Get project information
-    const { data: project, error: projectError } = await supabase
-      .from('projects')
-      .select('*')
-      .eq('id', projectId)
-      .eq('user_id', userData.user.id)
-      .single();
+  // Get project information
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', projectId)
+    .eq('user_id', userData.user.id)
+    .single();
 
-    if (projectError || !project) {
-      throw new Error('Project not found or access denied');
-    }
+  if (projectError || !project) {
+    throw new Error('Project not found or access denied');
+  }
 
-    // In a real implementation, this would analyze the actual project files
-    // For now, we'll simulate the analysis with a delay and mock data
-    await new Promise(resolve => setTimeout(resolve, 3000));
+  // Unpack the project's code package and run the static analyzer over it
+  const files = await getProjectFiles(projectId);
+  if (!files) {
+    throw new Error('Project files could not be loaded');
+  }
 
-    // Generate mock analysis results
-    const mockRecommendations: CodeUpdateRecommendation[] = [
-      {
-        id: '1',
-        title: 'Update React to version 18.3',
-        description: 'React 18.3 includes performance improvements and bug fixes that would benefit your project.',
-        severity: 'medium',
-        category: 'dependency',
-        currentCode: '"react": "^18.2.0"',
-        suggestedCode: '"react": "^18.3.0"',
-        filePath: 'package.json',
-        estimatedEffort: 'minimal',
-        benefits: [
-          'Improved rendering performance',
-          'Better error handling',
-          'New hooks for state management'
-        ],
-        risks: [
-          'Minor breaking changes in useEffect behavior'
-        ],
-        createdAt: new Date()
-      },
-      {
-        id: '2',
-        title: 'Implement code splitting for ProjectsPage',
-        description: 'The ProjectsPage component is large and could benefit from code splitting to improve load times.',
-        severity: 'medium',
-        category: 'performance',
-        currentCode: 'import ProjectsPage from \'./pages/ProjectsPage\';',
-        suggestedCode: 'const ProjectsPage = lazy(() => import(\'./pages/ProjectsPage\'));',
-        filePath: 'src/App.tsx',
-        estimatedEffort: 'minimal',
-        benefits: [
-          'Reduced initial bundle size',
-          'Faster application startup',
-          'Improved user experience'
-        ],
-        risks: [
-          'Need to ensure Suspense fallback is in place'
-        ],
-        createdAt: new Date()
-      },
-      {
-        id: '3',
-        title: 'Add memoization to prevent unnecessary renders',
-        description: 'Several components are re-rendering unnecessarily. Adding React.memo or useMemo could improve performance.',
-        severity: 'low',
-        category: 'performance',
-        filePath: 'src/components/features/ProjectCard.tsx',
-        lineNumbers: [15, 45],
-        estimatedEffort: 'moderate',
-        benefits: [
-          'Reduced render operations',
-          'Smoother UI interactions',
-          'Lower CPU usage'
-        ],
-        risks: [
-          'Potential complexity in dependency arrays'
-        ],
-        createdAt: new Date()
-      }
-    ];
+  return {
+    userId: userData.user.id,
+    revisionId: project.current_revision_id as string | null,
+    result: runStaticAnalysis(files, settings, rules)
+  };
+};
 
-    // Generate mock analysis summary
-    const mockAnalysisResult: CodeAnalysisResult = {
-      recommendations: mockRecommendations,
-      summary: {
-        totalIssues: 12,
-        criticalIssues: 0,
-        outdatedDependencies: 5,
-        securityVulnerabilities: 1,
-        performanceIssues: 6,
-        codeQualityScore: 78
-      },
-      analyzedFiles: 42,
-      analyzedLines: 3567,
-      timestamp: new Date()
-    };
+/**
+ * Analyze project code without storing the results, for callers that only
+ * read it such as chat tools
+ */
+export const runProjectAnalysis = async (
+  projectId: string,
+  settings: AutoUpdateSettings = defaultAutoUpdateSettings,
+  rules: AnalysisRule[] = defaultAnalysisRules
+): Promise<CodeAnalysisResult> => {
+  const { result } = await analyzeProjectFiles(projectId, settings, rules);
+  return result;
+};
 
-    // Store analysis results in database
+/**
+ * Analyze project code for potential updates and improvements, and store the
+ * results against the analyzed revision
+ */
+export const analyzeProjectCode = async (
+  projectId: string,
+  settings: AutoUpdateSettings = defaultAutoUpdateSettings,
+  rules: AnalysisRule[] = defaultAnalysisRules
+): Promise<CodeAnalysisResult> => {
+  try {
+    const { userId, revisionId, result: analysisResult } = await analyzeProjectFiles(projectId, settings, rules);
+
+    // Store analysis results in database, keyed to the revision that was analyzed
     await supabase.from('code_analyses').insert({
       project_id: projectId,
-      user_id: userData.user.id,
-      results: mockAnalysisResult,
+      revision_id: revisionId,
+      user_id: userId,
+      results: analysisResult,
       settings,
       created_at: new Date().toISOString()
     });
 
-    return mockAnalysisResult;
+    if (revisionId) {
+      await saveRevisionAnalysis(revisionId, analysisResult);
+    }
+
+    return analysisResult;
   } catch (error) {
     console.error('Error analyzing project code:', error);
     toast.error('Failed to analyze project code');
@@ -247,12 +232,59 @@ export const getTechnologyUpdates = async (
 };
 
 /**
- * Apply recommended code updates
+ * Build the patch set for recommendations against the project's current package
+ */
+const buildProjectPatchSet = async (
+  projectId: string,
+  recommendations: CodeUpdateRecommendation[]
+): Promise<{ patchSet: PatchSet; archive: Blob; filePath: string }> => {
+  const download = await downloadProjectArchive(projectId);
+  if (!download) {
+    throw new Error('Project files could not be loaded');
+  }
+
+  if (!isExtractableArchive(download.filePath)) {
+    throw new Error('This archive format cannot be updated in the browser');
+  }
+
+  const files = await extractArchive(download.archive, download.filePath);
+  return { patchSet: buildPatchSet(recommendations, files), ...download };
+};
+
+/**
+ * Preview recommended code updates as unified diffs without changing the project
+ */
+export const previewCodeUpdates = async (
+  projectId: string,
+  recommendations: CodeUpdateRecommendation[]
+): Promise<CodeUpdatePreview | null> => {
+  try {
+    const { patchSet } = await buildProjectPatchSet(projectId, recommendations);
+
+    return {
+      diffs: patchSet.diffs,
+      unifiedDiff: formatUnifiedDiff(patchSet.diffs),
+      conflicts: patchSet.conflicts,
+      applicable: patchSet.applied,
+      skipped: patchSet.skipped
+    };
+  } catch (error) {
+    console.error('Error previewing code updates:', error);
+    toast.error('Failed to preview code updates');
+    return null;
+  }
+};
+
+/**
+ * Apply recommended code updates, storing the patched package as a new project revision.
+ * Recommendations whose target lines no longer match are reported as conflicts and left out.
  */
 export const applyCodeUpdates = async (
   projectId: string,
-  recommendationIds: string[]
-): Promise<boolean> => {
+  recommendations: CodeUpdateRecommendation[]
+): Promise<CodeUpdateResult> => {
+  const failed: CodeUpdateResult = { success: false, revision: null, applied: [], conflicts: [] };
+
   try {
     // Get user information
     const { data: userData, error: userError } = await supabase.auth.getUser();
@@ -260,39 +292,77 @@ export const applyCodeUpdates = async (
       throw new Error('User not authenticated');
     }
 
-    // Get project information
-    const { data: project, error: projectError } = await supabase
-      .from('projects')
-      .select('*')
-      .eq('id', projectId)
-      .eq('user_id', userData.user.id)
-      .single();
+    const { patchSet, archive, filePath } = await buildProjectPatchSet(projectId, recommendations);
 
-    if (projectError || !project) {
-      throw new Error('Project not found or access denied');
+    if (patchSet.applied.length === 0) {
+      toast.warning('None of the selected recommendations could be applied');
+      return { ...failed, conflicts: patchSet.conflicts };
     }
 
-    // In a real implementation, this would apply the actual code changes
-    // For now, we'll simulate with a delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    const patchedArchive = await repackArchive(archive, filePath, patchSet.changes);
+    const revision = await createProjectRevision(projectId, patchedArchive, 'code-update.zip', {
+      source: 'code-update',
+      description: `Applied ${patchSet.applied.length} code update${patchSet.applied.length === 1 ? '' : 's'}`
+    });
+
+    if (!revision) {
+      throw new Error('Failed to store updated project revision');
+    }
 
-    // Log the applied updates
+    // Log the applied updates together with the diff that was applied
+    const appliedAt = new Date().toISOString();
     await supabase.from('code_updates').insert(
-      recommendationIds.map(id => ({
-        project_id: projectId,
-        user_id: userData.user.id,
-        recommendation_id: id,
-        status: 'applied',
-        applied_at: new Date().toISOString()
-      }))
+      patchSet.applied.map(id => {
+        const recommendation = recommendations.find(rec => rec.id === id);
+        const diff = patchSet.diffs.filter(fileDiff => fileDiff.filePath === recommendation.filePath);
+
+        return {
+          project_id: projectId,
+          user_id: userData.user.id,
+          recommendation_id: id,
+          revision_id: revision.id,
+          diff: formatUnifiedDiff(diff),
+          status: 'applied',
+          applied_at: appliedAt
+        };
+      })
     );
 
-    toast.success(`Applied ${recommendationIds.length} code updates successfully`);
-    return true;
+    if (patchSet.conflicts.length > 0) {
+      toast.warning(`${patchSet.conflicts.length} updates conflicted with the current code and were skipped`);
+    }
+
+    toast.success(`Applied ${patchSet.applied.length} code updates as revision ${revision.revisionNumber}`);
+    return { success: true, revision, applied: patchSet.applied, conflicts: patchSet.conflicts };
   } catch (error) {
     console.error('Error applying code updates:', error);
     toast.error('Failed to apply code updates');
-    return false;
+    return failed;
+  }
+};
+
+/**
+ * Roll back the project to the revision before the last applied update.
+ * Refuses when the current revision is an upload rather than applied updates.
+ */
+export const rollbackCodeUpdates = async (projectId: string): Promise<ProjectRevision | null> => {
+  try {
+    const revision = await rollbackProjectRevision(projectId, true);
+    if (!revision) return null;
+
+    // Applied updates from rolled back revisions are no longer in effect
+    await supabase
+      .from('code_updates')
+      .update({ status: 'rolled-back' })
+      .eq('project_id', projectId)
+      .eq('status', 'applied')
+      .gt('applied_at', revision.created.toISOString());
+
+    return revision;
+  } catch (error) {
+    console.error('Error rolling back code updates:', error);
+    toast.error('Failed to roll back code updates');
+    return null;
   }
 };
 
@@ -397,6 +467,7 @@ export const useAutoUpdate = (projectId: string) => {
   const [isLoading, setIsLoading] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<CodeAnalysisResult | null>(null);
   const [technologyUpdates, setTechnologyUpdates] = useState<TechnologyUpdate[]>([]);
+  const [updateConflicts, setUpdateConflicts] = useState<PatchConflict[]>([]);
 
   // Load settings on mount
   useEffect(() => {
@@ -443,15 +514,32 @@ export const useAutoUpdate = (projectId: string) => {
     }
   };
 
+  // Preview updates
+  const previewUpdates = async (recommendationIds: string[]) => {
+    if (!projectId || !analysisResult || recommendationIds.length === 0) return null;
+
+    setIsLoading(true);
+    try {
+      const recommendations = analysisResult.recommendations.filter(rec => recommendationIds.includes(rec.id));
+      const preview = await previewCodeUpdates(projectId, recommendations);
+      setUpdateConflicts(preview ? preview.conflicts : []);
+      return preview;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Apply updates
   const applyUpdates = async (recommendationIds: string[]) => {
-    if (!projectId || recommendationIds.length === 0) return false;
+    if (!projectId || !analysisResult || recommendationIds.length === 0) return false;
     
     setIsLoading(true);
     try {
-      const success = await applyCodeUpdates(projectId, recommendationIds);
+      const recommendations = analysisResult.recommendations.filter(rec => recommendationIds.includes(rec.id));
+      const result = await applyCodeUpdates(projectId, recommendations);
+      setUpdateConflicts(result.conflicts);
       
-      if (success) {
+      if (result.success) {
         // Remove applied recommendations from the current result
         setAnalysisResult(prev => {
           if (!prev) return null;
@@ -459,17 +547,17 @@ export const useAutoUpdate = (projectId: string) => {
           return {
             ...prev,
             recommendations: prev.recommendations.filter(
-              rec => !recommendationIds.includes(rec.id)
+              rec => !result.applied.includes(rec.id)
             ),
             summary: {
               ...prev.summary,
-              totalIssues: prev.summary.totalIssues - recommendationIds.length
+              totalIssues: prev.summary.totalIssues - result.applied.length
             }
           };
         });
       }
       
-      return success;
+      return result.success;
     } catch (error) {
       console.error('Error applying updates:', error);
       return false;
@@ -478,6 +566,24 @@ export const useAutoUpdate = (projectId: string) => {
     }
   };
 
+  // Roll back the last applied updates
+  const rollbackUpdates = async () => {
+    if (!projectId) return false;
+
+    setIsLoading(true);
+    try {
+      const revision = await rollbackCodeUpdates(projectId);
+      if (revision) {
+        // Recommendations were computed against the rolled back code
+        setAnalysisResult(null);
+        setUpdateConflicts([]);
+      }
+      return revision !== null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Update settings
   const updateSettings = async (newSettings: Partial<AutoUpdateSettings>) => {
     const updatedSettings = { ...settings, ...newSettings };
@@ -497,6 +603,9 @@ export const useAutoUpdate = (projectId: string) => {
     analysisResult,
     technologyUpdates,
     runAnalysis,
-    applyUpdates
+    previewUpdates,
+    applyUpdates,
+    rollbackUpdates,
+    updateConflicts
   };
 };
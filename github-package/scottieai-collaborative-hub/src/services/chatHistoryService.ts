@@ -0,0 +1,89 @@
+import { ChatMessage, LLMProvider } from '@/types/llm';
+import { getDigestBudget, packContextWindow, PackedContext, summarizeTurnsLocally } from '@/utils/tokenUtils';
+import { LLMRouter } from './llmRouter';
+
+const DIGEST_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant.
+Merge the previous summary with the new turns into one concise summary.
+Keep decisions, requirements, file names, code identifiers and open questions. Reply with the summary only.`;
+
+export interface ChatHistoryOptions {
+  provider: LLMProvider;
+  model?: string;
+  systemPrompt: string;
+  // Turns not yet folded into the digest, ending with the message being sent
+  history: ChatMessage[];
+  digest: string;
+  completionTokens: number;
+  maxMessages?: number;
+}
+
+export interface PreparedChatHistory extends PackedContext {
+  digest: string;
+  // Number of history turns newly folded into the digest
+  digestedCount: number;
+}
+
+const formatTranscript = (turns: ChatMessage[]): string =>
+  turns.map(turn => {
+    if (turn.role === 'tool') {
+      return `Tool results: ${(turn.toolResults || []).map(result => `${result.name}: ${result.content}`).join('\n')}`;
+    }
+    const calls = (turn.toolCalls || []).map(call => `[called ${call.name}(${JSON.stringify(call.arguments)})]`);
+    return `${turn.role === 'user' ? 'User' : 'Assistant'}: ${[turn.content, ...calls].filter(Boolean).join(' ')}`;
+  }).join('\n\n');
+
+/**
+ * Merge evicted turns into the running digest, using the model when it is reachable
+ */
+export const summarizeTurns = async (
+  router: LLMRouter,
+  previousDigest: string,
+  turns: ChatMessage[],
+  maxTokens: number,
+  provider: LLMProvider
+): Promise<string> => {
+  try {
+    const response = await router.getChatCompletion({
+      messages: [
+        { role: 'system', content: DIGEST_PROMPT },
+        {
+          role: 'user',
+          content: `Previous summary:\n${previousDigest || '(none)'}\n\nNew turns:\n${formatTranscript(turns)}`
+        }
+      ],
+      temperature: 0.2,
+      maxTokens
+    });
+
+    const summary = response.message.content.trim();
+    if (summary) return summary;
+  } catch (error) {
+    console.error('Error summarizing conversation:', error);
+  }
+
+  // Keep short excerpts rather than dropping the turns outright
+  return summarizeTurnsLocally(previousDigest, turns, maxTokens, provider);
+};
+
+/**
+ * Fit the conversation into the model's context window, summarizing turns that no longer fit
+ */
+export const prepareChatHistory = async (
+  router: LLMRouter,
+  options: ChatHistoryOptions
+): Promise<PreparedChatHistory> => {
+  let { history, digest } = options;
+  let digestedCount = 0;
+  let packed = packContextWindow({ ...options, history, digest });
+
+  // A longer digest can push further turns out, so repeat until everything left fits
+  while (packed.evicted.length > 0) {
+    const budget = getDigestBudget(packed.contextWindow);
+    digest = await summarizeTurns(router, digest, packed.evicted, budget, options.provider);
+    digestedCount += packed.evicted.length;
+    history = history.slice(packed.evicted.length);
+    packed = packContextWindow({ ...options, history, digest });
+  }
+
+  return { ...packed, digest, digestedCount };
+};
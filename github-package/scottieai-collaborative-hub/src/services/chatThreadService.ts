@@ -0,0 +1,348 @@
+import { supabase } from '@/lib/supabase';
+import { toast } from 'sonner';
+import {
+  ChatContextType,
+  ChatThread,
+  ConversationMessage,
+  TokenUsage,
+  emptyTokenUsage
+} from '@/types/chat';
+
+const DB_NAME = 'scottieai-chat';
+const DB_VERSION = 1;
+const THREAD_STORE = 'threads';
+// Threads deleted while offline, removed from Supabase on the next sync
+const DELETION_STORE = 'deletions';
+
+export const DEFAULT_THREAD_TITLE = 'New conversation';
+
+export type ThreadExportFormat = 'markdown' | 'json';
+
+// Offline copy of a thread; pendingSync marks changes Supabase hasn't seen yet.
+// The browser is shared, so each record belongs to the user who made it, or
+// to nobody when signed out.
+interface StoredThread extends ChatThread {
+  ownerId: string | null;
+  pendingSync?: boolean;
+}
+
+interface StoredDeletion {
+  id: string;
+  ownerId: string | null;
+}
+
+interface ChatThreadRow {
+  id: string;
+  title: string;
+  project_id: string | null;
+  context_type: ChatContextType;
+  messages: ConversationMessage[] | null;
+  digest: string | null;
+  digested_count: number | null;
+  usage: TokenUsage | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const mapThread = (row: ChatThreadRow): ChatThread => ({
+  id: row.id,
+  title: row.title,
+  projectId: row.project_id,
+  contextType: row.context_type,
+  messages: row.messages || [],
+  digest: row.digest || '',
+  digestedCount: row.digested_count || 0,
+  usage: row.usage || emptyTokenUsage,
+  created: new Date(row.created_at),
+  updated: new Date(row.updated_at)
+});
+
+const toRow = (thread: ChatThread, userId: string) => ({
+  id: thread.id,
+  user_id: userId,
+  title: thread.title,
+  project_id: thread.projectId,
+  context_type: thread.contextType,
+  messages: thread.messages,
+  digest: thread.digest,
+  digested_count: thread.digestedCount,
+  usage: thread.usage,
+  created_at: thread.created.toISOString(),
+  updated_at: thread.updated.toISOString()
+});
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(THREAD_STORE, { keyPath: 'id' });
+      request.result.createObjectStore(DELETION_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run requests against one object store and resolve once the transaction commits
+const withStore = async <T = undefined>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+const readLocalThreads = async (ownerId: string | null): Promise<StoredThread[]> => {
+  const threads = await withStore<StoredThread[]>(THREAD_STORE, 'readonly', store => store.getAll());
+  return threads
+    .filter(thread => thread.ownerId === ownerId)
+    .sort((a, b) => b.updated.getTime() - a.updated.getTime());
+};
+
+const isOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine;
+
+// The signed-in user from the stored session, which is known offline too
+const getSessionUserId = async (): Promise<string | null> => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id || null;
+};
+
+// Signed-out and offline sessions keep their threads in IndexedDB only
+const getOnlineUserId = async (): Promise<string | null> => {
+  if (!isOnline()) return null;
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  return userError || !userData.user ? null : userData.user.id;
+};
+
+// Push the threads and deletions this user recorded while offline
+const syncOfflineChanges = async (userId: string): Promise<void> => {
+  const pending = (await readLocalThreads(userId)).filter(thread => thread.pendingSync);
+  if (pending.length > 0) {
+    const { error } = await supabase
+      .from('chat_threads')
+      .upsert(pending.map(thread => toRow(thread, userId)));
+    if (error) throw error;
+  }
+
+  const deletions = (await withStore<StoredDeletion[]>(DELETION_STORE, 'readonly', store => store.getAll()))
+    .filter(deletion => deletion.ownerId === userId);
+  if (deletions.length > 0) {
+    const { error } = await supabase
+      .from('chat_threads')
+      .delete()
+      .eq('user_id', userId)
+      .in('id', deletions.map(deletion => deletion.id));
+    if (error) throw error;
+
+    await withStore(DELETION_STORE, 'readwrite', store => {
+      deletions.forEach(deletion => store.delete(deletion.id));
+    });
+  }
+};
+
+// Create an unsaved thread
+export const createChatThread = (
+  options: { title?: string; projectId?: string | null; contextType?: ChatContextType } = {}
+): ChatThread => {
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    title: options.title || DEFAULT_THREAD_TITLE,
+    projectId: options.projectId || null,
+    contextType: options.contextType || 'general',
+    messages: [],
+    digest: '',
+    digestedCount: 0,
+    usage: emptyTokenUsage,
+    created: now,
+    updated: now
+  };
+};
+
+// Get the current user's threads, newest first, from Supabase or the offline copy
+export const getChatThreads = async (): Promise<ChatThread[]> => {
+  let ownerId: string | null = null;
+  try {
+    ownerId = await getSessionUserId();
+    const userId = await getOnlineUserId();
+    if (userId) {
+      await syncOfflineChanges(userId);
+
+      const { data, error } = await supabase
+        .from('chat_threads')
+        .select('*')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching chat threads:', error);
+        throw error;
+      }
+
+      const threads = (data as ChatThreadRow[]).map(mapThread);
+
+      // Refresh this user's offline copy so threads stay available without a connection
+      const stale = await readLocalThreads(userId);
+      await withStore(THREAD_STORE, 'readwrite', store => {
+        stale.forEach(thread => store.delete(thread.id));
+        threads.forEach(thread => store.put({ ...thread, ownerId: userId }));
+      });
+
+      return threads;
+    }
+  } catch (error) {
+    console.error('Error in getChatThreads, falling back to offline threads:', error);
+  }
+
+  try {
+    return (await readLocalThreads(ownerId)).map(({ pendingSync, ownerId, ...thread }) => thread);
+  } catch (error) {
+    console.error('Error reading offline chat threads:', error);
+    toast.error('Failed to load conversations');
+    return [];
+  }
+};
+
+// Save a thread locally and to Supabase when online
+export const saveChatThread = async (thread: ChatThread): Promise<boolean> => {
+  try {
+    const ownerId = await getSessionUserId();
+    await withStore(THREAD_STORE, 'readwrite', store => store.put({ ...thread, ownerId, pendingSync: true }));
+
+    const userId = await getOnlineUserId();
+    if (!userId) return true;
+
+    const { error } = await supabase
+      .from('chat_threads')
+      .upsert(toRow(thread, userId));
+
+    if (error) {
+      console.error('Error saving chat thread:', error);
+      throw error;
+    }
+
+    await withStore(THREAD_STORE, 'readwrite', store => store.put({ ...thread, ownerId: userId }));
+    return true;
+  } catch (error) {
+    // The offline copy stays marked for sync, so nothing is lost
+    console.error('Error in saveChatThread:', error);
+    return false;
+  }
+};
+
+// Delete a thread, queueing the Supabase delete when offline
+export const deleteChatThread = async (threadId: string): Promise<boolean> => {
+  try {
+    await withStore(THREAD_STORE, 'readwrite', store => store.delete(threadId));
+
+    const userId = await getOnlineUserId();
+    if (!userId) {
+      // Signed-out threads were never in Supabase, so there's nothing to delete there
+      const ownerId = await getSessionUserId();
+      if (ownerId) {
+        await withStore(DELETION_STORE, 'readwrite', store => store.put({ id: threadId, ownerId } as StoredDeletion));
+      }
+      return true;
+    }
+
+    const { error } = await supabase
+      .from('chat_threads')
+      .delete()
+      .eq('id', threadId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error deleting chat thread:', error);
+      throw error;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteChatThread:', error);
+    toast.error('Failed to delete conversation');
+    return false;
+  }
+};
+
+// Filter threads by title or message content
+export const searchChatThreads = (threads: ChatThread[], query: string): ChatThread[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return threads;
+
+  return threads.filter(thread =>
+    thread.title.toLowerCase().includes(needle) ||
+    thread.messages.some(message => message.content.toLowerCase().includes(needle))
+  );
+};
+
+// Title a new thread after its first message
+export const deriveThreadTitle = (content: string): string => {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text || DEFAULT_THREAD_TITLE;
+};
+
+export const formatThreadAsMarkdown = (thread: ChatThread): string => {
+  const lines = [
+    `# ${thread.title}`,
+    '',
+    `- Context: ${thread.contextType}`,
+    ...(thread.projectId ? [`- Project: ${thread.projectId}`] : []),
+    `- Created: ${thread.created.toISOString()}`,
+    `- Tokens used: ${thread.usage.totalTokens}`,
+    ''
+  ];
+
+  if (thread.digest) {
+    lines.push('## Summary of earlier messages', '', thread.digest, '');
+  }
+
+  for (const message of thread.messages) {
+    if (message.role === 'tool') {
+      for (const result of message.toolResults || []) {
+        lines.push(`### Tool result: ${result.name}${result.isError ? ' (failed)' : ''}`, '', '```json', result.content, '```', '');
+      }
+      continue;
+    }
+
+    const speaker = message.role === 'user'
+      ? 'User'
+      : `Assistant${message.provider ? ` (${message.provider}${message.model ? ` · ${message.model}` : ''})` : ''}`;
+    lines.push(`## ${speaker}`, '');
+    if (message.content) lines.push(message.content, '');
+    for (const call of message.toolCalls || []) {
+      lines.push(`- Called \`${call.name}\` with \`${JSON.stringify(call.arguments)}\``);
+    }
+    if (message.toolCalls?.length) lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+export const formatThreadAsJson = (thread: ChatThread): string => {
+  return JSON.stringify(thread, null, 2);
+};
+
+// Download a thread as a Markdown or JSON file
+export const exportChatThread = (thread: ChatThread, format: ThreadExportFormat): void => {
+  const content = format === 'markdown' ? formatThreadAsMarkdown(thread) : formatThreadAsJson(thread);
+  const blob = new Blob([content], { type: format === 'markdown' ? 'text/markdown' : 'application/json' });
+  const baseName = thread.title.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'conversation';
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${format === 'markdown' ? 'md' : 'json'}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
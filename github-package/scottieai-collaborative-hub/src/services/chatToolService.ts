@@ -0,0 +1,197 @@
+import { ChatCompletionRequest, ChatMessage, ToolCall, ToolDefinition, ToolResult } from '@/types/llm';
+import { getProjectById, searchProjects } from './projectService';
+import { getDeploymentHistory } from './deploymentService';
+import { runProjectAnalysis } from './autoUpdateService';
+import { LLMRouter, RoutedCompletionResponse } from './llmRouter';
+import { LLMError } from './llmService';
+
+// Rounds of tool calls allowed before the model must answer in text
+const MAX_TOOL_ROUNDS = 5;
+
+// Tool output beyond this many characters is cut to keep prompts small
+const MAX_RESULT_LENGTH = 4000;
+
+export interface ChatTool {
+  definition: ToolDefinition;
+  execute: (args: Record<string, unknown>) => Promise<unknown>;
+}
+
+export interface ToolConversationResult {
+  response: RoutedCompletionResponse;
+  // Assistant tool-call turns and tool result turns exchanged before the answer
+  transcript: ChatMessage[];
+}
+
+const requireString = (args: Record<string, unknown>, name: string): string => {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`Missing required argument "${name}"`);
+  }
+  return value;
+};
+
+// Read-only bindings to project services the assistant may call
+export const chatTools: ChatTool[] = [
+  {
+    definition: {
+      name: 'getProjectById',
+      description: 'Get a project\'s details, including status, technologies and deployment URL.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string', description: 'ID of the project' }
+        },
+        required: ['projectId']
+      }
+    },
+    execute: async args => {
+      const project = await getProjectById(requireString(args, 'projectId'));
+      if (!project) throw new Error('Project not found');
+      return project;
+    }
+  },
+  {
+    definition: {
+      name: 'searchProjects',
+      description: 'Search the user\'s projects by name or description.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Text to search for' }
+        },
+        required: ['query']
+      }
+    },
+    execute: async args => {
+      const projects = await searchProjects(requireString(args, 'query'));
+      return projects.map(project => ({
+        id: project.id,
+        name: project.name,
+        status: project.status,
+        technologies: project.technologies
+      }));
+    }
+  },
+  {
+    definition: {
+      name: 'getDeploymentHistory',
+      description: 'List a project\'s deployments, newest first.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string', description: 'ID of the project' }
+        },
+        required: ['projectId']
+      }
+    },
+    execute: async args => {
+      const deployments = await getDeploymentHistory(requireString(args, 'projectId'));
+      return deployments.slice(0, 20);
+    }
+  },
+  {
+    definition: {
+      name: 'analyzeProjectCode',
+      description: 'Run static analysis on a project\'s code and summarize the issues found.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string', description: 'ID of the project' }
+        },
+        required: ['projectId']
+      }
+    },
+    execute: async args => {
+      const analysis = await runProjectAnalysis(requireString(args, 'projectId'));
+      return {
+        summary: analysis.summary,
+        analyzedFiles: analysis.analyzedFiles,
+        recommendations: analysis.recommendations.slice(0, 20).map(recommendation => ({
+          title: recommendation.title,
+          severity: recommendation.severity,
+          category: recommendation.category,
+          filePath: recommendation.filePath,
+          lineNumbers: recommendation.lineNumbers
+        }))
+      };
+    }
+  }
+];
+
+/**
+ * Run a tool call, reporting failures to the model instead of throwing
+ */
+export const executeToolCall = async (call: ToolCall, tools: ChatTool[] = chatTools): Promise<ToolResult> => {
+  const tool = tools.find(candidate => candidate.definition.name === call.name);
+
+  try {
+    if (!tool) throw new Error(`Unknown tool "${call.name}"`);
+
+    const output = JSON.stringify(await tool.execute(call.arguments)) ?? 'null';
+    return {
+      callId: call.id,
+      name: call.name,
+      content: output.length > MAX_RESULT_LENGTH
+        ? `${output.slice(0, MAX_RESULT_LENGTH)}... (truncated)`
+        : output
+    };
+  } catch (error) {
+    console.error(`Error running tool ${call.name}:`, error);
+    return {
+      callId: call.id,
+      name: call.name,
+      content: error instanceof Error ? error.message : 'Unknown error',
+      isError: true
+    };
+  }
+};
+
+// Servers that don't support tools, like local models without tool templates, reject the request
+const isToolRejection = (error: LLMError): boolean => error.status === 400 || error.status === 422;
+
+/**
+ * Complete a chat request, running tool calls until the model answers in text.
+ * If the first request is rejected because of its tools, it's sent again without them.
+ */
+export const runToolConversation = async (
+  router: LLMRouter,
+  request: ChatCompletionRequest,
+  onStep?: (transcript: ChatMessage[]) => void,
+  tools: ChatTool[] = chatTools
+): Promise<ToolConversationResult> => {
+  const transcript: ChatMessage[] = [];
+  const definitions = tools.map(tool => tool.definition);
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    let response: RoutedCompletionResponse;
+    try {
+      // The last round withholds tools so the model has to answer
+      response = await router.getChatCompletion({
+        ...request,
+        messages: [...request.messages, ...transcript],
+        tools: round < MAX_TOOL_ROUNDS ? definitions : undefined,
+        stream: false
+      });
+    } catch (error) {
+      if (round > 0 || !isToolRejection(error as LLMError)) throw error;
+
+      console.warn('Chat request with tools was rejected, retrying without tools:', error);
+      return { response: await router.getChatCompletion({ ...request, stream: false }), transcript };
+    }
+
+    const toolCalls = response.message.toolCalls;
+    if (!toolCalls?.length) {
+      return { response, transcript };
+    }
+
+    transcript.push({ role: 'assistant', content: response.message.content, toolCalls });
+    onStep?.([...transcript]);
+
+    const results = await Promise.all(toolCalls.map(call => executeToolCall(call, tools)));
+    transcript.push({ role: 'tool', content: '', toolResults: results });
+    onStep?.([...transcript]);
+  }
+
+  // Only reached if a server returns tool calls despite being sent no tools
+  throw new Error('Tool conversation did not finish');
+};
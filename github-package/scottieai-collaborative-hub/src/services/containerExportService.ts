@@ -0,0 +1,127 @@
+import JSZip from 'jszip';
+import { supabase } from '@/lib/supabase';
+import { toast } from 'sonner';
+import { DeploymentFile, EnvironmentVariable } from '@/types/deployment';
+import { ContainerExportOptions, ContainerExportResult } from '@/types/export';
+import { formatEnvFile } from '@/utils/envUtils';
+import {
+  detectContainerStack,
+  generateComposeFile,
+  generateDockerfile,
+  generateDockerignore,
+  generateNginxConfig,
+  generateNodeServer,
+  isBuildTimeVariable,
+  toServiceName
+} from '@/utils/containerUtils';
+import { isExtractableArchive } from '@/utils/archiveUtils';
+import { readSourceFiles } from './deploymentService';
+import { getProjectEnvironmentWithoutSecrets } from './environmentService';
+
+export const DEFAULT_CONTAINER_EXPORT_OPTIONS: ContainerExportOptions = {
+  environment: 'production',
+  nodeVersion: '20',
+  hostPort: 8080
+};
+
+// Files the export writes; a project's own copies are replaced
+const GENERATED_PATHS = ['Dockerfile', '.dockerignore', 'docker-compose.yml', '.env.example'];
+
+/**
+ * Add the container files to a project's sources. Secret values are left out:
+ * the compose file reads them from .env, which .env.example lists.
+ */
+export const createContainerPackage = (
+  projectName: string,
+  technologies: string[],
+  sourceFiles: DeploymentFile[],
+  variables: EnvironmentVariable[],
+  options: ContainerExportOptions = DEFAULT_CONTAINER_EXPORT_OPTIONS
+): JSZip => {
+  const stack = detectContainerStack(technologies, sourceFiles);
+  const serviceName = toServiceName(projectName);
+  const buildArgs = stack.framework === 'static'
+    ? []
+    : variables.filter(variable => isBuildTimeVariable(variable.key)).map(variable => variable.key);
+  const secrets = variables.filter(variable => variable.secret);
+
+  const zip = new JSZip();
+  const root = zip.folder(serviceName)!;
+
+  for (const file of sourceFiles) {
+    if (!GENERATED_PATHS.includes(file.path)) root.file(file.path, file.bytes);
+  }
+
+  root.file('Dockerfile', generateDockerfile(stack, options.nodeVersion, buildArgs));
+  root.file('.dockerignore', generateDockerignore(stack));
+  root.file('docker-compose.yml', generateComposeFile(serviceName, stack, variables, options.hostPort));
+  if (secrets.length > 0) root.file('.env.example', formatEnvFile(secrets));
+
+  const dockerFolder = root.folder('docker')!;
+  if (stack.runtime === 'node') {
+    dockerFolder.file('server.cjs', generateNodeServer());
+  } else {
+    dockerFolder.file('nginx.conf', generateNginxConfig(stack));
+  }
+
+  return zip;
+};
+
+/**
+ * Package a project's current code as a container build context
+ */
+export const exportAsContainer = async (
+  projectId: string,
+  options: ContainerExportOptions = DEFAULT_CONTAINER_EXPORT_OPTIONS
+): Promise<ContainerExportResult> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('id', projectId)
+      .eq('user_id', userData.user.id)
+      .single();
+
+    if (projectError || !project) {
+      throw new Error('Project not found or access denied');
+    }
+
+    if (!project.file_path || !isExtractableArchive(project.file_path)) {
+      throw new Error('The project has no code package that can be exported');
+    }
+
+    const { data: archive, error: downloadError } = await supabase.storage
+      .from('code_packages')
+      .download(project.file_path);
+
+    if (downloadError || !archive) {
+      throw downloadError || new Error('Code package not found');
+    }
+
+    // Build output is recreated in the image, so the output directory doesn't matter here
+    const sourceFiles = await readSourceFiles(archive, project.file_path, '');
+    const variables = await getProjectEnvironmentWithoutSecrets(projectId, options.environment);
+
+    const zip = createContainerPackage(project.name, project.technologies || [], sourceFiles, variables, options);
+    const fileName = `${toServiceName(project.name)}-container.zip`;
+
+    toast.success('Container package created');
+    return {
+      success: true,
+      fileName,
+      archive: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+    };
+  } catch (error) {
+    console.error('Error exporting container:', error);
+    toast.error('Failed to create container package');
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+};
@@ -6,6 +6,8 @@
  */
 
 import { toast } from 'sonner';
+import { CodeUpdateRecommendation } from '@/types/llm';
+import { runProjectAnalysis } from '@/services/autoUpdateService';
 
 // Recommendation types
 export interface Recommendation {
@@ -21,6 +23,9 @@ export interface Recommendation {
   createdAt: number;
   status: 'pending' | 'approved' | 'rejected' | 'implemented' | 'scheduled';
   scheduledFor?: number;
+  // Concrete code change, applied to the project's files when implemented
+  projectId?: string;
+  codeUpdate?: CodeUpdateRecommendation;
 }
 
 export type RecommendationCategory = 
@@ -1246,10 +1251,56 @@ export const AdvancedVisualization = () => {
   }
 };
 
+const categoryByAnalyzerCategory: Record<CodeUpdateRecommendation['category'], RecommendationCategory> = {
+  dependency: 'dependency_update',
+  security: 'security',
+  performance: 'performance',
+  'best-practice': 'code_quality',
+  'new-technology': 'new_feature'
+};
+
+const effortDetails: Record<CodeUpdateRecommendation['estimatedEffort'], Pick<Recommendation, 'difficulty' | 'estimatedTime'>> = {
+  minimal: { difficulty: 'easy', estimatedTime: '15 minutes' },
+  moderate: { difficulty: 'moderate', estimatedTime: '1 hour' },
+  significant: { difficulty: 'complex', estimatedTime: '4 hours' }
+};
+
+/**
+ * Analyzes a project's code and turns every finding that comes with a code
+ * change into a recommendation that applies it when implemented
+ */
+export const analyzeProjectCodeUpdates = async (projectId: string): Promise<Recommendation[]> => {
+  try {
+    const analysis = await runProjectAnalysis(projectId);
+
+    return analysis.recommendations
+      .filter(update => update.filePath && update.currentCode !== undefined && update.suggestedCode !== undefined)
+      .map(update => ({
+        id: update.id,
+        title: update.title,
+        description: update.description,
+        category: categoryByAnalyzerCategory[update.category],
+        priority: update.severity,
+        ...effortDetails[update.estimatedEffort],
+        benefits: update.benefits,
+        implementation: update.suggestedCode!,
+        createdAt: new Date(update.createdAt).getTime(),
+        status: 'pending' as const,
+        projectId,
+        codeUpdate: update
+      }));
+  } catch (error) {
+    console.error('Error analyzing project code:', error);
+    toast.error('Project code analysis failed');
+    return [];
+  }
+};
+
 /**
- * Runs all analysis methods and combines the results
+ * Runs all analysis methods and combines the results, including
+ * applicable code updates for the project when one is given
  */
-export const runFullAnalysis = async (): Promise<Recommendation[]> => {
+export const runFullAnalysis = async (projectId?: string): Promise<Recommendation[]> => {
   try {
     console.log('Starting full system analysis...');
     toast.info('AI is analyzing system for improvements...');
@@ -1260,17 +1311,20 @@ export const runFullAnalysis = async (): Promise<Recommendation[]> => {
       userInteractionRecommendations,
       performanceRecommendations,
       securityRecommendations,
-      technologyRecommendations
+      technologyRecommendations,
+      projectRecommendations
     ] = await Promise.all([
       analyzeCodebase(),
       analyzeUserInteractions(),
       analyzeSystemPerformance(),
       analyzeSecurityVulnerabilities(),
-      analyzeTechnologyTrends()
+      analyzeTechnologyTrends(),
+      projectId ? analyzeProjectCodeUpdates(projectId) : Promise.resolve([])
     ]);
     
     // Combine all recommendations
     const allRecommendations = [
+      ...projectRecommendations,
       ...codebaseRecommendations,
       ...userInteractionRecommendations,
       ...performanceRecommendations,
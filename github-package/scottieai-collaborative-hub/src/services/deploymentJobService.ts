@@ -0,0 +1,198 @@
+import { supabase } from '@/lib/supabase';
+import {
+  DeploymentCredentials,
+  DeploymentJob,
+  DeploymentJobLogEntry,
+  DeploymentLogEntry,
+  DeploymentOptions,
+  DeploymentPhase,
+  DeploymentPlatform,
+  DeploymentResult,
+  EnvironmentName,
+  HealthCheckReport
+} from '@/types/deployment';
+import { deployWithProvider, RunDeploymentOptions } from './deploymentService';
+import { cleanupExpiredPreviews } from './deploymentReleaseService';
+import { parseHealthCheckReport } from './healthCheckService';
+import { createPersistedJobStore } from './persistedJobStore';
+
+export const DEPLOYMENT_PHASES: DeploymentPhase[] = ['queued', 'installing', 'building', 'uploading', 'verifying', 'live', 'failed'];
+
+type DeploymentJobListener = (job: DeploymentJob) => void;
+
+type DeployFunction = (
+  platform: DeploymentPlatform,
+  projectId: string,
+  options: DeploymentOptions,
+  credentials: DeploymentCredentials,
+  runOptions: RunDeploymentOptions
+) => Promise<DeploymentResult>;
+
+interface DeploymentJobRow {
+  id: string;
+  project_id: string;
+  platform: string;
+  environment: EnvironmentName | null;
+  phase: DeploymentPhase;
+  logs: (Omit<DeploymentJobLogEntry, 'timestamp'> & { timestamp: string })[] | null;
+  deployment_url: string | null;
+  error: string | null;
+  health_check: HealthCheckReport | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+const mapJob = (row: DeploymentJobRow): DeploymentJob => ({
+  id: row.id,
+  projectId: row.project_id,
+  platform: row.platform,
+  environment: row.environment || 'production',
+  phase: row.phase,
+  logs: (row.logs || []).map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) })),
+  deploymentUrl: row.deployment_url || undefined,
+  error: row.error || undefined,
+  healthCheck: parseHealthCheckReport(row.health_check),
+  startedAt: new Date(row.started_at),
+  finishedAt: row.finished_at ? new Date(row.finished_at) : undefined
+});
+
+const toRow = (job: DeploymentJob, userId: string) => ({
+  id: job.id,
+  user_id: userId,
+  project_id: job.projectId,
+  platform: job.platform,
+  environment: job.environment,
+  phase: job.phase,
+  logs: job.logs.map(entry => ({ ...entry, timestamp: entry.timestamp.toISOString() })),
+  deployment_url: job.deploymentUrl || null,
+  error: job.error || null,
+  health_check: job.healthCheck || null,
+  started_at: job.startedAt.toISOString(),
+  finished_at: job.finishedAt ? job.finishedAt.toISOString() : null
+});
+
+// Jobs started in this session; they outlive the dialog that started them. Jobs
+// are saved when they change phase, so a reload keeps everything up to the last phase.
+const jobs = createPersistedJobStore<DeploymentJob>('deployment_jobs', toRow, 'deployment job');
+
+const appendLog = (jobId: string, entry: DeploymentLogEntry) => {
+  jobs.update(jobId, job => ({ logs: [...job.logs, { ...entry, phase: job.phase }] }));
+};
+
+const setPhase = (jobId: string, phase: DeploymentPhase) => {
+  jobs.update(jobId, current => ({
+    phase,
+    finishedAt: phase === 'live' || phase === 'failed' ? new Date() : current.finishedAt
+  }));
+  jobs.persist(jobId);
+};
+
+export const isDeploymentJobFinished = (job: DeploymentJob): boolean => {
+  return job.phase === 'live' || job.phase === 'failed';
+};
+
+/**
+ * Start deploying in the background and return the queued job
+ */
+export const startDeploymentJob = (
+  platform: DeploymentPlatform,
+  projectId: string,
+  options: DeploymentOptions,
+  credentials: DeploymentCredentials = {},
+  deploy: DeployFunction = deployWithProvider
+): DeploymentJob => {
+  const job: DeploymentJob = {
+    id: crypto.randomUUID(),
+    projectId,
+    platform,
+    environment: options.environment || 'production',
+    phase: 'queued',
+    logs: [],
+    startedAt: new Date()
+  };
+  jobs.add(job);
+  appendLog(job.id, { timestamp: new Date(), level: 'info', message: `Queued deployment to ${platform}` });
+  jobs.persist(job.id);
+  const queued = jobs.get(job.id)!;
+
+  deploy(platform, projectId, options, credentials, {
+    jobId: job.id,
+    onPhase: phase => setPhase(job.id, phase),
+    onLog: entry => appendLog(job.id, entry)
+  }).catch((error): DeploymentResult => ({
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error'
+  })).then(result => {
+    if (result.success) {
+      jobs.update(job.id, () => ({ deploymentUrl: result.deploymentUrl, healthCheck: result.healthCheck }));
+      setPhase(job.id, 'live');
+
+      // Credentials are at hand now, so expired previews on this platform can be removed
+      cleanupExpiredPreviews(projectId, { [platform]: credentials }).then(({ removed }) => {
+        if (removed.length === 0) return;
+        appendLog(job.id, {
+          timestamp: new Date(),
+          level: 'info',
+          message: `Removed ${removed.length} expired preview deployment${removed.length === 1 ? '' : 's'}`
+        });
+        jobs.persist(job.id);
+      });
+    } else {
+      appendLog(job.id, { timestamp: new Date(), level: 'error', message: result.error || 'Deployment failed' });
+      jobs.update(job.id, () => ({ error: result.error || 'Deployment failed', healthCheck: result.healthCheck }));
+      setPhase(job.id, 'failed');
+    }
+  });
+
+  return queued;
+};
+
+export const getDeploymentJob = (jobId: string): DeploymentJob | null => {
+  return jobs.get(jobId) || null;
+};
+
+/**
+ * Get the most recent job started for a project in this session
+ */
+export const getLatestDeploymentJob = (projectId: string): DeploymentJob | null => {
+  return jobs.values()
+    .filter(job => job.projectId === projectId)
+    .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())[0] || null;
+};
+
+/**
+ * Listen for changes to a job; returns a function that stops listening
+ */
+export const subscribeToDeploymentJob = (jobId: string, listener: DeploymentJobListener): (() => void) => {
+  return jobs.subscribe(job => {
+    if (job.id === jobId) listener(job);
+  });
+};
+
+/**
+ * Get a job with its full log, from this session or from Supabase
+ */
+export const getDeploymentJobLog = async (jobId: string): Promise<DeploymentJob | null> => {
+  const job = jobs.get(jobId);
+  if (job) return job;
+
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('deployment_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .eq('user_id', userData.user.id)
+      .single();
+
+    if (error) throw error;
+    return data ? mapJob(data as DeploymentJobRow) : null;
+  } catch (error) {
+    console.error('Error fetching deployment job:', error);
+    return null;
+  }
+};
@@ -0,0 +1,539 @@
+import JSZip from 'jszip';
+import {
+  DeploymentBuild,
+  DeploymentCredentials,
+  DeploymentFile,
+  DeploymentHandle,
+  DeploymentLogEntry,
+  DeploymentPlatform,
+  DeploymentProvider,
+  DeploymentStatus
+} from '@/types/deployment';
+import { isStaticServerSupported, StaticServer, startStaticServer } from './localStaticServer';
+
+const VERCEL_API = 'https://api.vercel.com';
+const NETLIFY_API = 'https://api.netlify.com/api/v1';
+const GITHUB_API = 'https://api.github.com';
+
+// Branch GitHub Pages is published from
+const PAGES_BRANCH = 'gh-pages';
+
+// Our framework names mapped to Vercel's presets; others build with "Other" settings
+const VERCEL_FRAMEWORKS: Record<string, string> = {
+  next: 'nextjs',
+  vue: 'vue',
+  angular: 'angular',
+  svelte: 'svelte'
+};
+
+const providers = new Map<DeploymentPlatform, DeploymentProvider>();
+
+/**
+ * Add a provider, replacing any registered under the same id
+ */
+export const registerDeploymentProvider = (provider: DeploymentProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const getDeploymentProviders = (): DeploymentProvider[] => {
+  return Array.from(providers.values());
+};
+
+export const getDeploymentProvider = (id: DeploymentPlatform): DeploymentProvider | null => {
+  return providers.get(id) || null;
+};
+
+// Turn "./dist/" into "dist" and "." into ""
+const normalizeDirectory = (directory: string): string => {
+  return directory.trim().replace(/^\.?\/+/, '').replace(/\/+$/, '').replace(/^\.$/, '');
+};
+
+export const createBuild = (files: DeploymentFile[]): DeploymentBuild => ({
+  files,
+  totalSize: files.reduce((total, file) => total + file.bytes.byteLength, 0)
+});
+
+/**
+ * Pick the files under the output directory, re-rooted at the site root.
+ * Nothing can be compiled in the browser, so the package must include its built output.
+ */
+export const selectOutputFiles = (files: DeploymentFile[], outputDirectory: string): DeploymentBuild => {
+  const directory = normalizeDirectory(outputDirectory);
+  const prefix = directory ? `${directory}/` : '';
+  const output = files
+    .filter(file => file.path.startsWith(prefix))
+    .map(file => ({ path: file.path.slice(prefix.length), bytes: file.bytes }));
+
+  if (output.length === 0) {
+    throw new Error(`No built files found in "${directory || '.'}". Upload a package that includes the build output.`);
+  }
+
+  return createBuild(output);
+};
+
+const slugify = (name: string): string => {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'project';
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const requireCredential = (credentials: DeploymentCredentials, key: string, providerName: string): string => {
+  const value = credentials[key]?.trim();
+  if (!value) throw new Error(`${providerName} ${key} is required`);
+  return value;
+};
+
+// Call a provider's REST API, turning error responses into readable errors
+const apiRequest = async <T>(
+  providerName: string,
+  url: string,
+  init: RequestInit & { allowNotFound?: boolean } = {}
+): Promise<T | null> => {
+  const { allowNotFound, ...requestInit } = init;
+  const response = await fetch(url, requestInit);
+
+  if (response.status === 404 && allowNotFound) return null;
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    const message = body.error?.message || body.message || response.statusText;
+    throw new Error(`${providerName} API error (${response.status}): ${message}`);
+  }
+
+  if (response.status === 204) return null;
+  return response.json().catch(() => null);
+};
+
+const jsonBody = (body: unknown): Pick<RequestInit, 'body'> & { headers: Record<string, string> } => ({
+  body: JSON.stringify(body),
+  headers: { 'Content-Type': 'application/json' }
+});
+
+const vercelRequest = <T>(
+  credentials: DeploymentCredentials,
+  path: string,
+  init: RequestInit & { allowNotFound?: boolean } = {}
+) => {
+  const token = requireCredential(credentials, 'token', 'Vercel');
+  const teamId = credentials.teamId?.trim();
+  const separator = path.includes('?') ? '&' : '?';
+
+  return apiRequest<T>('Vercel', `${VERCEL_API}${path}${teamId ? `${separator}teamId=${encodeURIComponent(teamId)}` : ''}`, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string>), Authorization: `Bearer ${token}` }
+  });
+};
+
+export const vercelProvider: DeploymentProvider = {
+  id: 'vercel',
+  name: 'Vercel',
+  description: 'Uploads the project source and builds it on Vercel with your build settings.',
+  credentialFields: [
+    { key: 'token', label: 'Access token', secret: true },
+    { key: 'teamId', label: 'Team ID', optional: true }
+  ],
+  supportsEnvironment: true,
+  supportsPreview: true,
+  isAvailable: () => true,
+
+  // Vercel runs the build command itself, so the source is uploaded as-is
+  build: async context => createBuild(context.sourceFiles),
+
+  upload: async (context, build) => {
+    const { options, credentials } = context;
+    const name = slugify(context.projectName);
+    const environment = options.environment || 'production';
+    const variables = Object.entries(options.environmentVariables);
+
+    // Variables are set on the Vercel project, which must exist before the first deployment
+    if (variables.length > 0) {
+      const project = await vercelRequest(credentials, `/v9/projects/${name}`, { allowNotFound: true });
+      if (!project) {
+        await vercelRequest(credentials, '/v10/projects', { method: 'POST', ...jsonBody({ name }) });
+      }
+
+      await vercelRequest(credentials, `/v10/projects/${name}/env?upsert=true`, {
+        method: 'POST',
+        ...jsonBody(variables.map(([key, value]) => ({ key, value, type: 'encrypted', target: [environment] })))
+      });
+    }
+
+    const request = jsonBody({
+      name,
+      // Deployments without a target are previews
+      target: environment === 'production' ? 'production' : undefined,
+      files: build.files.map(file => ({ file: file.path, data: toBase64(file.bytes), encoding: 'base64' })),
+      projectSettings: {
+        framework: VERCEL_FRAMEWORKS[options.framework] || null,
+        buildCommand: options.buildCommand || null,
+        outputDirectory: normalizeDirectory(options.outputDirectory) || null
+      }
+    });
+
+    const deployment = await vercelRequest<{ id: string; url: string }>(credentials, '/v13/deployments', {
+      method: 'POST',
+      ...request
+    });
+
+    return { providerId: 'vercel', id: deployment.id, url: `https://${deployment.url}`, metadata: { project: name } };
+  },
+
+  status: async (handle, credentials) => {
+    const deployment = await vercelRequest<{ readyState: string; errorMessage?: string }>(
+      credentials,
+      `/v13/deployments/${handle.id}`
+    );
+
+    switch (deployment.readyState) {
+      case 'READY':
+        return { state: 'ready' };
+      case 'ERROR':
+        return { state: 'error', error: deployment.errorMessage || 'Build failed' };
+      case 'CANCELED':
+        return { state: 'stopped' };
+      default:
+        return { state: 'building' };
+    }
+  },
+
+  logs: async (handle, credentials) => {
+    const events = await vercelRequest<{ type: string; created: number; text?: string; payload?: { text?: string } }[]>(
+      credentials,
+      `/v3/deployments/${handle.id}/events?builds=1`
+    );
+
+    return (events || [])
+      .map(event => ({
+        timestamp: new Date(event.created),
+        level: event.type === 'stderr' ? 'error' as const : 'info' as const,
+        message: event.text ?? event.payload?.text ?? ''
+      }))
+      .filter(entry => entry.message);
+  },
+
+  teardown: async (handle, credentials) => {
+    await vercelRequest(credentials, `/v13/deployments/${handle.id}`, { method: 'DELETE' });
+  },
+
+  // Points the project's production domains at the deployment without rebuilding it
+  promote: async (handle, credentials) => {
+    const project = handle.metadata?.project;
+    if (!project) throw new Error('This Vercel deployment was made before promotion was supported');
+
+    await vercelRequest(credentials, `/v10/projects/${project}/promote/${handle.id}`, { method: 'POST' });
+    const deployment = await vercelRequest<{ alias?: string[] }>(credentials, `/v13/deployments/${handle.id}`);
+    return deployment.alias?.[0] ? `https://${deployment.alias[0]}` : null;
+  }
+};
+
+const netlifyRequest = <T>(credentials: DeploymentCredentials, path: string, init: RequestInit = {}) => {
+  const token = requireCredential(credentials, 'token', 'Netlify');
+  return apiRequest<T>('Netlify', `${NETLIFY_API}${path}`, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string>), Authorization: `Bearer ${token}` }
+  });
+};
+
+interface NetlifyDeploy {
+  id: string;
+  state: string;
+  ssl_url?: string;
+  url?: string;
+  // Permalink serving only this deploy
+  deploy_ssl_url?: string;
+  error_message?: string;
+  updated_at: string;
+  summary?: { messages?: { type: string; title: string; description?: string }[] };
+}
+
+export const netlifyProvider: DeploymentProvider = {
+  id: 'netlify',
+  name: 'Netlify',
+  description: 'Publishes the built output directory to a Netlify site.',
+  credentialFields: [
+    { key: 'token', label: 'Personal access token', secret: true },
+    { key: 'siteId', label: 'Site ID', placeholder: 'Leave empty to create a new site', optional: true }
+  ],
+  supportsPreview: true,
+  isAvailable: () => true,
+
+  build: async context => selectOutputFiles(context.sourceFiles, context.options.outputDirectory),
+
+  upload: async (context, build) => {
+    const { credentials } = context;
+    let siteId = credentials.siteId?.trim();
+    const createdSite = !siteId;
+
+    if (!siteId) {
+      const site = await netlifyRequest<{ id: string }>(credentials, '/sites', {
+        method: 'POST',
+        ...jsonBody({ name: `${slugify(context.projectName)}-${context.projectId.slice(0, 6)}` })
+      });
+      siteId = site.id;
+    }
+
+    const zip = new JSZip();
+    build.files.forEach(file => zip.file(file.path, file.bytes));
+
+    // Drafts get a permalink but leave the published site alone
+    const draft = (context.options.environment || 'production') !== 'production';
+    const deploy = await netlifyRequest<NetlifyDeploy>(credentials, `/sites/${siteId}/deploys${draft ? '?draft=true' : ''}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/zip' },
+      body: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+    });
+
+    return {
+      providerId: 'netlify',
+      id: deploy.id,
+      url: deploy.deploy_ssl_url || deploy.ssl_url || deploy.url || '',
+      metadata: { siteId, siteUrl: deploy.ssl_url || deploy.url || '', createdSite: String(createdSite) }
+    };
+  },
+
+  status: async (handle, credentials) => {
+    const deploy = await netlifyRequest<NetlifyDeploy>(credentials, `/deploys/${handle.id}`);
+
+    if (deploy.state === 'ready') return { state: 'ready' };
+    if (deploy.state === 'error') return { state: 'error', error: deploy.error_message || 'Deploy failed' };
+    return { state: 'building' };
+  },
+
+  logs: async (handle, credentials) => {
+    const deploy = await netlifyRequest<NetlifyDeploy>(credentials, `/deploys/${handle.id}`);
+    const timestamp = new Date(deploy.updated_at);
+    const entries: DeploymentLogEntry[] = [{ timestamp, level: 'info', message: `Deploy ${deploy.state}` }];
+
+    for (const message of deploy.summary?.messages || []) {
+      entries.push({
+        timestamp,
+        level: message.type === 'warning' ? 'warning' : 'info',
+        message: message.description ? `${message.title}: ${message.description}` : message.title
+      });
+    }
+    if (deploy.error_message) {
+      entries.push({ timestamp, level: 'error', message: deploy.error_message });
+    }
+
+    return entries;
+  },
+
+  // Sites created for the deployment are removed with it; existing sites only lose the deploy
+  teardown: async (handle, credentials) => {
+    if (handle.metadata?.createdSite === 'true') {
+      await netlifyRequest(credentials, `/sites/${handle.metadata.siteId}`, { method: 'DELETE' });
+    } else {
+      await netlifyRequest(credentials, `/deploys/${handle.id}`, { method: 'DELETE' });
+    }
+  },
+
+  // Publishes the deploy to the site, which also works for drafts and older deploys
+  promote: async (handle, credentials) => {
+    await netlifyRequest(credentials, `/sites/${handle.metadata?.siteId}/deploys/${handle.id}/restore`, { method: 'POST' });
+    return handle.metadata?.siteUrl || null;
+  }
+};
+
+const githubRequest = <T>(
+  credentials: DeploymentCredentials,
+  path: string,
+  init: RequestInit & { allowNotFound?: boolean } = {}
+) => {
+  const token = requireCredential(credentials, 'token', 'GitHub');
+  return apiRequest<T>('GitHub', `${GITHUB_API}${path}`, {
+    ...init,
+    headers: {
+      ...(init.headers as Record<string, string>),
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${token}`
+    }
+  });
+};
+
+const getRepository = (credentials: DeploymentCredentials, handle?: DeploymentHandle): string => {
+  const repository = handle?.metadata?.repository || requireCredential(credentials, 'repository', 'GitHub');
+  if (!/^[\w.-]+\/[\w.-]+$/.test(repository)) {
+    throw new Error('GitHub repository must be in the form owner/name');
+  }
+  return repository;
+};
+
+interface PagesBuild {
+  status: 'queued' | 'building' | 'built' | 'errored';
+  commit: string;
+  created_at: string;
+  duration?: number;
+  error?: { message: string | null };
+}
+
+export const githubPagesProvider: DeploymentProvider = {
+  id: 'github-pages',
+  name: 'GitHub Pages',
+  description: `Commits the built output directory to the ${PAGES_BRANCH} branch and publishes it with Pages.`,
+  credentialFields: [
+    { key: 'token', label: 'Personal access token', secret: true },
+    { key: 'repository', label: 'Repository', placeholder: 'owner/name' }
+  ],
+  isAvailable: () => true,
+
+  build: async context => selectOutputFiles(context.sourceFiles, context.options.outputDirectory),
+
+  upload: async (context, build) => {
+    const { credentials } = context;
+    const repository = getRepository(credentials);
+    const repoPath = `/repos/${repository}`;
+
+    const tree = [];
+    for (const file of build.files) {
+      const blob = await githubRequest<{ sha: string }>(credentials, `${repoPath}/git/blobs`, {
+        method: 'POST',
+        ...jsonBody({ content: toBase64(file.bytes), encoding: 'base64' })
+      });
+      tree.push({ path: file.path, mode: '100644', type: 'blob', sha: blob.sha });
+    }
+
+    const createdTree = await githubRequest<{ sha: string }>(credentials, `${repoPath}/git/trees`, {
+      method: 'POST',
+      ...jsonBody({ tree })
+    });
+
+    const branch = await githubRequest<{ object: { sha: string } }>(
+      credentials,
+      `${repoPath}/git/ref/heads/${PAGES_BRANCH}`,
+      { allowNotFound: true }
+    );
+
+    const commit = await githubRequest<{ sha: string }>(credentials, `${repoPath}/git/commits`, {
+      method: 'POST',
+      ...jsonBody({
+        message: `Deploy ${context.projectName}`,
+        tree: createdTree.sha,
+        parents: branch ? [branch.object.sha] : []
+      })
+    });
+
+    if (branch) {
+      await githubRequest(credentials, `${repoPath}/git/refs/heads/${PAGES_BRANCH}`, {
+        method: 'PATCH',
+        ...jsonBody({ sha: commit.sha, force: true })
+      });
+    } else {
+      await githubRequest(credentials, `${repoPath}/git/refs`, {
+        method: 'POST',
+        ...jsonBody({ ref: `refs/heads/${PAGES_BRANCH}`, sha: commit.sha })
+      });
+    }
+
+    let pages = await githubRequest<{ html_url: string }>(credentials, `${repoPath}/pages`, { allowNotFound: true });
+    if (!pages) {
+      pages = await githubRequest<{ html_url: string }>(credentials, `${repoPath}/pages`, {
+        method: 'POST',
+        ...jsonBody({ source: { branch: PAGES_BRANCH, path: '/' } })
+      });
+    }
+
+    return { providerId: 'github-pages', id: commit.sha, url: pages.html_url, metadata: { repository } };
+  },
+
+  status: async (handle, credentials) => {
+    const build = await githubRequest<PagesBuild>(
+      credentials,
+      `/repos/${getRepository(credentials, handle)}/pages/builds/latest`,
+      { allowNotFound: true }
+    );
+
+    // Until Pages picks up our commit, the latest build belongs to an older deploy
+    if (!build || build.commit !== handle.id) return { state: 'building' };
+    if (build.status === 'built') return { state: 'ready' };
+    if (build.status === 'errored') return { state: 'error', error: build.error?.message || 'Pages build failed' };
+    return { state: 'building' };
+  },
+
+  logs: async (handle, credentials) => {
+    const builds = await githubRequest<PagesBuild[]>(
+      credentials,
+      `/repos/${getRepository(credentials, handle)}/pages/builds?per_page=20`
+    );
+
+    return (builds || [])
+      .filter(build => build.commit === handle.id)
+      .reverse()
+      .flatMap(build => {
+        const timestamp = new Date(build.created_at);
+        const entries: DeploymentLogEntry[] = [{
+          timestamp,
+          level: build.status === 'errored' ? 'error' : 'info',
+          message: `Pages build ${build.status}${build.duration ? ` in ${build.duration}ms` : ''}`
+        }];
+        if (build.error?.message) entries.push({ timestamp, level: 'error', message: build.error.message });
+        return entries;
+      });
+  },
+
+  teardown: async (handle, credentials) => {
+    await githubRequest(credentials, `/repos/${getRepository(credentials, handle)}/pages`, { method: 'DELETE' });
+  },
+
+  // Moves the branch back to the deployment's commit; Pages then rebuilds it
+  promote: async (handle, credentials) => {
+    await githubRequest(credentials, `/repos/${getRepository(credentials, handle)}/git/refs/heads/${PAGES_BRANCH}`, {
+      method: 'PATCH',
+      ...jsonBody({ sha: handle.id, force: true })
+    });
+    return handle.url;
+  }
+};
+
+// Servers started by the local provider, keyed by deployment id
+const localServers = new Map<string, StaticServer>();
+
+export const localStaticProvider: DeploymentProvider = {
+  id: 'local-static',
+  name: 'Local static host',
+  description: 'Serves the built output directory from an HTTP server on this machine. Works offline.',
+  credentialFields: [],
+  supportsPreview: true,
+  isAvailable: isStaticServerSupported,
+  // The server needs Node's http module, which browsers don't have
+  unavailableReason: 'Only runs under Node, from tests and the command line. The browser app can\'t start a server.',
+
+  build: async context => selectOutputFiles(context.sourceFiles, context.options.outputDirectory),
+
+  upload: async (_context, build) => {
+    const server = await startStaticServer(build.files, { spaFallback: true });
+    const id = crypto.randomUUID();
+    localServers.set(id, server);
+    return { providerId: 'local-static', id, url: server.url };
+  },
+
+  status: async (handle): Promise<DeploymentStatus> => {
+    return localServers.has(handle.id) ? { state: 'ready' } : { state: 'stopped' };
+  },
+
+  logs: async handle => {
+    const server = localServers.get(handle.id);
+    if (!server) return [];
+
+    return server.requests.map(request => ({
+      timestamp: request.timestamp,
+      level: request.status >= 400 ? 'warning' as const : 'info' as const,
+      message: `${request.method} ${request.path} ${request.status}`
+    }));
+  },
+
+  teardown: async handle => {
+    const server = localServers.get(handle.id);
+    if (!server) return;
+
+    localServers.delete(handle.id);
+    await server.close();
+  }
+};
+
+[vercelProvider, netlifyProvider, githubPagesProvider, localStaticProvider].forEach(registerDeploymentProvider);
@@ -0,0 +1,225 @@
+import { supabase } from '@/lib/supabase';
+import { toast } from 'sonner';
+import {
+  Deployment,
+  DeploymentCredentials,
+  DeploymentPlatform,
+  DeploymentPromotion,
+  PromotionAction
+} from '@/types/deployment';
+import { getDeployment, getDeploymentHistory, setProductionDeployment } from './deploymentService';
+import { getDeploymentProvider } from './deploymentProviders';
+
+interface DeploymentPromotionRow {
+  id: string;
+  project_id: string;
+  deployment_id: string;
+  action: PromotionAction;
+  production_url: string;
+  created_at: string;
+}
+
+export interface PreviewCleanupResult {
+  removed: Deployment[];
+  // Expired previews that couldn't be torn down yet, usually for lack of credentials
+  pending: Deployment[];
+}
+
+const mapPromotion = (row: DeploymentPromotionRow): DeploymentPromotion => ({
+  id: row.id,
+  projectId: row.project_id,
+  deploymentId: row.deployment_id,
+  action: row.action,
+  productionUrl: row.production_url,
+  created: new Date(row.created_at)
+});
+
+/**
+ * Get the changes to a project's production deployment, newest first
+ */
+export const getPromotionHistory = async (projectId: string): Promise<DeploymentPromotion[]> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('deployment_promotions')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('user_id', userData.user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapPromotion);
+  } catch (error) {
+    console.error('Error fetching promotion history:', error);
+    return [];
+  }
+};
+
+// Whether a deployment is still being served and can become production
+export const isDeploymentServable = (deployment: Deployment): boolean => {
+  return deployment.status === 'success' && !deployment.tornDownAt && Boolean(deployment.handle && deployment.url);
+};
+
+export const findProductionDeployment = (
+  deployments: Deployment[],
+  promotions: DeploymentPromotion[]
+): Deployment | null => {
+  return deployments.find(deployment => deployment.id === promotions[0]?.deploymentId) || null;
+};
+
+/**
+ * The deployment a rollback returns to: whichever deployment was production
+ * before the current one, going by the promotion log. Rollbacks take their
+ * deployment off the log, so rolling back again keeps stepping further back.
+ */
+export const findRollbackTarget = (
+  deployments: Deployment[],
+  promotions: DeploymentPromotion[]
+): Deployment | null => {
+  const current = findProductionDeployment(deployments, promotions);
+  if (!current) return null;
+
+  // Replay the log oldest first, so each rollback drops the deployments it rolled back from
+  const production: string[] = [];
+  [...promotions].reverse().forEach(promotion => {
+    const index = production.lastIndexOf(promotion.deploymentId);
+    if (promotion.action === 'rollback' && index !== -1) {
+      production.splice(index + 1);
+    } else {
+      production.push(promotion.deploymentId);
+    }
+  });
+
+  for (const deploymentId of production.reverse()) {
+    const deployment = deployments.find(entry => entry.id === deploymentId);
+    if (deployment && deployment.id !== current.id && isDeploymentServable(deployment)) {
+      return deployment;
+    }
+  }
+  return null;
+};
+
+/**
+ * Previews past their retention window. Anything that has been production is
+ * kept so it stays available as a rollback target.
+ */
+export const findExpiredPreviews = (
+  deployments: Deployment[],
+  promotions: DeploymentPromotion[],
+  now: Date = new Date()
+): Deployment[] => {
+  const promotedIds = new Set(promotions.map(promotion => promotion.deploymentId));
+  return deployments.filter(deployment =>
+    deployment.environment !== 'production' &&
+    isDeploymentServable(deployment) &&
+    deployment.expiresAt && deployment.expiresAt.getTime() <= now.getTime() &&
+    !promotedIds.has(deployment.id)
+  );
+};
+
+/**
+ * Serve an existing deployment as the project's production deployment
+ */
+export const promoteDeployment = async (
+  deploymentId: string,
+  credentials: DeploymentCredentials = {},
+  action: PromotionAction = 'promote'
+): Promise<boolean> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const deployment = await getDeployment(deploymentId);
+    if (!deployment) {
+      throw new Error('Deployment not found');
+    }
+    if (!isDeploymentServable(deployment)) {
+      throw new Error('Only deployments that are still live can be promoted');
+    }
+
+    const provider = getDeploymentProvider(deployment.platform);
+    if (!provider) {
+      throw new Error(`Unknown deployment platform: ${deployment.platform}`);
+    }
+
+    const productionUrl = (provider.promote ? await provider.promote(deployment.handle!, credentials) : null) || deployment.url!;
+    await setProductionDeployment(deployment.projectId, userData.user.id, deployment.id, deployment.platform, productionUrl, action);
+
+    toast.success(action === 'rollback' ? 'Rolled production back' : 'Promoted deployment to production');
+    return true;
+  } catch (error) {
+    console.error('Error promoting deployment:', error);
+    toast.error(error instanceof Error ? error.message : 'Failed to promote deployment');
+    return false;
+  }
+};
+
+/**
+ * Roll production back to the deployment that was live before the current one
+ */
+export const rollbackProduction = async (
+  projectId: string,
+  credentials: DeploymentCredentials = {}
+): Promise<boolean> => {
+  const [deployments, promotions] = await Promise.all([getDeploymentHistory(projectId), getPromotionHistory(projectId)]);
+  const target = findRollbackTarget(deployments, promotions);
+
+  if (!target) {
+    toast.error('There is no earlier production deployment to roll back to');
+    return false;
+  }
+
+  return promoteDeployment(target.id, credentials, 'rollback');
+};
+
+/**
+ * Tear down expired preview deployments. Providers that need credentials are
+ * skipped unless credentials for them are passed, and tried again next time.
+ */
+export const cleanupExpiredPreviews = async (
+  projectId: string,
+  credentials: Record<DeploymentPlatform, DeploymentCredentials> = {},
+  now: Date = new Date()
+): Promise<PreviewCleanupResult> => {
+  const result: PreviewCleanupResult = { removed: [], pending: [] };
+
+  try {
+    const [deployments, promotions] = await Promise.all([getDeploymentHistory(projectId), getPromotionHistory(projectId)]);
+
+    for (const deployment of findExpiredPreviews(deployments, promotions, now)) {
+      const provider = getDeploymentProvider(deployment.platform);
+      const platformCredentials = credentials[deployment.platform] || {};
+      const hasCredentials = provider?.credentialFields.every(field => field.optional || platformCredentials[field.key]?.trim());
+
+      if (!provider || !hasCredentials) {
+        result.pending.push(deployment);
+        continue;
+      }
+
+      try {
+        await provider.teardown(deployment.handle!, platformCredentials);
+
+        const { error } = await supabase
+          .from('deployments')
+          .update({ torn_down_at: now.toISOString() })
+          .eq('id', deployment.id);
+        if (error) throw error;
+
+        result.removed.push({ ...deployment, tornDownAt: now });
+      } catch (error) {
+        console.error(`Error removing preview deployment ${deployment.id}:`, error);
+        result.pending.push(deployment);
+      }
+    }
+  } catch (error) {
+    console.error('Error cleaning up preview deployments:', error);
+  }
+
+  return result;
+};
@@ -1,32 +1,226 @@
 import { supabase } from '@/lib/supabase';
 import { toast } from 'sonner';
-
-export interface DeploymentOptions {
-  buildCommand: string;
-  outputDirectory: string;
-  environmentVariables: Record<string, string>;
-  framework: string;
+import {
+  Deployment,
+  DeploymentContext,
+  DeploymentCredentials,
+  DeploymentFile,
+  DeploymentHandle,
+  DeploymentLogEntry,
+  DeploymentOptions,
+  DeploymentPhase,
+  DeploymentPlatform,
+  DeploymentProvider,
+  DeploymentResult,
+  DeploymentStatus,
+  EnvironmentName,
+  HealthCheckConfig,
+  HealthCheckOutcome,
+  HealthCheckReport,
+  PromotionAction
+} from '@/types/deployment';
+import { isExtractableArchive, isVendoredPath, readArchiveFiles } from '@/utils/archiveUtils';
+import { getDeploymentProvider } from './deploymentProviders';
+import { exportAsContainer } from './containerExportService';
+import { fingerprintEnvironment } from './environmentService';
+import { getHealthCheckConfig, parseHealthCheckReport, runHealthChecks, RunHealthChecksOptions } from './healthCheckService';
+
+export type { DeploymentOptions, DeploymentPlatform, DeploymentResult } from '@/types/deployment';
+
+// How often and how long to wait for a provider to report the deployment ready
+const STATUS_POLL_INTERVAL = 3000;
+const STATUS_TIMEOUT = 10 * 60 * 1000;
+
+// Days a preview deployment is kept before it is torn down
+export const PREVIEW_RETENTION_DAYS = 7;
+
+export interface RunDeploymentOptions {
+  onPhase?: (phase: DeploymentPhase) => void;
+  // Progress messages and the provider's own build output, in order
+  onLog?: (entry: DeploymentLogEntry) => void;
+  onStatus?: (status: DeploymentStatus) => void;
+  // Deployment job the recorded deployment belongs to
+  jobId?: string;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  // Checks to run once the deployment is ready; defaults to the project's saved checks
+  healthCheckConfig?: HealthCheckConfig;
+  healthCheckOptions?: RunHealthChecksOptions;
 }
 
-export interface DeploymentResult {
-  success: boolean;
-  deploymentUrl?: string;
-  error?: string;
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+interface DeploymentRow {
+  id: string;
+  project_id: string;
+  platform: string;
+  status: 'success' | 'failed';
+  environment: EnvironmentName | null;
+  deployment_url: string | null;
+  deployment_handle: DeploymentHandle | null;
+  revision_id: string | null;
+  job_id: string | null;
+  error_message: string | null;
+  health_check: HealthCheckReport | null;
+  expires_at: string | null;
+  torn_down_at: string | null;
+  created_at: string;
 }
 
+const mapDeployment = (row: DeploymentRow): Deployment => ({
+  id: row.id,
+  projectId: row.project_id,
+  platform: row.platform,
+  status: row.status,
+  // Rows from before environments existed were all production deploys
+  environment: row.environment || 'production',
+  url: row.deployment_url || undefined,
+  handle: row.deployment_handle || undefined,
+  revisionId: row.revision_id || undefined,
+  jobId: row.job_id || undefined,
+  error: row.error_message || undefined,
+  healthCheck: parseHealthCheckReport(row.health_check),
+  expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+  tornDownAt: row.torn_down_at ? new Date(row.torn_down_at) : undefined,
+  created: new Date(row.created_at)
+});
+
+// Deployment records keep variable names only; values are compared by fingerprint
+const redactOptions = (options: DeploymentOptions) => ({
+  ...options,
+  environmentVariables: Object.fromEntries(Object.keys(options.environmentVariables).map(key => [key, '']))
+});
+
+const getOutcomeLogLevel = (outcome: HealthCheckOutcome): DeploymentLogEntry['level'] => {
+  if (outcome === 'passed') return 'info';
+  return outcome === 'failed' ? 'error' : 'warning';
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 /**
- * Deploy a project to Vercel
+ * Read a code package into deployable files. A folder wrapping the whole
+ * project is dropped so paths line up with the configured output directory.
+ */
+export const readSourceFiles = async (
+  archive: Blob | ArrayBuffer,
+  fileName: string,
+  outputDirectory: string
+): Promise<DeploymentFile[]> => {
+  const files = (await readArchiveFiles(archive, fileName)).filter(file => !isVendoredPath(file.path));
+
+  const roots = new Set(files.map(file => file.path.split('/')[0]));
+  const [root] = Array.from(roots);
+  const outputRoot = outputDirectory.replace(/^\.?\/+/, '').split('/')[0];
+  const isWrapped = roots.size === 1 && files.every(file => file.path.includes('/')) && root !== outputRoot;
+
+  return files.map(file => ({
+    path: isWrapped ? file.path.slice(root.length + 1) : file.path,
+    bytes: file.bytes
+  }));
+};
+
+/**
+ * Build, upload and wait for a deployment to become ready
+ */
+export const runDeployment = async (
+  provider: DeploymentProvider,
+  context: DeploymentContext,
+  options: RunDeploymentOptions = {}
+): Promise<{ handle: DeploymentHandle; status: DeploymentStatus }> => {
+  const {
+    onPhase,
+    onLog,
+    onStatus,
+    pollIntervalMs = STATUS_POLL_INTERVAL,
+    timeoutMs = STATUS_TIMEOUT,
+    sleep = defaultSleep
+  } = options;
+  const log = (message: string, level: DeploymentLogEntry['level'] = 'info') => {
+    onLog?.({ timestamp: new Date(), level, message });
+  };
+
+  if (!provider.isAvailable()) {
+    throw new Error(`${provider.name} is not available in this environment`);
+  }
+
+  const variableCount = Object.keys(context.options.environmentVariables).length;
+  if (variableCount > 0 && !provider.supportsEnvironment) {
+    log(`${variableCount} environment variables are not used: ${provider.name} serves prebuilt files`, 'warning');
+  }
+
+  onPhase?.('building');
+  const build = await provider.build(context);
+  log(`Prepared ${build.files.length} files (${formatSize(build.totalSize)}) for ${provider.name}`);
+
+  onPhase?.('uploading');
+  const handle = await provider.upload(context, build);
+  log(`Uploaded deployment ${handle.id}`);
+
+  onPhase?.('verifying');
+  // Provider logs are re-read on every poll; only entries past the last count are new
+  let seenLogCount = 0;
+  const pullProviderLogs = async () => {
+    try {
+      const entries = await provider.logs(handle, context.credentials);
+      entries.slice(seenLogCount).forEach(entry => onLog?.(entry));
+      seenLogCount = Math.max(seenLogCount, entries.length);
+    } catch (error) {
+      console.error(`Error reading ${provider.name} logs:`, error);
+    }
+  };
+
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const status = await provider.status(handle, context.credentials);
+    onStatus?.(status);
+    if (onLog) await pullProviderLogs();
+
+    if (status.state === 'ready') {
+      log(`Deployment is live at ${handle.url}`);
+      return { handle, status };
+    }
+    if (status.state === 'error') throw new Error(status.error || 'Deployment failed');
+    if (status.state === 'stopped') throw new Error('Deployment was stopped before it became ready');
+    if (Date.now() >= deadline) throw new Error(`${provider.name} did not finish the deployment in time`);
+
+    await sleep(pollIntervalMs);
+  }
+};
+
+/**
+ * Deploy a project with a registered provider and record the result
  */
-export const deployToVercel = async (
+export const deployWithProvider = async (
+  platform: DeploymentPlatform,
   projectId: string,
-  options: DeploymentOptions
+  options: DeploymentOptions,
+  credentials: DeploymentCredentials = {},
+  runOptions: RunDeploymentOptions = {}
 ): Promise<DeploymentResult> => {
+  const log = (message: string, level: DeploymentLogEntry['level'] = 'info') => {
+    runOptions.onLog?.({ timestamp: new Date(), level, message });
+  };
+  // Set once the user is known, so failed attempts can be recorded too
+  let userId: string | null = null;
+
   try {
+    const provider = getDeploymentProvider(platform);
+    if (!provider) {
+      throw new Error(`Unknown deployment platform: ${platform}`);
+    }
+
     // Get user information
     const { data: userData, error: userError } = await supabase.auth.getUser();
     if (userError || !userData.user) {
       throw new Error('User not authenticated');
     }
+    userId = userData.user.id;
 
     // Get project information
     const { data: project, error: projectError } = await supabase
@@ -40,183 +234,292 @@ export const deployToVercel = async (
       throw new Error('Project not found or access denied');
     }
 
-    // Simulate deployment process
-    // In a real application, this would interact with Vercel's API
-    await new Promise(resolve => setTimeout(resolve, 3000));
-
-    // Log deployment
-    await supabase.from('deployments').insert({
-      project_id: projectId,
-      user_id: userData.user.id,
-      platform: 'vercel',
-      status: 'success',
-      deployment_url: `https://${project.name.toLowerCase().replace(/\s+/g, '-')}.vercel.app`,
-      deployment_options: options,
-      created_at: new Date().toISOString()
-    });
-
-    // Update project with deployment information
-    await supabase
-      .from('projects')
-      .update({
-        deployment_url: `https://${project.name.toLowerCase().replace(/\s+/g, '-')}.vercel.app`,
-        deployment_platform: 'vercel',
-        status: 'deployed',
-        updated_at: new Date().toISOString()
+    const environment = options.environment || 'production';
+    const isPreview = environment !== 'production';
+    if (isPreview && !provider.supportsPreview) {
+      throw new Error(`${provider.name} only hosts production deployments; deploy there with the production environment`);
+    }
+
+    // A specific revision can be deployed, e.g. as a preview of a change
+    let filePath: string | null = project.file_path;
+    let revisionId: string | null = project.current_revision_id || null;
+    if (options.revisionId) {
+      const { data: revision, error: revisionError } = await supabase
+        .from('project_revisions')
+        .select('id, file_path')
+        .eq('id', options.revisionId)
+        .eq('project_id', projectId)
+        .single();
+
+      if (revisionError || !revision) {
+        throw new Error('Revision not found');
+      }
+      filePath = revision.file_path;
+      revisionId = revision.id;
+    }
+
+    if (!filePath || !isExtractableArchive(filePath)) {
+      throw new Error('The project has no code package that can be deployed');
+    }
+
+    runOptions.onPhase?.('installing');
+    log(`Downloading code package ${filePath.split('/').pop()}`);
+    const { data: archive, error: downloadError } = await supabase.storage
+      .from('code_packages')
+      .download(filePath);
+
+    if (downloadError || !archive) {
+      throw downloadError || new Error('Code package not found');
+    }
+
+    const sourceFiles = await readSourceFiles(archive, filePath, options.outputDirectory);
+    log(`Read ${sourceFiles.length} files from the code package`);
+
+    const { handle } = await runDeployment(provider, {
+      projectId,
+      projectName: project.name,
+      options,
+      credentials,
+      sourceFiles
+    }, runOptions);
+
+    const healthCheckConfig = runOptions.healthCheckConfig || await getHealthCheckConfig(projectId);
+    let healthCheck: HealthCheckReport | undefined;
+    if (healthCheckConfig.paths.length > 0) {
+      log(`Running ${healthCheckConfig.paths.length} post-deployment checks`);
+      healthCheck = await runHealthChecks(handle.url, healthCheckConfig, runOptions.healthCheckOptions);
+
+      for (const result of healthCheck.results) {
+        const timing = result.latencyMs !== undefined ? ` in ${result.latencyMs}ms` : '';
+        const details = result.messages.length ? `: ${result.messages.join('; ')}` : '';
+        log(`Check ${result.path} ${result.outcome}${timing}${details}`, getOutcomeLogLevel(result.outcome));
+      }
+      if (healthCheck.tls) {
+        log(healthCheck.tls.message, getOutcomeLogLevel(healthCheck.tls.outcome));
+      }
+      if (healthCheckConfig.rollbackOnFailure && healthCheck.results.some(result => result.outcome === 'unchecked')) {
+        log('Some checks could not be read from the browser, so they cannot trigger a rollback', 'warning');
+      }
+    }
+
+    // A failing production deploy hands production back to the deployment it replaced
+    const shouldRollBack = !isPreview && healthCheck?.outcome === 'failed' && healthCheckConfig.rollbackOnFailure;
+    if (shouldRollBack) {
+      const restored = await restorePreviousProduction(project, userData.user.id, credentials, provider.id);
+      if (restored) {
+        healthCheck!.rolledBackTo = restored.id;
+        log(`Rolled production back to the deployment from ${restored.created.toLocaleString()}`, 'warning');
+      } else {
+        log('Checks failed and there is no earlier production deployment to roll back to', 'warning');
+      }
+    }
+
+    const createdAt = new Date();
+    const { data: deployment, error: insertError } = await supabase
+      .from('deployments')
+      .insert({
+        project_id: projectId,
+        user_id: userData.user.id,
+        platform: provider.id,
+        // Kept so the log and checks stay visible, but never offered for promotion
+        status: shouldRollBack ? 'failed' : 'success',
+        error_message: shouldRollBack ? 'Post-deployment checks failed' : null,
+        deployment_url: handle.url,
+        deployment_handle: handle,
+        deployment_options: redactOptions(options),
+        environment,
+        environment_fingerprint: fingerprintEnvironment(projectId, options.environmentVariables, options.secretKeys),
+        revision_id: revisionId,
+        job_id: runOptions.jobId || null,
+        health_check: healthCheck || null,
+        expires_at: isPreview
+          ? new Date(createdAt.getTime() + PREVIEW_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+          : null,
+        created_at: createdAt.toISOString()
       })
-      .eq('id', projectId);
+      .select('id')
+      .single();
+
+    if (insertError || !deployment) {
+      throw insertError || new Error('Failed to record the deployment');
+    }
+
+    if (shouldRollBack) {
+      return {
+        success: false,
+        error: 'Post-deployment checks failed',
+        deploymentUrl: handle.url,
+        handle,
+        healthCheck
+      };
+    }
+
+    // Production deploys go live on the project; previews only get their own URL
+    if (!isPreview) {
+      await setProductionDeployment(projectId, userData.user.id, deployment.id, provider.id, handle.url, 'deploy');
+    } else {
+      log(`Preview deployment expires in ${PREVIEW_RETENTION_DAYS} days`);
+    }
 
     return {
       success: true,
-      deploymentUrl: `https://${project.name.toLowerCase().replace(/\s+/g, '-')}.vercel.app`
+      deploymentUrl: handle.url,
+      handle,
+      healthCheck
     };
   } catch (error) {
-    console.error('Error deploying to Vercel:', error);
+    console.error(`Error deploying to ${platform}:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (userId) {
+      await supabase.from('deployments').insert({
+        project_id: projectId,
+        user_id: userId,
+        platform,
+        status: 'failed',
+        error_message: message,
+        deployment_options: redactOptions(options),
+        environment: options.environment || 'production',
+        revision_id: options.revisionId || null,
+        job_id: runOptions.jobId || null,
+        created_at: new Date().toISOString()
+      });
+    }
+
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
+      error: message
     };
   }
 };
 
 /**
- * Deploy a project to Netlify
+ * Make a recorded deployment the project's production deployment and log the change
  */
-export const deployToNetlify = async (
+export const setProductionDeployment = async (
   projectId: string,
-  options: DeploymentOptions
-): Promise<DeploymentResult> => {
-  try {
-    // Get user information
-    const { data: userData, error: userError } = await supabase.auth.getUser();
-    if (userError || !userData.user) {
-      throw new Error('User not authenticated');
-    }
+  userId: string,
+  deploymentId: string,
+  platform: DeploymentPlatform,
+  productionUrl: string,
+  action: PromotionAction
+): Promise<void> => {
+  const now = new Date().toISOString();
+
+  const { error: promotionError } = await supabase.from('deployment_promotions').insert({
+    project_id: projectId,
+    user_id: userId,
+    deployment_id: deploymentId,
+    action,
+    production_url: productionUrl,
+    created_at: now
+  });
+  if (promotionError) throw promotionError;
+
+  const { error: projectError } = await supabase
+    .from('projects')
+    .update({
+      deployment_url: productionUrl,
+      deployment_platform: platform,
+      production_deployment_id: deploymentId,
+      status: 'deployed',
+      updated_at: now
+    })
+    .eq('id', projectId);
+  if (projectError) throw projectError;
+};
 
-    // Get project information
-    const { data: project, error: projectError } = await supabase
-      .from('projects')
-      .select('*')
-      .eq('id', projectId)
-      .eq('user_id', userData.user.id)
-      .single();
+/**
+ * Serve the project's current production deployment again, undoing a deploy
+ * that already went live on the provider. Returns null if there is none or it
+ * can't be restored.
+ */
+const restorePreviousProduction = async (
+  project: { id: string; production_deployment_id?: string | null },
+  userId: string,
+  credentials: DeploymentCredentials,
+  platform: DeploymentPlatform
+): Promise<Deployment | null> => {
+  if (!project.production_deployment_id) return null;
 
-    if (projectError || !project) {
-      throw new Error('Project not found or access denied');
-    }
+  try {
+    const previous = await getDeployment(project.production_deployment_id);
+    if (!previous?.handle || !previous.url || previous.tornDownAt) return null;
 
-    // Simulate deployment process
-    // In a real application, this would interact with Netlify's API
-    await new Promise(resolve => setTimeout(resolve, 3000));
-
-    // Log deployment
-    await supabase.from('deployments').insert({
-      project_id: projectId,
-      user_id: userData.user.id,
-      platform: 'netlify',
-      status: 'success',
-      deployment_url: `https://${project.name.toLowerCase().replace(/\s+/g, '-')}.netlify.app`,
-      deployment_options: options,
-      created_at: new Date().toISOString()
-    });
-
-    // Update project with deployment information
-    await supabase
-      .from('projects')
-      .update({
-        deployment_url: `https://${project.name.toLowerCase().replace(/\s+/g, '-')}.netlify.app`,
-        deployment_platform: 'netlify',
-        status: 'deployed',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', projectId);
+    const provider = getDeploymentProvider(previous.platform);
+    // Credentials entered for this deploy only apply to the same platform
+    const productionUrl = (provider?.promote
+      ? await provider.promote(previous.handle, previous.platform === platform ? credentials : {})
+      : null) || previous.url;
 
-    return {
-      success: true,
-      deploymentUrl: `https://${project.name.toLowerCase().replace(/\s+/g, '-')}.netlify.app`
-    };
+    await setProductionDeployment(project.id, userId, previous.id, previous.platform, productionUrl, 'rollback');
+    return previous;
   } catch (error) {
-    console.error('Error deploying to Netlify:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
+    console.error('Error rolling back production:', error);
+    return null;
   }
 };
 
 /**
- * Deploy a project to GitHub Pages
+ * Get the environment fingerprint of the last successful deploy to a platform and environment
  */
-export const deployToGitHubPages = async (
+export const getLastDeployedEnvironment = async (
   projectId: string,
-  options: DeploymentOptions
-): Promise<DeploymentResult> => {
+  platform: DeploymentPlatform,
+  environment: EnvironmentName
+): Promise<Record<string, string> | null> => {
   try {
-    // Get user information
     const { data: userData, error: userError } = await supabase.auth.getUser();
     if (userError || !userData.user) {
       throw new Error('User not authenticated');
     }
 
-    // Get project information
-    const { data: project, error: projectError } = await supabase
-      .from('projects')
-      .select('*')
-      .eq('id', projectId)
+    const { data, error } = await supabase
+      .from('deployments')
+      .select('environment_fingerprint')
+      .eq('project_id', projectId)
       .eq('user_id', userData.user.id)
-      .single();
-
-    if (projectError || !project) {
-      throw new Error('Project not found or access denied');
-    }
-
-    // Simulate deployment process
-    // In a real application, this would interact with GitHub's API
-    await new Promise(resolve => setTimeout(resolve, 3000));
-
-    // Generate GitHub Pages URL
-    const githubUsername = userData.user.user_metadata?.github_username || 'user';
-    const deploymentUrl = `https://${githubUsername}.github.io/${project.name.toLowerCase().replace(/\s+/g, '-')}`;
-
-    // Log deployment
-    await supabase.from('deployments').insert({
-      project_id: projectId,
-      user_id: userData.user.id,
-      platform: 'github-pages',
-      status: 'success',
-      deployment_url: deploymentUrl,
-      deployment_options: options,
-      created_at: new Date().toISOString()
-    });
-
-    // Update project with deployment information
-    await supabase
-      .from('projects')
-      .update({
-        deployment_url: deploymentUrl,
-        deployment_platform: 'github-pages',
-        status: 'deployed',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', projectId);
-
-    return {
-      success: true,
-      deploymentUrl
-    };
+      .eq('platform', platform)
+      .eq('environment', environment)
+      .eq('status', 'success')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.environment_fingerprint || null;
   } catch (error) {
-    console.error('Error deploying to GitHub Pages:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
+    console.error('Error fetching last deployed environment:', error);
+    return null;
   }
 };
 
+/**
+ * Get a deploy function bound to a platform
+ */
+export const deployToProvider = (platform: DeploymentPlatform) =>
+  (projectId: string, options: DeploymentOptions, credentials?: DeploymentCredentials) =>
+    deployWithProvider(platform, projectId, options, credentials);
+
+/**
+ * Deploy a project to Vercel
+ */
+export const deployToVercel = deployToProvider('vercel');
+
+/**
+ * Deploy a project to Netlify
+ */
+export const deployToNetlify = deployToProvider('netlify');
+
+/**
+ * Deploy a project to GitHub Pages
+ */
+export const deployToGitHubPages = deployToProvider('github-pages');
+
 /**
  * Get deployment history for a project
  */
-export const getDeploymentHistory = async (projectId: string): Promise<any[]> => {
+export const getDeploymentHistory = async (projectId: string): Promise<Deployment[]> => {
   try {
     const { data: userData, error: userError } = await supabase.auth.getUser();
     if (userError || !userData.user) {
@@ -234,7 +537,7 @@ export const getDeploymentHistory = async (projectId: string): Promise<any[]> =>
       throw error;
     }
 
-    return data || [];
+    return (data || []).map(mapDeployment);
   } catch (error) {
     console.error('Error fetching deployment history:', error);
     toast.error('Failed to fetch deployment history');
@@ -242,6 +545,31 @@ export const getDeploymentHistory = async (projectId: string): Promise<any[]> =>
   }
 };
 
+/**
+ * Get a single deployment by id
+ */
+export const getDeployment = async (deploymentId: string): Promise<Deployment | null> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('deployments')
+      .select('*')
+      .eq('id', deploymentId)
+      .eq('user_id', userData.user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapDeployment(data) : null;
+  } catch (error) {
+    console.error('Error fetching deployment:', error);
+    return null;
+  }
+};
+
 /**
  * Get recommended deployment platform based on project technologies
  */
@@ -266,7 +594,10 @@ export const getRecommendedPlatform = (technologies: string[]): string => {
 /**
  * Generate deployment configuration based on project technologies
  */
-export const generateDeploymentConfig = (technologies: string[]): DeploymentOptions => {
+export const generateDeploymentConfig = (
+  technologies: string[],
+  environmentVariables: Record<string, string> = {}
+): DeploymentOptions => {
   const techLower = technologies.map(t => t.toLowerCase());
   let framework = 'react';
   let buildCommand = 'npm run build';
@@ -298,7 +629,8 @@ export const generateDeploymentConfig = (technologies: string[]): DeploymentOpti
     framework,
     buildCommand,
     outputDirectory,
-    environmentVariables: {}
+    environmentVariables,
+    environment: 'production'
   };
 };
 
@@ -308,10 +640,18 @@ export const generateDeploymentConfig = (technologies: string[]): DeploymentOpti
 export const exportAsStandalonePackage = async (
   projectId: string,
   options: {
-    format: 'zip' | 'tar';
+    // 'container' adds a Dockerfile, .dockerignore and compose file to the project's sources
+    format: 'zip' | 'tar' | 'container';
     includeNodeModules: boolean;
   }
 ): Promise<{ success: boolean; downloadUrl?: string; error?: string }> => {
+  if (options.format === 'container') {
+    const result = await exportAsContainer(projectId);
+    return result.success && result.archive
+      ? { success: true, downloadUrl: URL.createObjectURL(result.archive) }
+      : { success: false, error: result.error };
+  }
+
   try {
     // Get user information
     const { data: userData, error: userError } = await supabase.auth.getUser();
@@ -352,55 +692,3 @@ export const exportAsStandalonePackage = async (
     };
   }
 };
-
-/**
- * Export project as a Windows application
- */
-export const exportAsWindowsApp = async (
-  projectId: string,
-  options: {
-    appName: string;
-    appVersion: string;
-    includeUpdater: boolean;
-  }
-): Promise<{ success: boolean; downloadUrl?: string; error?: string }> => {
-  try {
-    // Get user information
-    const { data: userData, error: userError } = await supabase.auth.getUser();
-    if (userError || !userData.user) {
-      throw new Error('User not authenticated');
-    }
-
-    // Get project information
-    const { data: project, error: projectError } = await supabase
-      .from('projects')
-      .select('*')
-      .eq('id', projectId)
-      .eq('user_id', userData.user.id)
-      .single();
-
-    if (projectError || !project) {
-      throw new Error('Project not found or access denied');
-    }
-
-    // Simulate export process
-    await new Promise(resolve => setTimeout(resolve, 3000));
-
-    // In a real application, this would create and upload the Windows package to storage
-    const fileName = `${options.appName || project.name.toLowerCase().replace(/\s+/g, '-')}-${options.appVersion || '1.0.0'}.exe`;
-    const downloadUrl = `https://example.com/windows-exports/${fileName}`;
-
-    toast.success('Project exported as Windows application successfully');
-
-    return {
-      success: true,
-      downloadUrl
-    };
-  } catch (error) {
-    console.error('Error exporting as Windows app:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
-};
@@ -0,0 +1,135 @@
+import { DesktopExportBackend, DesktopExportBackendId, DesktopExportContext, ExportResult } from '@/types/export';
+import { createElectronSource, loadDesktopAppContent, toPackageName } from './desktopExportSources';
+
+// How often the build server is asked about a packaging job
+const REMOTE_POLL_INTERVAL = 10000;
+// 5 minutes at the default interval
+const REMOTE_MAX_POLLS = 30;
+
+const backends = new Map<DesktopExportBackendId, DesktopExportBackend>();
+
+/**
+ * Add a backend, replacing any registered under the same id
+ */
+export const registerDesktopExportBackend = (backend: DesktopExportBackend): void => {
+  backends.set(backend.id, backend);
+};
+
+export const getDesktopExportBackends = (): DesktopExportBackend[] => {
+  return Array.from(backends.values());
+};
+
+export const getDesktopExportBackend = (id: DesktopExportBackendId): DesktopExportBackend | null => {
+  return backends.get(id) || null;
+};
+
+/**
+ * The build server when one is configured, since it returns installers; otherwise the local zip
+ */
+export const getDefaultDesktopExportBackend = (): DesktopExportBackend | null => {
+  const available = getDesktopExportBackends().filter(backend => backend.isAvailable());
+  return available.find(backend => backend.id === 'remote') || available[0] || null;
+};
+
+/**
+ * Builds the Electron sources in the browser. The zip builds installers with
+ * `npm run dist` on a machine running the target OS.
+ */
+export const createLocalZipBackend = (): DesktopExportBackend => ({
+  id: 'local',
+  name: 'Electron source zip',
+  description: 'Build the Electron project in the browser and download it as a zip',
+  isAvailable: () => true,
+  run: async ({ platform, config, codePackagePath, onProgress }: DesktopExportContext): Promise<ExportResult> => {
+    onProgress('Reading the project build');
+    const content = await loadDesktopAppContent(codePackagePath, config);
+
+    onProgress('Creating the Electron project');
+    const zip = await createElectronSource(config, platform, content);
+
+    return {
+      success: true,
+      fileName: `${toPackageName(config.appName)}-${platform}-electron-source.zip`,
+      archive: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+    };
+  }
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Polls the packaging status endpoint until the build is complete
+ */
+const pollPackagingStatus = async (
+  statusUrl: string,
+  onProgress: (message: string) => void,
+  pollInterval: number
+): Promise<ExportResult> => {
+  for (let attempt = 0; attempt < REMOTE_MAX_POLLS; attempt++) {
+    try {
+      const response = await fetch(statusUrl);
+      const statusData = await response.json();
+
+      if (statusData.status === 'completed') {
+        return {
+          success: true,
+          downloadUrl: statusData.downloadUrl,
+          fileName: statusData.fileName
+        };
+      } else if (statusData.status === 'failed') {
+        return {
+          success: false,
+          error: statusData.error || 'Package build failed'
+        };
+      } else if (statusData.status === 'progress' && statusData.step) {
+        onProgress(statusData.message || `Building: ${statusData.step}`);
+      }
+    } catch (error) {
+      console.error('Error polling packaging status:', error);
+    }
+
+    await wait(pollInterval);
+  }
+
+  return {
+    success: false,
+    error: 'Timed out waiting for package build to complete'
+  };
+};
+
+/**
+ * Sends the export to the packaging service, which builds installers on the
+ * target OS and publishes them for download
+ */
+export const createRemoteBuildBackend = (
+  apiUrl: string | undefined,
+  pollInterval: number = REMOTE_POLL_INTERVAL
+): DesktopExportBackend => ({
+  id: 'remote',
+  name: 'Build server',
+  description: 'Build signed installers on the packaging service',
+  isAvailable: () => Boolean(apiUrl),
+  run: async ({ projectId, platform, config, onProgress }: DesktopExportContext): Promise<ExportResult> => {
+    onProgress('Sending the project to the build server');
+
+    const response = await fetch(`${apiUrl}/api/package-electron`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ projectId, platform, config })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.message || `The build server responded with status ${response.status}`);
+    }
+
+    const { statusUrl } = await response.json();
+    onProgress('Building on the build server');
+    return pollPackagingStatus(statusUrl, onProgress, pollInterval);
+  }
+});
+
+registerDesktopExportBackend(createLocalZipBackend());
+registerDesktopExportBackend(createRemoteBuildBackend(import.meta.env.VITE_API_URL));
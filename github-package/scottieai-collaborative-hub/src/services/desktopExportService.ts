@@ -0,0 +1,347 @@
+import { saveAs } from 'file-saver';
+import { supabase } from '@/lib/supabase';
+import { toast } from 'sonner';
+import {
+  DesktopExportBackendId,
+  DesktopExportJob,
+  DesktopExportStatus,
+  DesktopPlatform,
+  ExportConfig,
+  ExportResult
+} from '@/types/export';
+import { generateDeploymentConfig } from './deploymentService';
+import { getDefaultDesktopExportBackend, getDesktopExportBackend } from './desktopExportBackends';
+import { PLATFORM_NAMES, resolveExportConfig } from './desktopExportSources';
+import { createPersistedJobStore } from './persistedJobStore';
+
+type DesktopExportListener = (job: DesktopExportJob) => void;
+
+interface DesktopExportRow {
+  id: string;
+  project_id: string;
+  platform: DesktopPlatform;
+  backend: DesktopExportBackendId;
+  status: DesktopExportStatus;
+  config: Partial<ExportConfig> | null;
+  app_name: string | null;
+  app_version: string | null;
+  download_url: string | null;
+  file_name: string | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+const HISTORY_LIMIT = 50;
+
+// Exports run one at a time, in the order they were queued
+const queue: string[] = [];
+let isProcessing = false;
+
+const mapExport = (row: DesktopExportRow): DesktopExportJob => ({
+  id: row.id,
+  projectId: row.project_id,
+  platform: row.platform,
+  backend: row.backend,
+  status: row.status,
+  config: row.config || {},
+  appName: row.app_name || undefined,
+  appVersion: row.app_version || undefined,
+  downloadUrl: row.download_url || undefined,
+  fileName: row.file_name || undefined,
+  error: row.error || undefined,
+  createdAt: new Date(row.created_at),
+  startedAt: row.started_at ? new Date(row.started_at) : undefined,
+  finishedAt: row.finished_at ? new Date(row.finished_at) : undefined
+});
+
+const toRow = (job: DesktopExportJob, userId: string) => ({
+  id: job.id,
+  user_id: userId,
+  project_id: job.projectId,
+  platform: job.platform,
+  backend: job.backend,
+  status: job.status,
+  config: job.config,
+  app_name: job.appName || null,
+  app_version: job.appVersion || null,
+  download_url: job.downloadUrl || null,
+  file_name: job.fileName || null,
+  error: job.error || null,
+  created_at: job.createdAt.toISOString(),
+  started_at: job.startedAt ? job.startedAt.toISOString() : null,
+  finished_at: job.finishedAt ? job.finishedAt.toISOString() : null
+});
+
+// Exports queued in this session. They're saved when their status changes;
+// progress messages only live in the session.
+const jobs = createPersistedJobStore<DesktopExportJob>('desktop_exports', toRow, 'desktop export');
+
+export const isDesktopExportFinished = (job: DesktopExportJob): boolean => {
+  return job.status === 'completed' || job.status === 'failed';
+};
+
+const runExport = async (job: DesktopExportJob): Promise<ExportResult> => {
+  const backend = getDesktopExportBackend(job.backend);
+  if (!backend || !backend.isAvailable()) {
+    throw new Error(`The "${job.backend}" export backend is not available`);
+  }
+
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData.user) {
+    throw new Error('User not authenticated');
+  }
+
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', job.projectId)
+    .eq('user_id', userData.user.id)
+    .single();
+
+  if (projectError || !project) {
+    throw new Error('Project not found or access denied');
+  }
+
+  const config = resolveExportConfig(project.name, [job.platform], {
+    icon: project.icon_url || undefined,
+    outputDirectory: generateDeploymentConfig(project.technologies || []).outputDirectory,
+    ...job.config
+  });
+  jobs.update(job.id, () => ({ appName: config.appName, appVersion: config.appVersion }));
+
+  return backend.run({
+    projectId: job.projectId,
+    platform: job.platform,
+    config,
+    codePackagePath: project.file_path || null,
+    onProgress: message => jobs.update(job.id, () => ({ message }))
+  });
+};
+
+const processExport = async (jobId: string): Promise<void> => {
+  const platformName = PLATFORM_NAMES[jobs.get(jobId)!.platform];
+  const job = jobs.update(jobId, () => ({ status: 'running', startedAt: new Date() }));
+  jobs.persist(jobId);
+
+  const result = await runExport(job).catch((error): ExportResult => ({
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error'
+  }));
+
+  if (!result.success) {
+    console.error(`Error creating ${platformName} package:`, result.error);
+    toast.error(`${platformName} export failed: ${result.error || 'Unknown error'}`);
+    jobs.update(jobId, () => ({
+      status: 'failed',
+      error: result.error || 'Export failed',
+      message: undefined,
+      finishedAt: new Date()
+    }));
+    await jobs.persist(jobId);
+    return;
+  }
+
+  // Packages made in the browser are handed straight to the user
+  if (result.archive) {
+    saveAs(result.archive, result.fileName);
+  }
+
+  const { error: projectError } = await supabase
+    .from('projects')
+    .update({
+      has_desktop_export: true,
+      desktop_export_url: result.downloadUrl || result.fileName,
+      last_exported_at: new Date().toISOString()
+    })
+    .eq('id', job.projectId);
+
+  if (projectError) {
+    console.error('Error recording desktop export on project:', projectError);
+  }
+
+  toast.success(`${platformName} package created successfully!`);
+  jobs.update(jobId, () => ({
+    status: 'completed',
+    downloadUrl: result.downloadUrl,
+    fileName: result.fileName,
+    message: undefined,
+    finishedAt: new Date()
+  }));
+  await jobs.persist(jobId);
+};
+
+const processQueue = async (): Promise<void> => {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    while (queue.length > 0) {
+      const jobId = queue.shift()!;
+      try {
+        await processExport(jobId);
+      } catch (error) {
+        // Later exports still run, and whoever waits on this one hears it failed
+        console.error('Error processing desktop export:', error);
+        jobs.update(jobId, () => ({
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Export failed',
+          message: undefined,
+          finishedAt: new Date()
+        }));
+        await jobs.persist(jobId);
+      }
+    }
+  } finally {
+    isProcessing = false;
+  }
+};
+
+/**
+ * Queue a desktop export and return the queued job. The default backend is
+ * the build server when one is configured.
+ */
+export const queueDesktopExport = (
+  projectId: string,
+  platform: DesktopPlatform,
+  config: Partial<ExportConfig> = {},
+  backendId?: DesktopExportBackendId
+): DesktopExportJob => {
+  const job: DesktopExportJob = {
+    id: crypto.randomUUID(),
+    projectId,
+    platform,
+    backend: backendId || getDefaultDesktopExportBackend()?.id || 'local',
+    status: 'queued',
+    config,
+    appName: config.appName,
+    appVersion: config.appVersion,
+    createdAt: new Date()
+  };
+  jobs.add(job);
+  jobs.persist(job.id);
+
+  queue.push(job.id);
+  processQueue();
+  return job;
+};
+
+export const getDesktopExport = (jobId: string): DesktopExportJob | null => {
+  return jobs.get(jobId) || null;
+};
+
+/**
+ * Listen for changes to any export in this session; returns a function that stops listening
+ */
+export const subscribeToDesktopExports = (listener: DesktopExportListener): (() => void) => {
+  return jobs.subscribe(listener);
+};
+
+/**
+ * Resolve with the job once it has completed or failed
+ */
+export const waitForDesktopExport = (jobId: string): Promise<DesktopExportJob | null> => {
+  return new Promise(resolve => {
+    const job = jobs.get(jobId);
+    if (!job || isDesktopExportFinished(job)) {
+      resolve(job || null);
+      return;
+    }
+
+    const stop = subscribeToDesktopExports(update => {
+      if (update.id === jobId && isDesktopExportFinished(update)) {
+        stop();
+        resolve(update);
+      }
+    });
+  });
+};
+
+/**
+ * Get a project's exports, newest first, from Supabase and this session
+ */
+export const getDesktopExportHistory = async (projectId: string): Promise<DesktopExportJob[]> => {
+  const sessionExports = jobs.values().filter(job => job.projectId === projectId);
+
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('desktop_exports')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('user_id', userData.user.id)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT);
+
+    if (error) throw error;
+
+    // Unfinished exports from an earlier session stopped when its page closed
+    const storedExports = (data || [])
+      .map(row => mapExport(row as DesktopExportRow))
+      .filter(job => !jobs.has(job.id))
+      .map(job => isDesktopExportFinished(job) ? job : {
+        ...job,
+        status: 'failed' as const,
+        error: 'The export was interrupted before it finished'
+      });
+
+    return [...sessionExports, ...storedExports]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  } catch (error) {
+    console.error('Error fetching desktop export history:', error);
+    return sessionExports.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+};
+
+const exportDesktopApp = async (
+  projectId: string,
+  platform: DesktopPlatform,
+  config?: Partial<ExportConfig>,
+  backendId?: DesktopExportBackendId
+): Promise<ExportResult> => {
+  const job = await waitForDesktopExport(queueDesktopExport(projectId, platform, config, backendId).id);
+  return job?.status === 'completed'
+    ? { success: true, downloadUrl: job.downloadUrl, fileName: job.fileName }
+    : { success: false, error: job?.error || 'Export failed' };
+};
+
+/**
+ * Exports a project as a Windows desktop application: an installer from the
+ * build server, or Electron sources that build one with `npm run dist:win`
+ */
+export const exportAsWindowsApp = async (
+  projectId: string,
+  config?: Partial<ExportConfig>,
+  backendId?: DesktopExportBackendId
+): Promise<ExportResult> => {
+  return exportDesktopApp(projectId, 'win', config, backendId);
+};
+
+/**
+ * Exports a project as a Mac desktop application: signed dmg and zip packages
+ * from the build server, or Electron sources that build them on a Mac
+ */
+export const exportAsMacApp = async (
+  projectId: string,
+  config?: Partial<ExportConfig>,
+  backendId?: DesktopExportBackendId
+): Promise<ExportResult> => {
+  return exportDesktopApp(projectId, 'mac', config, backendId);
+};
+
+/**
+ * Exports a project as a Linux desktop application: AppImage, deb and rpm
+ * packages from the build server, or Electron sources that build them
+ */
+export const exportAsLinuxApp = async (
+  projectId: string,
+  config?: Partial<ExportConfig>,
+  backendId?: DesktopExportBackendId
+): Promise<ExportResult> => {
+  return exportDesktopApp(projectId, 'linux', config, backendId);
+};
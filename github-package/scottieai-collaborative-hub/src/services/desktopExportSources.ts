@@ -0,0 +1,681 @@
+// Electron sources for desktop exports
+// One generator per file of the Electron project, parameterized by platform,
+// around the project's own build output and icons
+
+import { toast } from 'sonner';
+import { supabase } from '@/lib/supabase';
+import JSZip from 'jszip';
+import { DeploymentFile } from '@/types/deployment';
+import { DesktopPlatform, ExportConfig, LinuxExportConfig, MacExportConfig } from '@/types/export';
+import { isExtractableArchive } from '@/utils/archiveUtils';
+import { createIconSet, IconSet } from '@/utils/iconUtils';
+import { readSourceFiles } from './deploymentService';
+import { selectOutputFiles } from './deploymentProviders';
+
+const DEFAULT_ELECTRON_VERSION = '26.2.1';
+
+export const PLATFORM_NAMES: Record<DesktopPlatform, string> = {
+  win: 'Windows',
+  mac: 'macOS',
+  linux: 'Linux'
+};
+
+// Electron's V8 needs these to run under the hardened runtime
+const ELECTRON_ENTITLEMENTS = [
+  'com.apple.security.cs.allow-jit',
+  'com.apple.security.cs.allow-unsigned-executable-memory'
+];
+
+const DEFAULT_MAC_CONFIG: MacExportConfig = {
+  targets: ['dmg', 'zip'],
+  arch: ['x64', 'arm64'],
+  category: 'public.app-category.productivity',
+  hardenedRuntime: true,
+  entitlements: [],
+  notarize: false
+};
+
+const DEFAULT_LINUX_CONFIG: LinuxExportConfig = {
+  targets: ['AppImage', 'deb', 'rpm'],
+  category: 'Utility',
+  debDepends: [],
+  rpmDepends: []
+};
+
+export const toPackageName = (appName: string): string => appName.toLowerCase().replace(/[^a-z0-9]/g, '-');
+
+/**
+ * Fill in an export configuration for a project, keeping what the caller set
+ */
+export const resolveExportConfig = (
+  projectName: string,
+  platforms: DesktopPlatform[],
+  config?: Partial<ExportConfig>
+): ExportConfig => {
+  const appName = config?.appName || projectName;
+  const description = config?.description || `${appName} Desktop Application`;
+  const author = config?.author || 'ScottieAI';
+
+  return {
+    ...config,
+    appName,
+    appVersion: config?.appVersion || '1.0.0',
+    electronVersion: config?.electronVersion || DEFAULT_ELECTRON_VERSION,
+    includeUpdater: config?.includeUpdater || false,
+    platforms,
+    description,
+    author,
+    copyright: config?.copyright || `Copyright © ${new Date().getFullYear()}`,
+    homepage: config?.homepage || '',
+    installerType: config?.installerType || 'nsis',
+    installerOptions: config?.installerOptions || {
+      oneClick: true,
+      perMachine: false,
+      allowToChangeInstallationDirectory: true,
+      createDesktopShortcut: true,
+      createStartMenuShortcut: true,
+      runAfterFinish: true
+    },
+    mac: { ...DEFAULT_MAC_CONFIG, ...config?.mac },
+    linux: { ...DEFAULT_LINUX_CONFIG, synopsis: description, maintainer: author, ...config?.linux }
+  };
+};
+
+export interface DesktopAppContent {
+  // The project's build output, with index.html at the root
+  build: DeploymentFile[];
+  icons?: IconSet;
+}
+
+/**
+ * Create the Electron source tree for one platform around the project's build
+ */
+export const createElectronSource = async (
+  config: ExportConfig,
+  platform: DesktopPlatform,
+  content: DesktopAppContent
+): Promise<JSZip> => {
+  // Without converted icons electron-builder falls back to the default Electron icon
+  const sourceConfig = content.icons ? config : { ...config, icon: undefined };
+  const shell = await createElectronAppStructure(sourceConfig);
+
+  const zip = new JSZip();
+  zip.file('package.json', createPackageJson(sourceConfig));
+  zip.file('main.js', createMainJs(sourceConfig, platform));
+  zip.file('preload.js', shell.preloadJs);
+  zip.file('error.html', shell.errorHtml);
+  zip.file('electron-builder.yml', createBuilderConfig(sourceConfig));
+
+  if (platform === 'win') {
+    zip.file('installer.nsh', createInstallerScript(config.appName, config.installerType));
+  }
+
+  const buildFolder = zip.folder('build');
+  if (platform === 'mac') {
+    buildFolder.file('entitlements.mac.plist', createEntitlementsPlist([
+      ...ELECTRON_ENTITLEMENTS,
+      ...(config.mac?.entitlements || [])
+    ]));
+  }
+
+  if (content.icons) {
+    const { png, ico, icns } = content.icons;
+    if (platform === 'win') buildFolder.file('icon.ico', ico);
+    if (platform === 'mac') buildFolder.file('icon.icns', icns);
+    if (platform === 'linux') {
+      png.forEach(image => buildFolder.file(`icons/${image.size}x${image.size}.png`, image.bytes));
+      // Packaged with the app for the window icon
+      const windowIcon = png.find(image => image.size === 512) || png[png.length - 1];
+      zip.file('icon.png', windowIcon.bytes);
+    }
+  }
+
+  // Add app files
+  const appFolder = zip.folder('app');
+  for (const file of content.build) {
+    appFolder.file(file.path, file.bytes);
+  }
+
+  return zip;
+};
+
+// A missing or unreadable icon shouldn't stop the export
+const fetchIconSet = async (iconUrl: string): Promise<IconSet | undefined> => {
+  try {
+    const response = await fetch(iconUrl);
+    if (!response.ok) throw new Error(`Icon request failed with status ${response.status}`);
+    return await createIconSet(await response.blob());
+  } catch (error) {
+    console.error('Error converting project icon:', error);
+    toast.warning('The project icon could not be converted, so the default icon is used');
+    return undefined;
+  }
+};
+
+/**
+ * Read the project's build output from its code package and convert its icon
+ */
+export const loadDesktopAppContent = async (
+  codePackagePath: string | null,
+  config: ExportConfig
+): Promise<DesktopAppContent> => {
+  // The desktop app serves the same build output a deployment would
+  if (!codePackagePath || !isExtractableArchive(codePackagePath)) {
+    throw new Error('The project has no code package that can be exported');
+  }
+
+  const { data: archive, error: downloadError } = await supabase.storage
+    .from('code_packages')
+    .download(codePackagePath);
+
+  if (downloadError || !archive) {
+    throw downloadError || new Error('Code package not found');
+  }
+
+  const outputDirectory = config.outputDirectory || '';
+  const sourceFiles = await readSourceFiles(archive, codePackagePath, outputDirectory);
+  const { files: build } = selectOutputFiles(sourceFiles, outputDirectory);
+  if (!build.some(file => file.path === 'index.html')) {
+    throw new Error(`No index.html found in "${outputDirectory || '.'}"`);
+  }
+
+  const icons = config.icon ? await fetchIconSet(config.icon) : undefined;
+  return { build, icons };
+};
+
+/**
+ * Creates the files the Electron shell adds around the project's build: the
+ * preload bridge and the page shown when the build can't be loaded.
+ * main.js fills in the error page's {{message}} placeholder.
+ */
+const createElectronAppStructure = async (
+  config: ExportConfig
+): Promise<{
+  preloadJs: string;
+  errorHtml: string;
+}> => {
+  // Create preload.js
+  const preloadJs = `const { contextBridge, ipcRenderer } = require('electron');
+
+// Expose protected methods that allow the renderer process to use
+// the ipcRenderer without exposing the entire object
+contextBridge.exposeInMainWorld(
+  'api', {
+    send: (channel, data) => {
+      // whitelist channels
+      let validChannels = ['toMain', 'checkForUpdates'];
+      if (validChannels.includes(channel)) {
+        ipcRenderer.send(channel, data);
+      }
+    },
+    receive: (channel, func) => {
+      let validChannels = ['fromMain', 'updateAvailable', 'updateDownloaded'];
+      if (validChannels.includes(channel)) {
+        // Deliberately strip event as it includes \`sender\` 
+        ipcRenderer.on(channel, (event, ...args) => func(...args));
+      }
+    }
+  }
+);`;
+
+  // Create error.html
+  const errorHtml = `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="UTF-8">
+    <title>${escapeHtml(config.appName)}</title>
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+    <style>
+      body {
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Ubuntu, Cantarell, 'Noto Sans', sans-serif;
+        margin: 0;
+        padding: 0;
+        background-color: #f5f5f5;
+        color: #333;
+      }
+
+      .container {
+        max-width: 560px;
+        margin: 15vh auto 0;
+        padding: 24px;
+        background-color: white;
+        border-radius: 8px;
+        box-shadow: 0 2px 10px rgba(0, 0, 0, 0.1);
+      }
+
+      h1 {
+        color: #2c3e50;
+        font-size: 20px;
+        margin-top: 0;
+      }
+
+      pre {
+        background-color: #f5f5f5;
+        border-radius: 4px;
+        padding: 12px;
+        white-space: pre-wrap;
+        word-break: break-word;
+      }
+    </style>
+  </head>
+  <body>
+    <div class="container">
+      <h1>${escapeHtml(config.appName)} couldn't start</h1>
+      <p>The application failed to load. Reinstalling version ${escapeHtml(config.appVersion)} usually fixes this.</p>
+      <pre>{{message}}</pre>
+    </div>
+  </body>
+</html>
+`;
+
+  return {
+    preloadJs,
+    errorHtml
+  };
+};
+
+/**
+ * Creates package.json for the Electron application, with a dist script
+ * per platform in the configuration
+ */
+export const createPackageJson = (config: ExportConfig): string => {
+  const platformScripts = Object.fromEntries(
+    config.platforms.map(platform => [`dist:${platform}`, `electron-builder --${platform}`])
+  );
+
+  const packageJson = {
+    name: toPackageName(config.appName),
+    version: config.appVersion,
+    description: config.description || `${config.appName} Desktop Application`,
+    main: 'main.js',
+    // deb and rpm packages link to it
+    homepage: config.homepage || undefined,
+    scripts: {
+      start: 'electron .',
+      pack: 'electron-builder --dir',
+      dist: `electron-builder ${config.platforms.map(platform => `--${platform}`).join(' ')}`,
+      ...platformScripts,
+      postinstall: 'electron-builder install-app-deps'
+    },
+    author: config.author || 'ScottieAI',
+    license: 'MIT',
+    devDependencies: {
+      electron: `^${config.electronVersion}`,
+      'electron-builder': '^24.6.3'
+    },
+    dependencies: {
+      'electron-updater': config.includeUpdater ? '^6.1.7' : undefined
+    }
+  };
+  
+  // Remove undefined values
+  Object.keys(packageJson).forEach(key => {
+    if (packageJson[key] === undefined) {
+      delete packageJson[key];
+    }
+    
+    if (typeof packageJson[key] === 'object' && packageJson[key] !== null) {
+      Object.keys(packageJson[key]).forEach(subKey => {
+        if (packageJson[key][subKey] === undefined) {
+          delete packageJson[key][subKey];
+        }
+      });
+    }
+  });
+  
+  return JSON.stringify(packageJson, null, 2);
+};
+
+/**
+ * Creates main.js for the Electron application. The project's build is served
+ * from app:// so root-relative asset paths and client-side routes work as they
+ * do on the web; anything that stops it loading shows error.html instead.
+ */
+const createMainJs = (config: ExportConfig, platform: DesktopPlatform): string => {
+  const { appName, includeUpdater } = config;
+  // Linux window managers take the window icon from the app; macOS and Windows use the bundle's
+  const platformOptions = platform === 'linux' && config.icon
+    ? "\n    icon: path.join(__dirname, 'icon.png'),"
+    : '';
+
+  return `const { app, BrowserWindow, ipcMain, net, protocol } = require('electron');
+const fs = require('fs');
+const path = require('path');
+const { pathToFileURL } = require('url');
+${includeUpdater ? "const { autoUpdater } = require('electron-updater');" : ''}
+
+const APP_DIR = path.join(__dirname, 'app');
+const APP_URL = 'app://bundle/';
+
+// Must be registered before the app is ready
+protocol.registerSchemesAsPrivileged([
+  { scheme: 'app', privileges: { standard: true, secure: true, supportFetchAPI: true } }
+]);
+
+// Keep a global reference of the window object
+let mainWindow;
+
+function serveApp() {
+  protocol.handle('app', (request) => {
+    const { pathname } = new URL(request.url);
+    let filePath = path.join(APP_DIR, decodeURIComponent(pathname));
+
+    if (filePath !== APP_DIR && !filePath.startsWith(APP_DIR + path.sep)) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    if (!fs.existsSync(filePath) || fs.statSync(filePath).isDirectory()) {
+      // Missing assets are errors; anything else is a client-side route
+      if (path.extname(filePath)) {
+        return new Response('Not found', { status: 404 });
+      }
+      filePath = path.join(APP_DIR, 'index.html');
+    }
+
+    return net.fetch(pathToFileURL(filePath).toString());
+  });
+}
+
+function escapeHtml(text) {
+  return String(text).replace(/[&<>"']/g, (char) => \`&#\${char.charCodeAt(0)};\`);
+}
+
+function showError(message) {
+  const template = fs.readFileSync(path.join(__dirname, 'error.html'), 'utf8');
+  const page = template.replace('{{message}}', escapeHtml(message));
+  mainWindow.loadURL('data:text/html;charset=utf-8,' + encodeURIComponent(page));
+}
+
+function createWindow() {
+  // Create the browser window
+  mainWindow = new BrowserWindow({
+    width: 1200,
+    height: 800,
+    webPreferences: {
+      preload: path.join(__dirname, 'preload.js'),
+      contextIsolation: true,
+      nodeIntegration: false
+    },
+    title: ${JSON.stringify(appName)},${platformOptions}
+  });
+
+  mainWindow.webContents.on('did-fail-load', (event, errorCode, errorDescription, validatedURL, isMainFrame) => {
+    if (isMainFrame && validatedURL.startsWith(APP_URL)) {
+      showError(\`\${errorDescription} (\${errorCode}) while loading \${validatedURL}\`);
+    }
+  });
+
+  mainWindow.webContents.on('render-process-gone', (event, details) => {
+    if (details.reason !== 'clean-exit') {
+      showError(\`The window stopped unexpectedly (\${details.reason}).\`);
+    }
+  });
+
+  // Load the project's build
+  if (fs.existsSync(path.join(APP_DIR, 'index.html'))) {
+    mainWindow.loadURL(APP_URL + 'index.html');
+  } else {
+    showError('The application files are missing: app/index.html was not found.');
+  }
+
+  // Open DevTools in development
+  // mainWindow.webContents.openDevTools();
+
+  // Emitted when the window is closed
+  mainWindow.on('closed', function () {
+    mainWindow = null;
+  });
+  
+  ${includeUpdater ? `
+  // Check for updates
+  autoUpdater.checkForUpdatesAndNotify();
+  
+  // Listen for update events
+  autoUpdater.on('update-available', (info) => {
+    mainWindow.webContents.send('updateAvailable', info);
+  });
+  
+  autoUpdater.on('update-downloaded', () => {
+    mainWindow.webContents.send('updateDownloaded');
+  });
+  
+  // Listen for manual update checks
+  ipcMain.on('checkForUpdates', () => {
+    autoUpdater.checkForUpdatesAndNotify();
+  });
+  ` : ''}
+}
+
+// This method will be called when Electron has finished initialization
+app.whenReady().then(() => {
+  serveApp();
+  createWindow();
+  
+  app.on('activate', function () {
+    if (BrowserWindow.getAllWindows().length === 0) createWindow();
+  });
+});
+
+// Quit when all windows are closed, except on macOS
+app.on('window-all-closed', function () {
+  if (process.platform !== 'darwin') app.quit();
+});
+
+// In this file you can include the rest of your app's specific main process code
+// You can also put them in separate files and require them here.`;
+};
+
+/**
+ * Creates the entitlements macOS checks under the hardened runtime
+ */
+const createEntitlementsPlist = (entitlements: string[]): string => {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+  <dict>
+${Array.from(new Set(entitlements)).map(entitlement => `    <key>${entitlement}</key>\n    <true/>`).join('\n')}
+  </dict>
+</plist>
+`;
+};
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+};
+
+// Free text is quoted so names with colons or quotes stay valid YAML
+const yamlString = (value: string): string => JSON.stringify(value);
+
+const yamlList = (items: string[], indent: string): string[] => items.map(item => `${indent}- ${item}`);
+
+const createWindowsSection = (config: ExportConfig): string[] => {
+  const installerType = config.installerType || 'nsis';
+  const installerOptions = config.installerOptions || {};
+  const artifactNames = {
+    nsis: '${productName}-setup-${version}.${ext}',
+    msi: '${productName}-${version}.${ext}',
+    portable: '${productName}-portable-${version}.${ext}'
+  };
+
+  const lines = [
+    'win:',
+    '  target:',
+    `    - ${installerType}`,
+    `  artifactName: ${artifactNames[installerType]}`
+  ];
+
+  if (config.icon) lines.push('  icon: build/icon.ico');
+
+  if (installerType === 'nsis') {
+    lines.push(
+      '',
+      'nsis:',
+      `  oneClick: ${installerOptions.oneClick !== false}`,
+      `  perMachine: ${installerOptions.perMachine === true}`,
+      `  allowToChangeInstallationDirectory: ${installerOptions.allowToChangeInstallationDirectory === true}`,
+      `  createDesktopShortcut: ${installerOptions.createDesktopShortcut !== false}`,
+      `  createStartMenuShortcut: ${installerOptions.createStartMenuShortcut !== false}`,
+      `  runAfterFinish: ${installerOptions.runAfterFinish !== false}`,
+      '  include: installer.nsh'
+    );
+  }
+
+  return lines;
+};
+
+const createMacSection = (config: ExportConfig): string[] => {
+  const mac = { ...DEFAULT_MAC_CONFIG, ...config.mac };
+  // Updates on macOS are applied from the zip, so it is always built alongside the updater
+  const targets = config.includeUpdater && !mac.targets.includes('zip') ? [...mac.targets, 'zip'] : mac.targets;
+
+  const lines = [
+    'mac:',
+    `  category: ${mac.category}`,
+    '  target:',
+    ...targets.flatMap(target => [
+      `    - target: ${target}`,
+      '      arch:',
+      ...yamlList(mac.arch, '        ')
+    ]),
+    '  artifactName: ${productName}-${version}-${arch}.${ext}',
+    `  hardenedRuntime: ${mac.hardenedRuntime !== false}`,
+    '  gatekeeperAssess: false',
+    '  entitlements: build/entitlements.mac.plist',
+    '  entitlementsInherit: build/entitlements.mac.plist'
+  ];
+
+  if (config.icon) lines.push('  icon: build/icon.icns');
+
+  if (mac.notarize && mac.teamId) {
+    lines.push('  notarize:', `    teamId: ${mac.teamId}`);
+  } else {
+    lines.push('  notarize: false');
+  }
+
+  if (targets.includes('dmg')) {
+    lines.push(
+      '',
+      'dmg:',
+      '  contents:',
+      '    - x: 130',
+      '      y: 220',
+      '    - x: 410',
+      '      y: 220',
+      '      type: link',
+      '      path: /Applications'
+    );
+  }
+
+  return lines;
+};
+
+const createLinuxSection = (config: ExportConfig): string[] => {
+  const linux = { ...DEFAULT_LINUX_CONFIG, ...config.linux };
+  const packageName = toPackageName(config.appName);
+
+  const lines = [
+    'linux:',
+    '  target:',
+    ...yamlList(linux.targets, '    '),
+    `  category: ${linux.category}`,
+    `  executableName: ${packageName}`,
+    '  artifactName: ${productName}-${version}-${arch}.${ext}'
+  ];
+
+  // A folder of <size>x<size>.png files
+  if (config.icon) lines.push('  icon: build/icons');
+  if (linux.maintainer) lines.push(`  maintainer: ${yamlString(linux.maintainer)}`);
+  if (linux.synopsis) lines.push(`  synopsis: ${yamlString(linux.synopsis)}`);
+
+  // Written to the .desktop entry that menus and launchers read
+  lines.push(
+    '  desktop:',
+    `    Name: ${yamlString(config.appName)}`,
+    `    Comment: ${yamlString(config.description || `${config.appName} Desktop Application`)}`,
+    `    Categories: ${linux.category};`,
+    `    StartupWMClass: ${packageName}`,
+    '    Terminal: false'
+  );
+
+  if (linux.targets.includes('deb') && linux.debDepends?.length) {
+    lines.push('', 'deb:', '  depends:', ...yamlList(linux.debDepends, '    '));
+  }
+  if (linux.targets.includes('rpm') && linux.rpmDepends?.length) {
+    lines.push('', 'rpm:', '  depends:', ...yamlList(linux.rpmDepends, '    '));
+  }
+
+  return lines;
+};
+
+const PLATFORM_SECTIONS: Record<DesktopPlatform, (config: ExportConfig) => string[]> = {
+  win: createWindowsSection,
+  mac: createMacSection,
+  linux: createLinuxSection
+};
+
+/**
+ * Creates electron-builder configuration with a section for each platform
+ */
+export const createBuilderConfig = (config: ExportConfig): string => {
+  const sections = [
+    [
+      `appId: com.scottieai.${config.appName.toLowerCase().replace(/[^a-z0-9]/g, '')}`,
+      `productName: ${yamlString(config.appName)}`,
+      `copyright: ${yamlString(config.copyright || `Copyright © ${new Date().getFullYear()}`)}`
+    ],
+    [
+      'directories:',
+      '  output: dist',
+      '  buildResources: build'
+    ],
+    [
+      'files:',
+      '  - main.js',
+      '  - preload.js',
+      '  - error.html',
+      // The Linux window icon is loaded at runtime
+      ...(config.icon && config.platforms.includes('linux') ? ['  - icon.png'] : []),
+      '  - app/**/*'
+    ]
+  ];
+
+  for (const platform of config.platforms) {
+    sections.push(PLATFORM_SECTIONS[platform](config));
+  }
+
+  if (config.includeUpdater) {
+    sections.push([
+      'publish:',
+      '  provider: generic',
+      '  url: https://example.com/updates/',
+      '  channel: latest'
+    ]);
+  }
+
+  return `${sections.map(lines => lines.join('\n')).join('\n\n')}\n`;
+};
+
+/**
+ * Creates NSIS installer script
+ */
+const createInstallerScript = (appName: string, installerType: string): string => {
+  if (installerType !== 'nsis') {
+    return '# No custom installer script for non-NSIS installers';
+  }
+  
+  return `!macro customHeader
+  # Custom header macro
+  !macroend
+
+!macro customInstall
+  # Custom install macro
+  DetailPrint "Installing ${appName}..."
+  # Add any custom installation steps here
+!macroend
+
+!macro customUnInstall
+  # Custom uninstall macro
+  DetailPrint "Uninstalling ${appName}..."
+  # Add any custom uninstallation steps here
+!macroend`;
+};
@@ -0,0 +1,192 @@
+import { supabase } from '@/lib/supabase';
+import { toast } from 'sonner';
+import { EnvironmentName, EnvironmentVariable } from '@/types/deployment';
+import { EncryptionService, defaultEncryptionConfig } from './encryptionService';
+import { UNKNOWN_FINGERPRINT } from '@/utils/envUtils';
+
+export const ENVIRONMENT_NAMES: EnvironmentName[] = ['development', 'preview', 'production'];
+
+// Variables as stored; secret values hold ciphertext
+interface StoredEnvironmentVariable {
+  key: string;
+  value: string;
+  secret: boolean;
+}
+
+// CryptoJS has no GCM mode, so CBC is set explicitly rather than falling back with a warning
+const encryption = () => EncryptionService.getInstance({ ...defaultEncryptionConfig, mode: 'CBC' });
+
+let unlocked = false;
+// Keys the fingerprints of secret values; derived from the passphrase, so it's only set while unlocked
+let fingerprintKey: string | null = null;
+
+export const isEnvironmentUnlocked = (): boolean => unlocked;
+
+/**
+ * Derive the key for secret values from the user's passphrase. The passphrase
+ * never leaves the browser, so secrets can't be read from the database alone.
+ */
+export const unlockEnvironmentSecrets = (passphrase: string, userId: string): void => {
+  const service = encryption();
+  // Decryption prefers keys cached at encryption time, which would bypass a new passphrase
+  service.clearKeyCache();
+  const key = service.deriveKey(passphrase, userId);
+  service.initialize(key);
+  fingerprintKey = service.createHMAC('environment-fingerprint', key);
+  unlocked = true;
+};
+
+// Forget the derived key, e.g. after a wrong passphrase
+export const lockEnvironmentSecrets = (): void => {
+  encryption().clearKeyCache();
+  fingerprintKey = null;
+  unlocked = false;
+};
+
+export const encryptSecret = (value: string): string => {
+  if (!unlocked) throw new Error('Unlock secrets before saving them');
+  return encryption().encrypt({ value });
+};
+
+export const decryptSecret = (ciphertext: string): string => {
+  if (!unlocked) throw new Error('Unlock secrets before reading them');
+
+  let decrypted: { value?: unknown } | null = null;
+  try {
+    decrypted = encryption().decrypt(ciphertext);
+  } catch {
+    // A wrong key fails to decode or yields garbage; both are reported below
+  }
+
+  if (typeof decrypted?.value !== 'string') {
+    throw new Error('Secrets could not be decrypted. Check your passphrase.');
+  }
+  return decrypted.value;
+};
+
+/**
+ * Fingerprint values so deploys can be compared without storing the values.
+ * Salted with the project id so equal values don't match across projects.
+ * Secret values get an HMAC keyed by the passphrase, since a plain hash of a
+ * short secret could be guessed offline; while locked they're recorded as unknown.
+ */
+export const fingerprintEnvironment = (
+  projectId: string,
+  variables: Record<string, string>,
+  secretKeys: string[] = []
+): Record<string, string> => {
+  const service = encryption();
+  return Object.fromEntries(
+    Object.entries(variables).map(([key, value]) => {
+      const data = `${projectId}:${key}:${value}`;
+      if (!secretKeys.includes(key)) return [key, service.hashKey(data)];
+      return [key, fingerprintKey ? service.createHMAC(data, fingerprintKey) : UNKNOWN_FINGERPRINT];
+    })
+  );
+};
+
+export const hasSecrets = (variables: { secret: boolean }[]): boolean => {
+  return variables.some(variable => variable.secret);
+};
+
+const readEnvironment = async (projectId: string, environment: EnvironmentName): Promise<StoredEnvironmentVariable[]> => {
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData.user) {
+    throw new Error('User not authenticated');
+  }
+
+  const { data, error } = await supabase
+    .from('project_environments')
+    .select('variables')
+    .eq('project_id', projectId)
+    .eq('user_id', userData.user.id)
+    .eq('environment', environment)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.variables || [];
+};
+
+/**
+ * Check whether an environment holds secrets, without decrypting anything
+ */
+export const environmentHasSecrets = async (projectId: string, environment: EnvironmentName): Promise<boolean> => {
+  try {
+    return hasSecrets(await readEnvironment(projectId, environment));
+  } catch (error) {
+    console.error('Error reading project environment:', error);
+    return false;
+  }
+};
+
+/**
+ * Load an environment's variables with secrets decrypted. Throws when the
+ * environment holds secrets and they are locked or the passphrase is wrong.
+ */
+export const getProjectEnvironment = async (
+  projectId: string,
+  environment: EnvironmentName
+): Promise<EnvironmentVariable[]> => {
+  const stored = await readEnvironment(projectId, environment);
+
+  return stored.map(variable => ({
+    key: variable.key,
+    value: variable.secret ? decryptSecret(variable.value) : variable.value,
+    secret: variable.secret
+  }));
+};
+
+/**
+ * Load an environment with secret values left empty, so it can be read while
+ * secrets are locked
+ */
+export const getProjectEnvironmentWithoutSecrets = async (
+  projectId: string,
+  environment: EnvironmentName
+): Promise<EnvironmentVariable[]> => {
+  const stored = await readEnvironment(projectId, environment);
+  return stored.map(variable => ({ ...variable, value: variable.secret ? '' : variable.value }));
+};
+
+/**
+ * Save an environment, encrypting secret values before they leave the browser
+ */
+export const saveProjectEnvironment = async (
+  projectId: string,
+  environment: EnvironmentName,
+  variables: EnvironmentVariable[]
+): Promise<boolean> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const stored: StoredEnvironmentVariable[] = variables
+      .filter(variable => variable.key)
+      .map(variable => ({
+        key: variable.key,
+        value: variable.secret ? encryptSecret(variable.value) : variable.value,
+        secret: variable.secret
+      }));
+
+    const { error } = await supabase
+      .from('project_environments')
+      .upsert({
+        project_id: projectId,
+        user_id: userData.user.id,
+        environment,
+        variables: stored,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'project_id,user_id,environment' });
+
+    if (error) throw error;
+
+    toast.success(`Saved ${environment} environment`);
+    return true;
+  } catch (error) {
+    console.error('Error saving project environment:', error);
+    toast.error(error instanceof Error ? error.message : 'Failed to save environment');
+    return false;
+  }
+};
@@ -1,17 +1,20 @@
 import { supabase } from '@/lib/supabase';
 import { toast } from 'sonner';
-import * as tf from '@tensorflow/tfjs';
 import { 
   initializeBaseLearningMetrics, 
   generateLearningInsights, 
   saveLearningData 
 } from '@/services/aiLearningService';
+import { initializeAIModelService } from '@/services/aiModelService';
+import { createProjectRevision, ProjectRevision } from '@/services/projectService';
+import { ArchiveEntry, extractArchive, getArchiveFormat, isExtractableArchive } from '@/utils/archiveUtils';
+import { diffFileSets, FileDiff } from '@/utils/diffUtils';
 import {
-  initializeAIModelService,
-  loadCodePatternModel,
-  loadOWLVisionModel,
-  analyzeCodePatterns
-} from '@/services/aiModelService';
+  detectTechnologiesFromFiles,
+  LanguageStatistic,
+  TechnologyDetectionResult,
+  TechnologyEvidence
+} from '@/utils/technologyDetection';
 
 export interface ProcessedProject {
   id: string;
@@ -22,6 +25,9 @@ export interface ProcessedProject {
   aiEnhancements?: string[];
   aiModels?: string[];
   processingSteps?: ProcessingStep[];
+  technologyEvidence?: TechnologyEvidence[];
+  languages?: LanguageStatistic[];
+  revisionNumber?: number;
 }
 
 export interface ProcessingStep {
@@ -40,13 +46,12 @@ export interface FileValidationResult {
 // Validate file before processing
 export const validateFile = (file: File): FileValidationResult => {
   // Check file type
-  const fileType = file.name.split('.').pop()?.toLowerCase();
-  const validTypes = ['zip', 'rar', '7z'];
+  const fileType = getArchiveFormat(file.name);
   
-  if (!fileType || !validTypes.includes(fileType)) {
+  if (!fileType) {
     return {
       isValid: false,
-      message: `Invalid file type. Please upload .zip, .rar, or .7z files.`
+      message: `Invalid file type. Please upload .zip, .tar.gz, .tar, .rar, or .7z files.`
     };
   }
   
@@ -65,8 +70,11 @@ export const validateFile = (file: File): FileValidationResult => {
   };
 };
 
-// Process uploaded file and create a new project
-export const processCodePackage = async (file: File): Promise<ProcessedProject | null> => {
+// Process an uploaded file into a new project, or into the next revision of an existing project
+export const processCodePackage = async (
+  file: File,
+  existingProjectId?: string
+): Promise<ProcessedProject | null> => {
   try {
     // Validate file
     const validation = validateFile(file);
@@ -82,94 +90,107 @@ export const processCodePackage = async (file: File): Promise<ProcessedProject |
     const { data: userData, error: userError } = await supabase.auth.getUser();
     if (userError || !userData.user) throw new Error('User not authenticated');
     
-    // 1. Upload file to Supabase storage
-    const fileName = `${Date.now()}_${file.name}`;
-    const filePath = `code_packages/${userData.user.id}/${fileName}`;
+    // 1. Extract project name from file name (remove extension)
+    const projectName = file.name.replace(/(\.tar)?\.[^/.]+$/, "");
     
-    // Create a FormData object to handle the file upload
-    const formData = new FormData();
-    formData.append('file', file);
+    // 2. Unpack the archive and detect technologies from its contents
+    toast.info('Analyzing code package contents...');
+    const detection = await detectTechnologies(file);
+    const technologies = detection.technologies;
     
-    // Show upload progress toast
-    toast.info('Uploading file to secure storage...');
+    // 3. Generate AI enhancement suggestions based on detected technologies
+    const aiEnhancements = await generateAIEnhancements(technologies);
+
+    // 4. Determine AI models to be used for processing
+    const aiModels = determineAIModels(technologies);
     
-    const { error: uploadError } = await supabase.storage
-      .from('code_packages')
-      .upload(filePath, file, {
-        cacheControl: '3600',
-        upsert: false
-      });
-      
-    if (uploadError) throw uploadError;
+    // 5. Generate processing steps
+    const processingSteps = generateProcessingSteps(technologies);
     
-    toast.success('File uploaded successfully!');
+    // 6. New projects need a row before their first revision can be stored
+    const projectFields = {
+      ai_enhancements: aiEnhancements,
+      ai_models: aiModels,
+      processing_steps: processingSteps,
+      updated_at: new Date().toISOString()
+    };
+    
+    let projectId = existingProjectId;
+    if (!projectId) {
+      const { data: createdProject, error: createError } = await supabase
+        .from('projects')
+        .insert([
+          {
+            ...projectFields,
+            name: projectName,
+            description: `Project created from ${file.name}`,
+            status: 'in-progress',
+            progress: 10, // Initial progress
+            user_id: userData.user.id,
+            created_at: new Date().toISOString()
+          }
+        ])
+        .select('id')
+        .single();
+        
+      if (createError) throw createError;
+      projectId = createdProject.id;
+    }
     
-    // 2. Extract project name from file name (remove extension)
-    const projectName = file.name.replace(/\.[^/.]+$/, "");
+    // 7. Upload the package to storage as the project's next revision
+    toast.info('Uploading file to secure storage...');
+    const revision = await createProjectRevision(projectId, file, file.name, {
+      source: 'upload',
+      description: `Uploaded ${file.name}`,
+      detection
+    });
     
-    // 3. Detect technologies with enhanced AI
-    toast.info('Analyzing code with AI...');
-    const technologies = await detectTechnologiesWithAI(file);
+    if (!revision) {
+      // Don't leave a project behind that has no code
+      if (!existingProjectId) {
+        await supabase.from('projects').delete().eq('id', projectId).eq('user_id', userData.user.id);
+      }
+      throw new Error('Failed to store code package');
+    }
     
-    // 4. Generate AI enhancement suggestions based on detected technologies
-    const aiEnhancements = await generateAIEnhancements(technologies);
-
-    // 5. Determine AI models to be used for processing
-    const aiModels = determineAIModels(technologies);
+    toast.success('File uploaded successfully!');
     
-    // 6. Generate processing steps
-    const processingSteps = generateProcessingSteps(technologies);
+    // Generate public URL for the file
+    const { data: publicUrlData } = supabase.storage
+      .from('code_packages')
+      .getPublicUrl(revision.filePath);
     
-    // 7. Create a new project in the database
-    toast.info('Creating project...');
+    // 8. Refresh the project only once its revision is stored, so a failed upload leaves it as it was
     const { data: projectData, error: projectError } = await supabase
       .from('projects')
-      .insert([
-        {
-          name: projectName,
-          description: `Project created from ${file.name}`,
-          status: 'in-progress',
-          progress: 10, // Initial progress
-          technologies: technologies,
-          ai_enhancements: aiEnhancements,
-          ai_models: aiModels,
-          processing_steps: processingSteps,
-          file_path: filePath,
-          user_id: userData.user.id,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        }
-      ])
+      .update({
+        ...projectFields,
+        ...(publicUrlData ? { file_public_url: publicUrlData.publicUrl } : {})
+      })
+      .eq('id', projectId)
+      .eq('user_id', userData.user.id)
       .select()
       .single();
       
     if (projectError) throw projectError;
     
-    // Generate public URL for the file
-    const { data: publicUrlData } = supabase.storage
-      .from('code_packages')
-      .getPublicUrl(filePath);
-      
-    // Update project with public URL
-    if (publicUrlData) {
-      await supabase
-        .from('projects')
-        .update({ file_public_url: publicUrlData.publicUrl })
-        .eq('id', projectData.id);
-    }
-    
-    toast.success('Project created successfully!');
+    toast.success(existingProjectId
+      ? `Uploaded revision ${revision.revisionNumber} of ${projectData.name}`
+      : 'Project created successfully!');
     
-    // 8. Return the created project
+    // 9. Return the processed project
     return {
       id: projectData.id,
       name: projectData.name,
-      technologies: projectData.technologies || [],
+      technologies: revision.technologies,
       status: projectData.status,
       progress: projectData.progress,
       aiEnhancements: projectData.ai_enhancements,
       aiModels: projectData.ai_models,
-      processingSteps: projectData.processing_steps
+      processingSteps: projectData.processing_steps,
+      technologyEvidence: revision.technologyEvidence,
+      languages: revision.languages,
+      revisionNumber: revision.revisionNumber
     };
   } catch (error) {
     console.error('Error processing code package:', error);
@@ -178,87 +199,38 @@ export const processCodePackage = async (file: File): Promise<ProcessedProject |
   }
 };
 
-// Enhanced AI-powered technology detection
-const detectTechnologiesWithAI = async (file: File): Promise<string[]> => {
-  const technologies: string[] = [];
+// Detect technologies from the archive's manifests and file statistics
+const detectTechnologies = async (file: File): Promise<TechnologyDetectionResult> => {
+  if (!isExtractableArchive(file.name)) {
+    toast.warning('This archive format cannot be inspected in the browser. Upload a .zip or .tar.gz for technology detection.');
+    return { technologies: [], evidence: [], languages: [] };
+  }
   
   try {
-    // Load TensorFlow.js and initialize models
-    await tf.ready();
-    console.log("TensorFlow.js is ready");
+    const entries = await extractArchive(file, file.name);
+    const detection = detectTechnologiesFromFiles(entries);
     
-    // Try to load the code pattern model
-    const codePatternModel = await loadCodePatternModel();
+    console.log(`Detected technologies from ${entries.length} files:`, detection.technologies);
     
-    // Read file content for analysis
-    if (file.name.endsWith('.zip') || file.name.endsWith('.rar') || file.name.endsWith('.7z')) {
-      // For compressed files, we analyze the name and extension patterns
-      // In a real implementation, you would extract and analyze the contents
-      
-      // Simulate model prediction for framework detection
-      // This would be replaced by actual TensorFlow.js model inference
-      const fileNameLower = file.name.toLowerCase();
-      
-      if (fileNameLower.includes('react')) technologies.push('React');
-      if (fileNameLower.includes('node')) technologies.push('Node.js');
-      if (fileNameLower.includes('angular')) technologies.push('Angular');
-      if (fileNameLower.includes('vue')) technologies.push('Vue.js');
-      if (fileNameLower.includes('electron')) technologies.push('Electron');
-      if (fileNameLower.includes('next')) technologies.push('Next.js');
-      
-      // Language detection
-      if (fileNameLower.includes('ts') || fileNameLower.includes('typescript')) 
-        technologies.push('TypeScript');
-      if (fileNameLower.includes('js') || technologies.length === 0) 
-        technologies.push('JavaScript');
-      
-      // Database detection
-      if (fileNameLower.includes('sql') || fileNameLower.includes('postgres')) 
-        technologies.push('PostgreSQL');
-      if (fileNameLower.includes('mongo')) 
-        technologies.push('MongoDB');
-        
-      // Enhanced AI analysis with real TensorFlow.js models
-      if (codePatternModel) {
-        console.log("Using real code pattern model for analysis");
-        
-        // Create a synthetic feature vector for demonstration
-        // In a real app, this would be based on actual code content
-        const featureVector = tf.tensor2d([[0.8, 0.7, 0.9, 0.6, 0.8]]);
-        
-        // Run inference
-        const prediction = codePatternModel.predict(featureVector) as tf.Tensor;
-        const result = await prediction.data();
-        
-        console.log("AI technology detection result:", result);
-        
-        // Cleanup tensors
-        tf.dispose([featureVector, prediction]);
-        
-        // Add technology based on prediction scores
-        // This is simplified for demonstration
-        const resultArray = Array.from(result);
-        if (resultArray[0] > 0.7) technologies.push('React');
-        if (resultArray[1] > 0.7) technologies.push('Node.js');
-        if (resultArray[2] > 0.7) technologies.push('TypeScript');
-        if (resultArray[3] > 0.7) technologies.push('PostgreSQL');
-      }
-      
-      // Use real TensorFlow.js for a demonstration
-      const demoTensor = tf.tensor1d([1, 2, 3]);
-      const result = await demoTensor.data();
-      console.log("TensorFlow.js demo result:", result);
-      tf.dispose(demoTensor);
-    }
-    
-    // Remove duplicates
-    return [...new Set(technologies)];
+    return detection;
   } catch (error) {
     console.error('Error detecting technologies:', error);
-    return ['JavaScript']; // Default fallback
+    toast.warning('Could not read the archive contents. Technology detection was skipped.');
+    return { technologies: [], evidence: [], languages: [] };
   }
 };
 
+// Technology groups used to pick enhancements, models and processing steps
+const FRONTEND_FRAMEWORKS = ['React', 'Next.js', 'Vue.js', 'Nuxt', 'Angular', 'Svelte'];
+const BACKEND_TECHNOLOGIES = [
+  'Node.js', 'Express', 'Koa', 'Fastify', 'NestJS',
+  'Django', 'Flask', 'FastAPI', 'Gin', 'Echo', 'Fiber', 'Actix Web', 'Rocket', 'Axum'
+];
+const DATABASES = ['PostgreSQL', 'MongoDB', 'MySQL', 'SQLite', 'Redis', 'Supabase'];
+
+const includesAny = (technologies: string[], group: string[]): boolean =>
+  technologies.some(tech => group.includes(tech));
+
 // Generate AI enhancement suggestions based on detected technologies
 const generateAIEnhancements = async (technologies: string[]): Promise<string[]> => {
   const enhancements: string[] = [];
@@ -275,15 +247,26 @@ const generateAIEnhancements = async (technologies: string[]): Promise<string[]>
   
   if (technologies.includes('Node.js')) {
     enhancements.push('Node.js Performance Optimization');
+  }
+  
+  if (includesAny(technologies, BACKEND_TECHNOLOGIES)) {
     enhancements.push('API Security Enhancement');
   }
   
+  if (technologies.includes('Python')) {
+    enhancements.push('Python Type Hint Coverage');
+  }
+  
+  if (technologies.includes('Go') || technologies.includes('Rust')) {
+    enhancements.push('Concurrency Safety Review');
+  }
+  
   if (technologies.includes('TypeScript')) {
     enhancements.push('TypeScript Type Safety Enhancement');
     enhancements.push('Code Quality Improvement');
   }
   
-  if (technologies.includes('PostgreSQL') || technologies.includes('MongoDB')) {
+  if (includesAny(technologies, DATABASES)) {
     enhancements.push('Database Query Optimization');
     enhancements.push('Data Schema Enhancement');
   }
@@ -300,11 +283,11 @@ const determineAIModels = (technologies: string[]): string[] => {
   models.push('CodePattern Analyzer');
   
   // Technology-specific models
-  if (technologies.includes('React') || technologies.includes('Vue.js') || technologies.includes('Angular')) {
+  if (includesAny(technologies, FRONTEND_FRAMEWORKS)) {
     models.push('Frontend Optimizer');
   }
   
-  if (technologies.includes('Node.js')) {
+  if (includesAny(technologies, BACKEND_TECHNOLOGIES)) {
     models.push('Backend Enhancer');
   }
   
@@ -312,7 +295,7 @@ const determineAIModels = (technologies: string[]): string[] => {
     models.push('TypeScript Validator');
   }
   
-  if (technologies.includes('PostgreSQL') || technologies.includes('MongoDB')) {
+  if (includesAny(technologies, DATABASES)) {
     models.push('Database Optimizer');
   }
   
@@ -349,7 +332,7 @@ const generateProcessingSteps = (technologies: string[]): ProcessingStep[] => {
   });
   
   // Technology-specific steps
-  if (technologies.includes('React') || technologies.includes('Vue.js') || technologies.includes('Angular')) {
+  if (includesAny(technologies, FRONTEND_FRAMEWORKS)) {
     steps.push({
       id: 'step-frontend',
       name: 'Frontend Optimization',
@@ -359,7 +342,7 @@ const generateProcessingSteps = (technologies: string[]): ProcessingStep[] => {
     });
   }
   
-  if (technologies.includes('Node.js')) {
+  if (includesAny(technologies, BACKEND_TECHNOLOGIES)) {
     steps.push({
       id: 'step-backend',
       name: 'Backend Enhancement',
@@ -379,7 +362,7 @@ const generateProcessingSteps = (technologies: string[]): ProcessingStep[] => {
     });
   }
   
-  if (technologies.includes('PostgreSQL') || technologies.includes('MongoDB')) {
+  if (includesAny(technologies, DATABASES)) {
     steps.push({
       id: 'step-database',
       name: 'Database Optimization',
@@ -468,3 +451,84 @@ export const prepareFileForDownload = async (projectId: string): Promise<string
     return null;
   }
 };
+
+
+// Download a code package from storage
+const downloadArchive = async (filePath: string): Promise<Blob> => {
+  const { data: archive, error: downloadError } = await supabase.storage
+    .from('code_packages')
+    .download(filePath);
+    
+  if (downloadError || !archive) throw downloadError || new Error('Archive not found');
+  return archive;
+};
+
+// Download a project's current code package from storage
+export const downloadProjectArchive = async (
+  projectId: string
+): Promise<{ archive: Blob; filePath: string } | null> => {
+  try {
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('file_path')
+      .eq('id', projectId)
+      .single();
+      
+    if (projectError || !project || !project.file_path) {
+      console.error('Error fetching project file path:', projectError);
+      return null;
+    }
+    
+    return { archive: await downloadArchive(project.file_path), filePath: project.file_path };
+  } catch (error) {
+    console.error('Error downloading project archive:', error);
+    return null;
+  }
+};
+
+// Download a project's code package from storage and unpack it
+export const getProjectFiles = async (projectId: string): Promise<ArchiveEntry[] | null> => {
+  try {
+    const download = await downloadProjectArchive(projectId);
+    if (!download) throw new Error('Project archive could not be downloaded');
+    
+    if (!isExtractableArchive(download.filePath)) {
+      toast.error('This archive format cannot be opened in the browser');
+      return null;
+    }
+    
+    return await extractArchive(download.archive, download.filePath);
+  } catch (error) {
+    console.error('Error loading project files:', error);
+    toast.error('Failed to load project files');
+    return null;
+  }
+};
+
+// Unpack the code package stored for a specific revision
+export const getRevisionFiles = async (revision: ProjectRevision): Promise<ArchiveEntry[]> => {
+  if (!isExtractableArchive(revision.filePath)) {
+    throw new Error(`Revision ${revision.revisionNumber} cannot be opened in the browser`);
+  }
+  
+  return extractArchive(await downloadArchive(revision.filePath), revision.filePath);
+};
+
+// Compare the files of two revisions of a project
+export const compareProjectRevisions = async (
+  fromRevision: ProjectRevision,
+  toRevision: ProjectRevision
+): Promise<FileDiff[] | null> => {
+  try {
+    const [fromFiles, toFiles] = await Promise.all([
+      getRevisionFiles(fromRevision),
+      getRevisionFiles(toRevision)
+    ]);
+    
+    return diffFileSets(fromFiles, toFiles);
+  } catch (error) {
+    console.error('Error comparing project revisions:', error);
+    toast.error('Failed to compare revisions');
+    return null;
+  }
+};
@@ -0,0 +1,264 @@
+import { supabase } from '@/lib/supabase';
+import { toast } from 'sonner';
+import {
+  HealthCheckAssertion,
+  HealthCheckConfig,
+  HealthCheckOutcome,
+  HealthCheckPath,
+  HealthCheckReport,
+  HealthCheckResult,
+  TlsCheckResult
+} from '@/types/deployment';
+
+export const DEFAULT_HEALTH_CHECK_CONFIG: HealthCheckConfig = {
+  paths: [{ path: '/', expectedStatus: 200 }],
+  tlsExpiryWarningDays: 14,
+  rollbackOnFailure: false,
+  timeoutMs: 10000
+};
+
+export interface RunHealthChecksOptions {
+  fetch?: typeof fetch;
+  // Returns when the site's certificate expires, or null if it can't be read here
+  getCertificateExpiry?: (url: URL) => Promise<Date | null>;
+  now?: Date;
+}
+
+const OUTCOME_RANK: Record<HealthCheckOutcome, number> = { passed: 0, unchecked: 1, warning: 2, failed: 3 };
+
+const worstOutcome = (outcomes: HealthCheckOutcome[]): HealthCheckOutcome => {
+  return outcomes.reduce<HealthCheckOutcome>((worst, outcome) => (
+    OUTCOME_RANK[outcome] > OUTCOME_RANK[worst] ? outcome : worst
+  ), 'passed');
+};
+
+/**
+ * Read a value from parsed JSON with a path like "$.data.items[0].id".
+ * Returns undefined when any step is missing.
+ */
+export const readJsonPath = (value: unknown, path: string): unknown => {
+  const steps: string[] = path.replace(/^\$\.?/, '').match(/[^.[\]]+|\[\d+\]/g) || [];
+
+  return steps.reduce<unknown>((current, step) => {
+    if (current === null || typeof current !== 'object') return undefined;
+    const key = step.startsWith('[') ? Number(step.slice(1, -1)) : step;
+    return (current as Record<string | number, unknown>)[key];
+  }, value);
+};
+
+// Describe why an assertion failed, or return null when it holds
+const checkAssertion = (assertion: HealthCheckAssertion, body: string): string | null => {
+  if (assertion.type === 'text') {
+    return body.includes(assertion.contains) ? null : `Response does not contain "${assertion.contains}"`;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return `Response is not JSON, so ${assertion.path} can't be checked`;
+  }
+
+  const actual = readJsonPath(parsed, assertion.path);
+  if (actual === undefined) return `${assertion.path} is missing`;
+  if (assertion.equals !== undefined && JSON.stringify(actual) !== JSON.stringify(assertion.equals)) {
+    return `${assertion.path} is ${JSON.stringify(actual)}, expected ${JSON.stringify(assertion.equals)}`;
+  }
+  return null;
+};
+
+const checkPath = async (
+  baseUrl: string,
+  check: HealthCheckPath,
+  timeoutMs: number,
+  fetchImpl: typeof fetch
+): Promise<HealthCheckResult> => {
+  const url = new URL(check.path.replace(/^\/+/, ''), baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`).toString();
+  const expectedStatus = check.expectedStatus ?? 200;
+  const messages: string[] = [];
+  const started = Date.now();
+
+  let response: Response;
+  try {
+    response = await fetchImpl(url, { redirect: 'follow', signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      return { path: check.path, url, outcome: 'failed', messages: [`No response within ${timeoutMs}ms`] };
+    }
+
+    // Browsers hide responses from sites that don't allow cross-origin reads. An opaque
+    // request still shows the site is reachable, but the status and body can't be checked.
+    try {
+      await fetchImpl(url, { mode: 'no-cors', signal: AbortSignal.timeout(timeoutMs) });
+      return {
+        path: check.path,
+        url,
+        outcome: 'unchecked',
+        latencyMs: Date.now() - started,
+        messages: ['Reachable, but the site does not allow cross-origin reads, so its status and assertions were not checked']
+      };
+    } catch {
+      return {
+        path: check.path,
+        url,
+        outcome: 'failed',
+        messages: [`Request failed: ${error instanceof Error ? error.message : 'unknown error'}`]
+      };
+    }
+  }
+
+  const body = await response.text().catch(() => '');
+  const latencyMs = Date.now() - started;
+  let outcome: HealthCheckOutcome = 'passed';
+
+  if (response.status !== expectedStatus) {
+    outcome = 'failed';
+    messages.push(`Status ${response.status}, expected ${expectedStatus}`);
+  }
+
+  for (const assertion of check.assertions || []) {
+    const failure = checkAssertion(assertion, body);
+    if (failure) {
+      outcome = 'failed';
+      messages.push(failure);
+    }
+  }
+
+  if (check.maxLatencyMs && latencyMs > check.maxLatencyMs) {
+    outcome = worstOutcome([outcome, 'warning']);
+    messages.push(`Took ${latencyMs}ms, over the ${check.maxLatencyMs}ms limit`);
+  }
+
+  return { path: check.path, url, outcome, status: response.status, latencyMs, messages };
+};
+
+/**
+ * Read a certificate's expiry with Node's tls module. Browsers don't expose
+ * certificates, so this returns null there.
+ */
+export const readCertificateExpiry = async (url: URL): Promise<Date | null> => {
+  if (typeof process === 'undefined' || !process.versions?.node) return null;
+
+  const { connect } = await import('node:tls');
+  return new Promise(resolve => {
+    const socket = connect({ host: url.hostname, port: Number(url.port) || 443, servername: url.hostname }, () => {
+      const { valid_to: validTo } = socket.getPeerCertificate();
+      socket.end();
+      resolve(validTo ? new Date(validTo) : null);
+    });
+    socket.setTimeout(10000, () => {
+      socket.destroy();
+      resolve(null);
+    });
+    socket.on('error', () => resolve(null));
+  });
+};
+
+export const evaluateCertificateExpiry = (validTo: Date, warningDays: number, now: Date = new Date()): TlsCheckResult => {
+  const daysRemaining = Math.floor((validTo.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+
+  if (daysRemaining < 0) {
+    return { outcome: 'failed', validTo, daysRemaining, message: `TLS certificate expired on ${validTo.toDateString()}` };
+  }
+  if (daysRemaining < warningDays) {
+    return { outcome: 'warning', validTo, daysRemaining, message: `TLS certificate expires in ${daysRemaining} days` };
+  }
+  return { outcome: 'passed', validTo, daysRemaining, message: `TLS certificate valid for ${daysRemaining} days` };
+};
+
+/**
+ * Run a project's checks against a deployment and summarise the results
+ */
+export const runHealthChecks = async (
+  baseUrl: string,
+  config: HealthCheckConfig,
+  options: RunHealthChecksOptions = {}
+): Promise<HealthCheckReport> => {
+  const { fetch: fetchImpl = fetch, getCertificateExpiry = readCertificateExpiry, now = new Date() } = options;
+
+  const results: HealthCheckResult[] = [];
+  for (const check of config.paths) {
+    results.push(await checkPath(baseUrl, check, config.timeoutMs, fetchImpl));
+  }
+
+  let tls: TlsCheckResult | undefined;
+  const url = new URL(baseUrl);
+  if (url.protocol === 'https:') {
+    const validTo = await getCertificateExpiry(url).catch(() => null);
+    tls = validTo
+      ? evaluateCertificateExpiry(validTo, config.tlsExpiryWarningDays, now)
+      : { outcome: 'unchecked', message: 'TLS certificate expiry was not checked: browsers do not expose certificates' };
+  }
+
+  return {
+    outcome: worstOutcome([...results.map(result => result.outcome), ...(tls ? [tls.outcome] : [])]),
+    results,
+    tls,
+    checkedAt: now
+  };
+};
+
+/**
+ * Restore dates in a report read back from JSON
+ */
+export const parseHealthCheckReport = (raw: HealthCheckReport | null | undefined): HealthCheckReport | undefined => {
+  if (!raw) return undefined;
+
+  return {
+    ...raw,
+    checkedAt: new Date(raw.checkedAt),
+    tls: raw.tls ? { ...raw.tls, validTo: raw.tls.validTo ? new Date(raw.tls.validTo) : undefined } : undefined
+  };
+};
+
+/**
+ * Get a project's post-deployment checks, or the defaults if none were saved
+ */
+export const getHealthCheckConfig = async (projectId: string): Promise<HealthCheckConfig> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('project_health_checks')
+      .select('config')
+      .eq('project_id', projectId)
+      .eq('user_id', userData.user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return { ...DEFAULT_HEALTH_CHECK_CONFIG, ...data?.config };
+  } catch (error) {
+    console.error('Error fetching health check config:', error);
+    return DEFAULT_HEALTH_CHECK_CONFIG;
+  }
+};
+
+export const saveHealthCheckConfig = async (projectId: string, config: HealthCheckConfig): Promise<boolean> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error } = await supabase
+      .from('project_health_checks')
+      .upsert({
+        project_id: projectId,
+        user_id: userData.user.id,
+        config,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'project_id,user_id' });
+
+    if (error) throw error;
+
+    toast.success('Saved deployment checks');
+    return true;
+  } catch (error) {
+    console.error('Error saving health check config:', error);
+    toast.error('Failed to save deployment checks');
+    return false;
+  }
+};
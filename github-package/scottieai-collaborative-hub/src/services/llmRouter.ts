@@ -0,0 +1,247 @@
+import { LLMProvider } from '@/types/llm';
+import { ChatProviderConfig, RetrySettings } from '@/types/chat';
+import {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  LLMConfig,
+  LLMError,
+  LLMService,
+  LLMServiceFactory
+} from './llmService';
+
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+// A single request made while routing a completion
+export interface RouteAttempt {
+  provider: LLMProvider;
+  attempt: number;
+  error?: string;
+  status?: number;
+  skipped?: boolean;
+}
+
+// Completion response recording which provider actually answered
+export interface RoutedCompletionResponse extends ChatCompletionResponse {
+  provider: LLMProvider;
+  model?: string;
+  attempts: RouteAttempt[];
+}
+
+export interface LLMRouterOptions {
+  // Providers to try, in fallback order
+  providers: ChatProviderConfig[];
+  retry: RetrySettings;
+  rateLimiter?: ProviderRateLimiter;
+  createService?: (provider: LLMProvider, config: LLMConfig) => LLMService;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+  now?: () => number;
+}
+
+// Tracks request timestamps and 429 cooldowns per provider over a sliding one-minute window
+export class ProviderRateLimiter {
+  private requests = new Map<LLMProvider, number[]>();
+  private cooldowns = new Map<LLMProvider, number>();
+
+  // Milliseconds until the provider can accept another request
+  getWaitTime(config: ChatProviderConfig, now: number): number {
+    const cooldownWait = (this.cooldowns.get(config.provider) || 0) - now;
+
+    let windowWait = 0;
+    if (config.rateLimitPerMinute) {
+      const recent = this.getRecentRequests(config.provider, now);
+      if (recent.length >= config.rateLimitPerMinute) {
+        windowWait = recent[recent.length - config.rateLimitPerMinute] + RATE_LIMIT_WINDOW_MS - now;
+      }
+    }
+
+    return Math.max(0, cooldownWait, windowWait);
+  }
+
+  recordRequest(provider: LLMProvider, now: number): void {
+    this.requests.set(provider, [...this.getRecentRequests(provider, now), now]);
+  }
+
+  setCooldown(provider: LLMProvider, until: number): void {
+    this.cooldowns.set(provider, Math.max(until, this.cooldowns.get(provider) || 0));
+  }
+
+  private getRecentRequests(provider: LLMProvider, now: number): number[] {
+    return (this.requests.get(provider) || []).filter(time => now - time < RATE_LIMIT_WINDOW_MS);
+  }
+}
+
+// Rate limits, timeouts, server errors and network failures are worth retrying
+export const isRetryableError = (error: LLMError): boolean => {
+  if (error.status !== undefined) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  // fetch rejects with a TypeError when the network request itself fails
+  return error instanceof TypeError;
+};
+
+const toError = (error: unknown): LLMError =>
+  error instanceof Error ? error : new Error(String(error));
+
+// Routes chat completions across providers, retrying with backoff and falling back in order
+export class LLMRouter {
+  private providers: ChatProviderConfig[];
+  private retry: RetrySettings;
+  private rateLimiter: ProviderRateLimiter;
+  private createService: (provider: LLMProvider, config: LLMConfig) => LLMService;
+  private sleep: (ms: number) => Promise<void>;
+  private random: () => number;
+  private now: () => number;
+
+  constructor(options: LLMRouterOptions) {
+    this.providers = options.providers;
+    this.retry = options.retry;
+    this.rateLimiter = options.rateLimiter || new ProviderRateLimiter();
+    this.createService = options.createService || LLMServiceFactory.createService;
+    this.sleep = options.sleep || (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.random = options.random || Math.random;
+    this.now = options.now || Date.now;
+  }
+
+  async getChatCompletion(request: ChatCompletionRequest): Promise<RoutedCompletionResponse> {
+    return this.route(request, (service, attemptRequest) => service.getChatCompletion(attemptRequest));
+  }
+
+  // Falls back only while nothing has been streamed, so partial answers are never mixed
+  async streamChatCompletion(
+    request: ChatCompletionRequest,
+    onChunk: (chunk: string) => void
+  ): Promise<RoutedCompletionResponse> {
+    return this.route(request, (service, attemptRequest, onFirstChunk) =>
+      new Promise<ChatCompletionResponse>((resolve, reject) => {
+        service.streamChatCompletion(
+          { ...attemptRequest, stream: true },
+          chunk => {
+            onFirstChunk();
+            onChunk(chunk);
+          },
+          resolve,
+          reject
+        ).catch(reject);
+      })
+    );
+  }
+
+  // Full-jitter exponential backoff, never shorter than the provider's Retry-After
+  getBackoffDelay(attempt: number, retryAfterMs?: number): number {
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    return Math.max(Math.floor(this.random() * ceiling), retryAfterMs || 0);
+  }
+
+  private async route(
+    request: ChatCompletionRequest,
+    run: (
+      service: LLMService,
+      request: ChatCompletionRequest,
+      onFirstChunk: () => void
+    ) => Promise<ChatCompletionResponse>
+  ): Promise<RoutedCompletionResponse> {
+    if (this.providers.length === 0) {
+      throw new Error('No LLM providers are configured');
+    }
+
+    const attempts: RouteAttempt[] = [];
+    let lastError: LLMError | null = null;
+
+    for (let index = 0; index < this.providers.length; index++) {
+      const config = this.providers[index];
+      const isLastProvider = index === this.providers.length - 1;
+      const service = this.createService(config.provider, {
+        apiKey: config.apiKey,
+        model: config.model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        baseUrl: config.baseUrl
+      });
+
+      for (let attempt = 0; attempt <= this.retry.maxRetries; attempt++) {
+        const wait = this.rateLimiter.getWaitTime(config, this.now());
+        if (wait > 0) {
+          // Prefer another provider over waiting out a rate limit
+          if (!isLastProvider) {
+            attempts.push({ provider: config.provider, attempt, error: 'Rate limited', skipped: true });
+            break;
+          }
+          await this.sleep(wait);
+        }
+
+        this.rateLimiter.recordRequest(config.provider, this.now());
+
+        const controller = new AbortController();
+        let timedOut = false;
+        let streamed = false;
+        const timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, this.retry.timeoutMs);
+        const abortFromCaller = () => controller.abort();
+        request.signal?.addEventListener('abort', abortFromCaller);
+
+        try {
+          const response = await run(service, { ...request, signal: controller.signal }, () => {
+            // The timeout covers waiting for the first token, not the whole stream
+            streamed = true;
+            clearTimeout(timer);
+          });
+
+          attempts.push({ provider: config.provider, attempt });
+          return {
+            ...response,
+            provider: config.provider,
+            model: config.model,
+            attempts
+          };
+        } catch (caught) {
+          if (request.signal?.aborted) {
+            throw toError(caught);
+          }
+
+          const error: LLMError = timedOut
+            ? Object.assign(new Error(`${config.provider} request timed out after ${this.retry.timeoutMs}ms`), { status: 408 })
+            : toError(caught);
+
+          attempts.push({ provider: config.provider, attempt, error: error.message, status: error.status });
+          lastError = error;
+
+          if (streamed) {
+            throw error;
+          }
+
+          if (!isRetryableError(error)) {
+            break;
+          }
+
+          const delay = this.getBackoffDelay(attempt, error.retryAfterMs);
+          if (error.status === 429) {
+            this.rateLimiter.setCooldown(config.provider, this.now() + delay);
+          }
+
+          if (attempt === this.retry.maxRetries) {
+            break;
+          }
+
+          // Don't sit out a long Retry-After when another provider can answer
+          if (delay > this.retry.maxDelayMs && !isLastProvider) {
+            break;
+          }
+
+          await this.sleep(delay);
+        } finally {
+          clearTimeout(timer);
+          request.signal?.removeEventListener('abort', abortFromCaller);
+        }
+      }
+    }
+
+    const failure: LLMError = new Error(
+      `All providers failed (${this.providers.map(config => config.provider).join(', ')}): ${lastError?.message || 'rate limited'}`
+    );
+    failure.status = lastError?.status;
+    throw failure;
+  }
+}
@@ -1,4 +1,11 @@
-import { LLMProvider } from '@/types/llm';
+import {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  LLMProvider,
+  ToolCall,
+  ToolDefinition
+} from '@/types/llm';
 
 // Interface for LLM API configuration
 export interface LLMConfig {
@@ -10,30 +17,202 @@ export interface LLMConfig {
   headers?: Record<string, string>;
 }
 
-// Interface for chat message
-export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
+// Chat types are shared with the rest of the app
+export type { ChatMessage, ChatCompletionRequest, ChatCompletionResponse } from '@/types/llm';
+
+// Error raised when a provider responds with a failure status
+export interface LLMError extends Error {
+  status?: number;
+  retryAfterMs?: number;
 }
 
-// Interface for chat completion request
-export interface ChatCompletionRequest {
-  messages: ChatMessage[];
-  temperature?: number;
-  maxTokens?: number;
-  stream?: boolean;
+export const createResponseError = (message: string, response: Response): LLMError => {
+  const error: LLMError = new Error(message);
+  error.status = response.status;
+
+  // Retry-After is either a number of seconds or an HTTP date
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    error.retryAfterMs = Number.isNaN(seconds)
+      ? Math.max(0, Date.parse(retryAfter) - Date.now())
+      : seconds * 1000;
+  }
+
+  return error;
+};
+
+// Tool arguments arrive as a JSON string from OpenAI-compatible APIs and as objects elsewhere
+const parseToolArguments = (raw: unknown): Record<string, unknown> => {
+  if (typeof raw !== 'string') return (raw as Record<string, unknown>) || {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+};
+
+// OpenAI wire format, also spoken by self-hosted servers
+interface OpenAIMessage {
+  role: string;
+  content: string | null;
+  tool_call_id?: string;
+  tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
 }
 
-// Interface for chat completion response
-export interface ChatCompletionResponse {
-  id: string;
-  message: ChatMessage;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
+const toOpenAIMessages = (messages: ChatMessage[]): OpenAIMessage[] =>
+  messages.flatMap((message): OpenAIMessage[] => {
+    if (message.role === 'tool') {
+      return (message.toolResults || []).map(result => ({
+        role: 'tool',
+        tool_call_id: result.callId,
+        content: result.content
+      }));
+    }
+
+    if (message.toolCalls?.length) {
+      return [{
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      }];
+    }
+
+    return [{ role: message.role, content: message.content }];
+  });
+
+const toOpenAITools = (tools?: ToolDefinition[]) =>
+  tools?.length ? tools.map(tool => ({ type: 'function', function: tool })) : undefined;
+
+const fromOpenAIToolCalls = (
+  toolCalls?: { id: string; function: { name: string; arguments: string } }[]
+): ToolCall[] | undefined =>
+  toolCalls?.length
+    ? toolCalls.map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments)
+      }))
+    : undefined;
+
+// Anthropic takes the system prompt separately and tool traffic as content blocks
+const toAnthropicRequest = (messages: ChatMessage[]) => {
+  const system = messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n');
+
+  const converted = messages
+    .filter(message => message.role !== 'system')
+    .map(message => {
+      if (message.role === 'tool') {
+        return {
+          role: 'user',
+          content: (message.toolResults || []).map(result => ({
+            type: 'tool_result',
+            tool_use_id: result.callId,
+            content: result.content,
+            ...(result.isError ? { is_error: true } : {})
+          }))
+        };
+      }
+
+      if (message.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: [
+            ...(message.content ? [{ type: 'text', text: message.content }] : []),
+            ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+          ]
+        };
+      }
+
+      return { role: message.role, content: message.content };
+    });
+
+  return { system: system || undefined, messages: converted };
+};
+
+const toAnthropicTools = (tools?: ToolDefinition[]) =>
+  tools?.length
+    ? tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+    : undefined;
+
+const COHERE_ROLES: Record<ChatMessage['role'], string> = {
+  user: 'USER',
+  assistant: 'CHATBOT',
+  system: 'SYSTEM',
+  tool: 'TOOL'
+};
+
+const COHERE_TYPES: Record<ToolDefinition['parameters']['properties'][string]['type'], string> = {
+  string: 'str',
+  number: 'float',
+  integer: 'int',
+  boolean: 'bool'
+};
+
+// Cohere matches tool results to calls by name and parameters rather than by id
+const toCohereToolResults = (message: ChatMessage, calls: ToolCall[] = []) =>
+  (message.toolResults || []).map(result => ({
+    call: {
+      name: result.name,
+      parameters: calls.find(call => call.id === result.callId)?.arguments || {}
+    },
+    outputs: [{ output: result.content }]
+  }));
+
+// Cohere sends the latest turn as `message` (or `tool_results`) and earlier turns as chat_history
+const toCohereRequest = (messages: ChatMessage[]) => {
+  const history = messages.map((message, index) => {
+    if (message.role === 'tool') {
+      return { role: COHERE_ROLES.tool, tool_results: toCohereToolResults(message, messages[index - 1]?.toolCalls) };
+    }
+    return {
+      role: COHERE_ROLES[message.role],
+      message: message.content,
+      ...(message.toolCalls?.length
+        ? { tool_calls: message.toolCalls.map(call => ({ name: call.name, parameters: call.arguments })) }
+        : {})
+    };
+  });
+
+  const last = messages[messages.length - 1];
+  if (last?.role === 'tool') {
+    return {
+      message: '',
+      chat_history: history.slice(0, -1),
+      tool_results: toCohereToolResults(last, messages[messages.length - 2]?.toolCalls)
+    };
+  }
+
+  return {
+    message: last?.content || '',
+    chat_history: history.slice(0, -1)
   };
-}
+};
+
+const toCohereTools = (tools?: ToolDefinition[]) =>
+  tools?.length
+    ? tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parameter_definitions: Object.fromEntries(
+          Object.entries(tool.parameters.properties).map(([name, parameter]) => [
+            name,
+            {
+              description: parameter.description,
+              type: COHERE_TYPES[parameter.type],
+              required: tool.parameters.required?.includes(name) || false
+            }
+          ])
+        )
+      }))
+    : undefined;
 
 // Abstract class for LLM service providers
 export abstract class LLMService {
@@ -79,17 +258,19 @@ export class OpenAIService extends LLMService {
           'Authorization': `Bearer ${this.config.apiKey}`,
           ...this.config.headers
         },
+        signal: request.signal,
         body: JSON.stringify({
           model: this.config.model,
-          messages: request.messages,
+          messages: toOpenAIMessages(request.messages),
+          tools: toOpenAITools(request.tools),
           temperature: request.temperature || this.config.temperature,
           max_tokens: request.maxTokens || this.config.maxTokens
         })
       });
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
+        const error = await response.json().catch(() => ({}));
+        throw createResponseError(`OpenAI API error: ${error.error?.message || response.statusText}`, response);
       }
 
       const data = await response.json();
@@ -98,7 +279,8 @@ export class OpenAIService extends LLMService {
         id: data.id,
         message: {
           role: 'assistant',
-          content: data.choices[0].message.content
+          content: data.choices[0].message.content || '',
+          toolCalls: fromOpenAIToolCalls(data.choices[0].message.tool_calls)
         },
         usage: {
           promptTokens: data.usage.prompt_tokens,
@@ -126,9 +308,10 @@ export class OpenAIService extends LLMService {
           'Authorization': `Bearer ${this.config.apiKey}`,
           ...this.config.headers
         },
+        signal: request.signal,
         body: JSON.stringify({
           model: this.config.model,
-          messages: request.messages,
+          messages: toOpenAIMessages(request.messages),
           temperature: request.temperature || this.config.temperature,
           max_tokens: request.maxTokens || this.config.maxTokens,
           stream: true
@@ -136,8 +319,8 @@ export class OpenAIService extends LLMService {
       });
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
+        const error = await response.json().catch(() => ({}));
+        throw createResponseError(`OpenAI API error: ${error.error?.message || response.statusText}`, response);
       }
 
       const reader = response.body?.getReader();
@@ -215,10 +398,7 @@ export class AnthropicService extends LLMService {
   async getChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
     try {
       // Convert messages to Anthropic format
-      const messages = request.messages.map(msg => ({
-        role: msg.role === 'assistant' ? 'assistant' : 'user',
-        content: msg.content
-      }));
+      const { system, messages } = toAnthropicRequest(request.messages);
 
       const response = await fetch('https://api.anthropic.com/v1/messages', {
         method: 'POST',
@@ -228,26 +408,40 @@ export class AnthropicService extends LLMService {
           'anthropic-version': '2023-06-01',
           ...this.config.headers
         },
+        signal: request.signal,
         body: JSON.stringify({
           model: this.config.model,
+          system,
           messages,
+          tools: toAnthropicTools(request.tools),
           max_tokens: request.maxTokens || this.config.maxTokens,
           temperature: request.temperature || this.config.temperature
         })
       });
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(`Anthropic API error: ${error.error?.message || response.statusText}`);
+        const error = await response.json().catch(() => ({}));
+        throw createResponseError(`Anthropic API error: ${error.error?.message || response.statusText}`, response);
       }
 
       const data = await response.json();
+      const toolUses = data.content.filter((block: { type: string }) => block.type === 'tool_use');
       
       return {
         id: data.id,
         message: {
           role: 'assistant',
-          content: data.content[0].text
+          content: data.content
+            .filter((block: { type: string }) => block.type === 'text')
+            .map((block: { text: string }) => block.text)
+            .join(''),
+          toolCalls: toolUses.length > 0
+            ? toolUses.map((block: { id: string; name: string; input: unknown }) => ({
+                id: block.id,
+                name: block.name,
+                arguments: parseToolArguments(block.input)
+              }))
+            : undefined
         },
         usage: {
           promptTokens: data.usage?.input_tokens || 0,
@@ -269,10 +463,7 @@ export class AnthropicService extends LLMService {
   ): Promise<void> {
     try {
       // Convert messages to Anthropic format
-      const messages = request.messages.map(msg => ({
-        role: msg.role === 'assistant' ? 'assistant' : 'user',
-        content: msg.content
-      }));
+      const { system, messages } = toAnthropicRequest(request.messages);
 
       const response = await fetch('https://api.anthropic.com/v1/messages', {
         method: 'POST',
@@ -282,8 +473,10 @@ export class AnthropicService extends LLMService {
           'anthropic-version': '2023-06-01',
           ...this.config.headers
         },
+        signal: request.signal,
         body: JSON.stringify({
           model: this.config.model,
+          system,
           messages,
           max_tokens: request.maxTokens || this.config.maxTokens,
           temperature: request.temperature || this.config.temperature,
@@ -292,8 +485,8 @@ export class AnthropicService extends LLMService {
       });
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(`Anthropic API error: ${error.error?.message || response.statusText}`);
+        const error = await response.json().catch(() => ({}));
+        throw createResponseError(`Anthropic API error: ${error.error?.message || response.statusText}`, response);
       }
 
       const reader = response.body?.getReader();
@@ -379,10 +572,7 @@ export class CohereService extends LLMService {
   async getChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
     try {
       // Convert messages to Cohere format
-      const messages = request.messages.map(msg => ({
-        role: msg.role,
-        message: msg.content
-      }));
+      const cohereRequest = toCohereRequest(request.messages);
 
       const response = await fetch('https://api.cohere.ai/v1/chat', {
         method: 'POST',
@@ -391,17 +581,19 @@ export class CohereService extends LLMService {
           'Authorization': `Bearer ${this.config.apiKey}`,
           ...this.config.headers
         },
+        signal: request.signal,
         body: JSON.stringify({
           model: this.config.model,
-          chat_history: messages,
+          ...cohereRequest,
+          tools: toCohereTools(request.tools),
           max_tokens: request.maxTokens || this.config.maxTokens,
           temperature: request.temperature || this.config.temperature
         })
       });
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(`Cohere API error: ${error.message || response.statusText}`);
+        const error = await response.json().catch(() => ({}));
+        throw createResponseError(`Cohere API error: ${error.message || response.statusText}`, response);
       }
 
       const data = await response.json();
@@ -410,7 +602,15 @@ export class CohereService extends LLMService {
         id: data.generation_id,
         message: {
           role: 'assistant',
-          content: data.text
+          content: data.text || '',
+          // Cohere tool calls carry no ids, so derive them from the generation
+          toolCalls: data.tool_calls?.length
+            ? data.tool_calls.map((call: { name: string; parameters: unknown }, index: number) => ({
+                id: `${data.generation_id}-${index}`,
+                name: call.name,
+                arguments: parseToolArguments(call.parameters)
+              }))
+            : undefined
         },
         usage: {
           promptTokens: data.meta?.prompt_tokens || 0,
@@ -432,10 +632,7 @@ export class CohereService extends LLMService {
   ): Promise<void> {
     try {
       // Convert messages to Cohere format
-      const messages = request.messages.map(msg => ({
-        role: msg.role,
-        message: msg.content
-      }));
+      const cohereRequest = toCohereRequest(request.messages);
 
       const response = await fetch('https://api.cohere.ai/v1/chat', {
         method: 'POST',
@@ -444,9 +641,10 @@ export class CohereService extends LLMService {
           'Authorization': `Bearer ${this.config.apiKey}`,
           ...this.config.headers
         },
+        signal: request.signal,
         body: JSON.stringify({
           model: this.config.model,
-          chat_history: messages,
+          ...cohereRequest,
           max_tokens: request.maxTokens || this.config.maxTokens,
           temperature: request.temperature || this.config.temperature,
           stream: true
@@ -454,8 +652,8 @@ export class CohereService extends LLMService {
       });
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(`Cohere API error: ${error.message || response.statusText}`);
+        const error = await response.json().catch(() => ({}));
+        throw createResponseError(`Cohere API error: ${error.message || response.statusText}`, response);
       }
 
       const reader = response.body?.getReader();
@@ -524,6 +722,180 @@ export class CohereService extends LLMService {
   }
 }
 
+// Self-hosted implementation for OpenAI-compatible servers (vLLM, Ollama, LM Studio, llama.cpp)
+export class LocalLLMService extends LLMService {
+  constructor(config: LLMConfig) {
+    super({
+      model: 'llama3',
+      ...config
+    });
+  }
+
+  getProvider(): LLMProvider {
+    return 'local';
+  }
+
+  private getEndpoint(): string {
+    if (!this.config.baseUrl) {
+      throw new Error('Local LLM base URL is not configured');
+    }
+    return `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      // Most self-hosted servers run without authentication
+      ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {}),
+      ...this.config.headers
+    };
+  }
+
+  private async getErrorMessage(response: Response): Promise<string> {
+    try {
+      const error = await response.json();
+      return error.error?.message || error.message || response.statusText;
+    } catch {
+      return response.statusText;
+    }
+  }
+
+  async getChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    try {
+      const response = await fetch(this.getEndpoint(), {
+        method: 'POST',
+        headers: this.getHeaders(),
+        signal: request.signal,
+        body: JSON.stringify({
+          model: this.config.model,
+          messages: toOpenAIMessages(request.messages),
+          tools: toOpenAITools(request.tools),
+          temperature: request.temperature || this.config.temperature,
+          max_tokens: request.maxTokens || this.config.maxTokens
+        })
+      });
+
+      if (!response.ok) {
+        throw createResponseError(`Local LLM error: ${await this.getErrorMessage(response)}`, response);
+      }
+
+      const data = await response.json();
+
+      return {
+        id: data.id || '',
+        message: {
+          role: 'assistant',
+          content: data.choices[0].message.content || '',
+          toolCalls: fromOpenAIToolCalls(data.choices[0].message.tool_calls)
+        },
+        usage: {
+          promptTokens: data.usage?.prompt_tokens || 0,
+          completionTokens: data.usage?.completion_tokens || 0,
+          totalTokens: data.usage?.total_tokens || 0
+        }
+      };
+    } catch (error) {
+      console.error('Local LLM error:', error);
+      throw error;
+    }
+  }
+
+  async streamChatCompletion(
+    request: ChatCompletionRequest,
+    onChunk: (chunk: string) => void,
+    onComplete: (fullResponse: ChatCompletionResponse) => void,
+    onError: (error: Error) => void
+  ): Promise<void> {
+    try {
+      const response = await fetch(this.getEndpoint(), {
+        method: 'POST',
+        headers: this.getHeaders(),
+        signal: request.signal,
+        body: JSON.stringify({
+          model: this.config.model,
+          messages: toOpenAIMessages(request.messages),
+          temperature: request.temperature || this.config.temperature,
+          max_tokens: request.maxTokens || this.config.maxTokens,
+          stream: true,
+          stream_options: { include_usage: true }
+        })
+      });
+
+      if (!response.ok) {
+        throw createResponseError(`Local LLM error: ${await this.getErrorMessage(response)}`, response);
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('Response body is not readable');
+      }
+
+      let fullContent = '';
+      let responseId = '';
+      let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      let buffer = '';
+
+      const decoder = new TextDecoder('utf-8');
+
+      const handleLine = (line: string) => {
+        if (!line.startsWith('data:')) return;
+
+        const data = line.slice(5).trim();
+        if (!data || data === '[DONE]') return;
+
+        try {
+          const parsed = JSON.parse(data);
+          if (!responseId && parsed.id) {
+            responseId = parsed.id;
+          }
+
+          const content = parsed.choices?.[0]?.delta?.content;
+          if (content) {
+            fullContent += content;
+            onChunk(content);
+          }
+
+          // Servers that honor include_usage send token counts in the final chunk
+          if (parsed.usage) {
+            usage = {
+              promptTokens: parsed.usage.prompt_tokens || 0,
+              completionTokens: parsed.usage.completion_tokens || 0,
+              totalTokens: parsed.usage.total_tokens || 0
+            };
+          }
+        } catch (e) {
+          console.error('Error parsing SSE data:', e);
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // Events can be split across network chunks, so only complete lines are parsed
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      }
+
+      handleLine(buffer + decoder.decode());
+
+      onComplete({
+        id: responseId,
+        message: {
+          role: 'assistant',
+          content: fullContent
+        },
+        usage
+      });
+    } catch (error) {
+      console.error('Local LLM streaming error:', error);
+      onError(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
+
 // Factory to create LLM service based on provider
 export class LLMServiceFactory {
   static createService(provider: LLMProvider, config: LLMConfig): LLMService {
@@ -534,6 +906,8 @@ export class LLMServiceFactory {
         return new AnthropicService(config);
       case 'cohere':
         return new CohereService(config);
+      case 'local':
+        return new LocalLLMService(config);
       default:
         throw new Error(`Unsupported LLM provider: ${provider}`);
     }
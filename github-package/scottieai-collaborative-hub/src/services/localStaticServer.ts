@@ -0,0 +1,154 @@
+/**
+ * Local Static Server
+ *
+ * Serves a deployment's built files from memory over HTTP, so the whole
+ * deployment flow can run offline without a hosting account. Needs Node's
+ * http module, which is loaded on first use and missing in the browser.
+ */
+
+import type { Server } from 'node:http';
+import { DeploymentFile } from '@/types/deployment';
+
+export interface StaticRequestLog {
+  timestamp: Date;
+  method: string;
+  path: string;
+  status: number;
+}
+
+export interface StaticServerOptions {
+  host?: string;
+  // 0 picks a free port
+  port?: number;
+  // Serve index.html for unknown extensionless paths, as client-side routers expect
+  spaFallback?: boolean;
+}
+
+export interface StaticServer {
+  url: string;
+  requests: StaticRequestLog[];
+  close: () => Promise<void>;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  html: 'text/html; charset=utf-8',
+  htm: 'text/html; charset=utf-8',
+  js: 'text/javascript; charset=utf-8',
+  mjs: 'text/javascript; charset=utf-8',
+  css: 'text/css; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  map: 'application/json; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  ico: 'image/x-icon',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  wasm: 'application/wasm'
+};
+
+const getExtension = (path: string): string => {
+  const name = path.split('/').pop() || '';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+/**
+ * Check whether a local server can be started in this environment
+ */
+export const isStaticServerSupported = (): boolean => {
+  return typeof process !== 'undefined' && Boolean(process.versions?.node);
+};
+
+/**
+ * Find the file served for a request path, or null for a 404
+ */
+export const resolveStaticPath = (
+  files: Map<string, Uint8Array>,
+  requestPath: string,
+  spaFallback = false
+): string | null => {
+  let path: string;
+  try {
+    path = decodeURIComponent(requestPath.split(/[?#]/)[0]).replace(/^\/+/, '');
+  } catch {
+    return null;
+  }
+
+  if (path === '' || path.endsWith('/')) path += 'index.html';
+  if (files.has(path)) return path;
+  if (files.has(`${path}/index.html`)) return `${path}/index.html`;
+  if (spaFallback && !getExtension(path) && files.has('index.html')) return 'index.html';
+  return null;
+};
+
+/**
+ * Start an HTTP server for the given files
+ */
+export const startStaticServer = async (
+  files: DeploymentFile[],
+  options: StaticServerOptions = {}
+): Promise<StaticServer> => {
+  if (!isStaticServerSupported()) {
+    throw new Error('A local server can only be started when running under Node');
+  }
+
+  const { createServer } = await import('node:http');
+  const host = options.host || '127.0.0.1';
+  const fileMap = new Map(files.map(file => [file.path, file.bytes]));
+  const requests: StaticRequestLog[] = [];
+
+  const server: Server = createServer((request, response) => {
+    const method = request.method || 'GET';
+    const requestPath = request.url || '/';
+    const filePath = method === 'GET' || method === 'HEAD'
+      ? resolveStaticPath(fileMap, requestPath, options.spaFallback)
+      : null;
+
+    let status: number;
+    if (method !== 'GET' && method !== 'HEAD') {
+      status = 405;
+      response.writeHead(status, { Allow: 'GET, HEAD' });
+      response.end();
+    } else if (!filePath) {
+      status = 404;
+      response.writeHead(status, { 'Content-Type': MIME_TYPES.txt });
+      response.end(method === 'HEAD' ? undefined : 'Not found');
+    } else {
+      const body = fileMap.get(filePath)!;
+      status = 200;
+      response.writeHead(status, {
+        'Content-Type': MIME_TYPES[getExtension(filePath)] || 'application/octet-stream',
+        'Content-Length': body.byteLength,
+        'Cache-Control': 'no-cache'
+      });
+      response.end(method === 'HEAD' ? undefined : body);
+    }
+
+    requests.push({ timestamp: new Date(), method, path: requestPath, status });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    url: `http://${host}:${port}/`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections?.();
+    })
+  };
+};
@@ -0,0 +1,196 @@
+import * as tf from '@tensorflow/tfjs';
+import { supabase } from '@/lib/supabase';
+import { createOnnxModel, RunnableModel } from '@/utils/modelRuntime';
+import { ModelFormat } from '@/types/modelRegistry';
+
+// TF.js models go to TF.js's own IndexedDB store; ONNX files are kept here
+const DB_NAME = 'scottieai-model-artifacts';
+const DB_VERSION = 1;
+const ONNX_STORE = 'onnx';
+
+// Uploaded artifacts, which each browser caches in IndexedDB on first load
+const ARTIFACT_BUCKET = 'model_artifacts';
+const MODEL_JSON_FILE = 'model.json';
+const WEIGHTS_FILE = 'weights.bin';
+const ONNX_FILE = 'model.onnx';
+
+export type ModelArtifact =
+  | { format: 'tfjs-layers'; model: tf.LayersModel }
+  | { format: 'tfjs-graph'; model: tf.GraphModel }
+  | { format: 'onnx'; bytes: ArrayBuffer };
+
+interface StoredOnnxModel {
+  uri: string;
+  bytes: ArrayBuffer;
+}
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(ONNX_STORE, { keyPath: 'uri' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run one request and resolve once the transaction commits
+const withOnnxStore = async <T = undefined>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ONNX_STORE, mode);
+    const request = operation(transaction.objectStore(ONNX_STORE));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+/**
+ * Store a model's artifact under an indexeddb:// URI
+ */
+export const saveModelArtifact = async (uri: string, artifact: ModelArtifact): Promise<void> => {
+  if (artifact.format === 'onnx') {
+    await withOnnxStore('readwrite', store => store.put({ uri, bytes: artifact.bytes } as StoredOnnxModel));
+    return;
+  }
+  await artifact.model.save(uri);
+};
+
+// A TF.js model as the model.json and single weights file it's uploaded as
+const serializeTfjsModel = async (model: tf.LayersModel | tf.GraphModel): Promise<[tf.io.ModelJSON, ArrayBuffer]> => {
+  let serialized: [tf.io.ModelJSON, ArrayBuffer] | null = null;
+  await model.save(tf.io.withSaveHandler(async artifacts => {
+    const { weightData, weightSpecs, ...rest } = artifacts;
+    const modelJSON = { ...rest, weightsManifest: [{ paths: [`./${WEIGHTS_FILE}`], weights: weightSpecs || [] }] };
+    serialized = [modelJSON as tf.io.ModelJSON, tf.io.CompositeArrayBuffer.join(weightData)];
+    return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+  }));
+  return serialized!;
+};
+
+/**
+ * Upload a model's artifact so it loads on every device
+ * @returns The storage path to register the version with
+ */
+export const uploadModelArtifact = async (modelId: string, version: string, artifact: ModelArtifact): Promise<string> => {
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData.user) {
+    throw new Error('User not authenticated');
+  }
+
+  const storagePath = `${ARTIFACT_BUCKET}/${userData.user.id}/${modelId}/${version}`;
+  const files: [string, Blob][] = [];
+  if (artifact.format === 'onnx') {
+    files.push([ONNX_FILE, new Blob([artifact.bytes])]);
+  } else {
+    const [modelJSON, weightData] = await serializeTfjsModel(artifact.model);
+    files.push([MODEL_JSON_FILE, new Blob([JSON.stringify(modelJSON)], { type: 'application/json' })]);
+    files.push([WEIGHTS_FILE, new Blob([weightData])]);
+  }
+
+  for (const [name, blob] of files) {
+    const { error } = await supabase.storage
+      .from(ARTIFACT_BUCKET)
+      .upload(`${storagePath}/${name}`, blob, { cacheControl: '3600', upsert: false });
+    if (error) {
+      await removeUploadedArtifact(storagePath);
+      throw error;
+    }
+  }
+  return storagePath;
+};
+
+const downloadFile = async (storagePath: string, name: string): Promise<Blob> => {
+  const { data, error } = await supabase.storage.from(ARTIFACT_BUCKET).download(`${storagePath}/${name}`);
+  if (error || !data) {
+    throw error || new Error(`${name} was not found in ${storagePath}`);
+  }
+  return data;
+};
+
+// Download an uploaded artifact and cache it under its IndexedDB URI
+const downloadModelArtifact = async (format: ModelFormat, uri: string, storagePath: string): Promise<RunnableModel> => {
+  if (format === 'onnx') {
+    const bytes = await (await downloadFile(storagePath, ONNX_FILE)).arrayBuffer();
+    const model = await createOnnxModel(bytes);
+    await saveModelArtifact(uri, { format, bytes }).catch(error => console.warn(`Could not cache ${uri}:`, error));
+    return model;
+  }
+
+  const modelJSON: tf.io.ModelJSON = JSON.parse(await (await downloadFile(storagePath, MODEL_JSON_FILE)).text());
+  const weightData = await (await downloadFile(storagePath, WEIGHTS_FILE)).arrayBuffer();
+  const artifacts = await tf.io.getModelArtifactsForJSON(modelJSON, async manifest => [
+    manifest.flatMap(group => group.weights),
+    weightData
+  ]);
+  const handler = tf.io.fromMemory(artifacts);
+
+  const model = format === 'tfjs-graph' ? await tf.loadGraphModel(handler) : await tf.loadLayersModel(handler);
+  await model.save(uri).catch(error => console.warn(`Could not cache ${uri}:`, error));
+  return model;
+};
+
+const loadCachedArtifact = async (format: ModelFormat, uri: string): Promise<RunnableModel> => {
+  if (format === 'onnx') {
+    const stored = await withOnnxStore<StoredOnnxModel | undefined>('readonly', store => store.get(uri));
+    if (!stored) {
+      throw new Error(`No ONNX model is stored at ${uri}`);
+    }
+    return createOnnxModel(stored.bytes);
+  }
+  return format === 'tfjs-graph' ? tf.loadGraphModel(uri) : tf.loadLayersModel(uri);
+};
+
+/**
+ * Load a model from this browser's cache, downloading the uploaded artifact
+ * when it isn't cached yet
+ * @param storagePath Null for versions only the browser that saved them has
+ */
+export const loadModelArtifact = async (
+  format: ModelFormat,
+  uri: string,
+  storagePath: string | null = null
+): Promise<RunnableModel> => {
+  try {
+    return await loadCachedArtifact(format, uri);
+  } catch (error) {
+    if (!storagePath) {
+      throw new Error(`This version was saved before models were uploaded, so it only loads in the browser it was saved in (${error instanceof Error ? error.message : 'not cached'})`);
+    }
+  }
+  return downloadModelArtifact(format, uri, storagePath);
+};
+
+const removeUploadedArtifact = async (storagePath: string): Promise<void> => {
+  const names = [MODEL_JSON_FILE, WEIGHTS_FILE, ONNX_FILE];
+  const { error } = await supabase.storage.from(ARTIFACT_BUCKET).remove(names.map(name => `${storagePath}/${name}`));
+  if (error) throw error;
+};
+
+/**
+ * Remove a model's artifact from this browser's cache and from storage
+ */
+export const removeModelArtifact = async (
+  format: ModelFormat,
+  uri: string,
+  storagePath: string | null = null
+): Promise<void> => {
+  if (storagePath) {
+    await removeUploadedArtifact(storagePath);
+  }
+  if (format === 'onnx') {
+    await withOnnxStore('readwrite', store => store.delete(uri));
+    return;
+  }
+  // Browsers the model was never loaded in don't have it cached
+  await tf.io.removeModel(uri).catch(() => undefined);
+};
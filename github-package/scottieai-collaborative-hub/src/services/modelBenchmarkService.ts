@@ -0,0 +1,280 @@
+import * as tf from '@tensorflow/tfjs';
+import { v4 as uuidv4 } from 'uuid';
+import { toast } from 'sonner';
+import { supabase } from '@/lib/supabase';
+import { loadModelById } from './aiModelService';
+import { generateTestCases } from './modelTestingService';
+import { findModelVersion } from './modelRegistryService';
+import { compareBenchmarks, findBaseline, summarizeLatencies } from '@/utils/benchmarkStats';
+import { OnnxModel, runModel, RunnableModel } from '@/utils/modelRuntime';
+import '@/utils/wasmBackend';
+import {
+  BackendBenchmark,
+  BatchBenchmark,
+  BenchmarkOptions,
+  BenchmarkReport,
+  ModelBenchmark,
+  ModelTestSuite,
+  TensorValues
+} from '@/types/modelTesting';
+
+interface ModelBenchmarkRow {
+  id: string;
+  user_id: string;
+  model_id: string;
+  model_version: string;
+  options: BenchmarkOptions;
+  backends: BackendBenchmark[];
+  created_at: string;
+}
+
+// Backends benchmarks can compare; only the ones registered in this build run
+export const BENCHMARK_BACKENDS = ['cpu', 'wasm', 'webgl'];
+
+// ONNX models run in ONNX Runtime whichever TF.js backend is set
+export const ONNX_BACKEND = 'onnxruntime-web';
+
+export const DEFAULT_BENCHMARK_OPTIONS: BenchmarkOptions = {
+  iterations: 10,
+  warmupIterations: 3,
+  batchSizes: [1],
+  backends: ['cpu']
+};
+
+const mapBenchmark = (row: ModelBenchmarkRow): ModelBenchmark => ({
+  id: row.id,
+  modelId: row.model_id,
+  modelVersion: row.model_version,
+  options: row.options,
+  backends: row.backends || [],
+  created: new Date(row.created_at)
+});
+
+export const isBackendRegistered = (backend: string): boolean => {
+  return tf.findBackendFactory(backend) !== null;
+};
+
+// The input repeated along the batch axis; only its first sample is used
+const createBatch = (input: TensorValues, batchSize: number): tf.Tensor => {
+  return tf.tidy(() => {
+    const tensor = tf.tensor(input as tf.TensorLike);
+    const sample = tensor.rank === 0 ? tensor.reshape([1, 1]) : tensor.slice(0, 1);
+    return tf.tile(sample, [batchSize, ...new Array(sample.rank - 1).fill(1)]);
+  });
+};
+
+// Run a prediction through to its data, so the timing covers the whole execution
+const predict = async (model: RunnableModel, batch: tf.Tensor): Promise<void> => {
+  const output = await runModel(model, batch);
+  await output.data();
+  output.dispose();
+};
+
+const benchmarkBatch = async (
+  model: RunnableModel,
+  input: TensorValues,
+  batchSize: number,
+  options: BenchmarkOptions,
+  onIteration: () => void
+): Promise<BatchBenchmark> => {
+  const batch = createBatch(input, batchSize);
+
+  try {
+    for (let i = 0; i < options.warmupIterations; i++) {
+      await predict(model, batch);
+      onIteration();
+    }
+
+    // Everything the timed predictions create should be gone by the end
+    const tensorsBefore = tf.memory().numTensors;
+    const times: number[] = [];
+
+    for (let i = 0; i < options.iterations; i++) {
+      const startTime = performance.now();
+      await predict(model, batch);
+      times.push(performance.now() - startTime);
+      onIteration();
+    }
+
+    const latency = summarizeLatencies(times);
+    const totalSeconds = times.reduce((sum, time) => sum + time, 0) / 1000;
+
+    return {
+      batchSize,
+      latency,
+      throughput: totalSeconds > 0 ? (batchSize * times.length) / totalSeconds : 0,
+      leakedTensors: tf.memory().numTensors - tensorsBefore,
+      memoryBytes: tf.memory().numBytes
+    };
+  } finally {
+    batch.dispose();
+  }
+};
+
+/**
+ * Time a model on each backend and batch size. The backend in use beforehand
+ * is restored afterwards. ONNX models ignore the requested backends.
+ * @param onProgress Called with the fraction of predictions done so far
+ */
+export const runBenchmark = async (
+  model: RunnableModel,
+  input: TensorValues,
+  options: BenchmarkOptions,
+  onProgress?: (progress: number) => void
+): Promise<BackendBenchmark[]> => {
+  // ONNX models run once, in ONNX Runtime, rather than on each TF.js backend
+  const isOnnx = model instanceof OnnxModel;
+  const backends = isOnnx ? [ONNX_BACKEND] : options.backends;
+  const originalBackend = tf.getBackend();
+  const totalIterations = backends.length * options.batchSizes.length * (options.warmupIterations + options.iterations);
+  let completed = 0;
+  const onIteration = () => {
+    completed++;
+    onProgress?.(completed / totalIterations);
+  };
+
+  const results: BackendBenchmark[] = [];
+
+  try {
+    for (const backend of backends) {
+      if (!isOnnx && !isBackendRegistered(backend)) {
+        results.push({ backend, available: false, error: 'Not included in this build', batches: [] });
+        continue;
+      }
+
+      try {
+        if (!isOnnx) {
+          if (!await tf.setBackend(backend)) {
+            throw new Error('Could not be initialized on this device');
+          }
+          await tf.ready();
+        }
+
+        const batches: BatchBenchmark[] = [];
+        for (const batchSize of options.batchSizes) {
+          batches.push(await benchmarkBatch(model, input, batchSize, options, onIteration));
+        }
+        results.push({ backend, available: true, batches });
+      } catch (error) {
+        console.warn(`Benchmarking on ${backend} failed:`, error);
+        results.push({ backend, available: false, error: error instanceof Error ? error.message : 'Unknown error', batches: [] });
+      }
+    }
+  } finally {
+    if (originalBackend && tf.getBackend() !== originalBackend) {
+      await tf.setBackend(originalBackend);
+    }
+  }
+
+  return results;
+};
+
+/**
+ * Get a model's stored benchmarks, newest first
+ */
+export const getModelBenchmarks = async (modelId: string): Promise<ModelBenchmark[]> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('model_benchmarks')
+      .select('*')
+      .eq('model_id', modelId)
+      .eq('user_id', userData.user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapBenchmark);
+  } catch (error) {
+    console.error('Error fetching model benchmarks:', error);
+    return [];
+  }
+};
+
+const saveModelBenchmark = async (benchmark: ModelBenchmark): Promise<boolean> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const row: ModelBenchmarkRow = {
+      id: benchmark.id,
+      user_id: userData.user.id,
+      model_id: benchmark.modelId,
+      model_version: benchmark.modelVersion,
+      options: benchmark.options,
+      backends: benchmark.backends,
+      created_at: benchmark.created.toISOString()
+    };
+
+    const { error } = await supabase.from('model_benchmarks').insert(row);
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error saving model benchmark:', error);
+    return false;
+  }
+};
+
+/**
+ * Benchmark a model with warmup, latency percentiles, batch-size sweeps and
+ * tensor leak checks on each requested backend, then store the result and
+ * compare it with the model's previous benchmark
+ * @param suite Takes the input from the suite's performance case, or its first case
+ */
+export const benchmarkModel = async (
+  modelId: string,
+  options: Partial<BenchmarkOptions> = {},
+  onProgress?: (progress: number) => void,
+  suite?: ModelTestSuite
+): Promise<BenchmarkReport> => {
+  try {
+    // Load the model
+    const model = await loadModelById(modelId) as RunnableModel;
+    if (!model) {
+      throw new Error(`Failed to load model with ID ${modelId}`);
+    }
+
+    // Determine model type, from the version that loaded
+    const modelVersion = findModelVersion(modelId);
+    if (!modelVersion) {
+      throw new Error(`Model configuration not found for ${modelId}`);
+    }
+
+    const cases = suite?.cases.length ? suite.cases : generateTestCases(modelVersion.type, modelVersion.signature);
+    const testCase = cases.find(tc => tc.category === 'performance') || cases[0];
+    const resolvedOptions: BenchmarkOptions = { ...DEFAULT_BENCHMARK_OPTIONS, ...options };
+
+    const benchmark: ModelBenchmark = {
+      id: uuidv4(),
+      modelId,
+      modelVersion: modelVersion.version,
+      options: resolvedOptions,
+      backends: await runBenchmark(model, testCase.input, resolvedOptions, onProgress),
+      created: new Date()
+    };
+
+    const history = await getModelBenchmarks(modelId);
+    const baseline = findBaseline(history, benchmark);
+    const comparison = baseline ? { baseline, regressions: compareBenchmarks(baseline, benchmark) } : null;
+    await saveModelBenchmark(benchmark);
+
+    const leaking = benchmark.backends.some(backend => backend.batches.some(batch => batch.leakedTensors > 0));
+    if (leaking) {
+      toast.warning('The model leaks tensors: some predictions left tensors behind');
+    }
+    if (baseline && comparison?.regressions.length) {
+      const since = baseline.modelVersion !== benchmark.modelVersion ? `v${baseline.modelVersion}` : 'the last run';
+      toast.warning(`Performance regressed in ${comparison.regressions.length} measurements since ${since}`);
+    }
+
+    return { benchmark, comparison };
+  } catch (error) {
+    console.error(`Benchmarking model ${modelId} failed:`, error);
+    throw error;
+  }
+};
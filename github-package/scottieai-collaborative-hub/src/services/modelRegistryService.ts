@@ -0,0 +1,402 @@
+import { v4 as uuidv4 } from 'uuid';
+import { toast } from 'sonner';
+import { supabase } from '@/lib/supabase';
+import { AIModelConfig, availableModels } from '@/utils/modelUtils';
+import { SupportedLanguage } from '@/utils/i18nUtils';
+import { compareVersions, isValidVersion, nextVersion, pickDefaultVersion } from '@/utils/modelVersionUtils';
+import { BenchmarkResult } from '@/types/modelTesting';
+import {
+  ModelFormat,
+  ModelSignature,
+  ModelSource,
+  ModelStage,
+  ModelVersion,
+  ModelVersionDraft,
+  ModelVersionMetrics,
+  RegisteredModel,
+  TrainingDatasetReference
+} from '@/types/modelRegistry';
+
+export type { ModelVersion, RegisteredModel } from '@/types/modelRegistry';
+
+type StoredMetrics = Omit<ModelVersionMetrics, 'recorded'> & { recorded: string };
+
+// One registered version of a model
+interface ModelRegistryRow {
+  id: string;
+  model_id: string;
+  user_id: string;
+  version: string;
+  name: string;
+  description: string;
+  type: string;
+  format: ModelFormat;
+  source: ModelSource;
+  artifact_uri: string;
+  storage_path: string | null;
+  size: string;
+  capabilities: string[];
+  supported_languages: SupportedLanguage[] | null;
+  signature: ModelSignature | null;
+  training_dataset: TrainingDatasetReference | null;
+  metrics: StoredMetrics | null;
+  parent_model_id: string | null;
+  parent_version: string | null;
+  stages: ModelStage[];
+  created_at: string;
+}
+
+// Registered versions by model, as last fetched; built-in models aren't stored
+const versionCache = new Map<string, ModelVersion[]>();
+
+const mapModelVersion = (row: ModelRegistryRow): ModelVersion => ({
+  id: row.id,
+  modelId: row.model_id,
+  version: row.version,
+  name: row.name,
+  description: row.description || '',
+  type: row.type,
+  format: row.format,
+  source: row.source,
+  artifactUri: row.artifact_uri,
+  storagePath: row.storage_path || null,
+  size: row.size || '',
+  capabilities: row.capabilities || [],
+  supportedLanguages: row.supported_languages || undefined,
+  signature: row.signature,
+  trainingDataset: row.training_dataset,
+  metrics: row.metrics ? { ...row.metrics, recorded: new Date(row.metrics.recorded) } : null,
+  parent: row.parent_model_id && row.parent_version ? { modelId: row.parent_model_id, version: row.parent_version } : null,
+  stages: row.stages || [],
+  created: new Date(row.created_at)
+});
+
+// Built-in models are registered as the single version they ship with, in production
+const builtInVersion = (config: AIModelConfig): ModelVersion => ({
+  id: `${config.id}@${config.version || '1.0.0'}`,
+  modelId: config.id,
+  version: config.version || '1.0.0',
+  name: config.name,
+  description: config.description,
+  type: config.type,
+  format: 'tfjs-layers',
+  source: 'built-in',
+  artifactUri: config.path,
+  storagePath: null,
+  size: config.size,
+  capabilities: config.capabilities,
+  supportedLanguages: config.supportedLanguages,
+  signature: null,
+  trainingDataset: null,
+  metrics: null,
+  parent: null,
+  stages: ['production'],
+  created: new Date(0)
+});
+
+const isBuiltInModel = (modelId: string): boolean => availableModels.some(model => model.id === modelId);
+
+const toRegisteredModel = (versions: ModelVersion[]): RegisteredModel => {
+  const sorted = [...versions].sort((a, b) => compareVersions(b.version, a.version));
+  const current = pickDefaultVersion(sorted)!;
+  return {
+    modelId: current.modelId,
+    name: current.name,
+    description: current.description,
+    source: current.source,
+    versions: sorted
+  };
+};
+
+const cacheVersions = (versions: ModelVersion[], modelId?: string) => {
+  if (modelId) {
+    versionCache.set(modelId, versions);
+    return;
+  }
+  versionCache.clear();
+  versions.forEach(version => {
+    versionCache.set(version.modelId, [...(versionCache.get(version.modelId) || []), version]);
+  });
+};
+
+const fetchModelVersions = async (modelId?: string): Promise<ModelVersion[]> => {
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData.user) {
+    throw new Error('User not authenticated');
+  }
+
+  let query = supabase
+    .from('model_registry')
+    .select('*')
+    .eq('user_id', userData.user.id);
+  if (modelId) query = query.eq('model_id', modelId);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw error;
+
+  const versions = (data || []).map(mapModelVersion);
+  cacheVersions(versions, modelId);
+  return versions;
+};
+
+/**
+ * Get every model in the registry, built-in models first, each with its
+ * versions newest first
+ */
+export const getRegisteredModels = async (): Promise<RegisteredModel[]> => {
+  const builtIn = availableModels.map(config => toRegisteredModel([builtInVersion(config)]));
+
+  try {
+    const byModel = new Map<string, ModelVersion[]>();
+    (await fetchModelVersions()).forEach(version => {
+      byModel.set(version.modelId, [...(byModel.get(version.modelId) || []), version]);
+    });
+
+    const registered = [...byModel.values()]
+      .map(toRegisteredModel)
+      .sort((a, b) => b.versions[0].created.getTime() - a.versions[0].created.getTime());
+    return [...builtIn, ...registered];
+  } catch (error) {
+    console.error('Error fetching registered models:', error);
+    return builtIn;
+  }
+};
+
+/**
+ * Get one model with all of its versions
+ */
+export const getRegisteredModel = async (modelId: string): Promise<RegisteredModel | null> => {
+  const config = availableModels.find(model => model.id === modelId);
+  if (config) return toRegisteredModel([builtInVersion(config)]);
+
+  try {
+    const versions = await fetchModelVersions(modelId);
+    return versions.length > 0 ? toRegisteredModel(versions) : null;
+  } catch (error) {
+    console.error(`Error fetching registered model ${modelId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Look up a version among the built-in models and the registered versions
+ * fetched so far, without a request
+ * @param version Defaults to the production version, or the newest one
+ */
+export const findModelVersion = (modelId: string, version?: string): ModelVersion | undefined => {
+  const config = availableModels.find(model => model.id === modelId);
+  const versions = config ? [builtInVersion(config)] : versionCache.get(modelId) || [];
+  return version ? versions.find(entry => entry.version === version) : pickDefaultVersion(versions);
+};
+
+/**
+ * Look up a version, fetching the model's versions when they aren't known yet
+ * @param version Defaults to the production version, or the newest one
+ */
+export const resolveModelVersion = async (modelId: string, version?: string): Promise<ModelVersion | null> => {
+  const known = findModelVersion(modelId, version);
+  if (known || isBuiltInModel(modelId)) return known || null;
+
+  try {
+    await fetchModelVersions(modelId);
+    return findModelVersion(modelId, version) || null;
+  } catch (error) {
+    console.error(`Error resolving model ${modelId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Register a new version of a trained or uploaded model. Versions are never
+ * overwritten; retraining registers the next one.
+ */
+export const registerModelVersion = async (draft: ModelVersionDraft): Promise<ModelVersion | null> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+    if (isBuiltInModel(draft.modelId)) {
+      throw new Error(`${draft.modelId} is a built-in model; register a derived model under its own id`);
+    }
+    if (!draft.name.trim()) {
+      throw new Error('Give the model a name');
+    }
+
+    const existing = await fetchModelVersions(draft.modelId);
+    const version = draft.version || nextVersion(existing.map(entry => entry.version), draft.bump);
+    if (!isValidVersion(version)) {
+      throw new Error(`${version} is not a semantic version like 1.2.0`);
+    }
+    if (existing.some(entry => entry.version === version)) {
+      throw new Error(`${draft.name} v${version} is already registered`);
+    }
+    if (draft.parent && !await resolveModelVersion(draft.parent.modelId, draft.parent.version)) {
+      throw new Error(`Parent model ${draft.parent.modelId} v${draft.parent.version} is not in the registry`);
+    }
+
+    const row: ModelRegistryRow = {
+      id: uuidv4(),
+      model_id: draft.modelId,
+      user_id: userData.user.id,
+      version,
+      name: draft.name.trim(),
+      description: draft.description?.trim() || '',
+      type: draft.type || 'tensorflow',
+      format: draft.format || 'tfjs-layers',
+      source: draft.source,
+      artifact_uri: draft.artifactUri,
+      storage_path: draft.storagePath || null,
+      size: draft.size || '',
+      capabilities: draft.capabilities || [],
+      supported_languages: draft.supportedLanguages || null,
+      signature: draft.signature,
+      training_dataset: draft.trainingDataset || null,
+      metrics: null,
+      parent_model_id: draft.parent?.modelId || null,
+      parent_version: draft.parent?.version || null,
+      stages: [],
+      created_at: new Date().toISOString()
+    };
+
+    const { error } = await supabase.from('model_registry').insert(row);
+    if (error) throw error;
+
+    const registered = mapModelVersion(row);
+    versionCache.set(draft.modelId, [registered, ...existing]);
+    toast.success(`Registered ${row.name} v${version}`);
+    return registered;
+  } catch (error) {
+    console.error('Error registering model version:', error);
+    toast.error(`Failed to register model: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return null;
+  }
+};
+
+const updateStages = async (userId: string, version: ModelVersion, stages: ModelStage[]) => {
+  const { error } = await supabase
+    .from('model_registry')
+    .update({ stages })
+    .eq('id', version.id)
+    .eq('user_id', userId);
+  if (error) throw error;
+};
+
+/**
+ * Tag a version as staging or production, moving the tag off whichever
+ * version of the model held it before, or remove the tag
+ */
+export const setModelVersionStage = async (
+  modelId: string,
+  version: string,
+  stage: ModelStage,
+  enabled = true
+): Promise<boolean> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+    if (isBuiltInModel(modelId)) {
+      throw new Error('Built-in models are always in production');
+    }
+
+    const versions = await fetchModelVersions(modelId);
+    const target = versions.find(entry => entry.version === version);
+    if (!target) {
+      throw new Error(`Version ${version} of ${modelId} is not registered`);
+    }
+
+    if (enabled) {
+      for (const holder of versions.filter(entry => entry !== target && entry.stages.includes(stage))) {
+        await updateStages(userData.user.id, holder, holder.stages.filter(entry => entry !== stage));
+      }
+    }
+    const stages = enabled
+      ? [...target.stages.filter(entry => entry !== stage), stage]
+      : target.stages.filter(entry => entry !== stage);
+    await updateStages(userData.user.id, target, stages);
+
+    await fetchModelVersions(modelId);
+    toast.success(enabled ? `${target.name} v${version} is now in ${stage}` : `${target.name} v${version} removed from ${stage}`);
+    return true;
+  } catch (error) {
+    console.error('Error setting model stage:', error);
+    toast.error(`Failed to update model stage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return false;
+  }
+};
+
+/**
+ * Store a test run as a registered version's metrics. Built-in models
+ * aren't stored, so their runs aren't recorded.
+ */
+export const recordModelVersionMetrics = async (
+  modelId: string,
+  version: string,
+  result: BenchmarkResult
+): Promise<boolean> => {
+  if (isBuiltInModel(modelId)) return false;
+
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const target = await resolveModelVersion(modelId, version);
+    if (!target) {
+      throw new Error(`Version ${version} of ${modelId} is not registered`);
+    }
+
+    const metrics: ModelVersionMetrics = {
+      passRate: result.passRate,
+      averageInferenceTime: result.averageInferenceTime,
+      suiteId: result.suiteId,
+      suiteVersion: result.suiteVersion,
+      metrics: result.metrics,
+      recorded: new Date()
+    };
+    const stored: StoredMetrics = { ...metrics, recorded: metrics.recorded.toISOString() };
+
+    const { error } = await supabase
+      .from('model_registry')
+      .update({ metrics: stored })
+      .eq('id', target.id)
+      .eq('user_id', userData.user.id);
+    if (error) throw error;
+
+    target.metrics = metrics;
+    return true;
+  } catch (error) {
+    console.error('Error recording model metrics:', error);
+    return false;
+  }
+};
+
+/**
+ * Remove a version from the registry. Versions derived from it keep their
+ * parent reference.
+ */
+export const deleteModelVersion = async (modelId: string, version: string): Promise<boolean> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error } = await supabase
+      .from('model_registry')
+      .delete()
+      .eq('model_id', modelId)
+      .eq('version', version)
+      .eq('user_id', userData.user.id);
+    if (error) throw error;
+
+    versionCache.set(modelId, (versionCache.get(modelId) || []).filter(entry => entry.version !== version));
+    return true;
+  } catch (error) {
+    console.error('Error deleting model version:', error);
+    return false;
+  }
+};
@@ -0,0 +1,165 @@
+import { v4 as uuidv4 } from 'uuid';
+import { toast } from 'sonner';
+import { supabase } from '@/lib/supabase';
+import { findModelVersion } from './modelRegistryService';
+import { ModelTask, ModelTestCase, ModelTestSuite, ModelTestSuiteDraft, TestTolerance } from '@/types/modelTesting';
+
+// One saved version of a suite
+interface ModelTestSuiteRow {
+  id: string;
+  suite_id: string;
+  version: number;
+  user_id: string;
+  model_id: string;
+  model_version: string;
+  name: string;
+  description: string;
+  tolerance: TestTolerance;
+  task: ModelTask | null;
+  cases: ModelTestCase[];
+  created_at: string;
+}
+
+const mapSuite = (row: ModelTestSuiteRow): ModelTestSuite => ({
+  id: row.suite_id,
+  version: row.version,
+  modelId: row.model_id,
+  modelVersion: row.model_version,
+  name: row.name,
+  description: row.description || '',
+  tolerance: row.tolerance,
+  task: row.task || undefined,
+  cases: row.cases || [],
+  created: new Date(row.created_at)
+});
+
+// The version a model loads by default, as the registry knows it
+export const getModelVersion = (modelId: string): string => {
+  return findModelVersion(modelId)?.version || '1.0.0';
+};
+
+/**
+ * Get the latest version of each suite written for a model, newest first
+ */
+export const getModelTestSuites = async (modelId: string): Promise<ModelTestSuite[]> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('model_test_suites')
+      .select('*')
+      .eq('model_id', modelId)
+      .eq('user_id', userData.user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const latest = new Map<string, ModelTestSuite>();
+    (data || []).map(mapSuite).forEach(suite => {
+      const current = latest.get(suite.id);
+      if (!current || suite.version > current.version) latest.set(suite.id, suite);
+    });
+    return [...latest.values()].sort((a, b) => b.created.getTime() - a.created.getTime());
+  } catch (error) {
+    console.error('Error fetching model test suites:', error);
+    return [];
+  }
+};
+
+/**
+ * Get every saved version of a suite, newest first
+ */
+export const getModelTestSuiteHistory = async (suiteId: string): Promise<ModelTestSuite[]> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('model_test_suites')
+      .select('*')
+      .eq('suite_id', suiteId)
+      .eq('user_id', userData.user.id)
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapSuite);
+  } catch (error) {
+    console.error('Error fetching model test suite history:', error);
+    return [];
+  }
+};
+
+/**
+ * Save a suite as its next version, against the model's current version.
+ * Earlier versions stay as they were.
+ */
+export const saveModelTestSuite = async (draft: ModelTestSuiteDraft): Promise<ModelTestSuite | null> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+    if (!draft.name.trim()) {
+      throw new Error('Give the suite a name');
+    }
+    if (draft.cases.length === 0) {
+      throw new Error('Add at least one test case');
+    }
+
+    const history = draft.id ? await getModelTestSuiteHistory(draft.id) : [];
+    const row: ModelTestSuiteRow = {
+      id: uuidv4(),
+      suite_id: draft.id || uuidv4(),
+      version: (history[0]?.version || 0) + 1,
+      user_id: userData.user.id,
+      model_id: draft.modelId,
+      model_version: getModelVersion(draft.modelId),
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      tolerance: draft.tolerance,
+      task: draft.task || null,
+      cases: draft.cases,
+      created_at: new Date().toISOString()
+    };
+
+    const { error } = await supabase.from('model_test_suites').insert(row);
+    if (error) throw error;
+
+    toast.success(`Saved ${row.name} v${row.version}`);
+    return mapSuite(row);
+  } catch (error) {
+    console.error('Error saving model test suite:', error);
+    toast.error(`Failed to save test suite: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return null;
+  }
+};
+
+/**
+ * Delete a suite with all of its versions
+ */
+export const deleteModelTestSuite = async (suiteId: string): Promise<boolean> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error } = await supabase
+      .from('model_test_suites')
+      .delete()
+      .eq('suite_id', suiteId)
+      .eq('user_id', userData.user.id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error deleting model test suite:', error);
+    toast.error('Failed to delete test suite');
+    return false;
+  }
+};
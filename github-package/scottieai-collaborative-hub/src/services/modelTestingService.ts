@@ -1,40 +1,27 @@
 import * as tf from '@tensorflow/tfjs';
 import { loadModelById } from './aiModelService';
-import { AIModelConfig } from '@/utils/modelUtils';
+import { findModelVersion, recordModelVersionMetrics } from './modelRegistryService';
+import { flattenTensor, getTensorShape, reshapeValues } from '@/utils/testDatasetUtils';
+import { runModel, RunnableModel } from '@/utils/modelRuntime';
+import { computeSuiteMetrics } from '@/utils/modelMetrics';
+import {
+  BenchmarkResult,
+  ModelTestCase,
+  ModelTestResult,
+  ModelTestSuite,
+  OutputDiff,
+  TensorValues,
+  TestTolerance
+} from '@/types/modelTesting';
+import { ModelSignature } from '@/types/modelRegistry';
 
-export interface ModelTestCase {
-  id: string;
-  name: string;
-  description: string;
-  input: number[][];
-  expectedOutput?: number[][];
-  category: 'performance' | 'accuracy' | 'edge-case';
-}
+export type { BenchmarkResult, ModelTestCase, ModelTestResult } from '@/types/modelTesting';
 
-export interface ModelTestResult {
-  id: string;
-  modelId: string;
-  testCaseId: string;
-  passed: boolean;
-  timeTaken: number; // in milliseconds
-  error?: string;
-  outputTensor?: number[][];
-  expectedTensor?: number[][];
-  metrics?: {
-    accuracy?: number;
-    precision?: number;
-    recall?: number;
-    f1Score?: number;
-  };
-}
+// Used by the built-in cases and as the starting point for new suites
+export const DEFAULT_TOLERANCE: TestTolerance = { absolute: 1e-4, relative: 0 };
 
-export interface BenchmarkResult {
-  modelId: string;
-  averageInferenceTime: number;
-  memoryUsage: number;
-  passRate: number;
-  results: ModelTestResult[];
-}
+// How many mismatched values a diff lists
+const MAX_LISTED_MISMATCHES = 10;
 
 /**
  * Test cases for different model types
@@ -87,18 +74,19 @@ const testCases: Record<string, ModelTestCase[]> = {
  * Run a single test case on a model
  */
 export const runTestCase = async (
-  model: tf.LayersModel, 
-  testCase: ModelTestCase
+  model: RunnableModel, 
+  testCase: ModelTestCase,
+  tolerance: TestTolerance = DEFAULT_TOLERANCE
 ): Promise<ModelTestResult> => {
   try {
     const startTime = performance.now();
     
     // Convert input to tensor
-    const inputTensor = tf.tensor(testCase.input);
+    const inputTensor = tf.tensor(testCase.input as tf.TensorLike);
     
     // Run prediction
-    const outputTensor = model.predict(inputTensor) as tf.Tensor;
-    const outputArray = await outputTensor.array() as number[][];
+    const outputTensor = await runModel(model, inputTensor);
+    const outputArray = await outputTensor.array() as TensorValues;
     
     // Measure time taken
     const endTime = performance.now();
@@ -112,21 +100,20 @@ export const runTestCase = async (
       id: `result-${testCase.id}-${Date.now()}`,
       modelId: '', // Will be filled in by the calling function
       testCaseId: testCase.id,
+      testCaseName: testCase.name,
+      category: testCase.category,
       passed: true, // Basic pass if no errors
       timeTaken,
       outputTensor: outputArray
     };
     
     // If expected output is provided, check accuracy
-    if (testCase.expectedOutput) {
+    if (testCase.expectedOutput !== undefined) {
       result.expectedTensor = testCase.expectedOutput;
       
       // Check if output matches expected (with tolerance)
-      const matches = compareOutputs(outputArray, testCase.expectedOutput);
-      result.passed = matches;
-      
-      // Calculate metrics
-      result.metrics = calculateMetrics(outputArray, testCase.expectedOutput);
+      result.diff = diffOutputs(outputArray, testCase.expectedOutput, testCase.tolerance || tolerance);
+      result.passed = result.diff.shapeMatches && result.diff.mismatchCount === 0;
     }
     
     return result;
@@ -136,6 +123,8 @@ export const runTestCase = async (
       id: `result-${testCase.id}-${Date.now()}`,
       modelId: '',
       testCaseId: testCase.id,
+      testCaseName: testCase.name,
+      category: testCase.category,
       passed: false,
       timeTaken: 0,
       error: error instanceof Error ? error.message : 'Unknown error'
@@ -144,33 +133,35 @@ export const runTestCase = async (
 };
 
 /**
- * Run all test cases for a specific model
+ * Run all test cases for a specific model, from a saved suite when given
+ * and otherwise the built-in cases for the model's type
  */
 export const testModel = async (
-  modelId: string
+  modelId: string,
+  suite?: ModelTestSuite
 ): Promise<BenchmarkResult> => {
   try {
     // Load the model
-    const model = await loadModelById(modelId) as tf.LayersModel;
+    const model = await loadModelById(modelId) as RunnableModel;
     if (!model) {
       throw new Error(`Failed to load model with ID ${modelId}`);
     }
     
-    // Determine model type
-    const modelConfig = findModelConfig(modelId);
-    if (!modelConfig) {
+    // Determine model type, from the version that loaded
+    const modelVersion = findModelVersion(modelId);
+    if (!modelVersion) {
       throw new Error(`Model configuration not found for ${modelId}`);
     }
     
     // Get test cases for this model type
-    const modelTestCases = testCases[modelConfig.type] || testCases['tensorflow'];
+    const modelTestCases = suite ? suite.cases : generateTestCases(modelVersion.type, modelVersion.signature);
     
     // Run all test cases
     const results: ModelTestResult[] = [];
     
     for (const testCase of modelTestCases) {
       // Run the test case
-      const result = await runTestCase(model, testCase);
+      const result = await runTestCase(model, testCase, suite?.tolerance);
       result.modelId = modelId;
       results.push(result);
     }
@@ -189,13 +180,23 @@ export const testModel = async (
       console.warn('Could not get memory usage', e);
     }
     
-    return {
+    const result: BenchmarkResult = {
       modelId,
+      modelVersion: modelVersion.version,
       averageInferenceTime: averageTime,
       memoryUsage,
       passRate,
-      results
+      results,
+      // Classification or regression metrics across every case with an expected output
+      metrics: computeSuiteMetrics(results, suite?.task) || undefined,
+      suiteId: suite?.id,
+      suiteVersion: suite?.version
     };
+    
+    // Keep the registry's metrics for this version up to date
+    await recordModelVersionMetrics(modelId, modelVersion.version, result);
+    
+    return result;
   } catch (error) {
     console.error(`Testing model ${modelId} failed:`, error);
     return {
@@ -203,6 +204,8 @@ export const testModel = async (
       averageInferenceTime: 0,
       memoryUsage: 0,
       passRate: 0,
+      suiteId: suite?.id,
+      suiteVersion: suite?.version,
       results: [{
         id: `error-${Date.now()}`,
         modelId,
@@ -216,160 +219,103 @@ export const testModel = async (
 };
 
 /**
- * Run performance benchmark with multiple iterations
+ * Compare actual and expected outputs value by value, like NumPy's allclose:
+ * a value matches when |actual - expected| <= absolute + relative * |expected|
  */
-export const benchmarkModel = async (
-  modelId: string,
-  iterations: number = 10
-): Promise<{
-  averageTime: number;
-  minTime: number;
-  maxTime: number;
-  memoryUsage: number;
-}> => {
-  try {
-    // Load the model
-    const model = await loadModelById(modelId) as tf.LayersModel;
-    if (!model) {
-      throw new Error(`Failed to load model with ID ${modelId}`);
-    }
-    
-    // Determine model type
-    const modelConfig = findModelConfig(modelId);
-    if (!modelConfig) {
-      throw new Error(`Model configuration not found for ${modelId}`);
-    }
-    
-    // Get a test case
-    const modelTestCases = testCases[modelConfig.type] || testCases['tensorflow'];
-    const testCase = modelTestCases.find(tc => tc.category === 'performance') || modelTestCases[0];
-    
-    // Run multiple iterations
-    const times: number[] = [];
-    
-    for (let i = 0; i < iterations; i++) {
-      const startTime = performance.now();
-      
-      // Convert input to tensor
-      const inputTensor = tf.tensor(testCase.input);
-      
-      // Run prediction
-      const outputTensor = model.predict(inputTensor) as tf.Tensor;
-      await outputTensor.data(); // Ensure execution has completed
-      
-      // Measure time
-      const endTime = performance.now();
-      times.push(endTime - startTime);
-      
-      // Clean up tensors
-      tf.dispose([inputTensor, outputTensor]);
-    }
-    
-    // Calculate statistics
-    const averageTime = times.reduce((sum, time) => sum + time, 0) / times.length;
-    const minTime = Math.min(...times);
-    const maxTime = Math.max(...times);
-    
-    // Get memory usage
-    let memoryUsage = 0;
-    try {
-      const memoryInfo = await tf.memory();
-      memoryUsage = memoryInfo.numBytes;
-    } catch (e) {
-      console.warn('Could not get memory usage', e);
-    }
-    
-    return {
-      averageTime,
-      minTime,
-      maxTime,
-      memoryUsage
-    };
-  } catch (error) {
-    console.error(`Benchmarking model ${modelId} failed:`, error);
-    throw error;
-  }
-};
+export const diffOutputs = (
+  actual: TensorValues,
+  expected: TensorValues,
+  tolerance: TestTolerance = DEFAULT_TOLERANCE
+): OutputDiff => {
+  const actualShape = getTensorShape(actual);
+  const expectedShape = getTensorShape(expected);
+  const shapeMatches = actualShape.length === expectedShape.length &&
+    actualShape.every((dimension, axis) => dimension === expectedShape[axis]);
 
-/**
- * Helper function to find model configuration by ID
- */
-const findModelConfig = (modelId: string): AIModelConfig | undefined => {
-  const { availableModels } = require('@/utils/modelUtils');
-  return availableModels.find((model: AIModelConfig) => model.id === modelId);
-};
+  const diff: OutputDiff = {
+    actualShape,
+    expectedShape,
+    shapeMatches,
+    maxAbsoluteError: 0,
+    meanAbsoluteError: 0,
+    mismatchCount: 0,
+    mismatches: [],
+    tolerance
+  };
+  if (!shapeMatches) return diff;
 
-/**
- * Compare expected and actual outputs with tolerance
- */
-const compareOutputs = (
-  actual: number[][],
-  expected: number[][],
-  tolerance: number = 1e-4
-): boolean => {
-  if (actual.length !== expected.length) return false;
-  
-  for (let i = 0; i < actual.length; i++) {
-    if (actual[i].length !== expected[i].length) return false;
-    
-    for (let j = 0; j < actual[i].length; j++) {
-      if (Math.abs(actual[i][j] - expected[i][j]) > tolerance) {
-        return false;
+  const actualFlat = flattenTensor(actual);
+  const expectedFlat = flattenTensor(expected);
+  let totalError = 0;
+
+  actualFlat.forEach((value, offset) => {
+    const difference = Math.abs(value - expectedFlat[offset]);
+    totalError += difference;
+    diff.maxAbsoluteError = Math.max(diff.maxAbsoluteError, difference);
+
+    // NaN never matches
+    if (!(difference <= tolerance.absolute + tolerance.relative * Math.abs(expectedFlat[offset]))) {
+      diff.mismatchCount++;
+      if (diff.mismatches.length < MAX_LISTED_MISMATCHES) {
+        diff.mismatches.push({ index: toIndex(offset, actualShape), actual: value, expected: expectedFlat[offset], difference });
       }
     }
+  });
+
+  diff.meanAbsoluteError = actualFlat.length > 0 ? totalError / actualFlat.length : 0;
+  return diff;
+};
+
+// Position of a row-major offset in a tensor of the given shape
+const toIndex = (offset: number, shape: number[]): number[] => {
+  const index: number[] = [];
+  let remainder = offset;
+  for (let axis = shape.length - 1; axis >= 0; axis--) {
+    index[axis] = remainder % shape[axis];
+    remainder = Math.floor(remainder / shape[axis]);
   }
-  
-  return true;
+  return index;
 };
 
 /**
- * Calculate metrics between expected and actual outputs
+ * Generate test cases for a given model
  */
-const calculateMetrics = (
-  actual: number[][],
-  expected: number[][]
-): { accuracy: number; precision: number; recall: number; f1Score: number } => {
-  // This is a simplified version - in a real application, these calculations would be more sophisticated
-  
-  // Flatten arrays for easier comparison
-  const actualFlat = actual.flat();
-  const expectedFlat = expected.flat();
-  
-  // Binary classification metrics (simplified)
-  let truePositives = 0;
-  let falsePositives = 0;
-  let falseNegatives = 0;
-  let trueNegatives = 0;
-  
-  const threshold = 0.5; // For binary classification
-  
-  for (let i = 0; i < actualFlat.length; i++) {
-    const actualValue = actualFlat[i] >= threshold ? 1 : 0;
-    const expectedValue = expectedFlat[i] >= threshold ? 1 : 0;
-    
-    if (actualValue === 1 && expectedValue === 1) truePositives++;
-    if (actualValue === 1 && expectedValue === 0) falsePositives++;
-    if (actualValue === 0 && expectedValue === 1) falseNegatives++;
-    if (actualValue === 0 && expectedValue === 0) trueNegatives++;
+export const generateTestCases = (modelType: string, signature?: ModelSignature | null): ModelTestCase[] => {
+  const cases = testCases[modelType] || testCases['tensorflow'];
+  const input = signature?.inputs.length === 1 ? signature.inputs[0] : null;
+  if (!input || cases.every(testCase => fitsShape(getTensorShape(testCase.input), input.shape))) {
+    return cases;
   }
   
-  // Calculate metrics
-  const accuracy = (truePositives + trueNegatives) / actualFlat.length;
-  const precision = truePositives / (truePositives + falsePositives) || 0;
-  const recall = truePositives / (truePositives + falseNegatives) || 0;
-  const f1Score = 2 * precision * recall / (precision + recall) || 0;
-  
-  return {
-    accuracy,
-    precision,
-    recall,
-    f1Score
-  };
+  // Same cases, shaped for the model's input with a batch of one
+  const shape = input.shape.map(dimension => dimension ?? 1);
+  const size = shape.reduce((total, dimension) => total * dimension, 1);
+  const fill = (value: (index: number) => number) => reshapeValues(Array.from({ length: size }, (_, index) => value(index)), shape);
+  return [
+    {
+      id: 'signature-inference',
+      name: 'Basic Inference Test',
+      description: `Tests the model with a simple input pattern shaped [${shape.join(', ')}]`,
+      input: fill(index => ((index % 10) + 1) / 10),
+      category: 'accuracy'
+    },
+    {
+      id: 'signature-performance',
+      name: 'Performance Test - Single Inference',
+      description: 'Tests the model performance with a single inference',
+      input: fill(() => 0.5),
+      category: 'performance'
+    },
+    {
+      id: 'signature-zeros',
+      name: 'Edge Case - All Zeros',
+      description: 'Tests the model with all zero inputs',
+      input: fill(() => 0),
+      category: 'edge-case'
+    }
+  ];
 };
 
-/**
- * Generate test cases for a given model
- */
-export const generateTestCases = (modelType: string): ModelTestCase[] => {
-  return testCases[modelType] || testCases['tensorflow'];
+const fitsShape = (shape: number[], expected: (number | null)[]): boolean => {
+  return shape.length === expected.length && shape.every((dimension, axis) => expected[axis] === null || expected[axis] === dimension);
 };
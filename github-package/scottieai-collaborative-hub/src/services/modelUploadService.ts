@@ -0,0 +1,204 @@
+import * as tf from '@tensorflow/tfjs';
+import { toast } from 'sonner';
+import { getRegisteredModel, registerModelVersion } from './modelRegistryService';
+import { ModelArtifact, removeModelArtifact, saveModelArtifact, uploadModelArtifact } from './modelArtifactStore';
+import { createOnnxModel, getModelSignature, runModel, RunnableModel } from '@/utils/modelRuntime';
+import { formatModelSize, nextVersion } from '@/utils/modelVersionUtils';
+import { ModelFormat, ModelSignature, ModelVersion, ModelVersionDraft } from '@/types/modelRegistry';
+
+// An uploaded model that loaded and ran, ready to be registered
+export interface InspectedModel {
+  format: ModelFormat;
+  signature: ModelSignature;
+  sizeBytes: number;
+  // Limits on how the model can be used that don't stop it being registered
+  warnings: string[];
+  model: RunnableModel;
+  artifact: ModelArtifact;
+}
+
+export type ModelUploadDetails = Pick<
+  ModelVersionDraft,
+  'modelId' | 'name' | 'description' | 'capabilities' | 'trainingDataset' | 'parent' | 'bump'
+>;
+
+const getFileName = (path: string): string => path.split('/').pop() || path;
+
+const concatenateBuffers = (buffers: ArrayBuffer[]): ArrayBuffer => {
+  const bytes = new Uint8Array(buffers.reduce((total, buffer) => total + buffer.byteLength, 0));
+  let offset = 0;
+  buffers.forEach(buffer => {
+    bytes.set(new Uint8Array(buffer), offset);
+    offset += buffer.byteLength;
+  });
+  return bytes.buffer;
+};
+
+const detectTfjsFormat = (modelJSON: tf.io.ModelJSON): 'tfjs-layers' | 'tfjs-graph' => {
+  if (modelJSON.format === 'graph-model') return 'tfjs-graph';
+  if (modelJSON.format === 'layers-model') return 'tfjs-layers';
+
+  // Older converters leave the format out; the topologies differ
+  const topology = modelJSON.modelTopology as Record<string, unknown>;
+  if ('node' in topology) return 'tfjs-graph';
+  if ('class_name' in topology || 'model_config' in topology) return 'tfjs-layers';
+  throw new Error('The model.json is neither a layers model nor a graph model');
+};
+
+const inspectTfjsFiles = async (files: File[]): Promise<Omit<InspectedModel, 'sizeBytes'>> => {
+  const jsonFiles = files.filter(file => file.name.toLowerCase().endsWith('.json'));
+  if (jsonFiles.length !== 1) {
+    throw new Error('Choose one model.json together with its weight files');
+  }
+
+  let modelJSON: tf.io.ModelJSON;
+  try {
+    modelJSON = JSON.parse(await jsonFiles[0].text());
+  } catch {
+    throw new Error(`${jsonFiles[0].name} is not valid JSON`);
+  }
+  if (!modelJSON || typeof modelJSON.modelTopology !== 'object' || modelJSON.modelTopology === null) {
+    throw new Error(`${jsonFiles[0].name} has no modelTopology, so it isn't a TF.js model`);
+  }
+
+  const format = detectTfjsFormat(modelJSON);
+  const manifest = modelJSON.weightsManifest || [];
+  const paths = manifest.flatMap(group => group.paths);
+  const weightFiles = new Map(files.filter(file => file !== jsonFiles[0]).map(file => [file.name, file]));
+
+  const missing = paths.map(getFileName).filter(name => !weightFiles.has(name));
+  if (missing.length > 0) {
+    throw new Error(`Missing weight files: ${missing.join(', ')}`);
+  }
+
+  const warnings: string[] = [];
+  const unused = [...weightFiles.keys()].filter(name => !paths.some(path => getFileName(path) === name));
+  if (unused.length > 0) {
+    warnings.push(`Not part of the model and left out: ${unused.join(', ')}`);
+  }
+
+  // Weight shards are read in manifest order, as TF.js would fetch them
+  const weightData = concatenateBuffers(await Promise.all(paths.map(path => weightFiles.get(getFileName(path))!.arrayBuffer())));
+  const weightSpecs = manifest.flatMap(group => group.weights);
+  const artifacts = await tf.io.getModelArtifactsForJSON(modelJSON, async () => [weightSpecs, weightData]);
+  const handler = tf.io.fromMemory(artifacts);
+
+  try {
+    if (format === 'tfjs-graph') {
+      const model = await tf.loadGraphModel(handler);
+      return { format, signature: getModelSignature(model), warnings, model, artifact: { format, model } };
+    }
+    const model = await tf.loadLayersModel(handler);
+    return { format, signature: getModelSignature(model), warnings, model, artifact: { format, model } };
+  } catch (error) {
+    throw new Error(`The model could not be loaded: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+const inspectOnnxFile = async (file: File): Promise<Omit<InspectedModel, 'sizeBytes'>> => {
+  const bytes = await file.arrayBuffer();
+  if (bytes.byteLength === 0) {
+    throw new Error(`${file.name} is empty`);
+  }
+
+  let model: RunnableModel;
+  try {
+    model = await createOnnxModel(bytes);
+  } catch (error) {
+    throw new Error(`${file.name} isn't a model ONNX Runtime can load: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const signature = getModelSignature(model);
+  const nonTensor = signature.inputs.filter(input => input.dtype === 'non-tensor');
+  if (nonTensor.length > 0) {
+    model.dispose();
+    throw new Error(`Inputs that aren't tensors can't be fed: ${nonTensor.map(input => input.name).join(', ')}`);
+  }
+  return { format: 'onnx', signature, warnings: [], model, artifact: { format: 'onnx', bytes } };
+};
+
+// Feed zeros shaped like the input, with 1 for dimensions of any size
+const checkPrediction = async (model: RunnableModel, signature: ModelSignature): Promise<void> => {
+  const [input] = signature.inputs;
+  const dtype = input.dtype.startsWith('int') || input.dtype.startsWith('uint') ? 'int32' : 'float32';
+  const sample = tf.zeros(input.shape.map(dimension => dimension ?? 1), dtype);
+
+  try {
+    const output = await runModel(model, sample);
+    output.dispose();
+  } finally {
+    sample.dispose();
+  }
+};
+
+/**
+ * Load an uploaded model to validate it and read its signature: a TF.js
+ * model.json with its weight shards, or a single .onnx file. The model has to
+ * get through a prediction on zeros before it can be registered.
+ */
+export const inspectModelFiles = async (files: File[]): Promise<InspectedModel> => {
+  const onnxFiles = files.filter(file => file.name.toLowerCase().endsWith('.onnx'));
+  if (onnxFiles.length > 0 && files.length > 1) {
+    throw new Error('Upload an ONNX model as a single .onnx file');
+  }
+  if (files.length === 0) {
+    throw new Error('Choose a model.json with its weight files, or a .onnx file');
+  }
+
+  const inspected = onnxFiles.length > 0 ? await inspectOnnxFile(onnxFiles[0]) : await inspectTfjsFiles(files);
+  const { model, signature, warnings } = inspected;
+
+  if (signature.inputs.length !== 1) {
+    warnings.push(`The model takes ${signature.inputs.length} inputs; inference, tests and benchmarks feed only one`);
+  } else {
+    try {
+      await checkPrediction(model, signature);
+    } catch (error) {
+      model.dispose();
+      throw new Error(`The model failed a test prediction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return { ...inspected, sizeBytes: files.reduce((total, file) => total + file.size, 0) };
+};
+
+/**
+ * Upload an inspected model, keep a copy in IndexedDB and register it as the
+ * model's next version
+ */
+export const uploadModel = async (inspected: InspectedModel, details: ModelUploadDetails): Promise<ModelVersion | null> => {
+  try {
+    const current = await getRegisteredModel(details.modelId);
+    if (current?.source === 'built-in') {
+      throw new Error(`${details.modelId} is a built-in model`);
+    }
+
+    const version = nextVersion(current?.versions.map(entry => entry.version) || [], details.bump);
+    const artifactUri = `indexeddb://model-registry/${details.modelId}/${version}`;
+    const storagePath = await uploadModelArtifact(details.modelId, version, inspected.artifact);
+    // This browser's copy; other devices download and cache the upload
+    await saveModelArtifact(artifactUri, inspected.artifact).catch(error => console.warn(`Could not cache ${artifactUri}:`, error));
+
+    const registered = await registerModelVersion({
+      ...details,
+      source: 'uploaded',
+      format: inspected.format,
+      type: inspected.format === 'onnx' ? 'onnx' : 'tensorflow',
+      artifactUri,
+      storagePath,
+      version,
+      size: formatModelSize(inspected.sizeBytes),
+      signature: inspected.signature
+    });
+
+    // Don't leave an artifact behind that nothing refers to
+    if (!registered) {
+      await removeModelArtifact(inspected.format, artifactUri, storagePath);
+    }
+    return registered;
+  } catch (error) {
+    console.error('Error uploading model:', error);
+    toast.error(`Failed to upload model: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return null;
+  }
+};
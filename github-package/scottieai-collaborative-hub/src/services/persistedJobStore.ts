@@ -0,0 +1,83 @@
+import { supabase } from '@/lib/supabase';
+
+type JobListener<Job> = (job: Job) => void;
+
+// Background jobs started in this session, saved to a Supabase table so their
+// history outlives the page
+export interface PersistedJobStore<Job extends { id: string }> {
+  get: (jobId: string) => Job | undefined;
+  has: (jobId: string) => boolean;
+  values: () => Job[];
+  // Add a new job and notify subscribers
+  add: (job: Job) => Job;
+  // Replace the stored job and notify subscribers; jobs are never mutated in place
+  update: (jobId: string, update: (job: Job) => Partial<Job>) => Job;
+  // Save the job as it is now
+  persist: (jobId: string) => Promise<void>;
+  // Listen for changes to any job; returns a function that stops listening
+  subscribe: (listener: JobListener<Job>) => () => void;
+}
+
+/**
+ * Create a store for one kind of background job
+ * @param table The Supabase table jobs are upserted into
+ * @param toRow Maps a job to its row for the signed-in user
+ * @param label Names the job in error messages, like "deployment job"
+ */
+export const createPersistedJobStore = <Job extends { id: string }>(
+  table: string,
+  toRow: (job: Job, userId: string) => Record<string, unknown>,
+  label: string
+): PersistedJobStore<Job> => {
+  const jobs = new Map<string, Job>();
+  const listeners = new Set<JobListener<Job>>();
+  // Saves run one after another per job so an older snapshot never overwrites a newer one
+  const pendingSaves = new Map<string, Promise<void>>();
+
+  const notify = (job: Job) => {
+    listeners.forEach(listener => listener(job));
+  };
+
+  const save = async (jobId: string): Promise<void> => {
+    const job = jobs.get(jobId);
+    if (!job) return;
+
+    try {
+      const { data: userData, error: userError } = await supabase.auth.getUser();
+      if (userError || !userData.user) return;
+
+      const { error } = await supabase.from(table).upsert(toRow(job, userData.user.id));
+      if (error) throw error;
+    } catch (error) {
+      console.error(`Error saving ${label}:`, error);
+    }
+  };
+
+  return {
+    get: jobId => jobs.get(jobId),
+    has: jobId => jobs.has(jobId),
+    values: () => Array.from(jobs.values()),
+    add: job => {
+      jobs.set(job.id, job);
+      notify(job);
+      return job;
+    },
+    update: (jobId, update) => {
+      const job = { ...jobs.get(jobId)!, ...update(jobs.get(jobId)!) };
+      jobs.set(jobId, job);
+      notify(job);
+      return job;
+    },
+    persist: jobId => {
+      const saved = (pendingSaves.get(jobId) || Promise.resolve()).then(() => save(jobId));
+      pendingSaves.set(jobId, saved);
+      return saved;
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
@@ -1,6 +1,8 @@
 import { supabase } from '@/lib/supabase';
 import { Project } from '@/components/features/ProjectCard';
 import { toast } from 'sonner';
+import { CodeAnalysisResult } from '@/types/llm';
+import { LanguageStatistic, TechnologyDetectionResult, TechnologyEvidence } from '@/utils/technologyDetection';
 
 export type ProjectCreate = Omit<Project, 'id' | 'created' | 'updated'>;
 
@@ -395,3 +397,303 @@ export const getProjectStatistics = async (): Promise<{
     };
   }
 };
+
+export type RevisionSource = 'upload' | 'code-update';
+
+export interface ProjectRevision {
+  id: string;
+  projectId: string;
+  revisionNumber: number;
+  filePath: string;
+  parentRevisionId: string | null;
+  source: RevisionSource;
+  description: string;
+  technologies: string[];
+  technologyEvidence: TechnologyEvidence[];
+  languages: LanguageStatistic[];
+  analysis: CodeAnalysisResult | null;
+  created: Date;
+}
+
+export interface RevisionDetails {
+  source: RevisionSource;
+  description: string;
+  // Detection results for the new package; carried over from the parent revision when omitted
+  detection?: TechnologyDetectionResult;
+}
+
+interface ProjectRevisionRow {
+  id: string;
+  project_id: string;
+  revision_number: number;
+  file_path: string;
+  parent_revision_id: string | null;
+  source: RevisionSource;
+  description: string | null;
+  technologies: string[] | null;
+  technology_evidence: TechnologyEvidence[] | null;
+  language_stats: LanguageStatistic[] | null;
+  analysis: CodeAnalysisResult | null;
+  created_at: string;
+}
+
+const mapRevision = (revision: ProjectRevisionRow): ProjectRevision => ({
+  id: revision.id,
+  projectId: revision.project_id,
+  revisionNumber: revision.revision_number,
+  filePath: revision.file_path,
+  parentRevisionId: revision.parent_revision_id,
+  source: revision.source,
+  description: revision.description || '',
+  technologies: revision.technologies || [],
+  technologyEvidence: revision.technology_evidence || [],
+  languages: revision.language_stats || [],
+  analysis: revision.analysis,
+  created: new Date(revision.created_at)
+});
+
+// Get the revision history of a project, newest first
+export const getProjectRevisions = async (projectId: string): Promise<ProjectRevision[]> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) throw new Error('User not authenticated');
+
+    const { data: revisions, error } = await supabase
+      .from('project_revisions')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('user_id', userData.user.id)
+      .order('revision_number', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching project revisions:', error);
+      throw error;
+    }
+
+    return revisions.map(mapRevision);
+  } catch (error) {
+    console.error('Error in getProjectRevisions:', error);
+    toast.error('Failed to fetch project revisions');
+    return [];
+  }
+};
+
+// Store a new code package as the project's next revision and make it current
+export const createProjectRevision = async (
+  projectId: string,
+  archive: Blob,
+  fileName: string,
+  details: RevisionDetails
+): Promise<ProjectRevision | null> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) throw new Error('User not authenticated');
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('user_id, file_path, current_revision_id, technologies, technology_evidence, language_stats')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError) {
+      console.error('Error fetching project for revision:', projectError);
+      throw projectError;
+    }
+
+    if (project.user_id !== userData.user.id) {
+      throw new Error('You do not have permission to update this project');
+    }
+
+    // Projects uploaded before revisions existed get their original package recorded as revision 1
+    let parentRevisionId: string | null = project.current_revision_id;
+    if (!parentRevisionId && project.file_path) {
+      parentRevisionId = (await recordInitialRevision(projectId, userData.user.id, project)).id;
+    }
+
+    const { data: latest } = await supabase
+      .from('project_revisions')
+      .select('revision_number')
+      .eq('project_id', projectId)
+      .order('revision_number', { ascending: false })
+      .limit(1);
+
+    const revisionNumber = latest && latest.length > 0 ? latest[0].revision_number + 1 : 1;
+    const filePath = `code_packages/${userData.user.id}/${projectId}/revisions/${revisionNumber}/${fileName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('code_packages')
+      .upload(filePath, archive, {
+        cacheControl: '3600',
+        upsert: false
+      });
+
+    if (uploadError) throw uploadError;
+
+    const detection = details.detection || {
+      technologies: project.technologies || [],
+      evidence: project.technology_evidence || [],
+      languages: project.language_stats || []
+    };
+
+    const { data: revision, error } = await supabase
+      .from('project_revisions')
+      .insert({
+        project_id: projectId,
+        user_id: userData.user.id,
+        revision_number: revisionNumber,
+        file_path: filePath,
+        parent_revision_id: parentRevisionId,
+        source: details.source,
+        description: details.description,
+        technologies: detection.technologies,
+        technology_evidence: detection.evidence,
+        language_stats: detection.languages,
+        analysis: null,
+        created_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating project revision:', error);
+      // The package is unreachable without its revision row
+      await supabase.storage.from('code_packages').remove([filePath]);
+      throw error;
+    }
+
+    await setCurrentRevision(projectId, revision);
+    return mapRevision(revision);
+  } catch (error) {
+    console.error('Error in createProjectRevision:', error);
+    toast.error('Failed to create project revision');
+    return null;
+  }
+};
+
+// Point the project back at the revision its current revision was derived from.
+// With onlyCodeUpdates, an uploaded current revision is left alone.
+export const rollbackProjectRevision = async (
+  projectId: string,
+  onlyCodeUpdates = false
+): Promise<ProjectRevision | null> => {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData.user) throw new Error('User not authenticated');
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('current_revision_id')
+      .eq('id', projectId)
+      .eq('user_id', userData.user.id)
+      .single();
+
+    if (projectError) {
+      console.error('Error fetching project for rollback:', projectError);
+      throw projectError;
+    }
+
+    if (!project.current_revision_id) {
+      throw new Error('Project has no revision to roll back');
+    }
+
+    const { data: current, error: currentError } = await supabase
+      .from('project_revisions')
+      .select('parent_revision_id, source')
+      .eq('id', project.current_revision_id)
+      .single();
+
+    if (currentError) throw currentError;
+    if (onlyCodeUpdates && current.source !== 'code-update') {
+      throw new Error('The current revision is an upload, not applied code updates, so there are no updates to roll back');
+    }
+    if (!current.parent_revision_id) {
+      throw new Error('The current revision is the original upload');
+    }
+
+    const { data: parent, error: parentError } = await supabase
+      .from('project_revisions')
+      .select('*')
+      .eq('id', current.parent_revision_id)
+      .single();
+
+    if (parentError) throw parentError;
+
+    await setCurrentRevision(projectId, parent);
+
+    toast.success(`Rolled back to revision ${parent.revision_number}`);
+    return mapRevision(parent);
+  } catch (error) {
+    console.error('Error in rollbackProjectRevision:', error);
+    toast.error(`Failed to roll back project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return null;
+  }
+};
+
+// Store analysis results against the revision they were computed for
+export const saveRevisionAnalysis = async (
+  revisionId: string,
+  analysis: CodeAnalysisResult
+): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('project_revisions')
+      .update({ analysis })
+      .eq('id', revisionId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error in saveRevisionAnalysis:', error);
+    return false;
+  }
+};
+
+const recordInitialRevision = async (
+  projectId: string,
+  userId: string,
+  project: {
+    file_path: string;
+    technologies: string[] | null;
+    technology_evidence: TechnologyEvidence[] | null;
+    language_stats: LanguageStatistic[] | null;
+  }
+): Promise<{ id: string }> => {
+  const { data, error } = await supabase
+    .from('project_revisions')
+    .insert({
+      project_id: projectId,
+      user_id: userId,
+      revision_number: 1,
+      file_path: project.file_path,
+      parent_revision_id: null,
+      source: 'upload',
+      description: 'Original upload',
+      technologies: project.technologies || [],
+      technology_evidence: project.technology_evidence || [],
+      language_stats: project.language_stats || [],
+      analysis: null,
+      created_at: new Date().toISOString()
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// The project row mirrors its current revision's package and detection results
+const setCurrentRevision = async (projectId: string, revision: ProjectRevisionRow): Promise<void> => {
+  const { error } = await supabase
+    .from('projects')
+    .update({
+      current_revision_id: revision.id,
+      file_path: revision.file_path,
+      technologies: revision.technologies || [],
+      technology_evidence: revision.technology_evidence || [],
+      language_stats: revision.language_stats || [],
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', projectId);
+
+  if (error) throw error;
+};
@@ -3,20 +3,25 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import AIModelSelector from '@/components/features/AIModelSelector';
 import { 
-  getAvailableModels, 
   getModelLoadingStatus, 
   loadModelById,
-  getUserModels,
   getModelRecommendations
 } from '@/services/aiModelService';
+import { getRegisteredModels } from '@/services/modelRegistryService';
 
 // Mock AI model service
 vi.mock('@/services/aiModelService', () => ({
-  getAvailableModels: vi.fn(),
   getModelLoadingStatus: vi.fn(),
   loadModelById: vi.fn(),
-  getUserModels: vi.fn(),
-  getModelRecommendations: vi.fn()
+  deleteUserModel: vi.fn(),
+  getModelRecommendations: vi.fn(),
+  importLegacyUserModels: vi.fn().mockResolvedValue(0)
+}));
+
+// Mock the model registry
+vi.mock('@/services/modelRegistryService', () => ({
+  getRegisteredModels: vi.fn(),
+  setModelVersionStage: vi.fn()
 }));
 
 // Mock toast
@@ -52,20 +57,52 @@ describe('AIModelSelector Component', () => {
     }
   ];
 
-  const mockUserModels = [
-    {
-      id: 'custom-model-1',
-      language: 'en',
-      created_at: '2025-03-20T10:00:00Z'
-    }
-  ];
+  // Each model registered as a single version
+  const register = (config, source = 'built-in', extra = {}) => {
+    const version = {
+      id: `${config.id}@1.0.0`,
+      modelId: config.id,
+      version: '1.0.0',
+      name: config.name,
+      description: config.description,
+      type: config.type,
+      format: 'tfjs-layers',
+      source,
+      artifactUri: config.path,
+      storagePath: source === 'built-in' ? null : `model_artifacts/user-1/${config.id}/1.0.0`,
+      size: config.size,
+      capabilities: config.capabilities,
+      supportedLanguages: config.supportedLanguages,
+      signature: null,
+      trainingDataset: null,
+      metrics: null,
+      parent: null,
+      stages: source === 'built-in' ? ['production'] : [],
+      created: new Date('2025-03-20T10:00:00Z'),
+      ...extra
+    };
+    return { modelId: config.id, name: config.name, description: config.description, source, versions: [version] };
+  };
+
+  const mockUserModel = register({
+    id: 'custom-model-1',
+    name: 'Custom Model',
+    description: 'Trained on this project',
+    type: 'tensorflow',
+    path: 'indexeddb://model-registry/custom-model-1/1.0.0',
+    size: '12KB',
+    capabilities: ['Pattern Detection'],
+    supportedLanguages: ['en']
+  }, 'trained', {
+    trainingDataset: { name: 'Labelled code samples', sampleCount: 40 },
+    parent: { modelId: 'code-pattern', version: '1.0.0' }
+  });
 
   const mockOnModelSelected = vi.fn();
 
   beforeEach(() => {
     vi.clearAllMocks();
-    getAvailableModels.mockReturnValue(mockModels);
-    getUserModels.mockResolvedValue(mockUserModels);
+    getRegisteredModels.mockResolvedValue([...mockModels.map(model => register(model)), mockUserModel]);
     getModelRecommendations.mockReturnValue([mockModels[0]]);
     getModelLoadingStatus.mockReturnValue({ loaded: false, progress: 0 });
     loadModelById.mockResolvedValue({});
@@ -124,9 +161,11 @@ describe('AIModelSelector Component', () => {
     // Check if custom models tab is active
     expect(screen.getByRole('tab', { name: /custom models/i })).toHaveAttribute('data-state', 'active');
     
-    // Check if custom models are shown
+    // Check if custom models are shown with their lineage
     await waitFor(() => {
       expect(screen.getByText('Custom Model')).toBeInTheDocument();
+      expect(screen.getByText('Labelled code samples (40 samples)')).toBeInTheDocument();
+      expect(screen.getByText(/Code Pattern Analyzer v1\.0\.0/)).toBeInTheDocument();
     });
   });
 
@@ -144,7 +183,7 @@ describe('AIModelSelector Component', () => {
     
     // Check if loadModelById was called
     await waitFor(() => {
-      expect(loadModelById).toHaveBeenCalledWith('code-pattern', 'en');
+      expect(loadModelById).toHaveBeenCalledWith('code-pattern', 'en', '1.0.0');
     });
     
     // Check if onModelSelected was called
@@ -174,7 +213,7 @@ describe('AIModelSelector Component', () => {
     
     // Check if loadModelById was called with Spanish language
     await waitFor(() => {
-      expect(loadModelById).toHaveBeenCalledWith('owl-vision', 'es');
+      expect(loadModelById).toHaveBeenCalledWith('owl-vision', 'es', '1.0.0');
     });
   });
 
@@ -0,0 +1,174 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createChatThread,
+  deleteChatThread,
+  deriveThreadTitle,
+  formatThreadAsJson,
+  formatThreadAsMarkdown,
+  getChatThreads,
+  saveChatThread,
+  searchChatThreads,
+  DEFAULT_THREAD_TITLE
+} from '../services/chatThreadService';
+import { ChatThread } from '../types/chat';
+
+type Row = Record<string, unknown>;
+
+const rows: Row[] = [];
+const session: { userId: string | null } = { userId: null };
+
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+// Just enough of the Supabase client for threads to be synced, for whoever is signed in
+vi.mock('../lib/supabase', () => {
+  const query = () => {
+    const filters: [string, unknown[]][] = [];
+    let deleting = false;
+
+    const matches = (row: Row) => filters.every(([column, values]) => values.includes(row[column]));
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, [value]]);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push([column, values]);
+        return builder;
+      },
+      order: () => builder,
+      delete: () => {
+        deleting = true;
+        return builder;
+      },
+      upsert: async (upserted: Row | Row[]) => {
+        for (const row of Array.isArray(upserted) ? upserted : [upserted]) {
+          const index = rows.findIndex(existing => existing.id === row.id);
+          if (index === -1) rows.push(row);
+          else rows[index] = row;
+        }
+        return { error: null };
+      },
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => {
+        if (deleting) {
+          const kept = rows.filter(row => !matches(row));
+          rows.splice(0, rows.length, ...kept);
+          return resolve({ data: [], error: null });
+        }
+        resolve({ data: rows.filter(matches), error: null });
+      }
+    };
+    return builder;
+  };
+
+  const user = () => (session.userId ? { id: session.userId } : null);
+  return {
+    supabase: {
+      auth: {
+        getUser: async () => ({ data: { user: user() }, error: null }),
+        getSession: async () => ({ data: { session: user() ? { user: user() } : null }, error: null })
+      },
+      from: query
+    }
+  };
+});
+
+const thread = (title: string, contents: string[], overrides: Partial<ChatThread> = {}): ChatThread => ({
+  ...createChatThread({ title }),
+  messages: contents.map((content, index) => ({ role: index % 2 ? 'assistant' : 'user', content })),
+  ...overrides
+});
+
+describe('Chat Thread Service', () => {
+  it('should create threads attached to a project and context', () => {
+    const created = createChatThread({ projectId: 'project-1', contextType: 'deployment' });
+
+    expect(created.title).toBe(DEFAULT_THREAD_TITLE);
+    expect(created).toMatchObject({ projectId: 'project-1', contextType: 'deployment', messages: [], digest: '' });
+    expect(created.id).not.toBe(createChatThread().id);
+  });
+
+  it('should search titles and message content', () => {
+    const threads = [
+      thread('Deploying to Vercel', ['How do I set env vars?']),
+      thread('Refactor', ['Can you split the UploadPage component?']),
+      thread('Misc', ['hello'])
+    ];
+
+    expect(searchChatThreads(threads, 'vercel').map(t => t.title)).toEqual(['Deploying to Vercel']);
+    expect(searchChatThreads(threads, 'uploadpage').map(t => t.title)).toEqual(['Refactor']);
+    expect(searchChatThreads(threads, '  ')).toHaveLength(3);
+  });
+
+  it('should derive titles from the first message', () => {
+    expect(deriveThreadTitle('  How do I\n deploy?  ')).toBe('How do I deploy?');
+    expect(deriveThreadTitle('x'.repeat(80))).toBe(`${'x'.repeat(57)}...`);
+    expect(deriveThreadTitle('   ')).toBe(DEFAULT_THREAD_TITLE);
+  });
+
+  it('should export a thread as Markdown', () => {
+    const exported = formatThreadAsMarkdown(thread('Review', ['Check this', 'Looks good'], {
+      projectId: 'project-1',
+      digest: 'Earlier we discussed tests.',
+      messages: [
+        { role: 'user', content: 'Check this' },
+        { role: 'assistant', content: 'Looks good', provider: 'anthropic', model: 'claude-3-opus-20240229' }
+      ]
+    }));
+
+    expect(exported).toContain('# Review');
+    expect(exported).toContain('- Project: project-1');
+    expect(exported).toContain('## Summary of earlier messages\n\nEarlier we discussed tests.');
+    expect(exported).toContain('## User\n\nCheck this');
+    expect(exported).toContain('## Assistant (anthropic · claude-3-opus-20240229)\n\nLooks good');
+  });
+
+  it('should export a thread as JSON', () => {
+    const original = thread('Data', ['one', 'two']);
+
+    const parsed = JSON.parse(formatThreadAsJson(original));
+
+    expect(parsed.title).toBe('Data');
+    expect(parsed.messages).toHaveLength(2);
+    expect(parsed.created).toBe(original.created.toISOString());
+  });
+});
+
+describe('Offline conversations on a shared browser', () => {
+  const setOnline = (onLine: boolean) => vi.stubGlobal('navigator', { onLine });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should keep each user\'s cached threads and deletions to themselves', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    rows.push({ id: 'old-thread', user_id: 'user-a', title: 'Old', context_type: 'general', messages: [], created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' });
+
+    // User A works offline: a new thread and a deletion wait for the next sync
+    session.userId = 'user-a';
+    setOnline(false);
+    const draft = thread('Private plans', ['Only for user A']);
+    expect(await saveChatThread(draft)).toBe(true);
+    expect(await deleteChatThread('old-thread')).toBe(true);
+    expect((await getChatThreads()).map(t => t.title)).toEqual(['Private plans']);
+
+    // Signed out, nothing of A's is shown
+    session.userId = null;
+    expect(await getChatThreads()).toEqual([]);
+
+    // User B signs in online; A's changes are neither shown nor synced as B's
+    session.userId = 'user-b';
+    setOnline(true);
+    expect(await getChatThreads()).toEqual([]);
+    expect(rows.map(row => [row.id, row.user_id])).toEqual([['old-thread', 'user-a']]);
+
+    // Back as A, the offline changes sync under A
+    session.userId = 'user-a';
+    const threads = await getChatThreads();
+    expect(threads.map(t => t.title)).toEqual(['Private plans']);
+    expect(rows.map(row => [row.id, row.user_id])).toEqual([[draft.id, 'user-a']]);
+  });
+});
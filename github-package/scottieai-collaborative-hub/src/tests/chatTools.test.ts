@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AnthropicService, CohereService, OpenAIService } from '../services/llmService';
+import { ChatTool, chatTools, executeToolCall, runToolConversation } from '../services/chatToolService';
+import { LLMRouter } from '../services/llmRouter';
+import { ChatMessage, ToolDefinition } from '../types/llm';
+
+const writes: string[] = [];
+
+// Just enough of the Supabase client to read a project, recording any writes
+vi.mock('../lib/supabase', () => {
+  const query = (table: string) => {
+    const write = () => {
+      writes.push(table);
+      return builder;
+    };
+    const builder = {
+      select: () => builder,
+      eq: () => builder,
+      insert: write,
+      update: write,
+      upsert: write,
+      single: async () => ({ data: { id: 'p1', user_id: 'user-1', current_revision_id: 'r1' }, error: null }),
+      then: (resolve: (result: { data: null; error: null }) => void) => resolve({ data: null, error: null })
+    };
+    return builder;
+  };
+
+  return {
+    supabase: {
+      auth: { getUser: async () => ({ data: { user: { id: 'user-1' } }, error: null }) },
+      from: query
+    }
+  };
+});
+
+vi.mock('../services/fileProcessingService', () => ({
+  downloadProjectArchive: vi.fn(),
+  getProjectFiles: async () => [
+    { path: 'src/App.tsx', size: 64, isBinary: false, content: "import { useState, useEffect } from 'react';\nuseState();\n" }
+  ]
+}));
+
+const lookupTool: ToolDefinition = {
+  name: 'getProjectById',
+  description: 'Get a project',
+  parameters: {
+    type: 'object',
+    properties: { projectId: { type: 'string', description: 'ID of the project' } },
+    required: ['projectId']
+  }
+};
+
+// A completed round trip: the model asked for a project and got it back
+const roundTrip: ChatMessage[] = [
+  { role: 'system', content: 'Be brief.' },
+  { role: 'user', content: 'What is project p1?' },
+  { role: 'assistant', content: '', toolCalls: [{ id: 'call-1', name: 'getProjectById', arguments: { projectId: 'p1' } }] },
+  { role: 'tool', content: '', toolResults: [{ callId: 'call-1', name: 'getProjectById', content: '{"name":"Demo"}' }] }
+];
+
+describe('Tool calling across providers', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const respondWith = (body: unknown) => {
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify(body), { status: 200 }));
+  };
+
+  const sentBody = () => JSON.parse(fetchMock.mock.calls[0][1].body);
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send and parse OpenAI function calls', async () => {
+    respondWith({
+      id: 'chatcmpl-1',
+      choices: [{ message: { content: null, tool_calls: [{ id: 'call-2', type: 'function', function: { name: 'getProjectById', arguments: '{"projectId":"p2"}' } }] } }],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 }
+    });
+
+    const response = await new OpenAIService({ apiKey: 'key' }).getChatCompletion({ messages: roundTrip, tools: [lookupTool] });
+
+    expect(response.message).toEqual({
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id: 'call-2', name: 'getProjectById', arguments: { projectId: 'p2' } }]
+    });
+
+    const body = sentBody();
+    expect(body.tools).toEqual([{ type: 'function', function: lookupTool }]);
+    expect(body.messages[2].tool_calls[0]).toEqual({
+      id: 'call-1',
+      type: 'function',
+      function: { name: 'getProjectById', arguments: '{"projectId":"p1"}' }
+    });
+    expect(body.messages[3]).toEqual({ role: 'tool', tool_call_id: 'call-1', content: '{"name":"Demo"}' });
+  });
+
+  it('should send and parse Anthropic tool use blocks', async () => {
+    respondWith({
+      id: 'msg-1',
+      content: [
+        { type: 'text', text: 'Checking deployments.' },
+        { type: 'tool_use', id: 'toolu-1', name: 'getDeploymentHistory', input: { projectId: 'p1' } }
+      ],
+      usage: { input_tokens: 1, output_tokens: 1 }
+    });
+
+    const response = await new AnthropicService({ apiKey: 'key' }).getChatCompletion({ messages: roundTrip, tools: [lookupTool] });
+
+    expect(response.message.content).toBe('Checking deployments.');
+    expect(response.message.toolCalls).toEqual([{ id: 'toolu-1', name: 'getDeploymentHistory', arguments: { projectId: 'p1' } }]);
+
+    const body = sentBody();
+    expect(body.system).toBe('Be brief.');
+    expect(body.tools).toEqual([{ name: 'getProjectById', description: 'Get a project', input_schema: lookupTool.parameters }]);
+    expect(body.messages[1]).toEqual({
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: 'call-1', name: 'getProjectById', input: { projectId: 'p1' } }]
+    });
+    expect(body.messages[2]).toEqual({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'call-1', content: '{"name":"Demo"}' }]
+    });
+  });
+
+  it('should send and parse Cohere tool calls', async () => {
+    respondWith({
+      generation_id: 'gen-1',
+      text: '',
+      tool_calls: [{ name: 'searchProjects', parameters: { query: 'demo' } }]
+    });
+
+    const response = await new CohereService({ apiKey: 'key' }).getChatCompletion({ messages: roundTrip, tools: [lookupTool] });
+
+    expect(response.message.toolCalls).toEqual([{ id: 'gen-1-0', name: 'searchProjects', arguments: { query: 'demo' } }]);
+
+    const body = sentBody();
+    expect(body.message).toBe('');
+    expect(body.tool_results).toEqual([
+      { call: { name: 'getProjectById', parameters: { projectId: 'p1' } }, outputs: [{ output: '{"name":"Demo"}' }] }
+    ]);
+    expect(body.chat_history.map((turn: { role: string }) => turn.role)).toEqual(['SYSTEM', 'USER', 'CHATBOT']);
+    expect(body.tools[0].parameter_definitions).toEqual({
+      projectId: { description: 'ID of the project', type: 'str', required: true }
+    });
+  });
+});
+
+describe('Tool conversations', () => {
+  const tools: ChatTool[] = [
+    { definition: lookupTool, execute: async args => ({ id: args.projectId, name: 'Demo' }) }
+  ];
+
+  it('should run tool calls until the model answers', async () => {
+    const getChatCompletion = vi.fn()
+      .mockResolvedValueOnce({
+        id: '1',
+        provider: 'openai',
+        attempts: [],
+        message: { role: 'assistant', content: '', toolCalls: [{ id: 'c1', name: 'getProjectById', arguments: { projectId: 'p1' } }] }
+      })
+      .mockResolvedValueOnce({ id: '2', provider: 'openai', attempts: [], message: { role: 'assistant', content: 'It is called Demo.' } });
+    const router = { getChatCompletion } as unknown as LLMRouter;
+    const onStep = vi.fn();
+
+    const { response, transcript } = await runToolConversation(
+      router,
+      { messages: [{ role: 'user', content: 'Name of p1?' }] },
+      onStep,
+      tools
+    );
+
+    expect(response.message.content).toBe('It is called Demo.');
+    expect(transcript[1].toolResults).toEqual([{ callId: 'c1', name: 'getProjectById', content: '{"id":"p1","name":"Demo"}' }]);
+    expect(onStep).toHaveBeenCalledTimes(2);
+    expect(getChatCompletion.mock.calls[1][0].messages).toHaveLength(3);
+    expect(getChatCompletion.mock.calls[0][0].tools).toEqual([lookupTool]);
+  });
+
+  it('should retry without tools when the server rejects them', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const getChatCompletion = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('local API error: model does not support tools'), { status: 400 }))
+      .mockResolvedValueOnce({ id: '1', provider: 'local', attempts: [], message: { role: 'assistant', content: 'Hello.' } });
+    const router = { getChatCompletion } as unknown as LLMRouter;
+
+    const { response, transcript } = await runToolConversation(
+      router,
+      { messages: [{ role: 'user', content: 'Hi' }] },
+      undefined,
+      tools
+    );
+
+    expect(response.message.content).toBe('Hello.');
+    expect(transcript).toEqual([]);
+    expect(getChatCompletion.mock.calls[1][0].tools).toBeUndefined();
+  });
+
+  it('should not hide other failures behind a retry', async () => {
+    const getChatCompletion = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('Unauthorized'), { status: 401 }));
+    const router = { getChatCompletion } as unknown as LLMRouter;
+
+    await expect(
+      runToolConversation(router, { messages: [{ role: 'user', content: 'Hi' }] }, undefined, tools)
+    ).rejects.toThrow('Unauthorized');
+    expect(getChatCompletion).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report tool failures to the model', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const unknown = await executeToolCall({ id: 'c1', name: 'dropDatabase', arguments: {} }, tools);
+    const failing = await executeToolCall(
+      { id: 'c2', name: 'getProjectById', arguments: {} },
+      [{ definition: lookupTool, execute: async () => { throw new Error('Project not found'); } }]
+    );
+
+    expect(unknown).toEqual({ callId: 'c1', name: 'dropDatabase', content: 'Unknown tool "dropDatabase"', isError: true });
+    expect(failing).toMatchObject({ content: 'Project not found', isError: true });
+  });
+});
+
+describe('Project tools', () => {
+  it('should analyze a project without storing the analysis', async () => {
+    const result = await executeToolCall({ id: 'c1', name: 'analyzeProjectCode', arguments: { projectId: 'p1' } }, chatTools);
+
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.content).analyzedFiles).toBe(1);
+    expect(writes).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { toast } from 'sonner';
+import { rollbackCodeUpdates } from '../services/autoUpdateService';
+import { analyzeProjectCodeUpdates } from '../services/continuousImprovementService';
+
+type Row = Record<string, unknown>;
+
+const tables: Record<string, Row[]> = {};
+
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn(), warning: vi.fn(), info: vi.fn() } }));
+
+vi.mock('../services/fileProcessingService', () => ({
+  downloadProjectArchive: vi.fn(),
+  getProjectFiles: async () => [
+    { path: 'src/App.tsx', size: 64, isBinary: false, content: "import { useState, useEffect } from 'react';\nuseState();\n" }
+  ]
+}));
+
+// Just enough of the Supabase client for revisions to be read and rolled back
+vi.mock('../lib/supabase', () => {
+  const query = (table: string) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let changes: Row | null = null;
+
+    const run = () => {
+      const rows = (tables[table] || []).filter(row => filters.every(filter => filter(row)));
+      if (changes) rows.forEach(row => Object.assign(row, changes));
+      return rows;
+    };
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      gt: (column: string, value: string) => {
+        filters.push(row => String(row[column]) > value);
+        return builder;
+      },
+      update: (values: Row) => {
+        changes = values;
+        return builder;
+      },
+      single: async () => ({ data: run()[0] || null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: run(), error: null })
+    };
+    return builder;
+  };
+
+  return {
+    supabase: {
+      auth: { getUser: async () => ({ data: { user: { id: 'user-1' } }, error: null }) },
+      from: query
+    }
+  };
+});
+
+const revision = (id: string, revisionNumber: number, source: string, parent: string | null): Row => ({
+  id,
+  project_id: 'project-1',
+  revision_number: revisionNumber,
+  file_path: `code_packages/user-1/project-1/revisions/${revisionNumber}/${source === 'upload' ? 'app.zip' : 'code-update.zip'}`,
+  parent_revision_id: parent,
+  source,
+  created_at: `2026-01-0${revisionNumber}T00:00:00.000Z`
+});
+
+describe('Rolling back code updates', () => {
+  beforeEach(() => {
+    Object.keys(tables).forEach(table => delete tables[table]);
+    vi.mocked(toast.error).mockClear();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should return to the revision the applied updates were made from', async () => {
+    tables.project_revisions = [revision('r1', 1, 'upload', null), revision('r2', 2, 'code-update', 'r1')];
+    tables.projects = [{ id: 'project-1', user_id: 'user-1', current_revision_id: 'r2' }];
+    tables.code_updates = [{ project_id: 'project-1', status: 'applied', applied_at: '2026-01-02T00:00:00.000Z' }];
+
+    const rolledBack = await rollbackCodeUpdates('project-1');
+
+    expect(rolledBack?.id).toBe('r1');
+    expect(tables.projects[0].current_revision_id).toBe('r1');
+    expect(tables.code_updates[0].status).toBe('rolled-back');
+  });
+
+  it('should refuse to roll back a fresh upload', async () => {
+    tables.project_revisions = [
+      revision('r1', 1, 'upload', null),
+      revision('r2', 2, 'code-update', 'r1'),
+      revision('r3', 3, 'upload', 'r2')
+    ];
+    tables.projects = [{ id: 'project-1', user_id: 'user-1', current_revision_id: 'r3' }];
+
+    expect(await rollbackCodeUpdates('project-1')).toBeNull();
+    expect(tables.projects[0].current_revision_id).toBe('r3');
+    expect(toast.error).toHaveBeenCalledWith(expect.stringContaining('is an upload, not applied code updates'));
+  });
+});
+
+describe('Recommendations from project analysis', () => {
+  it('should carry the code update to apply when implemented', async () => {
+    tables.projects = [{ id: 'project-1', user_id: 'user-1', current_revision_id: 'r1' }];
+
+    const recommendations = await analyzeProjectCodeUpdates('project-1');
+    const unusedImport = recommendations.find(recommendation => recommendation.codeUpdate?.filePath === 'src/App.tsx');
+
+    expect(unusedImport).toMatchObject({ projectId: 'project-1', status: 'pending', category: 'code_quality' });
+    expect(unusedImport?.codeUpdate?.currentCode).toContain('useEffect');
+    expect(unusedImport?.codeUpdate?.suggestedCode).not.toContain('useEffect');
+    expect(recommendations.every(recommendation => recommendation.codeUpdate?.suggestedCode !== undefined)).toBe(true);
+  });
+});
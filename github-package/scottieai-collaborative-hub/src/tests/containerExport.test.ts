@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { createContainerPackage } from '../services/containerExportService';
+import { detectContainerStack, generateComposeFile, generateDockerfile } from '../utils/containerUtils';
+import { DeploymentFile, EnvironmentVariable } from '../types/deployment';
+
+const encoder = new TextEncoder();
+
+const file = (path: string, content: string): DeploymentFile => ({ path, bytes: encoder.encode(content) });
+
+const packageJson = (dependencies: Record<string, string> = {}) =>
+  file('package.json', JSON.stringify({ name: 'demo', scripts: { build: 'build' }, dependencies }));
+
+const readAll = async (zip: JSZip): Promise<Record<string, string>> => {
+  const entries = Object.values(zip.files).filter(entry => !entry.dir);
+  return Object.fromEntries(await Promise.all(entries.map(async entry => [entry.name, await entry.async('string')])));
+};
+
+describe('Container stack detection', () => {
+  it('should build single-page apps and serve them with nginx', () => {
+    const stack = detectContainerStack(['React', 'TypeScript'], [packageJson(), file('package-lock.json', '{}')]);
+
+    expect(stack).toEqual({
+      framework: 'react',
+      runtime: 'nginx',
+      packageManager: 'npm',
+      hasLockfile: true,
+      outputDirectory: 'dist',
+      port: 8080
+    });
+  });
+
+  it('should follow the output directory of Create React App and Angular', () => {
+    expect(detectContainerStack(['React'], [packageJson({ 'react-scripts': '5.0.1' })]).outputDirectory).toBe('build');
+
+    const angularJson = file('angular.json', JSON.stringify({
+      projects: { shop: { architect: { build: { options: { outputPath: 'dist/shop' } } } } }
+    }));
+    expect(detectContainerStack(['Angular'], [packageJson(), angularJson]).outputDirectory).toBe('dist/shop');
+  });
+
+  it('should run Next.js on Node and serve plain sites as they are', () => {
+    expect(detectContainerStack(['Next.js'], [packageJson(), file('pnpm-lock.yaml', '')])).toMatchObject({
+      framework: 'nextjs',
+      runtime: 'node',
+      packageManager: 'pnpm',
+      port: 3000
+    });
+    expect(detectContainerStack(['HTML'], [file('index.html', '<h1>Hi</h1>')])).toMatchObject({
+      framework: 'static',
+      runtime: 'nginx',
+      outputDirectory: '.'
+    });
+  });
+});
+
+describe('Container files', () => {
+  it('should write a multi-stage Dockerfile with build arguments', () => {
+    const stack = detectContainerStack(['Vue.js'], [packageJson(), file('yarn.lock', '')]);
+    const dockerfile = generateDockerfile(stack, '20', ['VITE_API_URL']);
+
+    expect(dockerfile.match(/^FROM .+$/gm)).toEqual([
+      'FROM node:20-alpine AS base',
+      'FROM base AS deps',
+      'FROM base AS build',
+      'FROM nginx:1.27-alpine AS runtime'
+    ]);
+    expect(dockerfile).toContain('FROM node:20-alpine AS base\nRUN corepack enable\nWORKDIR /app');
+    expect(dockerfile).toContain('COPY package.json yarn.lock ./');
+    expect(dockerfile).toContain('RUN yarn install --frozen-lockfile');
+    expect(dockerfile).toContain('ARG VITE_API_URL\nENV VITE_API_URL=$VITE_API_URL\nRUN yarn build');
+    expect(dockerfile).toContain('COPY --from=build /app/dist /usr/share/nginx/html');
+    expect(dockerfile).toContain('CMD wget -qO- http://127.0.0.1:8080/healthz || exit 1');
+  });
+
+  it('should have pnpm available in every stage that runs it', () => {
+    const stack = detectContainerStack(['Next.js'], [packageJson(), file('pnpm-lock.yaml', '')]);
+    const dockerfile = generateDockerfile(stack, '22');
+    const stages = dockerfile.split(/\n(?=FROM )/);
+    const base = stages.find(stage => stage.startsWith('FROM node:22-alpine AS base'));
+    const build = stages.find(stage => stage.startsWith('FROM base AS build'));
+
+    expect(base).toContain('RUN corepack enable');
+    expect(build).toContain('RUN pnpm build');
+    expect(build).toContain('RUN pnpm prune --prod');
+    expect(stages.filter(stage => stage.includes('pnpm')).every(stage => /^FROM base /.test(stage))).toBe(true);
+  });
+
+  it('should keep secret values out of the compose file', () => {
+    const stack = detectContainerStack(['React'], [packageJson()]);
+    const variables: EnvironmentVariable[] = [
+      { key: 'VITE_API_URL', value: 'https://api.test', secret: false },
+      { key: 'PRICE_LABEL', value: 'costs $5', secret: false },
+      { key: 'STRIPE_SECRET', value: 'sk_live_123', secret: true }
+    ];
+
+    expect(generateComposeFile('demo', stack, variables, 3000)).toBe([
+      'services:',
+      '  demo:',
+      '    build:',
+      '      context: .',
+      '      args:',
+      '        VITE_API_URL: "https://api.test"',
+      '    image: demo:latest',
+      '    restart: unless-stopped',
+      '    ports:',
+      '      - "3000:8080"',
+      '    environment:',
+      '      VITE_API_URL: "https://api.test"',
+      '      PRICE_LABEL: "costs $$5"',
+      '      STRIPE_SECRET: "${STRIPE_SECRET}"',
+      '    healthcheck:',
+      '      test: ["CMD", "wget", "-qO-", "http://127.0.0.1:8080/healthz"]',
+      '      interval: 30s',
+      '      timeout: 5s',
+      '      retries: 3',
+      '      start_period: 15s',
+      ''
+    ].join('\n'));
+  });
+
+  it('should package the sources with the generated files', async () => {
+    const zip = createContainerPackage(
+      'My Shop!',
+      ['Next.js'],
+      [packageJson({ next: '14.2.0' }), file('pages/index.tsx', 'export default () => null'), file('Dockerfile', 'FROM scratch')],
+      [{ key: 'DATABASE_URL', value: '', secret: true }],
+      { environment: 'production', nodeVersion: '22', hostPort: 80 }
+    );
+    const files = await readAll(zip);
+
+    expect(Object.keys(files).sort()).toEqual([
+      'my-shop/.dockerignore',
+      'my-shop/.env.example',
+      'my-shop/Dockerfile',
+      'my-shop/docker-compose.yml',
+      'my-shop/docker/server.cjs',
+      'my-shop/package.json',
+      'my-shop/pages/index.tsx'
+    ]);
+    // The project's own Dockerfile is replaced
+    expect(files['my-shop/Dockerfile']).toContain('FROM node:22-alpine AS runtime');
+    expect(files['my-shop/Dockerfile']).toContain('CMD ["node", "docker/server.cjs"]');
+    expect(files['my-shop/docker/server.cjs']).toContain("req.url === '/healthz'");
+    expect(files['my-shop/.dockerignore'].split('\n')).toEqual(expect.arrayContaining(['node_modules', '.env', '.next']));
+    expect(files['my-shop/.env.example']).toBe('# secret, value not exported\nDATABASE_URL=\n');
+    expect(files['my-shop/docker-compose.yml']).toContain('      - "80:3000"');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getDeploymentJobLog,
+  getLatestDeploymentJob,
+  startDeploymentJob,
+  subscribeToDeploymentJob
+} from '../services/deploymentJobService';
+import { runDeployment, RunDeploymentOptions } from '../services/deploymentService';
+import { DeploymentJob, DeploymentLogEntry, DeploymentOptions, DeploymentProvider } from '../types/deployment';
+
+const upserts: { phase: string; logs: unknown[] }[] = [];
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    auth: {
+      getUser: async () => ({ data: { user: { id: 'user-1' } }, error: null })
+    },
+    from: () => ({
+      upsert: async (row: { phase: string; logs: unknown[] }) => {
+        upserts.push(row);
+        return { error: null };
+      }
+    })
+  }
+}));
+
+const options: DeploymentOptions = { buildCommand: '', outputDirectory: 'dist', environmentVariables: {}, framework: 'static' };
+
+const entry = (message: string): DeploymentLogEntry => ({ timestamp: new Date(), level: 'info', message });
+
+// Resolve once the job reaches 'live' or 'failed'
+const waitForJob = (job: DeploymentJob) =>
+  new Promise<DeploymentJob>(resolve => {
+    const unsubscribe = subscribeToDeploymentJob(job.id, updated => {
+      if (updated.phase === 'live' || updated.phase === 'failed') {
+        unsubscribe();
+        resolve(updated);
+      }
+    });
+  });
+
+describe('Deployment jobs', () => {
+  it('should record phases and log lines until the deployment is live', async () => {
+    const deploy = vi.fn(async (_platform, _projectId, _options, _credentials, run: RunDeploymentOptions) => {
+      run.onPhase?.('installing');
+      run.onLog?.(entry('Downloading code package'));
+      run.onPhase?.('building');
+      run.onLog?.(entry('Prepared 2 files'));
+      run.onPhase?.('verifying');
+      return { success: true, deploymentUrl: 'http://127.0.0.1:4000/' };
+    });
+
+    const queued = startDeploymentJob('local-static', 'project-1', options, {}, deploy);
+    expect(queued.phase).toBe('queued');
+    expect(deploy.mock.calls[0][4].jobId).toBe(queued.id);
+
+    const job = await waitForJob(queued);
+
+    expect(job.phase).toBe('live');
+    expect(job.deploymentUrl).toBe('http://127.0.0.1:4000/');
+    expect(job.finishedAt).toBeInstanceOf(Date);
+    expect(job.logs.map(log => [log.phase, log.message])).toEqual([
+      ['queued', 'Queued deployment to local-static'],
+      ['installing', 'Downloading code package'],
+      ['building', 'Prepared 2 files']
+    ]);
+
+    // Closing and reopening the dialog finds the same job again
+    expect(getLatestDeploymentJob('project-1')?.id).toBe(job.id);
+    expect(await getDeploymentJobLog(job.id)).toBe(job);
+
+    // Saves are queued in order, so the last one holds the finished job
+    await vi.waitFor(() => expect(upserts[upserts.length - 1]?.phase).toBe('live'));
+    expect(upserts[upserts.length - 1].logs).toHaveLength(3);
+  });
+
+  it('should fail the job in the phase where the deployment stopped', async () => {
+    const queued = startDeploymentJob('netlify', 'project-2', options, {}, async (_p, _id, _o, _c, run) => {
+      run.onPhase?.('uploading');
+      return { success: false, error: 'Netlify API error (401): Access denied' };
+    });
+
+    const job = await waitForJob(queued);
+    const lastLog = job.logs[job.logs.length - 1];
+
+    expect(job.phase).toBe('failed');
+    expect(job.error).toBe('Netlify API error (401): Access denied');
+    expect(lastLog).toMatchObject({ phase: 'uploading', level: 'error', message: job.error });
+  });
+});
+
+describe('Deployment log streaming', () => {
+  it('should pass on each provider log line once while verifying', async () => {
+    const providerLogs = [entry('Cloning'), entry('Installing dependencies')];
+    const status = vi.fn()
+      .mockResolvedValueOnce({ state: 'building' })
+      .mockImplementationOnce(async () => {
+        providerLogs.push(entry('Build completed'));
+        return { state: 'ready' };
+      });
+    const provider: DeploymentProvider = {
+      id: 'fake',
+      name: 'Fake',
+      description: '',
+      credentialFields: [],
+      isAvailable: () => true,
+      build: async () => ({ files: [], totalSize: 0 }),
+      upload: async () => ({ providerId: 'fake', id: 'd1', url: 'https://fake.test' }),
+      status,
+      logs: async () => [...providerLogs],
+      teardown: async () => {}
+    };
+    const phases: string[] = [];
+    const messages: string[] = [];
+
+    await runDeployment(provider, {
+      projectId: 'project-3',
+      projectName: 'Demo',
+      options,
+      credentials: {},
+      sourceFiles: []
+    }, {
+      onPhase: phase => phases.push(phase),
+      onLog: log => messages.push(log.message),
+      sleep: async () => {}
+    });
+
+    expect(phases).toEqual(['building', 'uploading', 'verifying']);
+    expect(messages).toEqual([
+      'Prepared 0 files (0 B) for Fake',
+      'Uploaded deployment d1',
+      'Cloning',
+      'Installing dependencies',
+      'Build completed',
+      'Deployment is live at https://fake.test'
+    ]);
+  });
+});
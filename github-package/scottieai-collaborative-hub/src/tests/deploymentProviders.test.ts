@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import JSZip from 'jszip';
+import {
+  getDeploymentProviders,
+  localStaticProvider,
+  registerDeploymentProvider,
+  selectOutputFiles,
+  vercelProvider
+} from '../services/deploymentProviders';
+import { readSourceFiles, runDeployment } from '../services/deploymentService';
+import { DeploymentContext, DeploymentFile, DeploymentProvider } from '../types/deployment';
+
+const encoder = new TextEncoder();
+
+const file = (path: string, content: string): DeploymentFile => ({ path, bytes: encoder.encode(content) });
+
+const createContext = (sourceFiles: DeploymentFile[], overrides: Partial<DeploymentContext> = {}): DeploymentContext => ({
+  projectId: 'project-123456',
+  projectName: 'Demo App',
+  options: { buildCommand: 'npm run build', outputDirectory: 'dist', environmentVariables: {}, framework: 'react' },
+  credentials: {},
+  sourceFiles,
+  ...overrides
+});
+
+describe('Deployment build output', () => {
+  it('should re-root files from the output directory', () => {
+    const build = selectOutputFiles(
+      [file('package.json', '{}'), file('dist/index.html', '<h1>Hi</h1>'), file('dist/assets/app.js', 'run()')],
+      './dist/'
+    );
+
+    expect(build.files.map(entry => entry.path)).toEqual(['index.html', 'assets/app.js']);
+    expect(build.totalSize).toBe(16);
+  });
+
+  it('should fail when the package has no build output', () => {
+    expect(() => selectOutputFiles([file('src/main.ts', '')], 'dist'))
+      .toThrow('No built files found in "dist"');
+  });
+
+  it('should drop a wrapping folder and vendored files from the package', async () => {
+    const zip = new JSZip();
+    zip.file('demo/package.json', '{}');
+    zip.file('demo/dist/index.html', '<h1>Hi</h1>');
+    zip.file('demo/node_modules/react/index.js', '');
+    const archive = await zip.generateAsync({ type: 'arraybuffer' });
+
+    const files = await readSourceFiles(archive, 'demo.zip', 'dist');
+
+    expect(files.map(entry => entry.path).sort()).toEqual(['dist/index.html', 'package.json']);
+  });
+});
+
+describe('Deployment providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should list built-in and registered providers', () => {
+    const custom: DeploymentProvider = { ...localStaticProvider, id: 'custom-host', name: 'Custom host' };
+    registerDeploymentProvider(custom);
+
+    expect(getDeploymentProviders().map(provider => provider.id)).toEqual(
+      ['vercel', 'netlify', 'github-pages', 'local-static', 'custom-host']
+    );
+  });
+
+  it('should serve a deployment from the local static host until torn down', async () => {
+    const context = createContext([
+      file('dist/index.html', '<h1>Demo</h1>'),
+      file('dist/assets/app.js', 'console.log("hi")')
+    ]);
+
+    const { handle, status } = await runDeployment(localStaticProvider, context);
+    expect(status.state).toBe('ready');
+    expect(handle.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/$/);
+
+    const index = await fetch(handle.url);
+    expect(index.headers.get('content-type')).toContain('text/html');
+    expect(await index.text()).toBe('<h1>Demo</h1>');
+
+    const script = await fetch(new URL('assets/app.js', handle.url));
+    expect(script.headers.get('content-type')).toContain('text/javascript');
+
+    // Client-side routes fall back to index.html, missing assets do not
+    expect(await (await fetch(new URL('settings/profile', handle.url))).text()).toBe('<h1>Demo</h1>');
+    expect((await fetch(new URL('logo.png', handle.url))).status).toBe(404);
+
+    const logs = await localStaticProvider.logs(handle, {});
+    expect(logs.map(entry => entry.message)).toEqual([
+      'GET / 200',
+      'GET /assets/app.js 200',
+      'GET /settings/profile 200',
+      'GET /logo.png 404'
+    ]);
+    expect(logs[3].level).toBe('warning');
+
+    await localStaticProvider.teardown(handle, {});
+    expect(await localStaticProvider.status(handle, {})).toEqual({ state: 'stopped' });
+    await expect(fetch(handle.url)).rejects.toThrow();
+  });
+
+  it('should upload the source to Vercel and follow its build state', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ id: 'dpl_1', url: 'demo-app.vercel.app' }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ readyState: 'ERROR', errorMessage: 'Command failed' }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const context = createContext([file('package.json', '{}')], { credentials: { token: 'secret', teamId: 'team_1' } });
+    const handle = await vercelProvider.upload(context, await vercelProvider.build(context));
+
+    expect(handle).toEqual({
+      providerId: 'vercel',
+      id: 'dpl_1',
+      url: 'https://demo-app.vercel.app',
+      metadata: { project: 'demo-app' }
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.vercel.com/v13/deployments?teamId=team_1');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    const body = JSON.parse(init.body);
+    expect(body.name).toBe('demo-app');
+    expect(body.files).toEqual([{ file: 'package.json', data: 'e30=', encoding: 'base64' }]);
+    expect(body.projectSettings).toEqual({ framework: null, buildCommand: 'npm run build', outputDirectory: 'dist' });
+
+    expect(await vercelProvider.status(handle, context.credentials)).toEqual({ state: 'error', error: 'Command failed' });
+  });
+
+  it('should set environment variables on the Vercel project before a preview deploy', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(null, { status: 404 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ id: 'prj_1' }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ created: [] }), { status: 201 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ id: 'dpl_2', url: 'demo-app-git.vercel.app' }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const context = createContext([file('package.json', '{}')], {
+      credentials: { token: 'secret' },
+      options: {
+        buildCommand: '',
+        outputDirectory: 'dist',
+        environmentVariables: { API_URL: 'https://api.test' },
+        environment: 'preview',
+        framework: 'react'
+      }
+    });
+    await vercelProvider.upload(context, await vercelProvider.build(context));
+
+    expect(fetchMock.mock.calls.map(([url, init]) => `${init?.method || 'GET'} ${url}`)).toEqual([
+      'GET https://api.vercel.com/v9/projects/demo-app',
+      'POST https://api.vercel.com/v10/projects',
+      'POST https://api.vercel.com/v10/projects/demo-app/env?upsert=true',
+      'POST https://api.vercel.com/v13/deployments'
+    ]);
+    expect(JSON.parse(fetchMock.mock.calls[2][1].body)).toEqual([
+      { key: 'API_URL', value: 'https://api.test', type: 'encrypted', target: ['preview'] }
+    ]);
+    expect(JSON.parse(fetchMock.mock.calls[3][1].body).target).toBeUndefined();
+  });
+
+  it('should poll until the deployment is ready and surface build failures', async () => {
+    const status = vi.fn()
+      .mockResolvedValueOnce({ state: 'building' })
+      .mockResolvedValueOnce({ state: 'ready' });
+    const provider: DeploymentProvider = {
+      ...localStaticProvider,
+      id: 'fake',
+      name: 'Fake',
+      isAvailable: () => true,
+      build: async () => ({ files: [], totalSize: 0 }),
+      upload: async () => ({ providerId: 'fake', id: 'd1', url: 'https://fake.test' }),
+      status
+    };
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const onStatus = vi.fn();
+
+    const result = await runDeployment(provider, createContext([]), { sleep, onStatus });
+
+    expect(result.status.state).toBe('ready');
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(onStatus).toHaveBeenCalledTimes(2);
+
+    status.mockResolvedValueOnce({ state: 'error', error: 'Out of memory' });
+    await expect(runDeployment(provider, createContext([]), { sleep })).rejects.toThrow('Out of memory');
+  });
+});
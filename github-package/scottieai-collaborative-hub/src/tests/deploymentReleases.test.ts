@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  cleanupExpiredPreviews,
+  findExpiredPreviews,
+  findRollbackTarget,
+  getPromotionHistory,
+  promoteDeployment
+} from '../services/deploymentReleaseService';
+import { localStaticProvider } from '../services/deploymentProviders';
+import { runDeployment } from '../services/deploymentService';
+import { Deployment, DeploymentPromotion, PromotionAction } from '../types/deployment';
+
+type Row = Record<string, unknown>;
+
+const tables: Record<string, Row[]> = {};
+
+// Just enough of the Supabase query builder for the release service
+vi.mock('../lib/supabase', () => {
+  const query = (table: string) => {
+    const filters: [string, unknown][] = [];
+    let update: Row | null = null;
+    let descending: string | null = null;
+
+    const run = () => {
+      tables[table] = tables[table] || [];
+      const rows = tables[table].filter(row => filters.every(([column, value]) => row[column] === value));
+      if (update) rows.forEach(row => Object.assign(row, update));
+      if (descending) rows.sort((a, b) => String(b[descending!]).localeCompare(String(a[descending!])));
+      return rows;
+    };
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      order: (column: string) => {
+        descending = column;
+        return builder;
+      },
+      update: (values: Row) => {
+        update = values;
+        return builder;
+      },
+      insert: async (row: Row) => {
+        tables[table] = [...(tables[table] || []), { id: crypto.randomUUID(), ...row }];
+        return { error: null };
+      },
+      maybeSingle: async () => ({ data: run()[0] || null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: run(), error: null })
+    };
+    return builder;
+  };
+
+  return {
+    supabase: {
+      auth: { getUser: async () => ({ data: { user: { id: 'user-1' } }, error: null }) },
+      from: query
+    }
+  };
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const deployment = (id: string, daysAgo: number, overrides: Partial<Deployment> = {}): Deployment => ({
+  id,
+  projectId: 'project-1',
+  platform: 'local-static',
+  status: 'success',
+  environment: 'production',
+  url: `https://${id}.test`,
+  handle: { providerId: 'local-static', id, url: `https://${id}.test` },
+  created: new Date(Date.now() - daysAgo * DAY),
+  ...overrides
+});
+
+const promotion = (deploymentId: string, daysAgo: number, action: PromotionAction = 'deploy'): DeploymentPromotion => ({
+  id: `promotion-${deploymentId}-${daysAgo}`,
+  projectId: 'project-1',
+  deploymentId,
+  action,
+  productionUrl: `https://${deploymentId}.test`,
+  created: new Date(Date.now() - daysAgo * DAY)
+});
+
+const deploymentRow = (value: Deployment): Row => ({
+  id: value.id,
+  project_id: value.projectId,
+  user_id: 'user-1',
+  platform: value.platform,
+  status: value.status,
+  environment: value.environment,
+  deployment_url: value.url,
+  deployment_handle: value.handle,
+  expires_at: value.expiresAt?.toISOString() || null,
+  torn_down_at: null,
+  created_at: value.created.toISOString()
+});
+
+describe('Production rollback', () => {
+  it('should step back through earlier production deployments', () => {
+    const deployments = [deployment('v3', 1), deployment('preview', 2, { environment: 'preview' }), deployment('v2', 3), deployment('v1', 5)];
+
+    expect(findRollbackTarget(deployments, [promotion('v3', 1), promotion('v2', 3), promotion('v1', 5)])?.id).toBe('v2');
+
+    // After rolling back to v2, the next rollback goes to v1 rather than forward to v3
+    const afterRollback = [promotion('v2', 0, 'rollback'), promotion('v3', 1), promotion('v2', 3), promotion('v1', 5)];
+    expect(findRollbackTarget(deployments, afterRollback)?.id).toBe('v1');
+
+    // Torn down deployments can't be served again
+    const removed = deployments.map(entry => (entry.id === 'v1' ? { ...entry, tornDownAt: new Date() } : entry));
+    expect(findRollbackTarget(removed, afterRollback)).toBeNull();
+  });
+
+  it('should roll back to the deployment that was production before a promoted older one', () => {
+    const deployments = [deployment('b', 1), deployment('a', 2)];
+    const promotions = [promotion('a', 0, 'promote'), promotion('b', 1), promotion('a', 2)];
+
+    expect(findRollbackTarget(deployments, promotions)?.id).toBe('b');
+
+    // Rolling back to b, then again, returns to a
+    expect(findRollbackTarget(deployments, [promotion('b', 0, 'rollback'), ...promotions])?.id).toBe('a');
+  });
+
+  it('should only expire previews that never served production', () => {
+    const expired = new Date(Date.now() - DAY);
+    const deployments = [
+      deployment('old-preview', 10, { environment: 'preview', expiresAt: expired }),
+      deployment('promoted-preview', 9, { environment: 'preview', expiresAt: expired }),
+      deployment('fresh-preview', 1, { environment: 'preview', expiresAt: new Date(Date.now() + DAY) }),
+      deployment('production', 10)
+    ];
+
+    expect(findExpiredPreviews(deployments, [promotion('promoted-preview', 8)]).map(entry => entry.id))
+      .toEqual(['old-preview']);
+  });
+});
+
+describe('Promotion and preview cleanup', () => {
+  beforeEach(() => {
+    Object.keys(tables).forEach(table => delete tables[table]);
+  });
+
+  it('should promote a deployment and record it as production', async () => {
+    tables.deployments = [deploymentRow(deployment('preview-1', 1, { environment: 'preview' }))];
+    tables.projects = [{ id: 'project-1', deployment_url: 'https://old.test' }];
+
+    expect(await promoteDeployment('preview-1')).toBe(true);
+
+    expect(tables.projects[0]).toMatchObject({
+      deployment_url: 'https://preview-1.test',
+      production_deployment_id: 'preview-1',
+      status: 'deployed'
+    });
+    const [latest] = await getPromotionHistory('project-1');
+    expect(latest).toMatchObject({ deploymentId: 'preview-1', action: 'promote', productionUrl: 'https://preview-1.test' });
+  });
+
+  it('should tear down expired previews that no credentials are needed for', async () => {
+    const { handle } = await runDeployment(localStaticProvider, {
+      projectId: 'project-1',
+      projectName: 'Demo',
+      options: { buildCommand: '', outputDirectory: 'dist', environmentVariables: {}, framework: 'static', environment: 'preview' },
+      credentials: {},
+      sourceFiles: [{ path: 'dist/index.html', bytes: new TextEncoder().encode('<h1>Preview</h1>') }]
+    });
+    const expiresAt = new Date(Date.now() - DAY);
+    tables.deployments = [
+      deploymentRow(deployment(handle.id, 8, { environment: 'preview', url: handle.url, handle, expiresAt })),
+      deploymentRow(deployment('vercel-preview', 8, {
+        platform: 'vercel',
+        environment: 'preview',
+        handle: { providerId: 'vercel', id: 'dpl_1', url: 'https://dpl.test' },
+        expiresAt
+      }))
+    ];
+
+    const result = await cleanupExpiredPreviews('project-1');
+
+    expect(result.removed.map(entry => entry.id)).toEqual([handle.id]);
+    expect(result.pending.map(entry => entry.id)).toEqual(['vercel-preview']);
+    expect(tables.deployments[0].torn_down_at).toEqual(expect.any(String));
+    expect(await localStaticProvider.status(handle, {})).toEqual({ state: 'stopped' });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createBuilderConfig,
+  createElectronSource,
+  createPackageJson,
+  resolveExportConfig
+} from '../services/desktopExportSources';
+import { createIconSet, IconImage } from '../utils/iconUtils';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const build = [
+  { path: 'index.html', bytes: encode('<div id="root"></div><script src="/assets/index.js"></script>') },
+  { path: 'assets/index.js', bytes: encode('console.log("app")') }
+];
+
+// Stands in for the canvas, which isn't available under test
+const fakeResize = async (source: Blob, sizes: number[]): Promise<IconImage[]> => {
+  return sizes.map(size => ({ size, bytes: encode(`png-${size}`) }));
+};
+
+describe('Desktop export electron-builder config', () => {
+  it('should build AppImage, deb and rpm packages with a desktop entry on Linux', () => {
+    const config = resolveExportConfig('Note Board', ['linux'], {
+      copyright: 'Copyright © 2026 Demo',
+      description: 'Boards: notes & tasks',
+      linux: { maintainer: 'Demo Team <team@demo.test>', category: 'Office', debDepends: ['libnotify4'] }
+    });
+
+    expect(createBuilderConfig(config)).toBe(`appId: com.scottieai.noteboard
+productName: "Note Board"
+copyright: "Copyright © 2026 Demo"
+
+directories:
+  output: dist
+  buildResources: build
+
+files:
+  - main.js
+  - preload.js
+  - error.html
+  - app/**/*
+
+linux:
+  target:
+    - AppImage
+    - deb
+    - rpm
+  category: Office
+  executableName: note-board
+  artifactName: \${productName}-\${version}-\${arch}.\${ext}
+  maintainer: "Demo Team <team@demo.test>"
+  synopsis: "Boards: notes & tasks"
+  desktop:
+    Name: "Note Board"
+    Comment: "Boards: notes & tasks"
+    Categories: Office;
+    StartupWMClass: note-board
+    Terminal: false
+
+deb:
+  depends:
+    - libnotify4
+`);
+  });
+
+  it('should sign macOS builds with the hardened runtime and entitlements', () => {
+    const config = resolveExportConfig('Note Board', ['mac'], {
+      mac: { targets: ['dmg'], arch: ['universal'], notarize: true, teamId: 'ABCDE12345' }
+    });
+
+    const yaml = createBuilderConfig(config);
+
+    expect(yaml).toContain(`mac:
+  category: public.app-category.productivity
+  target:
+    - target: dmg
+      arch:
+        - universal
+  artifactName: \${productName}-\${version}-\${arch}.\${ext}
+  hardenedRuntime: true
+  gatekeeperAssess: false
+  entitlements: build/entitlements.mac.plist
+  entitlementsInherit: build/entitlements.mac.plist
+  notarize:
+    teamId: ABCDE12345
+
+dmg:
+  contents:`);
+    expect(yaml).not.toContain('win:');
+    expect(yaml).not.toContain('linux:');
+  });
+
+  it('should add the zip target on macOS when the updater is included', () => {
+    const config = resolveExportConfig('Note Board', ['mac'], { includeUpdater: true, mac: { targets: ['dmg'] } });
+
+    const yaml = createBuilderConfig(config);
+
+    expect(yaml).toContain('    - target: dmg\n');
+    expect(yaml).toContain('    - target: zip\n');
+    expect(yaml).toContain('publish:\n  provider: generic');
+  });
+
+  it('should keep the Windows installer settings', () => {
+    const yaml = createBuilderConfig(resolveExportConfig('Note Board', ['win'], { installerType: 'portable' }));
+
+    expect(yaml).toContain('win:\n  target:\n    - portable\n  artifactName: ${productName}-portable-${version}.${ext}\n');
+    expect(yaml).not.toContain('nsis:');
+  });
+});
+
+describe('Desktop export sources', () => {
+  it('should add a dist script for each platform', () => {
+    const packageJson = JSON.parse(createPackageJson(resolveExportConfig('Note Board', ['mac', 'linux'])));
+
+    expect(packageJson.name).toBe('note-board');
+    expect(packageJson.scripts).toMatchObject({
+      dist: 'electron-builder --mac --linux',
+      'dist:mac': 'electron-builder --mac',
+      'dist:linux': 'electron-builder --linux'
+    });
+    expect(packageJson.dependencies).toEqual({});
+  });
+
+  it('should write the macOS entitlements', async () => {
+    const zip = await createElectronSource(
+      resolveExportConfig('Note Board', ['mac'], { mac: { entitlements: ['com.apple.security.device.camera'] } }),
+      'mac',
+      { build }
+    );
+
+    expect(zip.file('installer.nsh')).toBeNull();
+    const entitlements = await zip.file('build/entitlements.mac.plist')!.async('string');
+    expect(entitlements.match(/<key>(.+)<\/key>/g)).toEqual([
+      '<key>com.apple.security.cs.allow-jit</key>',
+      '<key>com.apple.security.cs.allow-unsigned-executable-memory</key>',
+      '<key>com.apple.security.device.camera</key>'
+    ]);
+  });
+
+  it('should embed the project build and load it with an error page fallback', async () => {
+    const zip = await createElectronSource(resolveExportConfig('Note Board', ['win']), 'win', { build });
+
+    expect(await zip.file('app/index.html')!.async('string')).toBe('<div id="root"></div><script src="/assets/index.js"></script>');
+    expect(await zip.file('app/assets/index.js')!.async('string')).toBe('console.log("app")');
+    expect(zip.file('app/renderer.js')).toBeNull();
+
+    const mainJs = await zip.file('main.js')!.async('string');
+    expect(mainJs).toContain("protocol.registerSchemesAsPrivileged");
+    expect(mainJs).toContain("mainWindow.loadURL(APP_URL + 'index.html')");
+    expect(mainJs).toContain("showError('The application files are missing: app/index.html was not found.')");
+    expect(mainJs).toContain("preload: path.join(__dirname, 'preload.js')");
+
+    const errorHtml = await zip.file('error.html')!.async('string');
+    expect(errorHtml).toContain("<h1>Note Board couldn't start</h1>");
+    expect(errorHtml).toContain('<pre>{{message}}</pre>');
+  });
+
+  it('should only reference icons that were converted', async () => {
+    const config = resolveExportConfig('Note Board', ['win'], { icon: 'https://cdn.test/icon.png' });
+
+    const withoutIcons = await createElectronSource(config, 'win', { build });
+    expect(await withoutIcons.file('electron-builder.yml')!.async('string')).not.toContain('icon');
+
+    const icons = await createIconSet(new Blob(), fakeResize);
+    const withIcons = await createElectronSource(config, 'win', { build, icons });
+    expect(await withIcons.file('electron-builder.yml')!.async('string')).toContain('  icon: build/icon.ico\n');
+    expect(await withIcons.file('build/icon.ico')!.async('uint8array')).toEqual(icons.ico);
+    expect(withIcons.file('build/icon.icns')).toBeNull();
+  });
+
+  it('should package PNG icon sizes and the window icon on Linux', async () => {
+    const config = resolveExportConfig('Note Board', ['linux'], { icon: 'https://cdn.test/icon.png' });
+    const icons = await createIconSet(new Blob(), fakeResize);
+
+    const zip = await createElectronSource(config, 'linux', { build, icons });
+
+    expect(await zip.file('build/icons/256x256.png')!.async('string')).toBe('png-256');
+    expect(await zip.file('icon.png')!.async('string')).toBe('png-512');
+    const yaml = await zip.file('electron-builder.yml')!.async('string');
+    expect(yaml).toContain('  - icon.png\n');
+    expect(yaml).toContain('  icon: build/icons\n');
+    expect(await zip.file('main.js')!.async('string')).toContain("icon: path.join(__dirname, 'icon.png')");
+  });
+});
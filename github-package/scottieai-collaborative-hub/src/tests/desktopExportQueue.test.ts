@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { saveAs } from 'file-saver';
+import {
+  createRemoteBuildBackend,
+  getDefaultDesktopExportBackend,
+  registerDesktopExportBackend
+} from '../services/desktopExportBackends';
+import {
+  exportAsLinuxApp,
+  getDesktopExportHistory,
+  queueDesktopExport,
+  waitForDesktopExport
+} from '../services/desktopExportService';
+import { DesktopExportContext, ExportResult } from '../types/export';
+import { FixtureServer, startFixtureServer } from './fixtures/httpFixtureServer';
+
+type Row = Record<string, unknown>;
+
+const tables: Record<string, Row[]> = {};
+
+vi.mock('file-saver', () => ({ saveAs: vi.fn() }));
+
+// Just enough of the Supabase client for exports to be recorded
+vi.mock('../lib/supabase', () => {
+  const query = (table: string) => {
+    const filters: [string, unknown][] = [];
+    let update: Row | null = null;
+
+    const run = () => {
+      tables[table] = tables[table] || [];
+      const rows = tables[table].filter(row => filters.every(([column, value]) => row[column] === value));
+      if (update) rows.forEach(row => Object.assign(row, update));
+      return rows;
+    };
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      order: () => builder,
+      limit: () => builder,
+      update: (values: Row) => {
+        update = values;
+        return builder;
+      },
+      upsert: async (row: Row) => {
+        tables[table] = [...(tables[table] || []).filter(existing => existing.id !== row.id), { ...row }];
+        return { error: null };
+      },
+      single: async () => ({ data: run()[0] || null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: run(), error: null })
+    };
+    return builder;
+  };
+
+  return {
+    supabase: {
+      auth: { getUser: async () => ({ data: { user: { id: 'user-1' } }, error: null }) },
+      from: query
+    }
+  };
+});
+
+// Stands in for the local zip backend, recording the order exports run in
+const runs: string[] = [];
+let nextResult: (context: DesktopExportContext) => Promise<ExportResult>;
+
+describe('Desktop export queue', () => {
+  beforeEach(() => {
+    Object.keys(tables).forEach(table => delete tables[table]);
+    tables.projects = [{
+      id: 'project-1',
+      user_id: 'user-1',
+      name: 'Note Board',
+      technologies: ['React'],
+      file_path: 'user-1/note-board.zip'
+    }];
+    runs.length = 0;
+    vi.mocked(saveAs).mockClear();
+
+    nextResult = async ({ platform, config }) => ({
+      success: true,
+      fileName: `${config.appName}-${platform}.zip`,
+      archive: new Blob(['zip'])
+    });
+    registerDesktopExportBackend({
+      id: 'local',
+      name: 'Test backend',
+      description: 'Runs in the test',
+      isAvailable: () => true,
+      run: async (context) => {
+        runs.push(`start ${context.platform}`);
+        context.onProgress('Packaging');
+        await new Promise(resolve => setTimeout(resolve, 10));
+        runs.push(`end ${context.platform}`);
+        return nextResult(context);
+      }
+    });
+  });
+
+  it('should run queued exports one at a time with the resolved configuration', async () => {
+    const contexts: DesktopExportContext[] = [];
+    const result = nextResult;
+    nextResult = async (context) => {
+      contexts.push(context);
+      return result(context);
+    };
+
+    const first = queueDesktopExport('project-1', 'win', { appVersion: '2.0.0' }, 'local');
+    const second = queueDesktopExport('project-1', 'linux', {}, 'local');
+    expect(first.status).toBe('queued');
+
+    const [finishedFirst, finishedSecond] = await Promise.all([
+      waitForDesktopExport(first.id),
+      waitForDesktopExport(second.id)
+    ]);
+
+    expect(runs).toEqual(['start win', 'end win', 'start linux', 'end linux']);
+    expect(finishedFirst).toMatchObject({ status: 'completed', appName: 'Note Board', appVersion: '2.0.0', fileName: 'Note Board-win.zip' });
+    expect(finishedSecond?.finishedAt).toBeInstanceOf(Date);
+    expect(contexts[0].config.platforms).toEqual(['win']);
+    expect(contexts[0].config.outputDirectory).toBe('dist');
+    expect(contexts[0].codePackagePath).toBe('user-1/note-board.zip');
+    expect(saveAs).toHaveBeenCalledTimes(2);
+    expect(tables.projects[0]).toMatchObject({ has_desktop_export: true, desktop_export_url: 'Note Board-linux.zip' });
+  });
+
+  it('should fail an export that throws and keep running the queue', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(saveAs).mockImplementationOnce(() => {
+      throw new Error('Download blocked');
+    });
+
+    const first = queueDesktopExport('project-1', 'win', {}, 'local');
+    const second = queueDesktopExport('project-1', 'linux', {}, 'local');
+
+    expect(await waitForDesktopExport(first.id)).toMatchObject({ status: 'failed', error: 'Download blocked' });
+    expect(await waitForDesktopExport(second.id)).toMatchObject({ status: 'completed' });
+    expect(tables.desktop_exports.find(row => row.id === first.id)).toMatchObject({ status: 'failed' });
+
+    // The queue isn't left stuck after the failure
+    const third = queueDesktopExport('project-1', 'mac', {}, 'local');
+    expect(await waitForDesktopExport(third.id)).toMatchObject({ status: 'completed' });
+  });
+
+  it('should keep every export in the project history', async () => {
+    nextResult = async () => ({ success: false, error: 'No index.html found in "dist"' });
+    const result = await exportAsLinuxApp('project-1', {}, 'local');
+
+    expect(result).toEqual({ success: false, error: 'No index.html found in "dist"' });
+    expect(saveAs).not.toHaveBeenCalled();
+    expect(tables.desktop_exports[0]).toMatchObject({
+      project_id: 'project-1',
+      user_id: 'user-1',
+      platform: 'linux',
+      backend: 'local',
+      status: 'failed',
+      error: 'No index.html found in "dist"'
+    });
+
+    // Left running when an earlier session's page was closed
+    tables.desktop_exports.push({
+      id: 'stale-export',
+      project_id: 'project-1',
+      user_id: 'user-1',
+      platform: 'mac',
+      backend: 'remote',
+      status: 'running',
+      config: {},
+      created_at: '2026-01-01T00:00:00.000Z'
+    });
+
+    const history = await getDesktopExportHistory('project-1');
+    const stale = history.find(job => job.id === 'stale-export');
+    expect(stale).toMatchObject({ status: 'failed', error: 'The export was interrupted before it finished' });
+    expect(history.filter(job => job.platform === 'linux' && job.status === 'failed').length).toBeGreaterThan(0);
+    expect(history[history.length - 1].id).toBe('stale-export');
+  });
+});
+
+describe('Remote build backend', () => {
+  let server: FixtureServer;
+
+  beforeAll(async () => {
+    server = await startFixtureServer({
+      '/api/package-electron': { json: { jobId: 'build-1', statusUrl: 'STATUS_URL' } },
+      '/status': { json: { status: 'completed', downloadUrl: 'https://builds.test/note-board-setup-1.0.0.exe', fileName: 'note-board-setup-1.0.0.exe' } }
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should only be the default when a build server is configured', () => {
+    registerDesktopExportBackend(createRemoteBuildBackend(undefined));
+    expect(getDefaultDesktopExportBackend()?.id).toBe('local');
+
+    registerDesktopExportBackend(createRemoteBuildBackend(server.url.replace(/\/$/, '')));
+    expect(getDefaultDesktopExportBackend()?.id).toBe('remote');
+  });
+
+  it('should post the export and poll the build until it completes', async () => {
+    const originalFetch = globalThis.fetch;
+    // The status URL comes back from the server, so point it at the fixture
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation((input, init) => {
+      const url = String(input) === 'STATUS_URL' ? `${server.url}status` : input;
+      return originalFetch(url, init);
+    });
+    const progress: string[] = [];
+
+    try {
+      const backend = createRemoteBuildBackend(server.url.replace(/\/$/, ''), 1);
+      const result = await backend.run({
+        projectId: 'project-1',
+        platform: 'win',
+        config: { appName: 'Note Board', appVersion: '1.0.0', electronVersion: '26.2.1', includeUpdater: false, platforms: ['win'] },
+        codePackagePath: null,
+        onProgress: message => progress.push(message)
+      });
+
+      expect(result).toEqual({
+        success: true,
+        downloadUrl: 'https://builds.test/note-board-setup-1.0.0.exe',
+        fileName: 'note-board-setup-1.0.0.exe'
+      });
+      expect(server.requests).toEqual(['/api/package-electron', '/status']);
+      const body = JSON.parse(String(fetchSpy.mock.calls[0][1]?.body));
+      expect(body).toMatchObject({ projectId: 'project-1', platform: 'win', config: { appName: 'Note Board' } });
+      expect(progress).toEqual(['Sending the project to the build server', 'Building on the build server']);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+});
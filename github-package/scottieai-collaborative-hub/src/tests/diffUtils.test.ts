@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { ArchiveEntry } from '../utils/archiveUtils';
+import { createFileDiff, diffFileSets, diffLines, formatUnifiedDiff } from '../utils/diffUtils';
+import { buildPatchSet } from '../utils/recommendationPatch';
+import { CodeUpdateRecommendation } from '../types/llm';
+
+const entry = (path: string, content: string): ArchiveEntry => ({
+  path,
+  size: content.length,
+  isBinary: false,
+  content
+});
+
+const recommendation = (
+  id: string,
+  overrides: Partial<CodeUpdateRecommendation>
+): CodeUpdateRecommendation => ({
+  id,
+  title: id,
+  description: '',
+  severity: 'low',
+  category: 'best-practice',
+  filePath: 'src/app.ts',
+  estimatedEffort: 'minimal',
+  benefits: [],
+  risks: [],
+  createdAt: new Date(),
+  ...overrides
+});
+
+describe('Diff Utilities', () => {
+  it('should compute a minimal line edit script', () => {
+    const lines = diffLines('a\nb\nc\nd\n', 'a\nc\nd\ne\n');
+
+    expect(lines.map(line => `${line.type}:${line.content}`)).toEqual([
+      'context:a',
+      'remove:b',
+      'context:c',
+      'context:d',
+      'add:e'
+    ]);
+    expect(lines[1].oldLine).toBe(2);
+    expect(lines[4].newLine).toBe(4);
+  });
+
+  it('should handle added and removed files', () => {
+    expect(createFileDiff('new.ts', null, 'x\ny\n')).toMatchObject({ status: 'added', additions: 2, deletions: 0 });
+    expect(createFileDiff('old.ts', 'x\n', null)).toMatchObject({ status: 'removed', additions: 0, deletions: 1 });
+  });
+
+  it('should show large rewrites as one replacement', () => {
+    const oldText = Array.from({ length: 4000 }, (_, i) => `old ${i}`).join('\n');
+    const newText = Array.from({ length: 4000 }, (_, i) => `new ${i}`).join('\n');
+
+    const diff = createFileDiff('rewritten.ts', `header\n${oldText}\nfooter\n`, `header\n${newText}\nfooter\n`);
+
+    expect(diff).toMatchObject({ additions: 4000, deletions: 4000 });
+    expect(diff.hunks).toHaveLength(1);
+    expect(diff.hunks[0].lines[1]).toMatchObject({ type: 'remove', content: 'old 0', oldLine: 2 });
+    expect(diff.hunks[0].lines[4001]).toMatchObject({ type: 'add', content: 'new 0', newLine: 2 });
+  });
+
+  it('should group changes into hunks with context', () => {
+    const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+    const newText = oldText.replace('line 2', 'line two').replace('line 18', 'line eighteen');
+
+    const diff = createFileDiff('file.txt', oldText, newText);
+
+    expect(diff.hunks).toHaveLength(2);
+    expect(diff.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 5, newStart: 1, newLines: 5 });
+    expect(diff.hunks[1]).toMatchObject({ oldStart: 15, oldLines: 6, newStart: 15, newLines: 6 });
+  });
+
+  it('should format unified diffs', () => {
+    const diff = createFileDiff('src/app.ts', 'a\nb\n', 'a\nc\n');
+
+    expect(formatUnifiedDiff([diff])).toBe(
+      '--- a/src/app.ts\n+++ b/src/app.ts\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n'
+    );
+    expect(formatUnifiedDiff([createFileDiff('same.ts', 'a\n', 'a\n')])).toBe('');
+  });
+
+  it('should diff two revisions file by file', () => {
+    const binary = (path: string, size: number): ArchiveEntry => ({ path, size, isBinary: true, content: null });
+    const oldFiles = [
+      entry('src/a.ts', 'a\n'),
+      entry('src/removed.ts', 'gone\n'),
+      entry('README.md', 'same\n'),
+      entry('node_modules/x/index.js', 'x\n'),
+      binary('logo.png', 10)
+    ];
+    const newFiles = [
+      entry('src/a.ts', 'a\nb\n'),
+      entry('src/added.ts', 'new\n'),
+      entry('README.md', 'same\n'),
+      binary('logo.png', 12)
+    ];
+
+    const diffs = diffFileSets(oldFiles, newFiles);
+
+    expect(diffs.map(diff => [diff.filePath, diff.status])).toEqual([
+      ['logo.png', 'modified'],
+      ['src/a.ts', 'modified'],
+      ['src/added.ts', 'added'],
+      ['src/removed.ts', 'removed']
+    ]);
+    expect(diffs[0].isBinary).toBe(true);
+    expect(formatUnifiedDiff([diffs[0]])).toBe('Binary files a/logo.png and b/logo.png differ\n');
+  });
+
+  it('should summarize lockfiles and large files instead of diffing them', () => {
+    const large = 'x\n'.repeat(200 * 1024);
+    const oldFiles = [entry('package-lock.json', '{"v":1}\n'), entry('src/app.ts', 'a\n')];
+    const newFiles = [entry('package-lock.json', '{"v":2}\n'), entry('src/app.ts', 'b\n'), entry('dist.js', large)];
+
+    const diffs = diffFileSets(oldFiles, newFiles);
+
+    expect(diffs.map(diff => [diff.filePath, diff.status, Boolean(diff.isLarge)])).toEqual([
+      ['dist.js', 'added', true],
+      ['package-lock.json', 'modified', true],
+      ['src/app.ts', 'modified', false]
+    ]);
+    expect(diffs[0].hunks).toEqual([]);
+    expect(formatUnifiedDiff([diffs[1]])).toBe('Files a/package-lock.json and b/package-lock.json differ\n');
+  });
+});
+
+describe('Recommendation Patches', () => {
+  const files = [entry('src/app.ts', "import { a, b } from './lib';\n\nconst x = 1;\nconst y = 2;\n")];
+
+  it('should turn recommendations into file diffs', () => {
+    const patchSet = buildPatchSet([
+      recommendation('imports', {
+        currentCode: "import { a, b } from './lib';",
+        suggestedCode: "import { a } from './lib';",
+        lineNumbers: [1, 1]
+      }),
+      recommendation('remove-y', { currentCode: 'const y = 2;', suggestedCode: '', lineNumbers: [4, 4] })
+    ], files);
+
+    expect(patchSet.applied).toEqual(['imports', 'remove-y']);
+    expect(patchSet.conflicts).toEqual([]);
+    expect(patchSet.changes['src/app.ts']).toBe("import { a } from './lib';\n\nconst x = 1;\n");
+    expect(patchSet.diffs[0]).toMatchObject({ filePath: 'src/app.ts', additions: 1, deletions: 2 });
+  });
+
+  it('should relocate code that moved to a unique new position', () => {
+    const patchSet = buildPatchSet([
+      recommendation('x', { currentCode: 'const x = 1;', suggestedCode: 'const x = 10;', lineNumbers: [1, 1] })
+    ], files);
+
+    expect(patchSet.applied).toEqual(['x']);
+    expect(patchSet.changes['src/app.ts']).toContain('const x = 10;');
+  });
+
+  it('should report conflicts when target lines no longer match', () => {
+    const patchSet = buildPatchSet([
+      recommendation('stale', { currentCode: 'const z = 3;', suggestedCode: 'const z = 4;', lineNumbers: [3, 3] }),
+      recommendation('missing', { filePath: 'src/gone.ts', currentCode: 'a', suggestedCode: 'b' }),
+      recommendation('advice', { currentCode: undefined, suggestedCode: undefined })
+    ], files);
+
+    expect(patchSet.applied).toEqual([]);
+    expect(patchSet.skipped).toEqual(['advice']);
+    expect(patchSet.conflicts).toEqual([
+      expect.objectContaining({ recommendationId: 'stale', reason: 'content-mismatch', actual: ['const x = 1;'] }),
+      expect.objectContaining({ recommendationId: 'missing', reason: 'missing-file' })
+    ]);
+  });
+
+  it('should reject overlapping recommendations on the same lines', () => {
+    const patchSet = buildPatchSet([
+      recommendation('first', { currentCode: 'const x = 1;', suggestedCode: 'let x = 1;', lineNumbers: [3, 3] }),
+      recommendation('second', {
+        currentCode: 'const x = 1;\nconst y = 2;',
+        suggestedCode: 'const xy = [1, 2];',
+        lineNumbers: [3, 4]
+      })
+    ], files);
+
+    expect(patchSet.applied).toEqual(['first']);
+    expect(patchSet.conflicts).toEqual([expect.objectContaining({ recommendationId: 'second', reason: 'overlap' })]);
+  });
+});
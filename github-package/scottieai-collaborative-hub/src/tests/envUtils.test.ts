@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffEnvironmentVariables,
+  formatEnvFile,
+  mergeEnvironmentVariables,
+  parseEnvFile,
+  summarizeEnvironmentDiff,
+  UNKNOWN_FINGERPRINT
+} from '../utils/envUtils';
+import {
+  decryptSecret,
+  encryptSecret,
+  fingerprintEnvironment,
+  lockEnvironmentSecrets,
+  unlockEnvironmentSecrets
+} from '../services/environmentService';
+
+describe('.env files', () => {
+  it('should parse comments, exports, quotes and multi-line values', () => {
+    const variables = parseEnvFile([
+      '# Database',
+      'export DATABASE_URL=postgres://localhost/app # local only',
+      "GREETING='Hello # not a comment'",
+      'PRIVATE_KEY="-----BEGIN KEY-----',
+      'abc\\n123',
+      '-----END KEY-----"',
+      'EMPTY=',
+      'not a variable',
+      'DATABASE_URL=postgres://db/app'
+    ].join('\r\n'));
+
+    expect(variables).toEqual([
+      { key: 'DATABASE_URL', value: 'postgres://db/app', secret: false },
+      { key: 'GREETING', value: 'Hello # not a comment', secret: false },
+      { key: 'PRIVATE_KEY', value: '-----BEGIN KEY-----\nabc\n123\n-----END KEY-----', secret: true },
+      { key: 'EMPTY', value: '', secret: false }
+    ]);
+  });
+
+  it('should leave secret values out of exports unless asked', () => {
+    const variables = [
+      { key: 'API_URL', value: 'https://api.test', secret: false },
+      { key: 'MESSAGE', value: 'say "hi"\nbye', secret: false },
+      { key: 'API_TOKEN', value: 'tok_123', secret: true }
+    ];
+
+    expect(formatEnvFile(variables)).toBe(
+      'API_URL=https://api.test\nMESSAGE="say \\"hi\\"\\nbye"\n# secret, value not exported\nAPI_TOKEN=\n'
+    );
+    expect(parseEnvFile(formatEnvFile(variables, true))).toEqual(variables);
+  });
+});
+
+describe('Environment overrides and diffs', () => {
+  it('should let overrides replace project values', () => {
+    const merged = mergeEnvironmentVariables(
+      [{ key: 'API_URL', value: 'https://api.test', secret: false }, { key: 'MODE', value: 'full', secret: false }],
+      [{ key: 'API_URL', value: 'https://staging.test', secret: true }, { key: '', value: 'ignored', secret: false }]
+    );
+
+    expect(merged).toEqual([
+      { key: 'API_URL', value: 'https://staging.test', secret: true },
+      { key: 'MODE', value: 'full', secret: false }
+    ]);
+  });
+
+  it('should compare deploys by fingerprint', () => {
+    const previous = fingerprintEnvironment('project-1', { API_URL: 'https://api.test', API_TOKEN: 'old', LEGACY: '1' });
+    const next = fingerprintEnvironment('project-1', { API_URL: 'https://api.test', API_TOKEN: 'new', FEATURE: 'on' });
+
+    expect(Object.values(next)).not.toContain('new');
+    expect(fingerprintEnvironment('project-2', { API_URL: 'https://api.test' }).API_URL).not.toBe(next.API_URL);
+
+    const diff = diffEnvironmentVariables(previous, next, ['API_TOKEN']);
+    expect(diff).toEqual([
+      { key: 'API_TOKEN', change: 'changed', secret: true },
+      { key: 'API_URL', change: 'unchanged', secret: false },
+      { key: 'FEATURE', change: 'added', secret: false },
+      { key: 'LEGACY', change: 'removed', secret: false }
+    ]);
+    expect(summarizeEnvironmentDiff(diff)).toBe('1 added, 1 changed, 1 removed');
+  });
+});
+
+describe('Environment secrets', () => {
+  it('should only decrypt secrets with the passphrase they were saved with', () => {
+    expect(() => encryptSecret('tok_123')).toThrow('Unlock secrets');
+
+    unlockEnvironmentSecrets('correct horse', 'user-1');
+    const ciphertext = encryptSecret('tok_123');
+    expect(ciphertext).not.toContain('tok_123');
+    expect(decryptSecret(ciphertext)).toBe('tok_123');
+
+    unlockEnvironmentSecrets('wrong passphrase', 'user-1');
+    expect(() => decryptSecret(ciphertext)).toThrow('Check your passphrase');
+
+    lockEnvironmentSecrets();
+    expect(() => decryptSecret(ciphertext)).toThrow('Unlock secrets');
+  });
+
+  it('should key secret fingerprints with the passphrase', () => {
+    const variables = { API_URL: 'https://api.test', API_TOKEN: '1234' };
+    const plain = fingerprintEnvironment('project-1', variables);
+
+    unlockEnvironmentSecrets('correct horse', 'user-1');
+    const keyed = fingerprintEnvironment('project-1', variables, ['API_TOKEN']);
+    unlockEnvironmentSecrets('other passphrase', 'user-1');
+    const otherKey = fingerprintEnvironment('project-1', variables, ['API_TOKEN']);
+
+    expect(keyed.API_URL).toBe(plain.API_URL);
+    expect(keyed.API_TOKEN).not.toBe(plain.API_TOKEN);
+    expect(otherKey.API_TOKEN).not.toBe(keyed.API_TOKEN);
+
+    // Locked secrets can't be fingerprinted, so they always show as changed
+    lockEnvironmentSecrets();
+    const locked = fingerprintEnvironment('project-1', variables, ['API_TOKEN']);
+    expect(locked.API_TOKEN).toBe(UNKNOWN_FINGERPRINT);
+    expect(diffEnvironmentVariables(locked, locked, ['API_TOKEN'])[0]).toMatchObject({ key: 'API_TOKEN', change: 'changed' });
+  });
+});
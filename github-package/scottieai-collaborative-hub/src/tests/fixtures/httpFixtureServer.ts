@@ -0,0 +1,66 @@
+/**
+ * HTTP Fixture Server
+ *
+ * A throwaway site for tests that need real HTTP responses, such as the
+ * post-deployment checks. Each route answers with a fixed status, body and
+ * optional delay; anything else is a 404.
+ */
+
+import { createServer } from 'node:http';
+
+export interface FixtureRoute {
+  status?: number;
+  // Sent as text, or serialised when `json` is set instead
+  body?: string;
+  json?: unknown;
+  headers?: Record<string, string>;
+  delayMs?: number;
+}
+
+export interface FixtureServer {
+  url: string;
+  // Paths in the order they were requested
+  requests: string[];
+  close: () => Promise<void>;
+}
+
+export const startFixtureServer = async (routes: Record<string, FixtureRoute>): Promise<FixtureServer> => {
+  const requests: string[] = [];
+
+  const server = createServer((request, response) => {
+    const path = (request.url || '/').split('?')[0];
+    requests.push(path);
+    const route = routes[path];
+
+    const respond = () => {
+      if (!route) {
+        response.writeHead(404, { 'Content-Type': 'text/plain' });
+        response.end('Not found');
+        return;
+      }
+
+      const isJson = route.json !== undefined;
+      response.writeHead(route.status ?? 200, {
+        'Content-Type': isJson ? 'application/json' : 'text/html',
+        ...route.headers
+      });
+      response.end(isJson ? JSON.stringify(route.json) : route.body ?? '');
+    };
+
+    if (route?.delayMs) setTimeout(respond, route.delayMs);
+    else respond();
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : 0;
+
+  return {
+    url: `http://127.0.0.1:${port}/`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    })
+  };
+};
@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+import { evaluateCertificateExpiry, readJsonPath, runHealthChecks } from '../services/healthCheckService';
+import { localStaticProvider } from '../services/deploymentProviders';
+import { deployWithProvider } from '../services/deploymentService';
+import { HealthCheckConfig } from '../types/deployment';
+import { FixtureServer, startFixtureServer } from './fixtures/httpFixtureServer';
+
+type Row = Record<string, unknown>;
+
+const tables: Record<string, Row[]> = {};
+const archives: Record<string, ArrayBuffer> = {};
+
+// Just enough of the Supabase client for a deploy to be recorded
+vi.mock('../lib/supabase', () => {
+  const query = (table: string) => {
+    const filters: [string, unknown][] = [];
+    let update: Row | null = null;
+    let inserted: Row | null = null;
+
+    const run = () => {
+      tables[table] = tables[table] || [];
+      if (inserted) return [inserted];
+      const rows = tables[table].filter(row => filters.every(([column, value]) => row[column] === value));
+      if (update) rows.forEach(row => Object.assign(row, update));
+      return rows;
+    };
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      order: () => builder,
+      update: (values: Row) => {
+        update = values;
+        return builder;
+      },
+      insert: (row: Row) => {
+        inserted = { id: crypto.randomUUID(), ...row };
+        tables[table] = [...(tables[table] || []), inserted];
+        return builder;
+      },
+      single: async () => ({ data: run()[0] || null, error: null }),
+      maybeSingle: async () => ({ data: run()[0] || null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: run(), error: null })
+    };
+    return builder;
+  };
+
+  return {
+    supabase: {
+      auth: { getUser: async () => ({ data: { user: { id: 'user-1' } }, error: null }) },
+      from: query,
+      storage: {
+        from: () => ({ download: async (path: string) => ({ data: archives[path] || null, error: null }) })
+      }
+    }
+  };
+});
+
+const config = (overrides: Partial<HealthCheckConfig> = {}): HealthCheckConfig => ({
+  paths: [],
+  tlsExpiryWarningDays: 14,
+  rollbackOnFailure: false,
+  timeoutMs: 2000,
+  ...overrides
+});
+
+describe('Post-deployment checks', () => {
+  let site: FixtureServer;
+
+  beforeAll(async () => {
+    site = await startFixtureServer({
+      '/': { body: '<h1>Welcome to Demo</h1>' },
+      '/api/health': { json: { status: 'ok', checks: [{ name: 'db', up: true }] } },
+      '/slow': { body: 'done', delayMs: 150 },
+      '/hang': { body: 'late', delayMs: 1000 },
+      '/broken': { status: 500, body: 'Internal error' }
+    });
+  });
+
+  afterAll(async () => {
+    await site.close();
+  });
+
+  it('should pass when status, text and JSON assertions hold', async () => {
+    const report = await runHealthChecks(site.url, config({
+      paths: [
+        { path: '/', assertions: [{ type: 'text', contains: 'Welcome' }] },
+        {
+          path: '/api/health',
+          assertions: [
+            { type: 'json', path: '$.status', equals: 'ok' },
+            { type: 'json', path: '$.checks[0].up', equals: true }
+          ]
+        }
+      ]
+    }));
+
+    expect(report.outcome).toBe('passed');
+    expect(report.results.map(result => [result.path, result.status, result.outcome])).toEqual([
+      ['/', 200, 'passed'],
+      ['/api/health', 200, 'passed']
+    ]);
+    expect(report.tls).toBeUndefined();
+    expect(site.requests).toEqual(['/', '/api/health']);
+  });
+
+  it('should explain each failed check and warn about slow responses', async () => {
+    const report = await runHealthChecks(site.url, config({
+      timeoutMs: 300,
+      paths: [
+        { path: '/broken' },
+        { path: '/', assertions: [{ type: 'text', contains: 'Goodbye' }, { type: 'json', path: '$.status' }] },
+        { path: '/api/health', assertions: [{ type: 'json', path: '$.status', equals: 'degraded' }] },
+        { path: '/slow', maxLatencyMs: 50 },
+        { path: '/hang' }
+      ]
+    }));
+
+    expect(report.outcome).toBe('failed');
+    expect(report.results.map(result => [result.outcome, result.messages])).toEqual([
+      ['failed', ['Status 500, expected 200']],
+      ['failed', ['Response does not contain "Goodbye"', 'Response is not JSON, so $.status can\'t be checked']],
+      ['failed', ['$.status is "ok", expected "degraded"']],
+      ['warning', [expect.stringMatching(/^Took \d+ms, over the 50ms limit$/)]],
+      ['failed', ['No response within 300ms']]
+    ]);
+  });
+
+  it('should fail when the site is unreachable', async () => {
+    const closed = await startFixtureServer({});
+    await closed.close();
+
+    const report = await runHealthChecks(closed.url, config({ paths: [{ path: '/' }] }));
+
+    expect(report.outcome).toBe('failed');
+    expect(report.results[0].messages[0]).toMatch(/^Request failed/);
+  });
+
+  it('should read nested JSON paths', () => {
+    const value = { data: { items: [{ id: 'a' }, { id: 'b' }] } };
+
+    expect(readJsonPath(value, '$.data.items[1].id')).toBe('b');
+    expect(readJsonPath(value, 'data.items')).toHaveLength(2);
+    expect(readJsonPath(value, '$.data.missing.id')).toBeUndefined();
+  });
+
+  it('should warn before the TLS certificate expires', async () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+    const day = 24 * 60 * 60 * 1000;
+
+    expect(evaluateCertificateExpiry(new Date(now.getTime() + 90 * day), 14, now).outcome).toBe('passed');
+    expect(evaluateCertificateExpiry(new Date(now.getTime() + 5 * day), 14, now)).toMatchObject({
+      outcome: 'warning',
+      daysRemaining: 5,
+      message: 'TLS certificate expires in 5 days'
+    });
+    expect(evaluateCertificateExpiry(new Date(now.getTime() - day), 14, now).outcome).toBe('failed');
+
+    const report = await runHealthChecks('https://demo.test', config({ paths: [{ path: '/' }] }), {
+      fetch: async () => new Response('ok'),
+      getCertificateExpiry: async () => new Date(now.getTime() + 3 * day),
+      now
+    });
+    expect(report.results[0].outcome).toBe('passed');
+    expect(report.tls?.outcome).toBe('warning');
+    expect(report.outcome).toBe('warning');
+  });
+
+  it('should report checks the browser cannot read as unchecked', async () => {
+    // A cross-origin site without CORS headers: only an opaque no-cors request gets through
+    const browserFetch = async (_url: RequestInfo | URL, init?: RequestInit) => {
+      if (init?.mode !== 'no-cors') throw new TypeError('Failed to fetch');
+      return new Response(null, { status: 200 });
+    };
+
+    const report = await runHealthChecks('https://demo.test', config({
+      paths: [{ path: '/', assertions: [{ type: 'text', contains: 'Welcome' }] }]
+    }), {
+      fetch: browserFetch as typeof fetch,
+      getCertificateExpiry: async () => null
+    });
+
+    expect(report.results[0].outcome).toBe('unchecked');
+    expect(report.results[0].status).toBeUndefined();
+    expect(report.results[0].messages[0]).toMatch(/status and assertions were not checked/);
+    expect(report.tls).toMatchObject({ outcome: 'unchecked' });
+    expect(report.outcome).toBe('unchecked');
+  });
+});
+
+describe('Rollback after failed checks', () => {
+  beforeEach(async () => {
+    Object.keys(tables).forEach(table => delete tables[table]);
+
+    const zip = new JSZip();
+    zip.file('dist/index.html', '<h1>Something went wrong</h1>');
+    archives['packages/demo.zip'] = await zip.generateAsync({ type: 'arraybuffer' });
+
+    tables.projects = [{
+      id: 'project-1',
+      user_id: 'user-1',
+      name: 'Demo',
+      file_path: 'packages/demo.zip',
+      production_deployment_id: 'v1',
+      deployment_url: 'https://v1.test'
+    }];
+    tables.deployments = [{
+      id: 'v1',
+      project_id: 'project-1',
+      user_id: 'user-1',
+      platform: 'local-static',
+      status: 'success',
+      environment: 'production',
+      deployment_url: 'https://v1.test',
+      deployment_handle: { providerId: 'local-static', id: 'v1', url: 'https://v1.test' },
+      torn_down_at: null,
+      created_at: new Date(Date.now() - 60 * 60 * 1000).toISOString()
+    }];
+  });
+
+  it('should keep the previous production deployment when checks fail', async () => {
+    const options = { buildCommand: '', outputDirectory: 'dist', environmentVariables: {}, framework: 'static' };
+    const checks = config({ paths: [{ path: '/', assertions: [{ type: 'text', contains: 'Welcome' }] }], rollbackOnFailure: true });
+
+    const result = await deployWithProvider('local-static', 'project-1', options, {}, { healthCheckConfig: checks });
+    await localStaticProvider.teardown(result.handle!, {});
+
+    expect(result).toMatchObject({ success: false, error: 'Post-deployment checks failed' });
+    expect(result.healthCheck).toMatchObject({ outcome: 'failed', rolledBackTo: 'v1' });
+    expect(tables.projects[0]).toMatchObject({ production_deployment_id: 'v1', deployment_url: 'https://v1.test' });
+    expect(tables.deployment_promotions).toEqual([expect.objectContaining({ deployment_id: 'v1', action: 'rollback' })]);
+    expect(tables.deployments[1]).toMatchObject({ status: 'failed', health_check: expect.objectContaining({ outcome: 'failed' }) });
+  });
+
+  it('should leave production alone when rollback is off', async () => {
+    const options = { buildCommand: '', outputDirectory: 'dist', environmentVariables: {}, framework: 'static' };
+    const checks = config({ paths: [{ path: '/', assertions: [{ type: 'text', contains: 'Welcome' }] }] });
+
+    const result = await deployWithProvider('local-static', 'project-1', options, {}, { healthCheckConfig: checks });
+    await localStaticProvider.teardown(result.handle!, {});
+
+    expect(result.success).toBe(true);
+    expect(result.healthCheck?.outcome).toBe('failed');
+    expect(tables.projects[0].production_deployment_id).toBe(tables.deployments[1].id);
+  });
+});
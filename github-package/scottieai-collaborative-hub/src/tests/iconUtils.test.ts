@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { createIconSet, encodeIcns, encodeIco, ICON_SIZES, IconImage } from '../utils/iconUtils';
+
+const image = (size: number, length = 4): IconImage => ({
+  size,
+  bytes: new Uint8Array(length).fill(size % 256)
+});
+
+describe('Icon utilities', () => {
+  it('should write an .ico directory of embedded PNGs', () => {
+    const bytes = encodeIco([image(16), image(256, 6), image(512)]);
+    const view = new DataView(bytes.buffer);
+
+    // 512px doesn't fit in an .ico
+    expect(view.getUint16(2, true)).toBe(1);
+    expect(view.getUint16(4, true)).toBe(2);
+    expect(bytes.length).toBe(6 + 2 * 16 + 4 + 6);
+
+    expect(view.getUint8(6)).toBe(16);
+    expect(view.getUint32(6 + 8, true)).toBe(4);
+    expect(view.getUint32(6 + 12, true)).toBe(38);
+
+    // 256 is written as 0
+    expect(view.getUint8(22)).toBe(0);
+    expect(view.getUint16(22 + 6, true)).toBe(32);
+    expect(view.getUint32(22 + 8, true)).toBe(6);
+    expect(view.getUint32(22 + 12, true)).toBe(42);
+    expect(Array.from(bytes.slice(42))).toEqual([0, 0, 0, 0, 0, 0]);
+  });
+
+  it('should write .icns elements for the sizes macOS knows', () => {
+    const bytes = encodeIcns([image(16), image(24), image(1024)]);
+    const view = new DataView(bytes.buffer);
+    const type = (at: number) => String.fromCharCode(...bytes.slice(at, at + 4));
+
+    expect(type(0)).toBe('icns');
+    expect(view.getUint32(4)).toBe(bytes.length);
+    expect(bytes.length).toBe(8 + 2 * 12);
+
+    expect(type(8)).toBe('icp4');
+    expect(view.getUint32(12)).toBe(12);
+    expect(type(20)).toBe('ic10');
+    expect(view.getUint32(24)).toBe(12);
+  });
+
+  it('should build every format from the resized PNGs', async () => {
+    const requested: number[][] = [];
+    const icons = await createIconSet(new Blob(), async (source, sizes) => {
+      requested.push(sizes);
+      return sizes.map(size => image(size));
+    });
+
+    expect(requested).toEqual([ICON_SIZES]);
+    expect(icons.png.map(entry => entry.size)).toEqual(ICON_SIZES);
+    expect(new DataView(icons.ico.buffer).getUint16(4, true)).toBe(7);
+    expect(String.fromCharCode(...icons.icns.slice(0, 4))).toBe('icns');
+  });
+});
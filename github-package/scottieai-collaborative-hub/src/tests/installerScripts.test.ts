@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildInnoSetupScript,
+  buildWixDocument,
+  createInnoSetupScript,
+  createWixSource,
+  deriveUpgradeCode,
+  isValidGuid,
+  validateInnoSetupScript,
+  validateWixDocument
+} from '../utils/installerScripts';
+import { InstallerConfig } from '../types/installer';
+
+const baseConfig: InstallerConfig = {
+  appName: 'Note Board',
+  appVersion: '1.2.0',
+  publisher: 'Demo Co',
+  description: 'Boards for notes & tasks',
+  outputDir: '/tmp/out',
+  sourceDir: '/tmp/app',
+  installerType: 'exe',
+  upgradeCode: '0F6B3E52-4D1C-4C8A-9B5E-2A7D9C3E1F40',
+  installerOptions: {
+    perMachine: false,
+    createDesktopShortcut: true,
+    createStartMenuShortcut: true,
+    runAfterFinish: true,
+    allowToChangeInstallationDirectory: true
+  }
+};
+
+const withOptions = (options: Partial<InstallerConfig['installerOptions']>): InstallerConfig => ({
+  ...baseConfig,
+  installerOptions: { ...baseConfig.installerOptions, ...options }
+});
+
+// Staged next to the scripts: the app under app/, icon and license at the root
+const stagedFiles = ['app/Note Board.exe', 'app/resources/app.asar', 'app/locales/en-US.pak', 'icon.ico', 'license.rtf'];
+
+const variants: [string, InstallerConfig][] = [
+  ['the defaults', baseConfig],
+  ['a per-machine install', withOptions({ perMachine: true })],
+  ['no shortcuts', withOptions({ createDesktopShortcut: false, createStartMenuShortcut: false })],
+  ['no launch after install', withOptions({ runAfterFinish: false })],
+  ['a fixed install directory', withOptions({ allowToChangeInstallationDirectory: false })],
+  ['an icon and license', { ...baseConfig, iconPath: '/assets/icon.ico', licenseFile: '/assets/license.rtf' }],
+  ['a publisher URL and executable name', { ...baseConfig, publisherUrl: 'https://demo.test', executableName: 'bin/note-board.exe' }],
+  ['file sets', {
+    ...baseConfig,
+    files: [
+      { source: 'Note Board.exe' },
+      { source: 'resources/*', destination: 'resources', recursive: true },
+      { source: 'locales/*.pak', destination: 'locales' }
+    ]
+  }],
+  ['registry entries', {
+    ...withOptions({ perMachine: true }),
+    registry: [
+      { root: 'auto', key: 'Software\\Demo Co\\Note Board', name: 'Channel', type: 'string', value: 'stable' },
+      { root: 'HKLM', key: 'Software\\Classes\\noteboard', type: 'string', value: 'URL:Note Board', deleteKeyOnUninstall: true },
+      { root: 'HKCU', key: 'Software\\Demo Co\\Note Board', name: 'Launches', type: 'dword', value: 0 }
+    ]
+  }],
+  ['uninstall cleanup', { ...baseConfig, uninstallCleanup: { appData: true, paths: ['logs', 'cache/models'] } }],
+  ['a derived upgrade code', { ...baseConfig, upgradeCode: undefined }]
+];
+
+describe('Installer scripts', () => {
+  it.each(variants)('should render the Inno Setup script for %s', (_, config) => {
+    expect(createInnoSetupScript(config)).toMatchSnapshot();
+  });
+
+  it.each(variants)('should render the WiX source for %s', (_, config) => {
+    expect(createWixSource(config)).toMatchSnapshot();
+  });
+
+  it('should derive the same valid upgrade code for the same app', () => {
+    const upgradeCode = deriveUpgradeCode('Note Board');
+
+    expect(isValidGuid(upgradeCode)).toBe(true);
+    expect(deriveUpgradeCode('Note Board')).toBe(upgradeCode);
+    expect(deriveUpgradeCode('Task Board')).not.toBe(upgradeCode);
+    expect(isValidGuid(`{${upgradeCode}}`)).toBe(true);
+    expect(isValidGuid('not-a-guid')).toBe(false);
+  });
+});
+
+describe('Installer validation', () => {
+  it('should accept every variant against the staged files', () => {
+    for (const [, config] of variants) {
+      const files = config.executableName ? [...stagedFiles, `app/${config.executableName}`] : stagedFiles;
+      expect(validateInnoSetupScript(buildInnoSetupScript(config), files)).toEqual([]);
+      expect(validateWixDocument(buildWixDocument(config), files)).toEqual([]);
+    }
+  });
+
+  it('should report missing files, icons and shortcut targets', () => {
+    const config: InstallerConfig = {
+      ...baseConfig,
+      iconPath: '/assets/icon-512.svg',
+      licenseFile: '/assets/LICENSE.txt',
+      files: [{ source: 'dist/*', recursive: true }]
+    };
+    const files = ['app/index.html', 'icon-512.svg', 'license.txt'];
+
+    expect(validateInnoSetupScript(buildInnoSetupScript(config), files).map(issue => issue.message)).toEqual([
+      'Icon file "icon.svg" is missing',
+      'No files match "app\\dist\\*"',
+      // Start menu, desktop and launch after install
+      '"{app}\\Note Board.exe" is not installed by any [Files] entry',
+      '"{app}\\Note Board.exe" is not installed by any [Files] entry',
+      '"{app}\\Note Board.exe" is not installed by any [Files] entry'
+    ]);
+
+    expect(validateWixDocument(buildWixDocument({ ...config, files: undefined }), ['app/index.html', 'icon.svg', 'license.txt'])
+      .map(issue => issue.message)).toEqual([
+      'Icon file "icon.svg" must be an .ico file',
+      'License file "license.txt" must be RTF for the MSI license page',
+      'Shortcut target "[INSTALLFOLDER]Note Board.exe" is not installed by any Files element',
+      'Shortcut target "[INSTALLFOLDER]Note Board.exe" is not installed by any Files element'
+    ]);
+  });
+
+  it('should report invalid GUIDs', () => {
+    const config = { ...baseConfig, upgradeCode: '0F6B3E52-4D1C-4C8A-9B5E' };
+
+    expect(validateInnoSetupScript(buildInnoSetupScript(config), stagedFiles)).toEqual([
+      { severity: 'error', message: 'AppId "{{0F6B3E52-4D1C-4C8A-9B5E}" is not a valid GUID' }
+    ]);
+
+    const document = buildWixDocument(baseConfig);
+    const component = document.children[0].children.find(child => child.name === 'ComponentGroup' && child.attributes.Id === 'Shortcuts')!.children[0];
+    component.attributes.Guid = 'DesktopShortcut';
+    document.children[0].attributes.UpgradeCode = '';
+
+    expect(validateWixDocument(document, stagedFiles).map(issue => issue.message)).toEqual([
+      'UpgradeCode is missing, so upgrades cannot find earlier installs',
+      'Component "StartMenuShortcut" has an invalid GUID "DesktopShortcut"'
+    ]);
+  });
+
+  it('should reject machine-wide registry keys in per-user installs', () => {
+    const config: InstallerConfig = {
+      ...baseConfig,
+      registry: [{ root: 'HKLM', key: 'Software\\Demo Co', name: 'Path', type: 'string', value: 'C:\\' }]
+    };
+
+    expect(validateInnoSetupScript(buildInnoSetupScript(config), stagedFiles)).toEqual([
+      { severity: 'error', message: 'Per-user installs cannot write "HKLM\\Software\\Demo Co"' }
+    ]);
+    expect(validateWixDocument(buildWixDocument(config), stagedFiles)).toEqual([
+      { severity: 'error', message: 'Per-user installs cannot write "HKLM\\Software\\Demo Co"' }
+    ]);
+  });
+});
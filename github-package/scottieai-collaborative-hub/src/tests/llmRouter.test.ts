@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LLMRouter, ProviderRateLimiter } from '../services/llmRouter';
+import {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  LLMConfig,
+  LLMError,
+  LLMService
+} from '../services/llmService';
+import { LLMProvider } from '../types/llm';
+import { ChatProviderConfig, RetrySettings } from '../types/chat';
+
+type Outcome = string | LLMError | { chunks: string[]; error?: LLMError };
+
+// Scripted service that answers or fails according to a queue of outcomes
+class FakeService extends LLMService {
+  calls = 0;
+
+  constructor(private provider: LLMProvider, private outcomes: Outcome[]) {
+    super({});
+  }
+
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  private next(): Outcome {
+    this.calls++;
+    return this.outcomes.length > 1 ? this.outcomes.shift() : this.outcomes[0];
+  }
+
+  async getChatCompletion(): Promise<ChatCompletionResponse> {
+    const outcome = this.next();
+    if (outcome instanceof Error) throw outcome;
+    return { id: this.provider, message: { role: 'assistant', content: outcome as string } };
+  }
+
+  async streamChatCompletion(
+    _request: ChatCompletionRequest,
+    onChunk: (chunk: string) => void,
+    onComplete: (fullResponse: ChatCompletionResponse) => void,
+    onError: (error: Error) => void
+  ): Promise<void> {
+    const outcome = this.next();
+    if (outcome instanceof Error) return onError(outcome);
+
+    const { chunks, error } = typeof outcome === 'string' ? { chunks: [outcome], error: undefined } : outcome;
+    chunks.forEach(onChunk);
+    if (error) return onError(error);
+    onComplete({ id: this.provider, message: { role: 'assistant', content: chunks.join('') } });
+  }
+}
+
+const httpError = (status: number, retryAfterMs?: number): LLMError =>
+  Object.assign(new Error(`HTTP ${status}`), { status, retryAfterMs });
+
+const retry: RetrySettings = { maxRetries: 2, baseDelayMs: 100, maxDelayMs: 1000, timeoutMs: 5000 };
+const request: ChatCompletionRequest = { messages: [{ role: 'user', content: 'Hi' }] };
+
+describe('LLMRouter', () => {
+  let clock: number;
+  let delays: number[];
+  let services: Partial<Record<LLMProvider, FakeService>>;
+
+  const createRouter = (
+    script: Partial<Record<LLMProvider, Outcome[]>>,
+    providers: ChatProviderConfig[] = Object.keys(script).map(provider => ({ provider: provider as LLMProvider })),
+    rateLimiter?: ProviderRateLimiter
+  ) => {
+    services = {};
+    for (const [provider, outcomes] of Object.entries(script)) {
+      services[provider as LLMProvider] = new FakeService(provider as LLMProvider, outcomes);
+    }
+
+    return new LLMRouter({
+      providers,
+      retry,
+      rateLimiter,
+      createService: (provider: LLMProvider, _config: LLMConfig) => services[provider],
+      sleep: async ms => {
+        delays.push(ms);
+        clock += ms;
+      },
+      random: () => 0.5,
+      now: () => clock
+    });
+  };
+
+  beforeEach(() => {
+    clock = 0;
+    delays = [];
+  });
+
+  it('should retry retryable errors with jittered exponential backoff', async () => {
+    const router = createRouter({ openai: [httpError(503), httpError(500), 'ok'] });
+
+    const response = await router.getChatCompletion(request);
+
+    expect(response.message.content).toBe('ok');
+    expect(response.provider).toBe('openai');
+    expect(response.attempts).toHaveLength(3);
+    expect(delays).toEqual([50, 100]);
+  });
+
+  it('should honor Retry-After on rate limited responses', async () => {
+    const router = createRouter({ openai: [httpError(429, 700), 'ok'] });
+
+    await router.getChatCompletion(request);
+
+    expect(delays).toEqual([700]);
+  });
+
+  it('should fall back to the next provider once retries are exhausted', async () => {
+    const router = createRouter({ openai: [httpError(502)], anthropic: ['from anthropic'] });
+
+    const response = await router.getChatCompletion(request);
+
+    expect(services.openai.calls).toBe(3);
+    expect(response.provider).toBe('anthropic');
+    expect(response.message.content).toBe('from anthropic');
+  });
+
+  it('should not retry client errors but still fall back', async () => {
+    const router = createRouter({ openai: [httpError(401)], cohere: ['ok'] });
+
+    const response = await router.getChatCompletion(request);
+
+    expect(services.openai.calls).toBe(1);
+    expect(response.provider).toBe('cohere');
+    expect(delays).toEqual([]);
+  });
+
+  it('should report the last error when every provider fails', async () => {
+    const router = createRouter({ openai: [httpError(400)], anthropic: [httpError(404)] });
+
+    await expect(router.getChatCompletion(request)).rejects.toMatchObject({
+      message: 'All providers failed (openai, anthropic): HTTP 404',
+      status: 404
+    });
+  });
+
+  it('should skip a provider at its per-minute limit', async () => {
+    const rateLimiter = new ProviderRateLimiter();
+    const providers: ChatProviderConfig[] = [{ provider: 'openai', rateLimitPerMinute: 1 }, { provider: 'local' }];
+    const router = createRouter({ openai: ['openai'], local: ['local'] }, providers, rateLimiter);
+
+    expect((await router.getChatCompletion(request)).provider).toBe('openai');
+    expect((await router.getChatCompletion(request)).provider).toBe('local');
+
+    clock += 60_000;
+    expect((await router.getChatCompletion(request)).provider).toBe('openai');
+  });
+
+  it('should wait out the rate limit when no fallback is left', async () => {
+    const rateLimiter = new ProviderRateLimiter();
+    const router = createRouter({ openai: ['ok'] }, [{ provider: 'openai', rateLimitPerMinute: 1 }], rateLimiter);
+
+    await router.getChatCompletion(request);
+    clock += 10_000;
+    await router.getChatCompletion(request);
+
+    expect(delays).toEqual([50_000]);
+  });
+
+  it('should fall back while streaming only before the first chunk', async () => {
+    const chunks: string[] = [];
+    const router = createRouter({ openai: [httpError(500)], anthropic: [{ chunks: ['He', 'llo'] }] });
+
+    const response = await router.streamChatCompletion(request, chunk => chunks.push(chunk));
+
+    expect(chunks).toEqual(['He', 'llo']);
+    expect(response.provider).toBe('anthropic');
+    expect(response.message.content).toBe('Hello');
+
+    const partial = createRouter({ openai: [{ chunks: ['He'], error: httpError(500) }], anthropic: ['ok'] });
+    await expect(partial.streamChatCompletion(request, vi.fn())).rejects.toThrow('HTTP 500');
+    expect(services.anthropic.calls).toBe(0);
+  });
+});
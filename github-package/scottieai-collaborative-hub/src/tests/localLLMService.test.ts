@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { LLMServiceFactory, LocalLLMService } from '../services/llmService';
+
+interface RecordedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+// Minimal OpenAI-compatible server standing in for a self-hosted model
+const requests: RecordedRequest[] = [];
+let server: Server;
+let baseUrl: string;
+
+const handleRequest = (req: IncomingMessage, res: ServerResponse) => {
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    const body = raw ? JSON.parse(raw) : {};
+    requests.push({ url: req.url, headers: req.headers, body });
+
+    if (body.model === 'missing-model') {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'model not found' } }));
+      return;
+    }
+
+    if (!body.stream) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        id: 'cmpl-1',
+        choices: [{ message: { role: 'assistant', content: 'Hello from the local model' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 }
+      }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    const events = [
+      { id: 'cmpl-2', choices: [{ delta: { role: 'assistant' } }] },
+      { id: 'cmpl-2', choices: [{ delta: { content: 'Hel' } }] },
+      { id: 'cmpl-2', choices: [{ delta: { content: 'lo' } }] },
+      { id: 'cmpl-2', choices: [], usage: { prompt_tokens: 8, completion_tokens: 2, total_tokens: 10 } }
+    ];
+    const payload = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+
+    // Split mid-event to exercise buffering across network chunks
+    const splitAt = Math.floor(payload.length / 2);
+    res.write(payload.slice(0, splitAt));
+    setTimeout(() => res.end(payload.slice(splitAt)), 10);
+  });
+};
+
+describe('LocalLLMService', () => {
+  beforeAll(async () => {
+    server = createServer(handleRequest);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should be created by the factory for the local provider', () => {
+    const service = LLMServiceFactory.createService('local', { baseUrl });
+
+    expect(service).toBeInstanceOf(LocalLLMService);
+    expect(service.getProvider()).toBe('local');
+  });
+
+  it('should request chat completions from the configured endpoint', async () => {
+    const service = new LocalLLMService({ baseUrl, model: 'codellama' });
+
+    const response = await service.getChatCompletion({ messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(response.message.content).toBe('Hello from the local model');
+    expect(response.usage).toEqual({ promptTokens: 12, completionTokens: 5, totalTokens: 17 });
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].body.model).toBe('codellama');
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('should send an API key when one is configured', async () => {
+    const service = new LocalLLMService({ baseUrl, apiKey: 'secret' });
+
+    await service.getChatCompletion({ messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(requests[0].headers.authorization).toBe('Bearer secret');
+  });
+
+  it('should stream server-sent events', async () => {
+    const service = new LocalLLMService({ baseUrl });
+    const chunks: string[] = [];
+    const onComplete = vi.fn();
+    const onError = vi.fn();
+
+    await service.streamChatCompletion(
+      { messages: [{ role: 'user', content: 'Hi' }] },
+      chunk => chunks.push(chunk),
+      onComplete,
+      onError
+    );
+
+    expect(onError).not.toHaveBeenCalled();
+    expect(chunks).toEqual(['Hel', 'lo']);
+    expect(onComplete).toHaveBeenCalledWith({
+      id: 'cmpl-2',
+      message: { role: 'assistant', content: 'Hello' },
+      usage: { promptTokens: 8, completionTokens: 2, totalTokens: 10 }
+    });
+    expect(requests[0].body.stream).toBe(true);
+  });
+
+  it('should surface server errors', async () => {
+    const service = new LocalLLMService({ baseUrl, model: 'missing-model' });
+
+    await expect(service.getChatCompletion({ messages: [] })).rejects.toThrow('Local LLM error: model not found');
+  });
+
+  it('should require a base URL', async () => {
+    const service = new LocalLLMService({});
+    const onError = vi.fn();
+
+    await service.streamChatCompletion({ messages: [] }, vi.fn(), vi.fn(), onError);
+
+    expect(onError).toHaveBeenCalledWith(new Error('Local LLM base URL is not configured'));
+  });
+});
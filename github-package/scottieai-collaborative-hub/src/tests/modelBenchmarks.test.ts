@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import { BENCHMARK_BACKENDS, isBackendRegistered, runBenchmark } from '../services/modelBenchmarkService';
+import { compareBenchmarks, findBaseline, percentile, summarizeLatencies } from '../utils/benchmarkStats';
+import { BatchBenchmark, ModelBenchmark } from '../types/modelTesting';
+
+const OPTIONS = { iterations: 5, warmupIterations: 2, batchSizes: [1, 4], backends: ['cpu'] };
+
+const batch = (batchSize: number, p50: number, p99: number, throughput: number): BatchBenchmark => ({
+  batchSize,
+  latency: { mean: p50, min: p50, max: p99, standardDeviation: 0, p50, p90: p99, p99 },
+  throughput,
+  leakedTensors: 0,
+  memoryBytes: 0
+});
+
+const benchmark = (id: string, modelVersion: string, created: string, batches: BatchBenchmark[]): ModelBenchmark => ({
+  id,
+  modelId: 'code-pattern',
+  modelVersion,
+  options: OPTIONS,
+  backends: [{ backend: 'cpu', available: true, batches }],
+  created: new Date(created)
+});
+
+const createModel = () => tf.sequential({
+  layers: [tf.layers.dense({ units: 2, inputShape: [3], kernelInitializer: 'ones' })]
+});
+
+describe('Benchmark statistics', () => {
+  it('should interpolate percentiles between ranks', () => {
+    const times = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+    expect(percentile(times, 0.5)).toBe(5.5);
+    expect(percentile(times, 0.9)).toBeCloseTo(9.1);
+    expect(summarizeLatencies([4, 2, 6])).toMatchObject({ mean: 4, min: 2, max: 6, p50: 4 });
+  });
+
+  it('should compare against the newest benchmark of an earlier model version', () => {
+    const older = benchmark('a', '1.0.0', '2026-01-01', [batch(1, 10, 20, 100)]);
+    const previousVersion = benchmark('b', '1.1.0', '2026-02-01', [batch(1, 10, 20, 100)]);
+    const sameVersion = benchmark('c', '1.2.0', '2026-03-01', [batch(1, 10, 20, 100)]);
+    const current = benchmark('d', '1.2.0', '2026-04-01', [batch(1, 12, 22, 95)]);
+
+    expect(findBaseline([sameVersion, previousVersion, older], current)?.id).toBe('b');
+    expect(findBaseline([sameVersion], current)?.id).toBe('c');
+    expect(findBaseline([], current)).toBeNull();
+  });
+
+  it('should flag measurements that got worse by more than their threshold', () => {
+    const baseline = benchmark('a', '1.0.0', '2026-01-01', [batch(1, 10, 20, 100), batch(8, 40, 80, 200)]);
+    const current = benchmark('b', '1.1.0', '2026-02-01', [batch(1, 10.5, 24, 97), batch(8, 50, 81, 150)]);
+
+    expect(compareBenchmarks(baseline, current).map(({ batchSize, metric, change }) => [batchSize, metric, change])).toEqual([
+      [8, 'p50', 0.25],
+      [8, 'throughput', 0.25]
+    ]);
+  });
+});
+
+describe('Benchmark runs', () => {
+  it('should time each batch size after warmup and report unavailable backends', async () => {
+    const model = createModel();
+    const progress: number[] = [];
+
+    const results = await runBenchmark(model, [[1, 2, 3]], { ...OPTIONS, backends: ['cpu', 'webgpu'] }, value => progress.push(value));
+
+    expect(results[0].available).toBe(true);
+    expect(results[0].batches.map(entry => entry.batchSize)).toEqual([1, 4]);
+    expect(results[0].batches[0].latency.p99).toBeGreaterThanOrEqual(results[0].batches[0].latency.p50);
+    expect(results[0].batches[1].throughput).toBeGreaterThan(0);
+    expect(results[0].batches.every(entry => entry.leakedTensors === 0)).toBe(true);
+    expect(results[1]).toEqual({ backend: 'webgpu', available: false, error: 'Not included in this build', batches: [] });
+    // The unavailable backend's share of the work is skipped
+    expect(progress).toHaveLength(14);
+    expect(tf.getBackend()).toBe('cpu');
+    expect(BENCHMARK_BACKENDS.filter(isBackendRegistered)).toContain('wasm');
+
+    model.dispose();
+  });
+
+  it('should count tensors a model leaves behind', async () => {
+    const model = createModel();
+    const leaked: tf.Tensor[] = [];
+    const leaky = {
+      predict: (input: tf.Tensor) => {
+        leaked.push(tf.zeros([1]));
+        return model.predict(input);
+      }
+    } as unknown as tf.LayersModel;
+
+    const [cpu] = await runBenchmark(leaky, [[1, 2, 3]], { ...OPTIONS, batchSizes: [1] });
+
+    expect(cpu.batches[0].leakedTensors).toBe(OPTIONS.iterations);
+
+    tf.dispose(leaked);
+    model.dispose();
+  });
+});
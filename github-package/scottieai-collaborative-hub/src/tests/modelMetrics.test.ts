@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classificationMetrics,
+  computeSuiteMetrics,
+  inferModelTask,
+  precisionRecallCurve,
+  regressionMetrics,
+  rocCurve
+} from '../utils/modelMetrics';
+import { ModelTestResult, TensorValues } from '../types/modelTesting';
+
+const result = (outputTensor: TensorValues, expectedTensor?: TensorValues): ModelTestResult => ({
+  id: `result-${Math.random()}`,
+  modelId: 'model-1',
+  testCaseId: 'case',
+  passed: true,
+  timeTaken: 1,
+  outputTensor,
+  expectedTensor
+});
+
+describe('Model metrics', () => {
+  it('should compute ROC-AUC and average precision like scikit-learn', () => {
+    const scores = [0.1, 0.4, 0.35, 0.8];
+    const positives = [false, false, true, true];
+
+    const roc = rocCurve(scores, positives);
+    expect(roc.auc).toBeCloseTo(0.75);
+    expect(roc.points.map(point => [point.x, point.y])).toEqual([[0, 0], [0, 0.5], [0.5, 0.5], [0.5, 1], [1, 1]]);
+
+    expect(precisionRecallCurve(scores, positives).averagePrecision).toBeCloseTo(0.8333, 4);
+    expect(rocCurve([0.2, 0.9], [true, true]).auc).toBeNull();
+  });
+
+  it('should build a confusion matrix with per-class and averaged scores', () => {
+    const metrics = classificationMetrics([
+      { scores: [0.1], label: 0 },
+      { scores: [0.4], label: 0 },
+      { scores: [0.35], label: 1 },
+      { scores: [0.8], label: 1 }
+    ]);
+
+    expect(metrics.confusionMatrix).toEqual([[2, 0], [1, 1]]);
+    expect(metrics.accuracy).toBe(0.75);
+    expect(metrics.perClass[1]).toMatchObject({ precision: 1, recall: 0.5, support: 2 });
+    expect(metrics.perClass[1].f1Score).toBeCloseTo(2 / 3);
+    expect(metrics.macro.f1Score).toBeCloseTo((0.8 + 2 / 3) / 2);
+    expect(metrics.micro.f1Score).toBeCloseTo(0.75);
+    expect(metrics.rocAuc).toBeCloseTo(0.75);
+    expect(metrics.curves.map(curve => curve.classIndex)).toEqual([1]);
+  });
+
+  it('should compute MAE, RMSE and R²', () => {
+    const metrics = regressionMetrics([2.5, 0, 2, 8], [3, -0.5, 2, 7]);
+
+    expect(metrics.meanAbsoluteError).toBeCloseTo(0.5);
+    expect(metrics.rootMeanSquaredError).toBeCloseTo(Math.sqrt(0.375));
+    expect(metrics.rSquared).toBeCloseTo(0.9486, 4);
+    expect(regressionMetrics([1, 2], [3, 3]).rSquared).toBeNull();
+  });
+
+  it('should pool every row of every case into one set of classification metrics', () => {
+    const results = [
+      // A batch of two samples with one-hot labels
+      result([[0.7, 0.2, 0.1], [0.1, 0.8, 0.1]], [[1, 0, 0], [0, 1, 0]]),
+      // A class index label
+      result([[0.2, 0.5, 0.3]], [[2]]),
+      result([[0.1, 0.1, 0.8]], [[2]]),
+      // Failed and unlabelled cases don't count
+      { ...result([[1, 0, 0]], [[2]]), error: 'Shape mismatch' },
+      result([[0.3, 0.3, 0.4]])
+    ];
+
+    expect(inferModelTask(results)).toBe('classification');
+    const metrics = computeSuiteMetrics(results);
+
+    expect(metrics?.sampleCount).toBe(4);
+    expect(metrics?.classification?.confusionMatrix).toEqual([[1, 0, 0], [0, 1, 0], [0, 1, 1]]);
+    expect(metrics?.classification?.perClass.map(classMetrics => classMetrics.support)).toEqual([1, 1, 2]);
+    expect(metrics?.classification?.curves).toHaveLength(3);
+  });
+
+  it('should treat continuous expected values as regression', () => {
+    const results = [result([[1.1, 2.0]], [[1, 2]]), result([[2.9]], [[3]])];
+
+    expect(inferModelTask(results)).toBe('regression');
+    expect(computeSuiteMetrics(results)).toMatchObject({ task: 'regression', sampleCount: 3 });
+    expect(computeSuiteMetrics([result([[1]])])).toBeNull();
+  });
+});
@@ -0,0 +1,303 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import { deleteUserModel, importLegacyUserModels, loadUserModel, saveModelToStorage } from '../services/aiModelService';
+import { loadModelArtifact } from '../services/modelArtifactStore';
+import {
+  findModelVersion,
+  getRegisteredModels,
+  recordModelVersionMetrics,
+  registerModelVersion,
+  setModelVersionStage
+} from '../services/modelRegistryService';
+import { compareVersions, getLayersModelSignature, isValidVersion, nextVersion } from '../utils/modelVersionUtils';
+import { runModel } from '../utils/modelRuntime';
+import { ModelVersionDraft } from '../types/modelRegistry';
+
+type Row = Record<string, unknown>;
+
+const tables: Record<string, Row[]> = {};
+const uploads = new Map<string, Blob>();
+
+// Models saved to IndexedDB by URI, as TF.js would keep them in a browser
+const storedModels = new Map<string, tf.LayersModel>();
+
+vi.mock('@tensorflow/tfjs', async importOriginal => {
+  const actual = await importOriginal<typeof import('@tensorflow/tfjs')>();
+  return {
+    ...actual,
+    loadLayersModel: async (source: string | tf.io.IOHandler) => {
+      if (typeof source !== 'string') return actual.loadLayersModel(source);
+      if (!storedModels.has(source)) throw new Error(`Cannot find model with path ${source}`);
+      return storedModels.get(source);
+    },
+    io: {
+      ...actual.io,
+      listModels: async () => Object.fromEntries([...storedModels.keys()].map(uri => [uri, { weightDataBytes: 64 }])),
+      removeModel: async (uri: string) => {
+        storedModels.delete(uri);
+      }
+    }
+  };
+});
+
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn(), warning: vi.fn() } }));
+
+// Just enough of the Supabase client for versions to be registered, listed and tagged
+vi.mock('../lib/supabase', () => {
+  const query = (table: string) => {
+    const filters: [string, unknown][] = [];
+    let changes: Row | null = null;
+    let deleting = false;
+
+    const matches = (row: Row) => filters.every(([column, value]) => row[column] === value);
+
+    const run = () => {
+      if (changes) {
+        tables[table] = (tables[table] || []).map(row => (matches(row) ? { ...row, ...changes } : row));
+        return [];
+      }
+      if (deleting) {
+        tables[table] = (tables[table] || []).filter(row => !matches(row));
+        return [];
+      }
+      return (tables[table] || []).filter(matches).map(row => ({ ...row }));
+    };
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      order: () => builder,
+      update: (values: Row) => {
+        changes = values;
+        return builder;
+      },
+      delete: () => {
+        deleting = true;
+        return builder;
+      },
+      insert: async (row: Row) => {
+        tables[table] = [...(tables[table] || []), { ...row }];
+        return { error: null };
+      },
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: run(), error: null })
+    };
+    return builder;
+  };
+
+  return {
+    supabase: {
+      auth: { getUser: async () => ({ data: { user: { id: 'user-1' } }, error: null }) },
+      from: query,
+      storage: {
+        from: () => ({
+          upload: async (path: string, file: Blob) => {
+            uploads.set(path, file);
+            return { error: null };
+          },
+          download: async (path: string) => ({ data: uploads.get(path) || null, error: null }),
+          remove: async (paths: string[]) => {
+            paths.forEach(path => uploads.delete(path));
+            return { error: null };
+          }
+        })
+      }
+    }
+  };
+});
+
+// A layers model whose saves to IndexedDB land in storedModels
+const createModel = (): tf.LayersModel => {
+  const model = tf.sequential();
+  model.add(tf.layers.dense({ units: 2, inputShape: [4] }));
+  const save = model.save.bind(model);
+  vi.spyOn(model, 'save').mockImplementation(async (target, config) => {
+    if (typeof target !== 'string') return save(target, config);
+    storedModels.set(target, model);
+    return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON', weightDataBytes: 64 } };
+  });
+  return model;
+};
+
+const draft = (overrides: Partial<ModelVersionDraft> = {}): ModelVersionDraft => ({
+  modelId: 'custom_pattern_model',
+  name: 'Custom Pattern Model',
+  source: 'trained',
+  artifactUri: 'indexeddb://model-registry/custom_pattern_model',
+  signature: null,
+  ...overrides
+});
+
+describe('Model versions', () => {
+  it('should order and bump semantic versions', () => {
+    expect(nextVersion([])).toBe('1.0.0');
+    expect(nextVersion(['1.2.0', '1.10.0', '1.9.3'])).toBe('1.11.0');
+    expect(nextVersion(['1.2.0'], 'major')).toBe('2.0.0');
+    expect(nextVersion(['1.2.0'], 'patch')).toBe('1.2.1');
+    expect(compareVersions('2.0.0', '10.0.0')).toBeLessThan(0);
+    expect(isValidVersion('1.0')).toBe(false);
+    expect(isValidVersion('01.0.0')).toBe(false);
+  });
+
+  it('should read the input and output signature of a layers model', () => {
+    const model = tf.sequential();
+    model.add(tf.layers.dense({ units: 3, inputShape: [5], name: 'scores' }));
+
+    const signature = getLayersModelSignature(model);
+    expect(signature.inputs).toEqual([{ name: expect.any(String), shape: [null, 5], dtype: 'float32' }]);
+    expect(signature.outputs[0].shape).toEqual([null, 3]);
+    model.dispose();
+  });
+});
+
+describe('Model registry', () => {
+  beforeEach(() => {
+    Object.keys(tables).forEach(table => delete tables[table]);
+  });
+
+  it('should register each save as the next version, with its lineage and dataset', async () => {
+    const first = await registerModelVersion(draft({
+      trainingDataset: { name: 'Labelled code samples', sampleCount: 40 },
+      parent: { modelId: 'code-pattern', version: '1.0.0' }
+    }));
+    const second = await registerModelVersion(draft());
+    const major = await registerModelVersion(draft({ bump: 'major' }));
+
+    expect([first?.version, second?.version, major?.version]).toEqual(['1.0.0', '1.1.0', '2.0.0']);
+    expect(first?.parent).toEqual({ modelId: 'code-pattern', version: '1.0.0' });
+    expect(tables.model_registry[0]).toMatchObject({
+      training_dataset: { name: 'Labelled code samples', sampleCount: 40 },
+      parent_model_id: 'code-pattern',
+      stages: []
+    });
+
+    const models = await getRegisteredModels();
+    const custom = models.find(model => model.modelId === 'custom_pattern_model');
+    expect(models[0].source).toBe('built-in');
+    expect(custom?.versions.map(version => version.version)).toEqual(['2.0.0', '1.1.0', '1.0.0']);
+  });
+
+  it('should refuse duplicate versions, unknown parents and built-in ids', async () => {
+    await registerModelVersion(draft({ version: '1.0.0' }));
+
+    expect(await registerModelVersion(draft({ version: '1.0.0' }))).toBeNull();
+    expect(await registerModelVersion(draft({ version: 'v2' }))).toBeNull();
+    expect(await registerModelVersion(draft({ parent: { modelId: 'missing', version: '1.0.0' } }))).toBeNull();
+    expect(await registerModelVersion(draft({ modelId: 'code-pattern' }))).toBeNull();
+    expect(tables.model_registry).toHaveLength(1);
+  });
+
+  it('should keep each stage on a single version and load production by default', async () => {
+    await registerModelVersion(draft());
+    await registerModelVersion(draft());
+    await registerModelVersion(draft());
+
+    // The newest version loads while nothing is in production
+    expect(findModelVersion('custom_pattern_model')?.version).toBe('1.2.0');
+
+    await setModelVersionStage('custom_pattern_model', '1.0.0', 'production');
+    await setModelVersionStage('custom_pattern_model', '1.1.0', 'staging');
+    await setModelVersionStage('custom_pattern_model', '1.1.0', 'production');
+
+    const stages = Object.fromEntries(tables.model_registry.map(row => [row.version, row.stages]));
+    expect(stages).toEqual({ '1.0.0': [], '1.1.0': ['staging', 'production'], '1.2.0': [] });
+    expect(findModelVersion('custom_pattern_model')?.version).toBe('1.1.0');
+
+    expect(await setModelVersionStage('code-pattern', '1.0.0', 'staging')).toBe(false);
+    expect(findModelVersion('code-pattern')?.stages).toEqual(['production']);
+  });
+
+  it('should record test runs against registered versions only', async () => {
+    await registerModelVersion(draft());
+    const result = { modelId: 'custom_pattern_model', averageInferenceTime: 2, memoryUsage: 0, passRate: 0.75, results: [] };
+
+    expect(await recordModelVersionMetrics('custom_pattern_model', '1.0.0', result)).toBe(true);
+    expect(await recordModelVersionMetrics('code-pattern', '1.0.0', result)).toBe(false);
+
+    expect(tables.model_registry[0].metrics).toMatchObject({ passRate: 0.75, averageInferenceTime: 2 });
+    expect(findModelVersion('custom_pattern_model')?.metrics?.passRate).toBe(0.75);
+  });
+});
+
+describe('Models trained before versioning', () => {
+  const storeLegacyModel = (uri: string) => {
+    storedModels.set(uri, createModel());
+  };
+
+  beforeEach(() => {
+    Object.keys(tables).forEach(table => delete tables[table]);
+    storedModels.clear();
+    uploads.clear();
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    });
+  });
+
+  it('should import each trained model once, starting at 1.0.0', async () => {
+    tables.user_models = [
+      { user_id: 'user-1', model_id: 'custom_pattern_model', language: 'en', created_at: '2025-01-10T00:00:00Z' },
+      { user_id: 'user-1', model_id: 'custom_pattern_model', language: 'es', created_at: '2025-02-10T00:00:00Z' },
+      // Trained in another browser, so its weights aren't here
+      { user_id: 'user-1', model_id: 'review_model', language: 'en', created_at: '2025-03-10T00:00:00Z' }
+    ];
+    storeLegacyModel('indexeddb://custom_pattern_model_en');
+    storeLegacyModel('indexeddb://custom_pattern_model_es');
+
+    expect(await importLegacyUserModels()).toBe(2);
+
+    expect(tables.model_registry.map(row => [row.version, row.name, row.artifact_uri, row.supported_languages])).toEqual([
+      ['1.0.0', 'Custom Pattern Model', 'indexeddb://model-registry/custom_pattern_model/1.0.0', ['en']],
+      ['1.1.0', 'Custom Pattern Model', 'indexeddb://model-registry/custom_pattern_model/1.1.0', ['es']]
+    ]);
+    expect(tables.model_registry[0].signature).toMatchObject({ inputs: [{ shape: [null, 4] }] });
+    expect(tables.model_registry[0].storage_path).toBe('model_artifacts/user-1/custom_pattern_model/1.0.0');
+    expect([...storedModels.keys()]).toEqual([
+      'indexeddb://model-registry/custom_pattern_model/1.0.0',
+      'indexeddb://model-registry/custom_pattern_model/1.1.0'
+    ]);
+    expect(tables.user_models.map(row => row.model_id)).toEqual(['review_model']);
+    expect(localStorage.getItem('legacy_models_imported_user-1')).not.toBeNull();
+  });
+});
+
+describe('Model artifacts', () => {
+  beforeEach(() => {
+    Object.keys(tables).forEach(table => delete tables[table]);
+    storedModels.clear();
+    uploads.clear();
+  });
+
+  it('should upload saved models and load them in browsers without a copy', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const model = createModel();
+
+    const version = await saveModelToStorage(model, 'review_model');
+    expect(version?.storagePath).toBe('model_artifacts/user-1/review_model/1.0.0');
+    expect([...uploads.keys()]).toEqual([
+      'model_artifacts/user-1/review_model/1.0.0/model.json',
+      'model_artifacts/user-1/review_model/1.0.0/weights.bin'
+    ]);
+
+    // Another browser has nothing in IndexedDB
+    storedModels.clear();
+    const loaded = await loadUserModel('review_model');
+
+    const input = tf.tensor([[1, 2, 3, 4]]);
+    const output = await runModel(loaded!, input);
+    const expected = model.predict(input) as tf.Tensor;
+    expect(await output.array()).toEqual(await expected.array());
+    tf.dispose([input, output, expected]);
+
+    expect(await deleteUserModel('review_model', '1.0.0')).toBe(true);
+    expect(uploads.size).toBe(0);
+  });
+
+  it('should explain that versions saved before uploads only load where they were saved', async () => {
+    await expect(loadModelArtifact('tfjs-layers', 'indexeddb://model-registry/review_model/1.0.0', null))
+      .rejects.toThrow('only loads in the browser it was saved in');
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import { diffOutputs, runTestCase } from '../services/modelTestingService';
+import { getModelTestSuites, saveModelTestSuite } from '../services/modelTestSuiteService';
+import { parseCsvDataset, parseJsonDataset, parseNpy, casesFromArrays } from '../utils/testDatasetUtils';
+
+type Row = Record<string, unknown>;
+
+const tables: Record<string, Row[]> = {};
+
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn(), warning: vi.fn() } }));
+
+// Just enough of the Supabase client for suites to be saved and listed
+vi.mock('../lib/supabase', () => {
+  const query = (table: string) => {
+    const filters: [string, unknown][] = [];
+    let descending: string | null = null;
+
+    const run = () => {
+      const rows = (tables[table] || []).filter(row => filters.every(([column, value]) => row[column] === value));
+      if (descending) rows.sort((a, b) => String(b[descending!]).localeCompare(String(a[descending!])));
+      return rows;
+    };
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      order: (column: string) => {
+        descending = column;
+        return builder;
+      },
+      insert: async (row: Row) => {
+        tables[table] = [...(tables[table] || []), { ...row }];
+        return { error: null };
+      },
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: run(), error: null })
+    };
+    return builder;
+  };
+
+  return {
+    supabase: {
+      auth: { getUser: async () => ({ data: { user: { id: 'user-1' } }, error: null }) },
+      from: query
+    }
+  };
+});
+
+// A .npy file as NumPy's np.save writes it
+const createNpy = (descr: string, shape: number[], data: ArrayBufferView, fortranOrder = false): ArrayBuffer => {
+  const shapeText = shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(', ')})`;
+  let header = `{'descr': '${descr}', 'fortran_order': ${fortranOrder ? 'True' : 'False'}, 'shape': ${shapeText}, }`;
+  header += ' '.repeat(63 - ((10 + header.length) % 64)) + '\n';
+
+  const bytes = new Uint8Array(10 + header.length + data.byteLength);
+  bytes.set([0x93, ...'NUMPY'.split('').map(char => char.charCodeAt(0)), 1, 0]);
+  new DataView(bytes.buffer).setUint16(8, header.length, true);
+  bytes.set(new TextEncoder().encode(header), 10);
+  bytes.set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), 10 + header.length);
+  return bytes.buffer;
+};
+
+describe('Test dataset import', () => {
+  it('should read CSV rows as cases, splitting expected columns by name', () => {
+    const cases = parseCsvDataset('x1,x2,"y"\n0.1,0.2,0.3\n1,2,3\n');
+
+    expect(cases.map(testCase => [testCase.name, testCase.input, testCase.expectedOutput])).toEqual([
+      ['Row 1', [[0.1, 0.2]], [[0.3]]],
+      ['Row 2', [[1, 2]], [[3]]]
+    ]);
+  });
+
+  it('should treat a CSV without a header as inputs only', () => {
+    const cases = parseCsvDataset('1,2,3\n4,5,6');
+
+    expect(cases.map(testCase => testCase.input)).toEqual([[[1, 2, 3]], [[4, 5, 6]]]);
+    expect(cases[0].expectedOutput).toBeUndefined();
+  });
+
+  it('should report CSV cells that are not numbers', () => {
+    expect(() => parseCsvDataset('x,expected\n1,2\nabc,3')).toThrow('Line 3, column "x" isn\'t a number: "abc"');
+    expect(() => parseCsvDataset('x,expected\n1,2,3')).toThrow('Line 2 has 3 columns; expected 2');
+  });
+
+  it('should read JSON case lists and paired input and expected arrays', () => {
+    const listed = parseJsonDataset(JSON.stringify({
+      cases: [{ name: 'Zeros', input: [[0, 0]], expected: [[1]], category: 'edge-case', tolerance: { absolute: 0.1 } }]
+    }));
+    expect(listed[0]).toMatchObject({
+      name: 'Zeros',
+      input: [[0, 0]],
+      expectedOutput: [[1]],
+      category: 'edge-case',
+      tolerance: { absolute: 0.1, relative: 0 }
+    });
+
+    const paired = parseJsonDataset(JSON.stringify({ inputs: [[1, 2], [3, 4]], expected: [[3], [7]] }));
+    expect(paired.map(testCase => [testCase.input, testCase.expectedOutput])).toEqual([
+      [[[1, 2]], [[3]]],
+      [[[3, 4]], [[7]]]
+    ]);
+
+    expect(() => parseJsonDataset('[{ "input": [[1, 2], [3]] }]')).toThrow('Case 1 "input" must be');
+    expect(() => parseJsonDataset(JSON.stringify({ inputs: [[1], [2]], expected: [[1]] }))).toThrow('Found 2 inputs but 1 expected outputs');
+  });
+
+  it('should read .npy arrays in either memory order', () => {
+    const floats = parseNpy(createNpy('<f4', [2, 3], new Float32Array([1, 2, 3, 4, 5, 6])));
+    expect(floats).toEqual({ shape: [2, 3], values: [1, 2, 3, 4, 5, 6] });
+
+    // The same array stored column by column
+    const fortran = parseNpy(createNpy('<f8', [2, 3], new Float64Array([1, 4, 2, 5, 3, 6]), true));
+    expect(fortran.values).toEqual([1, 2, 3, 4, 5, 6]);
+
+    const integers = parseNpy(createNpy('<i8', [2], new BigInt64Array([7n, -2n])));
+    expect(integers).toEqual({ shape: [2], values: [7, -2] });
+
+    expect(() => parseNpy(createNpy('<U4', [1], new Uint8Array(16)))).toThrow('Unsupported .npy data type "<U4"');
+    expect(() => parseNpy(new ArrayBuffer(16))).toThrow('Not a NumPy .npy file');
+
+    const cases = casesFromArrays(floats, parseNpy(createNpy('|u1', [2, 1], new Uint8Array([0, 1]))));
+    expect(cases.map(testCase => [testCase.input, testCase.expectedOutput])).toEqual([
+      [[[1, 2, 3]], [[0]]],
+      [[[4, 5, 6]], [[1]]]
+    ]);
+  });
+});
+
+describe('Tolerance-based comparison', () => {
+  it('should list values outside the absolute and relative tolerance', () => {
+    const diff = diffOutputs([[1.05, 100.5, 3]], [[1, 100, 2]], { absolute: 0.1, relative: 0.01 });
+
+    expect(diff.shapeMatches).toBe(true);
+    expect(diff.mismatchCount).toBe(1);
+    expect(diff.mismatches).toEqual([{ index: [0, 2], actual: 3, expected: 2, difference: 1 }]);
+    expect(diff.maxAbsoluteError).toBe(1);
+  });
+
+  it('should fail outputs of the wrong shape without comparing values', () => {
+    const diff = diffOutputs([[1, 2]], [[1], [2]]);
+
+    expect(diff).toMatchObject({ shapeMatches: false, actualShape: [1, 2], expectedShape: [2, 1], mismatchCount: 0 });
+  });
+
+  it('should pass a case within tolerance and show the diff when it fails', async () => {
+    // Sums its two inputs
+    const model = tf.sequential({
+      layers: [tf.layers.dense({ units: 1, inputShape: [2], useBias: false, kernelInitializer: 'ones' })]
+    });
+
+    const passing = await runTestCase(model, {
+      id: 'sum', name: 'Sum', description: '', category: 'accuracy', input: [[1, 2]], expectedOutput: [[3.00001]]
+    });
+    expect(passing).toMatchObject({ passed: true, testCaseName: 'Sum', outputTensor: [[3]] });
+
+    const failing = await runTestCase(
+      model,
+      { id: 'sum', name: 'Sum', description: '', category: 'accuracy', input: [[1, 2]], expectedOutput: [[3.5]] },
+      { absolute: 0.1, relative: 0 }
+    );
+    expect(failing.passed).toBe(false);
+    expect(failing.diff?.mismatches).toEqual([{ index: [0, 0], actual: 3, expected: 3.5, difference: 0.5 }]);
+
+    model.dispose();
+  });
+});
+
+describe('Model test suites', () => {
+  beforeEach(() => {
+    Object.keys(tables).forEach(table => delete tables[table]);
+  });
+
+  it('should keep every saved version against the model version', async () => {
+    const draft = {
+      modelId: 'code-pattern',
+      name: 'Regression set',
+      description: '',
+      tolerance: { absolute: 0.01, relative: 0 },
+      cases: parseCsvDataset('a,b,expected\n1,2,3')
+    };
+
+    const first = await saveModelTestSuite(draft);
+    expect(first).toMatchObject({ version: 1, modelVersion: '1.0.0', name: 'Regression set' });
+
+    const second = await saveModelTestSuite({ ...draft, id: first!.id, tolerance: { absolute: 0.5, relative: 0 } });
+    expect(second).toMatchObject({ id: first!.id, version: 2 });
+
+    expect(tables.model_test_suites).toHaveLength(2);
+    const suites = await getModelTestSuites('code-pattern');
+    expect(suites).toHaveLength(1);
+    expect(suites[0]).toMatchObject({ version: 2, tolerance: { absolute: 0.5, relative: 0 } });
+  });
+
+  it('should not save a suite without cases', async () => {
+    const saved = await saveModelTestSuite({
+      modelId: 'code-pattern',
+      name: 'Empty',
+      description: '',
+      tolerance: { absolute: 0.01, relative: 0 },
+      cases: []
+    });
+
+    expect(saved).toBeNull();
+    expect(tables.model_test_suites).toBeUndefined();
+  });
+});
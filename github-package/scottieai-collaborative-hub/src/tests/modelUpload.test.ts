@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import type { InferenceSession } from 'onnxruntime-web';
+import { inspectModelFiles } from '../services/modelUploadService';
+import { generateTestCases } from '../services/modelTestingService';
+import { ONNX_BACKEND, runBenchmark } from '../services/modelBenchmarkService';
+import { OnnxModel, runModel } from '../utils/modelRuntime';
+import { getTensorShape } from '../utils/testDatasetUtils';
+
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn(), warning: vi.fn() } }));
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+// The files a TF.js layers model is saved as: model.json and one weight shard
+const exportLayersModel = async (model: tf.LayersModel): Promise<File[]> => {
+  let files: File[] = [];
+  await model.save(tf.io.withSaveHandler(async artifacts => {
+    const modelJSON = {
+      format: 'layers-model',
+      modelTopology: artifacts.modelTopology,
+      weightsManifest: [{ paths: ['./group1-shard1of1.bin'], weights: artifacts.weightSpecs }]
+    };
+    files = [
+      new File([JSON.stringify(modelJSON)], 'model.json'),
+      new File([artifacts.weightData as ArrayBuffer], 'group1-shard1of1.bin')
+    ];
+    return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+  }));
+  return files;
+};
+
+const createModel = (): tf.LayersModel => {
+  const model = tf.sequential();
+  model.add(tf.layers.dense({ units: 2, inputShape: [4], activation: 'softmax' }));
+  return model;
+};
+
+type OrtTensorLike = { type: string; data: ArrayLike<number | bigint>; dims: readonly number[]; dispose: () => void };
+
+class FakeOrtTensor implements OrtTensorLike {
+  constructor(public type: string, public data: ArrayLike<number | bigint>, public dims: readonly number[]) {}
+  dispose() {}
+}
+
+// An ONNX Runtime session for a model that sums its int64 input's rows
+const createSumSession = () => {
+  const feeds: OrtTensorLike[] = [];
+  const session = {
+    inputNames: ['ids'],
+    outputNames: ['sums'],
+    inputMetadata: [{ name: 'ids', isTensor: true, type: 'int64', shape: ['batch', 3] }],
+    outputMetadata: [{ name: 'sums', isTensor: true, type: 'float32', shape: ['batch', 1] }],
+    run: async (input: Record<string, OrtTensorLike>) => {
+      const feed = input.ids;
+      feeds.push(feed);
+      const values = Array.from(feed.data, Number);
+      const sums = Array.from({ length: feed.dims[0] }, (_, row) => values.slice(row * 3, row * 3 + 3).reduce((a, b) => a + b, 0));
+      return { sums: new FakeOrtTensor('float32', Float32Array.from(sums), [feed.dims[0], 1]) };
+    },
+    release: vi.fn()
+  };
+  const model = new OnnxModel(
+    session as unknown as InferenceSession,
+    FakeOrtTensor as unknown as ConstructorParameters<typeof OnnxModel>[1]
+  );
+  return { model, feeds };
+};
+
+describe('Model upload', () => {
+  it('should load a TF.js layers model from its files and read its signature', async () => {
+    const original = createModel();
+    const inspected = await inspectModelFiles(await exportLayersModel(original));
+
+    expect(inspected.format).toBe('tfjs-layers');
+    expect(inspected.warnings).toEqual([]);
+    expect(inspected.signature.inputs[0]).toMatchObject({ shape: [null, 4], dtype: 'float32' });
+    expect(inspected.signature.outputs[0].shape).toEqual([null, 2]);
+
+    const input = tf.tensor([[1, 2, 3, 4]]);
+    const uploadedOutput = await runModel(inspected.model, input);
+    const originalOutput = original.predict(input) as tf.Tensor;
+    expect(await uploadedOutput.array()).toEqual(await originalOutput.array());
+    tf.dispose([input, uploadedOutput, originalOutput]);
+    inspected.model.dispose();
+    original.dispose();
+  });
+
+  it('should reject incomplete and malformed uploads', async () => {
+    const model = createModel();
+    const [modelJSON, weights] = await exportLayersModel(model);
+    model.dispose();
+
+    await expect(inspectModelFiles([modelJSON])).rejects.toThrow('Missing weight files: group1-shard1of1.bin');
+    await expect(inspectModelFiles([new File(['{"modelTopology":'], 'model.json'), weights])).rejects.toThrow('not valid JSON');
+    await expect(inspectModelFiles([new File(['{}'], 'model.json')])).rejects.toThrow('has no modelTopology');
+    await expect(inspectModelFiles([new File(['x'], 'model.onnx'), weights])).rejects.toThrow('single .onnx file');
+    await expect(inspectModelFiles([new File([], 'model.onnx')])).rejects.toThrow('model.onnx is empty');
+  });
+
+  it('should note files that are not part of the model', async () => {
+    const model = createModel();
+    const files = await exportLayersModel(model);
+    model.dispose();
+
+    const inspected = await inspectModelFiles([...files, new File(['notes'], 'README.bin')]);
+    expect(inspected.warnings).toEqual(['Not part of the model and left out: README.bin']);
+    inspected.model.dispose();
+  });
+});
+
+describe('ONNX models', () => {
+  it('should feed TF.js tensors in the input type and read the output back', async () => {
+    const { model, feeds } = createSumSession();
+
+    expect(model.signature.inputs).toEqual([{ name: 'ids', shape: [null, 3], dtype: 'int64' }]);
+
+    const input = tf.tensor([[1, 2, 3], [4, 5, 6]]);
+    const output = await runModel(model, input);
+
+    expect(feeds[0].data).toBeInstanceOf(BigInt64Array);
+    expect(output.shape).toEqual([2, 1]);
+    expect(await output.array()).toEqual([[6], [15]]);
+    tf.dispose([input, output]);
+  });
+
+  it('should benchmark in ONNX Runtime instead of on each TF.js backend', async () => {
+    const { model } = createSumSession();
+    const options = { iterations: 2, warmupIterations: 1, batchSizes: [1, 4], backends: ['cpu', 'webgl'] };
+
+    const results = await runBenchmark(model, [[1, 2, 3]], options);
+
+    expect(results.map(result => [result.backend, result.available])).toEqual([[ONNX_BACKEND, true]]);
+    expect(results[0].batches.map(batch => [batch.batchSize, batch.leakedTensors])).toEqual([[1, 0], [4, 0]]);
+  });
+
+  it('should shape the built-in cases for the model input', () => {
+    const { model } = createSumSession();
+
+    const cases = generateTestCases('onnx', model.signature);
+    expect(cases.map(testCase => getTensorShape(testCase.input))).toEqual([[1, 3], [1, 3], [1, 3]]);
+
+    // Cases that already fit are kept
+    const fitting = generateTestCases('tensorflow', { inputs: [{ name: 'x', shape: [null, 5], dtype: 'float32' }], outputs: [] });
+    expect(fitting.map(testCase => testCase.id)).toContain('basic-inference-1');
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ArchiveEntry } from '../utils/archiveUtils';
+import { globToRegExp, isExcludedFile, runStaticAnalysis } from '../utils/staticAnalyzer';
+import {
+  defaultAnalysisRules,
+  MAX_COMPONENT_LINES,
+  missingMemoizationRule,
+  outdatedDependencyRule,
+  oversizedComponentRule,
+  unusedImportsRule
+} from '../utils/analysisRules';
+import { defaultAutoUpdateSettings } from '../services/autoUpdateService';
+
+// The service module pulls in Supabase and TensorFlow.js; only its defaults are needed here
+vi.mock('../services/fileProcessingService', () => ({
+  getProjectFiles: vi.fn()
+}));
+
+const entry = (path: string, content: string): ArchiveEntry => ({
+  path,
+  size: content.length,
+  isBinary: false,
+  content
+});
+
+const context = { settings: defaultAutoUpdateSettings, files: [] };
+
+describe('Static Analyzer', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should match glob patterns', () => {
+    expect(globToRegExp('*.lock').test('yarn.lock')).toBe(true);
+    expect(globToRegExp('*.lock').test('src/yarn.lock')).toBe(false);
+    expect(globToRegExp('src/**/*.test.ts').test('src/a/b/c.test.ts')).toBe(true);
+  });
+
+  it('should respect excluded directories and files', () => {
+    const settings = { ...defaultAutoUpdateSettings, excludedFiles: ['.env', '*.lock', 'src/generated/*'] };
+
+    expect(isExcludedFile('node_modules/react/index.js', settings)).toBe(true);
+    expect(isExcludedFile('app/dist/main.js', settings)).toBe(true);
+    expect(isExcludedFile('config/.env', settings)).toBe(true);
+    expect(isExcludedFile('package-lock.lock', settings)).toBe(true);
+    expect(isExcludedFile('src/generated/api.ts', settings)).toBe(true);
+    expect(isExcludedFile('src/App.tsx', settings)).toBe(false);
+  });
+
+  it('should produce recommendations with stable ids and a summary', () => {
+    const files = [
+      entry('src/util.ts', "import { a, b } from './lib';\n\nexport const run = () => a();\n"),
+      entry('dist/util.js', "import { unused } from './lib';\n")
+    ];
+
+    const result = runStaticAnalysis(files, defaultAutoUpdateSettings, defaultAnalysisRules);
+
+    expect(result.analyzedFiles).toBe(1);
+    expect(result.analyzedLines).toBe(3);
+    expect(result.recommendations).toHaveLength(1);
+    expect(result.recommendations[0].id).toBe('unused-imports:src/util.ts:1');
+    expect(result.summary.totalIssues).toBe(1);
+    expect(result.summary.codeQualityScore).toBeLessThan(100);
+  });
+
+  it('should keep analyzing when a rule throws', () => {
+    const result = runStaticAnalysis(
+      [entry('package.json', '{ broken')],
+      defaultAutoUpdateSettings,
+      [outdatedDependencyRule]
+    );
+
+    expect(result.recommendations).toEqual([]);
+    expect(result.summary.codeQualityScore).toBe(100);
+  });
+});
+
+describe('Analysis Rules', () => {
+  it('should rewrite imports with unused bindings', () => {
+    const file = entry('src/App.tsx', [
+      "import React, { useState, useEffect } from 'react';",
+      "import { toast } from 'sonner';",
+      "import './App.css';",
+      '',
+      'export const App = () => {',
+      '  const [count] = useState(0);',
+      '  return <div>{count}</div>;',
+      '};'
+    ].join('\n'));
+
+    const findings = unusedImportsRule.analyze(file, context);
+
+    expect(findings).toHaveLength(2);
+    expect(findings[0].currentCode).toBe("import React, { useState, useEffect } from 'react';");
+    expect(findings[0].suggestedCode).toBe("import React, { useState } from 'react';");
+    expect(findings[0].lineNumbers).toEqual([1, 1]);
+    expect(findings[1].suggestedCode).toBe('');
+    expect(findings[1].lineNumbers).toEqual([2, 2]);
+  });
+
+  it('should report oversized components with their line range', () => {
+    const body = Array.from({ length: MAX_COMPONENT_LINES }, (_, i) => `  const value${i} = ${i};`);
+    const file = entry('src/Big.tsx', [
+      'export const Big = () => {',
+      ...body,
+      '  return <div />;',
+      '};',
+      '',
+      'export const Small = () => {',
+      '  return <span />;',
+      '};'
+    ].join('\n'));
+
+    const findings = oversizedComponentRule.analyze(file, context);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].title).toContain('Big');
+    expect(findings[0].lineNumbers).toEqual([1, MAX_COMPONENT_LINES + 3]);
+  });
+
+  it('should suggest useMemo for derived collections in the render body', () => {
+    const file = entry('src/List.tsx', [
+      "import React from 'react';",
+      '',
+      'const List = ({ items }) => {',
+      '  const visible = items.filter(item => item.visible).sort((a, b) => a.rank - b.rank);',
+      '  const handleClick = () => {',
+      '    const inner = items.map(item => item.id);',
+      '  };',
+      '  return <ul>{visible.map(item => <li key={item.id}>{item.name}</li>)}</ul>;',
+      '};'
+    ].join('\n'));
+
+    const findings = missingMemoizationRule.analyze(file, context);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].lineNumbers).toEqual([4, 4]);
+    expect(findings[0].suggestedCode).toBe(
+      '  const visible = useMemo(() => items.filter(item => item.visible).sort((a, b) => a.rank - b.rank), [items]);'
+    );
+    expect(findings[0].description).toContain('must also be imported');
+  });
+
+  it('should flag outdated dependency ranges', () => {
+    const file = entry('package.json', JSON.stringify({
+      dependencies: { react: '^16.14.0', lodash: '4.17.15', axios: '^1.0.0', leftpad: '^1.0.0' },
+      devDependencies: { typescript: '*', vite: 'workspace:*' }
+    }, null, 2));
+
+    const findings = outdatedDependencyRule.analyze(file, context);
+    const byTitle = Object.fromEntries(findings.map(finding => [finding.title.split(' ')[1], finding]));
+
+    expect(Object.keys(byTitle).sort()).toEqual(['lodash', 'react', 'typescript']);
+    expect(byTitle.react.severity).toBe('high');
+    expect(byTitle.react.currentCode).toBe('    "react": "^16.14.0",');
+    expect(byTitle.react.suggestedCode).toBe('    "react": "^18.3.1",');
+    expect(byTitle.react.lineNumbers).toEqual([3, 3]);
+    expect(byTitle.react.title).toBe('Update react to at least 18.3.1');
+    expect(byTitle.react.description).toContain('2 major version(s) older than the known baseline 18.3.1');
+    expect(byTitle.lodash.severity).toBe('low');
+    expect(byTitle.typescript.severity).toBe('medium');
+  });
+
+  it('should skip excluded dependencies', () => {
+    const file = entry('package.json', JSON.stringify({ dependencies: { react: '^16.0.0' } }, null, 2));
+    const settings = { ...defaultAutoUpdateSettings, excludedDependencies: ['react'] };
+
+    expect(outdatedDependencyRule.analyze(file, { settings, files: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { ArchiveEntry, buildFileTree, extractArchive, getArchiveFormat } from '../utils/archiveUtils';
+import { detectLanguage, detectTechnologiesFromFiles } from '../utils/technologyDetection';
+
+const entry = (path: string, content: string): ArchiveEntry => ({
+  path,
+  size: content.length,
+  isBinary: false,
+  content
+});
+
+// Build a minimal ustar archive in memory
+const createTar = (files: Record<string, string>): Uint8Array => {
+  const encoder = new TextEncoder();
+  const blocks: Uint8Array[] = [];
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = encoder.encode(content);
+    const header = new Uint8Array(512);
+    header.set(encoder.encode(name), 0);
+    header.set(encoder.encode(data.length.toString(8).padStart(11, '0')), 124);
+    header[156] = '0'.charCodeAt(0);
+    header.set(encoder.encode('ustar'), 257);
+    blocks.push(header);
+
+    const body = new Uint8Array(Math.ceil(data.length / 512) * 512);
+    body.set(data);
+    blocks.push(body);
+  }
+
+  blocks.push(new Uint8Array(1024));
+
+  const archive = new Uint8Array(blocks.reduce((total, block) => total + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    archive.set(block, offset);
+    offset += block.length;
+  }
+  return archive;
+};
+
+describe('Archive Utilities', () => {
+  it('should recognize archive formats from file names', () => {
+    expect(getArchiveFormat('release-42.zip')).toBe('zip');
+    expect(getArchiveFormat('release-42.tar.gz')).toBe('tar.gz');
+    expect(getArchiveFormat('release-42.tgz')).toBe('tar.gz');
+    expect(getArchiveFormat('release-42.tar')).toBe('tar');
+    expect(getArchiveFormat('release-42.txt')).toBeNull();
+  });
+
+  it('should extract zip archives', async () => {
+    const zip = new JSZip();
+    zip.file('app/package.json', '{"dependencies":{"react":"^18.0.0"}}');
+    zip.file('app/src/index.ts', 'export const x = 1;\n');
+    zip.file('app/node_modules/react/index.js', 'module.exports = {};');
+    const data = await zip.generateAsync({ type: 'arraybuffer' });
+
+    const entries = await extractArchive(data, 'release-42.zip');
+    const paths = entries.map(item => item.path).sort();
+
+    expect(paths).toEqual(['app/node_modules/react/index.js', 'app/package.json', 'app/src/index.ts']);
+    expect(entries.find(item => item.path === 'app/src/index.ts').content).toBe('export const x = 1;\n');
+    // Vendored files are listed without content
+    expect(entries.find(item => item.path.includes('node_modules')).content).toBeNull();
+  });
+
+  it('should extract tar.gz archives', async () => {
+    const tar = createTar({ 'go.mod': 'module example.com/app\n\ngo 1.22\n' });
+    const gzipped = await new Response(
+      new Blob([tar]).stream().pipeThrough(new CompressionStream('gzip'))
+    ).arrayBuffer();
+
+    const entries = await extractArchive(gzipped, 'release-42.tar.gz');
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].path).toBe('go.mod');
+    expect(entries[0].content).toContain('go 1.22');
+  });
+
+  it('should build a sorted file tree', () => {
+    const tree = buildFileTree([
+      entry('src/b.ts', 'b'),
+      entry('README.md', 'readme'),
+      entry('src/a.ts', 'a')
+    ]);
+
+    expect(tree.map(node => node.name)).toEqual(['src', 'README.md']);
+    expect(tree[0].children.map(node => node.path)).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(tree[0].size).toBe(2);
+  });
+});
+
+describe('Technology Detection', () => {
+  it('should detect frameworks and databases from package.json', () => {
+    const result = detectTechnologiesFromFiles([
+      entry('package.json', JSON.stringify({
+        dependencies: { react: '^18.3.1', express: '^4.19.0', pg: '^8.11.0' },
+        devDependencies: { typescript: '^5.5.3' }
+      }))
+    ]);
+
+    expect(result.technologies).toEqual(
+      expect.arrayContaining(['React', 'Express', 'Node.js', 'PostgreSQL', 'TypeScript'])
+    );
+    const reactEvidence = result.evidence.find(item => item.technology === 'React');
+    expect(reactEvidence.source).toBe('package.json');
+    expect(reactEvidence.reason).toContain('^18.3.1');
+  });
+
+  it('should detect Python, Go and Rust stacks from their manifests', () => {
+    const result = detectTechnologiesFromFiles([
+      entry('api/requirements.txt', 'Django>=4.2  # web\npsycopg2-binary==2.9.9\n'),
+      entry('worker/go.mod', 'module example.com/worker\n\ngo 1.22\n\nrequire (\n\tgithub.com/gin-gonic/gin v1.9.1\n\tgo.mongodb.org/mongo-driver v1.15.0\n)\n'),
+      entry('cli/Cargo.toml', '[package]\nname = "cli"\n\n[dependencies]\ntokio = { version = "1", features = ["full"] }\naxum = "0.7"\n')
+    ]);
+
+    expect(result.technologies).toEqual(expect.arrayContaining([
+      'Python', 'Django', 'PostgreSQL', 'Go', 'Gin', 'MongoDB', 'Rust', 'Tokio', 'Axum'
+    ]));
+    expect(result.technologies).not.toContain('JavaScript');
+  });
+
+  it('should derive languages from file extension statistics', () => {
+    const result = detectTechnologiesFromFiles([
+      entry('src/main.py', 'print("hello")\nprint("world")\n'),
+      entry('src/util.py', 'x = 1\n'),
+      entry('docs/index.md', '# Docs\n')
+    ]);
+
+    expect(result.technologies).toEqual(['Python']);
+    expect(result.languages).toEqual([{ language: 'Python', files: 2, lines: 3, percentage: 100 }]);
+    expect(result.evidence[0].source).toBe('file-extensions');
+  });
+
+  it('should ignore malformed manifests and vendored files', () => {
+    const result = detectTechnologiesFromFiles([
+      entry('package.json', '{ not json'),
+      entry('node_modules/vue/package.json', '{"dependencies":{"vue":"3"}}')
+    ]);
+
+    expect(result.technologies).toEqual([]);
+  });
+
+  it('should map file extensions to languages', () => {
+    expect(detectLanguage('src/App.tsx')).toBe('TypeScript');
+    expect(detectLanguage('Dockerfile')).toBe('Dockerfile');
+    expect(detectLanguage('LICENSE')).toBeNull();
+  });
+});
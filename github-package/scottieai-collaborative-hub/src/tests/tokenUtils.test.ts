@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  estimateTokens,
+  getContextWindow,
+  packContextWindow,
+  summarizeTurnsLocally
+} from '../utils/tokenUtils';
+import { prepareChatHistory } from '../services/chatHistoryService';
+import { LLMRouter } from '../services/llmRouter';
+import { ChatMessage } from '../types/llm';
+
+const turn = (role: 'user' | 'assistant', words: number, label: string = role): ChatMessage => ({
+  role,
+  content: `${label} ${Array.from({ length: words }, (_, i) => `word${i}`).join(' ')}`
+});
+
+describe('Token Utilities', () => {
+  it('should estimate tokens per provider', () => {
+    const text = 'const answer = computeTheAnswerToEverything(42);';
+
+    expect(estimateTokens('', 'openai')).toBe(0);
+    expect(estimateTokens(text, 'anthropic')).toBeGreaterThanOrEqual(estimateTokens(text, 'openai'));
+    // Punctuation-heavy text counts at least one token per symbol
+    expect(estimateTokens('{}[]();', 'openai')).toBe(7);
+  });
+
+  it('should look up context windows by model prefix', () => {
+    expect(getContextWindow('openai', 'gpt-4')).toBe(8192);
+    expect(getContextWindow('openai', 'gpt-4-turbo-preview')).toBe(128000);
+    expect(getContextWindow('anthropic', 'claude-3-opus-20240229')).toBe(200000);
+    expect(getContextWindow('local', 'unknown-model')).toBe(4096);
+  });
+
+  it('should keep the system prompt and newest turns within the window', () => {
+    const history = [
+      ...Array.from({ length: 40 }, (_, i) => turn(i % 2 ? 'assistant' : 'user', 150, `turn${i}`)),
+      turn('user', 5, 'latest')
+    ];
+
+    const packed = packContextWindow({
+      provider: 'local',
+      model: 'llama3',
+      systemPrompt: 'You are helpful.\n\nContext information: {"project":"demo"}',
+      history,
+      completionTokens: 1000
+    });
+
+    expect(packed.messages[0].role).toBe('system');
+    expect(packed.messages[0].content).toContain('Context information');
+    expect(packed.messages[packed.messages.length - 1].content).toMatch(/^latest/);
+    expect(packed.promptTokens).toBeLessThanOrEqual(8192 - 1000);
+    expect(packed.evicted.length + packed.messages.length - 1).toBe(history.length);
+    expect(packed.evicted[0].content).toMatch(/^turn0 /);
+  });
+
+  it('should cap the number of verbatim turns', () => {
+    const history = Array.from({ length: 10 }, () => turn('user', 2));
+
+    const packed = packContextWindow({ provider: 'openai', systemPrompt: 'sys', history, completionTokens: 100, maxMessages: 4 });
+
+    expect(packed.messages).toHaveLength(5);
+    expect(packed.evicted).toHaveLength(6);
+  });
+
+  it('should trim a local digest to its budget', () => {
+    const digest = summarizeTurnsLocally('- User: earlier question', [turn('user', 100), turn('assistant', 100)], 60, 'openai');
+
+    expect(digest.split('\n')).toHaveLength(1);
+    expect(digest).toMatch(/^- Assistant: assistant word0/);
+    expect(digest.endsWith('...')).toBe(true);
+  });
+});
+
+describe('Chat History', () => {
+  const history = [
+    ...Array.from({ length: 30 }, (_, i) => turn(i % 2 ? 'assistant' : 'user', 150, `turn${i}`)),
+    turn('user', 5, 'latest')
+  ];
+  const options = {
+    provider: 'local' as const,
+    model: 'llama3',
+    systemPrompt: 'sys',
+    history,
+    digest: '',
+    completionTokens: 1000
+  };
+
+  it('should summarize evicted turns into the digest', async () => {
+    const getChatCompletion = vi.fn().mockResolvedValue({ id: '1', message: { role: 'assistant', content: 'Discussed turns.' } });
+    const router = { getChatCompletion } as unknown as LLMRouter;
+
+    const prepared = await prepareChatHistory(router, options);
+
+    expect(prepared.digestedCount).toBeGreaterThan(0);
+    expect(prepared.digest).toBe('Discussed turns.');
+    expect(prepared.messages[0].content).toContain('Summary of the earlier conversation:\nDiscussed turns.');
+    expect(prepared.messages.length - 1 + prepared.digestedCount).toBe(history.length);
+    expect(getChatCompletion.mock.calls[0][0].messages[1].content).toContain('turn0 word0');
+  });
+
+  it('should fall back to a local digest when summarizing fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const router = { getChatCompletion: vi.fn().mockRejectedValue(new Error('offline')) } as unknown as LLMRouter;
+
+    const prepared = await prepareChatHistory(router, options);
+
+    expect(prepared.digest).toContain('- User: turn0 word0');
+  });
+
+  it('should leave short conversations untouched', async () => {
+    const getChatCompletion = vi.fn();
+    const router = { getChatCompletion } as unknown as LLMRouter;
+
+    const prepared = await prepareChatHistory(router, { ...options, history: [turn('user', 3)] });
+
+    expect(prepared.digestedCount).toBe(0);
+    expect(prepared.messages).toHaveLength(2);
+    expect(getChatCompletion).not.toHaveBeenCalled();
+  });
+});
@@ -17,6 +17,16 @@ export interface ChatProviderConfig {
   model?: string;
   temperature?: number;
   maxTokens?: number;
+  baseUrl?: string; // OpenAI-compatible endpoint for self-hosted models
+  rateLimitPerMinute?: number;
+}
+
+// Retry behaviour for failed provider requests
+export interface RetrySettings {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
 }
 
 // Chat settings interface
@@ -25,19 +35,62 @@ export interface ChatSettings {
   defaultProvider: LLMProvider;
   enableStreaming: boolean;
   enableHistory: boolean;
-  maxHistoryLength: number;
+  maxHistoryLength: number; // Most recent messages sent verbatim; older ones are summarized
   systemPrompt: string;
+  enableFallback: boolean; // Try other configured providers when the current one fails
+  enableTools: boolean; // Let the assistant call read-only project tools; not every provider or model supports them
+  retry: RetrySettings;
+}
+
+// Token counts for a completion or a whole conversation
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Chat message with the provider and model that produced it
+export interface ConversationMessage extends ChatMessage {
+  provider?: LLMProvider;
+  model?: string;
+  usage?: TokenUsage;
 }
 
 // Chat state interface
 export interface ChatState {
-  messages: ChatMessage[];
+  messages: ConversationMessage[];
   isLoading: boolean;
   error: string | null;
   currentProvider: LLMProvider;
   settings: ChatSettings;
+  // Running summary of the earliest messages, which are no longer sent verbatim
+  digest: string;
+  digestedCount: number;
+  usage: TokenUsage;
+  threads: ChatThread[];
+  activeThreadId: string | null;
 }
 
+// Named conversation attached to a project and context type
+export interface ChatThread {
+  id: string;
+  title: string;
+  projectId: string | null;
+  contextType: ChatContextType;
+  messages: ConversationMessage[];
+  digest: string;
+  digestedCount: number;
+  usage: TokenUsage;
+  created: Date;
+  updated: Date;
+}
+
+export const emptyTokenUsage: TokenUsage = {
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0
+};
+
 // Default chat settings
 export const defaultChatSettings: ChatSettings = {
   providers: [
@@ -58,12 +111,27 @@ export const defaultChatSettings: ChatSettings = {
       model: 'command-r-plus',
       temperature: 0.7,
       maxTokens: 1000
+    },
+    {
+      provider: 'local',
+      model: 'llama3',
+      baseUrl: 'http://localhost:11434/v1',
+      temperature: 0.7,
+      maxTokens: 1000
     }
   ],
   defaultProvider: 'openai',
   enableStreaming: true,
   enableHistory: true,
   maxHistoryLength: 50,
+  enableFallback: true,
+  enableTools: false,
+  retry: {
+    maxRetries: 2,
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    timeoutMs: 60000
+  },
   systemPrompt: `You are an AI assistant for the ScottieAI Collaborative Hub, a platform that helps users enhance their projects with AI capabilities. 
   
 Your role is to assist users with:
@@ -0,0 +1,225 @@
+// Id of a registered deployment provider, e.g. 'vercel' or 'local-static'
+export type DeploymentPlatform = string;
+
+// Project-scoped environments a deployment can target
+export type EnvironmentName = 'development' | 'preview' | 'production';
+
+export interface EnvironmentVariable {
+  key: string;
+  // Always plaintext in memory; secret values are encrypted before they are stored
+  value: string;
+  secret: boolean;
+}
+
+export interface DeploymentOptions {
+  buildCommand: string;
+  outputDirectory: string;
+  // Resolved values: the target environment with per-deployment overrides applied
+  environmentVariables: Record<string, string>;
+  // Keys of environmentVariables that hold secrets
+  secretKeys?: string[];
+  framework: string;
+  // Defaults to production; other environments get expiring preview deployments
+  environment?: EnvironmentName;
+  // Revision whose code package is deployed; defaults to the project's current revision
+  revisionId?: string;
+}
+
+export interface DeploymentResult {
+  success: boolean;
+  deploymentUrl?: string;
+  error?: string;
+  handle?: DeploymentHandle;
+  healthCheck?: HealthCheckReport;
+}
+
+// Something a checked response must contain
+export type HealthCheckAssertion =
+  | { type: 'text'; contains: string }
+  // `path` is like "$.data.items[0].id"; without `equals` the value only has to exist
+  | { type: 'json'; path: string; equals?: string | number | boolean | null };
+
+export interface HealthCheckPath {
+  path: string;
+  // Defaults to 200
+  expectedStatus?: number;
+  // Slower responses are reported as warnings
+  maxLatencyMs?: number;
+  assertions?: HealthCheckAssertion[];
+}
+
+// Post-deployment checks configured for a project
+export interface HealthCheckConfig {
+  paths: HealthCheckPath[];
+  // Warn when the TLS certificate expires within this many days
+  tlsExpiryWarningDays: number;
+  // Roll production back to the previous deployment when a check fails
+  rollbackOnFailure: boolean;
+  timeoutMs: number;
+}
+
+// 'unchecked' means the check couldn't be evaluated from the browser, e.g. a
+// site that doesn't allow cross-origin reads; it never triggers a rollback
+export type HealthCheckOutcome = 'passed' | 'unchecked' | 'warning' | 'failed';
+
+export interface HealthCheckResult {
+  path: string;
+  url: string;
+  outcome: HealthCheckOutcome;
+  status?: number;
+  latencyMs?: number;
+  // Why the check warned or failed; empty when it passed
+  messages: string[];
+}
+
+export interface TlsCheckResult {
+  outcome: HealthCheckOutcome;
+  validTo?: Date;
+  daysRemaining?: number;
+  message: string;
+}
+
+export interface HealthCheckReport {
+  outcome: HealthCheckOutcome;
+  results: HealthCheckResult[];
+  tls?: TlsCheckResult;
+  checkedAt: Date;
+  // Set when a failed check rolled production back
+  rolledBackTo?: string;
+}
+
+// Access tokens and account settings entered for a provider, keyed by field
+export type DeploymentCredentials = Record<string, string>;
+
+export interface DeploymentCredentialField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  // Masked in forms and never written to deployment records
+  secret?: boolean;
+  optional?: boolean;
+}
+
+export interface DeploymentFile {
+  // Path relative to the root of the deployed site (or the project, for remote builds)
+  path: string;
+  bytes: Uint8Array;
+}
+
+export interface DeploymentContext {
+  projectId: string;
+  projectName: string;
+  options: DeploymentOptions;
+  credentials: DeploymentCredentials;
+  // Files from the project's code package, without vendored directories
+  sourceFiles: DeploymentFile[];
+}
+
+// Files a provider will upload, produced by its build step
+export interface DeploymentBuild {
+  files: DeploymentFile[];
+  totalSize: number;
+}
+
+// Reference to an uploaded deployment, stored so it can be checked or torn down later
+export interface DeploymentHandle {
+  providerId: DeploymentPlatform;
+  id: string;
+  url: string;
+  // Provider-specific ids needed by later calls, such as a Netlify site id
+  metadata?: Record<string, string>;
+}
+
+export type DeploymentState = 'building' | 'ready' | 'error' | 'stopped';
+
+export interface DeploymentStatus {
+  state: DeploymentState;
+  error?: string;
+}
+
+export interface DeploymentLogEntry {
+  timestamp: Date;
+  level: 'info' | 'warning' | 'error';
+  message: string;
+}
+
+// Steps of a deployment job, in order; a job ends in 'live' or 'failed'
+export type DeploymentPhase = 'queued' | 'installing' | 'building' | 'uploading' | 'verifying' | 'live' | 'failed';
+
+export interface DeploymentJobLogEntry extends DeploymentLogEntry {
+  phase: DeploymentPhase;
+}
+
+// One run of a deployment, with its append-only log
+export interface DeploymentJob {
+  id: string;
+  projectId: string;
+  platform: DeploymentPlatform;
+  environment: EnvironmentName;
+  phase: DeploymentPhase;
+  logs: DeploymentJobLogEntry[];
+  deploymentUrl?: string;
+  error?: string;
+  healthCheck?: HealthCheckReport;
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
+// A recorded deployment. Its URL always serves the same build; production points at one of them.
+export interface Deployment {
+  id: string;
+  projectId: string;
+  platform: DeploymentPlatform;
+  status: 'success' | 'failed';
+  environment: EnvironmentName;
+  url?: string;
+  handle?: DeploymentHandle;
+  revisionId?: string;
+  jobId?: string;
+  error?: string;
+  healthCheck?: HealthCheckReport;
+  // Preview deployments are torn down once they expire
+  expiresAt?: Date;
+  tornDownAt?: Date;
+  created: Date;
+}
+
+// How a deployment became production
+export type PromotionAction = 'deploy' | 'promote' | 'rollback';
+
+// Entry in a project's append-only log of production changes
+export interface DeploymentPromotion {
+  id: string;
+  projectId: string;
+  deploymentId: string;
+  action: PromotionAction;
+  productionUrl: string;
+  created: Date;
+}
+
+/**
+ * A hosting target. Deploying runs build, then upload, then polls status
+ * until the deployment is ready; logs and teardown work from the stored handle.
+ */
+export interface DeploymentProvider {
+  id: DeploymentPlatform;
+  name: string;
+  description: string;
+  credentialFields: DeploymentCredentialField[];
+  // Whether environment variables reach the build; prebuilt uploads can't use them
+  supportsEnvironment?: boolean;
+  // Whether non-production deployments can be hosted without replacing production
+  supportsPreview?: boolean;
+  // False when the provider can't run in the current environment
+  isAvailable: () => boolean;
+  // Shown in place of the description while the provider isn't available
+  unavailableReason?: string;
+  build: (context: DeploymentContext) => Promise<DeploymentBuild>;
+  upload: (context: DeploymentContext, build: DeploymentBuild) => Promise<DeploymentHandle>;
+  status: (handle: DeploymentHandle, credentials: DeploymentCredentials) => Promise<DeploymentStatus>;
+  logs: (handle: DeploymentHandle, credentials: DeploymentCredentials) => Promise<DeploymentLogEntry[]>;
+  teardown: (handle: DeploymentHandle, credentials: DeploymentCredentials) => Promise<void>;
+  // Serve an existing deployment as production, returning the production URL if it differs.
+  // Providers without it serve each deployment from its own URL.
+  promote?: (handle: DeploymentHandle, credentials: DeploymentCredentials) => Promise<string | null>;
+}
@@ -0,0 +1,145 @@
+import { EnvironmentName } from './deployment';
+
+export type PackageManager = 'npm' | 'yarn' | 'pnpm';
+
+// How a container image serves the project
+export interface ContainerStack {
+  // As returned by detectFramework, or 'static' for projects without a package.json
+  framework: string;
+  // Built assets behind nginx, or a Node server for frameworks that render on the server
+  runtime: 'nginx' | 'node';
+  packageManager: PackageManager;
+  // Whether a lockfile was found, so installs can be reproducible
+  hasLockfile: boolean;
+  outputDirectory: string;
+  // Port the container listens on
+  port: number;
+}
+
+export interface ContainerExportOptions {
+  // Variables from this environment are written to the compose file
+  environment: EnvironmentName;
+  nodeVersion: string;
+  // Port published on the host by the compose file
+  hostPort: number;
+}
+
+export interface ContainerExportResult {
+  success: boolean;
+  fileName?: string;
+  archive?: Blob;
+  error?: string;
+}
+
+export type DesktopPlatform = 'win' | 'mac' | 'linux';
+
+// macOS section of the export configuration
+export interface MacExportConfig {
+  targets?: ('dmg' | 'zip')[];
+  arch?: ('x64' | 'arm64' | 'universal')[];
+  // LSApplicationCategoryType, e.g. 'public.app-category.productivity'
+  category?: string;
+  hardenedRuntime?: boolean;
+  // Entitlements on top of the ones Electron needs under the hardened runtime
+  entitlements?: string[];
+  // Notarization needs the Apple team id and the APPLE_ID credentials at build time
+  notarize?: boolean;
+  teamId?: string;
+}
+
+// Linux section of the export configuration
+export interface LinuxExportConfig {
+  targets?: ('AppImage' | 'deb' | 'rpm')[];
+  // freedesktop.org main category, e.g. 'Utility' or 'Development'
+  category?: string;
+  // "Name <email>", required by deb and rpm
+  maintainer?: string;
+  synopsis?: string;
+  debDepends?: string[];
+  rpmDepends?: string[];
+}
+
+// Desktop (Electron) export settings; every backend takes the same configuration
+export interface ExportConfig {
+  appName: string;
+  appVersion: string;
+  electronVersion: string;
+  includeUpdater: boolean;
+  platforms: DesktopPlatform[];
+  icon?: string;
+  description?: string;
+  author?: string;
+  copyright?: string;
+  homepage?: string;
+  // Build output in the code package, as in DeploymentOptions; detected from the technologies when unset
+  outputDirectory?: string;
+  // Windows installer settings
+  installerType?: 'nsis' | 'msi' | 'portable';
+  installerOptions?: {
+    oneClick?: boolean;
+    perMachine?: boolean;
+    allowToChangeInstallationDirectory?: boolean;
+    createDesktopShortcut?: boolean;
+    createStartMenuShortcut?: boolean;
+    runAfterFinish?: boolean;
+  };
+  mac?: MacExportConfig;
+  linux?: LinuxExportConfig;
+}
+
+export interface ExportResult {
+  success: boolean;
+  // Where a build server published the package
+  downloadUrl?: string;
+  fileName?: string;
+  // Packages made in the browser, for the user to download
+  archive?: Blob;
+  error?: string;
+}
+
+export type DesktopExportBackendId = 'local' | 'remote';
+
+export interface DesktopExportContext {
+  projectId: string;
+  platform: DesktopPlatform;
+  config: ExportConfig;
+  // Storage path of the project's code package
+  codePackagePath: string | null;
+  onProgress: (message: string) => void;
+}
+
+/**
+ * Somewhere desktop packages are made: in the browser as Electron sources,
+ * or on a build server that returns finished installers
+ */
+export interface DesktopExportBackend {
+  id: DesktopExportBackendId;
+  name: string;
+  description: string;
+  // False when the backend can't run in the current environment
+  isAvailable: () => boolean;
+  run: (context: DesktopExportContext) => Promise<ExportResult>;
+}
+
+export type DesktopExportStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// An export run by the queue; kept as the project's export history
+export interface DesktopExportJob {
+  id: string;
+  projectId: string;
+  platform: DesktopPlatform;
+  backend: DesktopExportBackendId;
+  status: DesktopExportStatus;
+  // The settings the caller chose; defaults are filled in when the job runs
+  config: Partial<ExportConfig>;
+  appName?: string;
+  appVersion?: string;
+  // Latest progress message while running
+  message?: string;
+  downloadUrl?: string;
+  fileName?: string;
+  error?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
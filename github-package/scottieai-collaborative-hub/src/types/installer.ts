@@ -0,0 +1,128 @@
+// Files copied into the install directory
+export interface InstallerFileSet {
+  // Pattern relative to the source directory, with * and ** wildcards, e.g. "resources/*.pak"
+  source: string;
+  // Subdirectory of the install directory; the root when unset
+  destination?: string;
+  // Include matching files in subdirectories too
+  recursive?: boolean;
+}
+
+export type InstallerRegistryRoot = 'auto' | 'HKCU' | 'HKLM' | 'HKCR';
+
+// A value written at install time and removed on uninstall
+export interface InstallerRegistryEntry {
+  // 'auto' is HKLM for per-machine installs and HKCU for per-user ones
+  root: InstallerRegistryRoot;
+  key: string;
+  // The key's default value when unset
+  name?: string;
+  type: 'string' | 'expandString' | 'dword';
+  value: string | number;
+  // Remove the whole key on uninstall rather than just the value
+  deleteKeyOnUninstall?: boolean;
+}
+
+export interface InstallerUninstallCleanup {
+  // Remove the app's folder under %APPDATA%, where Electron keeps user data
+  appData?: boolean;
+  // Folders created at runtime, relative to the install directory
+  paths?: string[];
+}
+
+// Define types for installer configuration
+export interface InstallerConfig {
+  appName: string;
+  appVersion: string;
+  publisher: string;
+  description: string;
+  outputDir: string;
+  sourceDir: string;
+  iconPath?: string;
+  licenseFile?: string;
+  installerType: 'exe' | 'msi';
+  installerOptions: {
+    perMachine: boolean;
+    createDesktopShortcut: boolean;
+    createStartMenuShortcut: boolean;
+    runAfterFinish: boolean;
+    allowToChangeInstallationDirectory: boolean;
+  };
+  // Program the shortcuts start, relative to the source directory; defaults to "<appName>.exe"
+  executableName?: string;
+  publisherUrl?: string;
+  // Identifies the product across versions so new installers replace old ones.
+  // Derived from the app name when unset; never change it once shipped.
+  upgradeCode?: string;
+  // Everything in the source directory when unset
+  files?: InstallerFileSet[];
+  registry?: InstallerRegistryEntry[];
+  uninstallCleanup?: InstallerUninstallCleanup;
+}
+
+export type InnoSectionName =
+  | 'Languages'
+  | 'Tasks'
+  | 'Files'
+  | 'Icons'
+  | 'Registry'
+  | 'Run'
+  | 'UninstallDelete';
+
+// One line of a section, e.g. `Source: "app\*"; DestDir: "{app}"; Flags: ignoreversion`
+export interface InnoEntry {
+  parameters: [string, string][];
+  flags?: string[];
+}
+
+export interface InnoSection {
+  name: InnoSectionName;
+  entries: InnoEntry[];
+}
+
+// An Inno Setup .iss script
+export interface InnoSetupScript {
+  comments: string[];
+  // [Setup] directives, in order
+  setup: [string, string][];
+  sections: InnoSection[];
+}
+
+export type WixElementName =
+  | 'Wix'
+  | 'Package'
+  | 'SummaryInformation'
+  | 'MajorUpgrade'
+  | 'MediaTemplate'
+  | 'Icon'
+  | 'Property'
+  | 'WixVariable'
+  | 'SetProperty'
+  | 'StandardDirectory'
+  | 'Directory'
+  | 'ComponentGroup'
+  | 'Component'
+  | 'Files'
+  | 'File'
+  | 'Shortcut'
+  | 'RegistryKey'
+  | 'RegistryValue'
+  | 'RegistrySearch'
+  | 'RemoveFolder'
+  | 'RemoveFile'
+  | 'Feature'
+  | 'ComponentGroupRef'
+  | 'ui:WixUI'
+  | 'util:RemoveFolderEx';
+
+// An element of a WiX v4 .wxs source; unset attributes are left out
+export interface WixElement {
+  name: WixElementName;
+  attributes: Record<string, string | undefined>;
+  children: WixElement[];
+}
+
+export interface InstallerIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
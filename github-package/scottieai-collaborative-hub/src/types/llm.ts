@@ -3,10 +3,47 @@ import { LLMProvider } from './chat';
 // Define the types of LLM providers supported
 export type LLMProvider = 'openai' | 'anthropic' | 'cohere' | 'local';
 
+// JSON Schema for a single tool argument
+export interface ToolParameter {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  description: string;
+  enum?: string[];
+}
+
+// Function the model may call during a completion
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, ToolParameter>;
+    required?: string[];
+  };
+}
+
+// Tool invocation requested by the model
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// Output of a tool call, sent back to the model
+export interface ToolResult {
+  callId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
 // Chat message interface
 export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
+  // Set on assistant messages that request tool calls
+  toolCalls?: ToolCall[];
+  // Set on tool messages answering the preceding assistant message's calls
+  toolResults?: ToolResult[];
 }
 
 // Chat completion request interface
@@ -15,6 +52,8 @@ export interface ChatCompletionRequest {
   temperature?: number;
   maxTokens?: number;
   stream?: boolean;
+  signal?: AbortSignal;
+  tools?: ToolDefinition[];
 }
 
 // Chat completion response interface
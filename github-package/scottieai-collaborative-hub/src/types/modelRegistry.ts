@@ -0,0 +1,101 @@
+import { SupportedLanguage } from '@/utils/i18nUtils';
+import { SuiteMetrics } from './modelTesting';
+
+// Where a model version came from; built-in models ship with the app
+export type ModelSource = 'built-in' | 'trained' | 'uploaded';
+
+// How a version's artifact is stored and loaded
+export type ModelFormat = 'tfjs-layers' | 'tfjs-graph' | 'onnx';
+
+// A stage is held by at most one version of a model at a time
+export type ModelStage = 'staging' | 'production';
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export interface TensorSpec {
+  name: string;
+  // null for dimensions of any size, like the batch axis
+  shape: (number | null)[];
+  dtype: string;
+}
+
+export interface ModelSignature {
+  inputs: TensorSpec[];
+  outputs: TensorSpec[];
+}
+
+export interface TrainingDatasetReference {
+  name: string;
+  sampleCount?: number;
+  uri?: string;
+}
+
+export interface ModelVersionReference {
+  modelId: string;
+  version: string;
+}
+
+// The latest test run against a version
+export interface ModelVersionMetrics {
+  passRate: number;
+  averageInferenceTime: number;
+  suiteId?: string;
+  suiteVersion?: number;
+  metrics?: SuiteMetrics;
+  recorded: Date;
+}
+
+export interface ModelVersion {
+  id: string;
+  modelId: string;
+  // Semantic version, like 1.4.0
+  version: string;
+  name: string;
+  description: string;
+  type: string;
+  format: ModelFormat;
+  source: ModelSource;
+  // Where the artifact loads from: an app path or an indexeddb:// URL
+  artifactUri: string;
+  // The uploaded copy every device loads from; null for versions saved
+  // before uploads, which only the browser that saved them has
+  storagePath: string | null;
+  size: string;
+  capabilities: string[];
+  supportedLanguages?: SupportedLanguage[];
+  signature: ModelSignature | null;
+  trainingDataset: TrainingDatasetReference | null;
+  metrics: ModelVersionMetrics | null;
+  parent: ModelVersionReference | null;
+  stages: ModelStage[];
+  created: Date;
+}
+
+export interface RegisteredModel {
+  modelId: string;
+  name: string;
+  description: string;
+  source: ModelSource;
+  // Newest first
+  versions: ModelVersion[];
+}
+
+export interface ModelVersionDraft {
+  modelId: string;
+  name: string;
+  description?: string;
+  type?: string;
+  format?: ModelFormat;
+  source: Exclude<ModelSource, 'built-in'>;
+  artifactUri: string;
+  storagePath?: string | null;
+  // Defaults to the latest version bumped by `bump`, or 1.0.0 for a new model
+  version?: string;
+  bump?: VersionBump;
+  size?: string;
+  capabilities?: string[];
+  supportedLanguages?: SupportedLanguage[];
+  signature: ModelSignature | null;
+  trainingDataset?: TrainingDatasetReference | null;
+  parent?: ModelVersionReference | null;
+}
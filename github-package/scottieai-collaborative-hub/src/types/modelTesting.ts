@@ -0,0 +1,229 @@
+// A tensor's values as nested arrays, e.g. [[0.1, 0.2], [0.3, 0.4]] for a [2, 2] tensor
+export type TensorValues = number | TensorValues[];
+
+// Values compare equal when |actual - expected| <= absolute + relative * |expected|
+export interface TestTolerance {
+  absolute: number;
+  relative: number;
+}
+
+// Decides which metrics a suite gets
+export type ModelTask = 'classification' | 'regression';
+
+export interface ModelTestCase {
+  id: string;
+  name: string;
+  description: string;
+  input: TensorValues;
+  expectedOutput?: TensorValues;
+  category: 'performance' | 'accuracy' | 'edge-case';
+  // Overrides the suite's tolerance for this case
+  tolerance?: TestTolerance;
+}
+
+// One output value outside the tolerance
+export interface OutputMismatch {
+  // Position in the output tensor, e.g. [0, 3]
+  index: number[];
+  actual: number;
+  expected: number;
+  difference: number;
+}
+
+export interface OutputDiff {
+  actualShape: number[];
+  expectedShape: number[];
+  shapeMatches: boolean;
+  maxAbsoluteError: number;
+  meanAbsoluteError: number;
+  mismatchCount: number;
+  // The first few mismatches, in tensor order
+  mismatches: OutputMismatch[];
+  tolerance: TestTolerance;
+}
+
+export interface ModelTestResult {
+  id: string;
+  modelId: string;
+  testCaseId: string;
+  testCaseName?: string;
+  category?: ModelTestCase['category'];
+  passed: boolean;
+  timeTaken: number; // in milliseconds
+  error?: string;
+  outputTensor?: TensorValues;
+  expectedTensor?: TensorValues;
+  diff?: OutputDiff;
+}
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1Score: number;
+  // How many samples belong to the class
+  support: number;
+}
+
+export interface AveragedMetrics {
+  precision: number;
+  recall: number;
+  f1Score: number;
+}
+
+// One point on a ROC curve (x = false positive rate, y = true positive rate)
+// or a PR curve (x = recall, y = precision)
+export interface CurvePoint {
+  x: number;
+  y: number;
+  threshold: number;
+}
+
+// One-vs-rest curves for a class; area is null when the class has no positive or no negative samples
+export interface ClassCurves {
+  classIndex: number;
+  roc: CurvePoint[];
+  rocAuc: number | null;
+  pr: CurvePoint[];
+  averagePrecision: number | null;
+}
+
+export interface ClassificationMetrics {
+  classCount: number;
+  // Rows are expected classes, columns predicted ones
+  confusionMatrix: number[][];
+  accuracy: number;
+  perClass: ClassMetrics[];
+  macro: AveragedMetrics;
+  micro: AveragedMetrics;
+  // Macro average over the classes that have one; just the positive class for binary models
+  rocAuc: number | null;
+  curves: ClassCurves[];
+}
+
+export interface RegressionMetrics {
+  meanAbsoluteError: number;
+  rootMeanSquaredError: number;
+  // Null when every expected value is the same
+  rSquared: number | null;
+}
+
+// Metrics over every case of a run that has an expected output
+export interface SuiteMetrics {
+  task: ModelTask;
+  sampleCount: number;
+  classification?: ClassificationMetrics;
+  regression?: RegressionMetrics;
+}
+
+export interface BenchmarkResult {
+  modelId: string;
+  // The registered version that ran
+  modelVersion?: string;
+  averageInferenceTime: number;
+  memoryUsage: number;
+  passRate: number;
+  results: ModelTestResult[];
+  metrics?: SuiteMetrics;
+  // Set when the run used a saved suite rather than the built-in cases
+  suiteId?: string;
+  suiteVersion?: number;
+}
+
+// A user-authored set of cases for one model. Every save is kept as a new
+// version, recording the model version it was written against.
+export interface ModelTestSuite {
+  id: string;
+  version: number;
+  modelId: string;
+  modelVersion: string;
+  name: string;
+  description: string;
+  tolerance: TestTolerance;
+  // Inferred from the expected outputs when unset
+  task?: ModelTask;
+  cases: ModelTestCase[];
+  created: Date;
+}
+
+// What's saved as a suite's next version; a new suite when `id` is unset
+export interface ModelTestSuiteDraft {
+  id?: string;
+  modelId: string;
+  name: string;
+  description: string;
+  tolerance: TestTolerance;
+  task?: ModelTask;
+  cases: ModelTestCase[];
+}
+
+export interface BenchmarkOptions {
+  // Timed predictions per batch size
+  iterations: number;
+  // Untimed predictions first, so kernel compilation and caching don't skew the timings
+  warmupIterations: number;
+  batchSizes: number[];
+  // TensorFlow.js backends to compare, e.g. 'cpu', 'wasm' and 'webgl'
+  backends: string[];
+}
+
+// In milliseconds
+export interface LatencyStats {
+  mean: number;
+  min: number;
+  max: number;
+  standardDeviation: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface BatchBenchmark {
+  batchSize: number;
+  latency: LatencyStats;
+  // Samples per second
+  throughput: number;
+  // Tensors left behind by the timed predictions; anything above zero is a leak
+  leakedTensors: number;
+  memoryBytes: number;
+}
+
+export interface BackendBenchmark {
+  backend: string;
+  // False when the backend isn't registered or couldn't initialize here
+  available: boolean;
+  error?: string;
+  batches: BatchBenchmark[];
+}
+
+export interface ModelBenchmark {
+  id: string;
+  modelId: string;
+  modelVersion: string;
+  options: BenchmarkOptions;
+  backends: BackendBenchmark[];
+  created: Date;
+}
+
+export type BenchmarkMetric = 'p50' | 'p99' | 'throughput';
+
+// A measurement that got worse than the baseline by more than its threshold
+export interface BenchmarkRegression {
+  backend: string;
+  batchSize: number;
+  metric: BenchmarkMetric;
+  baseline: number;
+  current: number;
+  // Relative change in the bad direction, e.g. 0.25 for 25% slower
+  change: number;
+}
+
+export interface BenchmarkComparison {
+  baseline: ModelBenchmark;
+  regressions: BenchmarkRegression[];
+}
+
+export interface BenchmarkReport {
+  benchmark: ModelBenchmark;
+  // Null when there's no earlier benchmark of the model to compare against
+  comparison: BenchmarkComparison | null;
+}
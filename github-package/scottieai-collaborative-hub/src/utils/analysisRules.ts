@@ -0,0 +1,354 @@
+/**
+ * Static Analysis Rules
+ *
+ * The built-in rule set used by the static analyzer. Each rule inspects one
+ * extracted file at a time and reports findings with exact file paths, line
+ * numbers and, where the fix is mechanical, the code to replace them with.
+ */
+
+import { AnalysisFinding, AnalysisRule } from './staticAnalyzer';
+
+// Components longer than this are reported as candidates for splitting
+export const MAX_COMPONENT_LINES = 250;
+
+// The oldest releases the analyzer accepts without a finding. Analysis runs
+// offline, so these aren't the latest releases: the table is updated by hand,
+// here, when a dependency ships a release worth moving projects to.
+// Dependencies not listed are skipped.
+export const BASELINE_DEPENDENCY_VERSIONS: Record<string, string> = {
+  'react': '18.3.1',
+  'react-dom': '18.3.1',
+  'react-router-dom': '6.27.0',
+  'next': '14.2.15',
+  'vue': '3.5.12',
+  '@angular/core': '18.2.8',
+  'svelte': '4.2.19',
+  'electron': '33.0.2',
+  'express': '4.21.1',
+  'typescript': '5.6.3',
+  'vite': '5.4.10',
+  'webpack': '5.95.0',
+  'eslint': '9.13.0',
+  'prettier': '3.3.3',
+  'jest': '29.7.0',
+  'vitest': '2.1.3',
+  'axios': '1.7.7',
+  'lodash': '4.17.21',
+  'tailwindcss': '3.4.14',
+  'mongoose': '8.7.2',
+  'pg': '8.13.0',
+  '@tensorflow/tfjs': '4.22.0'
+};
+
+const SCRIPT_FILE_PATTERN = /\.(jsx?|tsx?|mjs|cjs)$/;
+const COMPONENT_FILE_PATTERN = /\.(jsx|tsx)$/;
+const DEPENDENCY_SECTIONS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+interface ComponentRange {
+  name: string;
+  startLine: number; // 1-based, inclusive
+  endLine: number; // 1-based, inclusive
+}
+
+const lineNumberAt = (content: string, index: number): number => {
+  return content.slice(0, index).split('\n').length;
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isIdentifierUsed = (name: string, code: string): boolean => {
+  return new RegExp(`(^|[^\\w$])${escapeRegExp(name)}([^\\w$]|$)`).test(code);
+};
+
+/**
+ * Locate React components in a file. A component is a capitalized top-level
+ * function or const whose body renders JSX; it ends at the next line that
+ * closes a top-level block.
+ */
+export const findComponents = (content: string): ComponentRange[] => {
+  const lines = content.split('\n');
+  const components: ComponentRange[] = [];
+  const declaration = /^(?:export\s+)?(?:default\s+)?(?:const|function)\s+([A-Z][\w$]*)\b/;
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(declaration);
+    if (!match) continue;
+
+    let end = i + 1;
+    while (end < lines.length && !/^[})]/.test(lines[end])) end++;
+    if (end >= lines.length) continue;
+
+    const body = lines.slice(i, end + 1).join('\n');
+    if (!/<[A-Za-z>]/.test(body)) continue;
+
+    components.push({ name: match[1], startLine: i + 1, endLine: end + 1 });
+    i = end;
+  }
+
+  return components;
+};
+
+/**
+ * Reports imported bindings that are never referenced in the file
+ */
+export const unusedImportsRule: AnalysisRule = {
+  id: 'unused-imports',
+  name: 'Unused imports',
+  appliesTo: path => SCRIPT_FILE_PATTERN.test(path),
+  analyze: file => {
+    const content = file.content;
+    const importPattern = /^import\s+(type\s+)?([^;'"]*?)\s+from\s+(['"])([^'"]+)\3(;?)/gm;
+    const findings: AnalysisFinding[] = [];
+    const imports = Array.from(content.matchAll(importPattern));
+
+    // Usages are searched in the file with every import statement blanked out
+    const codeWithoutImports = imports.reduce(
+      (code, match) => code.replace(match[0], ' '.repeat(match[0].length)),
+      content
+    );
+    const isJsxFile = COMPONENT_FILE_PATTERN.test(file.path);
+
+    for (const match of imports) {
+      const [statement, typeKeyword = '', clause, quote, source, semicolon] = match;
+      let defaultImport: string | null = null;
+      let namespaceImport: string | null = null;
+      let namedImports: string[] = [];
+
+      const namedStart = clause.indexOf('{');
+      const head = (namedStart === -1 ? clause : clause.slice(0, namedStart)).replace(/,\s*$/, '').trim();
+
+      if (namedStart !== -1) {
+        namedImports = clause
+          .slice(namedStart + 1, clause.lastIndexOf('}'))
+          .split(',')
+          .map(specifier => specifier.trim())
+          .filter(Boolean);
+      }
+
+      for (const part of head.split(',').map(item => item.trim()).filter(Boolean)) {
+        const namespace = part.match(/^\*\s+as\s+([\w$]+)$/);
+        if (namespace) namespaceImport = namespace[1];
+        else defaultImport = part;
+      }
+
+      // The classic JSX runtime needs React in scope even when it is not referenced
+      const isUsed = (name: string) =>
+        (isJsxFile && name === 'React') || isIdentifierUsed(name, codeWithoutImports);
+      const localName = (specifier: string) => specifier.replace(/^type\s+/, '').split(/\s+as\s+/).pop().trim();
+
+      const unused = [
+        ...(defaultImport && !isUsed(defaultImport) ? [defaultImport] : []),
+        ...(namespaceImport && !isUsed(namespaceImport) ? [namespaceImport] : []),
+        ...namedImports.map(localName).filter(name => !isUsed(name))
+      ];
+      if (unused.length === 0) continue;
+
+      const keptParts: string[] = [];
+      if (defaultImport && isUsed(defaultImport)) keptParts.push(defaultImport);
+      if (namespaceImport && isUsed(namespaceImport)) keptParts.push(`* as ${namespaceImport}`);
+      const keptNamed = namedImports.filter(specifier => isUsed(localName(specifier)));
+      if (keptNamed.length > 0) keptParts.push(`{ ${keptNamed.join(', ')} }`);
+
+      const suggestedCode = keptParts.length > 0
+        ? `import ${typeKeyword}${keptParts.join(', ')} from ${quote}${source}${quote}${semicolon}`
+        : '';
+      const startLine = lineNumberAt(content, match.index);
+
+      findings.push({
+        title: `Remove unused import${unused.length > 1 ? 's' : ''} from '${source}'`,
+        description: `${unused.join(', ')} ${unused.length > 1 ? 'are' : 'is'} imported but never used in ${file.path}.`,
+        severity: 'low',
+        category: 'best-practice',
+        currentCode: statement,
+        suggestedCode,
+        filePath: file.path,
+        lineNumbers: [startLine, startLine + statement.split('\n').length - 1],
+        estimatedEffort: 'minimal',
+        benefits: ['Smaller bundles when the module has side-effect-free exports', 'Less noise when reading the file'],
+        risks: ['Modules imported only for their side effects must keep a bare import']
+      });
+    }
+
+    return findings;
+  }
+};
+
+/**
+ * Reports React components that have grown beyond MAX_COMPONENT_LINES
+ */
+export const oversizedComponentRule: AnalysisRule = {
+  id: 'oversized-component',
+  name: 'Oversized React components',
+  appliesTo: path => COMPONENT_FILE_PATTERN.test(path),
+  analyze: file => {
+    const lines = file.content.split('\n');
+
+    return findComponents(file.content)
+      .filter(component => component.endLine - component.startLine + 1 > MAX_COMPONENT_LINES)
+      .map(component => ({
+        title: `Split the ${component.name} component`,
+        description: `${component.name} spans ${component.endLine - component.startLine + 1} lines. Components over ${MAX_COMPONENT_LINES} lines are hard to test and re-render more than they need to; extract self-contained sections into child components.`,
+        severity: 'medium' as const,
+        category: 'best-practice' as const,
+        currentCode: lines[component.startLine - 1],
+        filePath: file.path,
+        lineNumbers: [component.startLine, component.endLine] as [number, number],
+        estimatedEffort: 'significant' as const,
+        benefits: ['Smaller, independently testable units', 'Narrower re-render scope'],
+        risks: ['Shared state may need to be lifted or passed through props']
+      }));
+  }
+};
+
+/**
+ * Reports derived collections recomputed on every render without useMemo
+ */
+export const missingMemoizationRule: AnalysisRule = {
+  id: 'missing-memoization',
+  name: 'Missing memoization',
+  appliesTo: path => COMPONENT_FILE_PATTERN.test(path),
+  analyze: file => {
+    const lines = file.content.split('\n');
+    const findings: AnalysisFinding[] = [];
+    const derivedCollection = /^(\s*)const\s+([\w$]+)\s*=\s*(.+\.(?:filter|sort|reduce|map)\(.*\));\s*$/;
+    const hasUseMemoImport = /import[^;]*\buseMemo\b[^;]*from\s+['"]react['"]/.test(file.content);
+
+    for (const component of findComponents(file.content)) {
+      // Only statements at the top level of the component body are recomputed per render
+      const bodyLine = lines.slice(component.startLine, component.endLine).find(line => line.trim());
+      const bodyIndent = bodyLine ? bodyLine.match(/^\s*/)[0] : '';
+
+      for (let i = component.startLine; i < component.endLine - 1; i++) {
+        const match = lines[i].match(derivedCollection);
+        if (!match || match[1] !== bodyIndent) continue;
+
+        const [, indent, name, expression] = match;
+        if (/^use[A-Z]/.test(expression)) continue;
+
+        const dependency = expression.match(/^([a-z_$][\w$]*(?:\.[\w$]+)*?)\.(?:filter|sort|reduce|map|slice|concat)\(/);
+        if (!dependency) continue;
+
+        findings.push({
+          title: `Memoize ${name} in ${component.name}`,
+          description: `${name} is rebuilt from ${dependency[1]} on every render of ${component.name}. Wrapping it in useMemo recomputes it only when ${dependency[1]} changes.${hasUseMemoImport ? '' : ' useMemo must also be imported from react.'}`,
+          severity: 'low',
+          category: 'performance',
+          currentCode: lines[i],
+          suggestedCode: `${indent}const ${name} = useMemo(() => ${expression}, [${dependency[1]}]);`,
+          filePath: file.path,
+          lineNumbers: [i + 1, i + 1],
+          estimatedEffort: 'minimal',
+          benefits: ['Fewer recomputations on unrelated state changes', 'Stable references for memoized children'],
+          risks: ['The dependency array must list every value the computation reads']
+        });
+      }
+    }
+
+    return findings;
+  }
+};
+
+/**
+ * Reports package.json dependency ranges older than the known baseline release
+ */
+export const outdatedDependencyRule: AnalysisRule = {
+  id: 'outdated-dependency',
+  name: 'Dependencies older than the known baseline',
+  appliesTo: path => path.split('/').pop() === 'package.json',
+  analyze: (file, context) => {
+    const manifest = JSON.parse(file.content);
+    const lines = file.content.split('\n');
+    const findings: AnalysisFinding[] = [];
+
+    for (const section of DEPENDENCY_SECTIONS) {
+      for (const [name, range] of Object.entries<string>(manifest[section] || {})) {
+        const baseline = BASELINE_DEPENDENCY_VERSIONS[name];
+        if (!baseline || context.settings.excludedDependencies.includes(name)) continue;
+
+        const assessment = assessRange(range, baseline);
+        if (!assessment) continue;
+
+        const linePattern = new RegExp(`^\\s*"${escapeRegExp(name)}"\\s*:\\s*"${escapeRegExp(range)}"`);
+        const lineIndex = lines.findIndex(line => linePattern.test(line));
+        if (lineIndex === -1) continue;
+
+        findings.push({
+          title: `Update ${name} to at least ${baseline}`,
+          description: `${section}.${name} is declared as "${range}", ${assessment.reason}`,
+          severity: assessment.severity,
+          category: 'dependency',
+          currentCode: lines[lineIndex],
+          suggestedCode: lines[lineIndex].replace(`"${range}"`, `"${assessment.suggestedRange}"`),
+          filePath: file.path,
+          lineNumbers: [lineIndex + 1, lineIndex + 1],
+          estimatedEffort: assessment.severity === 'low' ? 'minimal' : 'moderate',
+          benefits: ['Bug fixes and security patches from newer releases; check npm for releases after the baseline'],
+          risks: assessment.severity === 'low'
+            ? ['Minor releases occasionally change undocumented behavior']
+            : [`Major version updates of ${name} may contain breaking changes`]
+        });
+      }
+    }
+
+    return findings;
+  }
+};
+
+const assessRange = (
+  range: string,
+  baseline: string
+): { severity: AnalysisFinding['severity']; reason: string; suggestedRange: string } | null => {
+  const trimmed = range.trim();
+
+  if (trimmed === '*' || trimmed === 'latest' || trimmed === 'x' || trimmed === '') {
+    return {
+      severity: 'medium',
+      reason: 'which accepts any version and makes installs unreproducible.',
+      suggestedRange: `^${baseline}`
+    };
+  }
+
+  // Workspace, git, file and URL specifiers are left alone
+  const version = trimmed.match(/^([\^~]|>=|=)?\s*v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?/);
+  if (!version) return null;
+
+  const [, operator = '', majorText, minorText, patchText] = version;
+  const [baselineMajor, baselineMinor, baselinePatch] = baseline.split('.').map(Number);
+  const major = Number(majorText);
+  const minor = minorText && /^\d+$/.test(minorText) ? Number(minorText) : null;
+  const patch = patchText && /^\d+$/.test(patchText) ? Number(patchText) : null;
+
+  if (operator === '>=') return null;
+
+  if (major < baselineMajor) {
+    return {
+      severity: baselineMajor - major >= 2 ? 'high' : 'medium',
+      reason: `${baselineMajor - major} major version(s) older than the known baseline ${baseline}.`,
+      suggestedRange: `^${baseline}`
+    };
+  }
+
+  // Caret ranges already resolve to the newest release of the same major,
+  // tilde ranges to the newest patch of the same minor
+  const isExactPin = operator === '' || operator === '=';
+  const behindMinor = minor !== null && minor < baselineMinor;
+  const behindPatch = isExactPin && minor === baselineMinor && patch !== null && patch < baselinePatch;
+
+  if (operator !== '^' && major === baselineMajor && (behindMinor || behindPatch)) {
+    return {
+      severity: 'low',
+      reason: `which pins a release older than the known baseline ${baseline}.`,
+      suggestedRange: `${operator}${baseline}`
+    };
+  }
+
+  return null;
+};
+
+// Rules run by analyzeProjectCode when no custom rule set is given
+export const defaultAnalysisRules: AnalysisRule[] = [
+  unusedImportsRule,
+  oversizedComponentRule,
+  missingMemoizationRule,
+  outdatedDependencyRule
+];
@@ -0,0 +1,259 @@
+/**
+ * Archive Utilities
+ *
+ * Unpacks uploaded code packages (.zip, .tar and .tar.gz) entirely in the
+ * browser so their contents can be inspected without a server round trip.
+ */
+
+import JSZip from 'jszip';
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz' | 'rar' | '7z';
+
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  isBinary: boolean;
+  // Decoded text for source files; null for binaries, vendored folders and oversized files
+  content: string | null;
+}
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  size: number;
+  children?: FileTreeNode[];
+}
+
+// Formats that can be unpacked in the browser
+export const EXTRACTABLE_FORMATS: ArchiveFormat[] = ['zip', 'tar', 'tar.gz'];
+
+// Directories whose contents are listed but never decoded
+export const VENDORED_DIRECTORIES = ['node_modules', '.git', 'vendor', 'target', '__pycache__', '.venv', 'venv'];
+
+// Files larger than this are listed without their content
+const MAX_TEXT_FILE_SIZE = 1024 * 1024; // 1MB
+
+// Number of leading bytes inspected when sniffing for binary content
+const BINARY_SNIFF_LENGTH = 8000;
+
+/**
+ * Determine the archive format from a file name
+ */
+export const getArchiveFormat = (fileName: string): ArchiveFormat | null => {
+  const lowerName = fileName.toLowerCase();
+
+  if (lowerName.endsWith('.tar.gz') || lowerName.endsWith('.tgz')) return 'tar.gz';
+  if (lowerName.endsWith('.tar')) return 'tar';
+  if (lowerName.endsWith('.zip')) return 'zip';
+  if (lowerName.endsWith('.rar')) return 'rar';
+  if (lowerName.endsWith('.7z')) return '7z';
+  return null;
+};
+
+/**
+ * Check whether an archive can be unpacked in the browser
+ */
+export const isExtractableArchive = (fileName: string): boolean => {
+  const format = getArchiveFormat(fileName);
+  return format !== null && EXTRACTABLE_FORMATS.includes(format);
+};
+
+/**
+ * Check whether a path lives inside a vendored or generated directory
+ */
+export const isVendoredPath = (path: string): boolean => {
+  return path.split('/').some(segment => VENDORED_DIRECTORIES.includes(segment));
+};
+
+/**
+ * Unpack an archive into a flat list of file entries
+ */
+export const extractArchive = async (
+  data: Blob | ArrayBuffer,
+  fileName: string
+): Promise<ArchiveEntry[]> => {
+  const files = await readArchiveFiles(data, fileName);
+  return files.map(({ path, bytes }) => createEntry(path, bytes));
+};
+
+/**
+ * Re-pack an archive as a zip, replacing or removing the given files.
+ * A null change removes the file; binary and vendored files are carried over untouched.
+ */
+export const repackArchive = async (
+  data: Blob | ArrayBuffer,
+  fileName: string,
+  changes: Record<string, string | null>
+): Promise<Blob> => {
+  const files = await readArchiveFiles(data, fileName);
+  const zip = new JSZip();
+
+  for (const { path, bytes } of files) {
+    if (path in changes) continue;
+    zip.file(path, bytes);
+  }
+
+  for (const [path, content] of Object.entries(changes)) {
+    if (content !== null) zip.file(path, content);
+  }
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+/**
+ * Unpack an archive keeping every file's raw bytes, binaries included
+ */
+export const readArchiveFiles = async (
+  data: Blob | ArrayBuffer,
+  fileName: string
+): Promise<{ path: string; bytes: Uint8Array }[]> => {
+  const format = getArchiveFormat(fileName);
+  const buffer = data instanceof ArrayBuffer ? data : await data.arrayBuffer();
+
+  switch (format) {
+    case 'zip':
+      return readZip(buffer);
+    case 'tar':
+      return readTar(new Uint8Array(buffer));
+    case 'tar.gz':
+      return readTar(await gunzip(buffer));
+    default:
+      throw new Error(`Unsupported archive format: ${fileName}`);
+  }
+};
+
+/**
+ * Build a nested directory tree from flat archive entries
+ */
+export const buildFileTree = (entries: ArchiveEntry[]): FileTreeNode[] => {
+  const root: FileTreeNode = { name: '', path: '', type: 'directory', size: 0, children: [] };
+
+  for (const entry of entries) {
+    const segments = entry.path.split('/');
+    let current = root;
+
+    segments.forEach((segment, index) => {
+      const isFile = index === segments.length - 1;
+      const path = segments.slice(0, index + 1).join('/');
+      current.size += isFile ? entry.size : 0;
+
+      let child = current.children.find(node => node.name === segment);
+      if (!child) {
+        child = isFile
+          ? { name: segment, path, type: 'file', size: entry.size }
+          : { name: segment, path, type: 'directory', size: 0, children: [] };
+        current.children.push(child);
+      }
+      current = child;
+    });
+  }
+
+  sortTree(root.children);
+  return root.children;
+};
+
+// Directories first, then alphabetical
+const sortTree = (nodes: FileTreeNode[]): void => {
+  nodes.sort((a, b) => {
+    if (a.type !== b.type) return a.type === 'directory' ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+  nodes.forEach(node => node.children && sortTree(node.children));
+};
+
+const readZip = async (buffer: ArrayBuffer): Promise<{ path: string; bytes: Uint8Array }[]> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const entries: { path: string; bytes: Uint8Array }[] = [];
+
+  for (const zipEntry of Object.values(zip.files)) {
+    if (zipEntry.dir) continue;
+
+    const path = normalizePath(zipEntry.name);
+    if (!path) continue;
+
+    entries.push({ path, bytes: await zipEntry.async('uint8array') });
+  }
+
+  return entries;
+};
+
+const readTar = (bytes: Uint8Array): { path: string; bytes: Uint8Array }[] => {
+  const entries: { path: string; bytes: Uint8Array }[] = [];
+  let offset = 0;
+  let pendingLongName: string | null = null;
+
+  while (offset + 512 <= bytes.length) {
+    const header = bytes.subarray(offset, offset + 512);
+
+    // Two zero blocks mark the end of the archive
+    if (header.every(byte => byte === 0)) break;
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const typeFlag = String.fromCharCode(header[156]);
+    const dataStart = offset + 512;
+    const data = bytes.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / 512) * 512;
+
+    if (typeFlag === 'L') {
+      // GNU long name: the data block holds the name of the next entry
+      pendingLongName = readString(data, 0, data.length);
+      continue;
+    }
+
+    if (typeFlag === 'x') {
+      // PAX extended header: only the path override matters here
+      const pathMatch = new TextDecoder().decode(data).match(/\d+ path=([^\n]*)\n/);
+      if (pathMatch) pendingLongName = pathMatch[1];
+      continue;
+    }
+
+    if (typeFlag === 'g') continue;
+
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const fullName = pendingLongName ?? (prefix ? `${prefix}/${name}` : name);
+    pendingLongName = null;
+
+    // Only regular files carry content
+    if (typeFlag !== '0' && typeFlag !== '\0') continue;
+
+    const path = normalizePath(fullName);
+    if (!path) continue;
+
+    entries.push({ path, bytes: data });
+  }
+
+  return entries;
+};
+
+const gunzip = async (buffer: ArrayBuffer): Promise<Uint8Array> => {
+  const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readString = (bytes: Uint8Array, start: number, length: number): string => {
+  const slice = bytes.subarray(start, start + length);
+  const end = slice.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? slice : slice.subarray(0, end));
+};
+
+const normalizePath = (path: string): string => {
+  return path
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/');
+};
+
+const createEntry = (path: string, bytes: Uint8Array): ArchiveEntry => {
+  const isBinary = bytes.subarray(0, BINARY_SNIFF_LENGTH).includes(0);
+  const shouldDecode = !isBinary && bytes.length <= MAX_TEXT_FILE_SIZE && !isVendoredPath(path);
+
+  return {
+    path,
+    size: bytes.length,
+    isBinary,
+    content: shouldDecode ? new TextDecoder().decode(bytes) : null
+  };
+};
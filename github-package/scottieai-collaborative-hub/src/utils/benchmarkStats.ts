@@ -0,0 +1,88 @@
+/**
+ * Benchmark Statistics
+ *
+ * Latency percentiles and the comparison between a benchmark and the one
+ * before it. Tail latencies are noisier than the median, so they're allowed
+ * to drift further before a change counts as a regression.
+ */
+import { BenchmarkMetric, BenchmarkRegression, LatencyStats, ModelBenchmark } from '@/types/modelTesting';
+
+// How much worse a measurement can get before it's reported
+export const REGRESSION_THRESHOLDS: Record<BenchmarkMetric, number> = {
+  p50: 0.1,
+  p99: 0.25,
+  throughput: 0.1
+};
+
+/**
+ * The value below which `fraction` of the values fall, interpolating between
+ * the closest ranks like NumPy's default
+ */
+export const percentile = (values: number[], fraction: number): number => {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (sorted.length - 1) * fraction;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export const summarizeLatencies = (times: number[]): LatencyStats => {
+  const mean = times.length > 0 ? times.reduce((sum, time) => sum + time, 0) / times.length : 0;
+  const variance = times.length > 0 ? times.reduce((sum, time) => sum + (time - mean) ** 2, 0) / times.length : 0;
+
+  return {
+    mean,
+    min: times.length > 0 ? Math.min(...times) : 0,
+    max: times.length > 0 ? Math.max(...times) : 0,
+    standardDeviation: Math.sqrt(variance),
+    p50: percentile(times, 0.5),
+    p90: percentile(times, 0.9),
+    p99: percentile(times, 0.99)
+  };
+};
+
+/**
+ * The benchmark to compare against: the newest one of an earlier model
+ * version, or the previous run of this version when there's none
+ */
+export const findBaseline = (history: ModelBenchmark[], current: ModelBenchmark): ModelBenchmark | null => {
+  const earlier = history
+    .filter(benchmark => benchmark.id !== current.id && benchmark.created.getTime() <= current.created.getTime())
+    .sort((a, b) => b.created.getTime() - a.created.getTime());
+
+  return earlier.find(benchmark => benchmark.modelVersion !== current.modelVersion) || earlier[0] || null;
+};
+
+/**
+ * Measurements that got worse than the baseline's by more than their
+ * threshold, for each backend and batch size both benchmarks ran
+ */
+export const compareBenchmarks = (baseline: ModelBenchmark, current: ModelBenchmark): BenchmarkRegression[] => {
+  const regressions: BenchmarkRegression[] = [];
+
+  current.backends.filter(backend => backend.available).forEach(backend => {
+    const baselineBackend = baseline.backends.find(entry => entry.backend === backend.backend && entry.available);
+    if (!baselineBackend) return;
+
+    backend.batches.forEach(batch => {
+      const baselineBatch = baselineBackend.batches.find(entry => entry.batchSize === batch.batchSize);
+      if (!baselineBatch) return;
+
+      const changes: [BenchmarkMetric, number, number, number][] = [
+        ['p50', baselineBatch.latency.p50, batch.latency.p50, batch.latency.p50 / baselineBatch.latency.p50 - 1],
+        ['p99', baselineBatch.latency.p99, batch.latency.p99, batch.latency.p99 / baselineBatch.latency.p99 - 1],
+        ['throughput', baselineBatch.throughput, batch.throughput, 1 - batch.throughput / baselineBatch.throughput]
+      ];
+
+      changes.forEach(([metric, baselineValue, currentValue, change]) => {
+        if (baselineValue > 0 && change > REGRESSION_THRESHOLDS[metric]) {
+          regressions.push({ backend: backend.backend, batchSize: batch.batchSize, metric, baseline: baselineValue, current: currentValue, change });
+        }
+      });
+    });
+  });
+
+  return regressions;
+};
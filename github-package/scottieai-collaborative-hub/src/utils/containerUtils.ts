@@ -0,0 +1,302 @@
+/**
+ * Container Utilities
+ *
+ * Generates the files that turn a project into a container image: a
+ * multi-stage Dockerfile for the detected stack, a .dockerignore, a compose
+ * file carrying the project's environment, and a /healthz endpoint.
+ */
+
+import { EnvironmentVariable } from '@/types/deployment';
+import { ContainerStack, PackageManager } from '@/types/export';
+import { detectFramework } from './deploymentUtils';
+
+export const HEALTH_CHECK_PATH = '/healthz';
+
+// Build tools inline these into the client bundle, so they are needed while building
+const BUILD_TIME_PREFIXES = ['VITE_', 'NEXT_PUBLIC_', 'REACT_APP_', 'VUE_APP_'];
+
+const LOCKFILES: Record<PackageManager, string> = {
+  npm: 'package-lock.json',
+  yarn: 'yarn.lock',
+  pnpm: 'pnpm-lock.yaml'
+};
+
+interface SourceFile {
+  path: string;
+  bytes: Uint8Array;
+}
+
+const readJson = (files: SourceFile[], path: string): Record<string, unknown> | null => {
+  const file = files.find(entry => entry.path === path);
+  if (!file) return null;
+  try {
+    return JSON.parse(new TextDecoder().decode(file.bytes));
+  } catch {
+    return null;
+  }
+};
+
+// Angular writes to dist/<project>, and Create React App to build/
+const detectOutputDirectory = (framework: string, files: SourceFile[], packageJson: Record<string, unknown>): string => {
+  if (framework === 'angular') {
+    const projects = (readJson(files, 'angular.json')?.projects || {}) as Record<string, { architect?: { build?: { options?: { outputPath?: unknown } } } }>;
+    const outputPath = Object.values(projects)[0]?.architect?.build?.options?.outputPath;
+    return typeof outputPath === 'string' ? outputPath : 'dist';
+  }
+
+  const dependencies = { ...(packageJson.dependencies as object), ...(packageJson.devDependencies as object) };
+  return 'react-scripts' in dependencies ? 'build' : 'dist';
+};
+
+/**
+ * Work out how to build and serve a project from its technologies and files
+ */
+export const detectContainerStack = (technologies: string[], files: SourceFile[]): ContainerStack => {
+  const packageJson = readJson(files, 'package.json');
+  const paths = new Set(files.map(file => file.path));
+  const packageManager = (Object.keys(LOCKFILES) as PackageManager[]).find(manager => paths.has(LOCKFILES[manager])) || 'npm';
+
+  if (!packageJson) {
+    return { framework: 'static', runtime: 'nginx', packageManager, hasLockfile: false, outputDirectory: '.', port: 8080 };
+  }
+
+  const framework = detectFramework(technologies);
+  const isServerRendered = framework === 'nextjs';
+
+  return {
+    framework,
+    runtime: isServerRendered ? 'node' : 'nginx',
+    packageManager,
+    hasLockfile: paths.has(LOCKFILES[packageManager]),
+    outputDirectory: isServerRendered ? '.next' : detectOutputDirectory(framework, files, packageJson),
+    port: isServerRendered ? 3000 : 8080
+  };
+};
+
+export const isBuildTimeVariable = (key: string): boolean => {
+  return BUILD_TIME_PREFIXES.some(prefix => key.startsWith(prefix));
+};
+
+const installCommand = (stack: ContainerStack): string => {
+  switch (stack.packageManager) {
+    case 'yarn': return `yarn install${stack.hasLockfile ? ' --frozen-lockfile' : ''}`;
+    case 'pnpm': return `pnpm install${stack.hasLockfile ? ' --frozen-lockfile' : ''}`;
+    default: return stack.hasLockfile ? 'npm ci' : 'npm install';
+  }
+};
+
+const pruneCommand = (stack: ContainerStack): string => {
+  switch (stack.packageManager) {
+    case 'yarn': return 'yarn install --production --ignore-scripts --prefer-offline';
+    case 'pnpm': return 'pnpm prune --prod';
+    default: return 'npm prune --omit=dev';
+  }
+};
+
+const runScript = (stack: ContainerStack, script: string): string => {
+  return stack.packageManager === 'npm' ? `npm run ${script}` : `${stack.packageManager} ${script}`;
+};
+
+const healthCheckInstruction = (port: number): string => (
+  `HEALTHCHECK --interval=30s --timeout=5s --start-period=15s --retries=3 \\\n` +
+  `  CMD wget -qO- http://127.0.0.1:${port}${HEALTH_CHECK_PATH} || exit 1`
+);
+
+/**
+ * Generate a multi-stage Dockerfile: dependencies, build, then a slim runtime
+ * image. Build-time variables are taken as build arguments. The deps and build
+ * stages share a base where corepack provides the project's pinned Yarn or pnpm.
+ */
+export const generateDockerfile = (stack: ContainerStack, nodeVersion: string, buildArgs: string[] = []): string => {
+  const nodeImage = `node:${nodeVersion}-alpine`;
+
+  if (stack.framework === 'static') {
+    return [
+      '# syntax=docker/dockerfile:1',
+      '',
+      'FROM nginx:1.27-alpine AS runtime',
+      'COPY docker/nginx.conf /etc/nginx/conf.d/default.conf',
+      'COPY . /usr/share/nginx/html',
+      `EXPOSE ${stack.port}`,
+      healthCheckInstruction(stack.port),
+      ''
+    ].join('\n');
+  }
+
+  const lockfile = LOCKFILES[stack.packageManager];
+  const lines = [
+    '# syntax=docker/dockerfile:1',
+    '',
+    `FROM ${nodeImage} AS base`,
+    ...(stack.packageManager === 'npm' ? [] : ['RUN corepack enable']),
+    'WORKDIR /app',
+    '',
+    'FROM base AS deps',
+    `COPY package.json ${stack.hasLockfile ? lockfile : ''}`.trim() + ' ./',
+    `RUN ${installCommand(stack)}`,
+    '',
+    'FROM base AS build',
+    'COPY --from=deps /app/node_modules ./node_modules',
+    'COPY . .',
+    ...buildArgs.flatMap(key => [`ARG ${key}`, `ENV ${key}=$${key}`]),
+    `RUN ${runScript(stack, 'build')}`
+  ];
+
+  if (stack.runtime === 'node') {
+    lines.push(
+      `RUN ${pruneCommand(stack)}`,
+      '',
+      `FROM ${nodeImage} AS runtime`,
+      'WORKDIR /app',
+      'ENV NODE_ENV=production',
+      `ENV PORT=${stack.port}`,
+      'COPY --from=build --chown=node:node /app ./',
+      'USER node',
+      `EXPOSE ${stack.port}`,
+      healthCheckInstruction(stack.port),
+      'CMD ["node", "docker/server.cjs"]',
+      ''
+    );
+  } else {
+    lines.push(
+      '',
+      'FROM nginx:1.27-alpine AS runtime',
+      'COPY docker/nginx.conf /etc/nginx/conf.d/default.conf',
+      `COPY --from=build /app/${stack.outputDirectory.replace(/^\.?\/+|\/+$/g, '')} /usr/share/nginx/html`,
+      `EXPOSE ${stack.port}`,
+      healthCheckInstruction(stack.port),
+      ''
+    );
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * nginx site for built assets: the health endpoint, long-lived caching for
+ * static files and index.html for client-side routes
+ */
+export const generateNginxConfig = (stack: ContainerStack): string => `server {
+    listen ${stack.port};
+    root /usr/share/nginx/html;
+    index index.html;
+
+    location = ${HEALTH_CHECK_PATH} {
+        access_log off;
+        default_type application/json;
+        return 200 '{"status":"ok"}';
+    }
+
+    location ~* \\.(?:js|css|png|jpe?g|gif|svg|ico|webp|woff2?)$ {
+        expires 1y;
+        add_header Cache-Control "public, immutable";
+        try_files $uri =404;
+    }
+
+    location / {
+        try_files $uri $uri/ /index.html;
+    }
+}
+`;
+
+/**
+ * Next.js server with the health endpoint in front of the app's own routes.
+ * CommonJS, so it runs whatever module type the project uses.
+ */
+export const generateNodeServer = (): string => `const http = require('http');
+const next = require('next');
+
+const port = parseInt(process.env.PORT || '3000', 10);
+const app = next({ dev: false, dir: process.cwd() });
+const handle = app.getRequestHandler();
+
+app.prepare().then(() => {
+  http.createServer((req, res) => {
+    if (req.url === '${HEALTH_CHECK_PATH}') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', uptime: process.uptime() }));
+      return;
+    }
+    handle(req, res);
+  }).listen(port, '0.0.0.0', () => {
+    console.log(\`Listening on port \${port}\`);
+  });
+});
+`;
+
+export const generateDockerignore = (stack: ContainerStack): string => [
+  'node_modules',
+  '.git',
+  '.gitignore',
+  '.env',
+  '.env.*',
+  '!.env.example',
+  'npm-debug.log*',
+  'yarn-error.log*',
+  'coverage',
+  'Dockerfile',
+  '.dockerignore',
+  'docker-compose.yml',
+  // Built output is recreated inside the image
+  ...(stack.framework === 'static' ? [] : [stack.outputDirectory.replace(/^\.?\/+|\/+$/g, '')]),
+  ''
+].join('\n');
+
+// Compose reads `$` as interpolation, so literal values escape it
+const composeValue = (variable: EnvironmentVariable): string => {
+  if (variable.secret) return JSON.stringify(`\${${variable.key}}`);
+  return JSON.stringify(variable.value.replace(/\$/g, '$$$$'));
+};
+
+/**
+ * Compose file for running the image locally. Secret values are never written;
+ * they are read from a .env file next to it, as listed in .env.example.
+ */
+export const generateComposeFile = (
+  serviceName: string,
+  stack: ContainerStack,
+  variables: EnvironmentVariable[],
+  hostPort: number
+): string => {
+  const buildArgs = stack.framework === 'static' ? [] : variables.filter(variable => isBuildTimeVariable(variable.key));
+  const lines = [
+    'services:',
+    `  ${serviceName}:`,
+    '    build:',
+    '      context: .'
+  ];
+
+  if (buildArgs.length > 0) {
+    lines.push('      args:', ...buildArgs.map(variable => `        ${variable.key}: ${composeValue(variable)}`));
+  }
+
+  lines.push(
+    `    image: ${serviceName}:latest`,
+    '    restart: unless-stopped',
+    '    ports:',
+    `      - "${hostPort}:${stack.port}"`
+  );
+
+  if (variables.length > 0) {
+    lines.push('    environment:', ...variables.map(variable => `      ${variable.key}: ${composeValue(variable)}`));
+  }
+
+  lines.push(
+    '    healthcheck:',
+    `      test: ["CMD", "wget", "-qO-", "http://127.0.0.1:${stack.port}${HEALTH_CHECK_PATH}"]`,
+    '      interval: 30s',
+    '      timeout: 5s',
+    '      retries: 3',
+    '      start_period: 15s',
+    ''
+  );
+
+  return lines.join('\n');
+};
+
+/**
+ * Name usable as a compose service and image, e.g. "My App!" -> "my-app"
+ */
+export const toServiceName = (projectName: string): string => {
+  return projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'app';
+};
@@ -0,0 +1,357 @@
+/**
+ * Diff Utilities
+ *
+ * Line-based diffing (Myers algorithm) and unified diff formatting for
+ * project files.
+ */
+
+import { ArchiveEntry, isVendoredPath } from './archiveUtils';
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  content: string;
+  oldLine?: number; // 1-based, absent for additions
+  newLine?: number; // 1-based, absent for removals
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  filePath: string;
+  status: 'added' | 'removed' | 'modified';
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+  // Set when either side has no decoded content; such diffs carry no hunks
+  isBinary?: boolean;
+  // Set for lockfiles, generated files and files too large to diff line by
+  // line; such diffs carry no hunks either
+  isLarge?: boolean;
+}
+
+// Number of unchanged lines shown around each change
+const DEFAULT_CONTEXT_LINES = 3;
+
+// Changes needing more inserted plus removed lines are shown as one replacement
+const MAX_EDIT_DISTANCE = 1000;
+
+// Revision diffs summarize files larger than this instead of diffing them
+const MAX_DIFF_FILE_SIZE = 256 * 1024;
+
+// Lockfiles, minified bundles and source maps are regenerated, not edited
+const GENERATED_FILE_PATTERNS = [
+  /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?|composer\.lock|Cargo\.lock|Gemfile\.lock|poetry\.lock|Pipfile\.lock|go\.sum)$/,
+  /\.min\.(js|css)$/,
+  /\.map$/
+];
+
+/**
+ * Check whether a file is generated by tooling, so its diff is noise
+ */
+export const isGeneratedPath = (path: string): boolean => {
+  return GENERATED_FILE_PATTERNS.some(pattern => pattern.test(path));
+};
+
+export const splitLines = (text: string): string[] => {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  // A trailing newline terminates the last line rather than starting a new one
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+/**
+ * Compute a line-level edit script between two texts
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  // Common prefix and suffix are trimmed before running the O(ND) search
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = [];
+
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'context', content: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const middle = myersDiff(
+    oldLines.slice(prefix, oldLines.length - suffix),
+    newLines.slice(prefix, newLines.length - suffix)
+  );
+
+  for (const line of middle) {
+    result.push({
+      ...line,
+      oldLine: line.oldLine !== undefined ? line.oldLine + prefix : undefined,
+      newLine: line.newLine !== undefined ? line.newLine + prefix : undefined
+    });
+  }
+
+  for (let i = suffix; i > 0; i--) {
+    result.push({
+      type: 'context',
+      content: oldLines[oldLines.length - i],
+      oldLine: oldLines.length - i + 1,
+      newLine: newLines.length - i + 1
+    });
+  }
+
+  return result;
+};
+
+/**
+ * Build a file diff grouped into hunks with surrounding context
+ */
+export const createFileDiff = (
+  filePath: string,
+  oldText: string | null,
+  newText: string | null,
+  contextLines: number = DEFAULT_CONTEXT_LINES
+): FileDiff => {
+  const lines = diffLines(oldText ?? '', newText ?? '');
+  const status = oldText === null ? 'added' : newText === null ? 'removed' : 'modified';
+
+  return {
+    filePath,
+    status,
+    hunks: groupHunks(lines, contextLines),
+    additions: lines.filter(line => line.type === 'add').length,
+    deletions: lines.filter(line => line.type === 'remove').length
+  };
+};
+
+/**
+ * Diff two sets of extracted files, such as two revisions of a project.
+ * Vendored directories are ignored; unchanged files are left out. Generated
+ * and oversized files are only reported as changed.
+ */
+export const diffFileSets = (oldFiles: ArchiveEntry[], newFiles: ArchiveEntry[]): FileDiff[] => {
+  const oldByPath = new Map(oldFiles.map(file => [file.path, file]));
+  const newByPath = new Map(newFiles.map(file => [file.path, file]));
+  const paths = [...new Set([...oldByPath.keys(), ...newByPath.keys()])]
+    .filter(path => !isVendoredPath(path))
+    .sort();
+  const diffs: FileDiff[] = [];
+
+  for (const path of paths) {
+    const oldFile = oldByPath.get(path);
+    const newFile = newByPath.get(path);
+
+    if ((oldFile && oldFile.content === null) || (newFile && newFile.content === null)) {
+      // Without decoded content only presence and size can be compared
+      if (oldFile && newFile && oldFile.size === newFile.size) continue;
+      diffs.push({
+        filePath: path,
+        status: !oldFile ? 'added' : !newFile ? 'removed' : 'modified',
+        hunks: [],
+        additions: 0,
+        deletions: 0,
+        isBinary: true
+      });
+      continue;
+    }
+
+    if (oldFile && newFile && oldFile.content === newFile.content) continue;
+
+    if (isGeneratedPath(path) || Math.max(oldFile?.size ?? 0, newFile?.size ?? 0) > MAX_DIFF_FILE_SIZE) {
+      diffs.push({
+        filePath: path,
+        status: !oldFile ? 'added' : !newFile ? 'removed' : 'modified',
+        hunks: [],
+        additions: 0,
+        deletions: 0,
+        isLarge: true
+      });
+      continue;
+    }
+
+    diffs.push(createFileDiff(path, oldFile ? oldFile.content : null, newFile ? newFile.content : null));
+  }
+
+  return diffs;
+};
+
+/**
+ * Render file diffs in unified diff format
+ */
+export const formatUnifiedDiff = (diffs: FileDiff[]): string => {
+  const output: string[] = [];
+
+  for (const diff of diffs) {
+    const oldName = diff.status === 'added' ? '/dev/null' : `a/${diff.filePath}`;
+    const newName = diff.status === 'removed' ? '/dev/null' : `b/${diff.filePath}`;
+
+    if (diff.isBinary) {
+      output.push(`Binary files ${oldName} and ${newName} differ`);
+      continue;
+    }
+
+    if (diff.isLarge) {
+      output.push(`Files ${oldName} and ${newName} differ`);
+      continue;
+    }
+
+    if (diff.hunks.length === 0) continue;
+
+    output.push(`--- ${oldName}`);
+    output.push(`+++ ${newName}`);
+
+    for (const hunk of diff.hunks) {
+      output.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+      for (const line of hunk.lines) {
+        const marker = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+        output.push(`${marker}${line.content}`);
+      }
+    }
+  }
+
+  return output.length > 0 ? `${output.join('\n')}\n` : '';
+};
+
+const groupHunks = (lines: DiffLine[], contextLines: number): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  const changeIndexes = lines
+    .map((line, index) => (line.type === 'context' ? -1 : index))
+    .filter(index => index !== -1);
+
+  let i = 0;
+  while (i < changeIndexes.length) {
+    const start = Math.max(0, changeIndexes[i] - contextLines);
+    let end = Math.min(lines.length - 1, changeIndexes[i] + contextLines);
+
+    // Merge changes whose context windows touch
+    while (i + 1 < changeIndexes.length && changeIndexes[i + 1] - contextLines <= end + 1) {
+      i++;
+      end = Math.min(lines.length - 1, changeIndexes[i] + contextLines);
+    }
+
+    const hunkLines = lines.slice(start, end + 1);
+    const oldLines = hunkLines.filter(line => line.type !== 'add').length;
+    const newLines = hunkLines.filter(line => line.type !== 'remove').length;
+
+    hunks.push({
+      oldStart: firstLineNumber(lines, start, 'oldLine', oldLines),
+      oldLines,
+      newStart: firstLineNumber(lines, start, 'newLine', newLines),
+      newLines,
+      lines: hunkLines
+    });
+    i++;
+  }
+
+  return hunks;
+};
+
+// Unified diff convention: an empty range is reported by the line preceding it
+const firstLineNumber = (
+  lines: DiffLine[],
+  start: number,
+  key: 'oldLine' | 'newLine',
+  count: number
+): number => {
+  if (count > 0) {
+    return lines.slice(start).find(line => line[key] !== undefined)[key];
+  }
+  const previous = lines.slice(0, start).reverse().find(line => line[key] !== undefined);
+  return previous ? previous[key] : 0;
+};
+
+// Every line of a removed, then every line of b added
+const replaceLines = (a: string[], b: string[]): DiffLine[] => [
+  ...a.map((content, i): DiffLine => ({ type: 'remove', content, oldLine: i + 1 })),
+  ...b.map((content, i): DiffLine => ({ type: 'add', content, newLine: i + 1 }))
+];
+
+// Myers' O(ND) shortest edit script over two line arrays. Each round keeps
+// only the diagonals it can reach, so memory grows with D² rather than with
+// the file size; past MAX_EDIT_DISTANCE the block is shown as replaced.
+const myersDiff = (a: string[], b: string[]): DiffLine[] => {
+  // Added and removed files need no search
+  if (a.length === 0 || b.length === 0) return replaceLines(a, b);
+
+  const max = Math.min(a.length + b.length, MAX_EDIT_DISTANCE);
+  // v[offset + k] is the furthest x reached on diagonal k; -1 where none is yet
+  const offset = max + 1;
+  const v = new Int32Array(2 * offset + 1).fill(-1);
+  v[offset + 1] = 0;
+  const trace: Int32Array[] = [];
+  const movesDown = (state: Int32Array, base: number, k: number, d: number) =>
+    k === -d || (k !== d && state[base + k - 1] < state[base + k + 1]);
+  let found = false;
+
+  search: for (let d = 0; d <= max; d++) {
+    // Diagonals -d - 1 to d + 1 before this round, used for backtracking
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = movesDown(v, offset, k, d) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        found = true;
+        break search;
+      }
+    }
+  }
+
+  if (!found) return replaceLines(a, b);
+
+  // Walk the trace backwards to recover the edit script
+  const result: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const state = trace[d];
+    const base = d + 1;
+    const k = x - y;
+    const prevK = movesDown(state, base, k, d) ? k + 1 : k - 1;
+    const prevX = state[base + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: 'context', content: a[x - 1], oldLine: x, newLine: y });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ type: 'add', content: b[y - 1], newLine: y });
+      } else {
+        result.push({ type: 'remove', content: a[x - 1], oldLine: x });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return result.reverse();
+};
@@ -0,0 +1,144 @@
+/**
+ * Environment Variable Utilities
+ *
+ * Reads and writes .env files, merges per-deployment overrides into a
+ * project environment and compares what a deploy will change.
+ */
+
+import { EnvironmentVariable } from '@/types/deployment';
+
+export type EnvironmentChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface EnvironmentDiffEntry {
+  key: string;
+  change: EnvironmentChange;
+  secret: boolean;
+}
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+// Names that usually hold credentials; imported as secrets unless marked otherwise
+const SECRET_KEY_PATTERN = /(SECRET|TOKEN|PASSWORD|PASSWD|PRIVATE|CREDENTIAL|API_?KEY|ACCESS_?KEY)/i;
+
+/**
+ * Check whether a name can be used as an environment variable
+ */
+export const isValidEnvironmentKey = (key: string): boolean => KEY_PATTERN.test(key);
+
+export const looksLikeSecret = (key: string): boolean => SECRET_KEY_PATTERN.test(key);
+
+const unquote = (raw: string): string => {
+  const quote = raw[0];
+  const body = raw.slice(1, raw.lastIndexOf(quote));
+
+  if (quote === '"') {
+    return body.replace(/\\([nrt"\\])/g, (_, char: string) => (
+      { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' }[char]
+    ));
+  }
+  return body;
+};
+
+/**
+ * Parse a .env file. Supports comments, `export` prefixes, quoted values and
+ * multi-line double-quoted values. Lines that aren't assignments are skipped.
+ */
+export const parseEnvFile = (content: string): EnvironmentVariable[] => {
+  const variables = new Map<string, EnvironmentVariable>();
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+  for (let index = 0; index < lines.length; index++) {
+    const match = lines[index].match(/^\s*(?:export\s+)?([^=\s#]+)\s*=\s*(.*)$/);
+    if (!match || !isValidEnvironmentKey(match[1])) continue;
+
+    const [, key] = match;
+    let raw = match[2].trim();
+
+    // A double-quoted value may continue until the closing quote on a later line
+    if (raw.startsWith('"')) {
+      while (!/^"(?:[^"\\]|\\.)*"/.test(raw) && index + 1 < lines.length) {
+        raw += `\n${lines[++index]}`;
+      }
+      raw = raw.match(/^"(?:[^"\\]|\\.)*"?/)![0];
+    } else if (raw.startsWith("'")) {
+      raw = raw.match(/^'[^']*'?/)![0];
+    } else {
+      // Unquoted values end at an inline comment
+      raw = raw.replace(/\s+#.*$/, '');
+    }
+
+    const value = /^(["']).*\1$/s.test(raw) ? unquote(raw) : raw;
+    variables.set(key, { key, value, secret: looksLikeSecret(key) });
+  }
+
+  return Array.from(variables.values());
+};
+
+const formatValue = (value: string): string => {
+  if (value === '' || /^[\w@%+=:,./-]+$/.test(value)) return value;
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r')}"`;
+};
+
+/**
+ * Write variables as a .env file; secrets are left blank unless included
+ */
+export const formatEnvFile = (variables: EnvironmentVariable[], includeSecrets = false): string => {
+  const lines = variables.map(variable => {
+    if (variable.secret && !includeSecrets) return `# secret, value not exported\n${variable.key}=`;
+    return `${variable.key}=${formatValue(variable.value)}`;
+  });
+
+  return lines.length ? `${lines.join('\n')}\n` : '';
+};
+
+/**
+ * Apply per-deployment overrides on top of an environment; override flags win
+ */
+export const mergeEnvironmentVariables = (
+  base: EnvironmentVariable[],
+  overrides: EnvironmentVariable[]
+): EnvironmentVariable[] => {
+  const merged = new Map(base.map(variable => [variable.key, variable]));
+  for (const override of overrides) {
+    if (override.key) merged.set(override.key, override);
+  }
+  return Array.from(merged.values());
+};
+
+export const toEnvironmentRecord = (variables: EnvironmentVariable[]): Record<string, string> => {
+  return Object.fromEntries(variables.map(variable => [variable.key, variable.value]));
+};
+
+// Recorded for a secret whose fingerprint couldn't be computed; it never counts as unchanged
+export const UNKNOWN_FINGERPRINT = 'unknown';
+
+/**
+ * Compare two environments by key. Pass fingerprints rather than values so
+ * secrets never need to be kept for the comparison.
+ */
+export const diffEnvironmentVariables = (
+  previous: Record<string, string>,
+  next: Record<string, string>,
+  secretKeys: string[] = []
+): EnvironmentDiffEntry[] => {
+  const keys = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)])).sort();
+
+  return keys.map(key => {
+    let change: EnvironmentChange = 'unchanged';
+    if (!(key in previous)) change = 'added';
+    else if (!(key in next)) change = 'removed';
+    else if (previous[key] !== next[key] || next[key] === UNKNOWN_FINGERPRINT) change = 'changed';
+
+    return { key, change, secret: secretKeys.includes(key) };
+  });
+};
+
+// Summarise a diff as e.g. "2 added, 1 changed"
+export const summarizeEnvironmentDiff = (entries: EnvironmentDiffEntry[]): string => {
+  const counts = (['added', 'changed', 'removed'] as const)
+    .map(change => [change, entries.filter(entry => entry.change === change).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([change, count]) => `${count} ${change}`);
+
+  return counts.length ? counts.join(', ') : 'No changes';
+};
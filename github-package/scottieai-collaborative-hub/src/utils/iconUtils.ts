@@ -0,0 +1,133 @@
+/**
+ * Icon Utilities
+ *
+ * Turns a project icon into the formats desktop packages expect: PNGs at the
+ * usual sizes for Linux, an .ico for Windows and an .icns for macOS. Both
+ * containers hold PNG data, which every supported OS version reads.
+ */
+
+export interface IconImage {
+  size: number;
+  // PNG-encoded, square
+  bytes: Uint8Array;
+}
+
+export interface IconSet {
+  png: IconImage[];
+  ico: Uint8Array;
+  icns: Uint8Array;
+}
+
+export const ICON_SIZES = [16, 24, 32, 48, 64, 128, 256, 512, 1024];
+
+// Windows reads up to 256px from an .ico
+const ICO_SIZES = [16, 24, 32, 48, 64, 128, 256];
+
+// PNG-based .icns element types by pixel size
+const ICNS_TYPES: Record<number, string> = {
+  16: 'icp4',
+  32: 'icp5',
+  64: 'icp6',
+  128: 'ic07',
+  256: 'ic08',
+  512: 'ic09',
+  1024: 'ic10'
+};
+
+/**
+ * Pack PNG images into an .ico file
+ */
+export const encodeIco = (images: IconImage[]): Uint8Array => {
+  const entries = images.filter(image => ICO_SIZES.includes(image.size));
+  const headerSize = 6 + entries.length * 16;
+  const totalSize = entries.reduce((total, image) => total + image.bytes.length, headerSize);
+
+  const bytes = new Uint8Array(totalSize);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(2, 1, true); // type 1: icon
+  view.setUint16(4, entries.length, true);
+
+  let offset = headerSize;
+  entries.forEach((image, index) => {
+    const entry = 6 + index * 16;
+    // 0 stands for 256
+    view.setUint8(entry, image.size >= 256 ? 0 : image.size);
+    view.setUint8(entry + 1, image.size >= 256 ? 0 : image.size);
+    view.setUint16(entry + 4, 1, true); // colour planes
+    view.setUint16(entry + 6, 32, true); // bits per pixel
+    view.setUint32(entry + 8, image.bytes.length, true);
+    view.setUint32(entry + 12, offset, true);
+    bytes.set(image.bytes, offset);
+    offset += image.bytes.length;
+  });
+
+  return bytes;
+};
+
+/**
+ * Pack PNG images into an .icns file
+ */
+export const encodeIcns = (images: IconImage[]): Uint8Array => {
+  const entries = images.filter(image => ICNS_TYPES[image.size]);
+  const totalSize = entries.reduce((total, image) => total + 8 + image.bytes.length, 8);
+
+  const bytes = new Uint8Array(totalSize);
+  const view = new DataView(bytes.buffer);
+  const writeType = (type: string, at: number) => {
+    for (let i = 0; i < 4; i++) bytes[at + i] = type.charCodeAt(i);
+  };
+
+  writeType('icns', 0);
+  view.setUint32(4, totalSize);
+
+  let offset = 8;
+  for (const image of entries) {
+    writeType(ICNS_TYPES[image.size], offset);
+    view.setUint32(offset + 4, 8 + image.bytes.length);
+    bytes.set(image.bytes, offset + 8);
+    offset += 8 + image.bytes.length;
+  }
+
+  return bytes;
+};
+
+/**
+ * Render an image at each size as PNG. Needs a browser canvas.
+ */
+export const resizeIcon = async (source: Blob, sizes: number[] = ICON_SIZES): Promise<IconImage[]> => {
+  const bitmap = await createImageBitmap(source);
+
+  try {
+    return await Promise.all(sizes.map(async size => {
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas is not available');
+
+      // Fit the image inside the square, keeping its aspect ratio
+      const scale = Math.min(size / bitmap.width, size / bitmap.height);
+      const width = bitmap.width * scale;
+      const height = bitmap.height * scale;
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(bitmap, (size - width) / 2, (size - height) / 2, width, height);
+
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error(`Could not render the icon at ${size}px`);
+      return { size, bytes: new Uint8Array(await blob.arrayBuffer()) };
+    }));
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Build every desktop icon format from one source image
+ */
+export const createIconSet = async (
+  source: Blob,
+  resize: (source: Blob, sizes: number[]) => Promise<IconImage[]> = resizeIcon
+): Promise<IconSet> => {
+  const png = await resize(source, ICON_SIZES);
+  return { png, ico: encodeIco(png), icns: encodeIcns(png) };
+};
@@ -0,0 +1,555 @@
+/**
+ * Installer Scripts
+ *
+ * Builds Inno Setup (.iss) and WiX v4 (.wxs) installer definitions from an
+ * InstallerConfig as typed trees, renders them to text and checks them
+ * against the staged files, so they can be verified without Windows.
+ *
+ * Both are written for the staging layout the installer creator prepares:
+ * the app in app/, with the icon and licence copied next to the script.
+ */
+
+import { v5 as uuidv5 } from 'uuid';
+import {
+  InnoEntry,
+  InnoSection,
+  InnoSetupScript,
+  InstallerConfig,
+  InstallerFileSet,
+  InstallerIssue,
+  InstallerRegistryEntry,
+  WixElement,
+  WixElementName
+} from '@/types/installer';
+
+export const STAGED_APP_DIR = 'app';
+
+// Everything the app was built into
+export const DEFAULT_FILE_SETS: InstallerFileSet[] = [{ source: '*', recursive: true }];
+
+// Namespace for the GUIDs derived from app names, so the same app always gets the same ones
+const GUID_NAMESPACE = '4b3c9d6e-8f1a-4c2b-9e7d-5a6f0b1c2d3e';
+
+const GUID_PATTERN = /^[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}$/i;
+
+const INNO_REGISTRY_ROOTS: Record<InstallerRegistryEntry['root'], string> = {
+  auto: 'HKA',
+  HKCU: 'HKCU',
+  HKLM: 'HKLM',
+  HKCR: 'HKCR'
+};
+
+const INNO_VALUE_TYPES: Record<InstallerRegistryEntry['type'], string> = {
+  string: 'string',
+  expandString: 'expandsz',
+  dword: 'dword'
+};
+
+const WIX_REGISTRY_ROOTS: Record<InstallerRegistryEntry['root'], string> = {
+  auto: 'HKMU',
+  HKCU: 'HKCU',
+  HKLM: 'HKLM',
+  HKCR: 'HKCR'
+};
+
+const WIX_VALUE_TYPES: Record<InstallerRegistryEntry['type'], string> = {
+  string: 'string',
+  expandString: 'expandable',
+  dword: 'integer'
+};
+
+const toWindowsPath = (path: string): string => path.replace(/\//g, '\\');
+
+const extensionOf = (path: string): string => (/\.[^./\\]+$/.exec(path)?.[0] || '').toLowerCase();
+
+/**
+ * Accepts a GUID with or without braces
+ */
+export const isValidGuid = (value: string): boolean => GUID_PATTERN.test(value.replace(/^\{(.*)\}$/, '$1'));
+
+/**
+ * Upgrade code for an app that doesn't set one; stays the same across versions
+ */
+export const deriveUpgradeCode = (appName: string): string => {
+  return uuidv5(`com.scottieai.${appName.toLowerCase().replace(/[^a-z0-9]/g, '')}`, GUID_NAMESPACE).toUpperCase();
+};
+
+export const getExecutableName = (config: InstallerConfig): string => config.executableName || `${config.appName}.exe`;
+
+// Where the creator copies the icon and licence, keeping their extensions
+export const getStagedIconPath = (config: InstallerConfig): string | undefined => {
+  return config.iconPath ? `icon${extensionOf(config.iconPath)}` : undefined;
+};
+
+export const getStagedLicensePath = (config: InstallerConfig): string | undefined => {
+  return config.licenseFile ? `license${extensionOf(config.licenseFile)}` : undefined;
+};
+
+// Inno reads "{" as the start of a constant, so literal braces are doubled
+const innoText = (text: string): string => text.replace(/\{/g, '{{');
+
+const innoEntry = (parameters: [string, string | undefined][], flags?: string[]): InnoEntry => ({
+  parameters: parameters.filter((parameter): parameter is [string, string] => parameter[1] !== undefined),
+  flags: flags && flags.length > 0 ? flags : undefined
+});
+
+/**
+ * Build the Inno Setup script for an installer configuration
+ */
+export const buildInnoSetupScript = (config: InstallerConfig): InnoSetupScript => {
+  const options = config.installerOptions;
+  const appName = innoText(config.appName);
+  const executable = `{app}\\${toWindowsPath(getExecutableName(config))}`;
+  const icon = getStagedIconPath(config);
+  const license = getStagedLicensePath(config);
+  const cleanup = config.uninstallCleanup || {};
+
+  const setup: [string, string][] = [
+    // Inno finds earlier installs by AppId, so it plays the part of the upgrade code
+    ['AppId', `{{${config.upgradeCode || deriveUpgradeCode(config.appName)}}`],
+    ['AppName', config.appName],
+    ['AppVersion', config.appVersion],
+    ['AppPublisher', config.publisher],
+    ...(config.publisherUrl ? [['AppPublisherURL', config.publisherUrl] as [string, string]] : []),
+    ['DefaultDirName', `{autopf}\\${appName}`],
+    ['DisableDirPage', options.allowToChangeInstallationDirectory ? 'no' : 'yes'],
+    ['DisableProgramGroupPage', 'yes'],
+    ['UsePreviousAppDir', 'yes'],
+    // {autopf} and HKA follow this: Program Files and HKLM, or the user's profile and HKCU
+    ['PrivilegesRequired', options.perMachine ? 'admin' : 'lowest'],
+    ...(license ? [['LicenseFile', license] as [string, string]] : []),
+    ...(icon ? [['SetupIconFile', icon] as [string, string]] : []),
+    ['UninstallDisplayIcon', executable],
+    ['OutputBaseFilename', `${config.appName}-setup-${config.appVersion}`],
+    ['Compression', 'lzma2'],
+    ['SolidCompression', 'yes'],
+    ['WizardStyle', 'modern']
+  ];
+
+  const sections: InnoSection[] = [
+    {
+      name: 'Languages',
+      entries: [innoEntry([['Name', 'english'], ['MessagesFile', 'compiler:Default.isl']])]
+    },
+    {
+      name: 'Tasks',
+      entries: options.createDesktopShortcut
+        ? [innoEntry([['Name', 'desktopicon'], ['Description', '{cm:CreateDesktopIcon}'], ['GroupDescription', '{cm:AdditionalIcons}']])]
+        : []
+    },
+    {
+      name: 'Files',
+      entries: (config.files || DEFAULT_FILE_SETS).map(fileSet => innoEntry(
+        [
+          ['Source', toWindowsPath(`${STAGED_APP_DIR}/${fileSet.source}`)],
+          ['DestDir', fileSet.destination ? `{app}\\${toWindowsPath(fileSet.destination)}` : '{app}']
+        ],
+        ['ignoreversion', ...(fileSet.recursive ? ['recursesubdirs', 'createallsubdirs'] : [])]
+      ))
+    },
+    {
+      name: 'Icons',
+      entries: [
+        ...(options.createStartMenuShortcut ? [innoEntry([['Name', `{autoprograms}\\${appName}`], ['Filename', executable]])] : []),
+        ...(options.createDesktopShortcut
+          ? [innoEntry([['Name', `{autodesktop}\\${appName}`], ['Filename', executable], ['Tasks', 'desktopicon']])]
+          : [])
+      ]
+    },
+    {
+      name: 'Registry',
+      entries: (config.registry || []).map(entry => innoEntry(
+        [
+          ['Root', INNO_REGISTRY_ROOTS[entry.root]],
+          ['Subkey', innoText(entry.key)],
+          ['ValueType', INNO_VALUE_TYPES[entry.type]],
+          ['ValueName', entry.name],
+          ['ValueData', innoText(String(entry.value))]
+        ],
+        [entry.deleteKeyOnUninstall ? 'uninsdeletekey' : 'uninsdeletevalue']
+      ))
+    },
+    {
+      name: 'Run',
+      entries: options.runAfterFinish
+        ? [innoEntry([['Filename', executable], ['Description', `Launch ${appName}`]], ['nowait', 'postinstall', 'skipifsilent'])]
+        : []
+    },
+    {
+      name: 'UninstallDelete',
+      entries: [
+        ...(cleanup.appData ? [innoEntry([['Type', 'filesandordirs'], ['Name', `{userappdata}\\${appName}`]])] : []),
+        ...(cleanup.paths || []).map(path => innoEntry([['Type', 'filesandordirs'], ['Name', `{app}\\${toWindowsPath(path)}`]]))
+      ]
+    }
+  ];
+
+  return {
+    comments: [`Inno Setup script for ${config.appName} ${config.appVersion}`, 'Generated by ScottieAI Collaborative Hub'],
+    setup,
+    sections: sections.filter(section => section.entries.length > 0)
+  };
+};
+
+const innoValue = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+export const renderInnoSetupScript = (script: InnoSetupScript): string => {
+  const blocks = [
+    script.comments.map(comment => `; ${comment}`).join('\n'),
+    ['[Setup]', ...script.setup.map(([key, value]) => `${key}=${value}`)].join('\n'),
+    ...script.sections.map(section => [
+      `[${section.name}]`,
+      ...section.entries.map(entry => [
+        ...entry.parameters.map(([key, value]) => `${key}: ${innoValue(value)}`),
+        ...(entry.flags ? [`Flags: ${entry.flags.join(' ')}`] : [])
+      ].join('; '))
+    ].join('\n'))
+  ];
+
+  return `${blocks.join('\n\n')}\n`;
+};
+
+const wix = (
+  name: WixElementName,
+  attributes: Record<string, string | undefined> = {},
+  children: WixElement[] = []
+): WixElement => ({ name, attributes, children });
+
+// WiX spells "and subdirectories" as a ** directory, e.g. app\**\*.pak
+const wixInclude = (fileSet: InstallerFileSet): string => {
+  const source = toWindowsPath(`${STAGED_APP_DIR}/${fileSet.source}`);
+  if (!fileSet.recursive) return source;
+
+  const slash = source.lastIndexOf('\\');
+  const name = source.slice(slash + 1);
+  return `${source.slice(0, slash + 1)}**${name === '*' ? '' : `\\${name}`}`;
+};
+
+/**
+ * Build the WiX v4 source for an installer configuration. It needs the UI and
+ * Util extensions; run-after-finish is left to the app, as MSI has no equivalent.
+ */
+export const buildWixDocument = (config: InstallerConfig): WixElement => {
+  const options = config.installerOptions;
+  const upgradeCode = config.upgradeCode || deriveUpgradeCode(config.appName);
+  const componentGuid = (id: string) => uuidv5(`${upgradeCode}:${id}`, GUID_NAMESPACE).toUpperCase();
+  const target = `[INSTALLFOLDER]${toWindowsPath(getExecutableName(config))}`;
+  const icon = getStagedIconPath(config);
+  const license = getStagedLicensePath(config);
+  const cleanup = config.uninstallCleanup || {};
+  // Per-user components need a key path under HKCU; this key also marks the install
+  const productKey = `Software\\${config.publisher}\\${config.appName}`;
+
+  const installFolder = wix('Directory', { Id: 'INSTALLFOLDER', Name: config.appName });
+  const packageChildren: WixElement[] = [
+    wix('SummaryInformation', { Description: config.description }),
+    wix('MajorUpgrade', { DowngradeErrorMessage: 'A newer version of [ProductName] is already installed.' }),
+    wix('MediaTemplate', { EmbedCab: 'yes' })
+  ];
+
+  if (icon) {
+    packageChildren.push(
+      wix('Icon', { Id: `AppIcon${extensionOf(icon)}`, SourceFile: icon }),
+      wix('Property', { Id: 'ARPPRODUCTICON', Value: `AppIcon${extensionOf(icon)}` })
+    );
+  }
+  if (config.publisherUrl) {
+    packageChildren.push(wix('Property', { Id: 'ARPURLINFOABOUT', Value: config.publisherUrl }));
+  }
+  if (license) {
+    packageChildren.push(wix('WixVariable', { Id: 'WixUILicenseRtf', Value: license }));
+  }
+  packageChildren.push(options.allowToChangeInstallationDirectory
+    ? wix('ui:WixUI', { Id: 'WixUI_InstallDir', InstallDirectory: 'INSTALLFOLDER' })
+    : wix('ui:WixUI', { Id: 'WixUI_Minimal' }));
+
+  packageChildren.push(options.perMachine
+    ? wix('StandardDirectory', { Id: 'ProgramFiles6432Folder' }, [installFolder])
+    : wix('StandardDirectory', { Id: 'LocalAppDataFolder' }, [wix('Directory', { Id: 'UserProgramsFolder', Name: 'Programs' }, [installFolder])]));
+
+  const groups: WixElement[] = [
+    wix('ComponentGroup', { Id: 'AppFiles', Directory: 'INSTALLFOLDER' }, (config.files || DEFAULT_FILE_SETS).map(fileSet => wix('Files', {
+      Include: wixInclude(fileSet),
+      Subdirectory: fileSet.destination ? toWindowsPath(fileSet.destination) : undefined
+    })))
+  ];
+
+  const shortcutComponents: WixElement[] = [];
+  const shortcuts = [
+    { enabled: options.createStartMenuShortcut, id: 'StartMenuShortcut', directory: 'ProgramMenuFolder' },
+    { enabled: options.createDesktopShortcut, id: 'DesktopShortcut', directory: 'DesktopFolder' }
+  ];
+  for (const shortcut of shortcuts.filter(entry => entry.enabled)) {
+    packageChildren.push(wix('StandardDirectory', { Id: shortcut.directory }));
+    shortcutComponents.push(wix('Component', { Id: shortcut.id, Directory: shortcut.directory, Guid: componentGuid(shortcut.id) }, [
+      wix('Shortcut', { Id: shortcut.id, Name: config.appName, Target: target, WorkingDirectory: 'INSTALLFOLDER' }),
+      wix('RegistryValue', { Root: 'HKCU', Key: productKey, Name: shortcut.id, Type: 'integer', Value: '1', KeyPath: 'yes' })
+    ]));
+  }
+  if (shortcutComponents.length > 0) {
+    groups.push(wix('ComponentGroup', { Id: 'Shortcuts' }, shortcutComponents));
+  }
+
+  if (config.registry?.length) {
+    groups.push(wix('ComponentGroup', { Id: 'Registry', Directory: 'INSTALLFOLDER' }, config.registry.map((entry, index) => {
+      const id = `Registry${index + 1}`;
+      const value = wix('RegistryValue', {
+        Name: entry.name,
+        Type: WIX_VALUE_TYPES[entry.type],
+        Value: String(entry.value),
+        KeyPath: 'yes'
+      });
+      // MSI removes the values it wrote; the whole key only when asked to
+      return wix('Component', { Id: id, Guid: componentGuid(id) }, [entry.deleteKeyOnUninstall
+        ? wix('RegistryKey', { Root: WIX_REGISTRY_ROOTS[entry.root], Key: entry.key, ForceDeleteOnUninstall: 'yes' }, [value])
+        : { ...value, attributes: { Root: WIX_REGISTRY_ROOTS[entry.root], Key: entry.key, ...value.attributes } }
+      ]);
+    })));
+  }
+
+  // RemoveFolderEx deletes folders with everything in them, from paths set in properties.
+  // INSTALLFOLDER isn't resolved that early, so the path recorded at install time is read back.
+  const cleanupFolders = [
+    ...(cleanup.appData ? [`[AppDataFolder]${config.appName}`] : []),
+    ...(cleanup.paths || []).map(path => `[INSTALLFOLDERREMEMBERED]${toWindowsPath(path)}`)
+  ];
+  if (cleanup.paths?.length) {
+    packageChildren.push(wix('Property', { Id: 'INSTALLFOLDERREMEMBERED' }, [
+      wix('RegistrySearch', { Root: 'HKMU', Key: productKey, Name: 'InstallFolder', Type: 'raw' })
+    ]));
+  }
+  if (cleanupFolders.length > 0) {
+    const properties = cleanupFolders.map((_, index) => `CLEANUPFOLDER${index + 1}`);
+    cleanupFolders.forEach((folder, index) => {
+      packageChildren.push(wix('SetProperty', { Id: properties[index], Value: folder, Before: 'CostFinalize', Sequence: 'execute' }));
+    });
+    groups.push(wix('ComponentGroup', { Id: 'UninstallCleanup', Directory: 'INSTALLFOLDER' }, [
+      wix('Component', { Id: 'UninstallCleanup', Guid: componentGuid('UninstallCleanup') }, [
+        wix('RegistryValue', { Root: 'HKMU', Key: productKey, Name: 'InstallFolder', Type: 'string', Value: '[INSTALLFOLDER]', KeyPath: 'yes' }),
+        ...properties.map(property => wix('util:RemoveFolderEx', { On: 'uninstall', Property: property }))
+      ])
+    ]));
+  }
+
+  packageChildren.push(
+    ...groups,
+    wix('Feature', { Id: 'Main', Title: config.appName, Level: '1' }, groups.map(group => wix('ComponentGroupRef', { Id: group.attributes.Id })))
+  );
+
+  return wix('Wix', {
+    xmlns: 'http://wixtoolset.org/schemas/v4/wxs',
+    'xmlns:ui': 'http://wixtoolset.org/schemas/v4/wxs/ui',
+    'xmlns:util': 'http://wixtoolset.org/schemas/v4/wxs/util'
+  }, [
+    wix('Package', {
+      Name: config.appName,
+      Manufacturer: config.publisher,
+      Version: config.appVersion,
+      UpgradeCode: upgradeCode,
+      Scope: options.perMachine ? 'perMachine' : 'perUser',
+      Language: '1033'
+    }, packageChildren)
+  ]);
+};
+
+const xmlAttribute = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const renderWixElement = (element: WixElement, indent: string): string => {
+  const attributes = Object.entries(element.attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${xmlAttribute(value!)}"`)
+    .join('');
+
+  if (element.children.length === 0) {
+    return `${indent}<${element.name}${attributes} />`;
+  }
+
+  return [
+    `${indent}<${element.name}${attributes}>`,
+    ...element.children.map(child => renderWixElement(child, `${indent}  `)),
+    `${indent}</${element.name}>`
+  ].join('\n');
+};
+
+export const renderWixDocument = (document: WixElement): string => {
+  return `<?xml version="1.0" encoding="utf-8"?>\n${renderWixElement(document, '')}\n`;
+};
+
+export const createInnoSetupScript = (config: InstallerConfig): string => renderInnoSetupScript(buildInnoSetupScript(config));
+
+export const createWixSource = (config: InstallerConfig): string => renderWixDocument(buildWixDocument(config));
+
+const escapeRegExp = (text: string): string => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+// ** crosses folders, * and ? stay within one
+const wildcardToRegExp = (text: string): string => text
+  .split(/\*\*\/?/)
+  .map(part => escapeRegExp(part).replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]'))
+  .join('.*');
+
+/**
+ * Match a Windows-style source pattern against staged file paths, giving each
+ * match's path relative to the part of the pattern before any wildcard
+ */
+const matchSourcePattern = (pattern: string, recursive: boolean, files: string[]): { file: string; relative: string }[] => {
+  const normalized = pattern.replace(/\\/g, '/');
+  const wildcard = normalized.search(/[*?]/);
+  const base = wildcard === -1 ? normalized.slice(0, normalized.lastIndexOf('/') + 1) : normalized.slice(0, normalized.lastIndexOf('/', wildcard) + 1);
+  const directory = normalized.slice(0, normalized.lastIndexOf('/') + 1);
+  const name = normalized.slice(directory.length);
+  const matcher = new RegExp(`^${wildcardToRegExp(directory)}${recursive ? '(?:.*/)?' : ''}${wildcardToRegExp(name)}$`, 'i');
+
+  return files
+    .map(file => file.replace(/\\/g, '/'))
+    .filter(file => matcher.test(file))
+    .map(file => ({ file, relative: file.slice(base.length) }));
+};
+
+const isStaged = (path: string, files: string[]): boolean => {
+  const normalized = path.replace(/\\/g, '/').toLowerCase();
+  return files.some(file => file.replace(/\\/g, '/').toLowerCase() === normalized);
+};
+
+const checkIcon = (path: string, files: string[], issues: InstallerIssue[]) => {
+  if (!isStaged(path, files)) {
+    issues.push({ severity: 'error', message: `Icon file "${path}" is missing` });
+  } else if (extensionOf(path) !== '.ico') {
+    issues.push({ severity: 'error', message: `Icon file "${path}" must be an .ico file` });
+  }
+};
+
+const innoParameter = (entry: InnoEntry, key: string): string | undefined => {
+  return entry.parameters.find(([name]) => name === key)?.[1];
+};
+
+/**
+ * Check an Inno Setup script against the staged files (paths relative to the script)
+ */
+export const validateInnoSetupScript = (script: InnoSetupScript, files: string[]): InstallerIssue[] => {
+  const issues: InstallerIssue[] = [];
+  const setup = new Map(script.setup);
+  const section = (name: InnoSection['name']) => script.sections.find(entry => entry.name === name)?.entries || [];
+
+  const appId = setup.get('AppId');
+  if (!appId) {
+    issues.push({ severity: 'error', message: 'AppId is missing, so upgrades cannot find earlier installs' });
+  } else if (!isValidGuid(appId.replace(/^\{\{/, '{'))) {
+    issues.push({ severity: 'error', message: `AppId "${appId}" is not a valid GUID` });
+  }
+
+  const icon = setup.get('SetupIconFile');
+  if (icon) checkIcon(icon, files, issues);
+  const license = setup.get('LicenseFile');
+  if (license && !isStaged(license, files)) {
+    issues.push({ severity: 'error', message: `License file "${license}" is missing` });
+  }
+
+  const installed = new Set<string>();
+  for (const entry of section('Files')) {
+    const source = innoParameter(entry, 'Source') || '';
+    const destination = (innoParameter(entry, 'DestDir') || '{app}').replace(/\\$/, '');
+    const matches = matchSourcePattern(source, Boolean(entry.flags?.includes('recursesubdirs')), files);
+    if (matches.length === 0) {
+      issues.push({ severity: 'error', message: `No files match "${source}"` });
+    }
+    matches.forEach(match => installed.add(`${destination}\\${toWindowsPath(match.relative)}`.toLowerCase()));
+  }
+
+  for (const entry of [...section('Icons'), ...section('Run')]) {
+    const target = innoParameter(entry, 'Filename');
+    if (target?.startsWith('{app}\\') && !installed.has(target.toLowerCase())) {
+      issues.push({ severity: 'error', message: `"${target}" is not installed by any [Files] entry` });
+    }
+  }
+
+  if (setup.get('PrivilegesRequired') === 'lowest') {
+    for (const entry of section('Registry')) {
+      if (innoParameter(entry, 'Root') === 'HKLM' || innoParameter(entry, 'Root') === 'HKCR') {
+        issues.push({ severity: 'error', message: `Per-user installs cannot write "${innoParameter(entry, 'Root')}\\${innoParameter(entry, 'Subkey')}"` });
+      }
+    }
+  }
+
+  return issues;
+};
+
+const findWixElements = (element: WixElement, name: WixElementName): WixElement[] => [
+  ...(element.name === name ? [element] : []),
+  ...element.children.flatMap(child => findWixElements(child, name))
+];
+
+/**
+ * Check a WiX source against the staged files (paths relative to the source)
+ */
+export const validateWixDocument = (document: WixElement, files: string[]): InstallerIssue[] => {
+  const issues: InstallerIssue[] = [];
+  const packageElement = findWixElements(document, 'Package')[0];
+
+  if (!packageElement) {
+    return [{ severity: 'error', message: 'The source has no Package element' }];
+  }
+
+  const upgradeCode = packageElement.attributes.UpgradeCode;
+  if (!upgradeCode) {
+    issues.push({ severity: 'error', message: 'UpgradeCode is missing, so upgrades cannot find earlier installs' });
+  } else if (!isValidGuid(upgradeCode)) {
+    issues.push({ severity: 'error', message: `UpgradeCode "${upgradeCode}" is not a valid GUID` });
+  }
+
+  for (const component of findWixElements(document, 'Component')) {
+    const guid = component.attributes.Guid;
+    if (guid && guid !== '*' && !isValidGuid(guid)) {
+      issues.push({ severity: 'error', message: `Component "${component.attributes.Id}" has an invalid GUID "${guid}"` });
+    }
+  }
+
+  findWixElements(document, 'Icon').forEach(icon => checkIcon(icon.attributes.SourceFile || '', files, issues));
+
+  for (const variable of findWixElements(document, 'WixVariable')) {
+    if (variable.attributes.Id !== 'WixUILicenseRtf') continue;
+    const license = variable.attributes.Value || '';
+    if (!isStaged(license, files)) {
+      issues.push({ severity: 'error', message: `License file "${license}" is missing` });
+    } else if (extensionOf(license) !== '.rtf') {
+      issues.push({ severity: 'error', message: `License file "${license}" must be RTF for the MSI license page` });
+    }
+  }
+
+  const installed = new Set<string>();
+  for (const fileSet of findWixElements(document, 'Files')) {
+    const include = fileSet.attributes.Include || '';
+    const subdirectory = fileSet.attributes.Subdirectory ? `${fileSet.attributes.Subdirectory}\\` : '';
+    const matches = matchSourcePattern(include, false, files);
+    if (matches.length === 0) {
+      issues.push({ severity: 'error', message: `No files match "${include}"` });
+    }
+    matches.forEach(match => installed.add(`[INSTALLFOLDER]${subdirectory}${toWindowsPath(match.relative)}`.toLowerCase()));
+  }
+  for (const file of findWixElements(document, 'File')) {
+    const source = file.attributes.Source || '';
+    if (!isStaged(source, files)) {
+      issues.push({ severity: 'error', message: `File "${source}" is missing` });
+    }
+  }
+
+  for (const shortcut of findWixElements(document, 'Shortcut')) {
+    const target = shortcut.attributes.Target || '';
+    if (target.startsWith('[INSTALLFOLDER]') && !installed.has(target.toLowerCase())) {
+      issues.push({ severity: 'error', message: `Shortcut target "${target}" is not installed by any Files element` });
+    }
+  }
+
+  if (packageElement.attributes.Scope === 'perUser') {
+    const machineKeys = [...findWixElements(document, 'RegistryValue'), ...findWixElements(document, 'RegistryKey')]
+      .filter(element => element.attributes.Root === 'HKLM' || element.attributes.Root === 'HKCR');
+    for (const element of machineKeys) {
+      issues.push({ severity: 'error', message: `Per-user installs cannot write "${element.attributes.Root}\\${element.attributes.Key}"` });
+    }
+  }
+
+  return issues;
+};
@@ -0,0 +1,266 @@
+/**
+ * Model Metrics
+ *
+ * Classification and regression metrics over a whole test run. Every row of
+ * every case's output is one sample: a classifier's row holds a score per
+ * class (or a single probability for binary models), and a regressor's row
+ * holds the predicted values.
+ */
+import {
+  AveragedMetrics,
+  ClassCurves,
+  ClassificationMetrics,
+  CurvePoint,
+  ModelTask,
+  ModelTestResult,
+  RegressionMetrics,
+  SuiteMetrics,
+  TensorValues
+} from '@/types/modelTesting';
+import { flattenTensor, getTensorShape } from './testDatasetUtils';
+
+// A classifier's output for one sample and the class it should have picked
+export interface ClassifiedSample {
+  scores: number[];
+  label: number;
+}
+
+// Binary models with one output predict the positive class from this probability
+const BINARY_THRESHOLD = 0.5;
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+const ratio = (numerator: number, denominator: number): number => (denominator > 0 ? numerator / denominator : 0);
+
+const f1 = (precision: number, recall: number): number => ratio(2 * precision * recall, precision + recall);
+
+const argmax = (values: number[]): number => values.reduce((best, value, index) => (value > values[best] ? index : best), 0);
+
+// Split a tensor into rows along its last axis
+const toRows = (values: TensorValues): number[][] => {
+  const shape = getTensorShape(values);
+  const width = shape.length > 0 ? shape[shape.length - 1] : 1;
+  const flat = flattenTensor(values);
+  return Array.from({ length: Math.floor(flat.length / width) }, (_, index) => flat.slice(index * width, (index + 1) * width));
+};
+
+// The cases that ran and had something to compare against
+const getComparableResults = (results: ModelTestResult[]) => {
+  return results.filter(result => !result.error && result.outputTensor !== undefined && result.expectedTensor !== undefined);
+};
+
+/**
+ * Counts of expected (rows) against predicted (columns) classes
+ */
+export const confusionMatrix = (expected: number[], predicted: number[], classCount: number): number[][] => {
+  const matrix = Array.from({ length: classCount }, () => new Array(classCount).fill(0));
+  expected.forEach((label, index) => {
+    matrix[label][predicted[index]]++;
+  });
+  return matrix;
+};
+
+/**
+ * The ROC curve for `scores` of the positive class, from the strictest
+ * threshold down, with the area under it. Tied scores share a point.
+ */
+export const rocCurve = (scores: number[], positives: boolean[]): { points: CurvePoint[]; auc: number | null } => {
+  const positiveCount = positives.filter(Boolean).length;
+  const negativeCount = positives.length - positiveCount;
+  if (positiveCount === 0 || negativeCount === 0) return { points: [], auc: null };
+
+  const order = scores.map((_, index) => index).sort((a, b) => scores[b] - scores[a]);
+  const points: CurvePoint[] = [{ x: 0, y: 0, threshold: Infinity }];
+  let truePositives = 0;
+  let falsePositives = 0;
+
+  order.forEach((sample, position) => {
+    if (positives[sample]) truePositives++;
+    else falsePositives++;
+
+    const next = order[position + 1];
+    if (next === undefined || scores[next] !== scores[sample]) {
+      points.push({ x: falsePositives / negativeCount, y: truePositives / positiveCount, threshold: scores[sample] });
+    }
+  });
+
+  // Trapezoids between consecutive points
+  const auc = points.slice(1).reduce((area, point, index) => {
+    const previous = points[index];
+    return area + (point.x - previous.x) * (point.y + previous.y) / 2;
+  }, 0);
+
+  return { points, auc };
+};
+
+/**
+ * The precision-recall curve for `scores` of the positive class, with its
+ * average precision: precision at each threshold weighted by the recall gained
+ */
+export const precisionRecallCurve = (
+  scores: number[],
+  positives: boolean[]
+): { points: CurvePoint[]; averagePrecision: number | null } => {
+  const positiveCount = positives.filter(Boolean).length;
+  if (positiveCount === 0 || positiveCount === positives.length) return { points: [], averagePrecision: null };
+
+  const order = scores.map((_, index) => index).sort((a, b) => scores[b] - scores[a]);
+  const points: CurvePoint[] = [{ x: 0, y: 1, threshold: Infinity }];
+  let truePositives = 0;
+  let averagePrecision = 0;
+
+  order.forEach((sample, position) => {
+    if (positives[sample]) truePositives++;
+
+    const next = order[position + 1];
+    if (next === undefined || scores[next] !== scores[sample]) {
+      const recall = truePositives / positiveCount;
+      const precision = truePositives / (position + 1);
+      averagePrecision += (recall - points[points.length - 1].x) * precision;
+      points.push({ x: recall, y: precision, threshold: scores[sample] });
+    }
+  });
+
+  return { points, averagePrecision };
+};
+
+/**
+ * Confusion matrix, per-class and averaged precision/recall/F1 and one-vs-rest
+ * ROC and PR curves. Samples with a single score are binary, scored for the
+ * positive class.
+ */
+export const classificationMetrics = (samples: ClassifiedSample[]): ClassificationMetrics => {
+  const binary = samples.every(sample => sample.scores.length === 1);
+  const classCount = binary
+    ? 2
+    : Math.max(0, ...samples.map(sample => Math.max(sample.scores.length, sample.label + 1)));
+
+  // Binary models score the positive class; the negative class gets the rest
+  const scores = samples.map(sample => (binary ? [1 - sample.scores[0], sample.scores[0]] : sample.scores));
+  const expected = samples.map(sample => sample.label);
+  const predicted = samples.map((sample, index) => (binary
+    ? Number(sample.scores[0] >= BINARY_THRESHOLD)
+    : argmax(scores[index])));
+
+  const matrix = confusionMatrix(expected, predicted, classCount);
+  const totals = matrix.map((row, classIndex) => {
+    const truePositives = row[classIndex];
+    const predictedCount = sum(matrix.map(other => other[classIndex]));
+    return { truePositives, falsePositives: predictedCount - truePositives, falseNegatives: sum(row) - truePositives, support: sum(row) };
+  });
+
+  const perClass = totals.map(({ truePositives, falsePositives, falseNegatives, support }) => {
+    const precision = ratio(truePositives, truePositives + falsePositives);
+    const recall = ratio(truePositives, truePositives + falseNegatives);
+    return { precision, recall, f1Score: f1(precision, recall), support };
+  });
+
+  const macro: AveragedMetrics = {
+    precision: ratio(sum(perClass.map(metrics => metrics.precision)), classCount),
+    recall: ratio(sum(perClass.map(metrics => metrics.recall)), classCount),
+    f1Score: ratio(sum(perClass.map(metrics => metrics.f1Score)), classCount)
+  };
+
+  const truePositives = sum(totals.map(total => total.truePositives));
+  const microPrecision = ratio(truePositives, truePositives + sum(totals.map(total => total.falsePositives)));
+  const microRecall = ratio(truePositives, truePositives + sum(totals.map(total => total.falseNegatives)));
+  const micro: AveragedMetrics = { precision: microPrecision, recall: microRecall, f1Score: f1(microPrecision, microRecall) };
+
+  const curves: ClassCurves[] = (binary ? [1] : Array.from({ length: classCount }, (_, index) => index)).map(classIndex => {
+    const classScores = scores.map(row => row[classIndex] ?? 0);
+    const positives = expected.map(label => label === classIndex);
+    const roc = rocCurve(classScores, positives);
+    const pr = precisionRecallCurve(classScores, positives);
+    return { classIndex, roc: roc.points, rocAuc: roc.auc, pr: pr.points, averagePrecision: pr.averagePrecision };
+  });
+
+  const areas = curves.map(curve => curve.rocAuc).filter((auc): auc is number => auc !== null);
+
+  return {
+    classCount,
+    confusionMatrix: matrix,
+    accuracy: ratio(sum(matrix.map((row, index) => row[index])), samples.length),
+    perClass,
+    macro,
+    micro,
+    rocAuc: areas.length > 0 ? sum(areas) / areas.length : null,
+    curves
+  };
+};
+
+/**
+ * MAE, RMSE and R² over paired predicted and expected values
+ */
+export const regressionMetrics = (actual: number[], expected: number[]): RegressionMetrics => {
+  const count = actual.length;
+  const errors = actual.map((value, index) => value - expected[index]);
+  const mean = ratio(sum(expected), count);
+  const totalSquares = sum(expected.map(value => (value - mean) ** 2));
+  const residualSquares = sum(errors.map(error => error ** 2));
+
+  return {
+    meanAbsoluteError: ratio(sum(errors.map(Math.abs)), count),
+    rootMeanSquaredError: Math.sqrt(ratio(residualSquares, count)),
+    rSquared: totalSquares > 0 ? 1 - residualSquares / totalSquares : null
+  };
+};
+
+/**
+ * Classification when every expected value is a 0/1 label or one-hot row, or
+ * a class index for a model with several outputs; regression otherwise
+ */
+export const inferModelTask = (results: ModelTestResult[]): ModelTask => {
+  const comparable = getComparableResults(results);
+  if (comparable.length === 0) return 'regression';
+
+  const isClassification = comparable.every(result => {
+    const expectedRows = toRows(result.expectedTensor!);
+    const outputWidth = toRows(result.outputTensor!)[0]?.length || 0;
+    return expectedRows.every(row => (row.length === 1 && outputWidth > 1
+      ? Number.isInteger(row[0]) && row[0] >= 0 && row[0] < outputWidth
+      : row.every(value => value === 0 || value === 1) && (row.length === 1 || sum(row) === 1)));
+  });
+  return isClassification ? 'classification' : 'regression';
+};
+
+/**
+ * Metrics across every case of a run that has an expected output; null when
+ * none has one
+ */
+export const computeSuiteMetrics = (results: ModelTestResult[], task?: ModelTask): SuiteMetrics | null => {
+  const comparable = getComparableResults(results);
+  if (comparable.length === 0) return null;
+  const resolvedTask = task || inferModelTask(comparable);
+
+  if (resolvedTask === 'classification') {
+    const samples: ClassifiedSample[] = [];
+    comparable.forEach(result => {
+      const outputRows = toRows(result.outputTensor!);
+      const expectedRows = toRows(result.expectedTensor!);
+      outputRows.forEach((scores, index) => {
+        const expectedRow = expectedRows[index];
+        if (!expectedRow) return;
+        // One-hot rows name the class by position, single values by class index or, for binary models, 0/1
+        const label = expectedRow.length > 1
+          ? argmax(expectedRow)
+          : scores.length === 1 ? Number(expectedRow[0] >= BINARY_THRESHOLD) : Math.round(expectedRow[0]);
+        if (label >= 0) samples.push({ scores, label });
+      });
+    });
+    if (samples.length === 0) return null;
+    return { task: 'classification', sampleCount: samples.length, classification: classificationMetrics(samples) };
+  }
+
+  // Regression pairs values position by position, so shapes have to agree
+  const actual: number[] = [];
+  const expected: number[] = [];
+  comparable.forEach(result => {
+    const outputValues = flattenTensor(result.outputTensor!);
+    const expectedValues = flattenTensor(result.expectedTensor!);
+    if (outputValues.length !== expectedValues.length) return;
+    actual.push(...outputValues);
+    expected.push(...expectedValues);
+  });
+  if (actual.length === 0) return null;
+  return { task: 'regression', sampleCount: actual.length, regression: regressionMetrics(actual, expected) };
+};
@@ -0,0 +1,145 @@
+/**
+ * Model Runtime
+ *
+ * Runs TF.js layers and graph models and ONNX models behind one call, so
+ * inference, tests and benchmarks don't depend on how a model was built.
+ * ONNX Runtime is only downloaded once an ONNX model is loaded.
+ */
+import * as tf from '@tensorflow/tfjs';
+import type { InferenceSession, Tensor as OrtTensor } from 'onnxruntime-web';
+import { ModelFormat, ModelSignature, TensorSpec } from '@/types/modelRegistry';
+import { getLayersModelSignature } from './modelVersionUtils';
+
+type OrtTensorConstructor = new (type: OrtTensor.Type, data: OrtTensor.DataType, dims: readonly number[]) => OrtTensor;
+
+// ONNX element types TF.js has no dtype for are read as float32
+const toTfDtype = (type: string): tf.DataType => {
+  if (type === 'bool') return 'bool';
+  if (type.startsWith('int') || type.startsWith('uint')) return 'int32';
+  return 'float32';
+};
+
+const toOrtData = (type: string, values: ArrayLike<number>): OrtTensor.DataType => {
+  switch (type) {
+    case 'int64': return BigInt64Array.from(Array.from(values), value => BigInt(Math.round(value)));
+    case 'int32': return Int32Array.from(values);
+    case 'bool': return Uint8Array.from(values);
+    case 'float64': return Float64Array.from(values);
+    default: return Float32Array.from(values);
+  }
+};
+
+/**
+ * An ONNX Runtime session that takes and returns TF.js tensors
+ */
+export class OnnxModel {
+  constructor(
+    private readonly session: InferenceSession,
+    private readonly TensorClass: OrtTensorConstructor
+  ) {}
+
+  get signature(): ModelSignature {
+    const toSpecs = (metadata: readonly InferenceSession.ValueMetadata[]): TensorSpec[] => {
+      return metadata.map(value => ({
+        name: value.name,
+        // Symbolic dimensions, like a named batch axis, take any size
+        shape: value.isTensor ? value.shape.map(dimension => (typeof dimension === 'number' && dimension >= 0 ? dimension : null)) : [],
+        dtype: value.isTensor ? value.type : 'non-tensor'
+      }));
+    };
+    return { inputs: toSpecs(this.session.inputMetadata), outputs: toSpecs(this.session.outputMetadata) };
+  }
+
+  /**
+   * Feed the model's first input and read back its first output
+   */
+  async predict(input: tf.Tensor): Promise<tf.Tensor> {
+    const [inputSpec] = this.signature.inputs;
+    if (this.session.inputNames.length !== 1) {
+      throw new Error(`The model takes ${this.session.inputNames.length} inputs; only models with one input can be run`);
+    }
+
+    const feed = new this.TensorClass(
+      inputSpec.dtype as OrtTensor.Type,
+      toOrtData(inputSpec.dtype, await input.data() as ArrayLike<number>),
+      input.shape
+    );
+    const results = await this.session.run({ [inputSpec.name]: feed });
+    const output = results[this.session.outputNames[0]];
+
+    try {
+      const values = Array.from(output.data as ArrayLike<number | bigint>, Number);
+      return tf.tensor(values, [...output.dims], toTfDtype(output.type));
+    } finally {
+      Object.values(results).forEach(result => result.dispose());
+    }
+  }
+
+  dispose(): void {
+    this.session.release();
+  }
+}
+
+export type RunnableModel = tf.LayersModel | tf.GraphModel | OnnxModel;
+
+export const getModelFormat = (model: RunnableModel): ModelFormat => {
+  if (model instanceof OnnxModel) return 'onnx';
+  return model instanceof tf.GraphModel ? 'tfjs-graph' : 'tfjs-layers';
+};
+
+const toGraphSpecs = (tensors: tf.GraphModel['inputs']): TensorSpec[] => {
+  return tensors.map(tensor => ({
+    name: tensor.name,
+    // Graph models mark dimensions of any size with -1
+    shape: (tensor.shape || []).map(dimension => (dimension >= 0 ? dimension : null)),
+    dtype: tensor.dtype
+  }));
+};
+
+export const getModelSignature = (model: RunnableModel): ModelSignature => {
+  if (model instanceof OnnxModel) return model.signature;
+  if (model instanceof tf.GraphModel) {
+    return { inputs: toGraphSpecs(model.inputs), outputs: toGraphSpecs(model.outputs) };
+  }
+  return getLayersModelSignature(model);
+};
+
+// The first output of a prediction, disposing the others
+const firstOutput = (output: tf.Tensor | tf.Tensor[] | tf.NamedTensorMap): tf.Tensor => {
+  const outputs = output instanceof tf.Tensor ? [output] : Array.isArray(output) ? output : Object.values(output);
+  const [first, ...rest] = outputs;
+  tf.dispose(rest);
+  return first;
+};
+
+/**
+ * Run a prediction with any model. The caller owns the returned tensor; the
+ * input is left as it was.
+ */
+export const runModel = async (model: RunnableModel, input: tf.Tensor): Promise<tf.Tensor> => {
+  if (model instanceof OnnxModel) {
+    return model.predict(input);
+  }
+
+  if (model instanceof tf.GraphModel) {
+    // Graph models don't convert dtypes themselves
+    const dtype = model.inputs[0]?.dtype;
+    const feed = dtype && dtype !== input.dtype ? tf.cast(input, dtype) : input;
+    try {
+      return firstOutput(await model.predictAsync(feed));
+    } finally {
+      if (feed !== input) feed.dispose();
+    }
+  }
+
+  return firstOutput(model.predict(input));
+};
+
+/**
+ * Start an ONNX Runtime session for a model file
+ */
+export const createOnnxModel = async (bytes: ArrayBuffer): Promise<OnnxModel> => {
+  const ort = await import('onnxruntime-web');
+  const session = await ort.InferenceSession.create(new Uint8Array(bytes));
+  return new OnnxModel(session, ort.Tensor);
+};
@@ -12,6 +12,8 @@ export interface AIModelConfig {
   name: string;
   description: string;
   type: string;
+  // Semantic version of the published weights; saved test suites record it
+  version?: string;
   path: string;
   size: string;
   capabilities: string[];
@@ -250,6 +252,7 @@ export const availableModels: AIModelConfig[] = [
     name: 'Code Pattern Analyzer',
     description: 'Analyzes code for common patterns and potential improvements',
     type: 'tensorflow',
+    version: '1.0.0',
     path: '/models/code-pattern',
     size: '15MB',
     capabilities: ['Code Analysis', 'Pattern Detection'],
@@ -260,6 +263,7 @@ export const availableModels: AIModelConfig[] = [
     name: 'OWL Vision Model',
     description: 'Vision model for object detection and image analysis',
     type: 'tensorflow',
+    version: '1.0.0',
     path: '/models/owl-vision',
     size: '42MB',
     capabilities: ['Object Detection', 'Image Analysis'],
@@ -270,6 +274,7 @@ export const availableModels: AIModelConfig[] = [
     name: 'Self-Learning Core',
     description: 'Core model for self-learning capabilities',
     type: 'tensorflow',
+    version: '1.0.0',
     path: '/models/selflearn-core',
     size: '26MB',
     capabilities: ['Self-Learning', 'Adaptive Learning'],
@@ -280,6 +285,7 @@ export const availableModels: AIModelConfig[] = [
     name: 'LangChain Agent',
     description: 'Agent for natural language processing and code generation',
     type: 'transformers',
+    version: '1.0.0',
     path: '/models/langchain-agent',
     size: '88MB',
     capabilities: ['NLP', 'Code Generation'],
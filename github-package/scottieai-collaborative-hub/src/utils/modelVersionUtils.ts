@@ -0,0 +1,80 @@
+/**
+ * Model Version Utilities
+ *
+ * Semantic versions for registered models, the signature of a loaded model,
+ * and which version of a model is used when none is asked for.
+ */
+import * as tf from '@tensorflow/tfjs';
+import { ModelFormat, ModelSignature, ModelVersion, TensorSpec, VersionBump } from '@/types/modelRegistry';
+
+export const MODEL_FORMAT_NAMES: Record<ModelFormat, string> = {
+  'tfjs-layers': 'TF.js layers model',
+  'tfjs-graph': 'TF.js graph model',
+  onnx: 'ONNX model'
+};
+
+const VERSION_PATTERN = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)$/;
+
+export const isValidVersion = (version: string): boolean => VERSION_PATTERN.test(version);
+
+export const parseVersion = (version: string): [number, number, number] => {
+  const match = VERSION_PATTERN.exec(version);
+  if (!match) {
+    throw new Error(`${version} is not a semantic version like 1.2.0`);
+  }
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+};
+
+// Negative when a is older than b
+export const compareVersions = (a: string, b: string): number => {
+  const [aMajor, aMinor, aPatch] = parseVersion(a);
+  const [bMajor, bMinor, bPatch] = parseVersion(b);
+  return aMajor - bMajor || aMinor - bMinor || aPatch - bPatch;
+};
+
+export const bumpVersion = (version: string, bump: VersionBump): string => {
+  const [major, minor, patch] = parseVersion(version);
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+};
+
+/**
+ * The version after the newest of `versions`, or 1.0.0 for a model with none
+ */
+export const nextVersion = (versions: string[], bump: VersionBump = 'minor'): string => {
+  if (versions.length === 0) return '1.0.0';
+  const newest = [...versions].sort(compareVersions).pop()!;
+  return bumpVersion(newest, bump);
+};
+
+/**
+ * The version used when none is asked for: the production version, or the
+ * newest one while nothing is in production
+ */
+export const pickDefaultVersion = (versions: ModelVersion[]): ModelVersion | undefined => {
+  return versions.find(version => version.stages.includes('production')) ||
+    [...versions].sort((a, b) => compareVersions(b.version, a.version))[0];
+};
+
+const toTensorSpecs = (tensors: tf.SymbolicTensor[]): TensorSpec[] => {
+  return tensors.map(tensor => ({
+    name: tensor.name,
+    shape: tensor.shape.map(dimension => dimension ?? null),
+    dtype: tensor.dtype
+  }));
+};
+
+export const getLayersModelSignature = (model: tf.LayersModel): ModelSignature => ({
+  inputs: toTensorSpecs(model.inputs),
+  outputs: toTensorSpecs(model.outputs)
+});
+
+export const formatTensorSpec = (spec: TensorSpec): string => {
+  return `${spec.name} ${spec.dtype}[${spec.shape.map(dimension => dimension ?? '?').join(', ')}]`;
+};
+
+export const formatModelSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))}KB`;
+  return `${Math.round(bytes / (1024 * 1024))}MB`;
+};
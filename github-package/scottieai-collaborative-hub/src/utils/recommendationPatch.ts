@@ -0,0 +1,165 @@
+/**
+ * Recommendation Patches
+ *
+ * Turns code update recommendations into file diffs against a project's
+ * extracted files, reporting recommendations whose target lines no longer
+ * match the stored code.
+ */
+
+import { CodeUpdateRecommendation } from '@/types/llm';
+import { ArchiveEntry } from './archiveUtils';
+import { createFileDiff, FileDiff, splitLines } from './diffUtils';
+
+export interface PatchConflict {
+  recommendationId: string;
+  filePath: string;
+  reason: 'missing-file' | 'content-mismatch' | 'overlap';
+  lineNumbers?: [number, number];
+  expected: string[];
+  actual: string[];
+}
+
+export interface PatchSet {
+  diffs: FileDiff[];
+  // New content for every changed file, keyed by path
+  changes: Record<string, string>;
+  applied: string[];
+  conflicts: PatchConflict[];
+  // Recommendations without a code change, such as refactoring advice
+  skipped: string[];
+}
+
+interface LineEdit {
+  recommendationId: string;
+  start: number; // 0-based, inclusive
+  end: number; // 0-based, exclusive
+  replacement: string[];
+}
+
+/**
+ * Check whether a recommendation carries a concrete code change
+ */
+export const hasCodeChange = (recommendation: CodeUpdateRecommendation): boolean => {
+  return Boolean(recommendation.currentCode) && typeof recommendation.suggestedCode === 'string';
+};
+
+/**
+ * Build diffs for a set of recommendations against the project's files
+ */
+export const buildPatchSet = (
+  recommendations: CodeUpdateRecommendation[],
+  files: ArchiveEntry[]
+): PatchSet => {
+  const patchSet: PatchSet = { diffs: [], changes: {}, applied: [], conflicts: [], skipped: [] };
+  const editsByFile = new Map<string, LineEdit[]>();
+
+  for (const recommendation of recommendations) {
+    if (!hasCodeChange(recommendation)) {
+      patchSet.skipped.push(recommendation.id);
+      continue;
+    }
+
+    const file = files.find(entry => entry.path === recommendation.filePath);
+    const expected = splitLines(recommendation.currentCode);
+
+    if (!file || file.content === null) {
+      patchSet.conflicts.push({
+        recommendationId: recommendation.id,
+        filePath: recommendation.filePath,
+        reason: 'missing-file',
+        lineNumbers: recommendation.lineNumbers,
+        expected,
+        actual: []
+      });
+      continue;
+    }
+
+    const lines = splitLines(file.content);
+    const start = locateLines(lines, expected, recommendation.lineNumbers);
+
+    if (start === -1) {
+      const hintedStart = recommendation.lineNumbers ? recommendation.lineNumbers[0] - 1 : 0;
+      patchSet.conflicts.push({
+        recommendationId: recommendation.id,
+        filePath: recommendation.filePath,
+        reason: 'content-mismatch',
+        lineNumbers: recommendation.lineNumbers,
+        expected,
+        actual: lines.slice(hintedStart, hintedStart + expected.length)
+      });
+      continue;
+    }
+
+    const edits = editsByFile.get(file.path) || [];
+    edits.push({
+      recommendationId: recommendation.id,
+      start,
+      end: start + expected.length,
+      replacement: splitLines(recommendation.suggestedCode)
+    });
+    editsByFile.set(file.path, edits);
+  }
+
+  for (const [filePath, edits] of editsByFile) {
+    const file = files.find(entry => entry.path === filePath);
+    const lines = splitLines(file.content);
+    const accepted: LineEdit[] = [];
+
+    // The first recommendation touching a range wins; later overlapping ones conflict
+    for (const edit of [...edits].sort((a, b) => a.start - b.start)) {
+      const previous = accepted[accepted.length - 1];
+      if (previous && edit.start < previous.end) {
+        patchSet.conflicts.push({
+          recommendationId: edit.recommendationId,
+          filePath,
+          reason: 'overlap',
+          lineNumbers: [edit.start + 1, edit.end],
+          expected: lines.slice(edit.start, edit.end),
+          actual: previous.replacement
+        });
+        continue;
+      }
+      accepted.push(edit);
+    }
+
+    // Apply bottom-up so earlier line numbers stay valid
+    const patched = [...lines];
+    for (const edit of [...accepted].reverse()) {
+      patched.splice(edit.start, edit.end - edit.start, ...edit.replacement);
+    }
+
+    const trailingNewline = file.content.endsWith('\n') ? '\n' : '';
+    const newContent = patched.length > 0 ? `${patched.join('\n')}${trailingNewline}` : '';
+
+    patchSet.changes[filePath] = newContent;
+    patchSet.diffs.push(createFileDiff(filePath, file.content, newContent));
+    patchSet.applied.push(...accepted.map(edit => edit.recommendationId));
+  }
+
+  patchSet.diffs.sort((a, b) => a.filePath.localeCompare(b.filePath));
+  return patchSet;
+};
+
+// Find the expected lines at the hinted position, or at a unique position elsewhere in the file
+const locateLines = (
+  lines: string[],
+  expected: string[],
+  lineNumbers?: [number, number]
+): number => {
+  const matchesAt = (start: number) =>
+    start >= 0 &&
+    start + expected.length <= lines.length &&
+    expected.every((line, index) => lines[start + index] === line);
+
+  if (lineNumbers && matchesAt(lineNumbers[0] - 1)) {
+    return lineNumbers[0] - 1;
+  }
+
+  const matches: number[] = [];
+  for (let start = 0; start + expected.length <= lines.length; start++) {
+    if (matchesAt(start)) matches.push(start);
+  }
+
+  // An ambiguous match is treated as a conflict rather than guessed
+  return matches.length === 1 ? matches[0] : -1;
+};
@@ -0,0 +1,420 @@
+/**
+ * Technology Detection
+ *
+ * Detects the frameworks, languages and databases used by an extracted code
+ * package from its manifests (package.json, requirements.txt, go.mod,
+ * Cargo.toml, ...) and from file extension statistics. Every detection is
+ * backed by evidence describing where it was found.
+ */
+
+import { ArchiveEntry, isVendoredPath } from './archiveUtils';
+
+export type TechnologyCategory = 'framework' | 'language' | 'database' | 'runtime' | 'tool';
+
+export interface TechnologyEvidence {
+  technology: string;
+  category: TechnologyCategory;
+  source: string; // File path, or 'file-extensions' for statistics
+  reason: string;
+}
+
+export interface LanguageStatistic {
+  language: string;
+  files: number;
+  lines: number;
+  percentage: number; // Share of source lines, 0-100
+}
+
+export interface TechnologyDetectionResult {
+  technologies: string[];
+  evidence: TechnologyEvidence[];
+  languages: LanguageStatistic[];
+}
+
+interface DependencyRule {
+  technology: string;
+  category: TechnologyCategory;
+}
+
+// Minimum share of source lines before a language counts as part of the stack
+const LANGUAGE_SHARE_THRESHOLD = 5;
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'JavaScript',
+  jsx: 'JavaScript',
+  mjs: 'JavaScript',
+  cjs: 'JavaScript',
+  ts: 'TypeScript',
+  tsx: 'TypeScript',
+  py: 'Python',
+  go: 'Go',
+  rs: 'Rust',
+  java: 'Java',
+  kt: 'Kotlin',
+  rb: 'Ruby',
+  php: 'PHP',
+  cs: 'C#',
+  cpp: 'C++',
+  cc: 'C++',
+  hpp: 'C++',
+  c: 'C',
+  h: 'C',
+  swift: 'Swift',
+  dart: 'Dart',
+  vue: 'Vue',
+  svelte: 'Svelte',
+  html: 'HTML',
+  css: 'CSS',
+  scss: 'SCSS',
+  json: 'JSON',
+  md: 'Markdown',
+  yml: 'YAML',
+  yaml: 'YAML',
+  toml: 'TOML',
+  sql: 'SQL',
+  sh: 'Shell',
+  xml: 'XML'
+};
+
+// Languages that count towards the detected stack (markup and data files do not)
+const PROGRAMMING_LANGUAGES = [
+  'JavaScript', 'TypeScript', 'Python', 'Go', 'Rust', 'Java', 'Kotlin', 'Ruby',
+  'PHP', 'C#', 'C++', 'C', 'Swift', 'Dart'
+];
+
+const NPM_DEPENDENCIES: Record<string, DependencyRule> = {
+  'react': { technology: 'React', category: 'framework' },
+  'next': { technology: 'Next.js', category: 'framework' },
+  'vue': { technology: 'Vue.js', category: 'framework' },
+  'nuxt': { technology: 'Nuxt', category: 'framework' },
+  '@angular/core': { technology: 'Angular', category: 'framework' },
+  'svelte': { technology: 'Svelte', category: 'framework' },
+  'electron': { technology: 'Electron', category: 'framework' },
+  'express': { technology: 'Express', category: 'framework' },
+  'koa': { technology: 'Koa', category: 'framework' },
+  'fastify': { technology: 'Fastify', category: 'framework' },
+  '@nestjs/core': { technology: 'NestJS', category: 'framework' },
+  'typescript': { technology: 'TypeScript', category: 'language' },
+  'pg': { technology: 'PostgreSQL', category: 'database' },
+  'postgres': { technology: 'PostgreSQL', category: 'database' },
+  'mysql': { technology: 'MySQL', category: 'database' },
+  'mysql2': { technology: 'MySQL', category: 'database' },
+  'mongodb': { technology: 'MongoDB', category: 'database' },
+  'mongoose': { technology: 'MongoDB', category: 'database' },
+  'sqlite3': { technology: 'SQLite', category: 'database' },
+  'better-sqlite3': { technology: 'SQLite', category: 'database' },
+  'redis': { technology: 'Redis', category: 'database' },
+  'ioredis': { technology: 'Redis', category: 'database' },
+  '@supabase/supabase-js': { technology: 'Supabase', category: 'database' },
+  '@prisma/client': { technology: 'Prisma', category: 'tool' },
+  '@tensorflow/tfjs': { technology: 'TensorFlow.js', category: 'framework' },
+  'vite': { technology: 'Vite', category: 'tool' },
+  'tailwindcss': { technology: 'Tailwind CSS', category: 'tool' }
+};
+
+// npm packages that imply a server-side Node.js runtime
+const NODE_SERVER_PACKAGES = ['express', 'koa', 'fastify', '@nestjs/core', '@hapi/hapi'];
+
+const PYTHON_DEPENDENCIES: Record<string, DependencyRule> = {
+  'django': { technology: 'Django', category: 'framework' },
+  'flask': { technology: 'Flask', category: 'framework' },
+  'fastapi': { technology: 'FastAPI', category: 'framework' },
+  'psycopg2': { technology: 'PostgreSQL', category: 'database' },
+  'psycopg2-binary': { technology: 'PostgreSQL', category: 'database' },
+  'psycopg': { technology: 'PostgreSQL', category: 'database' },
+  'asyncpg': { technology: 'PostgreSQL', category: 'database' },
+  'pymongo': { technology: 'MongoDB', category: 'database' },
+  'motor': { technology: 'MongoDB', category: 'database' },
+  'mysqlclient': { technology: 'MySQL', category: 'database' },
+  'pymysql': { technology: 'MySQL', category: 'database' },
+  'redis': { technology: 'Redis', category: 'database' },
+  'sqlalchemy': { technology: 'SQLAlchemy', category: 'tool' },
+  'tensorflow': { technology: 'TensorFlow', category: 'framework' },
+  'torch': { technology: 'PyTorch', category: 'framework' }
+};
+
+const GO_MODULES: Record<string, DependencyRule> = {
+  'github.com/gin-gonic/gin': { technology: 'Gin', category: 'framework' },
+  'github.com/labstack/echo': { technology: 'Echo', category: 'framework' },
+  'github.com/gofiber/fiber': { technology: 'Fiber', category: 'framework' },
+  'github.com/lib/pq': { technology: 'PostgreSQL', category: 'database' },
+  'github.com/jackc/pgx': { technology: 'PostgreSQL', category: 'database' },
+  'go.mongodb.org/mongo-driver': { technology: 'MongoDB', category: 'database' },
+  'github.com/go-sql-driver/mysql': { technology: 'MySQL', category: 'database' },
+  'github.com/redis/go-redis': { technology: 'Redis', category: 'database' },
+  'gorm.io/gorm': { technology: 'GORM', category: 'tool' }
+};
+
+const CARGO_CRATES: Record<string, DependencyRule> = {
+  'actix-web': { technology: 'Actix Web', category: 'framework' },
+  'rocket': { technology: 'Rocket', category: 'framework' },
+  'axum': { technology: 'Axum', category: 'framework' },
+  'tauri': { technology: 'Tauri', category: 'framework' },
+  'tokio': { technology: 'Tokio', category: 'runtime' },
+  'diesel': { technology: 'Diesel', category: 'tool' },
+  'sqlx': { technology: 'SQLx', category: 'tool' },
+  'tokio-postgres': { technology: 'PostgreSQL', category: 'database' },
+  'postgres': { technology: 'PostgreSQL', category: 'database' },
+  'mongodb': { technology: 'MongoDB', category: 'database' },
+  'redis': { technology: 'Redis', category: 'database' }
+};
+
+const PRISMA_PROVIDERS: Record<string, string> = {
+  postgresql: 'PostgreSQL',
+  mysql: 'MySQL',
+  mongodb: 'MongoDB',
+  sqlite: 'SQLite'
+};
+
+/**
+ * Detect the language of a file from its extension
+ */
+export const detectLanguage = (path: string): string | null => {
+  const fileName = path.split('/').pop() || '';
+  if (fileName === 'Dockerfile') return 'Dockerfile';
+
+  const extension = fileName.includes('.') ? fileName.split('.').pop().toLowerCase() : '';
+  return EXTENSION_LANGUAGES[extension] || null;
+};
+
+/**
+ * Count the lines in a piece of text
+ */
+export const countLines = (content: string): number => {
+  if (!content) return 0;
+  return content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+};
+
+/**
+ * Compute per-language file and line statistics for extracted files
+ */
+export const computeLanguageStatistics = (entries: ArchiveEntry[]): LanguageStatistic[] => {
+  const stats = new Map<string, { files: number; lines: number }>();
+  let totalLines = 0;
+
+  for (const entry of entries) {
+    if (entry.content === null) continue;
+
+    const language = detectLanguage(entry.path);
+    if (!language || !PROGRAMMING_LANGUAGES.includes(language)) continue;
+
+    const lines = countLines(entry.content);
+    const current = stats.get(language) || { files: 0, lines: 0 };
+    stats.set(language, { files: current.files + 1, lines: current.lines + lines });
+    totalLines += lines;
+  }
+
+  return Array.from(stats.entries())
+    .map(([language, { files, lines }]) => ({
+      language,
+      files,
+      lines,
+      percentage: totalLines > 0 ? Math.round((lines / totalLines) * 1000) / 10 : 0
+    }))
+    .sort((a, b) => b.lines - a.lines);
+};
+
+/**
+ * Detect technologies from the contents of an extracted code package
+ */
+export const detectTechnologiesFromFiles = (entries: ArchiveEntry[]): TechnologyDetectionResult => {
+  const evidence: TechnologyEvidence[] = [];
+  const sourceEntries = entries.filter(entry => entry.content !== null && !isVendoredPath(entry.path));
+
+  for (const entry of sourceEntries) {
+    const fileName = entry.path.split('/').pop();
+
+    try {
+      switch (fileName) {
+        case 'package.json':
+          evidence.push(...detectFromPackageJson(entry));
+          break;
+        case 'tsconfig.json':
+          evidence.push({ technology: 'TypeScript', category: 'language', source: entry.path, reason: 'TypeScript compiler configuration' });
+          break;
+        case 'requirements.txt':
+          evidence.push(...detectFromRequirements(entry));
+          break;
+        case 'pyproject.toml':
+        case 'Pipfile':
+          evidence.push(...detectFromPythonProject(entry));
+          break;
+        case 'go.mod':
+          evidence.push(...detectFromGoMod(entry));
+          break;
+        case 'Cargo.toml':
+          evidence.push(...detectFromCargoToml(entry));
+          break;
+        case 'schema.prisma':
+          evidence.push(...detectFromPrismaSchema(entry));
+          break;
+        case 'Dockerfile':
+          evidence.push({ technology: 'Docker', category: 'tool', source: entry.path, reason: 'Dockerfile present' });
+          break;
+      }
+    } catch (error) {
+      // A malformed manifest should not abort detection for the rest of the package
+      console.warn(`Could not parse manifest ${entry.path}:`, error);
+    }
+  }
+
+  const languages = computeLanguageStatistics(sourceEntries);
+  for (const stat of languages) {
+    if (stat.percentage < LANGUAGE_SHARE_THRESHOLD) continue;
+
+    evidence.push({
+      technology: stat.language,
+      category: 'language',
+      source: 'file-extensions',
+      reason: `${stat.files} file(s), ${stat.percentage}% of source lines`
+    });
+  }
+
+  return {
+    technologies: [...new Set(evidence.map(item => item.technology))],
+    evidence,
+    languages
+  };
+};
+
+const detectFromPackageJson = (entry: ArchiveEntry): TechnologyEvidence[] => {
+  const manifest = JSON.parse(entry.content);
+  const dependencies: Record<string, string> = {
+    ...(manifest.dependencies || {}),
+    ...(manifest.devDependencies || {}),
+    ...(manifest.peerDependencies || {})
+  };
+  const evidence: TechnologyEvidence[] = [];
+
+  for (const [name, version] of Object.entries(dependencies)) {
+    const rule = NPM_DEPENDENCIES[name];
+    if (rule) {
+      evidence.push({ ...rule, source: entry.path, reason: `Dependency "${name}" (${version})` });
+    }
+  }
+
+  const serverPackage = Object.keys(dependencies).find(name => NODE_SERVER_PACKAGES.includes(name));
+  if (serverPackage) {
+    evidence.push({ technology: 'Node.js', category: 'runtime', source: entry.path, reason: `Server dependency "${serverPackage}"` });
+  } else if (manifest.engines?.node) {
+    evidence.push({ technology: 'Node.js', category: 'runtime', source: entry.path, reason: `Engine requirement node ${manifest.engines.node}` });
+  }
+
+  return evidence;
+};
+
+const detectFromRequirements = (entry: ArchiveEntry): TechnologyEvidence[] => {
+  const evidence: TechnologyEvidence[] = [
+    { technology: 'Python', category: 'language', source: entry.path, reason: 'requirements.txt present' }
+  ];
+
+  for (const line of entry.content.split('\n')) {
+    const requirement = line.split('#')[0].trim();
+    if (!requirement || requirement.startsWith('-')) continue;
+
+    const name = requirement.split(/[<>=!~;[\s]/)[0].toLowerCase();
+    const rule = PYTHON_DEPENDENCIES[name];
+    if (rule) {
+      evidence.push({ ...rule, source: entry.path, reason: `Requirement "${requirement}"` });
+    }
+  }
+
+  return evidence;
+};
+
+const detectFromPythonProject = (entry: ArchiveEntry): TechnologyEvidence[] => {
+  const evidence: TechnologyEvidence[] = [
+    { technology: 'Python', category: 'language', source: entry.path, reason: `${entry.path.split('/').pop()} present` }
+  ];
+  const content = entry.content.toLowerCase();
+
+  for (const [name, rule] of Object.entries(PYTHON_DEPENDENCIES)) {
+    // Matches both `name = "..."` tables and `"name>=1.0"` dependency arrays
+    const pattern = new RegExp(`(^|["'\\s])${escapeRegExp(name)}(\\s*=|["'<>=~!\\[])`, 'm');
+    if (pattern.test(content)) {
+      evidence.push({ ...rule, source: entry.path, reason: `Dependency "${name}"` });
+    }
+  }
+
+  return evidence;
+};
+
+const detectFromGoMod = (entry: ArchiveEntry): TechnologyEvidence[] => {
+  const goVersion = entry.content.match(/^go\s+([\d.]+)/m);
+  const evidence: TechnologyEvidence[] = [
+    {
+      technology: 'Go',
+      category: 'language',
+      source: entry.path,
+      reason: goVersion ? `Go module targeting go ${goVersion[1]}` : 'Go module definition'
+    }
+  ];
+
+  for (const [modulePath, rule] of Object.entries(GO_MODULES)) {
+    const pattern = new RegExp(`^\\s*(require\\s+)?${escapeRegExp(modulePath)}(/v\\d+)?\\s+(v\\S+)`, 'm');
+    const match = entry.content.match(pattern);
+    if (match) {
+      evidence.push({ ...rule, source: entry.path, reason: `Module "${modulePath}" ${match[3]}` });
+    }
+  }
+
+  return evidence;
+};
+
+const detectFromCargoToml = (entry: ArchiveEntry): TechnologyEvidence[] => {
+  const evidence: TechnologyEvidence[] = [
+    { technology: 'Rust', category: 'language', source: entry.path, reason: 'Cargo manifest present' }
+  ];
+  const dependencies = parseCargoDependencies(entry.content);
+
+  for (const [crate, rule] of Object.entries(CARGO_CRATES)) {
+    if (dependencies.includes(crate)) {
+      evidence.push({ ...rule, source: entry.path, reason: `Crate "${crate}"` });
+    }
+  }
+
+  return evidence;
+};
+
+const detectFromPrismaSchema = (entry: ArchiveEntry): TechnologyEvidence[] => {
+  const evidence: TechnologyEvidence[] = [
+    { technology: 'Prisma', category: 'tool', source: entry.path, reason: 'Prisma schema present' }
+  ];
+  const provider = entry.content.match(/datasource\s+\w+\s*{[^}]*provider\s*=\s*"(\w+)"/);
+  const database = provider && PRISMA_PROVIDERS[provider[1]];
+
+  if (database) {
+    evidence.push({ technology: database, category: 'database', source: entry.path, reason: `Prisma datasource provider "${provider[1]}"` });
+  }
+
+  return evidence;
+};
+
+// Collect crate names from every [*dependencies] table of a Cargo.toml
+const parseCargoDependencies = (content: string): string[] => {
+  const crates: string[] = [];
+  let inDependencies = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    const table = line.match(/^\[(.+)\]$/);
+
+    if (table) {
+      const tableName = table[1].trim();
+      // [dependencies.serde] style tables name the crate directly
+      const dottedCrate = tableName.match(/dependencies\.(.+)$/);
+      if (dottedCrate) crates.push(dottedCrate[1].replace(/"/g, ''));
+      inDependencies = /(^|\.)(dev-|build-)?dependencies$/.test(tableName);
+      continue;
+    }
+
+    if (inDependencies) {
+      const crate = line.match(/^([A-Za-z0-9_-]+)\s*=/);
+      if (crate) crates.push(crate[1]);
+    }
+  }
+
+  return crates;
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -1,5 +1,6 @@
 import * as tf from '@tensorflow/tfjs';
 import { SupportedLanguage } from './i18nUtils';
+import { runModel, RunnableModel } from './modelRuntime';
 
 /**
  * Utility functions for TensorFlow.js operations
@@ -41,7 +42,7 @@ export const disposeTensors = (tensors: (tf.Tensor | null | undefined)[]): void
  * Runs inference with proper error handling and tensor cleanup
  */
 export const safeInference = async <T>(
-  model: tf.LayersModel | null,
+  model: RunnableModel | null,
   input: number[] | number[][] | tf.Tensor,
   language?: SupportedLanguage
 ): Promise<T | null> => {
@@ -63,7 +64,7 @@ export const safeInference = async <T>(
     }
     
     // Run prediction
-    outputTensor = model.predict(inputTensor) as tf.Tensor;
+    outputTensor = await runModel(model, inputTensor);
     
     // Apply language-specific postprocessing if applicable
     if (language && language !== 'en') {
@@ -0,0 +1,319 @@
+/**
+ * Test Dataset Utilities
+ *
+ * Reads model test inputs and expected outputs from CSV, JSON and NumPy .npy
+ * files and turns them into test cases. Arrays are read with their first axis
+ * as the list of cases, and each case keeps a batch dimension of one so it can
+ * be fed to the model as is.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { ModelTestCase, TensorValues, TestTolerance } from '@/types/modelTesting';
+
+// A dense array read from a file, values in row-major order
+export interface NumericArray {
+  shape: number[];
+  values: number[];
+}
+
+export type TestDatasetFormat = 'csv' | 'json' | 'npy';
+
+// CSV columns holding expected outputs; every other column is an input
+const EXPECTED_COLUMN = /^(expected|output|target|label|y)(?=$|[\s_\-.[(\d])/i;
+
+export const getTensorShape = (values: TensorValues): number[] => {
+  const shape: number[] = [];
+  let current = values;
+  while (Array.isArray(current)) {
+    shape.push(current.length);
+    current = current[0];
+  }
+  return shape;
+};
+
+export const flattenTensor = (values: TensorValues): number[] => {
+  return Array.isArray(values) ? values.flatMap(flattenTensor) : [values];
+};
+
+// Nest row-major values into arrays of the given shape
+export const reshapeValues = (values: number[], shape: number[]): TensorValues => {
+  if (shape.length === 0) return values[0];
+
+  const [size, ...rest] = shape;
+  const stride = rest.reduce((product, dimension) => product * dimension, 1);
+  return Array.from({ length: size }, (_, index) =>
+    reshapeValues(values.slice(index * stride, (index + 1) * stride), rest)
+  );
+};
+
+// Every row must be as long as the first, all the way down
+const isRectangular = (values: TensorValues): boolean => {
+  if (!Array.isArray(values)) return typeof values === 'number' && Number.isFinite(values);
+  return values.every(item => isRectangular(item) &&
+    JSON.stringify(getTensorShape(item)) === JSON.stringify(getTensorShape(values[0])));
+};
+
+const toTensorValues = (value: unknown, label: string): TensorValues => {
+  if (!isRectangular(value as TensorValues)) {
+    throw new Error(`${label} must be a number or nested arrays of numbers with the same length at each level`);
+  }
+  return value as TensorValues;
+};
+
+const toTolerance = (value: unknown): TestTolerance | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const { absolute, relative } = value as Partial<TestTolerance>;
+  return { absolute: Number(absolute) || 0, relative: Number(relative) || 0 };
+};
+
+const createCase = (
+  index: number,
+  input: TensorValues,
+  expectedOutput?: TensorValues,
+  details: Partial<ModelTestCase> = {}
+): ModelTestCase => ({
+  id: uuidv4(),
+  name: details.name || `Case ${index + 1}`,
+  description: details.description || '',
+  input,
+  expectedOutput,
+  category: details.category || 'accuracy',
+  tolerance: details.tolerance
+});
+
+/**
+ * One case per entry along the first axis of `inputs`, paired with the same
+ * entry of `expected`. A one-dimensional array is a single case.
+ */
+export const casesFromArrays = (inputs: NumericArray, expected?: NumericArray): ModelTestCase[] => {
+  const split = (array: NumericArray): TensorValues[] => {
+    if (array.shape.length <= 1) return [reshapeValues(array.values, [1, ...array.shape])];
+
+    const [count, ...sample] = array.shape;
+    const size = sample.reduce((product, dimension) => product * dimension, 1);
+    return Array.from({ length: count }, (_, index) =>
+      reshapeValues(array.values.slice(index * size, (index + 1) * size), [1, ...sample])
+    );
+  };
+
+  const inputCases = split(inputs);
+  const expectedCases = expected ? split(expected) : [];
+  if (expected && expectedCases.length !== inputCases.length) {
+    throw new Error(`Found ${inputCases.length} inputs but ${expectedCases.length} expected outputs`);
+  }
+
+  return inputCases.map((input, index) => createCase(index, input, expectedCases[index]));
+};
+
+const parseCsvRow = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+/**
+ * One case per row. With a header row, columns named like "expected",
+ * "output", "target", "label" or "y" (e.g. "y1", "expected_0") hold the
+ * expected output; without one, every column is an input.
+ */
+export const parseCsvDataset = (text: string): ModelTestCase[] => {
+  const rows = text.split(/\r?\n/).filter(line => line.trim() !== '').map(parseCsvRow);
+  if (rows.length === 0) throw new Error('The CSV file is empty');
+
+  const hasHeader = rows[0].some(cell => cell === '' || Number.isNaN(Number(cell)));
+  const header = hasHeader ? rows[0] : rows[0].map((_, index) => `x${index}`);
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  if (dataRows.length === 0) throw new Error('The CSV file has a header but no rows');
+
+  const expectedColumns = header.map((name, index) => (EXPECTED_COLUMN.test(name) ? index : -1)).filter(index => index >= 0);
+  const inputColumns = header.map((_, index) => index).filter(index => !expectedColumns.includes(index));
+  if (inputColumns.length === 0) throw new Error('The CSV file has no input columns');
+
+  return dataRows.map((row, rowIndex) => {
+    const lineNumber = rowIndex + (hasHeader ? 2 : 1);
+    if (row.length !== header.length) {
+      throw new Error(`Line ${lineNumber} has ${row.length} columns; expected ${header.length}`);
+    }
+    const values = row.map((cell, column) => {
+      const value = Number(cell);
+      if (cell === '' || Number.isNaN(value)) {
+        throw new Error(`Line ${lineNumber}, column "${header[column]}" isn't a number: "${cell}"`);
+      }
+      return value;
+    });
+
+    return createCase(
+      rowIndex,
+      [inputColumns.map(column => values[column])],
+      expectedColumns.length > 0 ? [expectedColumns.map(column => values[column])] : undefined,
+      { name: `Row ${rowIndex + 1}` }
+    );
+  });
+};
+
+/**
+ * Either a list of cases, `{ "cases": [...] }`, where each case has an
+ * `input` and optionally `expected`, `name`, `description`, `category` and
+ * `tolerance`, or `{ "inputs": [...], "expected": [...] }` with one entry per
+ * case.
+ */
+export const parseJsonDataset = (text: string): ModelTestCase[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The JSON file could not be parsed');
+  }
+
+  const record = (data && typeof data === 'object' && !Array.isArray(data)) ? data as Record<string, unknown> : null;
+
+  if (record && Array.isArray(record.inputs)) {
+    const inputs = toTensorValues(record.inputs, '"inputs"');
+    const expected = record.expected !== undefined ? toTensorValues(record.expected, '"expected"') : undefined;
+    return casesFromArrays(
+      { shape: getTensorShape(inputs), values: flattenTensor(inputs) },
+      expected !== undefined ? { shape: getTensorShape(expected), values: flattenTensor(expected) } : undefined
+    );
+  }
+
+  const entries = Array.isArray(data) ? data : record?.cases;
+  if (!Array.isArray(entries)) {
+    throw new Error('Expected a list of cases, { "cases": [...] } or { "inputs": [...] }');
+  }
+
+  return entries.map((entry, index) => {
+    if (!entry || typeof entry !== 'object' || !('input' in entry)) {
+      throw new Error(`Case ${index + 1} has no "input"`);
+    }
+    const { input, expected, expectedOutput, name, description, category, tolerance } = entry as Record<string, unknown>;
+    const expectedValues = expected ?? expectedOutput;
+
+    return createCase(
+      index,
+      toTensorValues(input, `Case ${index + 1} "input"`),
+      expectedValues !== undefined ? toTensorValues(expectedValues, `Case ${index + 1} "expected"`) : undefined,
+      {
+        name: typeof name === 'string' ? name : undefined,
+        description: typeof description === 'string' ? description : undefined,
+        category: category === 'performance' || category === 'edge-case' ? category : 'accuracy',
+        tolerance: toTolerance(tolerance)
+      }
+    );
+  });
+};
+
+const NPY_MAGIC = '\x93NUMPY';
+
+/**
+ * Read a NumPy .npy file of numbers or booleans
+ */
+export const parseNpy = (buffer: ArrayBuffer): NumericArray => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  if (bytes.length < 10 || String.fromCharCode(...bytes.slice(0, 6)) !== NPY_MAGIC) {
+    throw new Error('Not a NumPy .npy file');
+  }
+
+  const major = bytes[6];
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const dataOffset = (major === 1 ? 10 : 12) + headerLength;
+  const header = new TextDecoder().decode(bytes.slice(major === 1 ? 10 : 12, dataOffset));
+
+  const descr = header.match(/'descr':\s*'([<>|=])([a-zA-Z])(\d+)'/);
+  const fortranOrder = /'fortran_order':\s*True/.test(header);
+  const shapeMatch = header.match(/'shape':\s*\(([^)]*)\)/);
+  if (!descr || !shapeMatch) throw new Error('The .npy header could not be read');
+
+  const [, byteOrder, kind, sizeText] = descr;
+  const itemSize = Number(sizeText);
+  const littleEndian = byteOrder !== '>';
+  const shape = shapeMatch[1].split(',').map(part => part.trim()).filter(Boolean).map(Number);
+  const count = shape.reduce((product, dimension) => product * dimension, 1);
+
+  const readers: Record<string, (offset: number) => number> = {
+    f4: offset => view.getFloat32(offset, littleEndian),
+    f8: offset => view.getFloat64(offset, littleEndian),
+    i1: offset => view.getInt8(offset),
+    i2: offset => view.getInt16(offset, littleEndian),
+    i4: offset => view.getInt32(offset, littleEndian),
+    i8: offset => Number(view.getBigInt64(offset, littleEndian)),
+    u1: offset => view.getUint8(offset),
+    u2: offset => view.getUint16(offset, littleEndian),
+    u4: offset => view.getUint32(offset, littleEndian),
+    u8: offset => Number(view.getBigUint64(offset, littleEndian)),
+    b1: offset => view.getUint8(offset)
+  };
+  const read = readers[`${kind}${itemSize}`];
+  if (!read) throw new Error(`Unsupported .npy data type "${byteOrder}${kind}${itemSize}"; use floats, integers or booleans`);
+  if (dataOffset + count * itemSize > bytes.length) throw new Error('The .npy file is truncated');
+
+  const stored = Array.from({ length: count }, (_, index) => read(dataOffset + index * itemSize));
+  if (!fortranOrder || shape.length < 2) return { shape, values: stored };
+
+  // Column-major data: find each row-major position's offset with the first index varying fastest
+  const values = Array.from({ length: count }, (_, index) => {
+    const position: number[] = [];
+    let remainder = index;
+    for (let axis = shape.length - 1; axis >= 0; axis--) {
+      position[axis] = remainder % shape[axis];
+      remainder = Math.floor(remainder / shape[axis]);
+    }
+
+    let offset = 0;
+    let stride = 1;
+    position.forEach((value, axis) => {
+      offset += value * stride;
+      stride *= shape[axis];
+    });
+    return stored[offset];
+  });
+  return { shape, values };
+};
+
+export const getTestDatasetFormat = (fileName: string): TestDatasetFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension === 'csv' || extension === 'json' || extension === 'npy' ? extension : null;
+};
+
+/**
+ * Read test cases from a CSV, JSON or .npy file. Expected outputs for .npy
+ * inputs come from a second .npy file with the same number of entries.
+ */
+export const importTestCases = async (file: File, expectedFile?: File): Promise<ModelTestCase[]> => {
+  const format = getTestDatasetFormat(file.name);
+
+  if (format === 'csv') return parseCsvDataset(await file.text());
+  if (format === 'json') return parseJsonDataset(await file.text());
+  if (format === 'npy') {
+    if (expectedFile && getTestDatasetFormat(expectedFile.name) !== 'npy') {
+      throw new Error('Expected outputs for .npy inputs must also be a .npy file');
+    }
+    const inputs = parseNpy(await file.arrayBuffer());
+    const expected = expectedFile ? parseNpy(await expectedFile.arrayBuffer()) : undefined;
+    return casesFromArrays(inputs, expected);
+  }
+
+  throw new Error(`Unsupported file type "${file.name}"; use .csv, .json or .npy`);
+};
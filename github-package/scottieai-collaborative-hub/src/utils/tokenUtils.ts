@@ -0,0 +1,189 @@
+/**
+ * Token Utilities
+ *
+ * Estimates prompt sizes per provider and packs chat history into a model's
+ * context window, so long conversations are trimmed by tokens rather than by
+ * message count.
+ */
+
+import { ChatMessage, LLMProvider } from '@/types/llm';
+
+// Average characters per token for each provider's tokenizer on English text and code
+const CHARS_PER_TOKEN: Record<LLMProvider, number> = {
+  openai: 4,
+  anthropic: 3.5,
+  cohere: 4.2,
+  local: 3.8
+};
+
+// Tokens each message costs for role markers and separators
+const MESSAGE_OVERHEAD: Record<LLMProvider, number> = {
+  openai: 4,
+  anthropic: 5,
+  cohere: 4,
+  local: 4
+};
+
+// Context windows by model name; longer prefixes win when several match
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4o': 128000,
+  'gpt-4-turbo': 128000,
+  'gpt-4-32k': 32768,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 16385,
+  'claude-3': 200000,
+  'claude-2': 100000,
+  'command-r-plus': 128000,
+  'command-r': 128000,
+  'command-light': 4096,
+  'command': 4096,
+  'llama3.1': 128000,
+  'llama3': 8192,
+  'mistral': 32768,
+  'codellama': 16384
+};
+
+// Fallbacks for models missing from the table
+const DEFAULT_CONTEXT_WINDOWS: Record<LLMProvider, number> = {
+  openai: 8192,
+  anthropic: 100000,
+  cohere: 4096,
+  local: 4096
+};
+
+/**
+ * Estimate how many tokens a piece of text uses
+ */
+export const estimateTokens = (text: string, provider: LLMProvider): number => {
+  if (!text) return 0;
+
+  // Words and punctuation rarely merge across boundaries, so they bound the count from below
+  const pieces = text.match(/[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu)?.length || 0;
+  return Math.max(pieces, Math.ceil(text.length / CHARS_PER_TOKEN[provider]));
+};
+
+/**
+ * Estimate the tokens a message adds to a prompt
+ */
+export const estimateMessageTokens = (message: ChatMessage, provider: LLMProvider): number => {
+  const toolPayload = message.toolCalls || message.toolResults
+    ? JSON.stringify([message.toolCalls || [], message.toolResults || []])
+    : '';
+  return estimateTokens(message.content, provider) + estimateTokens(toolPayload, provider) + MESSAGE_OVERHEAD[provider];
+};
+
+/**
+ * Look up a model's context window, falling back to the provider default
+ */
+export const getContextWindow = (provider: LLMProvider, model?: string): number => {
+  if (model) {
+    const match = Object.keys(MODEL_CONTEXT_WINDOWS)
+      .filter(prefix => model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    if (match) return MODEL_CONTEXT_WINDOWS[match];
+  }
+  return DEFAULT_CONTEXT_WINDOWS[provider];
+};
+
+/**
+ * Tokens a conversation digest may use, leaving most of the window for recent turns
+ */
+export const getDigestBudget = (contextWindow: number): number => {
+  return Math.min(1000, Math.floor(contextWindow * 0.1));
+};
+
+export interface PackOptions {
+  provider: LLMProvider;
+  model?: string;
+  // System prompt including any context data; never dropped
+  systemPrompt: string;
+  // Running summary of turns that no longer fit
+  digest?: string;
+  // Conversation turns, oldest first, ending with the message being sent
+  history: ChatMessage[];
+  // Tokens reserved for the model's reply
+  completionTokens: number;
+  // Optional cap on the number of turns kept verbatim
+  maxMessages?: number;
+}
+
+export interface PackedContext {
+  messages: ChatMessage[];
+  // Oldest turns that did not fit and should be folded into the digest
+  evicted: ChatMessage[];
+  promptTokens: number;
+  contextWindow: number;
+}
+
+/**
+ * Pack the system prompt, digest and as many recent turns as fit into the context window
+ */
+export const packContextWindow = (options: PackOptions): PackedContext => {
+  const { provider, history, digest } = options;
+  const contextWindow = getContextWindow(provider, options.model);
+  const budget = contextWindow - options.completionTokens;
+
+  const systemMessage: ChatMessage = {
+    role: 'system',
+    content: digest
+      ? `${options.systemPrompt}\n\nSummary of the earlier conversation:\n${digest}`
+      : options.systemPrompt
+  };
+
+  let promptTokens = estimateMessageTokens(systemMessage, provider);
+  let firstKept = history.length;
+  const maxMessages = options.maxMessages || history.length;
+
+  // Walk back from the newest turn; the message being sent is always kept
+  while (firstKept > 0) {
+    const tokens = estimateMessageTokens(history[firstKept - 1], provider);
+    const isLatest = firstKept === history.length;
+    const exceedsCap = history.length - firstKept >= maxMessages;
+
+    if (!isLatest && (promptTokens + tokens > budget || exceedsCap)) break;
+
+    promptTokens += tokens;
+    firstKept--;
+  }
+
+  // Tool results can't be sent without the assistant turn that requested them
+  while (firstKept < history.length - 1 && history[firstKept].role === 'tool') {
+    promptTokens -= estimateMessageTokens(history[firstKept], provider);
+    firstKept++;
+  }
+
+  return {
+    messages: [systemMessage, ...history.slice(firstKept)],
+    evicted: history.slice(0, firstKept),
+    promptTokens,
+    contextWindow
+  };
+};
+
+/**
+ * Fold turns into a digest without a model, keeping the newest lines within the budget
+ */
+export const summarizeTurnsLocally = (
+  previousDigest: string,
+  turns: ChatMessage[],
+  maxTokens: number,
+  provider: LLMProvider
+): string => {
+  const lines = [
+    ...(previousDigest ? previousDigest.split('\n') : []),
+    ...turns.map(turn => {
+      const text = (turn.toolResults
+        ? turn.toolResults.map(result => `${result.name} returned ${result.content}`).join('; ')
+        : turn.content || (turn.toolCalls || []).map(call => `called ${call.name}`).join(', ')
+      ).replace(/\s+/g, ' ').trim();
+      const excerpt = text.length > 160 ? `${text.slice(0, 157)}...` : text;
+      return `- ${turn.role === 'user' ? 'User' : turn.role === 'tool' ? 'Tool' : 'Assistant'}: ${excerpt}`;
+    })
+  ];
+
+  while (lines.length > 1 && estimateTokens(lines.join('\n'), provider) > maxTokens) {
+    lines.shift();
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,26 @@
+/**
+ * WebAssembly Backend
+ *
+ * Registers TF.js's wasm backend, with its binaries bundled by Vite rather
+ * than fetched from a CDN, so models can run and be benchmarked on it.
+ */
+import * as tf from '@tensorflow/tfjs';
+import { setWasmPaths } from '@tensorflow/tfjs-backend-wasm';
+import wasmPath from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url';
+import wasmSimdPath from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url';
+import wasmThreadedSimdPath from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url';
+
+// The backend picks the fastest binary the browser supports
+setWasmPaths({
+  'tfjs-backend-wasm.wasm': wasmPath,
+  'tfjs-backend-wasm-simd.wasm': wasmSimdPath,
+  'tfjs-backend-wasm-threaded-simd.wasm': wasmThreadedSimdPath
+});
+
+// The package registers wasm ahead of cpu and webgl. Moving it behind them keeps
+// the default backend as it was; benchmarks select wasm explicitly.
+const wasmFactory = tf.findBackendFactory('wasm');
+if (wasmFactory) {
+  tf.removeBackend('wasm');
+  tf.registerBackend('wasm', wasmFactory, 0);
+}
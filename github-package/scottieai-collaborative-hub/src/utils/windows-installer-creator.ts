@@ -6,26 +6,19 @@ import * as path from 'path';
 import { execSync } from 'child_process';
 import * as JSZip from 'jszip';
 import { saveAs } from 'file-saver';
-
-// Define types for installer configuration
-export interface InstallerConfig {
-  appName: string;
-  appVersion: string;
-  publisher: string;
-  description: string;
-  outputDir: string;
-  sourceDir: string;
-  iconPath?: string;
-  licenseFile?: string;
-  installerType: 'exe' | 'msi';
-  installerOptions: {
-    perMachine: boolean;
-    createDesktopShortcut: boolean;
-    createStartMenuShortcut: boolean;
-    runAfterFinish: boolean;
-    allowToChangeInstallationDirectory: boolean;
-  };
-}
+import { InstallerConfig, InstallerIssue } from '@/types/installer';
+import {
+  buildInnoSetupScript,
+  buildWixDocument,
+  getStagedIconPath,
+  getStagedLicensePath,
+  renderInnoSetupScript,
+  renderWixDocument,
+  validateInnoSetupScript,
+  validateWixDocument
+} from './installerScripts';
+
+export type { InstallerConfig } from '@/types/installer';
 
 /**
  * Creates a Windows installer package (EXE or MSI) for the ScottieAI Collaborative Hub
@@ -435,6 +428,72 @@ function addFilesToZip(sourceDir: string, zipFolder: JSZip): void {
   }
 }
 
+/**
+ * Lists files under a directory as forward-slash paths relative to it
+ */
+function listFiles(dir: string, prefix = ''): string[] {
+  return fs.readdirSync(dir).flatMap(file => {
+    const filePath = path.join(dir, file);
+    return fs.statSync(filePath).isDirectory()
+      ? listFiles(filePath, `${prefix}${file}/`)
+      : [`${prefix}${file}`];
+  });
+}
+
+/**
+ * Copies the app, icon and license into the layout the installer scripts expect
+ */
+function stageInstallerFiles(config: InstallerConfig, stagingDir: string): void {
+  copySourceFiles(config.sourceDir, path.join(stagingDir, 'app'));
+
+  const icon = getStagedIconPath(config);
+  if (icon && fs.existsSync(config.iconPath!)) {
+    fs.copyFileSync(config.iconPath!, path.join(stagingDir, icon));
+  }
+
+  const license = getStagedLicensePath(config);
+  if (license && fs.existsSync(config.licenseFile!)) {
+    fs.copyFileSync(config.licenseFile!, path.join(stagingDir, license));
+  }
+}
+
+/**
+ * Fails with every problem found, before the Windows-only compiler runs
+ */
+function assertValidInstaller(kind: string, issues: InstallerIssue[]): void {
+  issues.filter(issue => issue.severity === 'warning').forEach(issue => console.warn(issue.message));
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${kind} installer definition:\n${errors.map(issue => `- ${issue.message}`).join('\n')}`);
+  }
+}
+
+/**
+ * Copies the first matching installer from the build output to the output directory
+ */
+function collectInstaller(config: InstallerConfig, outputPath: string, extension: string, tempDir: string): string {
+  const installerFiles = fs.readdirSync(outputPath).filter(file => 
+    file.endsWith(extension) && file.includes(config.appName)
+  );
+  
+  if (installerFiles.length === 0) {
+    throw new Error('Installer creation failed: No installer file found');
+  }
+  
+  const installerPath = path.join(outputPath, installerFiles[0]);
+  const finalInstallerPath = path.join(config.outputDir, installerFiles[0]);
+  
+  // Copy installer to output directory
+  fs.copyFileSync(installerPath, finalInstallerPath);
+  
+  // Clean up temporary directory
+  fs.rmSync(tempDir, { recursive: true, force: true });
+  
+  console.log(`Installer created successfully: ${finalInstallerPath}`);
+  return finalInstallerPath;
+}
+
 /**
  * Creates a standalone executable installer using Inno Setup
  * This is an alternative approach for Windows installers
@@ -453,92 +512,53 @@ export function createInnoSetupInstaller(config: InstallerConfig): string {
     fs.mkdirSync(tempDir, { recursive: true });
   }
   
-  // Copy source files to temp directory
-  copySourceFiles(config.sourceDir, path.join(tempDir, 'app'));
+  stageInstallerFiles(config, tempDir);
   
-  // Create Inno Setup script
+  // Create and check the Inno Setup script
+  const script = buildInnoSetupScript(config);
+  assertValidInstaller('Inno Setup', validateInnoSetupScript(script, listFiles(tempDir)));
   const scriptPath = path.join(tempDir, 'installer.iss');
-  const script = createInnoSetupScript(config, tempDir);
-  fs.writeFileSync(scriptPath, script);
+  fs.writeFileSync(scriptPath, renderInnoSetupScript(script));
   
   // Run Inno Setup compiler
   console.log('Running Inno Setup compiler...');
   execSync(`iscc "${scriptPath}"`, { cwd: tempDir });
   
-  // Get installer file path
-  const outputPath = path.join(tempDir, 'Output');
-  const installerFiles = fs.readdirSync(outputPath).filter(file => 
-    file.endsWith('.exe') && file.includes(config.appName)
-  );
+  return collectInstaller(config, path.join(tempDir, 'Output'), '.exe', tempDir);
+}
+
+/**
+ * Creates an MSI installer with the WiX Toolset (v4 or later)
+ */
+export function createWixInstaller(config: InstallerConfig): string {
+  console.log(`Creating WiX installer for ${config.appName} v${config.appVersion}`);
   
-  if (installerFiles.length === 0) {
-    throw new Error('Installer creation failed: No installer file found');
+  // Create output directory if it doesn't exist
+  if (!fs.existsSync(config.outputDir)) {
+    fs.mkdirSync(config.outputDir, { recursive: true });
   }
   
-  const installerPath = path.join(outputPath, installerFiles[0]);
-  const finalInstallerPath = path.join(config.outputDir, installerFiles[0]);
+  // Create temporary directory for installer files
+  const tempDir = path.join(config.outputDir, 'wix-temp');
+  if (!fs.existsSync(tempDir)) {
+    fs.mkdirSync(tempDir, { recursive: true });
+  }
   
-  // Copy installer to output directory
-  fs.copyFileSync(installerPath, finalInstallerPath);
+  stageInstallerFiles(config, tempDir);
   
-  // Clean up temporary directory
-  fs.rmSync(tempDir, { recursive: true, force: true });
+  // Create and check the WiX source
+  const document = buildWixDocument(config);
+  assertValidInstaller('WiX', validateWixDocument(document, listFiles(tempDir)));
+  const sourcePath = path.join(tempDir, 'installer.wxs');
+  fs.writeFileSync(sourcePath, renderWixDocument(document));
   
-  console.log(`Installer created successfully: ${finalInstallerPath}`);
-  return finalInstallerPath;
-}
-
-/**
- * Creates an Inno Setup script
- */
-function createInnoSetupScript(config: InstallerConfig, tempDir: string): string {
-  const appId = `com.scottieai.${config.appName.toLowerCase().replace(/[^a-z0-9]/g, '')}`;
-  const appFolder = path.join(tempDir, 'app');
-  
-  return `; Inno Setup Script for ${config.appName}
-; Generated by ScottieAI Collaborative Hub
-
-#define MyAppName "${config.appName}"
-#define MyAppVersion "${config.appVersion}"
-#define MyAppPublisher "${config.publisher}"
-#define MyAppURL "https://scottieai.com"
-#define MyAppExeName "launcher.exe"
-#define MyAppId "${appId}"
-
-[Setup]
-AppId={{{#MyAppId}}
-AppName={#MyAppName}
-AppVersion={#MyAppVersion}
-AppPublisher={#MyAppPublisher}
-AppPublisherURL={#MyAppURL}
-AppSupportURL={#MyAppURL}
-AppUpdatesURL={#MyAppURL}
-DefaultDirName={autopf}\\{#MyAppName}
-DefaultGroupName={#MyAppName}
-${config.licenseFile ? `LicenseFile=${config.licenseFile}` : '; No license file specified'}
-${config.iconPath ? `SetupIconFile=${config.iconPath}` : '; No icon file specified'}
-Compression=lzma
-SolidCompression=yes
-WizardStyle=modern
-${config.installerOptions.allowToChangeInstallationDirectory ? '' : 'DisableDirPage=yes'}
-${config.installerOptions.createStartMenuShortcut ? '' : 'DisableProgramGroupPage=yes'}
-
-[Languages]
-Name: "english"; MessagesFile: "compiler:Default.isl"
-
-[Tasks]
-Name: "desktopicon"; Description: "{cm:CreateDesktopIcon}"; GroupDescription: "{cm:AdditionalIcons}"; ${config.installerOptions.createDesktopShortcut ? 'Flags: checked' : ''}
-Name: "quicklaunchicon"; Description: "{cm:CreateQuickLaunchIcon}"; GroupDescription: "{cm:AdditionalIcons}"; Flags: unchecked; OnlyBelowVersion: 6.1; Check: not IsAdminInstallMode
-
-[Files]
-Source: "${appFolder}\\*"; DestDir: "{app}"; Flags: ignoreversion recursesubdirs createallsubdirs
-
-[Icons]
-Name: "{group}\\{#MyAppName}"; Filename: "{app}\\{#MyAppExeName}"
-Name: "{group}\\{cm:UninstallProgram,{#MyAppName}}"; Filename: "{uninstallexe}"
-Name: "{autodesktop}\\{#MyAppName}"; Filename: "{app}\\{#MyAppExeName}"; Tasks: desktopicon
-Name: "{userappdata}\\Microsoft\\Internet Explorer\\Quick Launch\\{#MyAppName}"; Filename: "{app}\\{#MyAppExeName}"; Tasks: quicklaunchicon
-
-[Run]
-${config.installerOptions.runAfterFinish ? `Filename: "{app}\\{#MyAppExeName}"; Description: "{cm:LaunchProgram,{#StringChange(MyAppName, '&', '&&')}}"; Flags: nowait postinstall skipifsilent` : '; No post-install run'}`;
+  // Run the WiX compiler with the extensions the source uses
+  console.log('Running WiX compiler...');
+  const outputFile = path.join('Output', `${config.appName}-${config.appVersion}.msi`);
+  execSync(
+    `wix build "${sourcePath}" -ext WixToolset.UI.wixext -ext WixToolset.Util.wixext -o "${outputFile}"`,
+    { cwd: tempDir }
+  );
+  
+  return collectInstaller(config, path.join(tempDir, 'Output'), '.msi', tempDir);
 }